@@ -16,6 +16,7 @@ interface FileUploadProps {
   disabled?: boolean;
   children?: React.ReactNode;
   error?: string;
+  typeLabel?: string; // Leesbare omschrijving van accept, bijv. "PDF, Word of CSV"
 }
 
 /**
@@ -38,6 +39,7 @@ export default function FileUpload({
   disabled = false,
   children,
   error,
+  typeLabel,
 }: FileUploadProps) {
   const inputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -198,7 +200,7 @@ export default function FileUpload({
               <span className="font-medium text-blue-600">Klik om te uploaden</span> of sleep bestanden hierheen
             </p>
             <p className="text-xs text-gray-400 mt-1">
-              {accept.replace(/\./g, '').toUpperCase()} bestanden
+              {typeLabel || `${accept.replace(/\./g, '').toUpperCase()} bestanden`}
               {maxSize && ` (max ${(maxSize / 1024 / 1024).toFixed(0)}MB)`}
             </p>
           </>
@@ -324,6 +324,10 @@ export default function CostsPage() {
                           <span className="text-gray-600">Avg Response:</span>
                           <span className="font-medium">{Math.round(tenantDetails.chats.avg_response_time_ms || 0)}ms</span>
                         </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Cache Hits:</span>
+                          <span className="font-medium">{tenantDetails.chats.cache_hits || 0}</span>
+                        </div>
                         <hr className="my-2 border-green-200" />
                         <div className="flex justify-between text-xs">
                           <span className="text-gray-500">Embedding:</span>
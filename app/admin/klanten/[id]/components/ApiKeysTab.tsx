@@ -0,0 +1,444 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  API_KEY_SCOPES,
+  API_KEY_TYPE_LABELS,
+  type ApiKeyScope,
+  type ApiKeyType,
+  type TenantApiKey
+} from '@/lib/shared/auth/api-key-types';
+
+/**
+ * ========================================
+ * API KEYS TAB
+ * ========================================
+ *
+ * Beheer van tenant API keys op de klant detail pagina:
+ * - Secret keys voor server-to-server integraties (scopes)
+ * - Public keys voor de embed widget (origin-restricted)
+ * - "API key verplicht" voor /api/chat
+ *
+ * De volledige key wordt alleen direct na het aanmaken getoond.
+ */
+
+interface ApiKeysTabProps {
+  tenantId: string;
+  requireApiKey: boolean;
+  onRequireApiKeyChange: (value: boolean) => Promise<void>;
+  onError: (message: string) => void;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  key_type: 'secret' as ApiKeyType,
+  scopes: ['chat'] as ApiKeyScope[],
+  allowed_origins: '',
+};
+
+export function ApiKeysTab({ tenantId, requireApiKey, onRequireApiKeyChange, onError }: ApiKeysTabProps) {
+  const [keys, setKeys] = useState<TenantApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [formLoading, setFormLoading] = useState(false);
+  const [createdKey, setCreatedKey] = useState<{ key: TenantApiKey; plainKey: string } | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [confirmingRevokeId, setConfirmingRevokeId] = useState<string | null>(null);
+  const [isSavingRequire, setIsSavingRequire] = useState(false);
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/klanten/${tenantId}/api-keys`);
+      if (!response.ok) throw new Error('Failed to fetch');
+      const data = await response.json();
+      setKeys(data.keys || []);
+    } catch {
+      onError('Kon API keys niet laden');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tenantId, onError]);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormLoading(true);
+
+    try {
+      const response = await fetch(`/api/admin/klanten/${tenantId}/api-keys`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          key_type: formData.key_type,
+          scopes: formData.scopes,
+          allowed_origins: formData.allowed_origins
+            .split(/[\n,]/)
+            .map(origin => origin.trim())
+            .filter(Boolean),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Kon API key niet aanmaken');
+      }
+
+      setCreatedKey({ key: data.key, plainKey: data.plainKey });
+      setShowForm(false);
+      setFormData(EMPTY_FORM);
+      fetchKeys();
+    } catch (err: unknown) {
+      onError(err instanceof Error ? err.message : 'Kon API key niet aanmaken');
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  const handleRevoke = async (keyId: string) => {
+    setConfirmingRevokeId(null);
+
+    try {
+      const response = await fetch(`/api/admin/klanten/${tenantId}/api-keys?key_id=${keyId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Kon API key niet intrekken');
+      }
+
+      fetchKeys();
+    } catch (err: unknown) {
+      onError(err instanceof Error ? err.message : 'Kon API key niet intrekken');
+    }
+  };
+
+  const handleToggleRequire = async () => {
+    setIsSavingRequire(true);
+    try {
+      await onRequireApiKeyChange(!requireApiKey);
+    } finally {
+      setIsSavingRequire(false);
+    }
+  };
+
+  const handleCopy = async (text: string, id: string) => {
+    await navigator.clipboard.writeText(text);
+    setCopied(id);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setFormData(prev => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter(s => s !== scope)
+        : [...prev.scopes, scope],
+    }));
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '-';
+    return new Date(dateString).toLocaleString('nl-NL', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const activePublicKeys = keys.filter(k => k.key_type === 'public' && !k.revoked_at).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Require API key */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 flex items-start justify-between gap-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">API key verplicht voor chat</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Als dit aan staat, weigert /api/chat requests zonder geldige key.
+            De embed widget heeft dan een public key nodig (<code>?key=lvt_pk_...</code>).
+          </p>
+          {requireApiKey && activePublicKeys === 0 && (
+            <p className="text-sm text-orange-600 mt-2">
+              Er is geen actieve public key: de embed widget werkt nu niet.
+            </p>
+          )}
+          {!requireApiKey && (
+            <p className="text-sm text-orange-600 mt-2">
+              Opt-in, staat standaard uit: zolang dit uit staat accepteert /api/chat elke request
+              met alleen de tenant slug, ook als er API keys zijn. Zet dit aan zodra de widget een public key gebruikt.
+            </p>
+          )}
+        </div>
+        <button
+          onClick={handleToggleRequire}
+          disabled={isSavingRequire}
+          className={`shrink-0 px-3 py-1.5 rounded text-sm font-medium transition-colors disabled:opacity-50 ${
+            requireApiKey
+              ? 'bg-green-100 text-green-800 hover:bg-green-200'
+              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          {requireApiKey ? 'Aan' : 'Uit'}
+        </button>
+      </div>
+
+      {/* Created key (eenmalig zichtbaar) */}
+      {createdKey && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-6 space-y-3">
+          <div className="flex items-start justify-between">
+            <div>
+              <h3 className="font-semibold text-yellow-900">Key aangemaakt: {createdKey.key.name}</h3>
+              <p className="text-sm text-yellow-800 mt-1">
+                Kopieer de key nu. Hij wordt alleen gehashed opgeslagen en is hierna niet meer zichtbaar.
+              </p>
+            </div>
+            <button onClick={() => setCreatedKey(null)} className="text-yellow-700 hover:text-yellow-900">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 px-3 py-2 bg-white border border-yellow-200 rounded-lg text-sm font-mono break-all">
+              {createdKey.plainKey}
+            </code>
+            <button
+              onClick={() => handleCopy(createdKey.plainKey, 'key')}
+              className="px-3 py-2 text-sm font-medium bg-yellow-600 text-white rounded-lg hover:bg-yellow-700"
+            >
+              {copied === 'key' ? 'Gekopieerd!' : 'Kopieer'}
+            </button>
+          </div>
+          {createdKey.key.key_type === 'public' && (
+            <div className="flex items-center gap-2">
+              <code className="flex-1 px-3 py-2 bg-white border border-yellow-200 rounded-lg text-xs font-mono break-all">
+                {`${typeof window !== 'undefined' ? window.location.origin : ''}/embed?tenant=${tenantId}&key=${createdKey.plainKey}`}
+              </code>
+              <button
+                onClick={() => handleCopy(`${window.location.origin}/embed?tenant=${tenantId}&key=${createdKey.plainKey}`, 'url')}
+                className="px-3 py-2 text-sm font-medium bg-yellow-100 text-yellow-800 rounded-lg hover:bg-yellow-200"
+              >
+                {copied === 'url' ? 'Gekopieerd!' : 'Kopieer embed URL'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Keys */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">API Keys</h2>
+          <button
+            onClick={() => setShowForm(true)}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+            </svg>
+            Key aanmaken
+          </button>
+        </div>
+
+        {/* Create Form */}
+        {showForm && (
+          <div className="p-6 bg-gray-50 border-b border-gray-200">
+            <form onSubmit={handleCreate} className="space-y-4 max-w-md">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Naam</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Teams bot productie"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                <select
+                  value={formData.key_type}
+                  onChange={(e) => setFormData({ ...formData, key_type: e.target.value as ApiKeyType })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="secret">{API_KEY_TYPE_LABELS.secret}</option>
+                  <option value="public">{API_KEY_TYPE_LABELS.public}</option>
+                </select>
+              </div>
+
+              {formData.key_type === 'secret' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Scopes</label>
+                  <div className="space-y-2">
+                    {API_KEY_SCOPES.map(scope => (
+                      <label key={scope.value} className="flex items-start gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={formData.scopes.includes(scope.value)}
+                          onChange={() => toggleScope(scope.value)}
+                          className="mt-0.5"
+                        />
+                        <span>
+                          <span className="font-medium text-gray-900">{scope.label}</span>
+                          <span className="block text-gray-500">{scope.description}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Toegestane origins</label>
+                  <textarea
+                    required
+                    rows={3}
+                    value={formData.allowed_origins}
+                    onChange={(e) => setFormData({ ...formData, allowed_origins: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+                    placeholder={'https://www.bedrijf.nl\nhttps://*.bedrijf.nl'}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Eén per regel. Public keys hebben alleen de scope Chat.
+                  </p>
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <button
+                  type="submit"
+                  disabled={formLoading}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:bg-blue-400"
+                >
+                  {formLoading ? 'Aanmaken...' : 'Aanmaken'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Annuleren
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {/* Keys Table */}
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Key
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Toegang
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Laatst gebruikt
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Acties
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                  Laden...
+                </td>
+              </tr>
+            ) : keys.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                  Nog geen API keys
+                </td>
+              </tr>
+            ) : (
+              keys.map((key) => (
+                <tr key={key.id} className={key.revoked_at ? 'bg-gray-50' : 'hover:bg-gray-50'}>
+                  <td className="px-6 py-4">
+                    <p className="font-medium text-gray-900">{key.name}</p>
+                    <p className="text-sm text-gray-500 font-mono">{key.key_prefix}…</p>
+                    <p className="text-xs text-gray-400">
+                      {API_KEY_TYPE_LABELS[key.key_type]} · {formatDate(key.created_at)}
+                      {key.created_by && ` · ${key.created_by}`}
+                    </p>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex flex-wrap gap-1">
+                      {key.scopes.map(scope => (
+                        <span key={scope} className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700">
+                          {API_KEY_SCOPES.find(s => s.value === scope)?.label || scope}
+                        </span>
+                      ))}
+                    </div>
+                    {key.allowed_origins.length > 0 && (
+                      <p className="text-xs text-gray-500 mt-1 font-mono">{key.allowed_origins.join(', ')}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDate(key.last_used_at)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      key.revoked_at ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                    }`}>
+                      {key.revoked_at ? 'Ingetrokken' : 'Actief'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    {!key.revoked_at && (
+                      confirmingRevokeId === key.id ? (
+                        <div className="flex items-center justify-end gap-2">
+                          <span className="text-xs text-gray-500" title="Resolved keys worden per server instance tot 60 seconden gecached">
+                            Werkt nog max. 60 sec.
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => handleRevoke(key.id)}
+                            className="px-3 py-1.5 text-xs font-medium bg-red-600 text-white rounded-lg hover:bg-red-700"
+                          >
+                            Intrekken
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setConfirmingRevokeId(null)}
+                            className="px-3 py-1.5 text-xs font-medium bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+                          >
+                            Annuleren
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => setConfirmingRevokeId(key.id)}
+                          className="text-red-600 hover:text-red-800 text-sm font-medium transition-colors"
+                        >
+                          Intrekken
+                        </button>
+                      )
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
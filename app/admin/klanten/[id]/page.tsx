@@ -3,6 +3,7 @@
 import { useState, useEffect, use } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import { ApiKeysTab } from './components/ApiKeysTab';
 
 /**
  * ========================================
@@ -13,6 +14,7 @@ import { useRouter } from 'next/navigation';
  * - Overzicht: basis info + producten
  * - Portal Users: beheer portal toegang
  * - Facturen: upload en bekijk facturen
+ * - API Keys: secret/public keys en "API key verplicht"
  */
 
 interface Product {
@@ -80,6 +82,7 @@ interface Klant {
   id: string;
   name: string;
   is_active: boolean;
+  require_api_key?: boolean;
   created_at: string;
   products: Product[];
   users: User[];
@@ -92,7 +95,7 @@ interface Klant {
   };
 }
 
-type Tab = 'overzicht' | 'users' | 'facturen';
+type Tab = 'overzicht' | 'users' | 'facturen' | 'api-keys';
 
 export default function AdminKlantDetailPage({
   params,
@@ -179,6 +182,21 @@ export default function AdminKlantDetailPage({
     }
   };
 
+  const handleRequireApiKeyChange = async (value: boolean) => {
+    try {
+      const response = await fetch(`/api/admin/klanten/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ require_api_key: value }),
+      });
+
+      if (!response.ok) throw new Error('Failed to update');
+      fetchKlant();
+    } catch {
+      setError('Kon API key instelling niet wijzigen');
+    }
+  };
+
   const handleCreateUser = async (e: React.FormEvent) => {
     e.preventDefault();
     setUserFormLoading(true);
@@ -300,6 +318,7 @@ export default function AdminKlantDetailPage({
     { id: 'overzicht', label: 'Overzicht' },
     { id: 'users', label: 'Portal Users', count: klant.stats.users_count },
     { id: 'facturen', label: 'Facturen', count: klant.stats.invoices_count },
+    { id: 'api-keys', label: 'API Keys' },
   ];
 
   return (
@@ -635,6 +654,15 @@ export default function AdminKlantDetailPage({
         </div>
       )}
 
+      {activeTab === 'api-keys' && (
+        <ApiKeysTab
+          tenantId={id}
+          requireApiKey={klant.require_api_key === true}
+          onRequireApiKeyChange={handleRequireApiKeyChange}
+          onError={setError}
+        />
+      )}
+
       {activeTab === 'facturen' && (
         <div className="bg-white rounded-xl shadow-sm border border-gray-200">
           {/* Header */}
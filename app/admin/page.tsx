@@ -1,5 +1,7 @@
 import Link from 'next/link';
 import { getAllTenantsWithStats, TenantWithStats, isSupabaseConfigured } from '@/lib/admin/tenant-service';
+import { getExpiringDocuments } from '@/lib/rag/document-validity-service';
+import { EXPIRY_WARNING_DAYS, ExpiringDocument } from '@/lib/rag/document-validity';
 
 /**
  * Admin Dashboard - Overview of all tenants and statistics
@@ -33,6 +35,45 @@ function ConfigurationWarning() {
   );
 }
 
+// Expiring documents warning component
+function ExpiringDocumentsWarning({ documents }: { documents: ExpiringDocument[] }) {
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl p-6">
+      <div className="flex items-start gap-4">
+        <div className="w-10 h-10 bg-amber-100 rounded-lg flex items-center justify-center flex-shrink-0">
+          <svg className="w-6 h-6 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="text-lg font-semibold text-amber-800">
+            {documents.length} {documents.length === 1 ? 'document expires' : 'documents expire'} within {EXPIRY_WARNING_DAYS} days
+          </h3>
+          <p className="text-amber-700 mt-1 text-sm">
+            Expired documents are no longer used to answer questions. Upload a new version or extend the validity.
+          </p>
+          <ul className="mt-3 space-y-1 text-sm text-amber-800">
+            {documents.map(doc => (
+              <li key={doc.id} className="flex items-center gap-2">
+                <Link
+                  href={`/admin/products/hr-bot/tenants/${doc.tenant_id}`}
+                  className="font-medium hover:underline truncate"
+                >
+                  {doc.filename}
+                </Link>
+                <span className="text-amber-600">({doc.tenant_name || doc.tenant_id})</span>
+                <span className="ml-auto flex-shrink-0">
+                  {doc.days_left === 0 ? 'expires today' : `${doc.days_left} ${doc.days_left === 1 ? 'day' : 'days'} left`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // Stats card component
 function StatCard({
   title,
@@ -156,6 +197,11 @@ export default async function AdminDashboard() {
   // Fetch tenants with stats (will return empty array if not configured)
   const tenants = await getAllTenantsWithStats();
 
+  // Documents that expire soon (valid_until within EXPIRY_WARNING_DAYS)
+  const { documents: expiringDocuments } = supabaseConfigured
+    ? await getExpiringDocuments()
+    : { documents: [] };
+
   // Calculate totals
   const totalTenants = tenants.length;
   const activeTenants = tenants.filter(t => t.is_active).length;
@@ -185,6 +231,9 @@ export default async function AdminDashboard() {
         </Link>
       </div>
 
+      {/* Expiring Documents Warning */}
+      {expiringDocuments.length > 0 && <ExpiringDocumentsWarning documents={expiringDocuments} />}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <StatCard
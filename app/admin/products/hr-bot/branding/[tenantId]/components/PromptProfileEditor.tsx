@@ -0,0 +1,286 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  PromptProfileVersion,
+  PromptTone,
+  PROMPT_TONE_OPTIONS,
+  DEFAULT_PROMPT_TONE
+} from '@/lib/products/hr-bot/prompt-profile-types';
+
+interface PromptProfileEditorProps {
+  tenantId: string;
+}
+
+interface ProfileDraft {
+  persona_name: string;
+  tone: PromptTone;
+  extra_rules: string;        // Eén regel per lijn
+  forbidden_topics: string;   // Eén onderwerp per lijn
+  escalation_contact: string;
+  change_note: string;
+}
+
+const EMPTY_DRAFT: ProfileDraft = {
+  persona_name: '',
+  tone: DEFAULT_PROMPT_TONE,
+  extra_rules: '',
+  forbidden_topics: '',
+  escalation_contact: '',
+  change_note: ''
+};
+
+function toDraft(profile: PromptProfileVersion | null): ProfileDraft {
+  if (!profile) return EMPTY_DRAFT;
+  return {
+    persona_name: profile.persona_name || '',
+    tone: profile.tone,
+    extra_rules: (profile.extra_rules || []).join('\n'),
+    forbidden_topics: (profile.forbidden_topics || []).join('\n'),
+    escalation_contact: profile.escalation_contact || '',
+    change_note: ''
+  };
+}
+
+function splitLines(value: string): string[] {
+  return value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+}
+
+/**
+ * Editor voor het versioned prompt profiel van een tenant.
+ * Slaat los van de branding op: elke save maakt een nieuwe versie.
+ */
+export default function PromptProfileEditor({ tenantId }: PromptProfileEditorProps) {
+  const [versions, setVersions] = useState<PromptProfileVersion[]>([]);
+  const [draft, setDraft] = useState<ProfileDraft>(EMPTY_DRAFT);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const apiUrl = `/api/admin/products/hr-bot/branding/${tenantId}/prompt-profile`;
+
+  const loadProfile = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(apiUrl);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load prompt profile');
+      }
+
+      setVersions(data.versions || []);
+      setDraft(toDraft(data.active));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [apiUrl]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const response = await fetch(apiUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          persona_name: draft.persona_name,
+          tone: draft.tone,
+          extra_rules: splitLines(draft.extra_rules),
+          forbidden_topics: splitLines(draft.forbidden_topics),
+          escalation_contact: draft.escalation_contact,
+          change_note: draft.change_note
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save prompt profile');
+      }
+
+      await loadProfile();
+    } catch (err) {
+      alert('Error: ' + (err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRollback = async (version: number) => {
+    if (!confirm(`Terugzetten naar versie ${version}? Dit maakt een nieuwe versie aan.`)) return;
+
+    try {
+      setSaving(true);
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rollbackToVersion: version })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to rollback');
+      }
+
+      await loadProfile();
+    } catch (err) {
+      alert('Error: ' + (err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm';
+  const activeVersion = versions[0]?.version;
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Prompt profiel laden...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        {activeVersion
+          ? `Actieve versie: v${activeVersion}. Opslaan maakt een nieuwe versie aan.`
+          : 'Nog geen profiel opgeslagen - de bot gebruikt de standaard prompt met de tenant naam.'}
+      </p>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Persona naam</label>
+        <input
+          type="text"
+          value={draft.persona_name}
+          onChange={(e) => setDraft({ ...draft, persona_name: e.target.value })}
+          placeholder="Sanne van HR"
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Toon</label>
+        <select
+          value={draft.tone}
+          onChange={(e) => setDraft({ ...draft, tone: e.target.value as PromptTone })}
+          className={inputClass}
+        >
+          {PROMPT_TONE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label} - {option.description}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Extra regels (één per regel)</label>
+        <textarea
+          value={draft.extra_rules}
+          onChange={(e) => setDraft({ ...draft, extra_rules: e.target.value })}
+          placeholder="Verwijs bij verlofvragen altijd naar het HR-portaal"
+          rows={4}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Verboden onderwerpen (één per regel)</label>
+        <textarea
+          value={draft.forbidden_topics}
+          onChange={(e) => setDraft({ ...draft, forbidden_topics: e.target.value })}
+          placeholder="Salarissen van collega's"
+          rows={3}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Escalatie contact</label>
+        <input
+          type="text"
+          value={draft.escalation_contact}
+          onChange={(e) => setDraft({ ...draft, escalation_contact: e.target.value })}
+          placeholder="hr@bedrijf.nl of de HR-afdeling (toestel 123)"
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Omschrijving wijziging (optioneel)</label>
+        <input
+          type="text"
+          value={draft.change_note}
+          onChange={(e) => setDraft({ ...draft, change_note: e.target.value })}
+          placeholder="Formele toon voor directie"
+          className={inputClass}
+        />
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="w-full py-2 bg-purple-600 text-white rounded-lg text-sm font-medium hover:bg-purple-700 transition-colors disabled:opacity-50"
+      >
+        {saving ? 'Opslaan...' : 'Prompt profiel opslaan als nieuwe versie'}
+      </button>
+
+      {/* Versie historie */}
+      {versions.length > 0 && (
+        <div className="border-t border-gray-100 pt-4">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="text-sm text-purple-600 hover:text-purple-700 font-medium"
+          >
+            {showHistory ? 'Verberg' : 'Toon'} versie historie ({versions.length})
+          </button>
+
+          {showHistory && (
+            <ul className="mt-3 space-y-2">
+              {versions.map(version => (
+                <li
+                  key={version.id}
+                  className="flex items-center justify-between gap-2 p-2 rounded-lg bg-gray-50 text-sm"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">
+                      v{version.version}
+                      {version.version === activeVersion && (
+                        <span className="ml-2 text-xs text-green-600">actief</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {new Date(version.created_at).toLocaleString('nl-NL')}
+                      {version.created_by ? ` · ${version.created_by}` : ''}
+                      {version.change_note ? ` · ${version.change_note}` : ''}
+                    </p>
+                  </div>
+                  {version.version !== activeVersion && (
+                    <button
+                      onClick={() => handleRollback(version.version)}
+                      disabled={saving}
+                      className="shrink-0 px-2 py-1 text-xs border border-gray-300 rounded hover:border-purple-400 hover:text-purple-600 transition-colors disabled:opacity-50"
+                    >
+                      Terugzetten
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,33 @@
 import { useEffect, useRef, useState } from 'react';
 import { TenantBranding, DEFAULT_UI_TEXTS, LanguageTexts } from '@/lib/admin/branding-types';
 import type { ExtractedBranding } from '@/lib/admin/url-extractor';
+import PromptProfileEditor from './PromptProfileEditor';
+import {
+  DEFAULT_CHAT_MODEL_SETTINGS,
+  SUPPORTED_CHAT_MODELS,
+  CHAT_TEMPERATURE_RANGE,
+  CHAT_HISTORY_WINDOW_RANGE,
+  CHAT_MAX_OUTPUT_TOKENS_RANGE
+} from '@/lib/bot/model-settings';
+import {
+  DEFAULT_HYBRID_SEARCH_SETTINGS,
+  SEARCH_TEXT_CONFIGS,
+  SEARCH_WEIGHT_RANGE,
+  SEARCH_RRF_K_RANGE,
+  SEARCH_SIMILARITY_THRESHOLD_RANGE,
+  SEARCH_KEYWORD_WEIGHT_RANGE
+} from '@/lib/rag/search-settings';
+import {
+  DEFAULT_ANSWER_CACHE_SETTINGS,
+  ANSWER_CACHE_THRESHOLD_RANGE,
+  ANSWER_CACHE_TTL_HOURS_RANGE
+} from '@/lib/rag/answer-cache-settings';
+import {
+  DEFAULT_USAGE_LIMITS,
+  RATE_LIMIT_PER_MINUTE_RANGE,
+  MONTHLY_MESSAGE_QUOTA_RANGE,
+  MONTHLY_COST_QUOTA_RANGE
+} from '@/lib/shared/usage-limits-settings';
 
 interface SettingsFormProps {
   tenant: TenantBranding;
@@ -984,6 +1011,324 @@ export default function SettingsForm({ tenant, onUpdate, activeField, onActiveFi
           isHighlighted={isHighlighted('enable_feedback')}
         />
       </Section>
+
+      {/* AI Model Section */}
+      <Section
+        title="AI model"
+        id="ai_model"
+        defaultOpen={false}
+        isHighlighted={sectionContainsHighlight(['chat_model', 'chat_temperature', 'chat_max_output_tokens', 'chat_history_window'])}
+        icon={
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z" />
+          </svg>
+        }
+      >
+        <div id="field-chat_model">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Chat model</label>
+          <select
+            value={tenant.chat_model || ''}
+            onChange={(e) => onUpdate({ chat_model: e.target.value || null })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm"
+          >
+            <option value="">Standaard ({DEFAULT_CHAT_MODEL_SETTINGS.model})</option>
+            {SUPPORTED_CHAT_MODELS.map(model => (
+              <option key={model.value} value={model.value}>{model.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div id="field-chat_temperature">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Temperature</label>
+            <input
+              type="number"
+              min={CHAT_TEMPERATURE_RANGE.min}
+              max={CHAT_TEMPERATURE_RANGE.max}
+              step={0.1}
+              value={tenant.chat_temperature ?? ''}
+              onChange={(e) => onUpdate({ chat_temperature: e.target.value === '' ? null : parseFloat(e.target.value) })}
+              placeholder={String(DEFAULT_CHAT_MODEL_SETTINGS.temperature)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm"
+            />
+          </div>
+          <div id="field-chat_max_output_tokens">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Max tokens</label>
+            <input
+              type="number"
+              min={CHAT_MAX_OUTPUT_TOKENS_RANGE.min}
+              max={CHAT_MAX_OUTPUT_TOKENS_RANGE.max}
+              step={64}
+              value={tenant.chat_max_output_tokens ?? ''}
+              onChange={(e) => onUpdate({ chat_max_output_tokens: e.target.value === '' ? null : parseInt(e.target.value, 10) })}
+              placeholder="Geen limiet"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm"
+            />
+          </div>
+          <div id="field-chat_history_window">
+            <label className="block text-sm font-medium text-gray-700 mb-1">History</label>
+            <input
+              type="number"
+              min={CHAT_HISTORY_WINDOW_RANGE.min}
+              max={CHAT_HISTORY_WINDOW_RANGE.max}
+              step={2}
+              value={tenant.chat_history_window ?? ''}
+              onChange={(e) => onUpdate({ chat_history_window: e.target.value === '' ? null : parseInt(e.target.value, 10) })}
+              placeholder={String(DEFAULT_CHAT_MODEL_SETTINGS.historyWindow)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Leeg laten = standaard waarde. History is het aantal eerdere berichten (vraag + antwoord = 2) dat meegaat naar het model.
+        </p>
+      </Section>
+
+      {/* Zoeken Section */}
+      <Section
+        title="Zoeken"
+        id="search"
+        defaultOpen={false}
+        isHighlighted={sectionContainsHighlight(['search_text_config', 'search_vector_weight', 'search_fulltext_weight', 'search_rrf_k', 'search_similarity_threshold', 'search_keyword_weight'])}
+        icon={
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+        }
+      >
+        <div id="field-search_text_config">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Full-text taal</label>
+          <select
+            value={tenant.search_text_config || ''}
+            onChange={(e) => onUpdate({ search_text_config: e.target.value || null })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm"
+          >
+            <option value="">Standaard (volgt documenttaal)</option>
+            {SEARCH_TEXT_CONFIGS.map(config => (
+              <option key={config.value} value={config.value}>{config.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div id="field-search_vector_weight">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Gewicht vector</label>
+            <input
+              type="number"
+              min={SEARCH_WEIGHT_RANGE.min}
+              max={SEARCH_WEIGHT_RANGE.max}
+              step={0.1}
+              value={tenant.search_vector_weight ?? ''}
+              onChange={(e) => onUpdate({ search_vector_weight: e.target.value === '' ? null : parseFloat(e.target.value) })}
+              placeholder={String(DEFAULT_HYBRID_SEARCH_SETTINGS.vectorWeight)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm"
+            />
+          </div>
+          <div id="field-search_fulltext_weight">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Gewicht full-text</label>
+            <input
+              type="number"
+              min={SEARCH_WEIGHT_RANGE.min}
+              max={SEARCH_WEIGHT_RANGE.max}
+              step={0.1}
+              value={tenant.search_fulltext_weight ?? ''}
+              onChange={(e) => onUpdate({ search_fulltext_weight: e.target.value === '' ? null : parseFloat(e.target.value) })}
+              placeholder={String(DEFAULT_HYBRID_SEARCH_SETTINGS.fulltextWeight)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm"
+            />
+          </div>
+          <div id="field-search_rrf_k">
+            <label className="block text-sm font-medium text-gray-700 mb-1">RRF k</label>
+            <input
+              type="number"
+              min={SEARCH_RRF_K_RANGE.min}
+              max={SEARCH_RRF_K_RANGE.max}
+              step={1}
+              value={tenant.search_rrf_k ?? ''}
+              onChange={(e) => onUpdate({ search_rrf_k: e.target.value === '' ? null : parseInt(e.target.value, 10) })}
+              placeholder={String(DEFAULT_HYBRID_SEARCH_SETTINGS.rrfK)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div id="field-search_similarity_threshold">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Min. similarity</label>
+            <input
+              type="number"
+              min={SEARCH_SIMILARITY_THRESHOLD_RANGE.min}
+              max={SEARCH_SIMILARITY_THRESHOLD_RANGE.max}
+              step={0.05}
+              value={tenant.search_similarity_threshold ?? ''}
+              onChange={(e) => onUpdate({ search_similarity_threshold: e.target.value === '' ? null : parseFloat(e.target.value) })}
+              placeholder={String(DEFAULT_HYBRID_SEARCH_SETTINGS.similarityThreshold)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm"
+            />
+          </div>
+          <div id="field-search_keyword_weight">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Metadata keywords</label>
+            <input
+              type="number"
+              min={SEARCH_KEYWORD_WEIGHT_RANGE.min}
+              max={SEARCH_KEYWORD_WEIGHT_RANGE.max}
+              step={0.05}
+              value={tenant.search_keyword_weight ?? ''}
+              onChange={(e) => onUpdate({ search_keyword_weight: e.target.value === '' ? null : parseFloat(e.target.value) })}
+              placeholder={String(DEFAULT_HYBRID_SEARCH_SETTINGS.keywordWeight)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Leeg laten = standaard waarde. Vector en full-text resultaten worden gecombineerd met reciprocal rank fusion;
+          full-text gewicht 0 zet full-text zoeken uit. Min. similarity geldt alleen voor de vector zoekstap.
+        </p>
+      </Section>
+
+      {/* Answer Cache Section */}
+      <Section
+        title="Antwoord cache"
+        id="answer_cache"
+        defaultOpen={false}
+        isHighlighted={sectionContainsHighlight(['answer_cache_enabled', 'answer_cache_threshold', 'answer_cache_ttl_hours'])}
+        icon={
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+          </svg>
+        }
+      >
+        <label id="field-answer_cache_enabled" className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={tenant.answer_cache_enabled ?? DEFAULT_ANSWER_CACHE_SETTINGS.enabled}
+            onChange={(e) => onUpdate({ answer_cache_enabled: e.target.checked })}
+            className="w-5 h-5 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+          />
+          <span className="text-sm font-medium text-gray-700">Veelgestelde vragen uit de cache beantwoorden</span>
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div id="field-answer_cache_threshold">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Min. similarity</label>
+            <input
+              type="number"
+              min={ANSWER_CACHE_THRESHOLD_RANGE.min}
+              max={ANSWER_CACHE_THRESHOLD_RANGE.max}
+              step={0.01}
+              value={tenant.answer_cache_threshold ?? ''}
+              onChange={(e) => onUpdate({ answer_cache_threshold: e.target.value === '' ? null : parseFloat(e.target.value) })}
+              placeholder={String(DEFAULT_ANSWER_CACHE_SETTINGS.similarityThreshold)}
+              disabled={!tenant.answer_cache_enabled}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm disabled:bg-gray-100"
+            />
+          </div>
+          <div id="field-answer_cache_ttl_hours">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Geldig (uren)</label>
+            <input
+              type="number"
+              min={ANSWER_CACHE_TTL_HOURS_RANGE.min}
+              max={ANSWER_CACHE_TTL_HOURS_RANGE.max}
+              step={1}
+              value={tenant.answer_cache_ttl_hours ?? ''}
+              onChange={(e) => onUpdate({ answer_cache_ttl_hours: e.target.value === '' ? null : parseInt(e.target.value, 10) })}
+              placeholder={String(DEFAULT_ANSWER_CACHE_SETTINGS.ttlHours)}
+              disabled={!tenant.answer_cache_enabled}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm disabled:bg-gray-100"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Alleen eerste vragen van een gesprek worden opgeslagen. De cache wordt automatisch geleegd
+          zodra een document wordt toegevoegd, opnieuw verwerkt of verwijderd.
+        </p>
+      </Section>
+
+      {/* Limieten Section */}
+      <Section
+        title="Limieten & quota"
+        id="usage_limits"
+        defaultOpen={false}
+        isHighlighted={sectionContainsHighlight(['rate_limit_chat_per_minute', 'rate_limit_api_per_minute', 'monthly_message_quota', 'monthly_cost_quota_usd'])}
+        icon={
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        }
+      >
+        <div className="grid grid-cols-2 gap-3">
+          <div id="field-rate_limit_chat_per_minute">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Chat / minuut per gebruiker</label>
+            <input
+              type="number"
+              min={RATE_LIMIT_PER_MINUTE_RANGE.min}
+              max={RATE_LIMIT_PER_MINUTE_RANGE.max}
+              step={1}
+              value={tenant.rate_limit_chat_per_minute ?? ''}
+              onChange={(e) => onUpdate({ rate_limit_chat_per_minute: e.target.value === '' ? null : parseInt(e.target.value, 10) })}
+              placeholder={String(DEFAULT_USAGE_LIMITS.chatPerMinute)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm"
+            />
+          </div>
+          <div id="field-rate_limit_api_per_minute">
+            <label className="block text-sm font-medium text-gray-700 mb-1">API / minuut per key</label>
+            <input
+              type="number"
+              min={RATE_LIMIT_PER_MINUTE_RANGE.min}
+              max={RATE_LIMIT_PER_MINUTE_RANGE.max}
+              step={1}
+              value={tenant.rate_limit_api_per_minute ?? ''}
+              onChange={(e) => onUpdate({ rate_limit_api_per_minute: e.target.value === '' ? null : parseInt(e.target.value, 10) })}
+              placeholder={String(DEFAULT_USAGE_LIMITS.apiPerMinute)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm"
+            />
+          </div>
+          <div id="field-monthly_message_quota">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Berichten per maand</label>
+            <input
+              type="number"
+              min={MONTHLY_MESSAGE_QUOTA_RANGE.min}
+              max={MONTHLY_MESSAGE_QUOTA_RANGE.max}
+              step={1}
+              value={tenant.monthly_message_quota ?? ''}
+              onChange={(e) => onUpdate({ monthly_message_quota: e.target.value === '' ? null : parseInt(e.target.value, 10) })}
+              placeholder="Onbeperkt"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm"
+            />
+          </div>
+          <div id="field-monthly_cost_quota_usd">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Max. kosten per maand ($)</label>
+            <input
+              type="number"
+              min={MONTHLY_COST_QUOTA_RANGE.min}
+              max={MONTHLY_COST_QUOTA_RANGE.max}
+              step={0.01}
+              value={tenant.monthly_cost_quota_usd ?? ''}
+              onChange={(e) => onUpdate({ monthly_cost_quota_usd: e.target.value === '' ? null : parseFloat(e.target.value) })}
+              placeholder="Onbeperkt"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Quota gelden per kalendermaand en tellen alleen chat berichten (ook via de API).
+          Is een quota op, dan krijgen gebruikers een melding in plaats van een antwoord.
+        </p>
+      </Section>
+
+      {/* Prompt Profiel Section */}
+      <Section
+        title="Prompt profiel"
+        id="prompt_profile"
+        defaultOpen={false}
+        icon={
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+          </svg>
+        }
+      >
+        <PromptProfileEditor tenantId={tenant.id} />
+      </Section>
     </div>
   );
 }
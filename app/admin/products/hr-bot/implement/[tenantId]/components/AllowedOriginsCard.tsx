@@ -0,0 +1,196 @@
+/**
+ * ========================================
+ * ALLOWED ORIGINS CARD
+ * ========================================
+ *
+ * Beheer van de domeinen die de chatbot mogen embedden
+ * (tenants.embed_allowed_origins) en een overzicht van geweigerde
+ * pogingen vanaf andere domeinen.
+ */
+
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { normalizeOrigin } from '@/lib/shared/auth/api-key-types';
+
+interface EmbedViolation {
+  id: string;
+  kind: 'frame' | 'api';
+  origin: string;
+  referer: string | null;
+  path: string;
+  created_at: string;
+}
+
+interface AllowedOriginsCardProps {
+  tenantId: string;
+  initialOrigins: string[];
+  primaryColor: string;
+}
+
+const KIND_LABELS: Record<EmbedViolation['kind'], string> = {
+  frame: 'Iframe',
+  api: 'Chat API',
+};
+
+export default function AllowedOriginsCard({ tenantId, initialOrigins, primaryColor }: AllowedOriginsCardProps) {
+  const [originsText, setOriginsText] = useState(initialOrigins.join('\n'));
+  const [savedOrigins, setSavedOrigins] = useState<string[]>(initialOrigins);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [violations, setViolations] = useState<EmbedViolation[]>([]);
+  const [violationsLoading, setViolationsLoading] = useState(true);
+
+  const fetchViolations = useCallback(async () => {
+    try {
+      setViolationsLoading(true);
+      const response = await fetch(`/api/admin/products/hr-bot/branding/${tenantId}/embed-violations`);
+      const data = await response.json();
+      if (response.ok) {
+        setViolations(data.violations || []);
+      }
+    } catch (err) {
+      console.error('Failed to fetch embed violations:', err);
+    } finally {
+      setViolationsLoading(false);
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    fetchViolations();
+  }, [fetchViolations]);
+
+  const handleSave = async () => {
+    const lines = originsText.split(/[\n,]/).map(line => line.trim()).filter(Boolean);
+    const invalid = lines.filter(line => !normalizeOrigin(line));
+
+    if (invalid.length > 0) {
+      setMessage({ type: 'error', text: `Ongeldig domein: ${invalid.join(', ')}` });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setMessage(null);
+
+      const response = await fetch(`/api/admin/products/hr-bot/branding/${tenantId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ embed_allowed_origins: lines }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Opslaan mislukt');
+      }
+
+      const origins: string[] = data.tenant?.embed_allowed_origins || [];
+      setSavedOrigins(origins);
+      setOriginsText(origins.join('\n'));
+      setMessage({ type: 'success', text: 'Domeinen opgeslagen' });
+    } catch (err) {
+      setMessage({ type: 'error', text: (err as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isDirty = originsText.split(/[\n,]/).map(line => line.trim()).filter(Boolean).join('\n') !== savedOrigins.join('\n');
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Toegestane domeinen */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-8 h-8 rounded-full flex items-center justify-center text-white" style={{ backgroundColor: primaryColor }}>
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+            </svg>
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Toegestane domeinen</h2>
+            <p className="text-sm text-gray-500">Alleen deze websites mogen de chatbot embedden</p>
+          </div>
+        </div>
+
+        <textarea
+          value={originsText}
+          onChange={(e) => setOriginsText(e.target.value)}
+          rows={5}
+          placeholder={'https://www.klant.nl\nhttps://*.klant.nl'}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+        />
+        <p className="text-xs text-gray-500 mt-2">
+          Eén domein per regel, inclusief https://. Gebruik <code className="bg-gray-100 px-1 rounded">https://*.klant.nl</code> voor alle subdomeinen.
+          {savedOrigins.length === 0 && ' Zonder domeinen geldt de globale lijst (ALLOWED_EMBED_DOMAINS); is die niet ingesteld, dan mag /api/chat vanaf elk domein aangeroepen worden.'}
+        </p>
+
+        {message && (
+          <p className={`text-sm mt-3 ${message.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>
+            {message.text}
+          </p>
+        )}
+
+        <div className="flex justify-end mt-4">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || !isDirty}
+            className="px-4 py-2 rounded-lg text-white font-medium text-sm transition-colors disabled:opacity-50"
+            style={{ backgroundColor: primaryColor }}
+          >
+            {saving ? 'Opslaan...' : 'Opslaan'}
+          </button>
+        </div>
+      </div>
+
+      {/* Geweigerde pogingen */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Geweigerde pogingen</h2>
+            <p className="text-sm text-gray-500">Websites die de chatbot zonder toestemming proberen te gebruiken</p>
+          </div>
+          <button
+            type="button"
+            onClick={fetchViolations}
+            className="text-sm text-gray-500 hover:text-gray-700 font-medium"
+          >
+            Vernieuwen
+          </button>
+        </div>
+
+        {violationsLoading ? (
+          <p className="text-sm text-gray-500">Laden...</p>
+        ) : violations.length === 0 ? (
+          <p className="text-sm text-gray-500">Geen geweigerde pogingen</p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-100">
+                  <th className="py-2 pr-3 font-medium">Domein</th>
+                  <th className="py-2 pr-3 font-medium">Type</th>
+                  <th className="py-2 font-medium">Tijdstip</th>
+                </tr>
+              </thead>
+              <tbody>
+                {violations.map((violation) => (
+                  <tr key={violation.id} className="border-b border-gray-50">
+                    <td className="py-2 pr-3 font-mono text-xs text-gray-900 break-all" title={violation.referer || undefined}>
+                      {violation.origin}
+                    </td>
+                    <td className="py-2 pr-3 text-gray-600">{KIND_LABELS[violation.kind]}</td>
+                    <td className="py-2 text-gray-500 whitespace-nowrap">
+                      {new Date(violation.created_at).toLocaleString('nl-NL')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
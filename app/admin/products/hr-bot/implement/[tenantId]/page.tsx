@@ -6,6 +6,8 @@
  * Twee opties voor implementatie:
  * 1. Volledige pagina (embed op aparte pagina)
  * 2. Floating widget (popup knop rechtsonder)
+ *
+ * Daaronder de toegestane embed domeinen van de tenant.
  */
 
 'use client';
@@ -13,12 +15,14 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
+import AllowedOriginsCard from './components/AllowedOriginsCard';
 
 interface TenantInfo {
   id: string;
   name: string;
   primary_color: string;
   logo_url: string | null;
+  embed_allowed_origins?: string[];
 }
 
 export default function ImplementPage() {
@@ -812,6 +816,13 @@ export default function ImplementPage() {
           </div>
         </div>
       )}
+
+      {/* Toegestane domeinen + geweigerde pogingen */}
+      <AllowedOriginsCard
+        tenantId={tenantId}
+        initialOrigins={tenant.embed_allowed_origins || []}
+        primaryColor={tenant.primary_color || '#8B5CF6'}
+      />
     </div>
   );
 }
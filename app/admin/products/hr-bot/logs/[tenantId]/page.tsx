@@ -23,6 +23,7 @@ interface RawSearchResult {
   chunkId?: string;
   content?: string;
   sectionTitle?: string;
+  documentVersion?: number;
 }
 
 interface RerankingResult {
@@ -553,15 +554,36 @@ export default function TenantLogsPage() {
                         </td>
                         <td className="px-4 py-3 text-right whitespace-nowrap text-sm text-gray-900">
                           {log.total_pages !== null && log.total_pages !== undefined ? log.total_pages : '-'}
+                          {!!log.ocr_pages && (
+                            <span
+                              className="ml-1 text-xs text-amber-600"
+                              title={`OCR (${log.ocr_engine || 'onbekend'}): ${log.ocr_pages} pagina's in ${log.ocr_duration_ms ? formatResponseTime(log.ocr_duration_ms) : '-'}`}
+                            >
+                              (OCR {log.ocr_pages})
+                            </span>
+                          )}
                         </td>
                         <td className="px-4 py-3 text-right whitespace-nowrap text-sm text-gray-900">
                           {log.chunks_created !== null && log.chunks_created !== undefined ? log.chunks_created : '-'}
+                          {log.chunks_reused !== null && log.chunks_reused !== undefined && (
+                            <span
+                              className="ml-1 text-xs text-green-600"
+                              title={`Herverwerkt: ${log.chunks_reused} chunks hergebruikt, ${log.chunks_embedded ?? 0} opnieuw ge-embed`}
+                            >
+                              ({log.chunks_reused} hergebruikt)
+                            </span>
+                          )}
                         </td>
                         <td className="px-4 py-3 text-right whitespace-nowrap text-sm text-gray-900">
                           {log.structures_detected !== null && log.structures_detected !== undefined ? log.structures_detected : '-'}
                         </td>
                         <td className="px-4 py-3 text-right whitespace-nowrap text-sm text-gray-900">
                           {log.total_cost ? formatCost(log.total_cost) : '-'}
+                          {!!log.cost_saved && (
+                            <span className="block text-xs text-green-600" title="Geschatte besparing door hergebruik van embeddings">
+                              -{formatCost(log.cost_saved)}
+                            </span>
+                          )}
                         </td>
                         <td className="px-4 py-3 text-right whitespace-nowrap text-sm text-gray-900">
                           {log.total_duration_ms ? formatResponseTime(log.total_duration_ms) : '-'}
@@ -888,7 +910,12 @@ function LogDetailModal({ log, onClose }: LogDetailModalProps) {
                         {ragDetails.search.rawResults.map((result: RawSearchResult, i: number) => (
                           <tr key={i} className="hover:bg-gray-50">
                             <td className="px-3 py-2 text-gray-500">{i + 1}</td>
-                            <td className="px-3 py-2 text-gray-900 max-w-xs truncate">{result.filename}</td>
+                            <td className="px-3 py-2 text-gray-900 max-w-xs truncate">
+                              {result.filename}
+                              {result.documentVersion && result.documentVersion > 1 && (
+                                <span className="ml-1 text-xs text-gray-400">v{result.documentVersion}</span>
+                              )}
+                            </td>
                             <td className="px-3 py-2 text-right text-gray-600">{result.pageNumber || '-'}</td>
                             <td className="px-3 py-2 text-right">
                               <span className={`font-mono ${result.similarity >= 0.7 ? 'text-green-600' : result.similarity >= 0.5 ? 'text-yellow-600' : 'text-red-600'}`}>
@@ -0,0 +1,555 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import {
+  CrawlPage,
+  CrawlPageStatus,
+  CrawlSource,
+  CrawlStartType,
+  CRAWL_INTERVAL_OPTIONS,
+  DEFAULT_CRAWL_MAX_DEPTH,
+  DEFAULT_CRAWL_MAX_PAGES,
+  MAX_CRAWL_DEPTH,
+  MAX_CRAWL_PAGES
+} from '@/lib/rag/crawl-sources';
+
+// ========================================
+// TYPES
+// ========================================
+
+interface CrawlSourcesSectionProps {
+  tenantId: string;
+}
+
+interface SourceDraft {
+  name: string;
+  start_url: string;
+  start_type: CrawlStartType;
+  include_patterns: string;    // Eén patroon per regel
+  exclude_patterns: string;
+  max_depth: number;
+  max_pages: number;
+  recrawl_interval_hours: number | null;
+  is_active: boolean;
+}
+
+// ========================================
+// UTILITIES
+// ========================================
+
+const EMPTY_DRAFT: SourceDraft = {
+  name: '',
+  start_url: '',
+  start_type: 'page',
+  include_patterns: '',
+  exclude_patterns: '',
+  max_depth: DEFAULT_CRAWL_MAX_DEPTH,
+  max_pages: DEFAULT_CRAWL_MAX_PAGES,
+  recrawl_interval_hours: 24 * 7,
+  is_active: true
+};
+
+const PAGE_STATUS_STYLES: Record<CrawlPageStatus, string> = {
+  indexed: 'bg-green-50 text-green-700',
+  updated: 'bg-blue-50 text-blue-700',
+  unchanged: 'bg-gray-100 text-gray-600',
+  failed: 'bg-red-50 text-red-700',
+  removed: 'bg-gray-100 text-gray-400'
+};
+
+// Status van de bron verversen zolang er een crawl loopt
+const POLL_INTERVAL_MS = 5000;
+
+function toDraft(source: CrawlSource): SourceDraft {
+  return {
+    name: source.name,
+    start_url: source.start_url,
+    start_type: source.start_type,
+    include_patterns: source.include_patterns.join('\n'),
+    exclude_patterns: source.exclude_patterns.join('\n'),
+    max_depth: source.max_depth,
+    max_pages: source.max_pages,
+    recrawl_interval_hours: source.recrawl_interval_hours,
+    is_active: source.is_active
+  };
+}
+
+function toPayload(draft: SourceDraft) {
+  return {
+    ...draft,
+    include_patterns: draft.include_patterns.split('\n'),
+    exclude_patterns: draft.exclude_patterns.split('\n')
+  };
+}
+
+function intervalLabel(hours: number | null): string {
+  return CRAWL_INTERVAL_OPTIONS.find(option => option.value === hours)?.label || `Elke ${hours} uur`;
+}
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString('nl-NL', { dateStyle: 'short', timeStyle: 'short' }) : '-';
+}
+
+// ========================================
+// COMPONENT
+// ========================================
+
+/**
+ * Websites als kennisbron: start URL of sitemap, patronen, diepte en
+ * crawl interval. Pagina's worden als documenten geïndexeerd.
+ */
+export default function CrawlSourcesSection({ tenantId }: CrawlSourcesSectionProps) {
+  const [sources, setSources] = useState<CrawlSource[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Formulier (nieuw of bewerken)
+  const [draft, setDraft] = useState<SourceDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  // Pagina's van één bron
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [pages, setPages] = useState<CrawlPage[]>([]);
+
+  const apiUrl = `/api/admin/products/hr-bot/tenants/${tenantId}/crawl-sources`;
+  const anyRunning = sources.some(source => source.crawl_status === 'running');
+
+  // ========================================
+  // DATA LOADING
+  // ========================================
+
+  const loadSources = useCallback(async () => {
+    try {
+      const response = await fetch(apiUrl);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to load crawl sources');
+      }
+
+      setSources(data.sources || []);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [apiUrl]);
+
+  const loadPages = useCallback(async (sourceId: string) => {
+    try {
+      const response = await fetch(`${apiUrl}/${sourceId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to load pages');
+      }
+
+      setPages(data.pages || []);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [apiUrl]);
+
+  useEffect(() => {
+    loadSources();
+  }, [loadSources]);
+
+  useEffect(() => {
+    if (!anyRunning) return;
+
+    const timer = setInterval(() => {
+      loadSources();
+      if (expandedId) loadPages(expandedId);
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [anyRunning, expandedId, loadSources, loadPages]);
+
+  // Auto-dismiss success message after 5 seconds
+  useEffect(() => {
+    if (message) {
+      const timer = setTimeout(() => setMessage(null), 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [message]);
+
+  // ========================================
+  // HANDLERS
+  // ========================================
+
+  const resetForm = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+    setShowForm(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch(editingId ? `${apiUrl}/${editingId}` : apiUrl, {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toPayload(draft))
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save crawl source');
+      }
+
+      resetForm();
+      await loadSources();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCrawlNow = async (source: CrawlSource) => {
+    try {
+      setError(null);
+
+      const response = await fetch(`${apiUrl}/${source.id}/crawl`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to start crawl');
+      }
+
+      setMessage(`Crawl van "${source.name}" gestart`);
+      setSources(prev => prev.map(s => (s.id === source.id ? { ...s, crawl_status: 'running' } : s)));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDelete = async (source: CrawlSource) => {
+    if (!confirm(`Bron "${source.name}" verwijderen?`)) return;
+    const deleteDocuments = confirm('Ook de geïndexeerde pagina\'s uit de documenten verwijderen?');
+
+    try {
+      const response = await fetch(`${apiUrl}/${source.id}?deleteDocuments=${deleteDocuments}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to delete crawl source');
+      }
+
+      if (editingId === source.id) resetForm();
+      if (expandedId === source.id) setExpandedId(null);
+      setSources(prev => prev.filter(s => s.id !== source.id));
+      if (data.deletedDocuments > 0) {
+        setMessage(`${data.deletedDocuments} documenten verwijderd`);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleTogglePages = async (source: CrawlSource) => {
+    if (expandedId === source.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(source.id);
+    setPages([]);
+    await loadPages(source.id);
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+  // ========================================
+  // RENDER
+  // ========================================
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-gray-600">
+          Websites en intranetpagina&apos;s die als documenten worden geïndexeerd. robots.txt wordt
+          gerespecteerd; bij een nieuwe crawl worden alleen gewijzigde pagina&apos;s opnieuw verwerkt en
+          verdwenen pagina&apos;s uit de index gehaald.
+        </p>
+        {!showForm && (
+          <button
+            type="button"
+            onClick={() => { setDraft(EMPTY_DRAFT); setEditingId(null); setShowForm(true); }}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium whitespace-nowrap"
+          >
+            Website toevoegen
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 whitespace-pre-line">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+          {message}
+        </div>
+      )}
+
+      {/* Source form */}
+      {showForm && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-12 gap-3 p-4 bg-gray-50 rounded-lg">
+          <div className="md:col-span-3">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Naam</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="bijv. Werken bij"
+              className={inputClass}
+              required
+            />
+          </div>
+          <div className="md:col-span-6">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Start URL</label>
+            <input
+              type="url"
+              value={draft.start_url}
+              onChange={(e) => setDraft({ ...draft, start_url: e.target.value })}
+              placeholder="https://werkenbij.voorbeeld.nl/"
+              className={inputClass}
+              required
+            />
+          </div>
+          <div className="md:col-span-3">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Type</label>
+            <select
+              value={draft.start_type}
+              onChange={(e) => setDraft({ ...draft, start_type: e.target.value as CrawlStartType })}
+              className={inputClass}
+            >
+              <option value="page">Pagina (links volgen)</option>
+              <option value="sitemap">Sitemap (XML)</option>
+            </select>
+          </div>
+          <div className="md:col-span-6">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Alleen deze paden (één per regel)</label>
+            <textarea
+              value={draft.include_patterns}
+              onChange={(e) => setDraft({ ...draft, include_patterns: e.target.value })}
+              placeholder={'/beleid\n/arbeidsvoorwaarden/*'}
+              rows={3}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <div className="md:col-span-6">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Uitsluiten (één per regel)</label>
+            <textarea
+              value={draft.exclude_patterns}
+              onChange={(e) => setDraft({ ...draft, exclude_patterns: e.target.value })}
+              placeholder={'/vacatures\n/nieuws/*'}
+              rows={3}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Max. diepte</label>
+            <input
+              type="number"
+              min={0}
+              max={MAX_CRAWL_DEPTH}
+              value={draft.max_depth}
+              onChange={(e) => setDraft({ ...draft, max_depth: parseInt(e.target.value, 10) || 0 })}
+              className={inputClass}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Max. pagina&apos;s</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_CRAWL_PAGES}
+              value={draft.max_pages}
+              onChange={(e) => setDraft({ ...draft, max_pages: parseInt(e.target.value, 10) || 1 })}
+              className={inputClass}
+            />
+          </div>
+          <div className="md:col-span-3">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Opnieuw crawlen</label>
+            <select
+              value={draft.recrawl_interval_hours ?? ''}
+              onChange={(e) => setDraft({ ...draft, recrawl_interval_hours: e.target.value ? parseInt(e.target.value, 10) : null })}
+              className={inputClass}
+            >
+              {CRAWL_INTERVAL_OPTIONS.map(option => (
+                <option key={option.label} value={option.value ?? ''}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2 flex items-end pb-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.is_active}
+                onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              Actief
+            </label>
+          </div>
+          <div className="md:col-span-3 flex items-end gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+            >
+              {editingId ? 'Opslaan' : 'Toevoegen'}
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-3 py-2 text-gray-600 hover:text-gray-800 text-sm font-medium"
+            >
+              Annuleren
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Sources table */}
+      {loading ? (
+        <p className="text-sm text-gray-500">Laden...</p>
+      ) : sources.length === 0 ? (
+        <p className="text-sm text-gray-500">Nog geen websites toegevoegd.</p>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase">
+              <tr>
+                <th className="px-3 py-2">Bron</th>
+                <th className="px-3 py-2">Status</th>
+                <th className="px-3 py-2">Laatste crawl</th>
+                <th className="px-3 py-2">Volgende</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {sources.map(source => {
+                const stats = source.last_stats;
+                const isRunning = source.crawl_status === 'running';
+
+                return (
+                  <Fragment key={source.id}>
+                    <tr className={source.is_active ? '' : 'opacity-50'}>
+                      <td className="px-3 py-2">
+                        <p className="font-medium text-gray-900">{source.name}</p>
+                        <p className="text-xs text-gray-500 truncate max-w-xs" title={source.start_url}>
+                          {source.start_type === 'sitemap' ? 'Sitemap: ' : ''}{source.start_url}
+                        </p>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <span
+                          className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                            isRunning ? 'bg-blue-50 text-blue-700' :
+                            source.crawl_status === 'failed' ? 'bg-red-50 text-red-700' :
+                            source.crawl_status === 'completed' ? 'bg-green-50 text-green-700' :
+                            'bg-gray-100 text-gray-600'
+                          }`}
+                          title={source.last_error || undefined}
+                        >
+                          {isRunning ? 'Bezig...' : source.crawl_status === 'idle' ? 'Nog niet gecrawld' : source.crawl_status}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-xs text-gray-600">
+                        <p>{formatDateTime(source.last_crawled_at)}</p>
+                        {stats.pagesFetched !== undefined && (
+                          <p className="text-gray-500">
+                            {stats.indexed} nieuw, {stats.updated} gewijzigd, {stats.unchanged} ongewijzigd,{' '}
+                            {stats.removed} weg{stats.failed ? `, ${stats.failed} mislukt` : ''}
+                            {stats.truncated ? ' (afgekapt)' : ''}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-gray-600 whitespace-nowrap">
+                        <p>{source.is_active ? formatDateTime(source.next_crawl_at) : 'Uitgeschakeld'}</p>
+                        <p className="text-gray-500">{intervalLabel(source.recrawl_interval_hours)}</p>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-right">
+                        <button
+                          type="button"
+                          onClick={() => handleCrawlNow(source)}
+                          disabled={isRunning}
+                          className="text-blue-600 hover:text-blue-800 disabled:opacity-50 text-xs font-medium mr-3"
+                        >
+                          Nu crawlen
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleTogglePages(source)}
+                          className="text-gray-600 hover:text-gray-800 text-xs font-medium mr-3"
+                        >
+                          {expandedId === source.id ? 'Verbergen' : 'Pagina\'s'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => { setDraft(toDraft(source)); setEditingId(source.id); setShowForm(true); }}
+                          className="text-blue-600 hover:text-blue-800 text-xs font-medium mr-3"
+                        >
+                          Bewerken
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(source)}
+                          className="text-red-600 hover:text-red-800 text-xs font-medium"
+                        >
+                          Verwijderen
+                        </button>
+                      </td>
+                    </tr>
+
+                    {/* Pages of the last crawl */}
+                    {expandedId === source.id && (
+                      <tr>
+                        <td colSpan={5} className="px-3 py-3 bg-gray-50">
+                          {pages.length === 0 ? (
+                            <p className="text-xs text-gray-500">Nog geen pagina&apos;s gecrawld.</p>
+                          ) : (
+                            <ul className="space-y-1 max-h-64 overflow-auto">
+                              {pages.map(page => (
+                                <li key={page.id} className="flex items-center gap-2 text-xs">
+                                  <span className={`inline-flex px-2 py-0.5 rounded-full font-medium ${PAGE_STATUS_STYLES[page.status]}`}>
+                                    {page.status}
+                                  </span>
+                                  <a
+                                    href={page.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-gray-700 hover:underline truncate"
+                                    title={page.title || page.url}
+                                  >
+                                    {page.url}
+                                  </a>
+                                  {page.last_error && (
+                                    <span className="text-red-600 truncate" title={page.last_error}>{page.last_error}</span>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
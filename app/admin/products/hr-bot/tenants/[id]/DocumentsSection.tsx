@@ -1,8 +1,12 @@
 'use client';
 
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { Fragment, useState, useRef, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { Document } from '@/lib/rag/types';
+import { DOCUMENT_UPLOAD_ACCEPT, SUPPORTED_DOCUMENT_LABEL, isSupportedDocument } from '@/lib/rag/document-types';
+import type { DocumentVersion, DocumentVersionDiff } from '@/lib/rag/document-versions';
+import { daysUntil, getValidityStatus } from '@/lib/rag/document-validity';
+import type { DocumentImportReport } from '@/lib/rag/document-import';
 import ConfirmModal from '@/app/admin/components/ConfirmModal';
 
 // ========================================
@@ -20,15 +24,23 @@ interface FileUploadItem {
   status: 'pending' | 'uploading' | 'processing' | 'completed' | 'failed';
   progress: number;
   error?: string;
+  documentId?: string;   // Nieuwe versie van een bestaand document
 }
 
 interface ProcessingStatus {
   documentId: string;
   filename: string;
-  phase: 'uploading' | 'parsing' | 'chunking' | 'embedding' | 'metadata' | 'completed' | 'failed';
+  phase: 'uploading' | 'queued' | 'parsing' | 'chunking' | 'embedding' | 'metadata' | 'completed' | 'failed';
   chunksCreated?: number;
   totalPages?: number;
   errorMessage?: string;
+  jobId?: string;
+  attempts?: number;
+  maxAttempts?: number;
+  nextRetryAt?: string;
+  totalChunks?: number;
+  storedChunks?: number;
+  cancelRequested?: boolean;
 }
 
 interface DeleteModalState {
@@ -36,12 +48,28 @@ interface DeleteModalState {
   document: Document | null;
 }
 
+interface RollbackModalState {
+  isOpen: boolean;
+  document: Document | null;
+  version: DocumentVersion | null;
+}
+
+interface ValidityForm {
+  validFrom: string;
+  validUntil: string;
+}
+
 // ========================================
 // CONSTANTS
 // ========================================
 
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 
+const isZipFile = (file: File) => /\.zip$/i.test(file.name);
+
+// Bij een map selectie: pad binnen de map (wordt categorie en tags)
+const getRelativePath = (file: File) => file.webkitRelativePath || file.name;
+
 // ========================================
 // UTILITIES
 // ========================================
@@ -76,6 +104,11 @@ export default function DocumentsSection({ tenantId, documents }: DocumentsSecti
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Bulk import state (ZIP, map of meerdere bestanden)
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importReport, setImportReport] = useState<DocumentImportReport | null>(null);
+
   // Processing status from polling
   const [processingStatuses, setProcessingStatuses] = useState<Record<string, ProcessingStatus>>({});
 
@@ -86,6 +119,26 @@ export default function DocumentsSection({ tenantId, documents }: DocumentsSecti
   });
   const [isDeleting, setIsDeleting] = useState(false);
 
+  // Versions state
+  const versionInputRef = useRef<HTMLInputElement>(null);
+  const [versionTarget, setVersionTarget] = useState<Document | null>(null);
+  const [expandedDocumentId, setExpandedDocumentId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<Record<string, DocumentVersion[]>>({});
+  const [versionsLoading, setVersionsLoading] = useState(false);
+  const [versionDiff, setVersionDiff] = useState<DocumentVersionDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [rollbackModal, setRollbackModal] = useState<RollbackModalState>({
+    isOpen: false,
+    document: null,
+    version: null,
+  });
+  const [isRollingBack, setIsRollingBack] = useState(false);
+
+  // Validity state
+  const [validityDocumentId, setValidityDocumentId] = useState<string | null>(null);
+  const [validityForm, setValidityForm] = useState<ValidityForm>({ validFrom: '', validUntil: '' });
+  const [isSavingValidity, setIsSavingValidity] = useState(false);
+
   // Check if any documents are processing
   const hasProcessingDocuments = documents.some(
     doc => doc.processing_status === 'processing' || doc.processing_status === 'pending'
@@ -177,13 +230,19 @@ export default function DocumentsSection({ tenantId, documents }: DocumentsSecti
   };
 
   const handleFilesSelected = (files: File[]) => {
+    // ZIP, map of meerdere bestanden: bulk import met rapport per bestand
+    if (files.length > 1 || files.some(isZipFile)) {
+      importFiles(files);
+      return;
+    }
+
     const validFiles: FileUploadItem[] = [];
     const errors: string[] = [];
 
     for (const file of files) {
-      // Validate PDF type
-      if (file.type !== 'application/pdf') {
-        errors.push(`${file.name}: Geen PDF bestand`);
+      // Validate document type
+      if (!isSupportedDocument(file.name, file.type)) {
+        errors.push(`${file.name}: Bestandstype niet ondersteund`);
         continue;
       }
 
@@ -252,6 +311,9 @@ export default function DocumentsSection({ tenantId, documents }: DocumentsSecti
         // Success - remove from queue and refresh
         setUploadQueue(prev => prev.filter(i => i.id !== item.id));
         router.refresh();
+        if (item.documentId) {
+          loadVersions(item.documentId);
+        }
       } else {
         let errorMsg = 'Upload mislukt';
         try {
@@ -278,7 +340,9 @@ export default function DocumentsSection({ tenantId, documents }: DocumentsSecti
       );
     };
 
-    xhr.open('POST', `/api/admin/products/hr-bot/tenants/${tenantId}/documents`);
+    xhr.open('POST', item.documentId
+      ? `/api/admin/products/hr-bot/tenants/${tenantId}/documents/${item.documentId}/versions`
+      : `/api/admin/products/hr-bot/tenants/${tenantId}/documents`);
     xhr.send(formData);
   };
 
@@ -286,6 +350,50 @@ export default function DocumentsSection({ tenantId, documents }: DocumentsSecti
     setUploadQueue(prev => prev.filter(i => i.id !== id));
   };
 
+  // ========================================
+  // BULK IMPORT
+  // ========================================
+
+  const handleFolderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      importFiles(Array.from(files));
+    }
+    if (folderInputRef.current) {
+      folderInputRef.current.value = '';
+    }
+  };
+
+  const importFiles = async (files: File[]) => {
+    setIsImporting(true);
+    setImportReport(null);
+
+    try {
+      const formData = new FormData();
+      for (const file of files) {
+        formData.append('files', file, getRelativePath(file));
+      }
+
+      const response = await fetch(
+        `/api/admin/products/hr-bot/tenants/${tenantId}/documents/import`,
+        { method: 'POST', body: formData }
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Import mislukt');
+      }
+
+      setImportReport(result.report);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import mislukt');
+      setTimeout(() => setError(null), 5000);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   // ========================================
   // DELETE HANDLERS
   // ========================================
@@ -324,15 +432,212 @@ export default function DocumentsSection({ tenantId, documents }: DocumentsSecti
     }
   };
 
+  // ========================================
+  // VERSION HANDLERS
+  // ========================================
+
+  const loadVersions = async (documentId: string) => {
+    setVersionsLoading(true);
+    try {
+      const response = await fetch(
+        `/api/admin/products/hr-bot/tenants/${tenantId}/documents/${documentId}/versions`
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Versies laden mislukt');
+      }
+      setVersions(prev => ({ ...prev, [documentId]: result.versions || [] }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Versies laden mislukt');
+      setTimeout(() => setError(null), 5000);
+    } finally {
+      setVersionsLoading(false);
+    }
+  };
+
+  const toggleVersions = (document: Document) => {
+    setVersionDiff(null);
+    if (expandedDocumentId === document.id) {
+      setExpandedDocumentId(null);
+      return;
+    }
+    setExpandedDocumentId(document.id);
+    loadVersions(document.id);
+  };
+
+  const handleNewVersionSelect = (document: Document) => {
+    setVersionTarget(document);
+    versionInputRef.current?.click();
+  };
+
+  const handleVersionFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const target = versionTarget;
+    if (versionInputRef.current) {
+      versionInputRef.current.value = '';
+    }
+    setVersionTarget(null);
+    if (!file || !target) return;
+
+    if (!isSupportedDocument(file.name, file.type)) {
+      setError(`${file.name}: Bestandstype niet ondersteund`);
+      setTimeout(() => setError(null), 5000);
+      return;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      setError(`${file.name}: Groter dan 50MB`);
+      setTimeout(() => setError(null), 5000);
+      return;
+    }
+
+    const item: FileUploadItem = {
+      id: generateId(),
+      file,
+      status: 'pending',
+      progress: 0,
+      documentId: target.id,
+    };
+    setUploadQueue(prev => [...prev, item]);
+    uploadFile(item);
+  };
+
+  const loadDiff = async (documentId: string, fromVersion: number, toVersion: number) => {
+    setDiffLoading(true);
+    try {
+      const response = await fetch(
+        `/api/admin/products/hr-bot/tenants/${tenantId}/documents/${documentId}/versions/diff?from=${fromVersion}&to=${toVersion}`
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Vergelijken mislukt');
+      }
+      setVersionDiff(result.diff);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Vergelijken mislukt');
+      setTimeout(() => setError(null), 5000);
+    } finally {
+      setDiffLoading(false);
+    }
+  };
+
+  const handleRollbackConfirm = async () => {
+    const { document, version } = rollbackModal;
+    if (!document || !version) return;
+
+    setIsRollingBack(true);
+
+    try {
+      const response = await fetch(
+        `/api/admin/products/hr-bot/tenants/${tenantId}/documents/${document.id}/versions/rollback`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ version: version.version }),
+        }
+      );
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.details || result.error || 'Terugzetten mislukt');
+      }
+
+      setVersionDiff(null);
+      setRollbackModal({ isOpen: false, document: null, version: null });
+      router.refresh();
+      loadVersions(document.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Terugzetten mislukt');
+      setTimeout(() => setError(null), 5000);
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  // ========================================
+  // VALIDITY HANDLERS
+  // ========================================
+
+  const toggleValidity = (document: Document) => {
+    if (validityDocumentId === document.id) {
+      setValidityDocumentId(null);
+      return;
+    }
+    setValidityDocumentId(document.id);
+    setValidityForm({
+      validFrom: document.valid_from || '',
+      validUntil: document.valid_until || '',
+    });
+  };
+
+  const handleValiditySave = async (documentId: string) => {
+    setIsSavingValidity(true);
+
+    try {
+      const response = await fetch(
+        `/api/admin/products/hr-bot/tenants/${tenantId}/documents?documentId=${documentId}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            valid_from: validityForm.validFrom || null,
+            valid_until: validityForm.validUntil || null,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.details || result.error || 'Opslaan mislukt');
+      }
+
+      setValidityDocumentId(null);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Opslaan mislukt');
+      setTimeout(() => setError(null), 5000);
+    } finally {
+      setIsSavingValidity(false);
+    }
+  };
+
+  // ========================================
+  // CANCEL PROCESSING
+  // ========================================
+
+  const handleCancelProcessing = async (documentId: string) => {
+    try {
+      const response = await fetch(
+        `/api/admin/products/hr-bot/tenants/${tenantId}/documents/${documentId}/cancel`,
+        { method: 'POST' }
+      );
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.details || result.error || 'Annuleren mislukt');
+      }
+
+      const result = await response.json();
+      setProcessingStatuses(prev => prev[documentId]
+        ? { ...prev, [documentId]: { ...prev[documentId], cancelRequested: true } }
+        : prev
+      );
+      if (result.status === 'cancelled') {
+        router.refresh();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Annuleren mislukt');
+      setTimeout(() => setError(null), 5000);
+    }
+  };
+
   // ========================================
   // DOCUMENT URL
   // ========================================
 
+  // Private bucket: de route stuurt door naar een kort geldige signed URL
   const getDocumentUrl = (document: Document): string | null => {
     if (!document.file_path) return null;
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const bucketName = `${tenantId}-hr-documents`;
-    return `${supabaseUrl}/storage/v1/object/public/${bucketName}/${document.file_path}`;
+    return `/api/admin/products/hr-bot/tenants/${tenantId}/documents/${document.id}/file`;
   };
 
   // ========================================
@@ -344,18 +649,35 @@ export default function DocumentsSection({ tenantId, documents }: DocumentsSecti
 
     // Use detailed phase if available
     if (processingStatus && !['completed', 'failed'].includes(processingStatus.phase)) {
+      const { storedChunks, totalChunks, nextRetryAt } = processingStatus;
       const phaseLabels: Record<string, { label: string; color: string }> = {
         uploading: { label: 'Uploaden...', color: 'bg-blue-100 text-blue-700' },
-        parsing: { label: 'PDF lezen...', color: 'bg-yellow-100 text-yellow-700' },
+        queued: { label: 'In wachtrij...', color: 'bg-gray-100 text-gray-600' },
+        parsing: { label: 'Tekst lezen...', color: 'bg-yellow-100 text-yellow-700' },
         chunking: { label: 'Opsplitsen...', color: 'bg-yellow-100 text-yellow-700' },
-        embedding: { label: 'Embeddings...', color: 'bg-yellow-100 text-yellow-700' },
+        embedding: {
+          label: totalChunks ? `Embeddings ${storedChunks ?? 0}/${totalChunks}...` : 'Embeddings...',
+          color: 'bg-yellow-100 text-yellow-700'
+        },
         metadata: { label: 'Metadata...', color: 'bg-yellow-100 text-yellow-700' },
       };
 
-      const phase = phaseLabels[processingStatus.phase] || { label: 'Verwerken...', color: 'bg-yellow-100 text-yellow-700' };
+      let phase = phaseLabels[processingStatus.phase] || { label: 'Verwerken...', color: 'bg-yellow-100 text-yellow-700' };
+      if (processingStatus.cancelRequested) {
+        phase = { label: 'Annuleren...', color: 'bg-gray-100 text-gray-600' };
+      } else if (nextRetryAt) {
+        const time = new Date(nextRetryAt).toLocaleTimeString('nl-NL', { hour: '2-digit', minute: '2-digit' });
+        phase = {
+          label: `Nieuwe poging om ${time} (${processingStatus.attempts}/${processingStatus.maxAttempts})`,
+          color: 'bg-orange-100 text-orange-700'
+        };
+      }
 
       return (
-        <span className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium ${phase.color}`}>
+        <span
+          title={processingStatus.errorMessage}
+          className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium ${phase.color}`}
+        >
           <span className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin" />
           {phase.label}
         </span>
@@ -383,11 +705,38 @@ export default function DocumentsSection({ tenantId, documents }: DocumentsSecti
     );
   };
 
+  const getValidityBadge = (document: Document) => {
+    if (!document.valid_from && !document.valid_until) return null;
+
+    const status = getValidityStatus(document.valid_from, document.valid_until);
+    const config: Record<string, { label: string; color: string }> = {
+      expired: { label: 'Verlopen', color: 'bg-red-100 text-red-700' },
+      upcoming: { label: `Geldig vanaf ${formatDate(document.valid_from!)}`, color: 'bg-blue-100 text-blue-700' },
+      expiring: {
+        label: `Verloopt over ${daysUntil(document.valid_until!)} dagen`,
+        color: 'bg-amber-100 text-amber-700',
+      },
+      valid: {
+        label: document.valid_until ? `Geldig t/m ${formatDate(document.valid_until)}` : 'Geldig',
+        color: 'bg-gray-100 text-gray-600',
+      },
+    };
+
+    return (
+      <span
+        title="Verlopen documenten worden niet meer gebruikt voor antwoorden"
+        className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${config[status].color}`}
+      >
+        {config[status].label}
+      </span>
+    );
+  };
+
   // ========================================
   // RENDER
   // ========================================
 
-  const isUploading = uploadQueue.some(item => item.status === 'uploading' || item.status === 'processing');
+  const isUploading = isImporting || uploadQueue.some(item => item.status === 'uploading' || item.status === 'processing');
 
   return (
     <div className="space-y-4">
@@ -410,11 +759,19 @@ export default function DocumentsSection({ tenantId, documents }: DocumentsSecti
           type="file"
           ref={fileInputRef}
           onChange={handleFileChange}
-          accept=".pdf,application/pdf"
+          accept={`${DOCUMENT_UPLOAD_ACCEPT},.zip`}
           multiple
           className="hidden"
           disabled={isUploading}
-          aria-label="Upload PDF bestanden"
+          aria-label="Upload documenten"
+        />
+        <input
+          type="file"
+          ref={versionInputRef}
+          onChange={handleVersionFileChange}
+          accept={DOCUMENT_UPLOAD_ACCEPT}
+          className="hidden"
+          aria-label="Upload nieuwe versie"
         />
 
         <svg className="w-10 h-10 mx-auto text-gray-400 mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -423,9 +780,86 @@ export default function DocumentsSection({ tenantId, documents }: DocumentsSecti
         <p className="text-sm text-gray-600">
           <span className="font-medium text-blue-600">Klik om te uploaden</span> of sleep bestanden
         </p>
-        <p className="text-xs text-gray-400 mt-1">Alleen PDF bestanden (max 50MB)</p>
+        <p className="text-xs text-gray-400 mt-1">{SUPPORTED_DOCUMENT_LABEL} (max 50MB) of een ZIP</p>
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            folderInputRef.current?.click();
+          }}
+          className="mt-2 text-xs font-medium text-blue-600 hover:text-blue-700"
+        >
+          Map importeren
+        </button>
+        <input
+          type="file"
+          ref={folderInputRef}
+          onChange={handleFolderChange}
+          onClick={(e) => e.stopPropagation()}
+          multiple
+          className="hidden"
+          aria-label="Importeer map"
+          {...{ webkitdirectory: '' }}
+        />
       </div>
 
+      {/* Bulk Import */}
+      {isImporting && (
+        <div className="flex items-center gap-2 bg-blue-50 text-blue-700 px-4 py-3 rounded-lg text-sm">
+          <span className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+          Importeren...
+        </div>
+      )}
+      {importReport && (
+        <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <h4 className="text-sm font-medium text-gray-900">Import resultaat</h4>
+              <p className="text-xs text-gray-500 mt-0.5">
+                {importReport.queued} in verwerking, {importReport.duplicates} overgeslagen (duplicaat), {importReport.failed} mislukt
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setImportReport(null)}
+              className="text-gray-400 hover:text-gray-600 p-1"
+              aria-label="Sluit import resultaat"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-200 text-xs">
+            {importReport.files.map((file, index) => {
+              const statusConfig = {
+                queued: { label: 'In verwerking', color: 'bg-green-100 text-green-700' },
+                duplicate: { label: 'Duplicaat', color: 'bg-gray-200 text-gray-600' },
+                failed: { label: 'Mislukt', color: 'bg-red-100 text-red-700' },
+              }[file.status];
+
+              return (
+                <li key={`${file.path}-${index}`} className="py-2 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{file.path}</p>
+                    {(file.reason || file.duplicateOf || file.tags.length > 0) && (
+                      <p className="text-gray-500 truncate">
+                        {file.reason}
+                        {file.duplicateOf && ` (${file.duplicateOf})`}
+                        {file.tags.length > 0 && ` ${file.reason ? '• ' : ''}${file.tags.join(' / ')}`}
+                      </p>
+                    )}
+                  </div>
+                  <span className={`flex-shrink-0 px-2 py-0.5 rounded-full font-medium ${statusConfig.color}`}>
+                    {statusConfig.label}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg text-sm flex items-center gap-2">
@@ -447,7 +881,10 @@ export default function DocumentsSection({ tenantId, documents }: DocumentsSecti
                 </svg>
               </div>
               <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium text-gray-900 truncate">{item.file.name}</p>
+                <p className="text-sm font-medium text-gray-900 truncate">
+                  {item.file.name}
+                  {item.documentId && <span className="ml-1 text-xs font-normal text-gray-500">(nieuwe versie)</span>}
+                </p>
                 <div className="mt-1.5 h-2 bg-gray-200 rounded-full overflow-hidden">
                   <div
                     className={`h-full transition-all duration-300 ${
@@ -486,87 +923,333 @@ export default function DocumentsSection({ tenantId, documents }: DocumentsSecti
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
           </svg>
           <p className="text-sm">Nog geen documenten</p>
-          <p className="text-xs text-gray-400 mt-1">Upload PDF bestanden om te beginnen</p>
+          <p className="text-xs text-gray-400 mt-1">Upload documenten om te beginnen</p>
         </div>
       ) : (
         <ul className="divide-y divide-gray-100">
           {documents.map((doc) => {
             const url = getDocumentUrl(doc);
             const isReady = doc.processing_status === 'completed';
+            const isBusy = doc.processing_status === 'processing' || doc.processing_status === 'pending';
+            const currentVersion = doc.version ?? 1;
+            const isExpanded = expandedDocumentId === doc.id;
+            const isEditingValidity = validityDocumentId === doc.id;
 
             return (
-              <li key={doc.id} className="group py-3 flex items-center justify-between hover:bg-gray-50 -mx-2 px-2 rounded-lg transition-colors">
-                <div className="flex items-center gap-3 min-w-0 flex-1">
-                  <div className="w-10 h-10 bg-red-50 rounded-lg flex items-center justify-center flex-shrink-0">
-                    <svg className="w-5 h-5 text-red-500" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z" clipRule="evenodd" />
-                    </svg>
-                  </div>
-                  <div className="min-w-0 flex-1">
-                    <p className="text-sm font-medium text-gray-900 truncate">{doc.filename}</p>
-                    <div className="flex items-center gap-2 mt-0.5 text-xs text-gray-500">
-                      {doc.file_size && <span>{formatFileSize(doc.file_size)}</span>}
-                      {doc.file_size && <span>•</span>}
-                      <span>{formatDate(doc.created_at)}</span>
-                      {doc.total_chunks > 0 && (
-                        <>
-                          <span>•</span>
-                          <span>{doc.total_chunks} chunks</span>
-                        </>
-                      )}
+              <Fragment key={doc.id}>
+                <li className="group py-3 flex items-center justify-between hover:bg-gray-50 -mx-2 px-2 rounded-lg transition-colors">
+                  <div className="flex items-center gap-3 min-w-0 flex-1">
+                    <div className="w-10 h-10 bg-red-50 rounded-lg flex items-center justify-center flex-shrink-0">
+                      <svg className="w-5 h-5 text-red-500" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z" clipRule="evenodd" />
+                      </svg>
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium text-gray-900 truncate">{doc.filename}</p>
+                      <div className="flex items-center gap-2 mt-0.5 text-xs text-gray-500">
+                        {currentVersion > 1 && (
+                          <>
+                            <span className="font-medium text-blue-600">v{currentVersion}</span>
+                            <span>•</span>
+                          </>
+                        )}
+                        {doc.file_size && <span>{formatFileSize(doc.file_size)}</span>}
+                        {doc.file_size && <span>•</span>}
+                        <span>{formatDate(doc.created_at)}</span>
+                        {doc.category && (
+                          <>
+                            <span>•</span>
+                            <span title={doc.tags?.join(' / ')}>{doc.category}</span>
+                          </>
+                        )}
+                        {doc.source_url && (
+                          <>
+                            <span>•</span>
+                            <a
+                              href={doc.source_url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-600 hover:underline truncate max-w-[12rem]"
+                              title={doc.source_url}
+                            >
+                              {new URL(doc.source_url).pathname}
+                            </a>
+                          </>
+                        )}
+                        {doc.total_chunks > 0 && (
+                          <>
+                            <span>•</span>
+                            <span>{doc.total_chunks} chunks</span>
+                          </>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
 
-                <div className="flex items-center gap-3">
-                  {/* Status Badge */}
-                  {getStatusBadge(doc)}
+                  <div className="flex items-center gap-3">
+                    {/* Validity + Status Badge */}
+                    {getValidityBadge(doc)}
+                    {getStatusBadge(doc)}
 
-                  {/* Action Buttons */}
-                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                    {isReady && url && (
-                      <>
-                        {/* View */}
+                    {/* Action Buttons */}
+                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {/* Cancel processing */}
+                      {isBusy && processingStatuses[doc.id]?.jobId && !processingStatuses[doc.id]?.cancelRequested && (
                         <button
                           type="button"
-                          onClick={() => window.open(url, '_blank')}
-                          title="Bekijken"
-                          aria-label="Bekijk document"
-                          className="text-gray-400 hover:text-blue-600 p-1.5 rounded hover:bg-blue-50 transition-colors"
+                          onClick={() => handleCancelProcessing(doc.id)}
+                          title="Verwerking annuleren"
+                          aria-label="Annuleer verwerking"
+                          className="text-gray-400 hover:text-red-600 p-1.5 rounded hover:bg-red-50 transition-colors"
                         >
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z" />
                           </svg>
                         </button>
-                        {/* Download */}
-                        <a
-                          href={url}
-                          download={doc.filename}
-                          title="Downloaden"
-                          className="text-gray-400 hover:text-green-600 p-1.5 rounded hover:bg-green-50 transition-colors"
+                      )}
+                      {isReady && url && (
+                        <>
+                          {/* View */}
+                          <button
+                            type="button"
+                            onClick={() => window.open(url, '_blank')}
+                            title="Bekijken"
+                            aria-label="Bekijk document"
+                            className="text-gray-400 hover:text-blue-600 p-1.5 rounded hover:bg-blue-50 transition-colors"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                            </svg>
+                          </button>
+                          {/* Download */}
+                          <a
+                            href={`${url}?download=1`}
+                            download={doc.filename}
+                            title="Downloaden"
+                            className="text-gray-400 hover:text-green-600 p-1.5 rounded hover:bg-green-50 transition-colors"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                            </svg>
+                          </a>
+                        </>
+                      )}
+                      {/* New version */}
+                      {!isBusy && (
+                        <button
+                          type="button"
+                          onClick={() => handleNewVersionSelect(doc)}
+                          title="Nieuwe versie uploaden"
+                          aria-label="Upload nieuwe versie"
+                          className="text-gray-400 hover:text-blue-600 p-1.5 rounded hover:bg-blue-50 transition-colors"
                         >
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
                           </svg>
-                        </a>
-                      </>
-                    )}
-                    {/* Delete */}
-                    <button
-                      type="button"
-                      onClick={() => openDeleteModal(doc)}
-                      title="Verwijderen"
-                      aria-label="Verwijder document"
-                      className="text-gray-400 hover:text-red-600 p-1.5 rounded hover:bg-red-50 transition-colors"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                    </button>
+                        </button>
+                      )}
+                      {/* Versions */}
+                      <button
+                        type="button"
+                        onClick={() => toggleVersions(doc)}
+                        title="Versies"
+                        aria-label="Bekijk versies"
+                        aria-expanded={isExpanded}
+                        className={`p-1.5 rounded transition-colors ${isExpanded ? 'text-blue-600 bg-blue-50' : 'text-gray-400 hover:text-blue-600 hover:bg-blue-50'}`}
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                        </svg>
+                      </button>
+                      {/* Validity */}
+                      <button
+                        type="button"
+                        onClick={() => toggleValidity(doc)}
+                        title="Geldigheid"
+                        aria-label="Bewerk geldigheid"
+                        aria-expanded={isEditingValidity}
+                        className={`p-1.5 rounded transition-colors ${isEditingValidity ? 'text-blue-600 bg-blue-50' : 'text-gray-400 hover:text-blue-600 hover:bg-blue-50'}`}
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                        </svg>
+                      </button>
+                      {/* Delete */}
+                      <button
+                        type="button"
+                        onClick={() => openDeleteModal(doc)}
+                        title="Verwijderen"
+                        aria-label="Verwijder document"
+                        className="text-gray-400 hover:text-red-600 p-1.5 rounded hover:bg-red-50 transition-colors"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </div>
                   </div>
-                </div>
-              </li>
+                </li>
+
+                {/* Validity Panel */}
+                {isEditingValidity && (
+                  <li className="py-3">
+                    <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+                      <div>
+                        <h4 className="text-sm font-medium text-gray-900">Geldigheid</h4>
+                        <p className="text-xs text-gray-500 mt-0.5">
+                          Na de einddatum wordt het document niet meer gebruikt voor antwoorden.
+                          Leeg laten = geen begin- of einddatum.
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap items-end gap-3">
+                        <label className="text-xs text-gray-700">
+                          Geldig vanaf
+                          <input
+                            type="date"
+                            value={validityForm.validFrom}
+                            onChange={(e) => setValidityForm(prev => ({ ...prev, validFrom: e.target.value }))}
+                            className="mt-1 block px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </label>
+                        <label className="text-xs text-gray-700">
+                          Geldig t/m
+                          <input
+                            type="date"
+                            value={validityForm.validUntil}
+                            min={validityForm.validFrom || undefined}
+                            onChange={(e) => setValidityForm(prev => ({ ...prev, validUntil: e.target.value }))}
+                            className="mt-1 block px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() => handleValiditySave(doc.id)}
+                          disabled={isSavingValidity}
+                          className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          {isSavingValidity ? 'Opslaan...' : 'Opslaan'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setValidityDocumentId(null)}
+                          className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+                        >
+                          Annuleren
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                )}
+
+                {/* Versions Panel */}
+                {isExpanded && (
+                  <li className="py-3">
+                    <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+                      <h4 className="text-sm font-medium text-gray-900">Versies</h4>
+
+                      {versionsLoading && !versions[doc.id] ? (
+                        <p className="text-xs text-gray-500">Laden...</p>
+                      ) : (versions[doc.id] || []).length === 0 ? (
+                        <p className="text-xs text-gray-500">Geen versie historie beschikbaar</p>
+                      ) : (
+                        <ul className="space-y-1.5">
+                          {(versions[doc.id] || []).map(version => {
+                            const isCurrent = !version.archived_at;
+
+                            return (
+                              <li key={version.id} className="flex items-center justify-between gap-3 text-xs">
+                                <div className="flex items-center gap-2 min-w-0">
+                                  <span className="font-medium text-gray-900">v{version.version}</span>
+                                  <span className="text-gray-700 truncate">{version.filename}</span>
+                                  <span className="text-gray-400">•</span>
+                                  <span className="text-gray-500">{formatDate(version.created_at)}</span>
+                                  <span className="text-gray-400">•</span>
+                                  <span className="text-gray-500">{version.total_chunks} chunks</span>
+                                </div>
+                                {isCurrent ? (
+                                  <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-700 font-medium">Huidig</span>
+                                ) : (
+                                  <div className="flex items-center gap-2 flex-shrink-0">
+                                    <button
+                                      type="button"
+                                      onClick={() => loadDiff(doc.id, version.version, currentVersion)}
+                                      disabled={diffLoading}
+                                      className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                                    >
+                                      Vergelijk met v{currentVersion}
+                                    </button>
+                                    <button
+                                      type="button"
+                                      onClick={() => setRollbackModal({ isOpen: true, document: doc, version })}
+                                      disabled={isBusy}
+                                      className="text-orange-600 hover:text-orange-800 disabled:opacity-50"
+                                    >
+                                      Terugzetten
+                                    </button>
+                                  </div>
+                                )}
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      )}
+
+                      {/* Diff */}
+                      {diffLoading && <p className="text-xs text-gray-500">Vergelijken...</p>}
+                      {versionDiff && !diffLoading && (
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between text-xs">
+                            <span className="text-gray-700">
+                              v{versionDiff.fromVersion} → v{versionDiff.toVersion}:{' '}
+                              <span className="text-green-700">+{versionDiff.added}</span>{' '}
+                              <span className="text-red-700">-{versionDiff.removed}</span> regels
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => setVersionDiff(null)}
+                              className="text-gray-400 hover:text-gray-600"
+                            >
+                              Sluiten
+                            </button>
+                          </div>
+                          {versionDiff.truncated && (
+                            <p className="text-xs text-amber-700">Te veel wijzigingen: de diff is ingekort.</p>
+                          )}
+                          {versionDiff.hunks.length === 0 ? (
+                            <p className="text-xs text-gray-500">Geen verschillen in de tekst</p>
+                          ) : (
+                            <div className="max-h-96 overflow-auto border border-gray-200 rounded bg-white font-mono text-xs">
+                              {versionDiff.hunks.map((hunk, hunkIdx) => (
+                                <div key={hunkIdx}>
+                                  <div className="px-2 py-1 bg-blue-50 text-blue-700">
+                                    @@ -{hunk.oldStart} +{hunk.newStart} @@
+                                  </div>
+                                  {hunk.lines.map((line, lineIdx) => (
+                                    <div
+                                      key={lineIdx}
+                                      className={`px-2 whitespace-pre-wrap break-words ${
+                                        line.type === 'added'
+                                          ? 'bg-green-50 text-green-800'
+                                          : line.type === 'removed'
+                                            ? 'bg-red-50 text-red-800'
+                                            : 'text-gray-600'
+                                      }`}
+                                    >
+                                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                                      {line.text}
+                                    </div>
+                                  ))}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </li>
+                )}
+              </Fragment>
             );
           })}
         </ul>
@@ -581,7 +1264,7 @@ export default function DocumentsSection({ tenantId, documents }: DocumentsSecti
         message={
           <p>
             Weet je zeker dat je <strong>{deleteModal.document?.filename}</strong> wilt verwijderen?
-            Dit verwijdert ook alle chunks en embeddings.
+            Dit verwijdert ook alle chunks, embeddings en eerdere versies.
           </p>
         }
         confirmLabel="Verwijderen"
@@ -589,6 +1272,25 @@ export default function DocumentsSection({ tenantId, documents }: DocumentsSecti
         confirmVariant="danger"
         isLoading={isDeleting}
       />
+
+      {/* Rollback Confirmation Modal */}
+      <ConfirmModal
+        isOpen={rollbackModal.isOpen}
+        onClose={() => setRollbackModal({ isOpen: false, document: null, version: null })}
+        onConfirm={handleRollbackConfirm}
+        title="Versie terugzetten?"
+        message={
+          <p>
+            <strong>{rollbackModal.document?.filename}</strong> wordt teruggezet naar
+            versie {rollbackModal.version?.version} ({rollbackModal.version?.filename}).
+            De huidige versie blijft bewaard en kan later weer teruggezet worden.
+          </p>
+        }
+        confirmLabel="Terugzetten"
+        cancelLabel="Annuleren"
+        confirmVariant="primary"
+        isLoading={isRollingBack}
+      />
     </div>
   );
 }
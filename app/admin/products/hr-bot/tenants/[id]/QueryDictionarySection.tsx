@@ -0,0 +1,548 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import {
+  QueryDictionaryEntry,
+  QueryDictionaryEntryType,
+  QUERY_DICTIONARY_ENTRY_TYPES,
+  QUERY_DICTIONARY_LANGUAGES,
+  ALL_LANGUAGES,
+  applyQueryDictionary
+} from '@/lib/rag/query-dictionary';
+
+// ========================================
+// TYPES
+// ========================================
+
+interface QueryDictionarySectionProps {
+  tenantId: string;
+  documentLanguage: string;
+}
+
+interface EntryDraft {
+  entry_type: QueryDictionaryEntryType;
+  language: string;
+  trigger: string;
+  value: string;              // Termen (komma gescheiden) of rewrite query
+  is_active: boolean;
+}
+
+// ========================================
+// UTILITIES
+// ========================================
+
+const EMPTY_DRAFT: EntryDraft = {
+  entry_type: 'expansion',
+  language: ALL_LANGUAGES,
+  trigger: '',
+  value: '',
+  is_active: true
+};
+
+function toDraft(entry: QueryDictionaryEntry): EntryDraft {
+  return {
+    entry_type: entry.entry_type,
+    language: entry.language,
+    trigger: entry.trigger,
+    value: entry.entry_type === 'expansion' ? entry.terms.join(', ') : entry.rewrite || '',
+    is_active: entry.is_active
+  };
+}
+
+function toPayload(draft: EntryDraft) {
+  return {
+    entry_type: draft.entry_type,
+    language: draft.language,
+    trigger: draft.trigger,
+    terms: draft.entry_type === 'expansion' ? draft.value.split(',') : [],
+    rewrite: draft.entry_type === 'rewrite' ? draft.value : null,
+    is_active: draft.is_active
+  };
+}
+
+function languageLabel(code: string): string {
+  return QUERY_DICTIONARY_LANGUAGES.find(l => l.value === code)?.label || code;
+}
+
+// ========================================
+// COMPONENT
+// ========================================
+
+/**
+ * Beheer van het per-tenant query woordenboek (synoniemen + rewrites)
+ * met CSV import/export en een preview van de expansie.
+ */
+export default function QueryDictionarySection({ tenantId, documentLanguage }: QueryDictionarySectionProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [entries, setEntries] = useState<QueryDictionaryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Formulier (nieuw of bewerken)
+  const [draft, setDraft] = useState<EntryDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // Filter + import
+  const [filter, setFilter] = useState('');
+  const [importMode, setImportMode] = useState<'merge' | 'replace'>('merge');
+
+  // Preview
+  const [previewQuestion, setPreviewQuestion] = useState('');
+  const [previewLanguage, setPreviewLanguage] = useState(documentLanguage || 'nl');
+
+  const apiUrl = `/api/admin/products/hr-bot/tenants/${tenantId}/query-dictionary`;
+
+  // ========================================
+  // DATA LOADING
+  // ========================================
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(apiUrl);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to load query dictionary');
+      }
+
+      setEntries(data.entries || []);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [apiUrl]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  // Auto-dismiss success message after 5 seconds
+  useEffect(() => {
+    if (message) {
+      const timer = setTimeout(() => setMessage(null), 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [message]);
+
+  // ========================================
+  // CRUD HANDLERS
+  // ========================================
+
+  const resetForm = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch(editingId ? `${apiUrl}/${editingId}` : apiUrl, {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toPayload(draft))
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save entry');
+      }
+
+      resetForm();
+      await loadEntries();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (entry: QueryDictionaryEntry) => {
+    try {
+      const response = await fetch(`${apiUrl}/${entry.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toPayload({ ...toDraft(entry), is_active: !entry.is_active }))
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to update entry');
+      }
+
+      setEntries(prev => prev.map(e => (e.id === entry.id ? data.entry : e)));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDelete = async (entry: QueryDictionaryEntry) => {
+    if (!confirm(`"${entry.trigger}" verwijderen?`)) return;
+
+    try {
+      const response = await fetch(`${apiUrl}/${entry.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to delete entry');
+      }
+
+      if (editingId === entry.id) resetForm();
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  // ========================================
+  // IMPORT / EXPORT
+  // ========================================
+
+  const runImport = async (body: { csv?: string; preset?: string }) => {
+    if (importMode === 'replace' &&
+        !confirm('Alle bestaande entries worden vervangen. Doorgaan?')) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch(`${apiUrl}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, mode: importMode })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Import failed');
+      }
+
+      setMessage(`${data.imported} entries geïmporteerd (${importMode === 'replace' ? 'vervangen' : 'samengevoegd'})`);
+      await loadEntries();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const csv = await file.text();
+    await runImport({ csv });
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  // ========================================
+  // PREVIEW
+  // ========================================
+
+  const preview = useMemo(() => {
+    if (!previewQuestion.trim()) return null;
+    return applyQueryDictionary(previewQuestion, entries, previewLanguage);
+  }, [previewQuestion, entries, previewLanguage]);
+
+  const visibleEntries = entries.filter(entry =>
+    !filter ||
+    entry.trigger.includes(filter.toLowerCase()) ||
+    entry.terms.some(t => t.toLowerCase().includes(filter.toLowerCase())) ||
+    (entry.rewrite || '').toLowerCase().includes(filter.toLowerCase())
+  );
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+  // ========================================
+  // RENDER
+  // ========================================
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Synoniemen en rewrites die vóór het zoeken op de vraag worden toegepast.
+        Een trigger moet als los woord of woordgroep in de vraag voorkomen en geldt
+        alleen voor de gekozen taal van de (vertaalde) zoekvraag.
+      </p>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 whitespace-pre-line">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+          {message}
+        </div>
+      )}
+
+      {/* Entry form */}
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-gray-600 mb-1">Type</label>
+          <select
+            value={draft.entry_type}
+            onChange={(e) => setDraft({ ...draft, entry_type: e.target.value as QueryDictionaryEntryType })}
+            className={inputClass}
+          >
+            {QUERY_DICTIONARY_ENTRY_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-gray-600 mb-1">Taal</label>
+          <select
+            value={draft.language}
+            onChange={(e) => setDraft({ ...draft, language: e.target.value })}
+            className={inputClass}
+          >
+            {QUERY_DICTIONARY_LANGUAGES.map(lang => (
+              <option key={lang.value} value={lang.value}>{lang.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-gray-600 mb-1">Trigger</label>
+          <input
+            type="text"
+            value={draft.trigger}
+            onChange={(e) => setDraft({ ...draft, trigger: e.target.value })}
+            placeholder="bijv. vrij"
+            className={inputClass}
+            required
+          />
+        </div>
+        <div className="md:col-span-4">
+          <label className="block text-xs font-medium text-gray-600 mb-1">
+            {draft.entry_type === 'expansion' ? 'Zoektermen (komma gescheiden)' : 'Alternatieve zoekopdracht'}
+          </label>
+          <input
+            type="text"
+            value={draft.value}
+            onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+            placeholder={draft.entry_type === 'expansion' ? 'verlof, vakantiedagen, vrije dagen' : 'verlofaanvraag vakantiedagen procedure'}
+            className={inputClass}
+            required
+          />
+        </div>
+        <div className="md:col-span-2 flex gap-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+          >
+            {editingId ? 'Opslaan' : 'Toevoegen'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-3 py-2 text-gray-600 hover:text-gray-800 text-sm font-medium"
+            >
+              Annuleren
+            </button>
+          )}
+        </div>
+      </form>
+
+      {/* Import / export toolbar */}
+      <div className="flex flex-wrap items-center gap-3 pt-4 border-t border-gray-100">
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Zoeken..."
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm w-48"
+        />
+        <div className="flex-1" />
+        <select
+          value={importMode}
+          onChange={(e) => setImportMode(e.target.value as 'merge' | 'replace')}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          title="Import modus"
+        >
+          <option value="merge">Samenvoegen</option>
+          <option value="replace">Alles vervangen</option>
+        </select>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={saving}
+          className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 text-sm font-medium"
+        >
+          CSV importeren
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <a
+          href={`${apiUrl}?format=csv`}
+          className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium"
+        >
+          CSV exporteren
+        </a>
+        <button
+          type="button"
+          onClick={() => runImport({ preset: 'dutch-hr' })}
+          disabled={saving}
+          className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 text-sm font-medium"
+          title="Algemene Nederlandse HR synoniemen laden"
+        >
+          Basisset (NL) laden
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 -mt-4">
+        CSV formaat: <code>type,language,trigger,value,active</code> — bij expansion zijn de termen in
+        <code> value</code> gescheiden door <code>|</code>.
+      </p>
+
+      {/* Entries table */}
+      {loading ? (
+        <p className="text-sm text-gray-500">Laden...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Nog geen entries. Zonder woordenboek wordt alleen op de originele vraag gezocht.
+        </p>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase">
+              <tr>
+                <th className="px-3 py-2">Type</th>
+                <th className="px-3 py-2">Taal</th>
+                <th className="px-3 py-2">Trigger</th>
+                <th className="px-3 py-2">Resultaat</th>
+                <th className="px-3 py-2">Actief</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visibleEntries.map(entry => (
+                <tr key={entry.id} className={entry.is_active ? '' : 'opacity-50'}>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                      entry.entry_type === 'expansion' ? 'bg-blue-50 text-blue-700' : 'bg-purple-50 text-purple-700'
+                    }`}>
+                      {entry.entry_type}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-600">{languageLabel(entry.language)}</td>
+                  <td className="px-3 py-2 font-medium text-gray-900">{entry.trigger}</td>
+                  <td className="px-3 py-2 text-gray-600">
+                    {entry.entry_type === 'expansion' ? entry.terms.join(', ') : entry.rewrite}
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={entry.is_active}
+                      onChange={() => handleToggleActive(entry)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right">
+                    <button
+                      type="button"
+                      onClick={() => { setDraft(toDraft(entry)); setEditingId(entry.id); }}
+                      className="text-blue-600 hover:text-blue-800 text-xs font-medium mr-3"
+                    >
+                      Bewerken
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(entry)}
+                      className="text-red-600 hover:text-red-800 text-xs font-medium"
+                    >
+                      Verwijderen
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Preview tool */}
+      <div className="pt-4 border-t border-gray-100 space-y-3">
+        <h3 className="text-sm font-semibold text-gray-900">Preview expansie</h3>
+        <div className="flex gap-3">
+          <input
+            type="text"
+            value={previewQuestion}
+            onChange={(e) => setPreviewQuestion(e.target.value)}
+            placeholder="Typ een voorbeeldvraag, bijv. &quot;wanneer krijg ik mijn geld?&quot;"
+            className={inputClass}
+          />
+          <select
+            value={previewLanguage}
+            onChange={(e) => setPreviewLanguage(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            title="Taal van de zoekvraag"
+          >
+            {QUERY_DICTIONARY_LANGUAGES.filter(l => l.value !== ALL_LANGUAGES).map(lang => (
+              <option key={lang.value} value={lang.value}>{lang.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {preview && (
+          <div className="bg-gray-50 rounded-lg p-4 space-y-3 text-sm">
+            {preview.matches.length === 0 ? (
+              <p className="text-gray-500">Geen entries van toepassing op deze vraag.</p>
+            ) : (
+              <>
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase mb-1">Toegepaste entries</p>
+                  <ul className="space-y-1">
+                    {preview.matches.map((match, idx) => (
+                      <li key={idx} className="text-gray-700">
+                        <span className="font-medium">{match.entryType}</span>{' '}
+                        &quot;{match.trigger}&quot; ({languageLabel(match.language)}) → {match.output}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase mb-1">Uitgebreide zoekvraag</p>
+                  <p className="font-mono text-xs text-gray-800 break-words">{preview.expandedQuery}</p>
+                </div>
+                {preview.alternativeQueries.length > 0 && (
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 uppercase mb-1">Alternatieve zoekopdrachten</p>
+                    <ol className="list-decimal list-inside font-mono text-xs text-gray-800 space-y-0.5">
+                      {preview.alternativeQueries.map((query, idx) => (
+                        <li key={idx}>{query}</li>
+                      ))}
+                    </ol>
+                    <p className="text-xs text-gray-500 mt-1">
+                      De eerste 2 alternatieven worden als extra zoekopdracht uitgevoerd.
+                    </p>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
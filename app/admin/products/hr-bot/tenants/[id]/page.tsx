@@ -4,10 +4,12 @@ import { getTenantById, getTenantStats } from '@/lib/admin/tenant-service';
 import { listDocuments } from '@/lib/rag/processor';
 import TenantEditForm from './TenantEditForm';
 import DocumentsSection from './DocumentsSection';
+import QueryDictionarySection from './QueryDictionarySection';
+import CrawlSourcesSection from './CrawlSourcesSection';
 
 /**
  * Tenant Detail/Edit Page
- * Shows tenant information, allows editing, and manages documents
+ * Shows tenant information, allows editing, and manages documents and the query dictionary
  */
 
 export default async function TenantDetailPage({
@@ -176,6 +178,18 @@ export default async function TenantDetailPage({
           <DocumentsSection tenantId={tenant.id} documents={documents} />
         </div>
       </div>
+
+      {/* Websites */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-6">Websites</h2>
+        <CrawlSourcesSection tenantId={tenant.id} />
+      </div>
+
+      {/* Query Dictionary */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-6">Zoekwoordenboek</h2>
+        <QueryDictionarySection tenantId={tenant.id} documentLanguage={tenant.document_language} />
+      </div>
     </div>
   );
 }
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { generateTenantSlug } from '@/lib/admin/tenant-service';
 import { validateTenantCreate, isValid, validateColor, type ValidationErrors } from '@/lib/admin/validation';
+import { DOCUMENT_UPLOAD_ACCEPT, isSupportedDocument } from '@/lib/rag/document-types';
 
 /**
  * New Tenant Onboarding Form
@@ -117,18 +118,18 @@ export default function NewTenantPage() {
   // Handle document selection
   const handleDocumentsSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
-    const pdfFiles = files.filter((f) => f.type === 'application/pdf');
+    const supportedFiles = files.filter((f) => isSupportedDocument(f.name, f.type));
 
-    setDocumentFiles((prev) => [...prev, ...pdfFiles]);
+    setDocumentFiles((prev) => [...prev, ...supportedFiles]);
   };
 
   // Handle drag and drop
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     const files = Array.from(e.dataTransfer.files);
-    const pdfFiles = files.filter((f) => f.type === 'application/pdf');
+    const supportedFiles = files.filter((f) => isSupportedDocument(f.name, f.type));
 
-    setDocumentFiles((prev) => [...prev, ...pdfFiles]);
+    setDocumentFiles((prev) => [...prev, ...supportedFiles]);
   }, []);
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -702,7 +703,7 @@ export default function NewTenantPage() {
                     HR Documents
                   </label>
                   <p className="text-sm text-gray-500 mb-4">
-                    Upload PDF documents that the AI will use to answer questions.
+                    Upload documents that the AI will use to answer questions.
                     These can include handbooks, policies, procedures, and more.
                   </p>
 
@@ -717,7 +718,7 @@ export default function NewTenantPage() {
                       type="file"
                       ref={documentsInputRef}
                       onChange={handleDocumentsSelect}
-                      accept=".pdf"
+                      accept={DOCUMENT_UPLOAD_ACCEPT}
                       multiple
                       className="hidden"
                       aria-label="Upload HR documents"
@@ -728,7 +729,7 @@ export default function NewTenantPage() {
                     <p className="text-sm text-gray-600">
                       <span className="font-medium text-blue-600">Click to upload</span> or drag and drop
                     </p>
-                    <p className="text-xs text-gray-400 mt-1">PDF files only (max 50MB each)</p>
+                    <p className="text-xs text-gray-400 mt-1">PDF, Word, HTML, Markdown, TXT or CSV (max 50MB each)</p>
                   </div>
                 </div>
 
@@ -17,7 +17,8 @@ const CATEGORY_LABELS: Record<QACategory, { label: string; icon: string }> = {
   out_of_scope: { label: 'Out-of-scope', icon: '🚫' },
   no_answer: { label: 'Geen antwoord', icon: '❓' },
   consistency: { label: 'Consistentie', icon: '🔄' },
-  multilingual: { label: 'Meertalig', icon: '🌐' }
+  multilingual: { label: 'Meertalig', icon: '🌐' },
+  multi_turn: { label: 'Gesprek', icon: '💬' }
 };
 
 /**
@@ -235,6 +236,36 @@ export default function TestResultsPage({ params }: PageProps) {
           </div>
         )}
 
+        {/* Regression check t.o.v. baseline run */}
+        {testRun.status === 'completed' && testRun.regression && (
+          <div className={`rounded-lg p-4 mb-8 border ${
+            testRun.is_regression ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'
+          }`}>
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className={`font-semibold ${testRun.is_regression ? 'text-red-800' : 'text-green-800'}`}>
+                  {testRun.is_regression ? 'Regressie t.o.v. baseline run' : 'Geen regressie t.o.v. baseline run'}
+                </h2>
+                <p className={`text-sm ${testRun.is_regression ? 'text-red-600' : 'text-green-700'}`}>
+                  {testRun.regression.compared_questions} vragen vergeleken, {testRun.regression.flipped_to_fail} van geslaagd naar gefaald
+                  {testRun.regression.regressed_categories.length > 0 && (
+                    <> · {testRun.regression.regressed_categories
+                      .map(c => `${CATEGORY_LABELS[c.category]?.label || c.category} ${c.delta.toFixed(1)}`)
+                      .join(', ')}</>
+                  )}
+                  {' '}(drempel {testRun.regression.threshold} punten)
+                </p>
+              </div>
+              <Link
+                href={`/admin/products/hr-bot/test/${tenantId}/compare?base=${testRun.regression.baseline_run_id}&target=${testRun.id}`}
+                className="px-4 py-2 text-sm bg-white border border-gray-300 hover:bg-gray-50 rounded-lg transition"
+              >
+                Vergelijk
+              </Link>
+            </div>
+          </div>
+        )}
+
         {/* Completed Results */}
         {testRun.status === 'completed' && (
           <>
@@ -388,14 +419,74 @@ export default function TestResultsPage({ params }: PageProps) {
                         <p className="text-sm text-gray-900">{question.question}</p>
                       </div>
 
-                      {question.expected_answer && (
+                      {question.turn_results && question.turn_results.length > 0 && (
+                        <div>
+                          <div className="text-xs font-medium text-gray-500 uppercase mb-1">Gesprek</div>
+                          <ol className="space-y-3">
+                            {question.turn_results.map((turnResult, i) => {
+                              const turn = question.turns?.[i];
+                              const verdict = (question.evaluation?.category_specific?.turns as
+                                { score: number; follow_up_resolved: boolean | null; reasoning: string }[] | undefined)?.[i];
+                              return (
+                                <li key={i} className="border-l-2 border-gray-200 pl-3">
+                                  <div className="flex items-center justify-between">
+                                    <p className="text-sm font-medium text-gray-900">
+                                      {i + 1}. {turnResult.message}
+                                    </p>
+                                    {verdict && (
+                                      <span className={`text-sm font-bold ${getScoreColor(verdict.score)}`}>
+                                        {verdict.score.toFixed(0)}
+                                      </span>
+                                    )}
+                                  </div>
+                                  {i > 0 && (
+                                    <div className="flex flex-wrap gap-2 mt-1 text-xs">
+                                      <span className={`px-2 py-0.5 rounded ${
+                                        turnResult.follow_up_detected ? 'bg-blue-100 text-blue-700' : 'bg-yellow-100 text-yellow-700'
+                                      }`}>
+                                        {turnResult.follow_up_detected ? 'Follow-up herkend' : 'Follow-up niet herkend'}
+                                      </span>
+                                      {verdict && verdict.follow_up_resolved !== null && (
+                                        <span className={`px-2 py-0.5 rounded ${
+                                          verdict.follow_up_resolved ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                                        }`}>
+                                          {verdict.follow_up_resolved ? 'Opgelost' : 'Niet opgelost'}
+                                        </span>
+                                      )}
+                                      {turnResult.expanded_query && (
+                                        <span className="text-gray-500">Zoekvraag: &quot;{turnResult.expanded_query}&quot;</span>
+                                      )}
+                                    </div>
+                                  )}
+                                  {turn?.expected_resolution && (
+                                    <p className="text-xs text-gray-500 mt-1">Bedoeld: {turn.expected_resolution}</p>
+                                  )}
+                                  {turnResult.error ? (
+                                    <p className="text-sm text-red-600 mt-1">{turnResult.error}</p>
+                                  ) : (
+                                    <p className="text-sm text-gray-900 bg-gray-50 p-2 rounded mt-1">
+                                      {turnResult.answer.substring(0, 400)}
+                                      {turnResult.answer.length > 400 && '...'}
+                                    </p>
+                                  )}
+                                  {verdict?.reasoning && (
+                                    <p className="text-xs text-gray-600 mt-1">{verdict.reasoning}</p>
+                                  )}
+                                </li>
+                              );
+                            })}
+                          </ol>
+                        </div>
+                      )}
+
+                      {question.expected_answer && !question.turn_results && (
                         <div>
                           <div className="text-xs font-medium text-gray-500 uppercase mb-1">Verwacht Antwoord</div>
                           <p className="text-sm text-gray-700">{question.expected_answer}</p>
                         </div>
                       )}
 
-                      {question.actual_answer && (
+                      {question.actual_answer && !question.turn_results && (
                         <div>
                           <div className="text-xs font-medium text-gray-500 uppercase mb-1">Bot Antwoord</div>
                           <p className="text-sm text-gray-900 bg-gray-50 p-2 rounded">
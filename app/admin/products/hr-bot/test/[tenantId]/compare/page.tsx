@@ -0,0 +1,377 @@
+'use client';
+
+import { useState, useEffect, use } from 'react';
+import Link from 'next/link';
+import type { QACategory, QARunComparison, QAQuestionChange } from '@/lib/products/hr-bot/qa/types';
+
+interface PageProps {
+  params: Promise<{ tenantId: string }>;
+  searchParams: Promise<{ base?: string; target?: string; threshold?: string }>;
+}
+
+// Category info for display
+const CATEGORY_LABELS: Record<QACategory, { label: string; icon: string }> = {
+  retrieval: { label: 'Retrieval', icon: '🔍' },
+  accuracy: { label: 'Accuraatheid', icon: '✓' },
+  citation: { label: 'Bronverwijzing', icon: '📎' },
+  hallucination: { label: 'Hallucinatie', icon: '👻' },
+  out_of_scope: { label: 'Out-of-scope', icon: '🚫' },
+  no_answer: { label: 'Geen antwoord', icon: '❓' },
+  consistency: { label: 'Consistentie', icon: '🔄' },
+  multilingual: { label: 'Meertalig', icon: '🌐' },
+  multi_turn: { label: 'Gesprek', icon: '💬' }
+};
+
+const DOCUMENT_CHANGE_LABELS: Record<string, { label: string; className: string }> = {
+  added: { label: 'Toegevoegd', className: 'bg-green-100 text-green-700' },
+  removed: { label: 'Verwijderd', className: 'bg-red-100 text-red-700' },
+  updated: { label: 'Gewijzigd', className: 'bg-yellow-100 text-yellow-700' }
+};
+
+/**
+ * Test Run Comparison Page
+ *
+ * Compares a baseline run with a later run over their shared questions:
+ * score per category, questions that flipped and what changed in the
+ * configuration and documents in between.
+ */
+export default function CompareRunsPage({ params, searchParams }: PageProps) {
+  const { tenantId } = use(params);
+  const { base, target, threshold: thresholdParam } = use(searchParams);
+
+  const [comparison, setComparison] = useState<QARunComparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [threshold, setThreshold] = useState<string>(thresholdParam || '');
+
+  // Fetch comparison
+  useEffect(() => {
+    async function fetchData() {
+      if (!base || !target) {
+        setError('Selecteer twee runs om te vergelijken');
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      try {
+        const query = new URLSearchParams({ base, target });
+        if (thresholdParam) query.set('threshold', thresholdParam);
+
+        const res = await fetch(`/api/admin/products/hr-bot/test/${tenantId}/compare?${query}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to compare test runs');
+
+        setComparison(data.comparison);
+        if (!thresholdParam) setThreshold(String(data.comparison.threshold));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchData();
+  }, [tenantId, base, target, thresholdParam]);
+
+  // Format helpers
+  const formatScore = (score: number | null) => score === null ? '-' : `${score.toFixed(1)}%`;
+
+  const formatDelta = (delta: number | null) => {
+    if (delta === null) return '-';
+    return `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`;
+  };
+
+  const getDeltaColor = (delta: number | null, isRegression = false) => {
+    if (delta === null) return 'text-gray-400';
+    if (isRegression) return 'text-red-600 font-bold';
+    if (delta < 0) return 'text-yellow-600';
+    if (delta > 0) return 'text-green-600';
+    return 'text-gray-600';
+  };
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString('nl-NL', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  const formatValue = (value: string | number | boolean | null) => {
+    if (value === null) return '-';
+    if (typeof value === 'boolean') return value ? 'aan' : 'uit';
+    return String(value);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-64 mb-8"></div>
+            <div className="h-32 bg-gray-200 rounded mb-8"></div>
+            <div className="h-64 bg-gray-200 rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !comparison) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <h2 className="text-red-800 font-semibold">Error</h2>
+            <p className="text-red-600">{error || 'Vergelijking niet gevonden'}</p>
+            <Link href={`/admin/products/hr-bot/test/${tenantId}`} className="text-sm text-red-700 underline">
+              Terug naar test geschiedenis
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { base_run: baseRun, target_run: targetRun } = comparison;
+
+  const renderQuestionList = (title: string, changes: QAQuestionChange[], emptyText: string) => (
+    <div className="bg-white rounded-lg shadow overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">{title} ({changes.length})</h2>
+      </div>
+      {changes.length === 0 ? (
+        <div className="px-6 py-6 text-sm text-gray-500">{emptyText}</div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {changes.map(change => (
+            <li key={change.key} className="px-6 py-4 flex items-start justify-between gap-4">
+              <div>
+                <div className="text-xs text-gray-500 mb-1">
+                  {CATEGORY_LABELS[change.category]?.icon} {CATEGORY_LABELS[change.category]?.label || change.category}
+                  {' · '}{change.language.toUpperCase()}
+                </div>
+                <div className="text-sm text-gray-900">{change.question}</div>
+              </div>
+              <div className="text-sm whitespace-nowrap text-right">
+                <div className="text-gray-500">
+                  {formatScore(change.base_score)} → {formatScore(change.target_score)}
+                </div>
+                <Link
+                  href={`/admin/products/hr-bot/test/${tenantId}/${targetRun.id}`}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  Bekijk run
+                </Link>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Breadcrumb */}
+        <nav className="flex items-center space-x-2 text-sm text-gray-500 mb-4">
+          <Link href="/admin" className="hover:text-gray-700">Admin</Link>
+          <span>/</span>
+          <Link href="/admin/products/hr-bot/test" className="hover:text-gray-700">QA Testing</Link>
+          <span>/</span>
+          <Link href={`/admin/products/hr-bot/test/${tenantId}`} className="hover:text-gray-700">{tenantId}</Link>
+          <span>/</span>
+          <span className="text-gray-900 font-medium">Vergelijking</span>
+        </nav>
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Runs Vergelijken</h1>
+            <p className="text-gray-600">
+              {comparison.shared_questions} gedeelde vragen
+              {(comparison.base_only_questions > 0 || comparison.target_only_questions > 0) && (
+                <> · {comparison.base_only_questions} alleen in baseline, {comparison.target_only_questions} alleen in nieuwe run</>
+              )}
+            </p>
+          </div>
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              const query = new URLSearchParams({ base: baseRun.id, target: targetRun.id });
+              if (threshold) query.set('threshold', threshold);
+              window.location.search = query.toString();
+            }}
+          >
+            <label className="text-sm text-gray-600">Drempel</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={0.5}
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              className="w-20 px-2 py-1 text-sm border border-gray-300 rounded"
+            />
+            <button type="submit" className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition">
+              Toepassen
+            </button>
+            <Link
+              href={`/admin/products/hr-bot/test/${tenantId}`}
+              className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition"
+            >
+              Terug
+            </Link>
+          </form>
+        </div>
+
+        {/* Regression verdict */}
+        <div className={`rounded-lg p-4 mb-8 border ${
+          comparison.is_regression ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'
+        }`}>
+          <h2 className={`font-semibold ${comparison.is_regression ? 'text-red-800' : 'text-green-800'}`}>
+            {comparison.is_regression ? 'Regressie gedetecteerd' : 'Geen regressie'}
+          </h2>
+          <p className={`text-sm ${comparison.is_regression ? 'text-red-600' : 'text-green-700'}`}>
+            {comparison.is_regression
+              ? `Minstens één categorie daalde meer dan ${comparison.threshold} punten.`
+              : `Geen categorie daalde meer dan ${comparison.threshold} punten.`}
+            {comparison.shared_questions === 0 && ' Deze runs hebben geen gedeelde vragen; start een run met "Opnieuw (zelfde vragen)".'}
+          </p>
+        </div>
+
+        {/* Score cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-sm text-gray-500">Baseline</div>
+            <div className="text-3xl font-bold text-gray-900">{formatScore(comparison.base_score)}</div>
+            <Link href={`/admin/products/hr-bot/test/${tenantId}/${baseRun.id}`} className="text-xs text-blue-600 hover:text-blue-800">
+              {formatDate(baseRun.created_at)}
+            </Link>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-sm text-gray-500">Nieuwe run</div>
+            <div className="text-3xl font-bold text-gray-900">{formatScore(comparison.target_score)}</div>
+            <Link href={`/admin/products/hr-bot/test/${tenantId}/${targetRun.id}`} className="text-xs text-blue-600 hover:text-blue-800">
+              {formatDate(targetRun.created_at)}
+            </Link>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-sm text-gray-500">Verschil</div>
+            <div className={`text-3xl font-bold ${getDeltaColor(
+              comparison.base_score !== null && comparison.target_score !== null
+                ? comparison.target_score - comparison.base_score
+                : null
+            )}`}>
+              {formatDelta(
+                comparison.base_score !== null && comparison.target_score !== null
+                  ? comparison.target_score - comparison.base_score
+                  : null
+              )}
+            </div>
+            <div className="text-xs text-gray-400">over gedeelde vragen</div>
+          </div>
+        </div>
+
+        {/* Category deltas */}
+        <div className="bg-white rounded-lg shadow overflow-hidden mb-8">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Per Categorie</h2>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Categorie</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vragen</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Baseline</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Nieuw</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Verschil</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {comparison.categories.map(delta => (
+                <tr key={delta.category} className={delta.is_regression ? 'bg-red-50' : ''}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {CATEGORY_LABELS[delta.category]?.icon} {CATEGORY_LABELS[delta.category]?.label || delta.category}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{delta.question_count}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{formatScore(delta.base_score)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{formatScore(delta.target_score)}</td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm ${getDeltaColor(delta.delta, delta.is_regression)}`}>
+                    {formatDelta(delta.delta)}
+                    {delta.is_regression && <span className="ml-2 text-xs">regressie</span>}
+                  </td>
+                </tr>
+              ))}
+              {comparison.categories.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-6 text-sm text-gray-500">Geen gedeelde beoordeelde vragen.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Flipped questions */}
+        {renderQuestionList('Van geslaagd naar gefaald', comparison.flipped_to_fail, 'Geen vragen die nu falen.')}
+        {renderQuestionList('Van gefaald naar geslaagd', comparison.flipped_to_pass, 'Geen vragen die nu slagen.')}
+
+        {/* Configuration & document changes */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Configuratie Wijzigingen</h2>
+            </div>
+            {comparison.config_changes === null ? (
+              <div className="px-6 py-6 text-sm text-gray-500">Niet beschikbaar: een van de runs heeft geen snapshot.</div>
+            ) : comparison.config_changes.length === 0 ? (
+              <div className="px-6 py-6 text-sm text-gray-500">Geen wijzigingen.</div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {comparison.config_changes.map(change => (
+                  <li key={change.key} className="px-6 py-3 flex justify-between text-sm">
+                    <span className="text-gray-700">{change.label}</span>
+                    <span className="text-gray-900 font-mono">
+                      {formatValue(change.before)} → {formatValue(change.after)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Document Wijzigingen</h2>
+            </div>
+            {comparison.document_changes === null ? (
+              <div className="px-6 py-6 text-sm text-gray-500">Niet beschikbaar: een van de runs heeft geen snapshot.</div>
+            ) : comparison.document_changes.length === 0 ? (
+              <div className="px-6 py-6 text-sm text-gray-500">Geen wijzigingen.</div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {comparison.document_changes.map(change => (
+                  <li key={change.document_id} className="px-6 py-3 flex justify-between items-center text-sm">
+                    <span className="text-gray-700 truncate mr-4">{change.filename}</span>
+                    <span className="flex items-center gap-2 whitespace-nowrap">
+                      {change.change === 'updated' && (
+                        <span className="text-xs text-gray-500">v{change.before_version} → v{change.after_version}</span>
+                      )}
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${DOCUMENT_CHANGE_LABELS[change.change].className}`}>
+                        {DOCUMENT_CHANGE_LABELS[change.change].label}
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,836 @@
+'use client';
+
+import { useState, useEffect, use, useCallback } from 'react';
+import Link from 'next/link';
+import type {
+  QACategory,
+  QATestRun,
+  QATestSet,
+  QAExperiment,
+  QAExperimentResults,
+  QAExperimentArmResult,
+  QAPipelineConfig
+} from '@/lib/products/hr-bot/qa/types';
+import {
+  MIN_EXPERIMENT_ARMS,
+  MAX_EXPERIMENT_ARMS,
+  DEFAULT_PIPELINE_TOP_K,
+  PIPELINE_CHUNK_SIZE_RANGE,
+  PIPELINE_CHUNK_OVERLAP_RANGE,
+  describePipelineConfig
+} from '@/lib/products/hr-bot/qa/types';
+import { DEFAULT_RETRIEVAL_CONFIG } from '@/lib/rag/retrieval-config';
+import { SUPPORTED_CHAT_MODELS } from '@/lib/bot/model-settings';
+import { PROMPT_TONE_OPTIONS, type PromptTone } from '@/lib/products/hr-bot/prompt-profile-types';
+
+interface PageProps {
+  params: Promise<{ tenantId: string }>;
+}
+
+type ExperimentSource = 'test_set' | 'run';
+
+const CATEGORY_LABELS: Record<QACategory, { label: string; icon: string }> = {
+  retrieval: { label: 'Retrieval', icon: '🔍' },
+  accuracy: { label: 'Accuraatheid', icon: '✓' },
+  citation: { label: 'Bronverwijzing', icon: '📎' },
+  hallucination: { label: 'Hallucinatie', icon: '👻' },
+  out_of_scope: { label: 'Out-of-scope', icon: '🚫' },
+  no_answer: { label: 'Geen antwoord', icon: '❓' },
+  consistency: { label: 'Consistentie', icon: '🔄' },
+  multilingual: { label: 'Meertalig', icon: '🌐' },
+  multi_turn: { label: 'Gesprek', icon: '💬' }
+};
+
+/**
+ * Form state of one arm. Empty strings = tenant configuration.
+ */
+interface ArmForm {
+  name: string;
+  topK: string;
+  candidateTopK: string;
+  minRelevanceScore: string;
+  reranking: '' | 'on' | 'off';
+  similarityThreshold: string;
+  fulltextWeight: string;
+  profileVersion: string;
+  tone: '' | PromptTone;
+  additionalInstructions: string;
+  model: string;
+  temperature: string;
+  chunkSize: string;
+  chunkOverlap: string;
+  semanticChunking: '' | 'on' | 'off';
+  contextHeaders: '' | 'on' | 'off';
+}
+
+const emptyArm = (name: string): ArmForm => ({
+  name,
+  topK: '',
+  candidateTopK: '',
+  minRelevanceScore: '',
+  reranking: '',
+  similarityThreshold: '',
+  fulltextWeight: '',
+  profileVersion: '',
+  tone: '',
+  additionalInstructions: '',
+  model: '',
+  temperature: '',
+  chunkSize: '',
+  chunkOverlap: '',
+  semanticChunking: '',
+  contextHeaders: ''
+});
+
+/**
+ * Form state → QAPipelineConfig (only what the arm changes)
+ */
+function armToConfig(arm: ArmForm): QAPipelineConfig {
+  const config: QAPipelineConfig = {};
+  const num = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+  if (num(arm.topK) !== undefined) config.topK = num(arm.topK);
+
+  const retrieval: NonNullable<QAPipelineConfig['retrieval']> = {};
+  if (num(arm.candidateTopK) !== undefined) retrieval.candidateTopK = num(arm.candidateTopK);
+  if (num(arm.minRelevanceScore) !== undefined) retrieval.minRelevanceScore = num(arm.minRelevanceScore);
+  if (arm.reranking) retrieval.rerankingEnabled = arm.reranking === 'on';
+  const searchOverrides: Record<string, number> = {};
+  if (num(arm.similarityThreshold) !== undefined) searchOverrides.similarityThreshold = num(arm.similarityThreshold) as number;
+  if (num(arm.fulltextWeight) !== undefined) searchOverrides.fulltextWeight = num(arm.fulltextWeight) as number;
+  if (Object.keys(searchOverrides).length > 0) retrieval.searchOverrides = searchOverrides;
+  if (Object.keys(retrieval).length > 0) config.retrieval = retrieval;
+
+  const prompt: NonNullable<QAPipelineConfig['prompt']> = {};
+  if (num(arm.profileVersion) !== undefined) prompt.profileVersion = num(arm.profileVersion);
+  if (arm.tone) prompt.tone = arm.tone;
+  if (arm.additionalInstructions.trim()) prompt.additionalInstructions = arm.additionalInstructions.trim();
+  if (Object.keys(prompt).length > 0) config.prompt = prompt;
+
+  const model: NonNullable<QAPipelineConfig['model']> = {};
+  if (arm.model) model.model = arm.model;
+  if (num(arm.temperature) !== undefined) model.temperature = num(arm.temperature);
+  if (Object.keys(model).length > 0) config.model = model;
+
+  const chunking: NonNullable<QAPipelineConfig['chunking']> = {};
+  if (num(arm.chunkSize) !== undefined) chunking.targetChunkSize = num(arm.chunkSize);
+  if (num(arm.chunkOverlap) !== undefined) chunking.overlapPercentage = num(arm.chunkOverlap);
+  if (arm.semanticChunking) chunking.enableSemanticChunking = arm.semanticChunking === 'on';
+  if (arm.contextHeaders) chunking.enableContextHeaders = arm.contextHeaders === 'on';
+  if (Object.keys(chunking).length > 0) config.chunking = chunking;
+
+  return config;
+}
+
+/**
+ * QA Experiments Page
+ *
+ * Runs one frozen question set (test set or the questions of a run)
+ * through two or more pipeline configurations and shows the arms side
+ * by side: score, latency and cost, judged by the same evaluator.
+ */
+export default function ExperimentsPage({ params }: PageProps) {
+  const { tenantId } = use(params);
+
+  const [experiments, setExperiments] = useState<QAExperiment[]>([]);
+  const [completedRuns, setCompletedRuns] = useState<QATestRun[]>([]);
+  const [testSets, setTestSets] = useState<QATestSet[]>([]);
+  const [profileVersions, setProfileVersions] = useState<number[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start form
+  const [name, setName] = useState('');
+  const [source, setSource] = useState<ExperimentSource>('test_set');
+  const [runId, setRunId] = useState('');
+  const [testSetId, setTestSetId] = useState('');
+  const [arms, setArms] = useState<ArmForm[]>([emptyArm('Huidig'), emptyArm('Variant')]);
+  const [starting, setStarting] = useState(false);
+
+  // Details
+  const [selected, setSelected] = useState<QAExperimentResults | null>(null);
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+
+  const fetchExperiments = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/products/hr-bot/test/${tenantId}/experiments`);
+      if (!res.ok) throw new Error('Failed to fetch experiments');
+      const data = await res.json();
+      setExperiments(data.experiments || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, [tenantId]);
+
+  const fetchExperiment = useCallback(async (experimentId: string) => {
+    try {
+      const res = await fetch(`/api/admin/products/hr-bot/test/${tenantId}/experiments/${experimentId}`);
+      if (!res.ok) throw new Error('Failed to fetch experiment');
+      const data: QAExperimentResults = await res.json();
+      setSelected(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        const [runsRes, setsRes, profileRes] = await Promise.all([
+          fetch(`/api/admin/products/hr-bot/test/${tenantId}?limit=50`),
+          fetch(`/api/admin/products/hr-bot/test/${tenantId}/sets`),
+          fetch(`/api/admin/products/hr-bot/branding/${tenantId}/prompt-profile`),
+          fetchExperiments()
+        ]);
+        if (runsRes.ok) {
+          const runsData = await runsRes.json();
+          setCompletedRuns((runsData.test_runs || []).filter((run: QATestRun) => run.status === 'completed'));
+        }
+        if (setsRes.ok) {
+          const setsData = await setsRes.json();
+          setTestSets((setsData.test_sets || []).filter((testSet: QATestSet) => testSet.question_count > 0));
+        }
+        if (profileRes.ok) {
+          const profileData = await profileRes.json();
+          setProfileVersions((profileData.versions || []).map((v: { version: number }) => v.version));
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchData();
+  }, [tenantId, fetchExperiments]);
+
+  // Poll while an experiment is running
+  const hasRunning = experiments.some(experiment => ['pending', 'running'].includes(experiment.status));
+  useEffect(() => {
+    if (!hasRunning) return;
+
+    const interval = setInterval(async () => {
+      await fetchExperiments();
+      if (selected && ['pending', 'running'].includes(selected.experiment.status)) {
+        await fetchExperiment(selected.experiment.id);
+      }
+    }, 3000);
+
+    return () => clearInterval(interval);
+  }, [hasRunning, selected, fetchExperiments, fetchExperiment]);
+
+  // Arm form helpers
+  const updateArm = (index: number, updates: Partial<ArmForm>) => {
+    setArms(prev => prev.map((arm, i) => i === index ? { ...arm, ...updates } : arm));
+  };
+
+  const addArm = () => {
+    if (arms.length >= MAX_EXPERIMENT_ARMS) return;
+    setArms(prev => [...prev, emptyArm(`Variant ${prev.length}`)]);
+  };
+
+  const removeArm = (index: number) => {
+    if (arms.length <= MIN_EXPERIMENT_ARMS) return;
+    setArms(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Start a new experiment
+  const startExperiment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (starting) return;
+
+    setStarting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/products/hr-bot/test/${tenantId}/experiments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          ...(source === 'run' ? { source_run_id: runId } : { test_set_id: testSetId }),
+          arms: arms.map(arm => ({ name: arm.name, config: armToConfig(arm) }))
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to start experiment');
+
+      setName('');
+      await fetchExperiments();
+      await fetchExperiment(data.experiment.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start experiment');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const selectExperiment = async (experimentId: string) => {
+    if (selected?.experiment.id === experimentId) {
+      setSelected(null);
+      return;
+    }
+    setOnlyDifferences(true);
+    await fetchExperiment(experimentId);
+  };
+
+  // Format helpers
+  const formatDate = (date: string | null) => {
+    if (!date) return '-';
+    return new Date(date).toLocaleDateString('nl-NL', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const formatScore = (score: number | null | undefined) => score == null ? '-' : `${score.toFixed(1)}%`;
+  const formatMs = (ms: number | null) => ms === null ? '-' : ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+  const formatCost = (cost: number | null) => cost === null ? '-' : `$${cost.toFixed(4)}`;
+
+  const sourceLabel = (experiment: QAExperiment) => {
+    if (experiment.test_set_id) {
+      const testSet = testSets.find(s => s.id === experiment.test_set_id);
+      return `Set: ${testSet?.name || experiment.test_set_id.slice(0, 8)}`;
+    }
+    if (experiment.source_run_id) {
+      return `Run: ${experiment.source_run_id.slice(0, 8)}`;
+    }
+    return '-';
+  };
+
+  const scoreClass = (score: number | null | undefined) => {
+    if (score == null) return 'text-gray-400';
+    if (score >= 80) return 'text-green-600';
+    if (score >= 60) return 'text-yellow-600';
+    return 'text-red-600';
+  };
+
+  // Best arm per row: highest score, or lowest latency / cost
+  const bestIndex = (values: Array<number | null | undefined>, lowerIsBetter: boolean = false): number | null => {
+    let best: number | null = null;
+    values.forEach((value, index) => {
+      if (value == null) return;
+      const current = best === null ? null : values[best] as number;
+      if (current === null || (lowerIsBetter ? value < current : value > current)) best = index;
+    });
+    const defined = values.filter(value => value != null);
+    return defined.length > 1 && new Set(defined).size > 1 ? best : null;
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-64 mb-8"></div>
+            <div className="h-32 bg-gray-200 rounded mb-8"></div>
+            <div className="h-64 bg-gray-200 rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const armResults = selected?.arms || [];
+  const categories = (Object.keys(CATEGORY_LABELS) as QACategory[])
+    .filter(category => armResults.some(arm => arm.scores_by_category[category] !== undefined));
+  const visibleQuestions = (selected?.questions || []).filter(row => {
+    if (!onlyDifferences) return true;
+    const passed = armResults.map(arm => row.passed[arm.name]).filter(value => value != null);
+    const scores = armResults.map(arm => row.scores[arm.name]).filter((value): value is number => value != null);
+    return new Set(passed).size > 1 || (scores.length > 1 && Math.max(...scores) - Math.min(...scores) >= 20);
+  });
+
+  const metricRows: Array<{
+    label: string;
+    values: Array<number | null | undefined>;
+    format: (value: number | null) => string;
+    lowerIsBetter?: boolean;
+  }> = [
+    { label: 'Score', values: armResults.map(arm => arm.overall_score), format: formatScore },
+    { label: 'Geslaagd', values: armResults.map(arm => arm.pass_rate), format: formatScore },
+    ...categories.map(category => ({
+      label: `${CATEGORY_LABELS[category].icon} ${CATEGORY_LABELS[category].label}`,
+      values: armResults.map(arm => arm.scores_by_category[category]),
+      format: formatScore
+    })),
+    { label: 'Gem. responstijd', values: armResults.map(arm => arm.avg_response_time_ms), format: formatMs, lowerIsBetter: true },
+    { label: 'p95 responstijd', values: armResults.map(arm => arm.p95_response_time_ms), format: formatMs, lowerIsBetter: true },
+    { label: 'Kosten per vraag', values: armResults.map(arm => arm.cost_per_question), format: formatCost, lowerIsBetter: true },
+    { label: 'Uitvoerkosten', values: armResults.map(arm => arm.execution_cost), format: formatCost, lowerIsBetter: true },
+    { label: 'Evaluatiekosten', values: armResults.map(arm => arm.evaluation_cost), format: formatCost }
+  ];
+
+  const armStatus = (arm: QAExperimentArmResult) => {
+    if (!arm.run) return <span className="text-gray-400">Geen run</span>;
+    if (arm.run.status === 'completed') return <span className="text-green-600">Voltooid</span>;
+    if (arm.run.status === 'failed') return <span className="text-red-600" title={arm.run.error_message || ''}>Mislukt</span>;
+    if (arm.run.status === 'pending') return <span className="text-gray-500">Wachtrij</span>;
+    return (
+      <span className="text-blue-600">
+        Bezig {arm.run.questions_completed}/{arm.run.total_questions}
+      </span>
+    );
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg';
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Breadcrumb */}
+        <nav className="flex items-center space-x-2 text-sm text-gray-500 mb-4">
+          <Link href="/admin" className="hover:text-gray-700">Admin</Link>
+          <span>/</span>
+          <Link href="/admin/products/hr-bot/test" className="hover:text-gray-700">QA Testing</Link>
+          <span>/</span>
+          <Link href={`/admin/products/hr-bot/test/${tenantId}`} className="hover:text-gray-700">{tenantId}</Link>
+          <span>/</span>
+          <span className="text-gray-900 font-medium">Experimenten</span>
+        </nav>
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Experimenten</h1>
+            <p className="text-gray-600">
+              Eén vaste vragenset door meerdere pipeline configuraties, beoordeeld door dezelfde evaluator.
+            </p>
+          </div>
+          <Link
+            href={`/admin/products/hr-bot/test/${tenantId}`}
+            className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition"
+          >
+            Terug
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        {/* Start Experiment */}
+        <form onSubmit={startExperiment} className="bg-white rounded-lg shadow p-6 mb-8">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Nieuw Experiment</h2>
+          <div className="flex flex-wrap items-end gap-4 mb-6">
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">Naam</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Bijv. reranking uit"
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">Vragen uit</label>
+              <select
+                value={source}
+                onChange={(e) => setSource(e.target.value as ExperimentSource)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg"
+              >
+                <option value="test_set">Test set</option>
+                <option value="run">Voltooide run</option>
+              </select>
+            </div>
+
+            {source === 'test_set' ? (
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Test set</label>
+                <select
+                  value={testSetId}
+                  onChange={(e) => setTestSetId(e.target.value)}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                  required
+                >
+                  <option value="">Kies een test set</option>
+                  {testSets.map(testSet => (
+                    <option key={testSet.id} value={testSet.id}>
+                      {testSet.name} · {testSet.question_count} vragen
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Run</label>
+                <select
+                  value={runId}
+                  onChange={(e) => setRunId(e.target.value)}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                  required
+                >
+                  <option value="">Kies een voltooide run</option>
+                  {completedRuns.map(run => (
+                    <option key={run.id} value={run.id}>
+                      {formatDate(run.created_at)} · {run.total_questions} vragen
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {/* Arms */}
+          <div className={`grid gap-4 mb-4 ${arms.length > 2 ? 'md:grid-cols-2 lg:grid-cols-4' : 'md:grid-cols-2'}`}>
+            {arms.map((arm, index) => (
+              <div key={index} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <input
+                    type="text"
+                    value={arm.name}
+                    onChange={(e) => updateArm(index, { name: e.target.value })}
+                    className="px-2 py-1 text-sm font-medium border border-gray-300 rounded-lg w-40"
+                    required
+                  />
+                  {arms.length > MIN_EXPERIMENT_ARMS && (
+                    <button
+                      type="button"
+                      onClick={() => removeArm(index)}
+                      className="text-xs text-red-600 hover:text-red-800"
+                    >
+                      Verwijder
+                    </button>
+                  )}
+                </div>
+
+                <p className="text-xs font-medium text-gray-500 uppercase mb-2">Retrieval</p>
+                <div className="grid grid-cols-2 gap-2 mb-3">
+                  <label className="text-xs text-gray-600">
+                    Chunks in prompt
+                    <input type="number" min={1} max={30} value={arm.topK} placeholder={String(DEFAULT_PIPELINE_TOP_K)}
+                      onChange={(e) => updateArm(index, { topK: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="text-xs text-gray-600">
+                    Candidates
+                    <input type="number" min={5} max={100} value={arm.candidateTopK} placeholder={String(DEFAULT_RETRIEVAL_CONFIG.candidateTopK)}
+                      onChange={(e) => updateArm(index, { candidateTopK: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="text-xs text-gray-600">
+                    Min. relevantie
+                    <input type="number" min={0} max={1} step={0.01} value={arm.minRelevanceScore} placeholder={String(DEFAULT_RETRIEVAL_CONFIG.minRelevanceScore)}
+                      onChange={(e) => updateArm(index, { minRelevanceScore: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="text-xs text-gray-600">
+                    Reranking
+                    <select value={arm.reranking} onChange={(e) => updateArm(index, { reranking: e.target.value as ArmForm['reranking'] })} className={inputClass}>
+                      <option value="">Standaard</option>
+                      <option value="on">Aan</option>
+                      <option value="off">Uit</option>
+                    </select>
+                  </label>
+                  <label className="text-xs text-gray-600">
+                    Similarity threshold
+                    <input type="number" min={0} max={1} step={0.01} value={arm.similarityThreshold} placeholder="tenant"
+                      onChange={(e) => updateArm(index, { similarityThreshold: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="text-xs text-gray-600">
+                    Full-text gewicht
+                    <input type="number" min={0} max={5} step={0.1} value={arm.fulltextWeight} placeholder="tenant"
+                      onChange={(e) => updateArm(index, { fulltextWeight: e.target.value })} className={inputClass} />
+                  </label>
+                </div>
+
+                <p className="text-xs font-medium text-gray-500 uppercase mb-2">Prompt & model</p>
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="text-xs text-gray-600">
+                    Profiel versie
+                    <select value={arm.profileVersion} onChange={(e) => updateArm(index, { profileVersion: e.target.value })} className={inputClass}>
+                      <option value="">Actief</option>
+                      {profileVersions.map(version => (
+                        <option key={version} value={version}>v{version}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-xs text-gray-600">
+                    Toon
+                    <select value={arm.tone} onChange={(e) => updateArm(index, { tone: e.target.value as ArmForm['tone'] })} className={inputClass}>
+                      <option value="">Profiel</option>
+                      {PROMPT_TONE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-xs text-gray-600">
+                    Model
+                    <select value={arm.model} onChange={(e) => updateArm(index, { model: e.target.value })} className={inputClass}>
+                      <option value="">Tenant</option>
+                      {SUPPORTED_CHAT_MODELS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-xs text-gray-600">
+                    Temperature
+                    <input type="number" min={0} max={2} step={0.1} value={arm.temperature} placeholder="tenant"
+                      onChange={(e) => updateArm(index, { temperature: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="text-xs text-gray-600 col-span-2">
+                    Extra instructies
+                    <textarea value={arm.additionalInstructions} rows={2}
+                      onChange={(e) => updateArm(index, { additionalInstructions: e.target.value })} className={inputClass} />
+                  </label>
+                </div>
+
+                <p className="text-xs font-medium text-gray-500 uppercase mt-3 mb-2">Chunking</p>
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="text-xs text-gray-600">
+                    Chunk grootte
+                    <input type="number" min={PIPELINE_CHUNK_SIZE_RANGE.min} max={PIPELINE_CHUNK_SIZE_RANGE.max} step={100} value={arm.chunkSize} placeholder="documenten"
+                      onChange={(e) => updateArm(index, { chunkSize: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="text-xs text-gray-600">
+                    Overlap %
+                    <input type="number" min={PIPELINE_CHUNK_OVERLAP_RANGE.min} max={PIPELINE_CHUNK_OVERLAP_RANGE.max} value={arm.chunkOverlap} placeholder="documenten"
+                      onChange={(e) => updateArm(index, { chunkOverlap: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="text-xs text-gray-600">
+                    Semantic chunking
+                    <select value={arm.semanticChunking} onChange={(e) => updateArm(index, { semanticChunking: e.target.value as ArmForm['semanticChunking'] })} className={inputClass}>
+                      <option value="">Standaard</option>
+                      <option value="on">Aan</option>
+                      <option value="off">Uit</option>
+                    </select>
+                  </label>
+                  <label className="text-xs text-gray-600">
+                    Context headers
+                    <select value={arm.contextHeaders} onChange={(e) => updateArm(index, { contextHeaders: e.target.value as ArmForm['contextHeaders'] })} className={inputClass}>
+                      <option value="">Standaard</option>
+                      <option value="on">Aan</option>
+                      <option value="off">Uit</option>
+                    </select>
+                  </label>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500">
+              Lege velden = tenant configuratie. Arms draaien na elkaar; reranking &quot;aan&quot; werkt alleen met een reranker API key.
+              Met chunking opties chunkt en embedt de arm de documenten opnieuw in een tijdelijke chunk set (extra kosten); de live chunks blijven ongewijzigd.
+            </p>
+            <div className="flex items-center gap-3 ml-4 shrink-0">
+              {arms.length < MAX_EXPERIMENT_ARMS && (
+                <button
+                  type="button"
+                  onClick={addArm}
+                  className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-lg transition"
+                >
+                  + Arm
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={starting || !name.trim() || (source === 'run' ? !runId : !testSetId)}
+                className="px-6 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {starting ? 'Starten...' : 'Start experiment'}
+              </button>
+            </div>
+          </div>
+        </form>
+
+        {/* Experiments */}
+        <div className="bg-white rounded-lg shadow overflow-hidden mb-8">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Experimenten</h2>
+          </div>
+
+          {experiments.length === 0 ? (
+            <div className="px-6 py-12 text-center text-gray-500">
+              <div className="text-4xl mb-2">🧪</div>
+              <p>Nog geen experimenten voor deze tenant</p>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Datum</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Naam</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Bron</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Arms</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Kosten</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {experiments.map(experiment => (
+                  <tr
+                    key={experiment.id}
+                    onClick={() => selectExperiment(experiment.id)}
+                    className={`cursor-pointer hover:bg-gray-50 ${selected?.experiment.id === experiment.id ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="px-6 py-3 text-sm text-gray-900">{formatDate(experiment.created_at)}</td>
+                    <td className="px-6 py-3 text-sm font-medium text-gray-900">{experiment.name}</td>
+                    <td className="px-6 py-3 text-sm text-gray-600">{sourceLabel(experiment)}</td>
+                    <td className="px-6 py-3 text-sm text-gray-600">{experiment.arms.map(arm => arm.name).join(' · ')}</td>
+                    <td className="px-6 py-3 text-sm">
+                      {experiment.status === 'completed' && <span className="text-green-600">Voltooid</span>}
+                      {experiment.status === 'failed' && <span className="text-red-600" title={experiment.error_message || ''}>Mislukt</span>}
+                      {experiment.status === 'pending' && <span className="text-gray-500">Wachtrij</span>}
+                      {experiment.status === 'running' && (
+                        <span className="text-blue-600">Bezig{experiment.current_arm ? `: ${experiment.current_arm}` : ''}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-right text-gray-600">${Number(experiment.total_cost || 0).toFixed(4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Details */}
+        {selected && (
+          <>
+            {selected.experiment.error_message && (
+              <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+                <p className="text-sm text-red-600">{selected.experiment.error_message}</p>
+              </div>
+            )}
+
+            {/* Arms side by side */}
+            <div className="bg-white rounded-lg shadow overflow-x-auto mb-8">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900">{selected.experiment.name}</h2>
+                <p className="text-xs text-gray-500">Beste waarde per rij is vetgedrukt. Scores 0-100, geslaagd vanaf 70.</p>
+              </div>
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase w-48"></th>
+                    {armResults.map(arm => (
+                      <th key={arm.name} className="px-6 py-3 text-right text-xs font-medium text-gray-500 align-top">
+                        <div className="text-sm font-semibold text-gray-900 normal-case">{arm.name}</div>
+                        <div className="font-normal normal-case">{armStatus(arm)}</div>
+                        <div className="flex flex-wrap justify-end gap-1 mt-1">
+                          {describePipelineConfig(arm.config).length === 0 ? (
+                            <span className="px-1.5 py-0.5 bg-gray-100 text-gray-600 rounded normal-case font-normal">Tenant configuratie</span>
+                          ) : describePipelineConfig(arm.config).map(part => (
+                            <span key={part} className="px-1.5 py-0.5 bg-blue-50 text-blue-700 rounded normal-case font-normal">{part}</span>
+                          ))}
+                        </div>
+                        {arm.run && (
+                          <Link
+                            href={`/admin/products/hr-bot/test/${tenantId}/${arm.run.id}`}
+                            className="text-xs text-blue-600 hover:text-blue-800 normal-case font-normal"
+                          >
+                            Run bekijken
+                          </Link>
+                        )}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {metricRows.map(row => {
+                    const best = bestIndex(row.values, row.lowerIsBetter);
+                    return (
+                      <tr key={row.label}>
+                        <td className="px-6 py-2 text-gray-600">{row.label}</td>
+                        {row.values.map((value, index) => (
+                          <td
+                            key={armResults[index].name}
+                            className={`px-6 py-2 text-right font-mono ${
+                              row.format === formatScore ? scoreClass(value) : 'text-gray-900'
+                            } ${best === index ? 'font-bold' : ''}`}
+                          >
+                            {row.format(value ?? null)}
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                  <tr>
+                    <td className="px-6 py-2 text-gray-600">Vragen</td>
+                    {armResults.map(arm => (
+                      <td key={arm.name} className="px-6 py-2 text-right text-gray-900">
+                        {arm.questions}
+                        {arm.failed_questions > 0 && <span className="text-red-600"> ({arm.failed_questions} fouten)</span>}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+              {armResults.length >= 2 && armResults[0].run && (
+                <div className="px-6 py-3 border-t border-gray-200 flex flex-wrap gap-3">
+                  {armResults.slice(1).filter(arm => arm.run).map(arm => (
+                    <Link
+                      key={arm.name}
+                      href={`/admin/products/hr-bot/test/${tenantId}/compare?base=${armResults[0].run!.id}&target=${arm.run!.id}`}
+                      className="text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      Vergelijk {armResults[0].name} → {arm.name}
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Questions */}
+            <div className="bg-white rounded-lg shadow overflow-x-auto mb-8">
+              <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  Vragen ({visibleQuestions.length}{onlyDifferences ? ` van ${selected.questions.length}` : ''})
+                </h2>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={onlyDifferences}
+                    onChange={(e) => setOnlyDifferences(e.target.checked)}
+                  />
+                  Alleen verschillen (geslaagd/gezakt of ≥20 punten)
+                </label>
+              </div>
+
+              {visibleQuestions.length === 0 ? (
+                <div className="px-6 py-8 text-center text-sm text-gray-500">
+                  {selected.questions.length === 0 ? 'Nog geen resultaten' : 'Geen verschillen tussen de arms'}
+                </div>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Vraag</th>
+                      {armResults.map(arm => (
+                        <th key={arm.name} className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{arm.name}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {visibleQuestions.map(row => (
+                      <tr key={row.key}>
+                        <td className="px-6 py-2">
+                          <span className="text-xs text-gray-500 mr-2">
+                            {CATEGORY_LABELS[row.category]?.icon} {row.language.toUpperCase()}
+                          </span>
+                          <span className="text-gray-900">{row.question}</span>
+                        </td>
+                        {armResults.map(arm => (
+                          <td key={arm.name} className="px-4 py-2 text-right whitespace-nowrap">
+                            <span className={`font-mono ${scoreClass(row.scores[arm.name])}`}>
+                              {row.scores[arm.name] != null ? Math.round(row.scores[arm.name] as number) : '-'}
+                            </span>
+                            {row.passed[arm.name] === true && <span className="ml-1 text-green-600">✓</span>}
+                            {row.passed[arm.name] === false && <span className="ml-1 text-red-600">✗</span>}
+                            <div className="text-xs text-gray-400">{formatMs(row.response_time_ms[arm.name] ?? null)}</div>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,8 @@ interface PageProps {
  * Tenant QA Test Page
  *
  * Shows test history and allows starting new tests.
+ * Two completed runs can be selected and compared, and a completed run
+ * can be re-run with the same questions (pinned question set).
  */
 export default function TenantTestPage({ params }: PageProps) {
   const { tenantId } = use(params);
@@ -22,6 +24,7 @@ export default function TenantTestPage({ params }: PageProps) {
   const [documentCount, setDocumentCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [starting, setStarting] = useState(false);
+  const [selectedRuns, setSelectedRuns] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
 
   // Fetch test history
@@ -42,8 +45,8 @@ export default function TenantTestPage({ params }: PageProps) {
     fetchData();
   }, [tenantId]);
 
-  // Start new test
-  const startTest = async () => {
+  // Start new test (optioneel met de vragen van een eerdere run)
+  const startTest = async (baselineRunId?: string) => {
     if (starting) return;
 
     setStarting(true);
@@ -51,10 +54,13 @@ export default function TenantTestPage({ params }: PageProps) {
       const res = await fetch(`/api/admin/products/hr-bot/test/${tenantId}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({})
+        body: JSON.stringify(baselineRunId ? { baseline_run_id: baselineRunId } : {})
       });
 
-      if (!res.ok) throw new Error('Failed to start test');
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to start test');
+      }
 
       const data = await res.json();
       router.push(`/admin/products/hr-bot/test/${tenantId}/${data.test_run.id}`);
@@ -64,6 +70,24 @@ export default function TenantTestPage({ params }: PageProps) {
     }
   };
 
+  // Selecteer maximaal twee voltooide runs om te vergelijken
+  const toggleSelected = (runId: string) => {
+    setSelectedRuns(prev =>
+      prev.includes(runId)
+        ? prev.filter(id => id !== runId)
+        : [...prev, runId].slice(-2)
+    );
+  };
+
+  const compareSelected = () => {
+    if (selectedRuns.length !== 2) return;
+    // Oudste run is de baseline
+    const [base, target] = testRuns
+      .filter(run => selectedRuns.includes(run.id))
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+    router.push(`/admin/products/hr-bot/test/${tenantId}/compare?base=${base.id}&target=${target.id}`);
+  };
+
   // Format helpers
   const formatCost = (cost: number | null | undefined) => {
     if (!cost) return '$0.00';
@@ -149,6 +173,24 @@ export default function TenantTestPage({ params }: PageProps) {
             <p className="text-gray-600">{documentCount} documenten beschikbaar</p>
           </div>
           <div className="flex items-center space-x-4">
+            <Link
+              href={`/admin/products/hr-bot/test/${tenantId}/sets`}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-lg transition"
+            >
+              Test sets
+            </Link>
+            <Link
+              href={`/admin/products/hr-bot/test/${tenantId}/retrieval`}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-lg transition"
+            >
+              Retrieval eval
+            </Link>
+            <Link
+              href={`/admin/products/hr-bot/test/${tenantId}/experiments`}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-lg transition"
+            >
+              Experimenten
+            </Link>
             <Link
               href={`/admin/products/hr-bot/test/${tenantId}/templates`}
               className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-lg transition"
@@ -156,7 +198,7 @@ export default function TenantTestPage({ params }: PageProps) {
               Templates beheren
             </Link>
             <button
-              onClick={startTest}
+              onClick={() => startTest()}
               disabled={starting || documentCount === 0}
               className={`px-6 py-2 text-sm font-medium text-white rounded-lg transition ${
                 starting || documentCount === 0
@@ -205,8 +247,19 @@ export default function TenantTestPage({ params }: PageProps) {
 
         {/* Test History */}
         <div className="bg-white rounded-lg shadow overflow-hidden">
-          <div className="px-6 py-4 border-b border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
             <h2 className="text-lg font-semibold text-gray-900">Test Geschiedenis</h2>
+            <button
+              onClick={compareSelected}
+              disabled={selectedRuns.length !== 2}
+              className={`px-4 py-2 text-sm font-medium rounded-lg transition ${
+                selectedRuns.length === 2
+                  ? 'text-white bg-blue-600 hover:bg-blue-700'
+                  : 'text-gray-400 bg-gray-100 cursor-not-allowed'
+              }`}
+            >
+              Vergelijk ({selectedRuns.length}/2)
+            </button>
           </div>
 
           {testRuns.length === 0 ? (
@@ -219,6 +272,7 @@ export default function TenantTestPage({ params }: PageProps) {
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
                 <tr>
+                  <th className="pl-6 py-3 w-8"></th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Datum
                   </th>
@@ -245,11 +299,30 @@ export default function TenantTestPage({ params }: PageProps) {
               <tbody className="bg-white divide-y divide-gray-200">
                 {testRuns.map((run) => (
                   <tr key={run.id} className="hover:bg-gray-50 transition">
+                    <td className="pl-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedRuns.includes(run.id)}
+                        onChange={() => toggleSelected(run.id)}
+                        disabled={run.status !== 'completed'}
+                        title={run.status === 'completed' ? 'Selecteer om te vergelijken' : 'Alleen voltooide runs'}
+                        className="rounded border-gray-300"
+                      />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {formatDate(run.created_at)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {getStatusBadge(run.status)}
+                      {run.is_regression && (
+                        <Link
+                          href={`/admin/products/hr-bot/test/${tenantId}/compare?base=${run.baseline_run_id}&target=${run.id}`}
+                          className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700 hover:bg-red-200"
+                          title="Een categorie daalde meer dan de drempel t.o.v. de baseline run"
+                        >
+                          Regressie
+                        </Link>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {run.overall_score !== null ? (
@@ -262,6 +335,15 @@ export default function TenantTestPage({ params }: PageProps) {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                       {run.questions_completed} / {run.total_questions}
+                      {run.test_set_id ? (
+                        <span className="ml-2 text-xs text-gray-400" title="Vragen uit een golden test set">
+                          📋 set
+                        </span>
+                      ) : run.baseline_run_id && (
+                        <span className="ml-2 text-xs text-gray-400" title="Zelfde vragen als een eerdere run">
+                          📌 vast
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                       {formatCost(run.total_cost)}
@@ -269,13 +351,23 @@ export default function TenantTestPage({ params }: PageProps) {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                       {run.duration_seconds ? `${Math.ceil(run.duration_seconds / 60)} min` : '-'}
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
+                    <td className="px-6 py-4 whitespace-nowrap space-x-3">
                       <Link
                         href={`/admin/products/hr-bot/test/${tenantId}/${run.id}`}
                         className="text-blue-600 hover:text-blue-800 text-sm font-medium"
                       >
                         Bekijk
                       </Link>
+                      {run.status === 'completed' && (
+                        <button
+                          onClick={() => startTest(run.id)}
+                          disabled={starting}
+                          className="text-gray-600 hover:text-gray-900 text-sm font-medium disabled:text-gray-300"
+                          title="Nieuwe run met exact dezelfde vragen, daarna regressie check"
+                        >
+                          Opnieuw (zelfde vragen)
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -0,0 +1,562 @@
+'use client';
+
+import { useState, useEffect, use, useCallback } from 'react';
+import Link from 'next/link';
+import type {
+  QATestRun,
+  QATestSet,
+  QARetrievalEval,
+  QARetrievalMetrics,
+  QARetrievalGroundTruth
+} from '@/lib/products/hr-bot/qa/types';
+
+interface PageProps {
+  params: Promise<{ tenantId: string }>;
+}
+
+type EvalSource = 'run' | 'test_set';
+
+const GROUND_TRUTH_LABELS: Record<QARetrievalGroundTruth, string> = {
+  chunk: 'Chunk',
+  page: 'Pagina',
+  document: 'Document'
+};
+
+/**
+ * Retrieval Evaluation Page
+ *
+ * Deterministic retrieval metrics (recall@k, MRR, nDCG) over the
+ * questions of a run or test set, before and after reranking.
+ * No answers are generated, so no LLM-as-judge.
+ */
+export default function RetrievalEvalPage({ params }: PageProps) {
+  const { tenantId } = use(params);
+
+  const [evaluations, setEvaluations] = useState<QARetrievalEval[]>([]);
+  const [completedRuns, setCompletedRuns] = useState<QATestRun[]>([]);
+  const [testSets, setTestSets] = useState<QATestSet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start form
+  const [source, setSource] = useState<EvalSource>('test_set');
+  const [runId, setRunId] = useState('');
+  const [testSetId, setTestSetId] = useState('');
+  const [starting, setStarting] = useState(false);
+
+  // Details
+  const [selected, setSelected] = useState<QARetrievalEval | null>(null);
+  const [showAllQuestions, setShowAllQuestions] = useState(false);
+
+  const fetchEvaluations = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/products/hr-bot/test/${tenantId}/retrieval`);
+      if (!res.ok) throw new Error('Failed to fetch retrieval evaluations');
+      const data = await res.json();
+      setEvaluations(data.evaluations || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, [tenantId]);
+
+  const fetchEvaluation = useCallback(async (evalId: string) => {
+    try {
+      const res = await fetch(`/api/admin/products/hr-bot/test/${tenantId}/retrieval/${evalId}`);
+      if (!res.ok) throw new Error('Failed to fetch retrieval evaluation');
+      const data = await res.json();
+      setSelected(data.evaluation);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        const [runsRes, setsRes] = await Promise.all([
+          fetch(`/api/admin/products/hr-bot/test/${tenantId}?limit=50`),
+          fetch(`/api/admin/products/hr-bot/test/${tenantId}/sets`),
+          fetchEvaluations()
+        ]);
+        if (runsRes.ok) {
+          const runsData = await runsRes.json();
+          setCompletedRuns((runsData.test_runs || []).filter((run: QATestRun) => run.status === 'completed'));
+        }
+        if (setsRes.ok) {
+          const setsData = await setsRes.json();
+          setTestSets((setsData.test_sets || []).filter((testSet: QATestSet) => testSet.question_count > 0));
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchData();
+  }, [tenantId, fetchEvaluations]);
+
+  // Poll while an evaluation is running
+  const hasRunning = evaluations.some(evaluation => ['pending', 'running'].includes(evaluation.status));
+  useEffect(() => {
+    if (!hasRunning) return;
+
+    const interval = setInterval(async () => {
+      await fetchEvaluations();
+      if (selected && ['pending', 'running'].includes(selected.status)) {
+        await fetchEvaluation(selected.id);
+      }
+    }, 3000);
+
+    return () => clearInterval(interval);
+  }, [hasRunning, selected, fetchEvaluations, fetchEvaluation]);
+
+  // Start a new evaluation
+  const startEvaluation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (starting) return;
+
+    setStarting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/products/hr-bot/test/${tenantId}/retrieval`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(source === 'run' ? { run_id: runId } : { test_set_id: testSetId })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to start retrieval evaluation');
+
+      setSelected(data.evaluation);
+      setShowAllQuestions(false);
+      await fetchEvaluations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start retrieval evaluation');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const selectEvaluation = async (evalId: string) => {
+    if (selected?.id === evalId) {
+      setSelected(null);
+      return;
+    }
+    setShowAllQuestions(false);
+    await fetchEvaluation(evalId);
+  };
+
+  // Format helpers
+  const formatDate = (date: string | null) => {
+    if (!date) return '-';
+    return new Date(date).toLocaleDateString('nl-NL', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const formatMetric = (value: number | undefined) => {
+    if (value === undefined) return '-';
+    return value.toFixed(3);
+  };
+
+  const formatRank = (rank: number | null) => rank === null ? '—' : `#${rank}`;
+
+  const sourceLabel = (evaluation: QARetrievalEval) => {
+    if (evaluation.test_set_id) {
+      const testSet = testSets.find(s => s.id === evaluation.test_set_id);
+      return `Set: ${testSet?.name || evaluation.test_set_id.slice(0, 8)}`;
+    }
+    if (evaluation.source_run_id) {
+      return `Run: ${evaluation.source_run_id.slice(0, 8)}`;
+    }
+    return '-';
+  };
+
+  const deltaClass = (before: number, after: number) => {
+    if (after - before > 0.005) return 'text-green-600';
+    if (after - before < -0.005) return 'text-red-600';
+    return 'text-gray-900';
+  };
+
+  // Before/after table for one group of questions
+  const renderMetricsTable = (
+    before: QARetrievalMetrics,
+    after: QARetrievalMetrics | null,
+    kValues: number[]
+  ) => (
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500 uppercase">
+          <th className="py-2 pr-6">Metric</th>
+          <th className="py-2 pr-6 text-right">Vóór reranking</th>
+          {after && <th className="py-2 pr-6 text-right">Na reranking</th>}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {kValues.map(k => (
+          <tr key={`recall-${k}`}>
+            <td className="py-1.5 pr-6 text-gray-700">Recall@{k}</td>
+            <td className="py-1.5 pr-6 text-right font-mono">{formatMetric(before.recall_at_k[k])}</td>
+            {after && (
+              <td className={`py-1.5 pr-6 text-right font-mono ${deltaClass(before.recall_at_k[k], after.recall_at_k[k])}`}>
+                {formatMetric(after.recall_at_k[k])}
+              </td>
+            )}
+          </tr>
+        ))}
+        {kValues.map(k => (
+          <tr key={`ndcg-${k}`}>
+            <td className="py-1.5 pr-6 text-gray-700">nDCG@{k}</td>
+            <td className="py-1.5 pr-6 text-right font-mono">{formatMetric(before.ndcg_at_k[k])}</td>
+            {after && (
+              <td className={`py-1.5 pr-6 text-right font-mono ${deltaClass(before.ndcg_at_k[k], after.ndcg_at_k[k])}`}>
+                {formatMetric(after.ndcg_at_k[k])}
+              </td>
+            )}
+          </tr>
+        ))}
+        <tr>
+          <td className="py-1.5 pr-6 text-gray-700 font-medium">MRR</td>
+          <td className="py-1.5 pr-6 text-right font-mono font-medium">{formatMetric(before.mrr)}</td>
+          {after && (
+            <td className={`py-1.5 pr-6 text-right font-mono font-medium ${deltaClass(before.mrr, after.mrr)}`}>
+              {formatMetric(after.mrr)}
+            </td>
+          )}
+        </tr>
+      </tbody>
+    </table>
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-64 mb-8"></div>
+            <div className="h-32 bg-gray-200 rounded mb-8"></div>
+            <div className="h-64 bg-gray-200 rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const maxK = selected ? Math.max(...selected.k_values) : 10;
+  const missedResults = (selected?.results || []).filter(result =>
+    result.rank_before === null ||
+    result.rank_before > maxK ||
+    (selected?.reranking_enabled && result.rank_after === null)
+  );
+  const visibleResults = showAllQuestions ? (selected?.results || []) : missedResults;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Breadcrumb */}
+        <nav className="flex items-center space-x-2 text-sm text-gray-500 mb-4">
+          <Link href="/admin" className="hover:text-gray-700">Admin</Link>
+          <span>/</span>
+          <Link href="/admin/products/hr-bot/test" className="hover:text-gray-700">QA Testing</Link>
+          <span>/</span>
+          <Link href={`/admin/products/hr-bot/test/${tenantId}`} className="hover:text-gray-700">{tenantId}</Link>
+          <span>/</span>
+          <span className="text-gray-900 font-medium">Retrieval</span>
+        </nav>
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Retrieval Evaluatie</h1>
+            <p className="text-gray-600">
+              Recall@k, MRR en nDCG op basis van de bron van elke vraag, vóór en na reranking. Geen LLM-as-judge.
+            </p>
+          </div>
+          <Link
+            href={`/admin/products/hr-bot/test/${tenantId}`}
+            className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition"
+          >
+            Terug
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        {/* Start Evaluation */}
+        <form onSubmit={startEvaluation} className="bg-white rounded-lg shadow p-6 mb-8">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Nieuwe Evaluatie</h2>
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">Vragen uit</label>
+              <select
+                value={source}
+                onChange={(e) => setSource(e.target.value as EvalSource)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg"
+              >
+                <option value="test_set">Test set</option>
+                <option value="run">Voltooide run</option>
+              </select>
+            </div>
+
+            {source === 'test_set' ? (
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Test set</label>
+                <select
+                  value={testSetId}
+                  onChange={(e) => setTestSetId(e.target.value)}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                  required
+                >
+                  <option value="">Kies een test set</option>
+                  {testSets.map(testSet => (
+                    <option key={testSet.id} value={testSet.id}>
+                      {testSet.name} · {testSet.question_count} vragen
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Run</label>
+                <select
+                  value={runId}
+                  onChange={(e) => setRunId(e.target.value)}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                  required
+                >
+                  <option value="">Kies een voltooide run</option>
+                  {completedRuns.map(run => (
+                    <option key={run.id} value={run.id}>
+                      {formatDate(run.created_at)} · {run.total_questions} vragen
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={starting || (source === 'run' ? !runId : !testSetId)}
+              className="px-6 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {starting ? 'Starten...' : 'Start evaluatie'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-3">
+            Alleen vragen met een bekend brondocument tellen mee; vragen zonder bron (zoals out-of-scope) worden overgeslagen.
+            Kosten: alleen embeddings en reranker.
+          </p>
+        </form>
+
+        {/* Evaluations */}
+        <div className="bg-white rounded-lg shadow overflow-hidden mb-8">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Evaluaties</h2>
+          </div>
+
+          {evaluations.length === 0 ? (
+            <div className="px-6 py-12 text-center text-gray-500">
+              <div className="text-4xl mb-2">🎯</div>
+              <p>Nog geen retrieval evaluaties voor deze tenant</p>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Datum</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Bron</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Vragen</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">MRR vóór</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">MRR na</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Kosten</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {evaluations.map(evaluation => (
+                  <tr
+                    key={evaluation.id}
+                    onClick={() => selectEvaluation(evaluation.id)}
+                    className={`cursor-pointer hover:bg-gray-50 ${selected?.id === evaluation.id ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="px-6 py-3 text-sm text-gray-900">{formatDate(evaluation.created_at)}</td>
+                    <td className="px-6 py-3 text-sm text-gray-600">{sourceLabel(evaluation)}</td>
+                    <td className="px-6 py-3 text-sm">
+                      {evaluation.status === 'completed' && <span className="text-green-600">Voltooid</span>}
+                      {evaluation.status === 'failed' && <span className="text-red-600" title={evaluation.error_message || ''}>Mislukt</span>}
+                      {['pending', 'running'].includes(evaluation.status) && (
+                        <span className="text-blue-600">
+                          Bezig {evaluation.questions_completed}/{evaluation.total_questions}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-right text-gray-900">
+                      {evaluation.total_questions}
+                      {evaluation.skipped_questions > 0 && (
+                        <span className="text-gray-400"> (+{evaluation.skipped_questions} overgeslagen)</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-right font-mono">{formatMetric(evaluation.metrics?.before.mrr)}</td>
+                    <td className="px-6 py-3 text-sm text-right font-mono">
+                      {evaluation.metrics ? (evaluation.metrics.after ? formatMetric(evaluation.metrics.after.mrr) : 'uit') : '-'}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-right text-gray-600">${Number(evaluation.total_cost || 0).toFixed(4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Details */}
+        {selected && (
+          <>
+            {['pending', 'running'].includes(selected.status) && (
+              <div className="bg-white rounded-lg shadow p-6 mb-8">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-semibold text-gray-900">Evaluatie Loopt...</h2>
+                  <div className="text-sm text-gray-500">
+                    {selected.questions_completed} / {selected.total_questions} vragen
+                  </div>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-3">
+                  <div
+                    className="bg-blue-600 h-3 rounded-full transition-all duration-500"
+                    style={{
+                      width: `${selected.total_questions > 0
+                        ? Math.round((selected.questions_completed / selected.total_questions) * 100)
+                        : 0}%`
+                    }}
+                  ></div>
+                </div>
+              </div>
+            )}
+
+            {selected.status === 'failed' && (
+              <div className="mb-8 bg-red-50 border border-red-200 rounded-lg p-4">
+                <h3 className="text-red-800 font-semibold">Evaluatie Mislukt</h3>
+                <p className="text-red-600 text-sm">{selected.error_message}</p>
+              </div>
+            )}
+
+            {selected.metrics && (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
+                <div className="bg-white rounded-lg shadow p-6">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-1">Totaal</h2>
+                  <p className="text-xs text-gray-500 mb-4">
+                    {selected.metrics.before.questions} vragen
+                    {!selected.reranking_enabled && ' · reranking staat uit'}
+                    {selected.duration_ms !== null && ` · ${(selected.duration_ms / 1000).toFixed(1)}s`}
+                  </p>
+                  {renderMetricsTable(selected.metrics.before, selected.metrics.after, selected.k_values)}
+                </div>
+
+                {/* Per Document */}
+                <div className="bg-white rounded-lg shadow overflow-hidden lg:col-span-2">
+                  <div className="px-6 py-4 border-b border-gray-200">
+                    <h2 className="text-lg font-semibold text-gray-900">Per Document</h2>
+                    <p className="text-xs text-gray-500">Slechtste documenten eerst</p>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Document</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Vragen</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Recall@{maxK}</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">MRR vóór</th>
+                          {selected.reranking_enabled && (
+                            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">MRR na</th>
+                          )}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {(selected.by_document || []).map(doc => (
+                          <tr key={doc.document}>
+                            <td className="px-4 py-2 text-gray-900 truncate max-w-xs" title={doc.document}>{doc.document}</td>
+                            <td className="px-4 py-2 text-right text-gray-600">{doc.before.questions}</td>
+                            <td className="px-4 py-2 text-right font-mono">{formatMetric(doc.before.recall_at_k[maxK])}</td>
+                            <td className="px-4 py-2 text-right font-mono">{formatMetric(doc.before.mrr)}</td>
+                            {selected.reranking_enabled && (
+                              <td className={`px-4 py-2 text-right font-mono ${doc.after ? deltaClass(doc.before.mrr, doc.after.mrr) : ''}`}>
+                                {formatMetric(doc.after?.mrr)}
+                              </td>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Per Question */}
+            {selected.results && selected.results.length > 0 && (
+              <div className="bg-white rounded-lg shadow overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">Per Vraag</h2>
+                    <p className="text-xs text-gray-500">
+                      {showAllQuestions
+                        ? `Alle ${selected.results.length} vragen`
+                        : `${missedResults.length} vragen waarvan de bron niet in de top ${maxK} staat`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setShowAllQuestions(!showAllQuestions)}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    {showAllQuestions ? 'Alleen missers' : 'Alle vragen'}
+                  </button>
+                </div>
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Vraag</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Bron</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Vóór</th>
+                      {selected.reranking_enabled && (
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Na</th>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {visibleResults.map(result => (
+                      <tr key={result.question_id}>
+                        <td className="px-4 py-2 text-gray-900">
+                          {result.question}
+                          {result.error && <div className="text-xs text-red-600">{result.error}</div>}
+                        </td>
+                        <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                          <div className="truncate max-w-xs" title={result.source_document || ''}>
+                            {result.source_document}{result.source_page ? ` p.${result.source_page}` : ''}
+                          </div>
+                          <div className="text-xs text-gray-400">{GROUND_TRUTH_LABELS[result.ground_truth]}</div>
+                        </td>
+                        <td className="px-4 py-2 text-right font-mono">
+                          {formatRank(result.rank_before)}
+                          <span className="text-gray-400 text-xs"> / {result.candidates}</span>
+                        </td>
+                        {selected.reranking_enabled && (
+                          <td className="px-4 py-2 text-right font-mono">{formatRank(result.rank_after)}</td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,518 @@
+'use client';
+
+import { useState, useEffect, use, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import type {
+  QACategory,
+  QATestRun,
+  QATestSet,
+  QATestSetQuestion,
+  QATestSetImportError
+} from '@/lib/products/hr-bot/qa/types';
+
+interface PageProps {
+  params: Promise<{ tenantId: string }>;
+}
+
+type SetSource = 'empty' | 'templates' | 'run' | 'chat_logs';
+
+// Category info for display
+const CATEGORY_LABELS: Record<QACategory, { label: string; icon: string }> = {
+  retrieval: { label: 'Retrieval', icon: '🔍' },
+  accuracy: { label: 'Accuraatheid', icon: '✓' },
+  citation: { label: 'Bronverwijzing', icon: '📎' },
+  hallucination: { label: 'Hallucinatie', icon: '👻' },
+  out_of_scope: { label: 'Out-of-scope', icon: '🚫' },
+  no_answer: { label: 'Geen antwoord', icon: '❓' },
+  consistency: { label: 'Consistentie', icon: '🔄' },
+  multilingual: { label: 'Meertalig', icon: '🌐' },
+  multi_turn: { label: 'Gesprek', icon: '💬' }
+};
+
+const SOURCE_OPTIONS: { value: SetSource; label: string; description: string }[] = [
+  { value: 'templates', label: 'Templates', description: 'Alle actieve templates van deze tenant' },
+  { value: 'run', label: 'Eerdere run', description: 'De vragen van een voltooide test run' },
+  { value: 'chat_logs', label: 'Negatieve feedback', description: 'Echte vragen uit de chat met een duim omlaag' },
+  { value: 'empty', label: 'Leeg', description: 'Vul de set daarna met een JSON/CSV import' }
+];
+
+const ORIGIN_LABELS: Record<string, string> = {
+  template: 'Template',
+  run: 'Run',
+  chat_log: 'Chat log',
+  import: 'Import',
+  manual: 'Handmatig'
+};
+
+/**
+ * Golden Test Sets Page
+ *
+ * Fixed question sets per tenant: build from templates, an earlier run
+ * or negative chat feedback, export/import as JSON or CSV and start a
+ * run on a set.
+ */
+export default function TestSetsPage({ params }: PageProps) {
+  const { tenantId } = use(params);
+  const router = useRouter();
+
+  const [testSets, setTestSets] = useState<QATestSet[]>([]);
+  const [completedRuns, setCompletedRuns] = useState<QATestRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<QATestSetImportError[]>([]);
+
+  // Create form
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [source, setSource] = useState<SetSource>('templates');
+  const [runId, setRunId] = useState('');
+  const [days, setDays] = useState('30');
+  const [creating, setCreating] = useState(false);
+
+  // Set details
+  const [expandedSet, setExpandedSet] = useState<string | null>(null);
+  const [questions, setQuestions] = useState<QATestSetQuestion[]>([]);
+  const [busySet, setBusySet] = useState<string | null>(null);
+
+  const fetchSets = useCallback(async () => {
+    try {
+      const [setsRes, runsRes] = await Promise.all([
+        fetch(`/api/admin/products/hr-bot/test/${tenantId}/sets`),
+        fetch(`/api/admin/products/hr-bot/test/${tenantId}?limit=50`)
+      ]);
+      if (!setsRes.ok) throw new Error('Failed to fetch test sets');
+      const setsData = await setsRes.json();
+      setTestSets(setsData.test_sets || []);
+
+      if (runsRes.ok) {
+        const runsData = await runsRes.json();
+        setCompletedRuns((runsData.test_runs || []).filter((run: QATestRun) => run.status === 'completed'));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    fetchSets();
+  }, [fetchSets]);
+
+  // Create a new set
+  const createSet = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (creating || !name.trim()) return;
+
+    setCreating(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/admin/products/hr-bot/test/${tenantId}/sets`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          description: description || null,
+          source,
+          ...(source === 'run' && { run_id: runId }),
+          ...(source === 'chat_logs' && { days: parseInt(days, 10) || 30 })
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to create test set');
+
+      setNotice(`Set "${data.test_set.name}" aangemaakt met ${data.added} vragen`);
+      setName('');
+      setDescription('');
+      await fetchSets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create test set');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  // Toggle question list
+  const toggleSet = async (setId: string) => {
+    if (expandedSet === setId) {
+      setExpandedSet(null);
+      return;
+    }
+
+    setExpandedSet(setId);
+    setQuestions([]);
+    try {
+      const res = await fetch(`/api/admin/products/hr-bot/test/${tenantId}/sets/${setId}`);
+      if (!res.ok) throw new Error('Failed to fetch questions');
+      const data = await res.json();
+      setQuestions(data.questions || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch questions');
+    }
+  };
+
+  // Import JSON/CSV into a set
+  const importFile = async (testSet: QATestSet, file: File, mode: 'replace' | 'append') => {
+    if (mode === 'replace' && testSet.question_count > 0 &&
+        !confirm(`Alle ${testSet.question_count} vragen van "${testSet.name}" vervangen door de import?`)) {
+      return;
+    }
+
+    setBusySet(testSet.id);
+    setError(null);
+    setNotice(null);
+    setImportErrors([]);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('mode', mode);
+
+      const res = await fetch(`/api/admin/products/hr-bot/test/${tenantId}/sets/${testSet.id}/import`, {
+        method: 'POST',
+        body: formData
+      });
+      const data = await res.json();
+      setImportErrors(data.errors || []);
+      if (!res.ok) throw new Error(data.details || data.error || 'Import failed');
+
+      setNotice(`${data.imported} vragen geïmporteerd in "${testSet.name}"${data.skipped ? `, ${data.skipped} rijen overgeslagen` : ''}`);
+      await fetchSets();
+      if (expandedSet === testSet.id) {
+        setExpandedSet(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setBusySet(null);
+    }
+  };
+
+  // Start a run on a set
+  const startRun = async (testSet: QATestSet) => {
+    setBusySet(testSet.id);
+    try {
+      const res = await fetch(`/api/admin/products/hr-bot/test/${tenantId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ test_set_id: testSet.id })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to start test');
+
+      router.push(`/admin/products/hr-bot/test/${tenantId}/${data.test_run.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start test');
+      setBusySet(null);
+    }
+  };
+
+  // Delete a set
+  const deleteSet = async (testSet: QATestSet) => {
+    if (!confirm(`Set "${testSet.name}" verwijderen? Runs op deze set blijven bestaan.`)) return;
+
+    setBusySet(testSet.id);
+    try {
+      const res = await fetch(`/api/admin/products/hr-bot/test/${tenantId}/sets/${testSet.id}`, {
+        method: 'DELETE'
+      });
+      if (!res.ok) throw new Error('Failed to delete test set');
+      await fetchSets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete test set');
+    } finally {
+      setBusySet(null);
+    }
+  };
+
+  const formatDate = (date: string | null) => {
+    if (!date) return '-';
+    return new Date(date).toLocaleDateString('nl-NL', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-64 mb-8"></div>
+            <div className="h-48 bg-gray-200 rounded mb-8"></div>
+            <div className="h-64 bg-gray-200 rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Breadcrumb */}
+        <nav className="flex items-center space-x-2 text-sm text-gray-500 mb-4">
+          <Link href="/admin" className="hover:text-gray-700">Admin</Link>
+          <span>/</span>
+          <Link href="/admin/products/hr-bot/test" className="hover:text-gray-700">QA Testing</Link>
+          <span>/</span>
+          <Link href={`/admin/products/hr-bot/test/${tenantId}`} className="hover:text-gray-700">{tenantId}</Link>
+          <span>/</span>
+          <span className="text-gray-900 font-medium">Test Sets</span>
+        </nav>
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Golden Test Sets</h1>
+            <p className="text-gray-600">
+              Vaste vragensets voor reproduceerbare scores. Elke run op een set wordt vergeleken met de vorige run op dezelfde set.
+            </p>
+          </div>
+          <Link
+            href={`/admin/products/hr-bot/test/${tenantId}`}
+            className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition"
+          >
+            Terug
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        {notice && (
+          <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4">
+            <p className="text-green-700">{notice}</p>
+          </div>
+        )}
+
+        {importErrors.length > 0 && (
+          <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <h3 className="text-yellow-800 font-semibold mb-1">Overgeslagen rijen</h3>
+            <ul className="text-sm text-yellow-700 space-y-0.5">
+              {importErrors.slice(0, 20).map((importError, i) => (
+                <li key={i}>{importError.row > 0 ? `Rij ${importError.row}: ` : ''}{importError.message}</li>
+              ))}
+              {importErrors.length > 20 && <li>... en nog {importErrors.length - 20}</li>}
+            </ul>
+          </div>
+        )}
+
+        {/* Create Set */}
+        <form onSubmit={createSet} className="bg-white rounded-lg shadow p-6 mb-8">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Nieuwe Set</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">Naam</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Bijv. Verlof & verzuim"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">Omschrijving</label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+            {SOURCE_OPTIONS.map(option => (
+              <label
+                key={option.value}
+                className={`border rounded-lg p-3 cursor-pointer transition ${
+                  source === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="source"
+                  value={option.value}
+                  checked={source === option.value}
+                  onChange={() => setSource(option.value)}
+                  className="sr-only"
+                />
+                <div className="text-sm font-medium text-gray-900">{option.label}</div>
+                <div className="text-xs text-gray-500">{option.description}</div>
+              </label>
+            ))}
+          </div>
+
+          {source === 'run' && (
+            <div className="mb-4">
+              <label className="block text-sm text-gray-600 mb-1">Run</label>
+              <select
+                value={runId}
+                onChange={(e) => setRunId(e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                required
+              >
+                <option value="">Kies een voltooide run</option>
+                {completedRuns.map(run => (
+                  <option key={run.id} value={run.id}>
+                    {formatDate(run.created_at)} · {run.total_questions} vragen · {run.overall_score?.toFixed(1) ?? '-'}%
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {source === 'chat_logs' && (
+            <div className="mb-4">
+              <label className="block text-sm text-gray-600 mb-1">Periode (dagen)</label>
+              <input
+                type="number"
+                min={1}
+                max={365}
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+                className="w-24 px-3 py-2 text-sm border border-gray-300 rounded-lg"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Verwachte antwoorden zijn leeg; exporteer de set als CSV, laat HR ze invullen en importeer opnieuw.
+              </p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={creating || !name.trim() || (source === 'run' && !runId)}
+            className="px-6 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {creating ? 'Aanmaken...' : 'Set aanmaken'}
+          </button>
+        </form>
+
+        {/* Sets */}
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Sets</h2>
+          </div>
+
+          {testSets.length === 0 ? (
+            <div className="px-6 py-12 text-center text-gray-500">
+              <div className="text-4xl mb-2">📋</div>
+              <p>Nog geen test sets voor deze tenant</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {testSets.map(testSet => (
+                <li key={testSet.id} className="px-6 py-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <button
+                        onClick={() => toggleSet(testSet.id)}
+                        className="text-left text-sm font-medium text-gray-900 hover:text-blue-600"
+                      >
+                        {expandedSet === testSet.id ? '▾' : '▸'} {testSet.name}
+                      </button>
+                      <div className="text-xs text-gray-500">
+                        {testSet.question_count} vragen · bijgewerkt {formatDate(testSet.updated_at)}
+                        {testSet.description && <> · {testSet.description}</>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 text-sm whitespace-nowrap">
+                      <button
+                        onClick={() => startRun(testSet)}
+                        disabled={busySet === testSet.id || testSet.question_count === 0}
+                        className="px-3 py-1.5 text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition disabled:bg-gray-300"
+                      >
+                        Start run
+                      </button>
+                      <a
+                        href={`/api/admin/products/hr-bot/test/${tenantId}/sets/${testSet.id}/export?format=csv`}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        CSV
+                      </a>
+                      <a
+                        href={`/api/admin/products/hr-bot/test/${tenantId}/sets/${testSet.id}/export?format=json`}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        JSON
+                      </a>
+                      <label className="text-gray-600 hover:text-gray-900 cursor-pointer" title="Vervangt alle vragen van de set">
+                        Importeren
+                        <input
+                          type="file"
+                          accept=".csv,.json"
+                          className="hidden"
+                          disabled={busySet === testSet.id}
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            e.target.value = '';
+                            if (file) importFile(testSet, file, 'replace');
+                          }}
+                        />
+                      </label>
+                      <label className="text-gray-600 hover:text-gray-900 cursor-pointer" title="Voegt de vragen toe aan de set">
+                        Toevoegen
+                        <input
+                          type="file"
+                          accept=".csv,.json"
+                          className="hidden"
+                          disabled={busySet === testSet.id}
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            e.target.value = '';
+                            if (file) importFile(testSet, file, 'append');
+                          }}
+                        />
+                      </label>
+                      <button
+                        onClick={() => deleteSet(testSet)}
+                        disabled={busySet === testSet.id}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Verwijderen
+                      </button>
+                    </div>
+                  </div>
+
+                  {expandedSet === testSet.id && (
+                    <div className="mt-4 border border-gray-200 rounded-lg divide-y divide-gray-100">
+                      {questions.length === 0 ? (
+                        <div className="px-4 py-3 text-sm text-gray-500">Geen vragen</div>
+                      ) : questions.map(question => (
+                        <div key={question.id} className="px-4 py-3 text-sm">
+                          <div className="text-xs text-gray-500 mb-1">
+                            {CATEGORY_LABELS[question.category]?.icon} {CATEGORY_LABELS[question.category]?.label || question.category}
+                            {' · '}{question.language.toUpperCase()}
+                            {' · '}{ORIGIN_LABELS[question.origin] || question.origin}
+                          </div>
+                          <div className="text-gray-900">{question.question}</div>
+                          {question.expected_answer ? (
+                            <div className="text-gray-600 mt-1">→ {question.expected_answer}</div>
+                          ) : (
+                            <div className="text-gray-400 mt-1 italic">Geen verwacht antwoord</div>
+                          )}
+                          {question.notes && <div className="text-xs text-gray-400 mt-1">{question.notes}</div>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
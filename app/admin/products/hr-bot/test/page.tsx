@@ -247,8 +247,9 @@ export default function QATestPage() {
         <div className="mt-8 bg-blue-50 rounded-lg p-4">
           <h3 className="font-semibold text-blue-900 mb-2">Over QA Testing</h3>
           <p className="text-sm text-blue-700">
-            QA Tests evalueren de bot op 8 categorieen: Retrieval, Accuraatheid, Bronverwijzing,
-            Hallucinatie, Out-of-scope weigering, &quot;Weet niet&quot; antwoorden, Consistentie en Meertaligheid.
+            QA Tests evalueren de bot op 9 categorieen: Retrieval, Accuraatheid, Bronverwijzing,
+            Hallucinatie, Out-of-scope weigering, &quot;Weet niet&quot; antwoorden, Consistentie, Meertaligheid
+            en vervolgvragen in een gesprek.
             Elke test genereert minimaal 60 vragen op basis van de geuploade documenten.
           </p>
         </div>
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAuthFromRequest } from '@/lib/shared/auth/server';
+import { listApiKeys, createApiKey, revokeApiKey } from '@/lib/admin/api-key-service';
+import type { CreateApiKeyInput } from '@/lib/shared/auth/api-key-types';
+
+/**
+ * ========================================
+ * ADMIN KLANT API KEYS API
+ * ========================================
+ *
+ * GET    /api/admin/klanten/[id]/api-keys - Lijst API keys
+ * POST   /api/admin/klanten/[id]/api-keys - Maak API key (volledige key alleen in deze response)
+ * DELETE /api/admin/klanten/[id]/api-keys?key_id=xxx - Trek API key in
+ */
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Email van de ingelogde admin, voor created_by
+ */
+async function getAdminEmail(request: NextRequest): Promise<string | null> {
+  const auth = await checkAuthFromRequest(request, 'admin');
+  return auth.user?.email || null;
+}
+
+/**
+ * GET - Lijst alle API keys voor een klant
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { keys, error } = await listApiKeys(id);
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Kon API keys niet ophalen' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ keys });
+  } catch (error) {
+    console.error('❌ [API Keys API] GET error:', error);
+    return NextResponse.json(
+      { error: 'Kon API keys niet ophalen' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Maak een API key
+ *
+ * Body: {
+ *   name: string,
+ *   key_type: 'secret' | 'public',
+ *   scopes?: ('chat' | 'documents' | 'logs:read')[],  // secret keys
+ *   allowed_origins?: string[]                         // public keys
+ * }
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json() as CreateApiKeyInput;
+
+    const { key, plainKey, error } = await createApiKey(id, body, await getAdminEmail(request) || undefined);
+
+    if (!key || !plainKey) {
+      return NextResponse.json(
+        { error: error || 'Kon API key niet aanmaken' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ key, plainKey }, { status: 201 });
+  } catch (error) {
+    console.error('❌ [API Keys API] POST error:', error);
+    return NextResponse.json(
+      { error: 'Kon API key niet aanmaken' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Trek een API key in (de rij blijft bewaard voor de historie)
+ *
+ * De middleware cachet resolved keys tot 60 seconden per instance: een
+ * ingetrokken key kan zo lang nog werken.
+ *
+ * Query params:
+ * - key_id: UUID van de key
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const keyId = request.nextUrl.searchParams.get('key_id');
+
+    if (!keyId) {
+      return NextResponse.json(
+        { error: 'key_id is verplicht' },
+        { status: 400 }
+      );
+    }
+
+    const { success, error } = await revokeApiKey(id, keyId);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: error || 'Kon API key niet intrekken' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('❌ [API Keys API] DELETE error:', error);
+    return NextResponse.json(
+      { error: 'Kon API key niet intrekken' },
+      { status: 500 }
+    );
+  }
+}
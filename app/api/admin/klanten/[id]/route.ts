@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { clearTenantCache } from '@/lib/shared/tenant-config';
 
 function getSupabase() {
   return createClient(
@@ -118,6 +119,7 @@ export async function GET(request: Request, { params }: RouteParams) {
  * Body: {
  *   name?: string,
  *   is_active?: boolean,
+ *   require_api_key?: boolean, // /api/chat alleen met API key
  *   products?: string[] // Product IDs to assign
  * }
  */
@@ -145,6 +147,7 @@ export async function PUT(request: Request, { params }: RouteParams) {
     const updateData: Record<string, unknown> = {};
     if (body.name !== undefined) updateData.name = body.name.trim();
     if (body.is_active !== undefined) updateData.is_active = body.is_active;
+    if (body.require_api_key !== undefined) updateData.require_api_key = body.require_api_key === true;
 
     if (Object.keys(updateData).length > 0) {
       const { error: updateError } = await supabase
@@ -159,6 +162,8 @@ export async function PUT(request: Request, { params }: RouteParams) {
           { status: 500 }
         );
       }
+
+      clearTenantCache(id);
     }
 
     // Update products if specified
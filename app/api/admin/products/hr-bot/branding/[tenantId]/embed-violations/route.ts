@@ -0,0 +1,46 @@
+/**
+ * ========================================
+ * ADMIN EMBED VIOLATIONS API
+ * ========================================
+ * GET /api/admin/products/hr-bot/branding/[tenantId]/embed-violations
+ *     - Recente pogingen om de bot vanaf een niet-toegestaan domein te gebruiken
+ *
+ * Query params:
+ * - limit: Aantal (default 50, max 200)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listEmbedOriginViolations } from '@/lib/shared/embed-origins';
+
+interface RouteParams {
+  params: Promise<{ tenantId: string }>;
+}
+
+const MAX_LIMIT = 200;
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { tenantId } = await params;
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(request.nextUrl.searchParams.get('limit') || '50') || 50));
+
+    const { violations, error } = await listEmbedOriginViolations(tenantId, limit);
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to fetch embed violations', details: error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ violations });
+
+  } catch (error) {
+    console.error('❌ [API] Error fetching embed violations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch embed violations', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * ========================================
+ * ADMIN PROMPT PROFILE API
+ * ========================================
+ * GET  /api/admin/products/hr-bot/branding/[tenantId]/prompt-profile
+ *      - Haal actief profiel + alle versies op
+ * PUT  /api/admin/products/hr-bot/branding/[tenantId]/prompt-profile
+ *      - Sla een nieuwe versie op
+ * POST /api/admin/products/hr-bot/branding/[tenantId]/prompt-profile
+ *      - Rollback naar een eerdere versie ({ rollbackToVersion: number })
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAuthFromRequest } from '@/lib/shared/auth/server';
+import {
+  listPromptProfileVersions,
+  savePromptProfile,
+  rollbackPromptProfile
+} from '@/lib/products/hr-bot/prompt-profile-service';
+import { PROMPT_TONE_OPTIONS, SavePromptProfileInput } from '@/lib/products/hr-bot/prompt-profile-types';
+
+interface RouteParams {
+  params: Promise<{ tenantId: string }>;
+}
+
+/**
+ * Email van de ingelogde admin, voor de versie historie
+ */
+async function getAdminEmail(request: NextRequest): Promise<string | null> {
+  const auth = await checkAuthFromRequest(request, 'admin');
+  return auth.user?.email || null;
+}
+
+/**
+ * GET - Actief profiel en versie historie
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { tenantId } = await params;
+    console.log(`📋 [API] GET prompt profile for ${tenantId}`);
+
+    const { versions, error } = await listPromptProfileVersions(tenantId);
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to fetch prompt profile', details: error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      active: versions[0] || null,
+      versions
+    });
+
+  } catch (error) {
+    console.error('❌ [API] Error fetching prompt profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch prompt profile', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT - Sla een nieuwe profiel versie op
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { tenantId } = await params;
+    console.log(`📝 [API] PUT prompt profile for ${tenantId}`);
+
+    const body = await request.json() as SavePromptProfileInput;
+
+    if (body.tone && !PROMPT_TONE_OPTIONS.some(option => option.value === body.tone)) {
+      return NextResponse.json(
+        { error: `Invalid tone: ${body.tone}` },
+        { status: 400 }
+      );
+    }
+
+    const { profile, error } = await savePromptProfile(tenantId, {
+      persona_name: body.persona_name,
+      tone: body.tone,
+      extra_rules: body.extra_rules,
+      forbidden_topics: body.forbidden_topics,
+      escalation_contact: body.escalation_contact,
+      change_note: body.change_note,
+      created_by: await getAdminEmail(request)
+    });
+
+    if (error || !profile) {
+      return NextResponse.json(
+        { error: 'Failed to save prompt profile', details: error },
+        { status: 500 }
+      );
+    }
+
+    console.log(`✅ [API] Prompt profile v${profile.version} saved for ${tenantId}`);
+    return NextResponse.json({ profile });
+
+  } catch (error) {
+    console.error('❌ [API] Error saving prompt profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to save prompt profile', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Rollback naar een eerdere versie
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { tenantId } = await params;
+    const { rollbackToVersion } = await request.json() as { rollbackToVersion?: number };
+
+    if (typeof rollbackToVersion !== 'number') {
+      return NextResponse.json(
+        { error: 'rollbackToVersion is required' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`⏪ [API] Rollback prompt profile for ${tenantId} to v${rollbackToVersion}`);
+
+    const { profile, error } = await rollbackPromptProfile(
+      tenantId,
+      rollbackToVersion,
+      await getAdminEmail(request)
+    );
+
+    if (error || !profile) {
+      return NextResponse.json(
+        { error: 'Failed to rollback prompt profile', details: error },
+        { status: error?.includes('not found') ? 404 : 500 }
+      );
+    }
+
+    console.log(`✅ [API] Prompt profile rolled back, new version v${profile.version}`);
+    return NextResponse.json({ profile });
+
+  } catch (error) {
+    console.error('❌ [API] Error rolling back prompt profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to rollback prompt profile', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
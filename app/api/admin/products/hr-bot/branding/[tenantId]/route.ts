@@ -12,6 +12,9 @@ import {
   updateTenantBranding,
   UpdateTenantBrandingInput
 } from '@/lib/admin/branding-service';
+import { clearTenantCache } from '@/lib/shared/tenant-config';
+import { clearEmbedOriginsCache } from '@/lib/shared/embed-origins';
+import { normalizeOrigin } from '@/lib/shared/auth/api-key-types';
 
 interface RouteParams {
   params: Promise<{ tenantId: string }>;
@@ -73,9 +76,36 @@ export async function PUT(
       );
     }
 
+    // Embed origins normaliseren (https://www.acme.nl, https://*.acme.nl)
+    if (body.embed_allowed_origins !== undefined) {
+      if (!Array.isArray(body.embed_allowed_origins)) {
+        return NextResponse.json(
+          { error: 'embed_allowed_origins must be an array' },
+          { status: 400 }
+        );
+      }
+
+      const origins: string[] = [];
+      for (const value of body.embed_allowed_origins) {
+        const origin = typeof value === 'string' ? normalizeOrigin(value) : null;
+        if (!origin) {
+          return NextResponse.json(
+            { error: `Ongeldig domein: ${value}` },
+            { status: 400 }
+          );
+        }
+        origins.push(origin);
+      }
+      body.embed_allowed_origins = Array.from(new Set(origins));
+    }
+
     // Update tenant
     const tenant = await updateTenantBranding(tenantId, body);
 
+    // Cache legen zodat chat direct de nieuwe (model) settings gebruikt
+    clearTenantCache(tenantId);
+    clearEmbedOriginsCache(tenantId);
+
     console.log(`✅ [API] Tenant updated: ${tenantId}`);
     return NextResponse.json({ tenant });
 
@@ -0,0 +1,64 @@
+/**
+ * ========================================
+ * ADMIN CRAWL NOW API
+ * ========================================
+ * POST /api/admin/products/hr-bot/tenants/[id]/crawl-sources/[sourceId]/crawl
+ *      - Crawl direct starten (los van het interval)
+ *
+ * Response 202: de crawl loopt na de response; voortgang via
+ * crawl_status van de bron. Nieuwe pagina's gaan daarna door de
+ * document worker.
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getCrawlSource, crawlSource } from '@/lib/rag/crawl-sources-service';
+import { runDocumentWorker } from '@/lib/rag/document-worker';
+
+interface RouteParams {
+  params: Promise<{ id: string; sourceId: string }>;
+}
+
+export const maxDuration = 300;
+
+// Crawl eerst, de resterende tijd voor de eerste documenten uit de wachtrij
+const CRAWL_DURATION_MS = 180 * 1000;
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, sourceId } = await params;
+
+    const source = await getCrawlSource(id, sourceId);
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Crawl source not found' },
+        { status: 404 }
+      );
+    }
+
+    if (source.crawl_status === 'running') {
+      return NextResponse.json(
+        { error: 'Crawl already running' },
+        { status: 409 }
+      );
+    }
+
+    after(async () => {
+      const { stats } = await crawlSource(id, sourceId, { deadline: Date.now() + CRAWL_DURATION_MS });
+      if (stats?.indexed) {
+        await runDocumentWorker({ maxDurationMs: 60 * 1000 });
+      }
+    });
+
+    return NextResponse.json({ success: true, status: 'running' }, { status: 202 });
+
+  } catch (error) {
+    console.error('❌ [API] Error starting crawl:', error);
+    return NextResponse.json(
+      { error: 'Failed to start crawl', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * ========================================
+ * ADMIN CRAWL SOURCE API
+ * ========================================
+ * GET    /api/admin/products/hr-bot/tenants/[id]/crawl-sources/[sourceId]
+ *        - Bron met de pagina's van de laatste crawl ({ source, pages })
+ * PUT    /api/admin/products/hr-bot/tenants/[id]/crawl-sources/[sourceId]
+ *        - Bron bijwerken
+ * DELETE /api/admin/products/hr-bot/tenants/[id]/crawl-sources/[sourceId]
+ *        - Bron verwijderen; ?deleteDocuments=true verwijdert ook de
+ *          geïndexeerde pagina's
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getCrawlSource,
+  listCrawlPages,
+  updateCrawlSource,
+  deleteCrawlSource
+} from '@/lib/rag/crawl-sources-service';
+import { CrawlSourceInput } from '@/lib/rag/crawl-sources';
+
+interface RouteParams {
+  params: Promise<{ id: string; sourceId: string }>;
+}
+
+/**
+ * GET - Bron + pagina's
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, sourceId } = await params;
+
+    const source = await getCrawlSource(id, sourceId);
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Crawl source not found' },
+        { status: 404 }
+      );
+    }
+
+    const pages = await listCrawlPages(id, sourceId);
+
+    return NextResponse.json({ source, pages });
+
+  } catch (error) {
+    console.error('❌ [API] Error fetching crawl source:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch crawl source', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT - Bron bijwerken
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, sourceId } = await params;
+    const body = await request.json() as CrawlSourceInput;
+
+    const { source, error } = await updateCrawlSource(id, sourceId, body);
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Failed to update crawl source', details: error },
+        { status: error === 'Source not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ source });
+
+  } catch (error) {
+    console.error('❌ [API] Error updating crawl source:', error);
+    return NextResponse.json(
+      { error: 'Failed to update crawl source', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Bron verwijderen
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, sourceId } = await params;
+    const deleteDocuments = request.nextUrl.searchParams.get('deleteDocuments') === 'true';
+
+    const { success, deletedDocuments, error } = await deleteCrawlSource(id, sourceId, { deleteDocuments });
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Failed to delete crawl source', details: error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, deletedDocuments });
+
+  } catch (error) {
+    console.error('❌ [API] Error deleting crawl source:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete crawl source', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
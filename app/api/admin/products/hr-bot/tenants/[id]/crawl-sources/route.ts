@@ -0,0 +1,69 @@
+/**
+ * ========================================
+ * ADMIN CRAWL SOURCES API
+ * ========================================
+ * GET  /api/admin/products/hr-bot/tenants/[id]/crawl-sources
+ *      - Alle crawl bronnen van de tenant ({ sources })
+ * POST /api/admin/products/hr-bot/tenants/[id]/crawl-sources
+ *      - Nieuwe bron aanmaken (website of sitemap)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listCrawlSources, createCrawlSource } from '@/lib/rag/crawl-sources-service';
+import { CrawlSourceInput } from '@/lib/rag/crawl-sources';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET - Lijst van bronnen
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = await params;
+    const sources = await listCrawlSources(id);
+
+    return NextResponse.json({ sources });
+
+  } catch (error) {
+    console.error('❌ [API] Error fetching crawl sources:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch crawl sources', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Nieuwe bron
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json() as CrawlSourceInput;
+
+    const { source, error } = await createCrawlSource(id, body);
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Failed to create crawl source', details: error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ source }, { status: 201 });
+
+  } catch (error) {
+    console.error('❌ [API] Error creating crawl source:', error);
+    return NextResponse.json(
+      { error: 'Failed to create crawl source', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
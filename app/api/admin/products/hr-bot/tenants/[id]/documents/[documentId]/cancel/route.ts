@@ -0,0 +1,41 @@
+/**
+ * ========================================
+ * ADMIN DOCUMENT CANCEL API
+ * ========================================
+ * POST /api/admin/products/hr-bot/tenants/[id]/documents/[documentId]/cancel
+ *      - Verwerking annuleren (job in de wachtrij stopt direct, een
+ *        lopende job bij de volgende stap of batch)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelDocumentJob } from '@/lib/rag/document-jobs-service';
+
+interface RouteParams {
+  params: Promise<{ id: string; documentId: string }>;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, documentId } = await params;
+
+    const { status, error } = await cancelDocumentJob(id, documentId);
+    if (!status) {
+      return NextResponse.json(
+        { error: 'Failed to cancel processing', details: error },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, status });
+
+  } catch (error) {
+    console.error('❌ [API] Error cancelling document processing:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel processing', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * ========================================
+ * ADMIN DOCUMENT FILE API
+ * ========================================
+ * GET /api/admin/products/hr-bot/tenants/[id]/documents/[documentId]/file
+ *     - Redirect naar een kort geldige signed URL van het bestand
+ *       (private bucket). ?download=1 forceert een download.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocument } from '@/lib/rag/processor';
+import { createDocumentSignedUrl } from '@/lib/admin/storage-service';
+
+interface RouteParams {
+  params: Promise<{ id: string; documentId: string }>;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, documentId } = await params;
+    const download = request.nextUrl.searchParams.get('download') === '1';
+
+    const document = await getDocument(id, documentId);
+    if (!document || !document.file_path) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    const { url, error } = await createDocumentSignedUrl(id, document.file_path, {
+      download: download ? document.filename : undefined
+    });
+    if (!url) {
+      return NextResponse.json(
+        { error: 'Failed to create document URL', details: error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.redirect(url);
+
+  } catch (error) {
+    console.error('❌ [API] Error opening document file:', error);
+    return NextResponse.json(
+      { error: 'Failed to open document', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * ========================================
+ * ADMIN DOCUMENT VERSION DIFF API
+ * ========================================
+ * GET /api/admin/products/hr-bot/tenants/[id]/documents/[documentId]/versions/diff?from=1&to=2
+ *     - Regel-diff tussen twee versies (geëxtraheerde tekst)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentVersionDiff } from '@/lib/rag/document-versions-service';
+
+interface RouteParams {
+  params: Promise<{ id: string; documentId: string }>;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, documentId } = await params;
+    const { searchParams } = new URL(request.url);
+    const from = parseInt(searchParams.get('from') || '', 10);
+    const to = parseInt(searchParams.get('to') || '', 10);
+
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      return NextResponse.json(
+        { error: 'Parameters from and to are required' },
+        { status: 400 }
+      );
+    }
+
+    const { diff, error } = await getDocumentVersionDiff(id, documentId, from, to);
+    if (!diff) {
+      return NextResponse.json(
+        { error: 'Failed to compare versions', details: error },
+        { status: error === 'Document not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ diff });
+
+  } catch (error) {
+    console.error('❌ [API] Error comparing document versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare versions', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * ========================================
+ * ADMIN DOCUMENT VERSION ROLLBACK API
+ * ========================================
+ * POST /api/admin/products/hr-bot/tenants/[id]/documents/[documentId]/versions/rollback
+ *      - Body: { version } - zet een gearchiveerde versie terug
+ *        (chunks + embeddings uit het archief, geen herverwerking)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { restoreDocumentVersion } from '@/lib/rag/document-versions-service';
+
+interface RouteParams {
+  params: Promise<{ id: string; documentId: string }>;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, documentId } = await params;
+    const body = await request.json() as { version?: number };
+
+    if (!Number.isInteger(body.version)) {
+      return NextResponse.json(
+        { error: 'Version is required' },
+        { status: 400 }
+      );
+    }
+
+    const { chunksRestored, error } = await restoreDocumentVersion(id, documentId, body.version!);
+    if (chunksRestored === null) {
+      return NextResponse.json(
+        { error: 'Failed to restore version', details: error },
+        { status: error === 'Document not found' ? 404 : 400 }
+      );
+    }
+
+    console.log(`⏪ [API] Document ${documentId} rolled back to version ${body.version}`);
+
+    return NextResponse.json({ success: true, version: body.version, chunksRestored });
+
+  } catch (error) {
+    console.error('❌ [API] Error restoring document version:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore version', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * ========================================
+ * ADMIN DOCUMENT VERSIONS API
+ * ========================================
+ * GET  /api/admin/products/hr-bot/tenants/[id]/documents/[documentId]/versions
+ *      - Versie historie van een document
+ * POST /api/admin/products/hr-bot/tenants/[id]/documents/[documentId]/versions
+ *      - Nieuwe versie uploaden (huidige chunks gaan naar het archief);
+ *        202, de verwerking gebeurt in de document worker
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getTenantById } from '@/lib/admin/tenant-service';
+import { uploadDocumentVersion } from '@/lib/rag/processor';
+import { listDocumentVersions } from '@/lib/rag/document-versions-service';
+import { runDocumentWorker } from '@/lib/rag/document-worker';
+import { resolveDocumentMimeType, SUPPORTED_DOCUMENT_LABEL } from '@/lib/rag/document-types';
+
+interface RouteParams {
+  params: Promise<{ id: string; documentId: string }>;
+}
+
+const MAX_SIZE = 50 * 1024 * 1024; // 50MB
+
+/**
+ * GET - Versie historie
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, documentId } = await params;
+
+    const { versions, error } = await listDocumentVersions(id, documentId);
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to list versions', details: error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ versions });
+
+  } catch (error) {
+    console.error('❌ [API] Error listing document versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to list versions', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Nieuwe versie uploaden en in de wachtrij zetten (202)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, documentId } = await params;
+
+    const tenant = await getTenantById(id);
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    const mimeType = resolveDocumentMimeType(file.name, file.type);
+    if (!mimeType) {
+      return NextResponse.json(
+        { error: `Only ${SUPPORTED_DOCUMENT_LABEL} files are allowed` },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_SIZE) {
+      return NextResponse.json(
+        { error: 'File size exceeds 50MB limit' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`📄 [API] New version for document ${documentId}: ${file.name}`);
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const result = await uploadDocumentVersion(id, documentId, file.name, buffer, mimeType);
+
+    if (!result.jobId) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to queue version' },
+        { status: result.error === 'Document not found' ? 404 : 400 }
+      );
+    }
+
+    // Verwerking na de response starten; de cron worker pakt retries op
+    after(() => runDocumentWorker({ maxJobs: 1 }));
+
+    return NextResponse.json({
+      success: true,
+      documentId,
+      version: result.version,
+      jobId: result.jobId,
+      filename: file.name,
+      status: 'queued'
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('❌ [API] Error uploading document version:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload version', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * ========================================
+ * ADMIN DOCUMENT IMPORT API
+ * ========================================
+ * POST /api/admin/products/hr-bot/tenants/[id]/documents/import
+ *      - Bulk import: een ZIP en/of meerdere bestanden (form field 'files').
+ *        Bij een map upload is de bestandsnaam het relatieve pad, de
+ *        mappen worden categorie en tags.
+ *
+ * Response: rapport per bestand (queued, duplicate of failed + reden).
+ * De verwerking gebeurt op de achtergrond, voortgang via .../documents/status.
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { getTenantById } from '@/lib/admin/tenant-service';
+import { importDocuments, type DocumentImportUpload } from '@/lib/rag/document-import-service';
+import { runDocumentWorker } from '@/lib/rag/document-worker';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export const maxDuration = 300;
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = await params;
+
+    const tenant = await getTenantById(id);
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      );
+    }
+
+    // Zoek HR Bot product voor deze tenant (nodig voor portal sync)
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { data: tenantProduct } = await supabase
+      .from('tenant_products')
+      .select('id')
+      .eq('tenant_id', id)
+      .eq('product_id', 'hr_bot')
+      .single();
+
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((entry): entry is File => entry instanceof File);
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'No files provided' },
+        { status: 400 }
+      );
+    }
+
+    const uploads: DocumentImportUpload[] = await Promise.all(files.map(async file => ({
+      name: file.name,
+      buffer: Buffer.from(await file.arrayBuffer()),
+      mimeType: file.type || undefined
+    })));
+
+    const report = await importDocuments(id, uploads, { tenantProductId: tenantProduct?.id });
+
+    // Verwerking na de response starten; de cron worker pakt de rest op
+    if (report.queued > 0) {
+      after(() => runDocumentWorker());
+    }
+
+    return NextResponse.json({ success: true, report });
+
+  } catch (error) {
+    console.error('❌ [API] Error importing documents:', error);
+    return NextResponse.json(
+      { error: 'Failed to import documents', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
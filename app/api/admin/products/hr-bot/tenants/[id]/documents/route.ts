@@ -1,8 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getTenantById } from '@/lib/admin/tenant-service';
-import { uploadDocument, deleteDocument } from '@/lib/admin/storage-service';
-import { processDocument, listDocuments, deleteDocument as deleteDocumentFromDB } from '@/lib/rag/processor';
+import { listDocuments, deleteDocument as deleteDocumentFromDB } from '@/lib/rag/processor';
+import { enqueueDocumentProcessing } from '@/lib/rag/document-jobs-service';
+import { runDocumentWorker } from '@/lib/rag/document-worker';
+import { resolveDocumentMimeType, SUPPORTED_DOCUMENT_LABEL } from '@/lib/rag/document-types';
+import { updateDocumentValidity } from '@/lib/rag/document-validity-service';
 
 /**
  * GET /api/admin/tenants/[id]/documents
@@ -37,7 +40,8 @@ export async function GET(
 
 /**
  * POST /api/admin/tenants/[id]/documents
- * Upload and process a new document
+ * Upload a new document and queue it for processing (202).
+ * Progress via GET .../documents/status
  */
 export async function POST(
   request: NextRequest,
@@ -79,9 +83,10 @@ export async function POST(
     }
 
     // Validate file type
-    if (file.type !== 'application/pdf') {
+    const mimeType = resolveDocumentMimeType(file.name, file.type);
+    if (!mimeType) {
       return NextResponse.json(
-        { error: 'Only PDF files are allowed' },
+        { error: `Only ${SUPPORTED_DOCUMENT_LABEL} files are allowed` },
         { status: 400 }
       );
     }
@@ -95,56 +100,82 @@ export async function POST(
       );
     }
 
-    console.log(`📄 [API] Processing document: ${file.name} for tenant: ${id}`);
+    console.log(`📄 [API] Queueing document: ${file.name} for tenant: ${id}`);
 
-    // Upload to storage
     const buffer = Buffer.from(await file.arrayBuffer());
-    const uploadResult = await uploadDocument(id, buffer, file.name, file.type);
+    const { documentId, jobId, error } = await enqueueDocumentProcessing({
+      tenantId: id,
+      filename: file.name,
+      fileBuffer: buffer,
+      tenantProductId: tenantProduct?.id,  // Link document to tenant product for portal sync
+      mimeType
+    });
 
-    if (!uploadResult.success) {
+    if (!documentId) {
       return NextResponse.json(
-        { error: uploadResult.error },
-        { status: 400 }
+        { error: 'Failed to queue document', details: error },
+        { status: 500 }
       );
     }
 
-    // Process document (extract text, chunk, embed)
-    const processResult = await processDocument(
-      id,
-      file.name,
-      buffer,
-      uploadResult.path,
-      tenantProduct?.id  // Link document to tenant product for portal sync
+    // Verwerking na de response starten; de cron worker pakt retries op
+    after(() => runDocumentWorker({ maxJobs: 1 }));
+
+    return NextResponse.json({
+      success: true,
+      documentId,
+      jobId,
+      filename: file.name,
+      status: 'queued'
+    }, { status: 202 });
+  } catch (error) {
+    console.error('❌ [API] Error uploading document:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload document' },
+      { status: 500 }
     );
+  }
+}
 
-    if (!processResult.success) {
-      // Clean up storage on processing failure
-      if (uploadResult.path) {
-        await deleteDocument(id, uploadResult.path);
-      }
+/**
+ * PATCH /api/admin/tenants/[id]/documents?documentId=xxx
+ * Update document validity
+ * Body: { valid_from: 'YYYY-MM-DD' | null, valid_until: 'YYYY-MM-DD' | null }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const documentId = searchParams.get('documentId');
 
+    if (!documentId) {
       return NextResponse.json(
-        { error: processResult.error || 'Document processing failed' },
+        { error: 'Document ID is required' },
         { status: 400 }
       );
     }
 
-    console.log(`✅ [API] Document processed: ${file.name}`);
-    console.log(`   Chunks: ${processResult.chunksCreated}, Tokens: ${processResult.totalTokens}`);
+    const body = await request.json();
+    const validFrom: string | null = body.valid_from || null;
+    const validUntil: string | null = body.valid_until || null;
 
-    return NextResponse.json({
-      success: true,
-      documentId: processResult.documentId,
-      filename: file.name,
-      chunksCreated: processResult.chunksCreated,
-      totalTokens: processResult.totalTokens,
-      processingCost: processResult.totalCost,
-      storageUrl: uploadResult.publicUrl,
-    }, { status: 201 });
+    const { validity, error } = await updateDocumentValidity(id, documentId, validFrom, validUntil);
+
+    if (!validity) {
+      return NextResponse.json(
+        { error: 'Failed to update document validity', details: error },
+        { status: error === 'Document not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, validity });
   } catch (error) {
-    console.error('❌ [API] Error uploading document:', error);
+    console.error('❌ [API] Error updating document validity:', error);
     return NextResponse.json(
-      { error: 'Failed to upload document' },
+      { error: 'Failed to update document validity' },
       { status: 500 }
     );
   }
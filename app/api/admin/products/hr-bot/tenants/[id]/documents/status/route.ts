@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getTenantById } from '@/lib/admin/tenant-service';
+import { getActiveDocumentJobs } from '@/lib/rag/document-jobs-service';
+import { DOCUMENT_JOB_PHASES } from '@/lib/rag/document-jobs';
 
 /**
  * Processing status response per document
@@ -8,18 +10,29 @@ import { getTenantById } from '@/lib/admin/tenant-service';
 interface DocumentProcessingStatus {
   documentId: string;
   filename: string;
-  phase: 'uploading' | 'parsing' | 'chunking' | 'embedding' | 'metadata' | 'completed' | 'failed';
+  phase: 'uploading' | 'queued' | 'parsing' | 'chunking' | 'embedding' | 'metadata' | 'completed' | 'failed';
   chunksCreated?: number;
   totalPages?: number;
   errorMessage?: string;
   startedAt?: string;
   completedAt?: string;
+  // Uit de document wachtrij (migratie 037)
+  jobId?: string;
+  attempts?: number;
+  maxAttempts?: number;
+  nextRetryAt?: string;         // Wacht op een nieuwe poging na een fout
+  totalChunks?: number;
+  storedChunks?: number;
+  cancelRequested?: boolean;
 }
 
 /**
  * GET /api/admin/products/hr-bot/tenants/[id]/documents/status
  * Get detailed processing status for all documents of a tenant
  * Used for polling during document processing
+ *
+ * Bronnen (laatste wint): documents (pending/processing) → processing
+ * logs → document wachtrij (live stap en voortgang van de worker)
  */
 export async function GET(
   request: NextRequest,
@@ -110,6 +123,28 @@ export async function GET(
       }
     }
 
+    // Live voortgang uit de wachtrij
+    const jobs = await getActiveDocumentJobs(id);
+    for (const job of jobs) {
+      const waiting = job.status === 'queued';
+      statusMap[job.document_id] = {
+        ...statusMap[job.document_id],
+        documentId: job.document_id,
+        filename: job.payload.filename,
+        phase: waiting ? 'queued' : DOCUMENT_JOB_PHASES[job.stage],
+        totalPages: job.progress.totalPages,
+        errorMessage: job.last_error || undefined,
+        startedAt: job.started_at || job.created_at,
+        jobId: job.id,
+        attempts: job.attempts,
+        maxAttempts: job.max_attempts,
+        nextRetryAt: waiting && job.attempts > 0 ? job.run_after : undefined,
+        totalChunks: job.progress.totalChunks,
+        storedChunks: job.progress.storedChunks,
+        cancelRequested: job.cancel_requested
+      };
+    }
+
     // Return only documents that are still processing
     const processingDocs = Object.values(statusMap).filter(
       status => !['completed', 'failed'].includes(status.phase)
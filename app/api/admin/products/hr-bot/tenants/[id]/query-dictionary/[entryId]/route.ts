@@ -0,0 +1,79 @@
+/**
+ * ========================================
+ * ADMIN QUERY DICTIONARY ENTRY API
+ * ========================================
+ * PUT    /api/admin/products/hr-bot/tenants/[id]/query-dictionary/[entryId]
+ *        - Entry bijwerken
+ * DELETE /api/admin/products/hr-bot/tenants/[id]/query-dictionary/[entryId]
+ *        - Entry verwijderen
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  updateQueryDictionaryEntry,
+  deleteQueryDictionaryEntry
+} from '@/lib/rag/query-dictionary-service';
+import { QueryDictionaryEntryInput } from '@/lib/rag/query-dictionary';
+
+interface RouteParams {
+  params: Promise<{ id: string; entryId: string }>;
+}
+
+/**
+ * PUT - Entry bijwerken
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, entryId } = await params;
+    const body = await request.json() as QueryDictionaryEntryInput;
+
+    const { entry, error } = await updateQueryDictionaryEntry(id, entryId, body);
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Failed to update entry', details: error },
+        { status: error === 'Entry not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ entry });
+
+  } catch (error) {
+    console.error('❌ [API] Error updating query dictionary entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to update entry', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Entry verwijderen
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, entryId } = await params;
+
+    const { success, error } = await deleteQueryDictionaryEntry(id, entryId);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Failed to delete entry', details: error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('❌ [API] Error deleting query dictionary entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete entry', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * ========================================
+ * ADMIN QUERY DICTIONARY IMPORT API
+ * ========================================
+ * POST /api/admin/products/hr-bot/tenants/[id]/query-dictionary/import
+ *      Body: { csv: string, mode?: 'merge' | 'replace' }
+ *        of: { preset: 'dutch-hr', mode?: 'merge' | 'replace' }
+ *
+ * Bij ongeldige CSV regels wordt niets geïmporteerd (alles of niets),
+ * zodat een half geïmporteerd woordenboek niet ongemerkt live gaat.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { importQueryDictionaryEntries } from '@/lib/rag/query-dictionary-service';
+import { parseQueryDictionaryCsv, QueryDictionaryEntryInput } from '@/lib/rag/query-dictionary';
+import { DUTCH_HR_STARTER_DICTIONARY } from '@/lib/rag/query-dictionary-defaults';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const PRESETS: Record<string, QueryDictionaryEntryInput[]> = {
+  'dutch-hr': DUTCH_HR_STARTER_DICTIONARY
+};
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json() as { csv?: string; preset?: string; mode?: string };
+
+    const mode = body.mode === 'replace' ? 'replace' : 'merge';
+    let inputs: QueryDictionaryEntryInput[];
+
+    if (body.preset) {
+      const preset = PRESETS[body.preset];
+      if (!preset) {
+        return NextResponse.json(
+          { error: 'Invalid preset', details: `Unknown preset: ${body.preset}` },
+          { status: 400 }
+        );
+      }
+      inputs = preset;
+    } else if (typeof body.csv === 'string') {
+      const { entries, errors } = parseQueryDictionaryCsv(body.csv);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid CSV', details: errors.join('\n'), errors },
+          { status: 400 }
+        );
+      }
+      inputs = entries;
+    } else {
+      return NextResponse.json(
+        { error: 'Missing csv or preset' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`📥 [API] Importing ${inputs.length} query dictionary entries for ${id} (${mode})`);
+
+    const { imported, error } = await importQueryDictionaryEntries(id, inputs, mode);
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to import entries', details: error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, imported, mode });
+
+  } catch (error) {
+    console.error('❌ [API] Error importing query dictionary:', error);
+    return NextResponse.json(
+      { error: 'Failed to import entries', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * ========================================
+ * ADMIN QUERY DICTIONARY API
+ * ========================================
+ * GET  /api/admin/products/hr-bot/tenants/[id]/query-dictionary
+ *      - Alle entries van de tenant ({ entries })
+ *      - ?format=csv: download als CSV
+ * POST /api/admin/products/hr-bot/tenants/[id]/query-dictionary
+ *      - Nieuwe entry aanmaken
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  listQueryDictionaryEntries,
+  createQueryDictionaryEntry
+} from '@/lib/rag/query-dictionary-service';
+import { serializeQueryDictionaryCsv, QueryDictionaryEntryInput } from '@/lib/rag/query-dictionary';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET - Lijst (JSON) of export (CSV)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = await params;
+    const format = request.nextUrl.searchParams.get('format');
+
+    const { entries, error } = await listQueryDictionaryEntries(id);
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to fetch query dictionary', details: error },
+        { status: 500 }
+      );
+    }
+
+    if (format === 'csv') {
+      return new NextResponse(serializeQueryDictionaryCsv(entries), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="query-dictionary-${id}.csv"`
+        }
+      });
+    }
+
+    return NextResponse.json({ entries });
+
+  } catch (error) {
+    console.error('❌ [API] Error fetching query dictionary:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch query dictionary', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Nieuwe entry
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json() as QueryDictionaryEntryInput;
+
+    const { entry, error } = await createQueryDictionaryEntry(id, body);
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Failed to create entry', details: error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ entry }, { status: 201 });
+
+  } catch (error) {
+    console.error('❌ [API] Error creating query dictionary entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to create entry', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { compareTestRuns } from '@/lib/products/hr-bot/qa';
+
+interface RouteParams {
+  params: Promise<{ tenantId: string }>;
+}
+
+/**
+ * GET /api/admin/test/[tenantId]/compare
+ * Compare two completed test runs over their shared questions
+ *
+ * Query params:
+ * - base: Run ID of the baseline (older) run
+ * - target: Run ID of the run to compare against the baseline
+ * - threshold: Regression threshold in score points (default: target run config, 5)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tenantId } = await params;
+
+    const { searchParams } = new URL(request.url);
+    const baseRunId = searchParams.get('base');
+    const targetRunId = searchParams.get('target');
+    const thresholdParam = searchParams.get('threshold');
+    const threshold = thresholdParam !== null ? parseFloat(thresholdParam) : undefined;
+
+    if (!baseRunId || !targetRunId) {
+      return NextResponse.json(
+        { error: 'base and target run IDs are required' },
+        { status: 400 }
+      );
+    }
+
+    if (threshold !== undefined && (isNaN(threshold) || threshold < 0 || threshold > 100)) {
+      return NextResponse.json(
+        { error: 'threshold must be a number between 0 and 100' },
+        { status: 400 }
+      );
+    }
+
+    const { comparison, error } = await compareTestRuns(tenantId, baseRunId, targetRunId, { threshold });
+
+    if (!comparison) {
+      const status = error === 'Test run not found' ? 404
+        : error === 'Test run does not belong to this tenant' ? 403
+        : 400;
+      return NextResponse.json({ error }, { status });
+    }
+
+    return NextResponse.json({ comparison });
+
+  } catch (error) {
+    console.error('❌ [API] Error comparing test runs:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare test runs' },
+      { status: 500 }
+    );
+  }
+}
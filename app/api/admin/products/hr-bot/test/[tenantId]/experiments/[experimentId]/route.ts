@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getExperimentResults } from '@/lib/products/hr-bot/qa';
+
+interface RouteParams {
+  params: Promise<{ tenantId: string; experimentId: string }>;
+}
+
+/**
+ * GET /api/admin/test/[tenantId]/experiments/[experimentId]
+ * Get an experiment with its arms side by side (score, latency, cost)
+ * and the score per arm for every question
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tenantId, experimentId } = await params;
+
+    const { results, error } = await getExperimentResults(experimentId);
+
+    if (!results) {
+      return NextResponse.json(
+        { error: error || 'Experiment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (results.experiment.tenant_id !== tenantId) {
+      return NextResponse.json(
+        { error: 'Experiment does not belong to this tenant' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(results);
+
+  } catch (error) {
+    console.error('❌ [API] Error fetching experiment:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch experiment' },
+      { status: 500 }
+    );
+  }
+}
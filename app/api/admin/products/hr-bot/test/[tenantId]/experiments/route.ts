@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getExperimentsForTenant,
+  createExperiment,
+  runExperiment,
+  getTestRun,
+  getTestSet,
+  parsePipelineConfig,
+  QAExperimentArm,
+  MIN_EXPERIMENT_ARMS,
+  MAX_EXPERIMENT_ARMS,
+  MAX_EXPERIMENT_ARM_NAME_LENGTH
+} from '@/lib/products/hr-bot/qa';
+
+interface RouteParams {
+  params: Promise<{ tenantId: string }>;
+}
+
+/**
+ * GET /api/admin/test/[tenantId]/experiments
+ * Get recent experiments for a tenant
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tenantId } = await params;
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '20');
+
+    const { experiments, error } = await getExperimentsForTenant(tenantId, limit);
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+
+    return NextResponse.json({ experiments });
+
+  } catch (error) {
+    console.error('❌ [API] Error fetching experiments:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch experiments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/test/[tenantId]/experiments
+ * Create an experiment and run its arms in the background
+ *
+ * Body:
+ * - name: string
+ * - description?: string
+ * - test_set_id or source_run_id: the frozen question set
+ *   (source_run_id must be a completed run)
+ * - arms: [{ name, config }] (2-4 arms, unique names; config = QAPipelineConfig,
+ *   {} = tenant configuration)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tenantId } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const testSetId = typeof body.test_set_id === 'string' ? body.test_set_id : undefined;
+    const sourceRunId = typeof body.source_run_id === 'string' ? body.source_run_id : undefined;
+
+    if (!testSetId && !sourceRunId) {
+      return NextResponse.json(
+        { error: 'test_set_id or source_run_id is required' },
+        { status: 400 }
+      );
+    }
+
+    // Arms valideren
+    if (!Array.isArray(body.arms) || body.arms.length < MIN_EXPERIMENT_ARMS || body.arms.length > MAX_EXPERIMENT_ARMS) {
+      return NextResponse.json(
+        { error: `arms must contain ${MIN_EXPERIMENT_ARMS}-${MAX_EXPERIMENT_ARMS} configurations` },
+        { status: 400 }
+      );
+    }
+
+    const arms: QAExperimentArm[] = [];
+    for (const [index, input] of (body.arms as Array<{ name?: unknown; config?: unknown }>).entries()) {
+      const armName = typeof input?.name === 'string' ? input.name.trim() : '';
+      if (!armName || armName.length > MAX_EXPERIMENT_ARM_NAME_LENGTH) {
+        return NextResponse.json(
+          { error: `arms[${index}].name is required (max ${MAX_EXPERIMENT_ARM_NAME_LENGTH} characters)` },
+          { status: 400 }
+        );
+      }
+      if (arms.some(arm => arm.name.toLowerCase() === armName.toLowerCase())) {
+        return NextResponse.json(
+          { error: `Arm names must be unique ("${armName}")` },
+          { status: 400 }
+        );
+      }
+
+      const { config, error: configError } = parsePipelineConfig(input.config);
+      if (!config) {
+        return NextResponse.json(
+          { error: `arms[${index}].config: ${configError}` },
+          { status: 400 }
+        );
+      }
+
+      arms.push({ name: armName, config });
+    }
+
+    // Vragenbron valideren
+    if (testSetId) {
+      const { testSet } = await getTestSet(testSetId);
+      if (!testSet || testSet.tenant_id !== tenantId) {
+        return NextResponse.json({ error: 'Test set not found' }, { status: 404 });
+      }
+      if (testSet.question_count === 0) {
+        return NextResponse.json({ error: 'Test set has no questions' }, { status: 400 });
+      }
+    } else if (sourceRunId) {
+      const { testRun } = await getTestRun(sourceRunId);
+      if (!testRun || testRun.tenant_id !== tenantId) {
+        return NextResponse.json({ error: 'Source run not found' }, { status: 404 });
+      }
+      if (testRun.status !== 'completed') {
+        return NextResponse.json({ error: 'Source run must be completed' }, { status: 400 });
+      }
+    }
+
+    const { experiment, error } = await createExperiment(tenantId, {
+      name,
+      description: typeof body.description === 'string' ? body.description.trim() : null,
+      testSetId,
+      sourceRunId,
+      arms
+    });
+
+    if (error || !experiment) {
+      return NextResponse.json(
+        { error: error || 'Failed to create experiment' },
+        { status: 500 }
+      );
+    }
+
+    // Don't await - run in background
+    runExperiment(experiment.id)
+      .then(result => {
+        if (result.success) {
+          console.log(`✅ [API] Experiment ${experiment.id} completed`);
+        } else {
+          console.error(`❌ [API] Experiment ${experiment.id} failed:`, result.error);
+        }
+      })
+      .catch(err => {
+        console.error(`❌ [API] Experiment ${experiment.id} error:`, err);
+      });
+
+    return NextResponse.json({ experiment, running: true });
+
+  } catch (error) {
+    console.error('❌ [API] Error starting experiment:', error);
+    return NextResponse.json(
+      { error: 'Failed to start experiment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRetrievalEval } from '@/lib/products/hr-bot/qa';
+
+interface RouteParams {
+  params: Promise<{ tenantId: string; evalId: string }>;
+}
+
+/**
+ * GET /api/admin/test/[tenantId]/retrieval/[evalId]
+ * Get a retrieval evaluation with per-document and per-question results
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tenantId, evalId } = await params;
+
+    const { evaluation, error } = await getRetrievalEval(evalId);
+
+    if (!evaluation) {
+      return NextResponse.json(
+        { error: error || 'Retrieval evaluation not found' },
+        { status: 404 }
+      );
+    }
+
+    if (evaluation.tenant_id !== tenantId) {
+      return NextResponse.json(
+        { error: 'Retrieval evaluation does not belong to this tenant' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ evaluation });
+
+  } catch (error) {
+    console.error('❌ [API] Error fetching retrieval evaluation:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch retrieval evaluation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getRetrievalEvalsForTenant,
+  createRetrievalEval,
+  runRetrievalEval,
+  getTestRun,
+  getTestSet,
+  DEFAULT_RETRIEVAL_K_VALUES
+} from '@/lib/products/hr-bot/qa';
+
+interface RouteParams {
+  params: Promise<{ tenantId: string }>;
+}
+
+/**
+ * GET /api/admin/test/[tenantId]/retrieval
+ * Get recent retrieval evaluations for a tenant
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tenantId } = await params;
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '20');
+
+    const { evaluations, error } = await getRetrievalEvalsForTenant(tenantId, limit);
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+
+    return NextResponse.json({ evaluations });
+
+  } catch (error) {
+    console.error('❌ [API] Error fetching retrieval evaluations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch retrieval evaluations' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/test/[tenantId]/retrieval
+ * Start a retrieval-only evaluation (recall@k, MRR, nDCG) in the background
+ *
+ * Body:
+ * - run_id or test_set_id: questions to evaluate
+ * - k_values?: number[] (default [1, 3, 5, 10], max 30)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tenantId } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const runId = typeof body.run_id === 'string' ? body.run_id : undefined;
+    const testSetId = typeof body.test_set_id === 'string' ? body.test_set_id : undefined;
+
+    if (!runId && !testSetId) {
+      return NextResponse.json(
+        { error: 'run_id or test_set_id is required' },
+        { status: 400 }
+      );
+    }
+
+    const kValues: number[] = Array.isArray(body.k_values) && body.k_values.length > 0
+      ? Array.from(new Set<number>(body.k_values.map((k: unknown) => Number(k))))
+      : DEFAULT_RETRIEVAL_K_VALUES;
+    if (kValues.some(k => !Number.isInteger(k) || k < 1 || k > 30)) {
+      return NextResponse.json(
+        { error: 'k_values must be integers between 1 and 30' },
+        { status: 400 }
+      );
+    }
+
+    if (runId) {
+      const { testRun } = await getTestRun(runId);
+      if (!testRun || testRun.tenant_id !== tenantId) {
+        return NextResponse.json({ error: 'Test run not found' }, { status: 404 });
+      }
+    } else if (testSetId) {
+      const { testSet } = await getTestSet(testSetId);
+      if (!testSet || testSet.tenant_id !== tenantId) {
+        return NextResponse.json({ error: 'Test set not found' }, { status: 404 });
+      }
+    }
+
+    const { evaluation, error } = await createRetrievalEval(tenantId, { runId, testSetId }, kValues);
+
+    if (error || !evaluation) {
+      return NextResponse.json(
+        { error: error || 'Failed to create retrieval evaluation' },
+        { status: 500 }
+      );
+    }
+
+    // Don't await - run in background
+    runRetrievalEval(evaluation.id)
+      .then(result => {
+        if (result.success) {
+          console.log(`✅ [API] Retrieval evaluation ${evaluation.id} completed`);
+        } else {
+          console.error(`❌ [API] Retrieval evaluation ${evaluation.id} failed:`, result.error);
+        }
+      })
+      .catch(err => {
+        console.error(`❌ [API] Retrieval evaluation ${evaluation.id} error:`, err);
+      });
+
+    return NextResponse.json({ evaluation, running: true });
+
+  } catch (error) {
+    console.error('❌ [API] Error starting retrieval evaluation:', error);
+    return NextResponse.json(
+      { error: 'Failed to start retrieval evaluation' },
+      { status: 500 }
+    );
+  }
+}
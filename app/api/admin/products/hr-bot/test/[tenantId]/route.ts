@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import {
   getTestRunsForTenant,
   createTestRun,
+  getTestRun,
+  getTestSet,
   getTenantDocumentCount,
   runCompleteTest,
   QATestConfig,
@@ -55,6 +57,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * Body (optional):
  * - config: Partial<QATestConfig>
  * - run_immediately: boolean (default true)
+ * - baseline_run_id: string - reuse the questions of this completed run
+ *   (pinned question set); the run is checked for regressions afterwards
+ * - test_set_id: string - use the questions of this golden test set; the
+ *   previous completed run on the set becomes the baseline
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
@@ -63,6 +69,41 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     const config = body.config as Partial<QATestConfig> | undefined;
     const runImmediately = body.run_immediately !== false; // Default true
+    const baselineRunId = typeof body.baseline_run_id === 'string' ? body.baseline_run_id : undefined;
+
+    const testSetId = typeof body.test_set_id === 'string' ? body.test_set_id : undefined;
+
+    if (testSetId) {
+      const { testSet } = await getTestSet(testSetId);
+      if (!testSet || testSet.tenant_id !== tenantId) {
+        return NextResponse.json(
+          { error: 'Test set not found' },
+          { status: 404 }
+        );
+      }
+      if (testSet.question_count === 0) {
+        return NextResponse.json(
+          { error: 'Test set has no questions' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (baselineRunId) {
+      const { testRun: baselineRun } = await getTestRun(baselineRunId);
+      if (!baselineRun || baselineRun.tenant_id !== tenantId) {
+        return NextResponse.json(
+          { error: 'Baseline run not found' },
+          { status: 404 }
+        );
+      }
+      if (baselineRun.status !== 'completed') {
+        return NextResponse.json(
+          { error: 'Baseline run must be completed' },
+          { status: 400 }
+        );
+      }
+    }
 
     // Calculate estimated questions
     const documentCount = await getTenantDocumentCount(tenantId);
@@ -70,7 +111,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     const estimatedQuestions = calculateTotalQuestions(fullConfig, documentCount);
 
     // Create test run
-    const { testRun, error } = await createTestRun(tenantId, config);
+    const { testRun, error } = await createTestRun(tenantId, config, { baselineRunId, testSetId });
 
     if (error || !testRun) {
       return NextResponse.json(
@@ -99,7 +140,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json({
       test_run: testRun,
-      estimated_questions: estimatedQuestions,
+      estimated_questions: baselineRunId || testSetId ? testRun.total_questions : estimatedQuestions,
       document_count: documentCount,
       running: runImmediately
     });
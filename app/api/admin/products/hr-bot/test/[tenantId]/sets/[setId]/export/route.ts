@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getTestSet,
+  getTestSetQuestions,
+  exportTestSetJSON,
+  exportTestSetCSV
+} from '@/lib/products/hr-bot/qa';
+
+interface RouteParams {
+  params: Promise<{ tenantId: string; setId: string }>;
+}
+
+/**
+ * GET /api/admin/test/[tenantId]/sets/[setId]/export
+ * Download a test set
+ *
+ * Query params:
+ * - format: "json" (default) or "csv"
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tenantId, setId } = await params;
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') === 'csv' ? 'csv' : 'json';
+
+    const { testSet, error } = await getTestSet(setId);
+    if (!testSet || testSet.tenant_id !== tenantId) {
+      return NextResponse.json(
+        { error: error || 'Test set not found' },
+        { status: 404 }
+      );
+    }
+
+    const { questions, error: questionsError } = await getTestSetQuestions(setId);
+    if (questionsError) {
+      return NextResponse.json({ error: questionsError }, { status: 500 });
+    }
+
+    const slug = testSet.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'test-set';
+    const fileName = `qa-set-${tenantId}-${slug}.${format}`;
+
+    if (format === 'csv') {
+      return new NextResponse(exportTestSetCSV(questions), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+        },
+      });
+    }
+
+    return new NextResponse(exportTestSetJSON(testSet, questions), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('❌ [API] Error exporting test set:', error);
+    return NextResponse.json(
+      { error: 'Failed to export test set' },
+      { status: 500 }
+    );
+  }
+}
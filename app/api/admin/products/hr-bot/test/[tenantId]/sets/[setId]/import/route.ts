@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getTestSet,
+  setTestSetQuestions,
+  parseTestSetImport
+} from '@/lib/products/hr-bot/qa';
+
+interface RouteParams {
+  params: Promise<{ tenantId: string; setId: string }>;
+}
+
+// Maximale grootte van een import bestand
+const MAX_IMPORT_SIZE = 2 * 1024 * 1024;
+
+/**
+ * POST /api/admin/test/[tenantId]/sets/[setId]/import
+ * Import questions from a JSON or CSV file (multipart "file")
+ *
+ * Form fields:
+ * - file: .json or .csv (format of an export)
+ * - mode: "replace" (default) or "append"
+ *
+ * Invalid rows are skipped and reported in `errors`.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tenantId, setId } = await params;
+
+    const { testSet, error } = await getTestSet(setId);
+    if (!testSet || testSet.tenant_id !== tenantId) {
+      return NextResponse.json(
+        { error: error || 'Test set not found' },
+        { status: 404 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const mode = formData.get('mode') === 'append' ? 'append' : 'replace';
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_IMPORT_SIZE) {
+      return NextResponse.json(
+        { error: 'File size exceeds 2MB limit' },
+        { status: 400 }
+      );
+    }
+
+    const name = file.name.toLowerCase();
+    const format = name.endsWith('.csv') ? 'csv' : name.endsWith('.json') ? 'json' : null;
+    if (!format) {
+      return NextResponse.json(
+        { error: 'Only .json and .csv files are allowed' },
+        { status: 400 }
+      );
+    }
+
+    const { questions, errors } = parseTestSetImport(await file.text(), format);
+
+    if (questions.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid questions found', errors },
+        { status: 400 }
+      );
+    }
+
+    const { count, error: saveError } = await setTestSetQuestions(testSet, questions, mode);
+    if (saveError) {
+      return NextResponse.json(
+        { error: 'Failed to import questions', details: saveError, errors },
+        { status: 400 }
+      );
+    }
+
+    console.log(`📥 [API] Imported ${questions.length} questions into test set ${setId} (${mode}), ${errors.length} rows skipped`);
+
+    return NextResponse.json({
+      imported: questions.length,
+      question_count: count,
+      skipped: errors.length,
+      errors
+    });
+
+  } catch (error) {
+    console.error('❌ [API] Error importing test set:', error);
+    return NextResponse.json(
+      { error: 'Failed to import test set' },
+      { status: 500 }
+    );
+  }
+}
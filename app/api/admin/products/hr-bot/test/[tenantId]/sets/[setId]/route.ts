@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getTestSet,
+  getTestSetQuestions,
+  updateTestSet,
+  deleteTestSet
+} from '@/lib/products/hr-bot/qa';
+
+interface RouteParams {
+  params: Promise<{ tenantId: string; setId: string }>;
+}
+
+/**
+ * Load a set and verify it belongs to the tenant
+ */
+async function getTenantTestSet(tenantId: string, setId: string) {
+  const { testSet, error } = await getTestSet(setId);
+
+  if (!testSet) {
+    return { testSet: null, response: NextResponse.json({ error: error || 'Test set not found' }, { status: 404 }) };
+  }
+  if (testSet.tenant_id !== tenantId) {
+    return { testSet: null, response: NextResponse.json({ error: 'Test set does not belong to this tenant' }, { status: 403 }) };
+  }
+
+  return { testSet, response: null };
+}
+
+/**
+ * GET /api/admin/test/[tenantId]/sets/[setId]
+ * Get a test set with its questions
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tenantId, setId } = await params;
+
+    const { testSet, response } = await getTenantTestSet(tenantId, setId);
+    if (!testSet) return response;
+
+    const { questions, error } = await getTestSetQuestions(setId);
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+
+    return NextResponse.json({ test_set: testSet, questions });
+
+  } catch (error) {
+    console.error('❌ [API] Error fetching test set:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch test set' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/test/[tenantId]/sets/[setId]
+ * Rename a test set
+ *
+ * Body: { name?: string; description?: string | null }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tenantId, setId } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const { testSet: existing, response } = await getTenantTestSet(tenantId, setId);
+    if (!existing) return response;
+
+    const { testSet, error } = await updateTestSet(setId, {
+      name: typeof body.name === 'string' ? body.name : undefined,
+      description: body.description
+    });
+
+    if (error || !testSet) {
+      return NextResponse.json(
+        { error: error || 'Failed to update test set' },
+        { status: error?.includes('already exists') ? 409 : 500 }
+      );
+    }
+
+    return NextResponse.json({ test_set: testSet });
+
+  } catch (error) {
+    console.error('❌ [API] Error updating test set:', error);
+    return NextResponse.json(
+      { error: 'Failed to update test set' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/test/[tenantId]/sets/[setId]
+ * Delete a test set (runs on the set are kept)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tenantId, setId } = await params;
+
+    const { testSet, response } = await getTenantTestSet(tenantId, setId);
+    if (!testSet) return response;
+
+    const { success, error } = await deleteTestSet(setId);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: error || 'Failed to delete test set' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('❌ [API] Error deleting test set:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete test set' },
+      { status: 500 }
+    );
+  }
+}
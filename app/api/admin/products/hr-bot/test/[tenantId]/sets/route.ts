@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getTestSets,
+  createTestSet,
+  CATEGORY_INFO,
+  QACategory,
+  QATestSetSource
+} from '@/lib/products/hr-bot/qa';
+
+interface RouteParams {
+  params: Promise<{ tenantId: string }>;
+}
+
+/**
+ * GET /api/admin/test/[tenantId]/sets
+ * Get all golden test sets for a tenant
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tenantId } = await params;
+
+    const { testSets, error } = await getTestSets(tenantId);
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+
+    return NextResponse.json({ test_sets: testSets });
+
+  } catch (error) {
+    console.error('❌ [API] Error fetching test sets:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch test sets' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/test/[tenantId]/sets
+ * Create a test set
+ *
+ * Body:
+ * - name: string (unique per tenant)
+ * - description?: string
+ * - source?: 'empty' | 'templates' | 'run' | 'chat_logs' (default 'empty')
+ * - run_id?: string - for source 'run'
+ * - days?: number, limit?: number, category?: QACategory - for source 'chat_logs'
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tenantId } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    if (!body.name || typeof body.name !== 'string' || !body.name.trim()) {
+      return NextResponse.json(
+        { error: 'name is required' },
+        { status: 400 }
+      );
+    }
+
+    let source: QATestSetSource;
+    switch (body.source || 'empty') {
+      case 'empty':
+        source = { type: 'empty' };
+        break;
+      case 'templates':
+        source = { type: 'templates' };
+        break;
+      case 'run':
+        if (!body.run_id) {
+          return NextResponse.json(
+            { error: 'run_id is required for source "run"' },
+            { status: 400 }
+          );
+        }
+        source = { type: 'run', runId: body.run_id };
+        break;
+      case 'chat_logs':
+        if (body.category && !(body.category in CATEGORY_INFO)) {
+          return NextResponse.json(
+            { error: `Unknown category "${body.category}"` },
+            { status: 400 }
+          );
+        }
+        // Losse chat vragen hebben geen gescripte beurten
+        if (body.category === 'multi_turn') {
+          return NextResponse.json(
+            { error: 'Chat log questions cannot be used as multi_turn scenarios' },
+            { status: 400 }
+          );
+        }
+        source = {
+          type: 'chat_logs',
+          days: body.days ? parseInt(body.days, 10) : undefined,
+          limit: body.limit ? parseInt(body.limit, 10) : undefined,
+          category: body.category as QACategory | undefined
+        };
+        break;
+      default:
+        return NextResponse.json(
+          { error: `Unknown source "${body.source}"` },
+          { status: 400 }
+        );
+    }
+
+    const { testSet, added, error } = await createTestSet(
+      tenantId,
+      { name: body.name, description: body.description },
+      source
+    );
+
+    if (error || !testSet) {
+      return NextResponse.json(
+        { error: error || 'Failed to create test set' },
+        { status: error?.includes('already exists') ? 409 : 500 }
+      );
+    }
+
+    return NextResponse.json({ test_set: testSet, added }, { status: 201 });
+
+  } catch (error) {
+    console.error('❌ [API] Error creating test set:', error);
+    return NextResponse.json(
+      { error: 'Failed to create test set' },
+      { status: 500 }
+    );
+  }
+}
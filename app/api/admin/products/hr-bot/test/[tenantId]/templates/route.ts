@@ -4,6 +4,8 @@ import {
   createTemplate,
   updateTemplate,
   deleteTemplate,
+  conversationToQuestion,
+  parseConversationTurns,
   QATemplateInput
 } from '@/lib/products/hr-bot/qa';
 
@@ -47,12 +49,26 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * Create a new template
  *
  * Body: QATemplateInput
+ * (multi_turn: turns is required, question defaults to the turns joined)
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { tenantId } = await params;
     const body = await request.json() as QATemplateInput;
 
+    // Multi-turn scenario: validate the scripted turns
+    if (body.category === 'multi_turn' || body.turns !== undefined) {
+      const { turns, error: turnsError } = parseConversationTurns(body.turns);
+      if (!turns || body.category !== 'multi_turn') {
+        return NextResponse.json(
+          { error: turnsError || 'turns are only allowed for category multi_turn' },
+          { status: 400 }
+        );
+      }
+      body.turns = turns;
+      body.question = body.question || conversationToQuestion(turns);
+    }
+
     // Validate required fields
     if (!body.category || !body.question) {
       return NextResponse.json(
@@ -106,6 +122,14 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
     const body = await request.json();
 
+    if (body.turns !== undefined && body.turns !== null) {
+      const { turns, error: turnsError } = parseConversationTurns(body.turns);
+      if (!turns) {
+        return NextResponse.json({ error: turnsError }, { status: 400 });
+      }
+      body.turns = turns;
+    }
+
     const { template, error } = await updateTemplate(templateId, body);
 
     if (error || !template) {
@@ -14,6 +14,10 @@
  * 5. Stuur antwoord + citations terug naar gebruiker
  * 6. Log alles voor analytics en debugging
  *
+ * ANSWER CACHE: als de tenant de cache aan heeft staan en een eerdere
+ * vraag genoeg lijkt (stap 2.5), wordt het opgeslagen antwoord direct
+ * afgespeeld via dezelfde SSE events, zonder RAG en zonder OpenAI kosten.
+ *
  * UPDATE v2.1: Pinecone vervangen door Supabase RAG
  * - ~99% kostenbesparing op context retrieval
  * - Zelfde interface voor backwards compatibility
@@ -24,9 +28,21 @@ import { NextRequest, NextResponse } from 'next/server';
 // Import alle modules
 // UPDATED: Pinecone vervangen door Supabase RAG
 import { retrieveContext } from '@/lib/rag/context';
+import {
+  lookupCachedAnswer,
+  recordAnswerCacheHit,
+  storeCachedAnswer,
+  type AnswerCacheLookup
+} from '@/lib/rag/answer-cache';
+import { detectFollowUpQuestion } from '@/lib/rag/conversation-context';
+import type { RAGAnswerCacheDetails } from '@/lib/rag/types';
 import { checkRateLimit, getRateLimitKey, getClientIp, RATE_LIMITS } from '@/lib/shared/rate-limiter';
-import { initializeOpenAI, prepareMessages, generateStreamingAnswer } from '@/lib/bot/openai';
+import { prepareMessages, generateStreamingAnswer } from '@/lib/bot/openai';
+import { getLLMProvider, getMissingProviderConfig } from '@/lib/bot/providers';
 import { generateSystemPrompt } from '@/lib/products/hr-bot/prompts';
+import { resolvePromptProfile } from '@/lib/products/hr-bot/prompt-profile-service';
+import { getTenantModelSettings, getTenantAnswerCacheSettings, getTenantUsageLimits } from '@/lib/shared/tenant-config';
+import { checkTenantQuota, buildQuotaExceededBody } from '@/lib/shared/quota';
 import {
   logSuccessfulRequest,
   logError,
@@ -37,6 +53,8 @@ import {
   type RequestSummary
 } from '@/lib/shared/logging';
 import { updateChatRequestWithRetry } from '@/lib/shared/supabase/supabase-client';
+import { requireTenantAccess } from '@/lib/shared/auth/api-key-middleware';
+import { checkEmbedOrigin, logEmbedOriginViolation } from '@/lib/shared/embed-origins';
 
 // ========================================
 // VALIDATION CONSTANTS
@@ -78,11 +96,18 @@ export async function POST(request: NextRequest) {
     // ========================================
     // STEP 1.5: Get Tenant ID (MULTI-TENANT)
     // ========================================
-    // Priority: 1. Request body, 2. Header (from middleware)
+    // Priority: 1. API key (via middleware), 2. Request body, 3. Header (from middleware)
     // NOTE: Geen env var fallback meer - tenant moet expliciet zijn
-    tenantId = body.tenantId || request.headers.get('x-tenant-id') || '';
+    // Tenants met require_api_key accepteren alleen requests met een key
+    const access = await requireTenantAccess(request, { scope: 'chat', requestedTenantId: body.tenantId });
+    if (!access.success) {
+      console.log('❌ [API] Tenant access denied:', access.error);
+      return access.response;
+    }
+    tenantId = access.tenantId;
 
-    const tenantSource = body.tenantId ? 'body'
+    const tenantSource = access.apiKey ? `api_key:${access.apiKey.keyType}`
+      : body.tenantId ? 'body'
       : request.headers.get('x-tenant-id') ? 'header'
       : 'none';
 
@@ -109,6 +134,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Valideer herkomst: alleen ons eigen domein (de /embed iframe) of de
+    // embed origins van de tenant. Requests met een API key zijn al door
+    // de middleware gecontroleerd
+    if (!access.apiKey) {
+      const originCheck = await checkEmbedOrigin(request, tenantId);
+      if (!originCheck.allowed && originCheck.origin) {
+        const violationLog = logEmbedOriginViolation({
+          tenantId,
+          kind: 'api',
+          origin: originCheck.origin,
+          request
+        });
+        if (waitUntil) {
+          waitUntil(violationLog);
+        }
+
+        return NextResponse.json(
+          { error: 'origin_not_allowed', message: 'Deze chatbot is niet beschikbaar vanaf dit domein' },
+          { status: 403 }
+        );
+      }
+    }
+
     // Valideer message
     if (!message || typeof message !== 'string') {
       console.log('❌ [API] No message provided');
@@ -148,11 +196,12 @@ export async function POST(request: NextRequest) {
     }
 
     // ========================================
-    // STEP 1.7: Rate Limiting
+    // STEP 1.7: Rate Limiting (per-tenant limiet)
     // ========================================
+    const usageLimits = await getTenantUsageLimits(tenantId);
     const clientIp = getClientIp(request);
     const rateLimitKey = getRateLimitKey(tenantId, clientIp, 'chat');
-    const rateLimit = checkRateLimit(rateLimitKey, RATE_LIMITS.chat);
+    const rateLimit = await checkRateLimit(rateLimitKey, { ...RATE_LIMITS.chat, maxRequests: usageLimits.chatPerMinute });
 
     if (!rateLimit.allowed) {
       console.log('🚫 [API] Rate limit exceeded for:', rateLimitKey);
@@ -172,20 +221,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // ========================================
+    // STEP 1.8: Maandelijkse quota
+    // ========================================
+    const quota = await checkTenantQuota(tenantId);
+    if (!quota.allowed) {
+      console.log(`🚫 [API] Monthly ${quota.exceeded} quota exhausted for tenant:`, tenantId);
+      return NextResponse.json(buildQuotaExceededBody(quota, language), { status: 429 });
+    }
+
     // ========================================
     // STEP 2: Check environment configuratie
     // ========================================
-    const openaiApiKey = process.env.OPENAI_API_KEY;
+    const missingLLMConfig = getMissingProviderConfig();
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
     const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-    console.log('🔑 [API] OpenAI API Key exists:', !!openaiApiKey);
+    console.log('🔑 [API] LLM provider configured:', !missingLLMConfig);
     console.log('🔑 [API] Supabase configured:', !!supabaseUrl && !!supabaseKey);
 
-    if (!openaiApiKey) {
-      console.log('❌ [API] Missing OpenAI API key');
+    if (missingLLMConfig) {
+      console.log(`❌ [API] Missing LLM configuration: ${missingLLMConfig}`);
       return NextResponse.json(
-        { error: 'Server configuration error: Missing OpenAI API key' },
+        { error: `Server configuration error: Missing ${missingLLMConfig}` },
         { status: 500 }
       );
     }
@@ -198,6 +256,43 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // ========================================
+    // STEP 2.5: Answer cache (veelgestelde vragen)
+    // ========================================
+    // Follow-up vragen ("en voor parttimers?") hangen af van het gesprek
+    // en gaan altijd door de volledige pipeline.
+    // Opslaan gebeurt alleen voor eerste vragen, zodat een gecached
+    // antwoord nooit naar een eerder gesprek verwijst.
+    const answerCacheSettings = await getTenantAnswerCacheSettings(tenantId);
+    const hasHistory = (conversationHistory?.length || 0) > 0;
+    let cacheLookup: AnswerCacheLookup | null = null;
+
+    if (answerCacheSettings.enabled && !(hasHistory && detectFollowUpQuestion(message))) {
+      cacheLookup = await lookupCachedAnswer(tenantId, language, message, answerCacheSettings);
+
+      if (cacheLookup.hit && cacheLookup.entry) {
+        return await replayCachedAnswer({
+          lookup: cacheLookup,
+          threshold: answerCacheSettings.similarityThreshold,
+          tenantId,
+          sessionId,
+          message,
+          language,
+          conversationHistoryLength: conversationHistory?.length || 0,
+          requestStartTime
+        });
+      }
+    }
+
+    const cacheDetails: RAGAnswerCacheDetails | undefined = cacheLookup ? {
+      hit: false,
+      similarity: cacheLookup.similarity,
+      threshold: answerCacheSettings.similarityThreshold,
+      lookupMs: cacheLookup.latencyMs,
+      lookupCost: cacheLookup.cost,
+      error: cacheLookup.error
+    } : undefined;
+
     // ========================================
     // STEP 3: Haal context op via Supabase RAG
     // ========================================
@@ -217,19 +312,22 @@ export async function POST(request: NextRequest) {
     );
 
     // Voor backwards compatibility gebruiken we dezelfde variabelenamen
-    const ragTokens = embeddingTokens;
-    const ragCost = embeddingCost;
+    // (inclusief de embedding van de cache lookup)
+    const ragTokens = embeddingTokens + (cacheLookup?.tokens || 0);
+    const ragCost = embeddingCost + (cacheLookup?.cost || 0);
 
     // ========================================
-    // STEP 4: Genereer system prompt
+    // STEP 4: Genereer system prompt (met tenant prompt profiel)
     // ========================================
-    const systemPrompt = generateSystemPrompt(contextText, language);
+    const promptProfile = await resolvePromptProfile(tenantId);
+    const systemPrompt = generateSystemPrompt(contextText, language, promptProfile);
 
     // ========================================
-    // STEP 5: Initialiseer OpenAI en start streaming
+    // STEP 5: Haal LLM provider op en start streaming
     // ========================================
-    const openaiClient = initializeOpenAI(openaiApiKey);
-    const messages = prepareMessages(systemPrompt, conversationHistory, message);
+    const modelSettings = await getTenantModelSettings(tenantId);
+    const llmProvider = getLLMProvider();
+    const messages = prepareMessages(systemPrompt, conversationHistory, message, modelSettings.historyWindow);
 
     console.log('\n🌊 [API] Starting streaming response...');
 
@@ -258,7 +356,7 @@ export async function POST(request: NextRequest) {
         conversation_history_length: conversationHistory?.length || 0,
         language: language,
         citations: citations,
-        rag_details: ragDetails  // NEW: Include RAG pipeline details
+        rag_details: cacheDetails ? { ...ragDetails, answerCache: cacheDetails } : ragDetails
       };
       logId = await logSuccessfulRequest(placeholderSummary);
       console.log('✅ [API] Placeholder log created with ID:', logId);
@@ -267,7 +365,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Genereer streaming response
-    const stream = await generateStreamingAnswer(openaiClient, messages, language);
+    const stream = await generateStreamingAnswer(llmProvider, messages, language, modelSettings);
 
     // Voeg metadata toe aan de stream (citations, pinecone cost, session, logId!)
     const encoder = new TextEncoder();
@@ -409,17 +507,37 @@ export async function POST(request: NextRequest) {
       if (finalUsage && fullAnswer) {
         const totalCost = parseFloat(ragCost.toFixed(6)) + (finalUsage.totalCost || 0);
 
+        // Sla het antwoord op in de answer cache (alleen eerste vragen met bronnen)
+        let storedInCache = false;
+        if (cacheLookup?.embedding && !hasHistory && citations.length > 0) {
+          const storeResult = await storeCachedAnswer({
+            tenantId,
+            language,
+            question: message,
+            normalizedQuestion: cacheLookup.normalizedQuestion,
+            embedding: cacheLookup.embedding,
+            answer: fullAnswer,
+            citations,
+            sourceLogId: logId
+          });
+          storedInCache = storeResult.success;
+        }
+
         // Update ragDetails with OpenAI information
         const finalRagDetails = ragDetails ? {
           ...ragDetails,
+          answerCache: cacheDetails ? { ...cacheDetails, stored: storedInCache } : undefined,
           openai: {
-            model: 'gpt-4o',
-            temperature: 0.7,
+            model: modelSettings.model,
+            temperature: modelSettings.temperature,
+            maxOutputTokens: modelSettings.maxOutputTokens,
+            historyWindow: modelSettings.historyWindow,
             systemPromptTokens: 0, // Would need to calculate from system prompt
             inputTokens: finalUsage.inputTokens || 0,
             outputTokens: finalUsage.outputTokens || 0,
             totalTokens: finalUsage.totalTokens || 0,
-            streamingDurationMs: responseTimeMs - (ragDetails.timing?.totalMs || 0)
+            streamingDurationMs: responseTimeMs - (ragDetails.timing?.totalMs || 0),
+            promptProfileVersion: promptProfile.version
           },
           costs: {
             ...(ragDetails.costs || {}),
@@ -545,3 +663,142 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+// ========================================
+// ANSWER CACHE REPLAY
+// ========================================
+
+/**
+ * Speelt een gecached antwoord af via dezelfde SSE events als een
+ * normaal antwoord (metadata → content → done), zodat de chat UI
+ * en embed geen verschil merken.
+ *
+ * Wordt gelogd in chat_logs met 0 OpenAI kosten: alleen de embedding
+ * van de lookup telt mee, zodat cost-service eerlijke cijfers toont.
+ */
+async function replayCachedAnswer(params: {
+  lookup: AnswerCacheLookup;
+  threshold: number;
+  tenantId: string;
+  sessionId?: string;
+  message: string;
+  language: string;
+  conversationHistoryLength: number;
+  requestStartTime: number;
+}): Promise<Response> {
+  const { lookup, threshold, tenantId, sessionId, message, language, requestStartTime } = params;
+  const entry = lookup.entry!;
+  const lookupCost = parseFloat(lookup.cost.toFixed(6));
+
+  const responseTimeMs = Date.now() - requestStartTime;
+  const responseTimeSeconds = parseFloat((responseTimeMs / 1000).toFixed(2));
+
+  console.log(`\n🗄️ [API] ========== ANSWER CACHE HIT ==========`);
+  console.log(`🗄️ [API] Cached question: "${entry.question}" (${((lookup.similarity || 0) * 100).toFixed(1)}%)`);
+
+  const cacheDetails: RAGAnswerCacheDetails = {
+    hit: true,
+    similarity: lookup.similarity,
+    threshold,
+    entryId: entry.id,
+    cachedQuestion: entry.question,
+    sourceLogId: entry.sourceLogId,
+    lookupMs: lookup.latencyMs,
+    lookupCost
+  };
+
+  let logId: string | null = null;
+  try {
+    const [createdLogId] = await Promise.all([
+      logSuccessfulRequest({
+        tenant_id: tenantId,
+        session_id: sessionId || 'NO_SESSION_ID',
+        timestamp: new Date(requestStartTime).toISOString(),
+        question: message,
+        answer: entry.answer,
+        response_time_seconds: responseTimeSeconds,
+        response_time_ms: responseTimeMs,
+        embedding_tokens: lookup.tokens,
+        embedding_cost: lookupCost,
+        openai_input_tokens: 0,
+        openai_output_tokens: 0,
+        openai_total_tokens: 0,
+        openai_cost: 0,
+        total_cost: lookupCost,
+        snippets_used: entry.citations.length,
+        citations_count: entry.citations.length,
+        conversation_history_length: params.conversationHistoryLength,
+        language,
+        citations: entry.citations,
+        rag_details: {
+          answerCache: cacheDetails,
+          costs: {
+            embedding: lookupCost,
+            reranking: 0,
+            openai: 0,
+            total: lookupCost
+          },
+          timing: {
+            embeddingMs: lookup.latencyMs,
+            searchMs: 0,
+            rerankingMs: 0,
+            openaiMs: 0,
+            totalMs: responseTimeMs
+          }
+        }
+      }),
+      recordAnswerCacheHit(entry.id)
+    ]);
+    logId = createdLogId;
+  } catch (err) {
+    console.error('⚠️ [API] Failed to log cached answer:', err);
+  }
+
+  const encoder = new TextEncoder();
+  const events = [
+    {
+      type: 'metadata',
+      citations: entry.citations,
+      ragTokens: lookup.tokens,
+      ragCost: lookupCost,
+      sessionId: sessionId || 'NO_SESSION_ID',
+      requestStartTime,
+      logId,
+      cached: true
+    },
+    {
+      type: 'content',
+      content: entry.answer
+    },
+    {
+      type: 'done',
+      usage: {
+        inputTokens: 0,
+        outputTokens: 0,
+        totalTokens: 0,
+        inputCost: 0,
+        outputCost: 0,
+        totalCost: 0
+      },
+      fullAnswer: entry.answer,
+      cached: true
+    }
+  ];
+
+  const stream = new ReadableStream({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      }
+      controller.close();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueCrawls } from '@/lib/rag/crawl-sources-service';
+
+/**
+ * ========================================
+ * CRAWL SOURCES CRON API
+ * ========================================
+ *
+ * GET  /api/cron/crawl-sources - Crawl bronnen waarvan het interval verstreken is
+ * POST /api/cron/crawl-sources - Idem (voor externe schedulers)
+ *
+ * Authorization: Bearer <CRON_SECRET>, zelfde secret als de document
+ * worker. Nieuwe pagina's komen in de document wachtrij en worden door
+ * /api/cron/document-jobs verwerkt.
+ */
+
+export const maxDuration = 300;
+
+async function handleCrawlRequest(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'Server configuration error', details: 'CRON_SECRET is not set' },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runDueCrawls({ maxDurationMs: (maxDuration - 60) * 1000 });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('❌ [CrawlSources API] Cron error:', error);
+    return NextResponse.json(
+      { error: 'Crawl failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleCrawlRequest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleCrawlRequest(request);
+}
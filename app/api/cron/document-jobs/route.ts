@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runDocumentWorker } from '@/lib/rag/document-worker';
+
+/**
+ * ========================================
+ * DOCUMENT JOBS WORKER API
+ * ========================================
+ *
+ * GET  /api/cron/document-jobs - Verwerk jobs uit de document wachtrij
+ * POST /api/cron/document-jobs - Idem (voor externe schedulers)
+ *
+ * Authorization: Bearer <CRON_SECRET>. Valt niet onder de admin
+ * middleware, dus de route controleert het secret zelf.
+ *
+ * Draait tot de wachtrij leeg is of de tijd op is; een job die dan nog
+ * loopt wordt bij de volgende run hervat vanaf de checkpoint.
+ */
+
+export const maxDuration = 300;
+
+async function handleWorkerRequest(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'Server configuration error', details: 'CRON_SECRET is not set' },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    // Ruim binnen maxDuration blijven, de lopende job maakt de run nog af
+    const result = await runDocumentWorker({ maxDurationMs: (maxDuration - 60) * 1000 });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('❌ [DocumentJobs API] Worker error:', error);
+    return NextResponse.json(
+      { error: 'Worker failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleWorkerRequest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleWorkerRequest(request);
+}
@@ -0,0 +1,118 @@
+/**
+ * ========================================
+ * CITATION DOCUMENT API
+ * ========================================
+ *
+ * GET /api/documents/open?tenant=&session=&path=&page=&anchor=
+ *     - Opent een geciteerd document uit de private bucket van de tenant
+ *
+ * Toegang: de chat sessie van de tenant moet de afgelopen
+ * CITATION_LINK_MAX_AGE_HOURS een antwoord met dit document als bron
+ * hebben gekregen (chat log). Daarna een redirect naar een kort geldige
+ * signed URL, op de geciteerde pagina (#page=N) of sectie (#anker).
+ *
+ * Geen API key check: een link in een nieuw tabblad kan geen headers
+ * meesturen. De chat request die de citation opleverde is al gecontroleerd.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { DATABASE_CONFIG } from '@/lib/shared/supabase/config';
+import { createDocumentSignedUrl } from '@/lib/admin/storage-service';
+
+// Hoe lang een citation link na het antwoord bruikbaar blijft
+const CITATION_LINK_MAX_AGE_HOURS = 24;
+
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const tenantId = searchParams.get('tenant') || request.headers.get('x-tenant-id');
+    const sessionId = searchParams.get('session');
+    const storagePath = searchParams.get('path');
+    const page = parseInt(searchParams.get('page') || '', 10);
+    const anchor = searchParams.get('anchor');
+
+    if (!tenantId || !sessionId || sessionId === 'NO_SESSION_ID' || !storagePath) {
+      return NextResponse.json(
+        { error: 'Tenant, session and path are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabase();
+
+    // 1. Heeft deze sessie het document als bron gekregen?
+    const since = new Date(Date.now() - CITATION_LINK_MAX_AGE_HOURS * 60 * 60 * 1000).toISOString();
+    const { data: logs, error: logError } = await supabase
+      .from(DATABASE_CONFIG.tableName)
+      .select('id')
+      .eq('tenant_id', tenantId)
+      .eq('session_id', sessionId)
+      .gte('timestamp', since)
+      .contains('citations', [{ references: [{ file: { path: storagePath } }] }])
+      .limit(1);
+
+    if (logError) {
+      console.error('❌ [Citation] Chat log lookup failed:', logError);
+      return NextResponse.json(
+        { error: 'Failed to check access', details: logError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!logs || logs.length === 0) {
+      console.warn(`🚫 [Citation] ${tenantId}/${sessionId} has no recent citation of ${storagePath}`);
+      return NextResponse.json({ error: 'Geen toegang tot dit document' }, { status: 403 });
+    }
+
+    // 2. Bestaat het document (of een eerdere versie) nog?
+    const { data: document } = await supabase
+      .from('documents')
+      .select('id')
+      .eq('tenant_id', tenantId)
+      .eq('file_path', storagePath)
+      .maybeSingle();
+
+    if (!document) {
+      const { data: version } = await supabase
+        .from('document_versions')
+        .select('id')
+        .eq('tenant_id', tenantId)
+        .eq('file_path', storagePath)
+        .limit(1)
+        .maybeSingle();
+
+      if (!version) {
+        return NextResponse.json({ error: 'Document niet gevonden' }, { status: 404 });
+      }
+    }
+
+    // 3. Redirect naar een kort geldige signed URL
+    const { url, error } = await createDocumentSignedUrl(tenantId, storagePath);
+    if (!url) {
+      return NextResponse.json(
+        { error: 'Kon document URL niet genereren', details: error },
+        { status: 500 }
+      );
+    }
+
+    const fragment = page > 0 ? `#page=${page}` : anchor ? `#${encodeURIComponent(anchor)}` : '';
+    const response = NextResponse.redirect(url + fragment);
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+
+  } catch (error) {
+    console.error('❌ [Citation] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { getAuthUser } from '@/lib/shared/auth/server';
+import { getExpiringDocuments } from '@/lib/rag/document-validity-service';
+
+/**
+ * ========================================
+ * PORTAL EXPIRING DOCUMENTS API
+ * ========================================
+ *
+ * GET /api/portal/documents/expiring - Documents of the customer's tenant
+ *                                      that expire within 30 days
+ */
+
+export async function GET() {
+  try {
+    // Use 'customer' context for session isolation
+    const authResult = await getAuthUser('customer');
+    if (!authResult.user?.email) {
+      return NextResponse.json({ error: 'Niet ingelogd' }, { status: 401 });
+    }
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    // Get customer
+    const { data: customer, error: customerError } = await supabase
+      .from('customer_users')
+      .select('tenant_id, is_active')
+      .eq('email', authResult.user.email)
+      .single();
+
+    if (customerError || !customer || !customer.is_active) {
+      return NextResponse.json({ error: 'Geen toegang' }, { status: 403 });
+    }
+
+    const { documents, error } = await getExpiringDocuments({ tenantId: customer.tenant_id });
+
+    if (error) {
+      return NextResponse.json({ error: 'Kon documenten niet ophalen' }, { status: 500 });
+    }
+
+    return NextResponse.json({ documents });
+  } catch (error) {
+    console.error('❌ [Portal Expiring Documents API] Error:', error);
+    return NextResponse.json({ error: 'Er is een fout opgetreden' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getAuthUser } from '@/lib/shared/auth/server';
+import { createDocumentSignedUrl } from '@/lib/admin/storage-service';
 
 /**
  * GET /api/portal/products/[id]/documents/[docId]/download
@@ -55,18 +56,15 @@ export async function GET(request: Request, { params }: RouteParams) {
       return NextResponse.json({ error: 'Document heeft geen bestand' }, { status: 404 });
     }
 
-    // Get signed URL from storage (valid for 1 hour)
-    const { data: signedUrlData, error: urlError } = await supabase.storage
-      .from('documents')
-      .createSignedUrl(document.file_path, 3600);
+    // Get a short-lived signed URL from the tenant's private bucket
+    const { url: signedUrl } = await createDocumentSignedUrl(customer.tenant_id, document.file_path);
 
-    if (urlError || !signedUrlData?.signedUrl) {
-      console.error('❌ [Download] Error creating signed URL:', urlError);
+    if (!signedUrl) {
       return NextResponse.json({ error: 'Kon download URL niet genereren' }, { status: 500 });
     }
 
     // Redirect to the signed URL
-    return NextResponse.redirect(signedUrlData.signedUrl);
+    return NextResponse.redirect(signedUrl);
   } catch (error) {
     console.error('❌ [Download] Error:', error);
     return NextResponse.json({ error: 'Er is een fout opgetreden' }, { status: 500 });
@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getAuthUser } from '@/lib/shared/auth/server';
+import { invalidateAnswerCache } from '@/lib/rag/answer-cache';
+import { updateDocumentValidity } from '@/lib/rag/document-validity-service';
 
 /**
  * ========================================
@@ -8,6 +10,7 @@ import { getAuthUser } from '@/lib/shared/auth/server';
  * ========================================
  *
  * GET    /api/portal/products/[id]/documents - List documents
+ * PATCH  /api/portal/products/[id]/documents?doc_id=xxx - Update validity (valid_from/valid_until)
  * DELETE /api/portal/products/[id]/documents?doc_id=xxx - Delete document
  */
 
@@ -68,7 +71,7 @@ export async function GET(request: Request, { params }: RouteParams) {
     // Note: columns are filename, processing_status, total_chunks (not file_name, status, chunk_count)
     const { data: documents, error } = await supabase
       .from('documents')
-      .select('id, filename, file_size, processing_status, total_chunks, created_at, updated_at')
+      .select('id, filename, file_size, processing_status, total_chunks, valid_from, valid_until, created_at, updated_at')
       .eq('tenant_id', customer.tenant_id)
       .eq('tenant_product_id', id)
       .order('created_at', { ascending: false });
@@ -85,6 +88,61 @@ export async function GET(request: Request, { params }: RouteParams) {
   }
 }
 
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const docId = searchParams.get('doc_id');
+
+    if (!docId) {
+      return NextResponse.json({ error: 'Document ID is verplicht' }, { status: 400 });
+    }
+
+    // Use 'customer' context for session isolation
+    const authResult = await getAuthUser('customer');
+    if (!authResult.user?.email) {
+      return NextResponse.json({ error: 'Niet ingelogd' }, { status: 401 });
+    }
+
+    const access = await verifyProductAccess(authResult.user.email, id);
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { customer, supabase } = access;
+
+    // Verify document belongs to this product
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id')
+      .eq('id', docId)
+      .eq('tenant_id', customer.tenant_id)
+      .eq('tenant_product_id', id)
+      .single();
+
+    if (docError || !document) {
+      return NextResponse.json({ error: 'Document niet gevonden' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { validity, error } = await updateDocumentValidity(
+      customer.tenant_id,
+      docId,
+      body.valid_from || null,
+      body.valid_until || null
+    );
+
+    if (!validity) {
+      return NextResponse.json({ error: 'Kon geldigheid niet opslaan', details: error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, validity });
+  } catch (error) {
+    console.error('❌ [Portal Documents API] Error:', error);
+    return NextResponse.json({ error: 'Er is een fout opgetreden' }, { status: 500 });
+  }
+}
+
 export async function DELETE(request: Request, { params }: RouteParams) {
   try {
     const { id } = await params;
@@ -138,6 +196,9 @@ export async function DELETE(request: Request, { params }: RouteParams) {
       return NextResponse.json({ error: 'Kon document niet verwijderen' }, { status: 500 });
     }
 
+    // Gecachte antwoorden kunnen naar dit document verwijzen
+    await invalidateAnswerCache(customer.tenant_id);
+
     // Try to delete from storage (ignore errors)
     if (document.file_path) {
       await supabase.storage
@@ -9,6 +9,9 @@
  * DELETE /api/rag/documents?tenant_id=xxx&id=yyy
  * Verwijder een document
  *
+ * Met Authorization: Bearer lvt_sk_... (scope 'documents') komt de
+ * tenant uit de key en is tenant_id optioneel.
+ *
  * Response (GET):
  * {
  *   documents: Document[]
@@ -23,6 +26,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { listDocuments, deleteDocument, getDocument } from '@/lib/rag/processor';
 import { checkRAGHealth } from '@/lib/rag/context';
+import { requireTenantAccess } from '@/lib/shared/auth/api-key-middleware';
 
 // ========================================
 // GET - List Documents
@@ -34,8 +38,14 @@ export async function GET(request: NextRequest) {
   const documentId = searchParams.get('id');
   const healthCheck = searchParams.get('health');
 
-  // Use tenant_id from query or fallback to environment variable
-  const tenantId = tenantIdParam || process.env.TENANT_ID;
+  // Met een API key (scope 'documents') komt de tenant uit de key
+  const access = await requireTenantAccess(request, { scope: 'documents', requestedTenantId: tenantIdParam });
+  if (!access.success) {
+    return access.response;
+  }
+
+  // Use tenant_id from API key, query or fallback to environment variable
+  const tenantId = access.apiKey?.tenantId || tenantIdParam || process.env.TENANT_ID;
 
   if (!tenantId) {
     return NextResponse.json(
@@ -85,8 +95,13 @@ export async function DELETE(request: NextRequest) {
   const tenantIdParam = searchParams.get('tenant_id');
   const documentId = searchParams.get('id');
 
-  // Use tenant_id from query or fallback to environment variable
-  const tenantId = tenantIdParam || process.env.TENANT_ID;
+  const access = await requireTenantAccess(request, { scope: 'documents', requestedTenantId: tenantIdParam });
+  if (!access.success) {
+    return access.response;
+  }
+
+  // Use tenant_id from API key, query or fallback to environment variable
+  const tenantId = access.apiKey?.tenantId || tenantIdParam || process.env.TENANT_ID;
 
   if (!tenantId) {
     return NextResponse.json(
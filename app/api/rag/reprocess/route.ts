@@ -12,33 +12,21 @@
  *   document_id?: string  // Optioneel: specifiek document, anders alle
  * }
  *
- * Response:
+ * Response (202): de documenten staan in de wachtrij, de verwerking
+ * gebeurt op de achtergrond (lib/rag/document-worker.ts). Ongewijzigde
+ * chunks worden hergebruikt. Status via GET /api/rag/documents?id=<documentId>.
  * {
  *   success: boolean,
- *   processed: number,
- *   results: Array<{ documentId, filename, success, error?, chunksCreated }>
+ *   queued: number,
+ *   results: Array<{ documentId, filename, jobId, error? }>
  * }
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import { listDocuments, reprocessDocument, getDocument } from '@/lib/rag/processor';
-import { getDocumentsBucket } from '@/lib/admin/storage-service';
-
-// ========================================
-// SUPABASE CLIENT
-// ========================================
-
-function getSupabaseClient() {
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-  if (!url || !key) {
-    throw new Error('Supabase configuration missing');
-  }
-
-  return createClient(url, key);
-}
+import { NextRequest, NextResponse, after } from 'next/server';
+import { listDocuments, getDocument } from '@/lib/rag/processor';
+import { enqueueDocumentReprocessing } from '@/lib/rag/document-jobs-service';
+import { runDocumentWorker } from '@/lib/rag/document-worker';
+import { requireTenantAccess } from '@/lib/shared/auth/api-key-middleware';
 
 // ========================================
 // POST - Reprocess Documents
@@ -49,8 +37,14 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { tenant_id, document_id } = body;
 
+    // Met een API key (scope 'documents') komt de tenant uit de key
+    const access = await requireTenantAccess(request, { scope: 'documents', requestedTenantId: tenant_id });
+    if (!access.success) {
+      return access.response;
+    }
+
     // Validate tenant_id
-    const tenantId = tenant_id || process.env.TENANT_ID;
+    const tenantId = access.apiKey?.tenantId || tenant_id || process.env.TENANT_ID;
     if (!tenantId) {
       return NextResponse.json(
         { error: 'tenant_id is required' },
@@ -61,9 +55,6 @@ export async function POST(request: NextRequest) {
     console.log('\n🔄 [Reprocess API] ========== REPROCESSING DOCUMENTS ==========');
     console.log('🏢 [Reprocess API] Tenant:', tenantId);
 
-    const supabase = getSupabaseClient();
-    const bucketName = getDocumentsBucket(tenantId);
-
     // Get documents to process
     let documentsToProcess;
     if (document_id) {
@@ -79,105 +70,48 @@ export async function POST(request: NextRequest) {
       documentsToProcess = await listDocuments(tenantId);
     }
 
-    console.log(`📄 [Reprocess API] Documents to process: ${documentsToProcess.length}`);
+    console.log(`📄 [Reprocess API] Documents to queue: ${documentsToProcess.length}`);
 
     const results: Array<{
       documentId: string;
       filename: string;
-      success: boolean;
+      jobId: string | null;
       error?: string;
-      chunksCreated?: number;
-      totalCost?: number;
     }> = [];
 
-    // Process each document
+    // Queue each document
     for (const doc of documentsToProcess) {
-      console.log(`\n📄 [Reprocess API] Processing: ${doc.filename}`);
-
-      try {
-        // Check if we have a file_path to fetch from storage
-        if (!doc.file_path) {
-          console.warn(`⚠️ [Reprocess API] No file_path for document ${doc.id}, skipping`);
-          results.push({
-            documentId: doc.id,
-            filename: doc.filename,
-            success: false,
-            error: 'No file_path stored - document needs to be re-uploaded'
-          });
-          continue;
-        }
-
-        // Fetch PDF from Supabase Storage
-        console.log(`📥 [Reprocess API] Fetching from storage: ${bucketName}/${doc.file_path}`);
-        const { data: fileData, error: downloadError } = await supabase.storage
-          .from(bucketName)
-          .download(doc.file_path);
-
-        if (downloadError || !fileData) {
-          console.error(`❌ [Reprocess API] Download failed:`, downloadError);
-          results.push({
-            documentId: doc.id,
-            filename: doc.filename,
-            success: false,
-            error: `Download failed: ${downloadError?.message || 'No data'}`
-          });
-          continue;
-        }
-
-        // Convert Blob to Buffer
-        const arrayBuffer = await fileData.arrayBuffer();
-        const fileBuffer = Buffer.from(arrayBuffer);
-
-        console.log(`📦 [Reprocess API] Downloaded ${(fileBuffer.length / 1024).toFixed(1)} KB`);
-
-        // Reprocess the document
-        const result = await reprocessDocument(tenantId, doc.id, fileBuffer);
-
-        results.push({
-          documentId: doc.id,
-          filename: doc.filename,
-          success: result.success,
-          error: result.error,
-          chunksCreated: result.chunksCreated,
-          totalCost: result.totalCost
-        });
-
-        if (result.success) {
-          console.log(`✅ [Reprocess API] Success: ${result.chunksCreated} chunks, $${result.totalCost?.toFixed(4)}`);
-        } else {
-          console.error(`❌ [Reprocess API] Failed: ${result.error}`);
-        }
-
-      } catch (docError) {
-        const errorMessage = docError instanceof Error ? docError.message : 'Unknown error';
-        console.error(`❌ [Reprocess API] Error processing ${doc.filename}:`, errorMessage);
-        results.push({
-          documentId: doc.id,
-          filename: doc.filename,
-          success: false,
-          error: errorMessage
-        });
+      const { jobId, error } = await enqueueDocumentReprocessing({
+        tenantId,
+        documentId: doc.id
+      });
+
+      if (!jobId) {
+        console.warn(`⚠️ [Reprocess API] Not queued: ${doc.filename} (${error})`);
       }
+
+      results.push({
+        documentId: doc.id,
+        filename: doc.filename,
+        jobId,
+        error
+      });
     }
 
-    // Summary
-    const successCount = results.filter(r => r.success).length;
-    const totalChunks = results.reduce((sum, r) => sum + (r.chunksCreated || 0), 0);
-    const totalCost = results.reduce((sum, r) => sum + (r.totalCost || 0), 0);
+    const queued = results.filter(r => r.jobId).length;
+
+    // Verwerking na de response starten; de cron worker pakt de rest op
+    if (queued > 0) {
+      after(() => runDocumentWorker());
+    }
 
-    console.log('\n📊 [Reprocess API] ========== SUMMARY ==========');
-    console.log(`✅ Successful: ${successCount}/${results.length}`);
-    console.log(`📦 Total chunks: ${totalChunks}`);
-    console.log(`💵 Total cost: $${totalCost.toFixed(4)}`);
+    console.log(`📊 [Reprocess API] Queued: ${queued}/${results.length}`);
 
     return NextResponse.json({
-      success: successCount === results.length,
-      processed: results.length,
-      successCount,
-      totalChunks,
-      totalCost,
+      success: queued === results.length,
+      queued,
       results
-    });
+    }, { status: 202 });
 
   } catch (error) {
     console.error('❌ [Reprocess API] Error:', error);
@@ -4,25 +4,31 @@
  * ========================================
  *
  * POST /api/rag/upload
- * Upload een PDF document voor RAG indexering
+ * Upload een document voor RAG indexering
+ * (PDF, Word, HTML, Markdown, TXT of CSV - zie lib/rag/document-types.ts)
  *
  * Request:
  * - Content-Type: multipart/form-data
- * - file: PDF bestand (required)
- * - tenant_id: Tenant identifier (optional, uses env default)
+ * - file: Document (required)
+ * - tenant_id: Tenant identifier (optional, uses API key tenant or env default)
  * - tenant_product_id: Product identifier (optional, links doc to product)
  *
- * Response:
+ * Response (202): het document staat in de wachtrij, de verwerking
+ * gebeurt op de achtergrond (lib/rag/document-worker.ts). Status via
+ * GET /api/rag/documents?id=<documentId> (processing_status).
  * {
  *   success: boolean,
  *   documentId: string,
- *   chunksCreated: number,
- *   cost: number
+ *   jobId: string,
+ *   status: 'queued'
  * }
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { processDocument } from '@/lib/rag/processor';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { enqueueDocumentProcessing } from '@/lib/rag/document-jobs-service';
+import { runDocumentWorker } from '@/lib/rag/document-worker';
+import { resolveDocumentMimeType, SUPPORTED_DOCUMENT_TYPES } from '@/lib/rag/document-types';
+import { requireTenantAccess } from '@/lib/shared/auth/api-key-middleware';
 
 // Max file size: 10MB
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
@@ -37,8 +43,14 @@ export async function POST(request: NextRequest) {
     const tenantIdFromForm = formData.get('tenant_id') as string | null;
     const tenantProductId = formData.get('tenant_product_id') as string | null;
 
-    // Use tenant_id from form or fallback to environment variable
-    const tenantId = tenantIdFromForm || process.env.TENANT_ID;
+    // Met een API key (scope 'documents') komt de tenant uit de key
+    const access = await requireTenantAccess(request, { scope: 'documents', requestedTenantId: tenantIdFromForm });
+    if (!access.success) {
+      return access.response;
+    }
+
+    // Use tenant_id from API key, form or fallback to environment variable
+    const tenantId = access.apiKey?.tenantId || tenantIdFromForm || process.env.TENANT_ID;
 
     // Validation
     if (!file) {
@@ -58,10 +70,14 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file type
-    if (!file.name.toLowerCase().endsWith('.pdf')) {
+    const mimeType = resolveDocumentMimeType(file.name, file.type);
+    if (!mimeType) {
       console.log('❌ [Upload API] Invalid file type:', file.type);
       return NextResponse.json(
-        { success: false, error: 'Only PDF files are supported' },
+        {
+          success: false,
+          error: `Unsupported file type. Supported: ${SUPPORTED_DOCUMENT_TYPES.flatMap(t => t.extensions).join(', ')}`
+        },
         { status: 400 }
       );
     }
@@ -77,6 +93,7 @@ export async function POST(request: NextRequest) {
 
     console.log('📁 [Upload API] File:', file.name);
     console.log('📦 [Upload API] Size:', (file.size / 1024).toFixed(1), 'KB');
+    console.log('🏷️  [Upload API] Type:', mimeType);
     console.log('🏢 [Upload API] Tenant:', tenantId);
     if (tenantProductId) console.log('📦 [Upload API] Product:', tenantProductId);
 
@@ -84,29 +101,35 @@ export async function POST(request: NextRequest) {
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
 
-    // Process document
-    const result = await processDocument(tenantId, file.name, buffer, undefined, tenantProductId || undefined);
+    // Queue document
+    const result = await enqueueDocumentProcessing({
+      tenantId,
+      filename: file.name,
+      fileBuffer: buffer,
+      tenantProductId: tenantProductId || undefined,
+      mimeType
+    });
 
-    if (!result.success) {
-      console.log('❌ [Upload API] Processing failed:', result.error);
+    if (!result.documentId) {
+      console.log('❌ [Upload API] Queueing failed:', result.error);
       return NextResponse.json(
         { success: false, error: result.error },
         { status: 500 }
       );
     }
 
-    console.log('✅ [Upload API] Upload successful');
+    // Verwerking na de response starten
+    after(() => runDocumentWorker({ maxJobs: 1 }));
+
+    console.log('✅ [Upload API] Document queued');
     console.log('📄 [Upload API] Document ID:', result.documentId);
-    console.log('📊 [Upload API] Chunks:', result.chunksCreated);
-    console.log('💵 [Upload API] Cost: $' + result.totalCost.toFixed(4));
 
     return NextResponse.json({
       success: true,
       documentId: result.documentId,
-      chunksCreated: result.chunksCreated,
-      tokensUsed: result.totalTokens,
-      cost: result.totalCost
-    });
+      jobId: result.jobId,
+      status: 'queued'
+    }, { status: 202 });
 
   } catch (error) {
     console.error('❌ [Upload API] Error:', error);
@@ -0,0 +1,608 @@
+/**
+ * ========================================
+ * OPENAI-COMPATIBLE CHAT COMPLETIONS API
+ * ========================================
+ *
+ * POST /api/v1/chat/completions
+ *
+ * Server-to-server variant van /api/chat met het OpenAI request/response
+ * formaat, zodat integraties een standaard OpenAI client kunnen gebruiken.
+ *
+ * AUTH:
+ * Authorization: Bearer lvt_sk_... (secret key met scope 'chat').
+ * De middleware resolveert de key; de tenant komt uit de key
+ * (nooit uit ?tenant= of X-Tenant-ID).
+ *
+ * FLOW (zelfde pipeline als de widget):
+ * 1. Answer cache lookup (indien aan voor de tenant)
+ * 2. retrieveContext() → generateSystemPrompt() → LLM provider
+ * 3. logSuccessfulRequest() met dezelfde kosten velden als /api/chat
+ *
+ * RESPONSE:
+ * - stream: false → chat.completion JSON
+ * - stream: true  → chat.completion.chunk events + data: [DONE]
+ * Extensies: citations, log_id, cached
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { retrieveContext } from '@/lib/rag/context';
+import {
+  lookupCachedAnswer,
+  recordAnswerCacheHit,
+  storeCachedAnswer,
+  type AnswerCacheLookup
+} from '@/lib/rag/answer-cache';
+import { detectFollowUpQuestion, type ConversationMessage } from '@/lib/rag/conversation-context';
+import type { Citation, RAGAnswerCacheDetails } from '@/lib/rag/types';
+import { prepareMessages, generateAnswer, generateStreamingAnswer } from '@/lib/bot/openai';
+import { getLLMProvider, getMissingProviderConfig } from '@/lib/bot/providers';
+import {
+  CHAT_TEMPERATURE_RANGE,
+  CHAT_MAX_OUTPUT_TOKENS_RANGE,
+  type ChatModelSettings
+} from '@/lib/bot/model-settings';
+import {
+  parseChatCompletionRequest,
+  createCompletionId,
+  toCompletionUsage,
+  buildChatCompletion,
+  buildChatCompletionChunk,
+  buildApiError,
+  sseData
+} from '@/lib/bot/chat-completions';
+import { generateSystemPrompt } from '@/lib/products/hr-bot/prompts';
+import { resolvePromptProfile } from '@/lib/products/hr-bot/prompt-profile-service';
+import { getTenantModelSettings, getTenantAnswerCacheSettings, getTenantUsageLimits } from '@/lib/shared/tenant-config';
+import { requireTenantAccess } from '@/lib/shared/auth/api-key-middleware';
+import { checkRateLimit, getRateLimitKey, RATE_LIMITS } from '@/lib/shared/rate-limiter';
+import { checkTenantQuota } from '@/lib/shared/quota';
+import {
+  logSuccessfulRequest,
+  logError,
+  categorizeError,
+  isContentFilterError,
+  type RequestSummary
+} from '@/lib/shared/logging';
+
+// ========================================
+// VALIDATION CONSTANTS
+// ========================================
+
+const SUPPORTED_LANGUAGES = ['nl', 'en', 'de', 'fr', 'es', 'it', 'pl', 'tr', 'ar', 'zh', 'pt', 'ro'];
+const MAX_MESSAGE_LENGTH = 10000;
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+};
+
+// ========================================
+// HELPERS
+// ========================================
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.min(range.max, Math.max(range.min, value));
+}
+
+/**
+ * Parse ons eigen SSE formaat (generateStreamingAnswer) regel voor regel.
+ * Buffert incomplete regels, want een chunk kan midden in een event eindigen.
+ */
+function createSSEParser(onEvent: (event: Record<string, unknown>) => void) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  return (value: Uint8Array) => {
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.startsWith('data: ')) continue;
+      try {
+        onEvent(JSON.parse(line.slice(6)));
+      } catch {
+        // Geen JSON, overslaan
+      }
+    }
+  };
+}
+
+// ========================================
+// MAIN API HANDLER
+// ========================================
+
+export async function POST(request: NextRequest) {
+  const requestStartTime = Date.now();
+  console.log('🚀 [API v1] Chat completion request received');
+
+  let question = '';
+  let history: ConversationMessage[] = [];
+  let language = 'nl';
+  let tenantId = '';
+
+  try {
+    // ========================================
+    // STEP 1: API key → tenant
+    // ========================================
+    const access = await requireTenantAccess(request, { scope: 'chat', requireKey: true, secretOnly: true });
+    if (!access.success || !access.apiKey) {
+      const status = access.success ? 401 : access.response.status;
+      console.log('❌ [API v1] Access denied:', access.success ? 'no API key' : access.error);
+      return NextResponse.json(
+        buildApiError(
+          access.success ? 'Missing API key' : access.error,
+          status === 401 ? 'authentication_error' : 'permission_error',
+          status === 401 ? 'invalid_api_key' : 'insufficient_permissions'
+        ),
+        { status }
+      );
+    }
+    const principal = access.apiKey;
+    tenantId = principal.tenantId;
+
+    // ========================================
+    // STEP 2: Parse en valideer de request
+    // ========================================
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        buildApiError('Request body must be valid JSON', 'invalid_request_error'),
+        { status: 400 }
+      );
+    }
+
+    const { request: parsed, error: parseError } = parseChatCompletionRequest(body);
+    if (!parsed) {
+      return NextResponse.json(
+        buildApiError(parseError || 'Invalid request', 'invalid_request_error'),
+        { status: 400 }
+      );
+    }
+
+    if (parsed.question.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        buildApiError(`Message too long. Maximum ${MAX_MESSAGE_LENGTH} characters allowed.`, 'invalid_request_error'),
+        { status: 400 }
+      );
+    }
+
+    question = parsed.question;
+    history = parsed.history;
+    language = parsed.language && SUPPORTED_LANGUAGES.includes(parsed.language) ? parsed.language : 'nl';
+    const sessionId = parsed.sessionId || `api:${principal.keyId}`;
+
+    console.log('🏢 [API v1] Tenant ID:', tenantId, `(key ${principal.keyId})`);
+    console.log('❓ [API v1] Question:', question);
+    console.log('💬 [API v1] History length:', history.length);
+    console.log('🌊 [API v1] Stream:', parsed.stream);
+
+    // ========================================
+    // STEP 3: Rate limiting (per API key) + maand quota
+    // ========================================
+    const usageLimits = await getTenantUsageLimits(tenantId);
+    const rateLimit = await checkRateLimit(
+      getRateLimitKey(tenantId, principal.keyId, 'api'),
+      { ...RATE_LIMITS.api, maxRequests: usageLimits.apiPerMinute }
+    );
+    if (!rateLimit.allowed) {
+      console.log('🚫 [API v1] Rate limit exceeded for key:', principal.keyId);
+      return NextResponse.json(
+        buildApiError('Too many requests. Please try again later.', 'rate_limit_error', 'rate_limit_exceeded'),
+        {
+          status: 429,
+          headers: {
+            'Retry-After': String(Math.ceil(rateLimit.resetIn / 1000)),
+            'X-RateLimit-Remaining': '0'
+          }
+        }
+      );
+    }
+
+    const quota = await checkTenantQuota(tenantId);
+    if (!quota.allowed) {
+      return NextResponse.json(
+        buildApiError(
+          `Monthly ${quota.exceeded === 'cost' ? 'cost' : 'message'} quota exceeded. Resets at ${quota.resetsAt}.`,
+          'rate_limit_error',
+          'quota_exceeded'
+        ),
+        { status: 429 }
+      );
+    }
+
+    // ========================================
+    // STEP 4: Check environment configuratie
+    // ========================================
+    const missingLLMConfig = getMissingProviderConfig();
+    if (missingLLMConfig) {
+      console.log(`❌ [API v1] Missing LLM configuration: ${missingLLMConfig}`);
+      return NextResponse.json(
+        buildApiError(`Server configuration error: Missing ${missingLLMConfig}`, 'server_error'),
+        { status: 500 }
+      );
+    }
+
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      return NextResponse.json(
+        buildApiError('Server configuration error: Missing Supabase configuration', 'server_error'),
+        { status: 500 }
+      );
+    }
+
+    const completionId = createCompletionId();
+    const created = Math.floor(requestStartTime / 1000);
+
+    // ========================================
+    // STEP 5: Answer cache (zelfde regels als /api/chat)
+    // ========================================
+    const answerCacheSettings = await getTenantAnswerCacheSettings(tenantId);
+    const hasHistory = history.length > 0;
+    let cacheLookup: AnswerCacheLookup | null = null;
+
+    if (answerCacheSettings.enabled && !(hasHistory && detectFollowUpQuestion(question))) {
+      cacheLookup = await lookupCachedAnswer(tenantId, language, question, answerCacheSettings);
+
+      if (cacheLookup.hit && cacheLookup.entry) {
+        const entry = cacheLookup.entry;
+        const lookupCost = parseFloat(cacheLookup.cost.toFixed(6));
+        const responseTimeMs = Date.now() - requestStartTime;
+        const modelSettings = await getTenantModelSettings(tenantId);
+
+        const cacheDetails: RAGAnswerCacheDetails = {
+          hit: true,
+          similarity: cacheLookup.similarity,
+          threshold: answerCacheSettings.similarityThreshold,
+          entryId: entry.id,
+          cachedQuestion: entry.question,
+          sourceLogId: entry.sourceLogId,
+          lookupMs: cacheLookup.latencyMs,
+          lookupCost
+        };
+
+        const [logId] = await Promise.all([
+          logSuccessfulRequest({
+            tenant_id: tenantId,
+            session_id: sessionId,
+            timestamp: new Date(requestStartTime).toISOString(),
+            question,
+            answer: entry.answer,
+            response_time_seconds: parseFloat((responseTimeMs / 1000).toFixed(2)),
+            response_time_ms: responseTimeMs,
+            embedding_tokens: cacheLookup.tokens,
+            embedding_cost: lookupCost,
+            openai_input_tokens: 0,
+            openai_output_tokens: 0,
+            openai_total_tokens: 0,
+            openai_cost: 0,
+            total_cost: lookupCost,
+            snippets_used: entry.citations.length,
+            citations_count: entry.citations.length,
+            conversation_history_length: history.length,
+            language,
+            citations: entry.citations,
+            rag_details: {
+              answerCache: cacheDetails,
+              costs: { embedding: lookupCost, reranking: 0, openai: 0, total: lookupCost },
+              timing: { embeddingMs: cacheLookup.latencyMs, searchMs: 0, rerankingMs: 0, openaiMs: 0, totalMs: responseTimeMs }
+            }
+          }),
+          recordAnswerCacheHit(entry.id)
+        ]);
+
+        return respondWithAnswer({
+          stream: parsed.stream,
+          includeUsage: parsed.includeUsage,
+          completionId,
+          created,
+          model: modelSettings.model,
+          answer: entry.answer,
+          citations: entry.citations,
+          logId,
+          cached: true
+        });
+      }
+    }
+
+    const cacheDetails: RAGAnswerCacheDetails | undefined = cacheLookup ? {
+      hit: false,
+      similarity: cacheLookup.similarity,
+      threshold: answerCacheSettings.similarityThreshold,
+      lookupMs: cacheLookup.latencyMs,
+      lookupCost: cacheLookup.cost,
+      error: cacheLookup.error
+    } : undefined;
+
+    // ========================================
+    // STEP 6: Context + system prompt
+    // ========================================
+    const {
+      contextText,
+      citations,
+      embeddingTokens,
+      embeddingCost,
+      ragDetails
+    } = await retrieveContext(tenantId, question, 12, false, history);
+
+    const ragTokens = embeddingTokens + (cacheLookup?.tokens || 0);
+    const ragCost = embeddingCost + (cacheLookup?.cost || 0);
+
+    const promptProfile = await resolvePromptProfile(tenantId);
+    const systemPrompt = generateSystemPrompt(contextText, language, promptProfile);
+
+    // Tenant settings, met optionele temperature / max_tokens uit de request
+    const tenantModelSettings = await getTenantModelSettings(tenantId);
+    const modelSettings: ChatModelSettings = {
+      ...tenantModelSettings,
+      temperature: parsed.temperature !== undefined
+        ? clamp(parsed.temperature, CHAT_TEMPERATURE_RANGE)
+        : tenantModelSettings.temperature,
+      maxOutputTokens: parsed.maxOutputTokens !== undefined
+        ? clamp(Math.round(parsed.maxOutputTokens), CHAT_MAX_OUTPUT_TOKENS_RANGE)
+        : tenantModelSettings.maxOutputTokens
+    };
+
+    const llmProvider = getLLMProvider();
+    const messages = prepareMessages(systemPrompt, history, question, modelSettings.historyWindow);
+
+    /**
+     * Log het complete antwoord (zelfde velden als /api/chat) en sla het
+     * eventueel op in de answer cache. Geeft het log ID terug.
+     */
+    const logCompletion = async (
+      answer: string,
+      usage: { inputTokens: number; outputTokens: number; totalTokens: number; totalCost: number }
+    ): Promise<string | null> => {
+      const responseTimeMs = Date.now() - requestStartTime;
+      const totalCost = parseFloat(ragCost.toFixed(6)) + usage.totalCost;
+
+      const summary: RequestSummary = {
+        tenant_id: tenantId,
+        session_id: sessionId,
+        timestamp: new Date(requestStartTime).toISOString(),
+        question,
+        answer,
+        response_time_seconds: parseFloat((responseTimeMs / 1000).toFixed(2)),
+        response_time_ms: responseTimeMs,
+        embedding_tokens: ragTokens,
+        embedding_cost: parseFloat(ragCost.toFixed(6)),
+        openai_input_tokens: usage.inputTokens,
+        openai_output_tokens: usage.outputTokens,
+        openai_total_tokens: usage.totalTokens,
+        openai_cost: usage.totalCost,
+        total_cost: totalCost,
+        snippets_used: citations.length,
+        citations_count: citations.length,
+        conversation_history_length: history.length,
+        language,
+        citations,
+        rag_details: {
+          ...ragDetails,
+          answerCache: cacheDetails,
+          openai: {
+            model: modelSettings.model,
+            temperature: modelSettings.temperature,
+            maxOutputTokens: modelSettings.maxOutputTokens,
+            historyWindow: modelSettings.historyWindow,
+            systemPromptTokens: 0,
+            inputTokens: usage.inputTokens,
+            outputTokens: usage.outputTokens,
+            totalTokens: usage.totalTokens,
+            streamingDurationMs: responseTimeMs - (ragDetails.timing?.totalMs || 0),
+            promptProfileVersion: promptProfile.version
+          },
+          costs: {
+            ...(ragDetails.costs || {}),
+            openai: usage.totalCost,
+            total: totalCost
+          },
+          timing: {
+            ...(ragDetails.timing || {}),
+            openaiMs: responseTimeMs - (ragDetails.timing?.totalMs || 0),
+            totalMs: responseTimeMs
+          }
+        }
+      };
+
+      const logId = await logSuccessfulRequest(summary);
+
+      if (cacheLookup?.embedding && !hasHistory && citations.length > 0) {
+        await storeCachedAnswer({
+          tenantId,
+          language,
+          question,
+          normalizedQuestion: cacheLookup.normalizedQuestion,
+          embedding: cacheLookup.embedding,
+          answer,
+          citations,
+          sourceLogId: logId
+        });
+      }
+
+      return logId;
+    };
+
+    // ========================================
+    // STEP 7a: Non-streaming → JSON
+    // ========================================
+    if (!parsed.stream) {
+      const result = await generateAnswer(llmProvider, messages, language, modelSettings);
+      const logId = await logCompletion(result.answer, result);
+
+      return respondWithAnswer({
+        stream: false,
+        includeUsage: false,
+        completionId,
+        created,
+        model: modelSettings.model,
+        answer: result.answer,
+        citations,
+        logId,
+        cached: false,
+        usage: { inputTokens: result.inputTokens, outputTokens: result.outputTokens }
+      });
+    }
+
+    // ========================================
+    // STEP 7b: Streaming → chat.completion.chunk events
+    // ========================================
+    const sourceStream = await generateStreamingAnswer(llmProvider, messages, language, modelSettings);
+    const encoder = new TextEncoder();
+    const model = modelSettings.model;
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (payload: unknown) => controller.enqueue(encoder.encode(sseData(payload)));
+
+        let fullAnswer = '';
+        let usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, totalCost: 0 };
+        let streamError: string | null = null;
+
+        const parse = createSSEParser(event => {
+          if (event.type === 'content' && typeof event.content === 'string') {
+            fullAnswer += event.content;
+            send(buildChatCompletionChunk({ id: completionId, created, model, delta: { content: event.content } }));
+          } else if (event.type === 'done') {
+            fullAnswer = (event.fullAnswer as string) || fullAnswer;
+            usage = { ...usage, ...(event.usage as typeof usage) };
+          } else if (event.type === 'error') {
+            streamError = (event.message as string) || 'Unknown streaming error';
+          }
+        });
+
+        try {
+          // Eerste chunk: rol + citations (extensie)
+          send(buildChatCompletionChunk({
+            id: completionId,
+            created,
+            model,
+            delta: { role: 'assistant' },
+            extensions: { citations, cached: false }
+          }));
+
+          const reader = sourceStream.getReader();
+          while (true) {
+            const { done, value } = await reader.read();
+            if (value) parse(value);
+            if (done) break;
+          }
+
+          if (streamError) {
+            throw new Error(streamError);
+          }
+
+          const logId = await logCompletion(fullAnswer, usage);
+
+          send(buildChatCompletionChunk({
+            id: completionId,
+            created,
+            model,
+            finishReason: 'stop',
+            extensions: { log_id: logId }
+          }));
+
+          if (parsed.includeUsage) {
+            send(buildChatCompletionChunk({
+              id: completionId,
+              created,
+              model,
+              usage: toCompletionUsage(usage.inputTokens, usage.outputTokens)
+            }));
+          }
+        } catch (error) {
+          console.error('❌ [API v1] Streaming error:', error);
+          logError(error, requestStartTime, question, history, language, tenantId);
+          send(buildApiError((error as Error).message || 'Unknown streaming error', 'server_error'));
+        }
+
+        send('[DONE]');
+        controller.close();
+      }
+    });
+
+    return new Response(stream, { headers: SSE_HEADERS });
+
+  } catch (error) {
+    // ========================================
+    // ERROR HANDLING
+    // ========================================
+    logError(error, requestStartTime, question, history, language, tenantId || undefined);
+
+    if (isContentFilterError(error)) {
+      return NextResponse.json(
+        buildApiError('The question was blocked by the content filter.', 'invalid_request_error', 'content_filter'),
+        { status: 400 }
+      );
+    }
+
+    const { category } = categorizeError(error);
+    return NextResponse.json(
+      buildApiError((error as Error)?.message || 'Unknown error', 'server_error', category),
+      { status: 500 }
+    );
+  }
+}
+
+// ========================================
+// RESPONSE HELPERS
+// ========================================
+
+/**
+ * Stuur een compleet antwoord terug als JSON of als (korte) stream.
+ * Gebruikt voor gecachte en non-streaming antwoorden.
+ */
+function respondWithAnswer(params: {
+  stream: boolean;
+  includeUsage: boolean;
+  completionId: string;
+  created: number;
+  model: string;
+  answer: string;
+  citations: Citation[];
+  logId: string | null;
+  cached: boolean;
+  usage?: { inputTokens: number; outputTokens: number };
+}): Response {
+  const { completionId: id, created, model } = params;
+  const usage = toCompletionUsage(params.usage?.inputTokens || 0, params.usage?.outputTokens || 0);
+
+  if (!params.stream) {
+    return NextResponse.json(buildChatCompletion({
+      id,
+      created,
+      model,
+      answer: params.answer,
+      usage,
+      citations: params.citations,
+      log_id: params.logId,
+      cached: params.cached
+    }));
+  }
+
+  const events: unknown[] = [
+    buildChatCompletionChunk({
+      id, created, model,
+      delta: { role: 'assistant' },
+      extensions: { citations: params.citations, cached: params.cached }
+    }),
+    buildChatCompletionChunk({ id, created, model, delta: { content: params.answer } }),
+    buildChatCompletionChunk({ id, created, model, finishReason: 'stop', extensions: { log_id: params.logId } }),
+    ...(params.includeUsage ? [buildChatCompletionChunk({ id, created, model, usage })] : []),
+    '[DONE]'
+  ];
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(encoder.encode(sseData(event)));
+      }
+      controller.close();
+    }
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
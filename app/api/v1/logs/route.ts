@@ -0,0 +1,55 @@
+/**
+ * ========================================
+ * CHAT LOGS API (v1)
+ * ========================================
+ *
+ * GET /api/v1/logs - Chat logs van de tenant van de API key
+ *
+ * AUTH:
+ * Authorization: Bearer lvt_sk_... (secret key met scope 'logs:read')
+ *
+ * Query params:
+ * - page: Pagina (default 1)
+ * - page_size: Aantal per pagina (default 50, max 200)
+ * - start_date / end_date: ISO datum filters
+ * - language: Taal filter
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getChatLogs } from '@/lib/admin/logs-service';
+import { requireTenantAccess } from '@/lib/shared/auth/api-key-middleware';
+
+const MAX_PAGE_SIZE = 200;
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireTenantAccess(request, { scope: 'logs:read', requireKey: true, secretOnly: true });
+    if (!access.success) {
+      return access.response;
+    }
+
+    const { searchParams } = request.nextUrl;
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('page_size') || '50') || 50));
+
+    const { logs, total, error } = await getChatLogs(access.tenantId, page, pageSize, {
+      startDate: searchParams.get('start_date') || undefined,
+      endDate: searchParams.get('end_date') || undefined,
+      language: searchParams.get('language') || undefined
+    });
+
+    if (error) {
+      return NextResponse.json({ error: 'Kon logs niet ophalen' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      logs,
+      total,
+      page,
+      page_size: pageSize,
+    });
+  } catch (error) {
+    console.error('❌ [Logs API v1] Error:', error);
+    return NextResponse.json({ error: 'Er is een fout opgetreden' }, { status: 500 });
+  }
+}
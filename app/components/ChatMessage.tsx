@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import ReactMarkdown from 'react-markdown';
-import { getPdfUrlForTenant, getPdfUrlByFilenameForTenant, isPdfAvailable } from '@/lib/shared/pdf-urls';
+import { getCitationUrl, getPdfUrlByFilenameForTenant, isPdfAvailable } from '@/lib/shared/pdf-urls';
 import { BRANDING } from '@/lib/shared/branding.config';
 import { useTenant } from '../providers/TenantProvider';
 import { translations } from '../translations';
@@ -14,10 +14,11 @@ interface ChatMessageProps {
   content: string;
   citations?: any[];
   logId?: string | null;
+  sessionId?: string;
   selectedLanguage?: string;
 }
 
-export const ChatMessage = ({ role, content, citations, logId, selectedLanguage = 'nl' }: ChatMessageProps) => {
+export const ChatMessage = ({ role, content, citations, logId, sessionId, selectedLanguage = 'nl' }: ChatMessageProps) => {
   const { tenant } = useTenant();
   const isUser = role === "user";
 
@@ -41,7 +42,7 @@ export const ChatMessage = ({ role, content, citations, logId, selectedLanguage
   const pageLabel = langTexts?.pageLabel || 'Pagina';
   const viewButton = langTexts?.viewButton || 'Bekijken';
 
-  const handlePdfClick = (filename: string, filePath?: string) => {
+  const handlePdfClick = (filename: string, filePath?: string, page?: number, anchor?: string) => {
     // Get tenant ID from context
     const tenantId = tenant?.id;
     if (!tenantId) {
@@ -51,8 +52,14 @@ export const ChatMessage = ({ role, content, citations, logId, selectedLanguage
 
     // Prioriteer storage path (nieuwe methode) over filename (legacy)
     if (filePath) {
-      const pdfUrl = getPdfUrlForTenant(tenantId, filePath);
-      window.open(pdfUrl, '_blank', 'noopener,noreferrer');
+      if (!sessionId) {
+        console.warn('⚠️ [ChatMessage] No session ID available for document link');
+        return;
+      }
+      // Private bucket: de server controleert de sessie en stuurt door naar
+      // een signed URL, op de eerste geciteerde pagina of het sectie anker
+      const documentUrl = getCitationUrl(tenantId, filePath, { sessionId, page, anchor });
+      window.open(documentUrl, '_blank', 'noopener,noreferrer');
     } else if (isPdfAvailable(filename)) {
       const pdfUrl = getPdfUrlByFilenameForTenant(tenantId, filename);
       window.open(pdfUrl, '_blank', 'noopener,noreferrer');
@@ -173,17 +180,25 @@ export const ChatMessage = ({ role, content, citations, logId, selectedLanguage
                   return null;
                 }
 
-                // Map files with their pages and storage path
-                const fileMap = new Map<string, { pages: Set<number>; filePath?: string }>();
+                // Map files with their pages (or sections) and storage path
+                const fileMap = new Map<string, { pages: Set<number>; sections: Map<string, string>; filePath?: string; ocr?: boolean }>();
                 relevantCitations.forEach((citation: any) => {
                   citation.references?.forEach((ref: any) => {
                     const fileName = ref.file?.name || 'Onbekend';
                     const filePath = ref.file?.path;
                     const pages = ref.pages || [];
                     if (!fileMap.has(fileName)) {
-                      fileMap.set(fileName, { pages: new Set(), filePath });
+                      fileMap.set(fileName, { pages: new Set(), sections: new Map(), filePath });
                     }
                     pages.forEach((page: number) => fileMap.get(fileName)!.pages.add(page));
+                    // Gescande bron: waarschuw dat de tekst via OCR herkend is
+                    if (ref.ocr) {
+                      fileMap.get(fileName)!.ocr = true;
+                    }
+                    // Geen pagina's: sectie anker + kop als bronvermelding
+                    if (pages.length === 0 && ref.anchor) {
+                      fileMap.get(fileName)!.sections.set(ref.anchor, ref.section_title || ref.anchor);
+                    }
                     // Update filePath if we get one (in case first reference didn't have it)
                     if (filePath && !fileMap.get(fileName)!.filePath) {
                       fileMap.get(fileName)!.filePath = filePath;
@@ -193,13 +208,14 @@ export const ChatMessage = ({ role, content, citations, logId, selectedLanguage
 
                 return Array.from(fileMap.entries()).map(([fileName, fileInfo], idx) => {
                   const sortedPages = Array.from(fileInfo.pages).sort((a: number, b: number) => a - b);
+                  const sections = Array.from(fileInfo.sections.entries());
                   // Clickable if we have a storage path OR if the filename is available in legacy storage
                   const isClickable = !!fileInfo.filePath || isPdfAvailable(fileName);
 
                   return (
                     <div
                       key={idx}
-                      onClick={() => isClickable && handlePdfClick(fileName, fileInfo.filePath)}
+                      onClick={() => isClickable && handlePdfClick(fileName, fileInfo.filePath, sortedPages[0], sections[0]?.[0])}
                       className={`group relative bg-gradient-to-br from-white to-gray-50
                                  border border-gray-200 rounded-xl p-4 text-xs sm:text-sm
                                  transition-all duration-200 shadow-sm
@@ -215,12 +231,25 @@ export const ChatMessage = ({ role, content, citations, logId, selectedLanguage
                                          ${isClickable ? 'group-hover:text-blue-600' : ''}`}>
                               {fileName}
                             </p>
+                            {fileInfo.ocr && (
+                              <span
+                                className="flex-shrink-0 px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 text-[10px] font-medium"
+                                title={t.ocrHint}
+                              >
+                                {t.ocrLabel}
+                              </span>
+                            )}
                           </div>
                           {sortedPages.length > 0 && (
                             <p className="text-gray-600 text-xs ml-6">
                               {pageLabel} {sortedPages.join(', ')}
                             </p>
                           )}
+                          {sortedPages.length === 0 && sections.length > 0 && (
+                            <p className="text-gray-600 text-xs ml-6 truncate">
+                              § {sections.map(([, title]) => title).join(', ')}
+                            </p>
+                          )}
                         </div>
                         {isClickable && (
                           <div className="flex-shrink-0">
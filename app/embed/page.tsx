@@ -12,7 +12,8 @@
  * - Configureerbaar via URL parameters
  *
  * URL PARAMETERS:
- * - tenant: Tenant ID (verplicht)
+ * - tenant: Tenant ID (verplicht, tenzij key gezet is)
+ * - key: Public API key (lvt_pk_...), verplicht als de tenant een API key vereist
  * - lang: Standaard taal (default: nl)
  * - hideHeader: Header verbergen (default: false)
  * - hidePoweredBy: Powered by verbergen (default: false)
@@ -56,6 +57,7 @@ export default function EmbedPage() {
 
   // URL parameters voor configuratie
   const paramTenant = searchParams.get('tenant');
+  const paramKey = searchParams.get('key');
   const paramLang = searchParams.get('lang') || 'nl';
   const hideHeader = searchParams.get('hideHeader') === 'true';
   const hidePoweredBy = searchParams.get('hidePoweredBy') === 'true';
@@ -109,15 +111,19 @@ export default function EmbedPage() {
     let hasReceivedFirstContent = false;
 
     try {
+      // Met een public key bepaalt de key de tenant
       const response = await fetch('/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          ...(paramKey ? { 'Authorization': `Bearer ${paramKey}` } : {})
+        },
         body: JSON.stringify({
           message: content,
           conversationHistory: messages,
           language: selectedLanguage,
           sessionId: sessionId,
-          tenantId: effectiveTenantId
+          tenantId: paramKey ? undefined : effectiveTenantId
         })
       });
 
@@ -306,6 +312,7 @@ export default function EmbedPage() {
                   content={message.content}
                   citations={message.citations}
                   logId={message.logId}
+                  sessionId={sessionId}
                   selectedLanguage={selectedLanguage}
                 />
               ))}
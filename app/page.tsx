@@ -334,6 +334,7 @@ export default function Home() {
                   content={message.content}
                   citations={message.citations}
                   logId={message.logId}
+                  sessionId={sessionId}
                   selectedLanguage={selectedLanguage}
                 />
               ))}
@@ -4,13 +4,15 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useCustomer } from './components/PortalAuthGuard';
 import { useProducts } from './providers/ProductsProvider';
+import { EXPIRY_WARNING_DAYS, ExpiringDocument } from '@/lib/rag/document-validity';
 
 /**
  * ========================================
  * PORTAL DASHBOARD
  * ========================================
  *
- * Shows customer's products and recent invoices.
+ * Shows customer's products, recent invoices and documents that
+ * expire soon.
  */
 
 interface Invoice {
@@ -28,6 +30,7 @@ export default function PortalDashboard() {
   const { products, isLoading: productsLoading } = useProducts();
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [invoicesLoading, setInvoicesLoading] = useState(true);
+  const [expiringDocuments, setExpiringDocuments] = useState<ExpiringDocument[]>([]);
 
   useEffect(() => {
     async function fetchInvoices() {
@@ -46,6 +49,21 @@ export default function PortalDashboard() {
     fetchInvoices();
   }, []);
 
+  useEffect(() => {
+    async function fetchExpiringDocuments() {
+      try {
+        const res = await fetch('/api/portal/documents/expiring');
+        if (res.ok) {
+          const data = await res.json();
+          setExpiringDocuments(data.documents || []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch expiring documents:', error);
+      }
+    }
+    fetchExpiringDocuments();
+  }, []);
+
   const formatCurrency = (amount: number | null) => {
     if (amount === null) return '-';
     return new Intl.NumberFormat('nl-NL', {
@@ -74,6 +92,46 @@ export default function PortalDashboard() {
         </p>
       </div>
 
+      {/* Expiring Documents Warning */}
+      {expiringDocuments.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-5 mb-10">
+          <div className="flex items-start gap-3">
+            <svg className="w-6 h-6 text-amber-600 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <div className="flex-1 min-w-0">
+              <h2 className="font-semibold text-amber-800">
+                {expiringDocuments.length === 1
+                  ? `1 document verloopt binnen ${EXPIRY_WARNING_DAYS} dagen`
+                  : `${expiringDocuments.length} documenten verlopen binnen ${EXPIRY_WARNING_DAYS} dagen`}
+              </h2>
+              <p className="text-sm text-amber-700 mt-1">
+                Na de einddatum gebruikt de chatbot deze documenten niet meer. Upload een nieuwe versie of pas de geldigheid aan.
+              </p>
+              <ul className="mt-3 space-y-1 text-sm text-amber-800">
+                {expiringDocuments.map((doc) => (
+                  <li key={doc.id} className="flex items-center gap-2">
+                    {doc.tenant_product_id ? (
+                      <Link
+                        href={`/portal/products/${doc.tenant_product_id}/documents`}
+                        className="font-medium hover:underline truncate"
+                      >
+                        {doc.filename}
+                      </Link>
+                    ) : (
+                      <span className="font-medium truncate">{doc.filename}</span>
+                    )}
+                    <span className="ml-auto flex-shrink-0">
+                      {doc.days_left === 0 ? 'verloopt vandaag' : `nog ${doc.days_left} ${doc.days_left === 1 ? 'dag' : 'dagen'}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Products Section */}
       <div className="mb-10">
         <div className="flex items-center justify-between mb-4">
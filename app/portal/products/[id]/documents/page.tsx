@@ -3,6 +3,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
+import { DOCUMENT_UPLOAD_ACCEPT } from '@/lib/rag/document-types';
+import { daysUntil, getValidityStatus } from '@/lib/rag/document-validity';
 
 /**
  * ========================================
@@ -18,6 +20,8 @@ interface Document {
   file_size: number | null;
   processing_status: string;
   total_chunks: number | null;
+  valid_from: string | null;
+  valid_until: string | null;
   created_at: string;
 }
 
@@ -44,6 +48,10 @@ export default function ProductDocumentsPage() {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<string | null>(null);
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [validityId, setValidityId] = useState<string | null>(null);
+  const [validFrom, setValidFrom] = useState('');
+  const [validUntil, setValidUntil] = useState('');
+  const [isSavingValidity, setIsSavingValidity] = useState(false);
 
   const fetchData = useCallback(async () => {
     try {
@@ -137,6 +145,47 @@ export default function ProductDocumentsPage() {
     }
   };
 
+  const openValidity = (doc: Document) => {
+    if (validityId === doc.id) {
+      setValidityId(null);
+      return;
+    }
+    setValidityId(doc.id);
+    setValidFrom(doc.valid_from || '');
+    setValidUntil(doc.valid_until || '');
+  };
+
+  const handleValiditySave = async (docId: string) => {
+    setIsSavingValidity(true);
+    try {
+      const res = await fetch(`/api/portal/products/${productId}/documents?doc_id=${docId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          valid_from: validFrom || null,
+          valid_until: validUntil || null,
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.details || data.error || 'Opslaan mislukt');
+      }
+
+      const data = await res.json();
+      setDocuments((docs) => docs.map((d) => (
+        d.id === docId
+          ? { ...d, valid_from: data.validity.valid_from, valid_until: data.validity.valid_until }
+          : d
+      )));
+      setValidityId(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Opslaan mislukt');
+    } finally {
+      setIsSavingValidity(false);
+    }
+  };
+
   const formatFileSize = (bytes: number | null) => {
     if (!bytes) return '-';
     if (bytes < 1024) return `${bytes} B`;
@@ -152,6 +201,25 @@ export default function ProductDocumentsPage() {
     });
   };
 
+  const getValidityLabel = (doc: Document) => {
+    if (!doc.valid_from && !doc.valid_until) return null;
+
+    const status = getValidityStatus(doc.valid_from, doc.valid_until);
+    if (status === 'expired') {
+      return { label: 'Verlopen', color: 'bg-red-100 text-red-700' };
+    }
+    if (status === 'upcoming') {
+      return { label: `Geldig vanaf ${formatDate(doc.valid_from!)}`, color: 'bg-blue-100 text-blue-700' };
+    }
+    if (status === 'expiring') {
+      return { label: `Verloopt over ${daysUntil(doc.valid_until!)} dagen`, color: 'bg-amber-100 text-amber-700' };
+    }
+    return {
+      label: doc.valid_until ? `Geldig t/m ${formatDate(doc.valid_until)}` : 'Geldig',
+      color: 'bg-gray-100 text-gray-700',
+    };
+  };
+
   if (isLoading) {
     return (
       <div className="max-w-4xl animate-pulse">
@@ -214,7 +282,7 @@ export default function ProductDocumentsPage() {
           Document uploaden
           <input
             type="file"
-            accept=".pdf"
+            accept={DOCUMENT_UPLOAD_ACCEPT}
             onChange={handleUpload}
             disabled={isUploading}
             className="hidden"
@@ -261,7 +329,7 @@ export default function ProductDocumentsPage() {
             Document uploaden
             <input
               type="file"
-              accept=".pdf"
+              accept={DOCUMENT_UPLOAD_ACCEPT}
               onChange={handleUpload}
               disabled={isUploading}
               className="hidden"
@@ -270,73 +338,139 @@ export default function ProductDocumentsPage() {
         </div>
       ) : (
         <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
-          {documents.map((doc) => (
-            <div
-              key={doc.id}
-              className="flex items-center justify-between p-4 hover:bg-gray-50"
-            >
-              <div className="flex items-center gap-4 flex-1 min-w-0">
-                <div className="w-10 h-10 rounded-lg bg-red-50 flex items-center justify-center flex-shrink-0">
-                  <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
-                  </svg>
-                </div>
-                <div className="min-w-0 flex-1">
-                  <p className="font-medium text-gray-900 truncate" title={doc.filename}>
-                    {doc.filename || 'Naamloos document'}
-                  </p>
-                  <div className="flex items-center gap-3 text-sm text-gray-500">
-                    <span>{formatFileSize(doc.file_size)}</span>
-                    <span>•</span>
-                    <span>{doc.total_chunks || 0} chunks</span>
-                    <span>•</span>
-                    <span>{formatDate(doc.created_at)}</span>
+          {documents.map((doc) => {
+            const validity = getValidityLabel(doc);
+
+            return (
+              <div key={doc.id}>
+                <div className="flex items-center justify-between p-4 hover:bg-gray-50">
+                  <div className="flex items-center gap-4 flex-1 min-w-0">
+                    <div className="w-10 h-10 rounded-lg bg-red-50 flex items-center justify-center flex-shrink-0">
+                      <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                      </svg>
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium text-gray-900 truncate" title={doc.filename}>
+                        {doc.filename || 'Naamloos document'}
+                      </p>
+                      <div className="flex items-center gap-3 text-sm text-gray-500">
+                        <span>{formatFileSize(doc.file_size)}</span>
+                        <span>•</span>
+                        <span>{doc.total_chunks || 0} chunks</span>
+                        <span>•</span>
+                        <span>{formatDate(doc.created_at)}</span>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {validity && (
+                      <span
+                        className={`px-2 py-1 text-xs font-medium rounded-full ${validity.color}`}
+                        title="Verlopen documenten worden niet meer gebruikt voor antwoorden"
+                      >
+                        {validity.label}
+                      </span>
+                    )}
+                    <span
+                      className={`px-2 py-1 text-xs font-medium rounded-full ${
+                        doc.processing_status === 'completed'
+                          ? 'bg-green-100 text-green-700'
+                          : doc.processing_status === 'processing'
+                          ? 'bg-yellow-100 text-yellow-700'
+                          : doc.processing_status === 'failed'
+                          ? 'bg-red-100 text-red-700'
+                          : 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      {doc.processing_status === 'completed' ? 'Verwerkt' : doc.processing_status === 'processing' ? 'Verwerken...' : doc.processing_status === 'failed' ? 'Mislukt' : doc.processing_status}
+                    </span>
+                    <a
+                      href={`/api/portal/products/${productId}/documents/${doc.id}/download`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                      title="Document openen"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                      </svg>
+                    </a>
+                    <button
+                      onClick={() => openValidity(doc)}
+                      className={`p-2 transition-colors ${validityId === doc.id ? 'text-blue-600' : 'text-gray-400 hover:text-blue-600'}`}
+                      title="Geldigheid instellen"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => handleDelete(doc.id)}
+                      disabled={deleteId === doc.id}
+                      className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                      title="Verwijderen"
+                    >
+                      {deleteId === doc.id ? (
+                        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-red-600"></div>
+                      ) : (
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      )}
+                    </button>
                   </div>
                 </div>
+
+                {/* Geldigheid bewerken */}
+                {validityId === doc.id && (
+                  <div className="px-4 pb-4">
+                    <div className="bg-gray-50 rounded-lg p-4">
+                      <p className="text-sm text-gray-600 mb-3">
+                        Na de einddatum gebruikt de chatbot dit document niet meer.
+                        Laat een veld leeg als er geen begin- of einddatum is.
+                      </p>
+                      <div className="flex flex-wrap items-end gap-3">
+                        <label className="text-sm text-gray-700">
+                          Geldig vanaf
+                          <input
+                            type="date"
+                            value={validFrom}
+                            onChange={(e) => setValidFrom(e.target.value)}
+                            className="mt-1 block px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </label>
+                        <label className="text-sm text-gray-700">
+                          Geldig t/m
+                          <input
+                            type="date"
+                            value={validUntil}
+                            min={validFrom || undefined}
+                            onChange={(e) => setValidUntil(e.target.value)}
+                            className="mt-1 block px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </label>
+                        <button
+                          onClick={() => handleValiditySave(doc.id)}
+                          disabled={isSavingValidity}
+                          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                          {isSavingValidity ? 'Opslaan...' : 'Opslaan'}
+                        </button>
+                        <button
+                          onClick={() => setValidityId(null)}
+                          className="px-4 py-2 text-gray-600 hover:text-gray-900"
+                        >
+                          Annuleren
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
               </div>
-              <div className="flex items-center gap-2 flex-shrink-0">
-                <span
-                  className={`px-2 py-1 text-xs font-medium rounded-full ${
-                    doc.processing_status === 'completed'
-                      ? 'bg-green-100 text-green-700'
-                      : doc.processing_status === 'processing'
-                      ? 'bg-yellow-100 text-yellow-700'
-                      : doc.processing_status === 'failed'
-                      ? 'bg-red-100 text-red-700'
-                      : 'bg-gray-100 text-gray-700'
-                  }`}
-                >
-                  {doc.processing_status === 'completed' ? 'Verwerkt' : doc.processing_status === 'processing' ? 'Verwerken...' : doc.processing_status === 'failed' ? 'Mislukt' : doc.processing_status}
-                </span>
-                <a
-                  href={`/api/portal/products/${productId}/documents/${doc.id}/download`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
-                  title="Document openen"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                  </svg>
-                </a>
-                <button
-                  onClick={() => handleDelete(doc.id)}
-                  disabled={deleteId === doc.id}
-                  className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
-                  title="Verwijderen"
-                >
-                  {deleteId === doc.id ? (
-                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-red-600"></div>
-                  ) : (
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                    </svg>
-                  )}
-                </button>
-              </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
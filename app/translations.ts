@@ -15,6 +15,8 @@ export const translations = {
     inputPlaceholder: "Stel je vraag...",
     citationsLabel: "Bronnen",
     pageLabel: "Pagina",
+    ocrLabel: "OCR tekst",
+    ocrHint: "Tekst herkend uit een scan, kan fouten bevatten",
     feedbackQuestion: "Was dit nuttig?",
     feedbackThanks: "Bedankt!",
     feedbackModalTitle: "Wat kunnen we verbeteren?",
@@ -39,6 +41,8 @@ export const translations = {
     inputPlaceholder: "Ask your question...",
     citationsLabel: "Sources",
     pageLabel: "Page",
+    ocrLabel: "OCR text",
+    ocrHint: "Text recognised from a scan, may contain errors",
     feedbackQuestion: "Was this helpful?",
     feedbackThanks: "Thank you!",
     feedbackModalTitle: "What can we improve?",
@@ -63,6 +67,8 @@ export const translations = {
     inputPlaceholder: "Stellen Sie Ihre Frage...",
     citationsLabel: "Quellen",
     pageLabel: "Seite",
+    ocrLabel: "OCR-Text",
+    ocrHint: "Aus einem Scan erkannter Text, kann Fehler enthalten",
     feedbackQuestion: "War das hilfreich?",
     feedbackThanks: "Danke!",
     feedbackModalTitle: "Was können wir verbessern?",
@@ -87,6 +93,8 @@ export const translations = {
     inputPlaceholder: "Posez votre question...",
     citationsLabel: "Sources",
     pageLabel: "Page",
+    ocrLabel: "Texte OCR",
+    ocrHint: "Texte reconnu à partir d'un scan, peut contenir des erreurs",
     feedbackQuestion: "Cela vous a-t-il été utile?",
     feedbackThanks: "Merci!",
     feedbackModalTitle: "Que pouvons-nous améliorer?",
@@ -111,6 +119,8 @@ export const translations = {
     inputPlaceholder: "Haga su pregunta...",
     citationsLabel: "Fuentes",
     pageLabel: "Página",
+    ocrLabel: "Texto OCR",
+    ocrHint: "Texto reconocido de un escaneo, puede contener errores",
     feedbackQuestion: "¿Fue esto útil?",
     feedbackThanks: "¡Gracias!",
     feedbackModalTitle: "¿Qué podemos mejorar?",
@@ -135,6 +145,8 @@ export const translations = {
     inputPlaceholder: "Fai la tua domanda...",
     citationsLabel: "Fonti",
     pageLabel: "Pagina",
+    ocrLabel: "Testo OCR",
+    ocrHint: "Testo riconosciuto da una scansione, può contenere errori",
     feedbackQuestion: "È stato utile?",
     feedbackThanks: "Grazie!",
     feedbackModalTitle: "Cosa possiamo migliorare?",
@@ -159,6 +171,8 @@ export const translations = {
     inputPlaceholder: "Zadaj pytanie...",
     citationsLabel: "Źródła",
     pageLabel: "Strona",
+    ocrLabel: "Tekst OCR",
+    ocrHint: "Tekst rozpoznany ze skanu, może zawierać błędy",
     feedbackQuestion: "Czy to było pomocne?",
     feedbackThanks: "Dziękuję!",
     feedbackModalTitle: "Co możemy poprawić?",
@@ -183,6 +197,8 @@ export const translations = {
     inputPlaceholder: "Sorunuzu sorun...",
     citationsLabel: "Kaynaklar",
     pageLabel: "Sayfa",
+    ocrLabel: "OCR metni",
+    ocrHint: "Taranmış belgeden tanınan metin, hata içerebilir",
     feedbackQuestion: "Bu faydalı oldu mu?",
     feedbackThanks: "Teşekkürler!",
     feedbackModalTitle: "Neyi geliştirebiliriz?",
@@ -207,6 +223,8 @@ export const translations = {
     inputPlaceholder: "اطرح سؤالك...",
     citationsLabel: "المصادر",
     pageLabel: "صفحة",
+    ocrLabel: "نص OCR",
+    ocrHint: "نص تم التعرف عليه من مسح ضوئي، قد يحتوي على أخطاء",
     feedbackQuestion: "هل كان هذا مفيداً؟",
     feedbackThanks: "شكراً!",
     feedbackModalTitle: "ما الذي يمكننا تحسينه؟",
@@ -231,6 +249,8 @@ export const translations = {
     inputPlaceholder: "提出您的问题...",
     citationsLabel: "来源",
     pageLabel: "页",
+    ocrLabel: "OCR 文本",
+    ocrHint: "从扫描件识别的文本，可能包含错误",
     feedbackQuestion: "这有帮助吗？",
     feedbackThanks: "谢谢！",
     feedbackModalTitle: "我们可以改进什么？",
@@ -255,6 +275,8 @@ export const translations = {
     inputPlaceholder: "Faça sua pergunta...",
     citationsLabel: "Fontes",
     pageLabel: "Página",
+    ocrLabel: "Texto OCR",
+    ocrHint: "Texto reconhecido de uma digitalização, pode conter erros",
     feedbackQuestion: "Isso foi útil?",
     feedbackThanks: "Obrigado!",
     feedbackModalTitle: "O que podemos melhorar?",
@@ -279,6 +301,8 @@ export const translations = {
     inputPlaceholder: "Pune întrebarea...",
     citationsLabel: "Surse",
     pageLabel: "Pagină",
+    ocrLabel: "Text OCR",
+    ocrHint: "Text recunoscut dintr-o scanare, poate conține erori",
     feedbackQuestion: "A fost util?",
     feedbackThanks: "Mulțumesc!",
     feedbackModalTitle: "Ce putem îmbunătăți?",
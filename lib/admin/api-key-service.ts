@@ -0,0 +1,197 @@
+/**
+ * ========================================
+ * API KEY SERVICE - CRUD Operations
+ * ========================================
+ *
+ * Beheer van tenant API keys (migration 031) vanuit de admin:
+ * - Lijst keys van een tenant (zonder hash)
+ * - Key aanmaken (volledige key wordt één keer teruggegeven)
+ * - Key intrekken
+ *
+ * Resolutie van keys gebeurt in lib/shared/auth/api-keys.ts.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { generateApiKey, hashApiKey } from '@/lib/shared/auth/api-keys';
+import {
+  API_KEY_SCOPES,
+  normalizeOrigin,
+  type ApiKeyScope,
+  type CreateApiKeyInput,
+  type TenantApiKey
+} from '@/lib/shared/auth/api-key-types';
+
+// Kolommen die naar de admin UI gaan (nooit key_hash)
+const API_KEY_COLUMNS = 'id, tenant_id, name, key_type, key_prefix, scopes, allowed_origins, created_by, created_at, last_used_at, revoked_at';
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient | null {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      console.warn('⚠️ [ApiKeyService] Supabase not configured');
+      return null;
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// READ
+// ========================================
+
+/**
+ * Lijst alle keys van een tenant (actief en ingetrokken)
+ */
+export async function listApiKeys(
+  tenantId: string
+): Promise<{ keys: TenantApiKey[]; error?: string }> {
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return { keys: [], error: 'Supabase not configured' };
+  }
+
+  const { data, error } = await supabase
+    .from('tenant_api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('tenant_id', tenantId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('❌ [ApiKeyService] Error listing keys:', error);
+    return { keys: [], error: error.message };
+  }
+
+  return { keys: (data || []) as TenantApiKey[] };
+}
+
+// ========================================
+// CREATE
+// ========================================
+
+/**
+ * Maak een nieuwe key aan.
+ * De volledige key zit alleen in deze response; daarna is alleen de hash bekend.
+ */
+export async function createApiKey(
+  tenantId: string,
+  input: CreateApiKeyInput,
+  createdBy?: string
+): Promise<{ key: TenantApiKey | null; plainKey?: string; error?: string }> {
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return { key: null, error: 'Supabase not configured' };
+  }
+
+  const name = input.name?.trim();
+  if (!name) {
+    return { key: null, error: 'Naam is verplicht' };
+  }
+
+  if (input.key_type !== 'secret' && input.key_type !== 'public') {
+    return { key: null, error: 'Ongeldig key type' };
+  }
+
+  // Public keys: altijd alleen chat, origins verplicht
+  const validScopes = API_KEY_SCOPES.map(s => s.value);
+  const scopes: ApiKeyScope[] = input.key_type === 'public'
+    ? ['chat']
+    : Array.from(new Set((input.scopes || []).filter(s => validScopes.includes(s))));
+
+  if (scopes.length === 0) {
+    return { key: null, error: 'Kies minimaal één scope' };
+  }
+
+  const origins: string[] = [];
+  for (const origin of input.allowed_origins || []) {
+    if (!origin.trim()) continue;
+    const normalized = normalizeOrigin(origin);
+    if (!normalized) {
+      return { key: null, error: `Ongeldige origin: ${origin}` };
+    }
+    if (!origins.includes(normalized)) origins.push(normalized);
+  }
+
+  if (input.key_type === 'public' && origins.length === 0) {
+    return { key: null, error: 'Een public key heeft minimaal één toegestane origin nodig' };
+  }
+
+  try {
+    const { key: plainKey, prefix } = generateApiKey(input.key_type);
+    const keyHash = await hashApiKey(plainKey);
+
+    const { data, error } = await supabase
+      .from('tenant_api_keys')
+      .insert({
+        tenant_id: tenantId,
+        name,
+        key_type: input.key_type,
+        key_prefix: prefix,
+        key_hash: keyHash,
+        scopes,
+        allowed_origins: input.key_type === 'public' ? origins : [],
+        created_by: createdBy || null
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('❌ [ApiKeyService] Create failed:', error);
+      return { key: null, error: error.message };
+    }
+
+    console.log(`🔑 [ApiKeyService] ${input.key_type} key created for ${tenantId}: ${prefix}… (${scopes.join(', ')})`);
+    return { key: data as TenantApiKey, plainKey };
+  } catch (err) {
+    console.error('❌ [ApiKeyService] Unexpected error:', err);
+    return { key: null, error: (err as Error).message };
+  }
+}
+
+// ========================================
+// REVOKE
+// ========================================
+
+/**
+ * Trek een key in. Resolved keys worden in de middleware tot 60 seconden
+ * gecached, dus een ingetrokken key kan nog heel even werken.
+ */
+export async function revokeApiKey(
+  tenantId: string,
+  keyId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return { success: false, error: 'Supabase not configured' };
+  }
+
+  const { data, error } = await supabase
+    .from('tenant_api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', keyId)
+    .eq('tenant_id', tenantId)
+    .is('revoked_at', null)
+    .select('id, key_prefix')
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ [ApiKeyService] Revoke failed:', error);
+    return { success: false, error: error.message };
+  }
+
+  if (!data) {
+    return { success: false, error: 'Key niet gevonden of al ingetrokken' };
+  }
+
+  console.log(`🗑️ [ApiKeyService] Key revoked for ${tenantId}: ${data.key_prefix}…`);
+  return { success: true };
+}
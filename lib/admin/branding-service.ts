@@ -12,6 +12,7 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
+import { getLLMProvider } from '@/lib/bot/providers';
 
 // Re-export types and defaults for backwards compatibility
 export * from './branding-types';
@@ -351,12 +352,10 @@ export async function logBrandingOperation(params: BrandingOperationLog): Promis
 
 /**
  * Bereken de kosten voor een GPT-4o API call
- * Prijzen: $2.50 per 1M input tokens, $10 per 1M output tokens
+ * Prijzen komen van de actieve LLM provider
  */
 export function calculateGPT4oCost(inputTokens: number, outputTokens: number): number {
-  const inputCost = (inputTokens * 2.5) / 1_000_000;
-  const outputCost = (outputTokens * 10) / 1_000_000;
-  return inputCost + outputCost;
+  return getLLMProvider().calculateCost('gpt-4o', inputTokens, outputTokens).totalCost;
 }
 
 /**
@@ -59,6 +59,34 @@ export interface TenantBranding {
   // UI Teksten
   ui_texts: UITexts;
 
+  // AI model (NULL = standaard, zie lib/bot/model-settings.ts)
+  chat_model: string | null;
+  chat_temperature: number | null;
+  chat_max_output_tokens: number | null;
+  chat_history_window: number | null;
+
+  // Zoeken (NULL = standaard, zie lib/rag/search-settings.ts)
+  search_text_config: string | null;
+  search_vector_weight: number | null;
+  search_fulltext_weight: number | null;
+  search_rrf_k: number | null;
+  search_similarity_threshold: number | null;
+  search_keyword_weight: number | null;
+
+  // Answer cache (zie lib/rag/answer-cache-settings.ts)
+  answer_cache_enabled: boolean;
+  answer_cache_threshold: number | null;
+  answer_cache_ttl_hours: number | null;
+
+  // Embed: domeinen die /embed mogen framen (zie lib/shared/embed-origins.ts)
+  embed_allowed_origins: string[];
+
+  // Rate limits & quota's (zie lib/shared/usage-limits-settings.ts)
+  rate_limit_chat_per_minute: number | null;
+  rate_limit_api_per_minute: number | null;
+  monthly_message_quota: number | null;
+  monthly_cost_quota_usd: number | null;
+
   // Meta
   is_active: boolean;
   is_demo: boolean;
@@ -147,6 +175,34 @@ export interface UpdateTenantBrandingInput {
 
   // UI Teksten
   ui_texts?: UITexts;
+
+  // AI model
+  chat_model?: string | null;
+  chat_temperature?: number | null;
+  chat_max_output_tokens?: number | null;
+  chat_history_window?: number | null;
+
+  // Zoeken
+  search_text_config?: string | null;
+  search_vector_weight?: number | null;
+  search_fulltext_weight?: number | null;
+  search_rrf_k?: number | null;
+  search_similarity_threshold?: number | null;
+  search_keyword_weight?: number | null;
+
+  // Answer cache
+  answer_cache_enabled?: boolean;
+  answer_cache_threshold?: number | null;
+  answer_cache_ttl_hours?: number | null;
+
+  // Embed allowed origins
+  embed_allowed_origins?: string[];
+
+  // Rate limits & quota's
+  rate_limit_chat_per_minute?: number | null;
+  rate_limit_api_per_minute?: number | null;
+  monthly_message_quota?: number | null;
+  monthly_cost_quota_usd?: number | null;
 }
 
 // ========================================
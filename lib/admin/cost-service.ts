@@ -115,6 +115,7 @@ export interface TenantCostDetails {
       total: number;
     };
     avg_response_time_ms: number;
+    cache_hits: number;            // Antwoorden uit de answer cache (0 OpenAI kosten)
     last_chat: string | null;
   };
 
@@ -158,6 +159,13 @@ export interface TenantCostDetails {
   total_cost: number;
 }
 
+export interface TenantChatUsage {
+  tenant_id: string;
+  since: string;
+  message_count: number;
+  total_cost: number;
+}
+
 // ========================================
 // SUPABASE CLIENT
 // ========================================
@@ -522,6 +530,7 @@ async function getTenantCostDetailsFallback(tenantId: string): Promise<TenantCos
       avg_response_time_ms: chats.length > 0
         ? chats.reduce((sum, c) => sum + (c.response_time_ms || 0), 0) / chats.length
         : 0,
+      cache_hits: chats.filter(c => c.rag_details?.answerCache?.hit === true).length,
       last_chat: chats.length > 0 ? chats[0].created_at : null
     },
     // QA Tests (v2.3)
@@ -583,3 +592,49 @@ export async function getGlobalCostStats(): Promise<{
     total_chats: tenantCosts.reduce((sum, t) => sum + t.chat_count, 0)
   };
 }
+
+/**
+ * Chat gebruik (aantal berichten + kosten) van een tenant sinds een tijdstip.
+ * Gebruikt door de maandelijkse quota's (lib/shared/quota.ts).
+ *
+ * @throws Error als het gebruik niet opgehaald kan worden
+ */
+export async function getTenantChatUsage(tenantId: string, since: Date): Promise<TenantChatUsage> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase.rpc('get_tenant_chat_usage', {
+    p_tenant_id: tenantId,
+    p_since: since.toISOString()
+  });
+
+  if (!error) {
+    const row = Array.isArray(data) ? data[0] : data;
+    return {
+      tenant_id: tenantId,
+      since: since.toISOString(),
+      message_count: Number(row?.message_count) || 0,
+      total_cost: Number(row?.total_cost) || 0
+    };
+  }
+
+  // Fallback: handmatige aggregatie als de functie nog niet gedeployed is
+  console.warn('⚠️ [CostService] get_tenant_chat_usage not available, using fallback:', error.message);
+
+  const { data: chatLogs, error: logsError } = await supabase
+    .from('chat_logs')
+    .select('total_cost')
+    .eq('tenant_id', tenantId)
+    .gte('created_at', since.toISOString());
+
+  if (logsError) {
+    throw new Error(`Failed to fetch chat usage: ${logsError.message}`);
+  }
+
+  const chats = chatLogs || [];
+  return {
+    tenant_id: tenantId,
+    since: since.toISOString(),
+    message_count: chats.length,
+    total_cost: chats.reduce((sum, c) => sum + (c.total_cost || 0), 0)
+  };
+}
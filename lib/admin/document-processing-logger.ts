@@ -42,6 +42,10 @@ export interface ProcessingUpdateInput {
   metadataTokens?: number;
   metadataCost?: number;
   metadataGenerated?: boolean;
+  // OCR fallback voor gescande PDF's (migration 034)
+  ocrPages?: number;
+  ocrDurationMs?: number;
+  ocrEngine?: string;
 }
 
 // ========================================
@@ -158,6 +162,15 @@ export async function updateProcessingStatus(
     if (update?.metadataGenerated !== undefined) {
       updateData.metadata_generated = update.metadataGenerated;
     }
+    if (update?.ocrPages !== undefined) {
+      updateData.ocr_pages = update.ocrPages;
+    }
+    if (update?.ocrDurationMs !== undefined) {
+      updateData.ocr_duration_ms = update.ocrDurationMs;
+    }
+    if (update?.ocrEngine !== undefined) {
+      updateData.ocr_engine = update.ocrEngine;
+    }
     if (update?.errorMessage) {
       updateData.error_message = update.errorMessage;
     }
@@ -204,6 +217,10 @@ export async function completeDocumentProcessing(
     metadataTokens?: number;
     metadataCost?: number;
     metadataGenerated?: boolean;
+    // Hergebruik bij herverwerken (migration 039)
+    chunksReused?: number;
+    chunksEmbedded?: number;
+    costSaved?: number;
   }
 ): Promise<boolean> {
   const supabase = getSupabaseClient();
@@ -247,6 +264,11 @@ export async function completeDocumentProcessing(
         metadata_cost: result.metadataCost || 0,
         metadata_generated: result.metadataGenerated || false,
         total_cost: totalCost,
+        ...(result.chunksReused !== undefined && {
+          chunks_reused: result.chunksReused,
+          chunks_embedded: result.chunksEmbedded ?? result.chunksCreated - result.chunksReused,
+          cost_saved: result.costSaved || 0
+        }),
         total_duration_ms: totalDurationMs,
         completed_at: completedAt.toISOString()
       })
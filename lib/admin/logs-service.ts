@@ -162,6 +162,12 @@ export interface DocumentProcessingLog {
   chunking_duration_ms?: number;
   embedding_duration_ms?: number;
   metadata_duration_ms?: number;
+  ocr_pages?: number;          // Pagina's met OCR tekst (gescande PDF)
+  ocr_duration_ms?: number;
+  ocr_engine?: string;
+  chunks_reused?: number;      // Herverwerken: chunks met hergebruikte embedding
+  chunks_embedded?: number;
+  cost_saved?: number;
   total_duration_ms?: number;
   error_message?: string;
   error_phase?: string;
@@ -4,12 +4,14 @@
  * ========================================
  *
  * Handles all file upload operations to Supabase Storage:
- * - Logo upload for tenant branding
- * - PDF document upload for RAG processing
- * - File URL generation
+ * - Logo upload for tenant branding (public bucket)
+ * - PDF document upload for RAG processing (private bucket per tenant)
+ * - Signed URLs for documents: only handed out by routes that check the
+ *   tenant and the chat session or admin/portal user
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { resolveDocumentMimeType, SUPPORTED_DOCUMENT_LABEL } from '@/lib/rag/document-types';
 
 // ========================================
 // TYPES
@@ -40,9 +42,12 @@ const DOCUMENTS_BUCKET_PREFIX = 'tenant-documents';
 const MAX_LOGO_SIZE = 2 * 1024 * 1024;        // 2MB
 const MAX_DOCUMENT_SIZE = 50 * 1024 * 1024;   // 50MB
 
+// Geldigheid van signed document URLs (redirect volgt direct)
+export const DOCUMENT_SIGNED_URL_TTL_SECONDS = 300;
+
 // Allowed file types
 const ALLOWED_LOGO_TYPES = ['image/png', 'image/jpeg', 'image/svg+xml', 'image/webp'];
-const ALLOWED_DOCUMENT_TYPES = ['application/pdf'];
+// Documenten: zie SUPPORTED_DOCUMENT_TYPES in lib/rag/document-types.ts
 
 // ========================================
 // SUPABASE CLIENT
@@ -71,15 +76,32 @@ function getSupabaseClient(): SupabaseClient {
 /**
  * Ensure a storage bucket exists (create if not)
  * Exported so tenant-service can create bucket at tenant creation time
+ *
+ * An existing bucket with a different visibility is updated, so legacy
+ * public document buckets become private on the next upload (see also
+ * migration 041_private_document_buckets.sql).
  */
 export async function ensureBucketExists(bucketName: string, isPublic: boolean = true): Promise<boolean> {
   const supabase = getSupabaseClient();
 
   // Check if bucket exists
   const { data: buckets } = await supabase.storage.listBuckets();
-  const bucketExists = buckets?.some(b => b.name === bucketName);
+  const existingBucket = buckets?.find(b => b.name === bucketName);
+
+  if (existingBucket && existingBucket.public !== isPublic) {
+    console.log(`🔒 [Storage] Making bucket ${isPublic ? 'public' : 'private'}: ${bucketName}`);
+    const { error } = await supabase.storage.updateBucket(bucketName, {
+      public: isPublic,
+      fileSizeLimit: existingBucket.file_size_limit ?? MAX_DOCUMENT_SIZE
+    });
+
+    if (error) {
+      console.error(`❌ [Storage] Failed to update bucket: ${error.message}`);
+      return false;
+    }
+  }
 
-  if (!bucketExists) {
+  if (!existingBucket) {
     console.log(`📦 [Storage] Creating bucket: ${bucketName}`);
     const { error } = await supabase.storage.createBucket(bucketName, {
       public: isPublic,
@@ -228,11 +250,12 @@ export async function uploadDocument(
   console.log(`📄 [Storage] Uploading document for tenant: ${tenantId}`);
   console.log(`   File: ${filename}, Size: ${file.length} bytes`);
 
-  // Validate file type
-  if (!ALLOWED_DOCUMENT_TYPES.includes(mimeType)) {
+  // Validate file type (browsers geven niet altijd een bruikbaar MIME type mee)
+  const resolvedMimeType = resolveDocumentMimeType(filename, mimeType);
+  if (!resolvedMimeType) {
     return {
       success: false,
-      error: `Invalid file type. Only PDF files are allowed.`
+      error: `Invalid file type. Allowed: ${SUPPORTED_DOCUMENT_LABEL}.`
     };
   }
 
@@ -245,8 +268,8 @@ export async function uploadDocument(
     };
   }
 
-  // Ensure bucket exists
-  await ensureBucketExists(bucketName, true);
+  // Ensure bucket exists (private: access via signed URLs)
+  await ensureBucketExists(bucketName, false);
 
   // Generate storage path (sanitize filename)
   const sanitizedFilename = filename
@@ -261,7 +284,7 @@ export async function uploadDocument(
     const { data, error } = await supabase.storage
       .from(bucketName)
       .upload(storagePath, fileBuffer, {
-        contentType: mimeType,
+        contentType: resolvedMimeType,
         upsert: true
       });
 
@@ -270,17 +293,11 @@ export async function uploadDocument(
       return { success: false, error: error.message };
     }
 
-    // Get public URL
-    const { data: urlData } = supabase.storage
-      .from(bucketName)
-      .getPublicUrl(storagePath);
-
     console.log('✅ [Storage] Document uploaded:', data.path);
 
     return {
       success: true,
-      path: data.path,
-      publicUrl: urlData.publicUrl
+      path: data.path
     };
 
   } catch (error) {
@@ -339,17 +356,31 @@ export async function listDocuments(tenantId: string): Promise<FileInfo[]> {
 }
 
 /**
- * Get public URL for a document
+ * Create a short-lived signed URL for a document in the tenant's bucket.
+ * Callers must check access first: the URL works for anyone who has it.
+ *
+ * @param download - true or a filename to force a download instead of inline
  */
-export function getDocumentUrl(tenantId: string, filename: string): string {
+export async function createDocumentSignedUrl(
+  tenantId: string,
+  storagePath: string,
+  options: { expiresIn?: number; download?: string | boolean } = {}
+): Promise<{ url: string | null; error?: string }> {
   const supabase = getSupabaseClient();
   const bucketName = getDocumentsBucket(tenantId);
 
-  const { data } = supabase.storage
+  const { data, error } = await supabase.storage
     .from(bucketName)
-    .getPublicUrl(`documents/${filename}`);
+    .createSignedUrl(storagePath, options.expiresIn ?? DOCUMENT_SIGNED_URL_TTL_SECONDS, {
+      download: options.download
+    });
+
+  if (error || !data?.signedUrl) {
+    console.error(`❌ [Storage] Signed URL failed for ${bucketName}/${storagePath}:`, error?.message);
+    return { url: null, error: error?.message || 'Signed URL could not be created' };
+  }
 
-  return data.publicUrl;
+  return { url: data.signedUrl };
 }
 
 // ========================================
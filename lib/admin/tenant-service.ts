@@ -159,7 +159,7 @@ export async function createTenant(input: TenantCreateInput): Promise<{ success:
     // Automatically create the storage bucket for this tenant
     const bucketName = getDocumentsBucket(input.id);
     console.log(`📦 [TenantService] Creating storage bucket: ${bucketName}`);
-    const bucketCreated = await ensureBucketExists(bucketName, true);
+    const bucketCreated = await ensureBucketExists(bucketName, false);
 
     if (!bucketCreated) {
       console.warn(`⚠️ [TenantService] Failed to create bucket ${bucketName}, but tenant was created`);
@@ -3,16 +3,14 @@
  * TRANSLATION SERVICE
  * ========================================
  * Vertaalt UI teksten van Nederlands naar andere talen
- * met behulp van OpenAI GPT-4o.
+ * met behulp van GPT-4o (via de actieve LLM provider).
  */
 
-import OpenAI from 'openai';
+import { getLLMProvider } from '@/lib/bot/providers';
 import { LanguageTexts, UITexts } from './branding-service';
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
+// Model voor vertalingen en fun facts
+const TRANSLATION_MODEL = 'gpt-4o';
 
 // ========================================
 // SUPPORTED LANGUAGES
@@ -97,8 +95,8 @@ ${JSON.stringify(dutchTexts, null, 2)}
 Geef je antwoord als valide JSON in EXACT dezelfde structuur.`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const response = await getLLMProvider().chat({
+      model: TRANSLATION_MODEL,
       messages: [
         {
           role: 'system',
@@ -110,10 +108,11 @@ Geef je antwoord als valide JSON in EXACT dezelfde structuur.`;
         }
       ],
       temperature: 0.3, // Lager voor consistentere vertalingen
-      response_format: { type: 'json_object' }
+      responseFormat: 'json_object',
+      purpose: 'ui-translation'
     });
 
-    const content = response.choices[0]?.message?.content;
+    const content = response.content;
     if (!content) {
       throw new Error('Empty response from OpenAI');
     }
@@ -196,8 +195,8 @@ ${documentText.substring(0, 10000)} // Limit to first 10k chars
 Geef je antwoord als JSON array met alleen de fact teksten (zonder "Wist je dat" prefix).`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const response = await getLLMProvider().chat({
+      model: TRANSLATION_MODEL,
       messages: [
         {
           role: 'system',
@@ -209,10 +208,11 @@ Geef je antwoord als JSON array met alleen de fact teksten (zonder "Wist je dat"
         }
       ],
       temperature: 0.5,
-      response_format: { type: 'json_object' }
+      responseFormat: 'json_object',
+      purpose: 'fun-facts'
     });
 
-    const content = response.choices[0]?.message?.content;
+    const content = response.content;
     if (!content) {
       throw new Error('Empty response from OpenAI');
     }
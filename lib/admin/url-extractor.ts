@@ -81,7 +81,12 @@ async function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-async function fetchWithRetry(
+/**
+ * Fetch met browser headers, timeout en retries (429/502/503).
+ * Gooit { error, errorType } als het niet lukt; ook gebruikt door de
+ * website crawler (lib/rag/web-crawler.ts).
+ */
+export async function fetchWithRetry(
   url: string,
   maxRetries: number = 3
 ): Promise<{ response: Response; errorType?: ExtractionResult['error_type'] }> {
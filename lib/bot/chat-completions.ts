@@ -0,0 +1,229 @@
+/**
+ * ========================================
+ * OPENAI-COMPATIBLE CHAT COMPLETIONS
+ * ========================================
+ *
+ * Request parsing en response builders voor /api/v1/chat/completions.
+ * Integraties (Teams bots, Slack apps, intranet backends) kunnen zo een
+ * standaard OpenAI client gebruiken in plaats van ons eigen SSE formaat.
+ *
+ * Extensies op het OpenAI formaat:
+ * - request:  language, session_id
+ * - response: citations, log_id, cached
+ *
+ * Bevat alleen types en pure functies; de flow zit in de route.
+ */
+
+import type { Citation } from '@/lib/rag/types';
+import type { ConversationMessage } from '@/lib/rag/conversation-context';
+
+// ========================================
+// TYPES
+// ========================================
+
+type ContentPart = { type: string; text?: string };
+
+export interface ChatCompletionRequestMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool' | 'developer';
+  content: string | ContentPart[] | null;
+}
+
+export interface ChatCompletionRequest {
+  model?: string;
+  messages: ChatCompletionRequestMessage[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  temperature?: number;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  user?: string;
+  // Extensies
+  language?: string;
+  session_id?: string;
+}
+
+export interface ParsedChatCompletionRequest {
+  question: string;
+  history: ConversationMessage[];      // Eerdere user/assistant berichten
+  stream: boolean;
+  includeUsage: boolean;
+  temperature?: number;
+  maxOutputTokens?: number;
+  language?: string;
+  sessionId?: string;
+}
+
+export interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ChatCompletionExtensions {
+  citations: Citation[];
+  log_id: string | null;
+  cached: boolean;
+}
+
+// ========================================
+// REQUEST PARSING
+// ========================================
+
+function contentToText(content: ChatCompletionRequestMessage['content']): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+
+  return content
+    .filter(part => part && part.type === 'text' && typeof part.text === 'string')
+    .map(part => part.text)
+    .join('\n');
+}
+
+/**
+ * Valideer en vertaal een OpenAI request naar onze chat input.
+ *
+ * - Het laatste bericht moet van de user zijn: dat is de vraag
+ * - Eerdere user/assistant berichten worden de conversation history
+ * - System/developer berichten van de client worden genegeerd:
+ *   de system prompt komt altijd van de tenant (prompt profiel + context)
+ */
+export function parseChatCompletionRequest(
+  body: unknown
+): { request: ParsedChatCompletionRequest | null; error?: string } {
+  if (!body || typeof body !== 'object') {
+    return { request: null, error: 'Request body must be a JSON object' };
+  }
+
+  const input = body as ChatCompletionRequest;
+
+  if (!Array.isArray(input.messages) || input.messages.length === 0) {
+    return { request: null, error: "'messages' must be a non-empty array" };
+  }
+
+  const last = input.messages[input.messages.length - 1];
+  if (!last || last.role !== 'user') {
+    return { request: null, error: "The last message must have role 'user'" };
+  }
+
+  const question = contentToText(last.content).trim();
+  if (!question) {
+    return { request: null, error: 'The last user message has no text content' };
+  }
+
+  const history: ConversationMessage[] = input.messages
+    .slice(0, -1)
+    .filter(msg => msg && (msg.role === 'user' || msg.role === 'assistant'))
+    .map(msg => ({ role: msg.role as 'user' | 'assistant', content: contentToText(msg.content) }))
+    .filter(msg => msg.content.trim().length > 0);
+
+  if (input.temperature !== undefined && typeof input.temperature !== 'number') {
+    return { request: null, error: "'temperature' must be a number" };
+  }
+
+  const maxTokens = input.max_completion_tokens ?? input.max_tokens;
+  if (maxTokens !== undefined && (typeof maxTokens !== 'number' || maxTokens <= 0)) {
+    return { request: null, error: "'max_tokens' must be a positive number" };
+  }
+
+  return {
+    request: {
+      question,
+      history,
+      stream: input.stream === true,
+      includeUsage: input.stream_options?.include_usage === true,
+      temperature: input.temperature,
+      maxOutputTokens: maxTokens,
+      language: typeof input.language === 'string' ? input.language : undefined,
+      sessionId: typeof input.session_id === 'string'
+        ? input.session_id
+        : typeof input.user === 'string' ? input.user : undefined
+    }
+  };
+}
+
+// ========================================
+// RESPONSE BUILDERS
+// ========================================
+
+export function createCompletionId(): string {
+  return `chatcmpl-${crypto.randomUUID().replace(/-/g, '')}`;
+}
+
+export function toCompletionUsage(inputTokens: number, outputTokens: number): CompletionUsage {
+  return {
+    prompt_tokens: inputTokens,
+    completion_tokens: outputTokens,
+    total_tokens: inputTokens + outputTokens
+  };
+}
+
+/**
+ * Volledig (non-streaming) chat.completion object
+ */
+export function buildChatCompletion(params: {
+  id: string;
+  created: number;
+  model: string;
+  answer: string;
+  usage: CompletionUsage;
+} & ChatCompletionExtensions) {
+  return {
+    id: params.id,
+    object: 'chat.completion' as const,
+    created: params.created,
+    model: params.model,
+    choices: [{
+      index: 0,
+      message: { role: 'assistant' as const, content: params.answer },
+      finish_reason: 'stop' as const
+    }],
+    usage: params.usage,
+    citations: params.citations,
+    log_id: params.log_id,
+    cached: params.cached
+  };
+}
+
+/**
+ * Eén chat.completion.chunk (streaming)
+ */
+export function buildChatCompletionChunk(params: {
+  id: string;
+  created: number;
+  model: string;
+  delta?: { role?: 'assistant'; content?: string };
+  finishReason?: 'stop' | null;
+  usage?: CompletionUsage;
+  extensions?: Partial<ChatCompletionExtensions>;
+}) {
+  return {
+    id: params.id,
+    object: 'chat.completion.chunk' as const,
+    created: params.created,
+    model: params.model,
+    // Usage chunk heeft (net als bij OpenAI) een lege choices array
+    choices: params.delta || params.finishReason !== undefined
+      ? [{ index: 0, delta: params.delta || {}, finish_reason: params.finishReason ?? null }]
+      : [],
+    ...(params.usage ? { usage: params.usage } : {}),
+    ...(params.extensions || {})
+  };
+}
+
+/**
+ * OpenAI-style error body
+ */
+export function buildApiError(
+  message: string,
+  type: 'invalid_request_error' | 'authentication_error' | 'permission_error' | 'rate_limit_error' | 'server_error',
+  code?: string
+) {
+  return { error: { message, type, code: code || null } };
+}
+
+/**
+ * Encodeer een SSE data regel
+ */
+export function sseData(payload: unknown): string {
+  return `data: ${typeof payload === 'string' ? payload : JSON.stringify(payload)}\n\n`;
+}
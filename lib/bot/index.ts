@@ -4,7 +4,8 @@
  * ========================================
  *
  * Dit module bevat generieke LLM functionaliteit:
- * - OpenAI LLM integratie (streaming responses)
+ * - LLM integratie (streaming responses)
+ * - LLM provider abstractie (OpenAI, Azure OpenAI, OpenAI-compatible, stub)
  *
  * Product-specifieke prompts staan in lib/products/[product]/prompts.ts
  * Bijvoorbeeld: lib/products/hr-bot/prompts.ts
@@ -14,12 +15,31 @@
  * - lib/products/hr-bot/qa/executor.ts (QA testing)
  */
 
-// OpenAI LLM integratie
+// LLM integratie
 export {
-  initializeOpenAI,
   prepareMessages,
   generateAnswer,
   generateStreamingAnswer,
   type ConversationMessage,
   type OpenAIResponse
 } from './openai';
+
+// Per-tenant chat model settings
+export {
+  DEFAULT_CHAT_MODEL_SETTINGS,
+  SUPPORTED_CHAT_MODELS,
+  resolveChatModelSettings,
+  type ChatModelSettings,
+  type TenantModelSettingsColumns
+} from './model-settings';
+
+// LLM providers
+export {
+  getLLMProvider,
+  setLLMProvider,
+  getMissingProviderConfig,
+  type LLMProvider,
+  type LLMPurpose,
+  type ChatCompletionRequest,
+  type ChatCompletionResult
+} from './providers';
@@ -0,0 +1,101 @@
+/**
+ * ========================================
+ * CHAT MODEL SETTINGS
+ * ========================================
+ *
+ * Per-tenant instellingen voor het chat model:
+ * - Model (bijv. gpt-4o, gpt-4o-mini)
+ * - Temperature
+ * - Max output tokens
+ * - History window (aantal eerdere berichten dat meegaat)
+ *
+ * De waardes staan op de tenants tabel (chat_model, chat_temperature,
+ * chat_max_output_tokens, chat_history_window). NULL = standaard waarde.
+ *
+ * Dit bestand kan veilig op zowel client als server geïmporteerd worden.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface ChatModelSettings {
+  model: string;
+  temperature: number;
+  maxOutputTokens: number | null;   // null = geen limiet (model default)
+  historyWindow: number;            // Aantal berichten (niet Q&A paren)
+}
+
+/**
+ * Ruwe kolommen zoals ze op de tenants rij staan
+ */
+export interface TenantModelSettingsColumns {
+  chat_model?: string | null;
+  chat_temperature?: number | null;
+  chat_max_output_tokens?: number | null;
+  chat_history_window?: number | null;
+}
+
+// ========================================
+// DEFAULTS & LIMITS
+// ========================================
+
+export const DEFAULT_CHAT_MODEL_SETTINGS: ChatModelSettings = {
+  model: 'gpt-4o',
+  temperature: 0.7,
+  maxOutputTokens: null,
+  historyWindow: 10   // 5 Q&A paren
+};
+
+export const CHAT_TEMPERATURE_RANGE = { min: 0, max: 2 };
+export const CHAT_HISTORY_WINDOW_RANGE = { min: 0, max: 50 };
+export const CHAT_MAX_OUTPUT_TOKENS_RANGE = { min: 64, max: 16384 };
+
+// ========================================
+// MODELLEN
+// ========================================
+// Prijzen komen van de LLM provider (lib/bot/providers/pricing.ts)
+
+export const SUPPORTED_CHAT_MODELS: { value: string; label: string }[] = [
+  { value: 'gpt-4o', label: 'GPT-4o (standaard)' },
+  { value: 'gpt-4o-mini', label: 'GPT-4o mini (goedkoper, sneller)' },
+  { value: 'gpt-4.1', label: 'GPT-4.1' },
+  { value: 'gpt-4.1-mini', label: 'GPT-4.1 mini' }
+];
+
+// ========================================
+// HELPERS
+// ========================================
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.min(range.max, Math.max(range.min, value));
+}
+
+/**
+ * Zet de tenant kolommen om naar geldige model settings.
+ * Waardes buiten bereik worden begrensd, lege waardes vallen terug op de defaults.
+ * Het model wordt niet gevalideerd: bij een OpenAI-compatible provider
+ * kan elk model beschikbaar zijn.
+ */
+export function resolveChatModelSettings(
+  columns: TenantModelSettingsColumns | null | undefined
+): ChatModelSettings {
+  const defaults = DEFAULT_CHAT_MODEL_SETTINGS;
+  if (!columns) return { ...defaults };
+
+  const model = columns.chat_model?.trim() || defaults.model;
+
+  const temperature = typeof columns.chat_temperature === 'number'
+    ? clamp(Number(columns.chat_temperature), CHAT_TEMPERATURE_RANGE)
+    : defaults.temperature;
+
+  const maxOutputTokens = typeof columns.chat_max_output_tokens === 'number'
+    ? clamp(Math.round(columns.chat_max_output_tokens), CHAT_MAX_OUTPUT_TOKENS_RANGE)
+    : defaults.maxOutputTokens;
+
+  const historyWindow = typeof columns.chat_history_window === 'number'
+    ? clamp(Math.round(columns.chat_history_window), CHAT_HISTORY_WINDOW_RANGE)
+    : defaults.historyWindow;
+
+  return { model, temperature, maxOutputTokens, historyWindow };
+}
@@ -4,16 +4,18 @@
  * ========================================
  *
  * Dit bestand bevat alle logica voor het genereren van antwoorden
- * via OpenAI's GPT-4o model.
+ * via de actieve LLM provider (zie lib/bot/providers).
+ * Model per tenant instelbaar, default GPT-4o.
  *
- * OpenAI GPT-4o:
- * - Leest de context uit Pinecone
+ * Het model:
+ * - Leest de context uit Supabase RAG
  * - Leest de conversatie geschiedenis
  * - Genereert een antwoord gebaseerd op ALLEEN de context
  * - Detecteert automatisch de taal van de vraag
  */
 
-import OpenAI from 'openai';
+import { ChatModelSettings, DEFAULT_CHAT_MODEL_SETTINGS } from './model-settings';
+import type { LLMProvider, LLMMessage, ChatStreamEvent } from './providers';
 
 // ========================================
 // TYPES & INTERFACES
@@ -35,30 +37,11 @@ export interface OpenAIResponse {
   inputTokens: number;         // Tokens gebruikt voor input (prompt + history + context)
   outputTokens: number;        // Tokens gebruikt voor output (het antwoord)
   totalTokens: number;         // Totaal aantal tokens
-  inputCost: number;           // Kosten voor input ($2.50 per 1M tokens)
-  outputCost: number;          // Kosten voor output ($10 per 1M tokens)
+  inputCost: number;           // Kosten voor input (pricing van de provider)
+  outputCost: number;          // Kosten voor output (pricing van de provider)
   totalCost: number;           // Totale OpenAI kosten voor deze request
 }
 
-// ========================================
-// OPENAI CLIENT
-// ========================================
-
-/**
- * Initialiseert de OpenAI client
- *
- * @param apiKey - OpenAI API key uit environment variabelen
- * @returns OpenAI client instance
- * @throws Error als API key ontbreekt
- */
-export function initializeOpenAI(apiKey: string): OpenAI {
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY is not configured');
-  }
-
-  return new OpenAI({ apiKey });
-}
-
 // ========================================
 // MESSAGE PREPARATION
 // ========================================
@@ -68,18 +51,20 @@ export function initializeOpenAI(apiKey: string): OpenAI {
  *
  * Dit combineert:
  * 1. System prompt (met context en instructies)
- * 2. Conversatie geschiedenis (eerdere vragen en antwoorden) - BEPERKT TOT LAATSTE 10 BERICHTEN
+ * 2. Conversatie geschiedenis (eerdere vragen en antwoorden) - BEPERKT TOT HISTORY WINDOW
  * 3. Huidige vraag van de gebruiker
  *
  * @param systemPrompt - De system prompt met context en instructies
  * @param conversationHistory - Eerdere messages in het gesprek
  * @param currentMessage - De huidige vraag van de gebruiker
+ * @param historyWindow - Max aantal history berichten (tenant setting, default 10)
  * @returns Array van messages voor OpenAI
  */
 export function prepareMessages(
   systemPrompt: string,
   conversationHistory: any[],
-  currentMessage: string
+  currentMessage: string,
+  historyWindow: number = DEFAULT_CHAT_MODEL_SETTINGS.historyWindow
 ): ConversationMessage[] {
   // Clean de conversation history (verwijder citation info, etc.)
   const cleanedHistory = (conversationHistory || []).map((msg: any) => ({
@@ -87,12 +72,11 @@ export function prepareMessages(
     content: msg.content
   }));
 
-  // OPTIMALISATIE: Beperk history tot laatste 10 berichten (5 Q&A pairs)
+  // OPTIMALISATIE: Beperk history tot de laatste N berichten (default 10 = 5 Q&A pairs)
   // Dit maakt de bot sneller en goedkoper zonder context te verliezen
-  const MAX_HISTORY_MESSAGES = 10;
-  const limitedHistory = cleanedHistory.slice(-MAX_HISTORY_MESSAGES);
+  const limitedHistory = historyWindow > 0 ? cleanedHistory.slice(-historyWindow) : [];
 
-  if (cleanedHistory.length > MAX_HISTORY_MESSAGES) {
+  if (cleanedHistory.length > limitedHistory.length) {
     console.log(`📊 [OpenAI] History limited: ${cleanedHistory.length} → ${limitedHistory.length} messages (saved ~${(cleanedHistory.length - limitedHistory.length) * 150} tokens)`);
   }
 
@@ -109,39 +93,43 @@ export function prepareMessages(
 // ========================================
 
 /**
- * Vraagt OpenAI GPT-4o om een antwoord te genereren (NON-STREAMING versie)
+ * Vraagt OpenAI om een antwoord te genereren (NON-STREAMING versie)
  *
  * Deze functie:
- * 1. Stuurt alle messages naar GPT-4o
- * 2. Gebruikt temperature 0.7 (balans tussen creativiteit en consistentie)
- * 3. Berekent de kosten van input en output tokens
+ * 1. Stuurt alle messages naar het model uit de tenant settings (default GPT-4o)
+ * 2. Gebruikt de tenant temperature (default 0.7) en max output tokens
+ * 3. Berekent de kosten van input en output tokens op basis van het model
  * 4. Logt alle usage informatie
  *
- * @param openaiClient - Geïnitialiseerde OpenAI client
+ * @param provider - De LLM provider (getLLMProvider())
  * @param messages - Alle messages (system, history, current)
  * @param language - De geselecteerde taal (voor logging)
+ * @param settings - Chat model settings van de tenant
  * @returns OpenAI response met antwoord en cost info
  */
 export async function generateAnswer(
-  openaiClient: OpenAI,
+  provider: LLMProvider,
   messages: ConversationMessage[],
-  language: string
+  language: string,
+  settings: ChatModelSettings = DEFAULT_CHAT_MODEL_SETTINGS
 ): Promise<OpenAIResponse> {
   console.log('\n💭 [OpenAI] ========== CALLING OPENAI ==========');
-  console.log('🤖 [OpenAI] Model: GPT-4o');
+  console.log(`🤖 [OpenAI] Model: ${settings.model} (temperature ${settings.temperature})`);
   console.log('📨 [OpenAI] Conversation history messages:', messages.length - 2); // -2 voor system en current
   console.log('🌐 [OpenAI] User selected language:', language);
   console.log('🗣️  [OpenAI] AI will auto-detect question language and respond in same language');
 
-  // Call OpenAI API
-  const completion = await openaiClient.chat.completions.create({
-    model: 'gpt-4o',
-    messages: messages as any,
-    temperature: 0.7,  // Balans tussen creativiteit (1.0) en strikte precisie (0.0)
+  // Call LLM provider
+  const completion = await provider.chat({
+    model: settings.model,
+    messages: messages as LLMMessage[],
+    temperature: settings.temperature,  // Balans tussen creativiteit (1.0) en strikte precisie (0.0)
+    maxOutputTokens: settings.maxOutputTokens,
+    purpose: 'chat'
   });
 
   // Extract het antwoord
-  const answer = completion.choices[0].message.content || '';
+  const answer = completion.content;
 
   console.log('\n✅ [OpenAI] ========== ASSISTANT ANSWER ==========');
   console.log('💬 [OpenAI] Answer:', answer);
@@ -149,19 +137,14 @@ export async function generateAnswer(
 
   // Log token usage
   console.log('\n💰 [OpenAI] ========== TOKEN USAGE ==========');
-  const inputTokens = completion.usage?.prompt_tokens || 0;
-  const outputTokens = completion.usage?.completion_tokens || 0;
-  const totalTokens = completion.usage?.total_tokens || 0;
+  const { inputTokens, outputTokens, totalTokens } = completion.usage;
 
   console.log('🔢 [OpenAI] Input tokens:', inputTokens);
   console.log('🔢 [OpenAI] Output tokens:', outputTokens);
   console.log('🔢 [OpenAI] Total tokens:', totalTokens);
 
-  // Bereken kosten
-  // GPT-4o pricing: $2.50 per 1M input tokens, $10 per 1M output tokens
-  const inputCost = (inputTokens / 1000000) * 2.50;
-  const outputCost = (outputTokens / 1000000) * 10;
-  const totalCost = inputCost + outputCost;
+  // Kosten komen van de provider (op basis van het gebruikte model)
+  const { inputCost, outputCost, totalCost } = completion.cost;
 
   console.log('💵 [OpenAI] Input cost: $' + inputCost.toFixed(6));
   console.log('💵 [OpenAI] Output cost: $' + outputCost.toFixed(6));
@@ -179,37 +162,41 @@ export async function generateAnswer(
 }
 
 /**
- * Genereert een streaming antwoord van OpenAI GPT-4o
+ * Genereert een streaming antwoord van OpenAI
  *
  * Dit is de STREAMING versie die tokens real-time stuurt naar de frontend.
  * Voordeel: Gebruiker ziet antwoord woord-voor-woord verschijnen (veel snellere UX).
  *
- * @param openaiClient - Geïnitialiseerde OpenAI client
+ * @param provider - De LLM provider (getLLMProvider())
  * @param messages - Alle messages (system, history, current)
  * @param language - De geselecteerde taal (voor logging)
+ * @param settings - Chat model settings van de tenant
  * @returns ReadableStream voor streaming response
  */
 export async function generateStreamingAnswer(
-  openaiClient: OpenAI,
+  provider: LLMProvider,
   messages: ConversationMessage[],
-  language: string
+  language: string,
+  settings: ChatModelSettings = DEFAULT_CHAT_MODEL_SETTINGS
 ): Promise<ReadableStream> {
   console.log('\n💭 [OpenAI] ========== CALLING OPENAI (STREAMING) ==========');
-  console.log('🤖 [OpenAI] Model: GPT-4o');
+  console.log(`🤖 [OpenAI] Model: ${settings.model} (temperature ${settings.temperature})`);
   console.log('🌊 [OpenAI] Streaming: ENABLED');
   console.log('📨 [OpenAI] Conversation history messages:', messages.length - 2);
   console.log('🌐 [OpenAI] User selected language:', language);
 
-  // Call OpenAI API met streaming
-  const stream = await openaiClient.chat.completions.create({
-    model: 'gpt-4o',
-    messages: messages as any,
-    temperature: 0.7,
-    stream: true,  // ENABLE STREAMING!
-    stream_options: {
-      include_usage: true  // Krijg usage tokens in laatste chunk
-    }
-  });
+  // Call LLM provider met streaming (usage komt als laatste event)
+  const stream = provider.streamChat({
+    model: settings.model,
+    messages: messages as LLMMessage[],
+    temperature: settings.temperature,
+    maxOutputTokens: settings.maxOutputTokens,
+    purpose: 'chat'
+  })[Symbol.asyncIterator]();
+
+  // Haal het eerste event al op: verbindings- en content filter errors
+  // komen zo direct bij de caller terecht in plaats van in de stream
+  let pending: IteratorResult<ChatStreamEvent> = await stream.next();
 
   // Create een ReadableStream voor de response
   const encoder = new TextEncoder();
@@ -220,32 +207,32 @@ export async function generateStreamingAnswer(
   return new ReadableStream({
     async start(controller) {
       try {
-        for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content || '';
+        while (!pending.done) {
+          const event = pending.value;
 
-          if (content) {
-            fullAnswer += content;
+          if (event.type === 'content') {
+            fullAnswer += event.content;
 
             // Stuur chunk naar frontend in Server-Sent Events formaat
             const data = JSON.stringify({
               type: 'content',
-              content: content
+              content: event.content
             });
             controller.enqueue(encoder.encode(`data: ${data}\n\n`));
           }
 
-          // Check voor usage info (komt in laatste chunk)
-          if (chunk.usage) {
-            inputTokens = chunk.usage.prompt_tokens || 0;
-            outputTokens = chunk.usage.completion_tokens || 0;
+          // Usage info (komt in laatste event)
+          if (event.type === 'usage') {
+            inputTokens = event.usage.inputTokens;
+            outputTokens = event.usage.outputTokens;
           }
+
+          pending = await stream.next();
         }
 
         // Stream is klaar - stuur final metrics
         const totalTokens = inputTokens + outputTokens;
-        const inputCost = (inputTokens / 1000000) * 2.50;
-        const outputCost = (outputTokens / 1000000) * 10;
-        const totalCost = inputCost + outputCost;
+        const { inputCost, outputCost, totalCost } = provider.calculateCost(settings.model, inputTokens, outputTokens);
 
         console.log('\n✅ [OpenAI] ========== STREAMING COMPLETED ==========');
         console.log('💬 [OpenAI] Full answer length:', fullAnswer.length, 'characters');
@@ -0,0 +1,160 @@
+/**
+ * ========================================
+ * LLM PROVIDER REGISTRY
+ * ========================================
+ *
+ * Centrale plek om de actieve LLM provider op te halen.
+ * Alle LLM call sites gebruiken getLLMProvider() in plaats van
+ * een eigen `new OpenAI(...)` client.
+ *
+ * CONFIGURATIE (environment):
+ * - LLM_PROVIDER: openai (default) | azure | openai-compatible | stub
+ * - openai:            OPENAI_API_KEY
+ * - azure:             AZURE_OPENAI_API_KEY, AZURE_OPENAI_ENDPOINT,
+ *                      AZURE_OPENAI_API_VERSION (default 2024-10-21),
+ *                      AZURE_OPENAI_DEPLOYMENTS (JSON: {"gpt-4o":"my-gpt4o-deployment"})
+ * - openai-compatible: LLM_BASE_URL, LLM_API_KEY (optioneel)
+ * - LLM_PRICING:       JSON met prijs overrides per model (per 1M tokens)
+ *
+ * GEBRUIK:
+ * ```typescript
+ * const provider = getLLMProvider();
+ * const result = await provider.chat({ model: 'gpt-4o-mini', messages, purpose: 'chunk-metadata' });
+ * console.log(result.content, result.cost.totalCost);
+ * ```
+ */
+
+import type { LLMProvider, LLMProviderName } from './types';
+import {
+  createOpenAIProvider,
+  createAzureOpenAIProvider,
+  createOpenAICompatibleProvider
+} from './openai-provider';
+import { createStubProvider } from './stub-provider';
+import { parsePricingOverrides } from './pricing';
+
+export * from './types';
+export { OPENAI_PRICING, calculateCostFromPricing } from './pricing';
+export { OpenAIProvider } from './openai-provider';
+export { StubProvider } from './stub-provider';
+
+// ========================================
+// CONFIGURATION
+// ========================================
+
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+function getConfiguredProviderName(): LLMProviderName {
+  const name = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+
+  if (name === 'openai' || name === 'azure' || name === 'openai-compatible' || name === 'stub') {
+    return name;
+  }
+
+  console.warn(`⚠️ [LLMProvider] Unknown LLM_PROVIDER "${name}", falling back to openai`);
+  return 'openai';
+}
+
+/**
+ * Check of de geconfigureerde provider alle benodigde env vars heeft.
+ * Geeft de ontbrekende variabele terug, of null als alles aanwezig is.
+ */
+export function getMissingProviderConfig(): string | null {
+  switch (getConfiguredProviderName()) {
+    case 'stub':
+      return null;
+    case 'azure':
+      if (!process.env.AZURE_OPENAI_API_KEY) return 'AZURE_OPENAI_API_KEY';
+      if (!process.env.AZURE_OPENAI_ENDPOINT) return 'AZURE_OPENAI_ENDPOINT';
+      return null;
+    case 'openai-compatible':
+      return process.env.LLM_BASE_URL ? null : 'LLM_BASE_URL';
+    case 'openai':
+    default:
+      return process.env.OPENAI_API_KEY ? null : 'OPENAI_API_KEY';
+  }
+}
+
+// ========================================
+// REGISTRY
+// ========================================
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Maak een provider op basis van de environment variabelen
+ *
+ * @throws Error als verplichte configuratie ontbreekt
+ */
+export function createLLMProviderFromEnv(): LLMProvider {
+  const name = getConfiguredProviderName();
+  const missing = getMissingProviderConfig();
+
+  if (missing) {
+    throw new Error(`${missing} is not configured (LLM_PROVIDER=${name})`);
+  }
+
+  const pricing = parsePricingOverrides(process.env.LLM_PRICING);
+
+  switch (name) {
+    case 'stub':
+      return createStubProvider();
+
+    case 'azure':
+      return createAzureOpenAIProvider({
+        apiKey: process.env.AZURE_OPENAI_API_KEY!,
+        endpoint: process.env.AZURE_OPENAI_ENDPOINT!,
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION,
+        deployments: parseDeployments(process.env.AZURE_OPENAI_DEPLOYMENTS),
+        pricing
+      });
+
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseURL: process.env.LLM_BASE_URL!,
+        apiKey: process.env.LLM_API_KEY,
+        pricing
+      });
+
+    case 'openai':
+    default:
+      return createOpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY!,
+        pricing
+      });
+  }
+}
+
+/**
+ * Haal de actieve LLM provider op (lazy, één instance per proces)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createLLMProviderFromEnv();
+    console.log(`🤖 [LLMProvider] Using provider: ${activeProvider.name}`);
+  }
+  return activeProvider;
+}
+
+/**
+ * Overschrijf de actieve provider (bijv. een stub in scripts/tests).
+ * Geef null mee om opnieuw uit de environment te laden.
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+function parseDeployments(json: string | undefined): Record<string, string> {
+  if (!json) return {};
+
+  try {
+    return JSON.parse(json) as Record<string, string>;
+  } catch {
+    console.warn('⚠️ [LLMProvider] Invalid AZURE_OPENAI_DEPLOYMENTS JSON, ignoring');
+    return {};
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * ========================================
+ * OPENAI PROVIDER (OpenAI / Azure / Compatible)
+ * ========================================
+ *
+ * LLMProvider implementatie bovenop de officiële OpenAI SDK.
+ * Dezelfde class bedient drie backends:
+ * - openai:            api.openai.com
+ * - azure:             Azure OpenAI (model naam → deployment naam)
+ * - openai-compatible: elk endpoint met de OpenAI API (vLLM, Ollama, LiteLLM, ...)
+ *
+ * SDK errors worden ongewijzigd doorgegeven, zodat bestaande
+ * error handling (content filter, rate limits) blijft werken.
+ */
+
+import OpenAI, { AzureOpenAI } from 'openai';
+import type {
+  LLMProvider,
+  LLMProviderName,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  ChatStreamEvent,
+  EmbeddingRequest,
+  EmbeddingResult,
+  ModelPricing,
+  CostBreakdown
+} from './types';
+import { OPENAI_PRICING, FREE_PRICING, calculateCostFromPricing } from './pricing';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface OpenAIProviderOptions {
+  name: LLMProviderName;
+  client: OpenAI;
+  pricing?: Record<string, ModelPricing>;
+  deployments?: Record<string, string>;            // Azure: model → deployment naam
+  maxTokensParam?: 'max_completion_tokens' | 'max_tokens';
+}
+
+// ========================================
+// PROVIDER CLASS
+// ========================================
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  private client: OpenAI;
+  private pricing: Record<string, ModelPricing>;
+  private deployments: Record<string, string>;
+  private maxTokensParam: 'max_completion_tokens' | 'max_tokens';
+  private warnedModels = new Set<string>();
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.client = options.client;
+    this.pricing = { ...OPENAI_PRICING, ...(options.pricing || {}) };
+    this.deployments = options.deployments || {};
+    this.maxTokensParam = options.maxTokensParam || 'max_completion_tokens';
+  }
+
+  /**
+   * Model naam zoals de backend hem verwacht (Azure: deployment naam)
+   */
+  private resolveModel(model: string): string {
+    return this.deployments[model] || model;
+  }
+
+  private buildChatParams(request: ChatCompletionRequest) {
+    return {
+      model: this.resolveModel(request.model),
+      messages: request.messages,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.maxOutputTokens && { [this.maxTokensParam]: request.maxOutputTokens }),
+      ...(request.responseFormat === 'json_object' && { response_format: { type: 'json_object' as const } })
+    };
+  }
+
+  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const completion = await this.client.chat.completions.create(this.buildChatParams(request));
+
+    const inputTokens = completion.usage?.prompt_tokens || 0;
+    const outputTokens = completion.usage?.completion_tokens || 0;
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      model: request.model,
+      usage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: completion.usage?.total_tokens || inputTokens + outputTokens
+      },
+      cost: this.calculateCost(request.model, inputTokens, outputTokens)
+    };
+  }
+
+  async *streamChat(request: ChatCompletionRequest): AsyncIterable<ChatStreamEvent> {
+    const stream = await this.client.chat.completions.create({
+      ...this.buildChatParams(request),
+      stream: true,
+      stream_options: {
+        include_usage: true  // Krijg usage tokens in laatste chunk
+      }
+    });
+
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content || '';
+      if (content) {
+        yield { type: 'content', content };
+      }
+
+      if (chunk.usage) {
+        const inputTokens = chunk.usage.prompt_tokens || 0;
+        const outputTokens = chunk.usage.completion_tokens || 0;
+        yield {
+          type: 'usage',
+          usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens }
+        };
+      }
+    }
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+    const response = await this.client.embeddings.create({
+      model: this.resolveModel(request.model),
+      input: request.input,
+      ...(request.dimensions && { dimensions: request.dimensions })
+    });
+
+    const totalTokens = response.usage?.total_tokens || 0;
+    const embeddings = [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+
+    return {
+      embeddings,
+      totalTokens,
+      cost: this.calculateCost(request.model, totalTokens).totalCost
+    };
+  }
+
+  getPricing(model: string): ModelPricing {
+    const pricing = this.pricing[model];
+    if (pricing) return pricing;
+
+    if (!this.warnedModels.has(model)) {
+      this.warnedModels.add(model);
+      console.warn(`⚠️ [LLMProvider] No pricing for model "${model}" (${this.name}), costs will be logged as $0`);
+    }
+    return FREE_PRICING;
+  }
+
+  calculateCost(model: string, inputTokens: number, outputTokens: number = 0): CostBreakdown {
+    return calculateCostFromPricing(this.getPricing(model), inputTokens, outputTokens);
+  }
+}
+
+// ========================================
+// FACTORIES
+// ========================================
+
+export function createOpenAIProvider(options: {
+  apiKey: string;
+  pricing?: Record<string, ModelPricing>;
+}): OpenAIProvider {
+  return new OpenAIProvider({
+    name: 'openai',
+    client: new OpenAI({ apiKey: options.apiKey }),
+    pricing: options.pricing
+  });
+}
+
+export function createAzureOpenAIProvider(options: {
+  apiKey: string;
+  endpoint: string;
+  apiVersion: string;
+  deployments?: Record<string, string>;
+  pricing?: Record<string, ModelPricing>;
+}): OpenAIProvider {
+  return new OpenAIProvider({
+    name: 'azure',
+    client: new AzureOpenAI({
+      apiKey: options.apiKey,
+      endpoint: options.endpoint,
+      apiVersion: options.apiVersion
+    }),
+    deployments: options.deployments,
+    pricing: options.pricing
+  });
+}
+
+export function createOpenAICompatibleProvider(options: {
+  baseURL: string;
+  apiKey?: string;
+  pricing?: Record<string, ModelPricing>;
+}): OpenAIProvider {
+  return new OpenAIProvider({
+    name: 'openai-compatible',
+    // Veel self-hosted endpoints vereisen geen key, maar de SDK wel
+    client: new OpenAI({ baseURL: options.baseURL, apiKey: options.apiKey || 'not-needed' }),
+    pricing: options.pricing,
+    // Oudere compatible servers kennen max_completion_tokens nog niet
+    maxTokensParam: 'max_tokens'
+  });
+}
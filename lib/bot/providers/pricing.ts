@@ -0,0 +1,79 @@
+/**
+ * ========================================
+ * LLM PRICING
+ * ========================================
+ *
+ * Standaard prijstabel (USD per 1M tokens) voor OpenAI modellen.
+ * Providers gebruiken deze tabel, eventueel aangevuld met
+ * overrides uit LLM_PRICING (JSON), bijv:
+ *   LLM_PRICING='{"llama-3.1-70b":{"input":0.59,"output":0.79}}'
+ *
+ * Dit bestand kan veilig op zowel client als server geïmporteerd worden.
+ */
+
+import type { CostBreakdown, ModelPricing } from './types';
+
+// ========================================
+// DEFAULT PRICING TABLE
+// ========================================
+
+export const OPENAI_PRICING: Record<string, ModelPricing> = {
+  // Chat modellen
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4.1': { input: 2.00, output: 8.00 },
+  'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+
+  // Embedding modellen (alleen input)
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 }
+};
+
+export const FREE_PRICING: ModelPricing = { input: 0, output: 0 };
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * Parse prijs overrides uit een JSON string (bijv. LLM_PRICING env var)
+ * Ongeldige JSON wordt genegeerd met een waarschuwing.
+ */
+export function parsePricingOverrides(json: string | undefined): Record<string, ModelPricing> {
+  if (!json) return {};
+
+  try {
+    const parsed = JSON.parse(json) as Record<string, Partial<ModelPricing>>;
+    const result: Record<string, ModelPricing> = {};
+
+    for (const [model, pricing] of Object.entries(parsed)) {
+      result[model] = {
+        input: Number(pricing.input) || 0,
+        output: Number(pricing.output) || 0
+      };
+    }
+
+    return result;
+  } catch {
+    console.warn('⚠️ [LLMPricing] Invalid LLM_PRICING JSON, ignoring overrides');
+    return {};
+  }
+}
+
+/**
+ * Bereken kosten op basis van een pricing entry
+ */
+export function calculateCostFromPricing(
+  pricing: ModelPricing,
+  inputTokens: number,
+  outputTokens: number = 0
+): CostBreakdown {
+  const inputCost = (inputTokens / 1_000_000) * pricing.input;
+  const outputCost = (outputTokens / 1_000_000) * pricing.output;
+
+  return {
+    inputCost,
+    outputCost,
+    totalCost: inputCost + outputCost
+  };
+}
@@ -0,0 +1,274 @@
+/**
+ * ========================================
+ * STUB PROVIDER (DETERMINISTIC, OFFLINE)
+ * ========================================
+ *
+ * LLMProvider zonder netwerk, voor CI en lokale tests.
+ * Activeren met LLM_PROVIDER=stub.
+ *
+ * - Embeddings: hashing-trick vectors (woorden + bigrams), genormaliseerd.
+ *   Teksten met dezelfde woorden krijgen vergelijkbare vectors, zodat
+ *   vector search in pgvector zinvolle resultaten geeft.
+ * - Chat: per LLMPurpose een antwoord in het formaat dat de caller verwacht
+ *   (JSON voor metadata, QA generatie, evaluatie, etc.)
+ * - Kosten zijn altijd $0.
+ *
+ * Zelfde input (in dezelfde volgorde) = zelfde output.
+ */
+
+import type {
+  LLMProvider,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  ChatStreamEvent,
+  EmbeddingRequest,
+  EmbeddingResult,
+  LLMMessage,
+  ModelPricing,
+  CostBreakdown
+} from './types';
+import { FREE_PRICING, calculateCostFromPricing } from './pricing';
+
+// ========================================
+// CONFIGURATION
+// ========================================
+
+const DEFAULT_DIMENSIONS = 1536;
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * FNV-1a 32-bit hash
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1);
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function firstSentence(text: string, maxLength: number = 200): string {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  const match = trimmed.match(/^.+?[.!?](\s|$)/);
+  return (match ? match[0] : trimmed).trim().slice(0, maxLength);
+}
+
+function lastUserMessage(messages: LLMMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') return messages[i].content;
+  }
+  return '';
+}
+
+/**
+ * Langste woord uit een tekst (deterministisch "onderwerp")
+ */
+function pickTopic(text: string): string {
+  const words = tokenize(text).filter(word => word.length >= 5);
+  if (words.length === 0) return 'dit onderwerp';
+  return words.reduce((best, word) => (word.length > best.length ? word : best), words[0]);
+}
+
+/**
+ * Embed een tekst met de hashing-trick
+ */
+function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array(dimensions).fill(0);
+  const tokens = tokenize(text);
+  const features = [...tokens];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    features.push(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+
+  if (features.length === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+
+  for (const feature of features) {
+    const hash = hashString(feature);
+    const sign = (hash & 1) === 0 ? 1 : -1;
+    vector[hash % dimensions] += sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+}
+
+// ========================================
+// RESPONDERS PER PURPOSE
+// ========================================
+
+function respondChat(messages: LLMMessage[]): string {
+  const question = lastUserMessage(messages);
+  const allText = messages.map(m => m.content).join('\n');
+
+  // Context headers uit retrieveContext: [Document 1: file.pdf | pagina 3 | Sectie]
+  const match = allText.match(/\[Document \d+: ([^|\]]+?)(?: \| pagina (\d+))?(?: \|[^\]]*)?\]\n([^\n]+)/);
+  if (!match) {
+    return `Ik heb geen informatie gevonden over "${question}" in de beschikbare documenten.`;
+  }
+
+  const [, filename, page, content] = match;
+  const source = page ? `${filename.trim()} (pagina ${page})` : filename.trim();
+  return `Volgens ${source}: ${firstSentence(content)}`;
+}
+
+function respondQuestionGeneration(prompt: string, sequence: number): string {
+  const contentMatch = prompt.match(/CONTENT:\s*\n([\s\S]+?)(\n\n|$)/);
+
+  if (contentMatch) {
+    const content = contentMatch[1];
+    return JSON.stringify({
+      question: `Wat staat er in de documenten over ${pickTopic(content)}?`,
+      expected_answer: firstSentence(content),
+      key_facts: []
+    });
+  }
+
+  return JSON.stringify({
+    question: `Testvraag ${sequence + 1} over ${pickTopic(prompt)} (${hashString(prompt + sequence).toString(16)})?`,
+    expected_answer: null,
+    key_facts: []
+  });
+}
+
+function respondChunkMetadata(prompt: string): string {
+  const text = prompt.split('TEKST OM TE ANALYSEREN:').pop() || prompt;
+  const keywords = Array.from(new Set(tokenize(text).filter(word => word.length >= 6))).slice(0, 5);
+
+  return JSON.stringify({
+    summary: firstSentence(text),
+    keywords,
+    topics: [],
+    alternativeTerms: []
+  });
+}
+
+// ========================================
+// PROVIDER CLASS
+// ========================================
+
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub' as const;
+  private sequences = new Map<number, number>();
+
+  /**
+   * Hoe vaak deze exacte prompt al gezien is (voor unieke maar reproduceerbare output)
+   */
+  private nextSequence(prompt: string): number {
+    const key = hashString(prompt);
+    const sequence = this.sequences.get(key) || 0;
+    this.sequences.set(key, sequence + 1);
+    return sequence;
+  }
+
+  private respond(request: ChatCompletionRequest): string {
+    const prompt = lastUserMessage(request.messages);
+
+    switch (request.purpose) {
+      case 'query-translation':
+        return JSON.stringify({
+          detected_language: 'nl',
+          translated_query: prompt,
+          was_translated: false
+        });
+
+      case 'follow-up-expansion': {
+        const match = prompt.match(/NIEUWE VRAAG: "([^"]*)"/);
+        return match ? match[1] : prompt;
+      }
+
+      case 'chunk-metadata':
+        return respondChunkMetadata(prompt);
+
+      case 'semantic-chunking':
+        return '';  // Caller valt terug op de originele tekst
+
+      case 'boundary-detection':
+        return '[0]';
+
+      case 'qa-question-generation':
+        return respondQuestionGeneration(prompt, this.nextSequence(prompt));
+
+      case 'qa-evaluation':
+        return JSON.stringify({
+          score: 80,
+          reasoning: 'Deterministische stub evaluatie',
+          issues: [],
+          category_specific: {}
+        });
+
+      case 'ui-translation':
+        return '{}';  // Caller vult ontbrekende velden aan met de Nederlandse teksten
+
+      case 'fun-facts':
+        return JSON.stringify({ facts: [] });
+
+      case 'chat':
+      default:
+        return respondChat(request.messages);
+    }
+  }
+
+  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const content = this.respond(request);
+    const inputTokens = estimateTokens(request.messages.map(m => m.content).join('\n'));
+    const outputTokens = estimateTokens(content);
+
+    return {
+      content,
+      model: request.model,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      cost: this.calculateCost(request.model, inputTokens, outputTokens)
+    };
+  }
+
+  async *streamChat(request: ChatCompletionRequest): AsyncIterable<ChatStreamEvent> {
+    const result = await this.chat(request);
+
+    // Stream woord voor woord, net als een echte provider
+    for (const part of result.content.split(/(?<=\s)/)) {
+      yield { type: 'content', content: part };
+    }
+
+    yield { type: 'usage', usage: result.usage };
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+    const dimensions = request.dimensions || DEFAULT_DIMENSIONS;
+
+    return {
+      embeddings: request.input.map(text => hashEmbedding(text, dimensions)),
+      totalTokens: request.input.reduce((sum, text) => sum + estimateTokens(text), 0),
+      cost: 0
+    };
+  }
+
+  getPricing(): ModelPricing {
+    return FREE_PRICING;
+  }
+
+  calculateCost(_model: string, inputTokens: number, outputTokens: number = 0): CostBreakdown {
+    return calculateCostFromPricing(FREE_PRICING, inputTokens, outputTokens);
+  }
+}
+
+export function createStubProvider(): StubProvider {
+  return new StubProvider();
+}
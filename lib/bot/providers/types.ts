@@ -0,0 +1,129 @@
+/**
+ * ========================================
+ * LLM PROVIDER TYPES
+ * ========================================
+ *
+ * Eén interface voor alle LLM calls in de applicatie:
+ * - Chat completion (non-streaming)
+ * - Streaming chat completion
+ * - Embeddings
+ *
+ * Backends: OpenAI, Azure OpenAI, OpenAI-compatible endpoints
+ * en een deterministische stub voor CI (geen netwerk nodig).
+ *
+ * Pricing komt van de provider, zodat kosten niet meer als
+ * losse constanten in elk bestand staan.
+ */
+
+// ========================================
+// PROVIDER
+// ========================================
+
+export type LLMProviderName = 'openai' | 'azure' | 'openai-compatible' | 'stub';
+
+/**
+ * Waarvoor een call gebruikt wordt.
+ * Wordt gelogd en gebruikt door de stub provider om een
+ * antwoord in het juiste formaat terug te geven.
+ */
+export type LLMPurpose =
+  | 'chat'
+  | 'query-translation'
+  | 'follow-up-expansion'
+  | 'chunk-metadata'
+  | 'semantic-chunking'
+  | 'boundary-detection'
+  | 'qa-question-generation'
+  | 'qa-evaluation'
+  | 'ui-translation'
+  | 'fun-facts';
+
+// ========================================
+// CHAT
+// ========================================
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxOutputTokens?: number | null;
+  responseFormat?: 'text' | 'json_object';
+  purpose?: LLMPurpose;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface CostBreakdown {
+  inputCost: number;
+  outputCost: number;
+  totalCost: number;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  model: string;
+  usage: TokenUsage;
+  cost: CostBreakdown;
+}
+
+/**
+ * Events uit streamChat(): content deltas, en als laatste de usage
+ */
+export type ChatStreamEvent =
+  | { type: 'content'; content: string }
+  | { type: 'usage'; usage: TokenUsage };
+
+// ========================================
+// EMBEDDINGS
+// ========================================
+
+export interface EmbeddingRequest {
+  model: string;
+  input: string[];
+  dimensions?: number;
+}
+
+export interface EmbeddingResult {
+  embeddings: number[][];   // Zelfde volgorde als input
+  totalTokens: number;
+  cost: number;
+}
+
+// ========================================
+// PRICING
+// ========================================
+
+/**
+ * Prijs per 1M tokens in USD (embeddings gebruiken alleen input)
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// ========================================
+// PROVIDER INTERFACE
+// ========================================
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+
+  chat(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+
+  streamChat(request: ChatCompletionRequest): AsyncIterable<ChatStreamEvent>;
+
+  embed(request: EmbeddingRequest): Promise<EmbeddingResult>;
+
+  getPricing(model: string): ModelPricing;
+
+  calculateCost(model: string, inputTokens: number, outputTokens?: number): CostBreakdown;
+}
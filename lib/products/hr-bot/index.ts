@@ -9,6 +9,7 @@
  *
  * Exports:
  * - prompts: System prompt generation voor HR assistant
+ * - prompt-profile-types: Per-tenant prompt profiel types
  * - qa/: QA testing module voor HR Bot
  *
  * Locatie: lib/products/hr-bot/index.ts
@@ -20,4 +21,12 @@ export {
   languageNames
 } from './prompts';
 
+// Prompt profiel types (service is server-only: importeer './prompt-profile-service')
+export type {
+  PromptProfile,
+  PromptProfileVersion,
+  PromptTone,
+  SavePromptProfileInput
+} from './prompt-profile-types';
+
 // QA module wordt apart geëxporteerd via lib/products/hr-bot/qa/
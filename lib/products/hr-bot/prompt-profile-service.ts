@@ -0,0 +1,339 @@
+/**
+ * ========================================
+ * PROMPT PROFILE SERVICE (SERVER-ONLY)
+ * ========================================
+ *
+ * Beheert de versioned prompt profielen per tenant.
+ * - Elke save maakt een nieuwe versie (hoogste versie = actief)
+ * - Rollback kopieert een oude versie naar een nieuwe versie
+ * - resolvePromptProfile() levert het profiel voor generateSystemPrompt()
+ *   en wordt gebruikt door zowel /api/chat als de QA executor,
+ *   zodat tests exact dezelfde prompt gebruiken als productie.
+ *
+ * Locatie: lib/products/hr-bot/prompt-profile-service.ts
+ * Voor types, importeer uit './prompt-profile-types'.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { BRANDING } from '@/lib/shared/branding.config';
+import {
+  PromptProfile,
+  PromptProfileVersion,
+  PromptConfig,
+  SavePromptProfileInput,
+  DEFAULT_PROMPT_TONE
+} from './prompt-profile-types';
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// CACHE
+// ========================================
+
+interface CacheEntry {
+  profile: PromptProfile;
+  timestamp: number;
+}
+
+// In-memory cache, zelfde TTL als tenant-config (5 minuten)
+const profileCache = new Map<string, CacheEntry>();
+const CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * Clear the prompt profile cache
+ * Wordt aangeroepen na save/rollback zodat de chat direct de nieuwe versie gebruikt
+ */
+export function clearPromptProfileCache(tenantId?: string): void {
+  if (tenantId) {
+    profileCache.delete(tenantId);
+  } else {
+    profileCache.clear();
+  }
+}
+
+// ========================================
+// VERSION CRUD
+// ========================================
+
+/**
+ * Haal alle versies van het prompt profiel op (nieuwste eerst)
+ */
+export async function listPromptProfileVersions(
+  tenantId: string
+): Promise<{ versions: PromptProfileVersion[]; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('tenant_prompt_profiles')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('❌ [PromptProfile] Error listing versions:', error);
+    return { versions: [], error: error.message };
+  }
+
+  return { versions: (data || []) as PromptProfileVersion[] };
+}
+
+/**
+ * Haal de actieve (hoogste) versie van het prompt profiel op
+ */
+export async function getActivePromptProfileVersion(
+  tenantId: string
+): Promise<{ profile: PromptProfileVersion | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('tenant_prompt_profiles')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ [PromptProfile] Error fetching active version:', error);
+    return { profile: null, error: error.message };
+  }
+
+  return { profile: data as PromptProfileVersion | null };
+}
+
+/**
+ * Sla een nieuwe versie van het prompt profiel op.
+ * Velden die niet worden meegegeven worden overgenomen van de huidige versie.
+ */
+export async function savePromptProfile(
+  tenantId: string,
+  input: SavePromptProfileInput,
+  rolledBackFrom: number | null = null
+): Promise<{ profile: PromptProfileVersion | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { profile: current, error: currentError } = await getActivePromptProfileVersion(tenantId);
+  if (currentError) {
+    return { profile: null, error: currentError };
+  }
+
+  const nextVersion = (current?.version || 0) + 1;
+
+  const { data, error } = await supabase
+    .from('tenant_prompt_profiles')
+    .insert({
+      tenant_id: tenantId,
+      version: nextVersion,
+      persona_name: cleanText(input.persona_name !== undefined ? input.persona_name : current?.persona_name),
+      tone: input.tone || current?.tone || DEFAULT_PROMPT_TONE,
+      extra_rules: cleanList(input.extra_rules ?? current?.extra_rules),
+      forbidden_topics: cleanList(input.forbidden_topics ?? current?.forbidden_topics),
+      escalation_contact: cleanText(
+        input.escalation_contact !== undefined ? input.escalation_contact : current?.escalation_contact
+      ),
+      change_note: cleanText(input.change_note),
+      rolled_back_from: rolledBackFrom,
+      created_by: input.created_by || null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('❌ [PromptProfile] Error saving version:', error);
+    return { profile: null, error: error.message };
+  }
+
+  clearPromptProfileCache(tenantId);
+  console.log(`✅ [PromptProfile] Saved version ${nextVersion} for tenant ${tenantId}`);
+  return { profile: data as PromptProfileVersion };
+}
+
+/**
+ * Rollback naar een eerdere versie.
+ * De oude versie wordt als NIEUWE versie opgeslagen zodat de historie intact blijft.
+ */
+export async function rollbackPromptProfile(
+  tenantId: string,
+  version: number,
+  createdBy?: string | null
+): Promise<{ profile: PromptProfileVersion | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data: target, error } = await supabase
+    .from('tenant_prompt_profiles')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ [PromptProfile] Error fetching rollback target:', error);
+    return { profile: null, error: error.message };
+  }
+
+  if (!target) {
+    return { profile: null, error: `Version ${version} not found` };
+  }
+
+  console.log(`⏪ [PromptProfile] Rolling back tenant ${tenantId} to version ${version}`);
+
+  return savePromptProfile(
+    tenantId,
+    {
+      persona_name: target.persona_name,
+      tone: target.tone,
+      extra_rules: target.extra_rules || [],
+      forbidden_topics: target.forbidden_topics || [],
+      escalation_contact: target.escalation_contact,
+      change_note: `Rollback naar versie ${version}`,
+      created_by: createdBy || null
+    },
+    version
+  );
+}
+
+// ========================================
+// RUNTIME RESOLUTION
+// ========================================
+
+/**
+ * Resolve het prompt profiel voor een tenant (met caching).
+ * Faalt nooit: bij ontbrekend profiel of database fout worden defaults gebruikt,
+ * zodat de chat altijd een werkende prompt heeft.
+ *
+ * @param tenantId - De tenant ID
+ * @param bypassCache - Forceer een verse fetch uit de database
+ */
+export async function resolvePromptProfile(
+  tenantId: string,
+  bypassCache: boolean = false
+): Promise<PromptProfile> {
+  if (!bypassCache) {
+    const cached = profileCache.get(tenantId);
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      return cached.profile;
+    }
+  }
+
+  const fallback: PromptProfile = {
+    companyName: BRANDING.companyName,
+    personaName: null,
+    tone: DEFAULT_PROMPT_TONE,
+    extraRules: [],
+    forbiddenTopics: [],
+    escalationContact: null,
+    version: null
+  };
+
+  try {
+    const supabase = getSupabaseClient();
+
+    const [tenantResult, profileResult] = await Promise.all([
+      supabase.from('tenants').select('name').eq('id', tenantId).maybeSingle(),
+      getActivePromptProfileVersion(tenantId)
+    ]);
+
+    const active = profileResult.profile;
+    const profile: PromptProfile = {
+      companyName: tenantResult.data?.name || fallback.companyName,
+      personaName: active?.persona_name || null,
+      tone: active?.tone || DEFAULT_PROMPT_TONE,
+      extraRules: active?.extra_rules || [],
+      forbiddenTopics: active?.forbidden_topics || [],
+      escalationContact: active?.escalation_contact || null,
+      version: active?.version ?? null
+    };
+
+    profileCache.set(tenantId, { profile, timestamp: Date.now() });
+    console.log(`🎭 [PromptProfile] Resolved profile for ${tenantId} (version: ${profile.version ?? 'default'})`);
+    return profile;
+  } catch (err) {
+    console.warn('⚠️ [PromptProfile] Falling back to default profile:', (err as Error).message);
+    return fallback;
+  }
+}
+
+/**
+ * Resolve het prompt profiel met een expliciete PromptConfig (QA experimenten).
+ * Basis is de gevraagde opgeslagen versie (of de actieve versie); de velden
+ * uit de config overschrijven die basis. Gebruikt de cache niet voor een
+ * specifieke versie, zodat een arm altijd exact die versie test.
+ *
+ * @param tenantId - De tenant ID
+ * @param config - Prompt configuratie van de experiment arm
+ * @param bypassCache - Forceer een verse fetch van het actieve profiel
+ */
+export async function resolvePromptProfileWithConfig(
+  tenantId: string,
+  config: PromptConfig | null | undefined,
+  bypassCache: boolean = false
+): Promise<{ profile: PromptProfile; error?: string }> {
+  const active = await resolvePromptProfile(tenantId, bypassCache);
+  if (!config) return { profile: active };
+
+  let base = active;
+
+  if (config.profileVersion != null && config.profileVersion !== active.version) {
+    const { data, error } = await getSupabaseClient()
+      .from('tenant_prompt_profiles')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .eq('version', config.profileVersion)
+      .maybeSingle();
+
+    if (error || !data) {
+      return { profile: active, error: error?.message || `Prompt profile version ${config.profileVersion} not found` };
+    }
+
+    const version = data as PromptProfileVersion;
+    base = {
+      companyName: active.companyName,
+      personaName: version.persona_name || null,
+      tone: version.tone || DEFAULT_PROMPT_TONE,
+      extraRules: version.extra_rules || [],
+      forbiddenTopics: version.forbidden_topics || [],
+      escalationContact: version.escalation_contact || null,
+      version: version.version
+    };
+  }
+
+  return {
+    profile: {
+      ...base,
+      tone: config.tone || base.tone,
+      extraRules: config.extraRules ? cleanList(config.extraRules) : base.extraRules,
+      additionalInstructions: cleanText(config.additionalInstructions)
+    }
+  };
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+function cleanText(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+function cleanList(values: string[] | null | undefined): string[] {
+  return (values || []).map(v => v.trim()).filter(v => v.length > 0);
+}
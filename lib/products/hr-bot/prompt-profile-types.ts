@@ -0,0 +1,87 @@
+/**
+ * ========================================
+ * PROMPT PROFILE TYPES & DEFAULTS
+ * ========================================
+ * Types voor het per-tenant prompt profiel van de HR bot.
+ * Dit bestand kan veilig op zowel client als server geïmporteerd worden.
+ *
+ * Het profiel bepaalt hoe de bot zichzelf voorstelt (persona),
+ * welke toon hij gebruikt en welke extra regels gelden bovenop
+ * de standaard cite-only regelset in prompts.ts.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export type PromptTone = 'friendly' | 'formal' | 'informal';
+
+/**
+ * Eén opgeslagen versie van een prompt profiel (rij in tenant_prompt_profiles)
+ */
+export interface PromptProfileVersion {
+  id: string;
+  tenant_id: string;
+  version: number;
+  persona_name: string | null;
+  tone: PromptTone;
+  extra_rules: string[];
+  forbidden_topics: string[];
+  escalation_contact: string | null;
+  change_note: string | null;
+  rolled_back_from: number | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+/**
+ * Input voor het opslaan van een nieuwe profiel versie
+ */
+export interface SavePromptProfileInput {
+  persona_name?: string | null;
+  tone?: PromptTone;
+  extra_rules?: string[];
+  forbidden_topics?: string[];
+  escalation_contact?: string | null;
+  change_note?: string | null;
+  created_by?: string | null;
+}
+
+/**
+ * Het profiel zoals het door generateSystemPrompt() gebruikt wordt.
+ * companyName komt uit de tenants tabel, de rest uit het actieve profiel.
+ */
+export interface PromptProfile {
+  companyName: string;
+  personaName: string | null;
+  tone: PromptTone;
+  extraRules: string[];
+  forbiddenTopics: string[];
+  escalationContact: string | null;
+  version: number | null;   // null = geen opgeslagen profiel (defaults)
+  additionalInstructions?: string | null;   // Alleen via PromptConfig (QA experimenten), niet opgeslagen
+}
+
+/**
+ * Expliciete prompt configuratie, bijv. voor een QA experiment arm.
+ * Wordt over een opgeslagen profiel versie gelegd (zie resolvePromptProfileWithConfig);
+ * velden die ontbreken komen uit die versie.
+ */
+export interface PromptConfig {
+  profileVersion?: number | null;          // Opgeslagen versie; leeg = actieve versie
+  tone?: PromptTone;
+  extraRules?: string[];                   // Vervangt de extra regels van het profiel
+  additionalInstructions?: string | null;  // Extra instructies onderaan de regels
+}
+
+// ========================================
+// DEFAULTS
+// ========================================
+
+export const DEFAULT_PROMPT_TONE: PromptTone = 'friendly';
+
+export const PROMPT_TONE_OPTIONS: { value: PromptTone; label: string; description: string }[] = [
+  { value: 'friendly', label: 'Vriendelijk', description: 'Vriendelijke, behulpzame toon (standaard)' },
+  { value: 'formal', label: 'Formeel', description: 'Zakelijk en formeel, spreekt de gebruiker aan met "u"' },
+  { value: 'informal', label: 'Informeel', description: 'Luchtig en persoonlijk, spreekt de gebruiker aan met "je"' },
+];
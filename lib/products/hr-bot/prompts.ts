@@ -17,6 +17,7 @@
  */
 
 import { BRANDING } from '@/lib/shared/branding.config';
+import type { PromptProfile, PromptTone } from './prompt-profile-types';
 
 // ========================================
 // TAAL MAPPING
@@ -37,6 +38,59 @@ export const languageNames: Record<string, string> = {
   'ro': 'Romanian (Română)'
 };
 
+// ========================================
+// TOON MAPPING
+// ========================================
+// Instructie per toon uit het tenant prompt profiel
+const toneInstructions: Record<PromptTone, string> = {
+  'friendly': 'Vriendelijke, behulpzame toon',
+  'formal': 'Formele, zakelijke toon - spreek de gebruiker aan met "u"',
+  'informal': 'Informele, persoonlijke toon - spreek de gebruiker aan met "je"'
+};
+
+// ========================================
+// PROFIEL SECTIES
+// ========================================
+
+/**
+ * Bouwt de tenant-specifieke regels sectie (extra regels, verboden onderwerpen
+ * en eventuele extra instructies uit een PromptConfig).
+ * Geeft een lege string terug als het profiel geen extra regels heeft.
+ */
+function buildProfileRulesSection(profile: PromptProfile): string {
+  const additionalInstructions = profile.additionalInstructions?.trim();
+  if (profile.extraRules.length === 0 && profile.forbiddenTopics.length === 0 && !additionalInstructions) {
+    return '';
+  }
+
+  const parts: string[] = [];
+
+  if (profile.extraRules.length > 0) {
+    parts.push(`EXTRA REGELS VAN ${profile.companyName.toUpperCase()}:
+${profile.extraRules.map((rule, i) => `${i + 1}. ${rule}`).join('\n')}`);
+  }
+
+  if (profile.forbiddenTopics.length > 0) {
+    parts.push(`VERBODEN ONDERWERPEN (ga hier NOOIT inhoudelijk op in, ook niet als de context er iets over zegt):
+${profile.forbiddenTopics.map(topic => `- ${topic}`).join('\n')}
+
+Bij een vraag over een verboden onderwerp: leg beleefd uit dat je hier niet over kunt adviseren${profile.escalationContact ? ` en verwijs naar ${profile.escalationContact}` : ''}.`);
+  }
+
+  if (additionalInstructions) {
+    parts.push(`AANVULLENDE INSTRUCTIES:
+${additionalInstructions}`);
+  }
+
+  return `═══════════════════════════════════════════════════════════════════
+ORGANISATIE-SPECIFIEKE REGELS
+═══════════════════════════════════════════════════════════════════
+
+${parts.join('\n\n')}
+
+`;
+}
+
 // ========================================
 // SYSTEM PROMPT GENERATOR
 // ========================================
@@ -45,12 +99,30 @@ export const languageNames: Record<string, string> = {
  *
  * @param contextText - De opgehaalde context uit de RAG pipeline (HR documentatie snippets)
  * @param language - De door gebruiker geselecteerde taal (bijv. 'nl', 'en', 'pl')
+ * @param profile - Optioneel tenant prompt profiel (zie resolvePromptProfile, of
+ *                  resolvePromptProfileWithConfig voor een expliciete PromptConfig);
+ *                  zonder profiel wordt BRANDING.companyName met de standaard regels gebruikt
  * @returns De complete system prompt voor OpenAI
  */
-export function generateSystemPrompt(contextText: string, language: string): string {
+export function generateSystemPrompt(
+  contextText: string,
+  language: string,
+  profile?: PromptProfile
+): string {
   const selectedLanguageName = languageNames[language] || 'Dutch (Nederlands)';
-
-  return `You are an HR assistant for ${BRANDING.companyName}. Your task is EXCLUSIVELY to answer questions about HR policies, procedures, and employment conditions based on the provided documentation.
+  const companyName = profile?.companyName || BRANDING.companyName;
+  const identity = profile?.personaName
+    ? `You are ${profile.personaName}, the HR assistant for ${companyName}.`
+    : `You are an HR assistant for ${companyName}.`;
+  const toneInstruction = toneInstructions[profile?.tone || 'friendly'];
+  const escalationText = profile?.escalationContact
+    ? `Voor andere vragen kun je contact opnemen
+met ${profile.escalationContact}.`
+    : `Voor andere vragen kun je contact opnemen
+met de relevante afdeling.`;
+  const profileRulesSection = profile ? buildProfileRulesSection(profile) : '';
+
+  return `${identity} Your task is EXCLUSIVELY to answer questions about HR policies, procedures, and employment conditions based on the provided documentation.
 
 ═══════════════════════════════════════════════════════════════════
 🚨 KRITIEKE REGEL #1: CITE-ONLY ANTWOORDEN (ENTERPRISE NIVEAU)
@@ -168,7 +240,7 @@ ANTWOORDFORMAAT
 - Genummerde lijsten voor stappen (1. 2. 3.)
 - Bullets voor opsommingen (-)
 - ALTIJD bronvermelding: document + pagina of sectie
-- Vriendelijke, behulpzame toon
+- ${toneInstruction}
 - Bondig maar volledig
 
 ═══════════════════════════════════════════════════════════════════
@@ -182,12 +254,11 @@ ALLEEN afwijzen als de vraag ECHT niets met HR te maken heeft:
 
 Afwijzingsbericht (in taal van de gebruiker):
 "Ik ben een HR-assistent en kan alleen vragen beantwoorden over HR-beleid,
-arbeidsvoorwaarden en procedures. Voor andere vragen kun je contact opnemen
-met de relevante afdeling."
+arbeidsvoorwaarden en procedures. ${escalationText}"
 
 MAAR: Probeer EERST of de vraag toch HR-gerelateerd is!
 
-═══════════════════════════════════════════════════════════════════
+${profileRulesSection}═══════════════════════════════════════════════════════════════════
 BEVEILIGING
 ═══════════════════════════════════════════════════════════════════
 
@@ -0,0 +1,174 @@
+/**
+ * ========================================
+ * QA CHUNK SETS
+ * ========================================
+ *
+ * Scratch chunks for an experiment arm with its own chunking options
+ * (QAPipelineConfig.chunking). The tenant's documents are re-chunked and
+ * re-embedded into qa_chunk_set_chunks (migration 051) under the run ID,
+ * and retrieveContext searches that set via RetrievalConfig.chunkSetId.
+ * document_chunks is not touched, so the live bot is unaffected.
+ *
+ * - Same pipeline as ingestion: stored file → extractDocument →
+ *   chunkExtractedPages with the arm's options → embeddings + AI metadata
+ * - Embeddings and metadata of chunks whose content did not change are
+ *   reused from the current chunks (content hash, migration 039)
+ * - The executor removes the set after executing the questions
+ *
+ * v2.4: QA experiments
+ *
+ * Locatie: lib/products/hr-bot/qa/chunk-sets.ts
+ * Dit is HR Bot product-specifieke code.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { extractDocument } from '@/lib/rag/extractors';
+import { buildChunkRecord, chunkExtractedPages, createChunkLocator } from '@/lib/rag/processor';
+import { embedChunksIncrementally, loadReusableChunks } from '@/lib/rag/chunk-reuse-service';
+import { getDocumentsBucket } from '@/lib/admin/storage-service';
+import type { SmartChunkingOptions } from '@/lib/rag/types';
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+const INSERT_BATCH_SIZE = 50;   // Supabase insert limiet (zelfde als de worker)
+
+// ========================================
+// BUILD
+// ========================================
+
+/**
+ * Re-chunk and re-embed the completed documents of a tenant into a
+ * chunk set. An existing set with the same ID is replaced, so a run
+ * that is started again gets a fresh set.
+ *
+ * A document that cannot be chunked fails the whole set: an arm that
+ * searches fewer documents than the other arms is not a fair comparison.
+ *
+ * @param tenantId - The tenant ID
+ * @param chunkSetId - ID of the set (the test run ID)
+ * @param chunking - Smart chunking options of the arm
+ */
+export async function buildChunkSet(
+  tenantId: string,
+  chunkSetId: string,
+  chunking: Partial<SmartChunkingOptions>
+): Promise<{ documents: number; chunks: number; chunksReused: number; cost: number; error?: string }> {
+  const supabase = getSupabaseClient();
+  const stats = { documents: 0, chunks: 0, chunksReused: 0, cost: 0 };
+
+  console.log(`\n🧪 [QAChunkSets] Building chunk set ${chunkSetId} for tenant ${tenantId}:`, chunking);
+
+  await deleteChunkSet(chunkSetId);
+
+  const { data: documents, error } = await supabase
+    .from('documents')
+    .select('id, filename, file_path, mime_type, version')
+    .eq('tenant_id', tenantId)
+    .eq('processing_status', 'completed')
+    .order('filename');
+
+  if (error) {
+    return { ...stats, error: error.message };
+  }
+
+  const bucket = getDocumentsBucket(tenantId);
+
+  for (const doc of documents || []) {
+    try {
+      if (!doc.file_path) {
+        throw new Error('No file_path stored - document needs to be re-uploaded');
+      }
+
+      const { data: file, error: downloadError } = await supabase.storage
+        .from(bucket)
+        .download(doc.file_path);
+
+      if (downloadError || !file) {
+        throw new Error(`Could not download ${doc.file_path}: ${downloadError?.message || 'empty file'}`);
+      }
+
+      const extraction = await extractDocument(Buffer.from(await file.arrayBuffer()), doc.filename, doc.mime_type);
+      const chunked = await chunkExtractedPages(extraction.pages, doc.filename, chunking);
+
+      const reusable = await loadReusableChunks(doc.id);
+      const embedded = await embedChunksIncrementally(chunked.contents, doc.filename, reusable);
+
+      const chunkTarget = {
+        tenantId,
+        documentId: doc.id,
+        version: doc.version ?? 1,
+        locateChunk: createChunkLocator(extraction)
+      };
+      const records = chunked.contents.map((content, i) => ({
+        chunk_set_id: chunkSetId,
+        ...buildChunkRecord(chunkTarget, content, chunked.positions[i], embedded.embeddings[i], embedded.metadata.get(i))
+      }));
+
+      for (let start = 0; start < records.length; start += INSERT_BATCH_SIZE) {
+        const { error: insertError } = await supabase
+          .from('qa_chunk_set_chunks')
+          .insert(records.slice(start, start + INSERT_BATCH_SIZE));
+
+        if (insertError) throw insertError;
+      }
+
+      stats.documents++;
+      stats.chunks += records.length;
+      stats.chunksReused += embedded.chunksReused;
+      stats.cost += chunked.cost + embedded.embeddingCost + embedded.metadataCost;
+
+      console.log(`   ✅ [QAChunkSets] ${doc.filename}: ${records.length} chunks (${embedded.chunksReused} reused)`);
+
+    } catch (docError) {
+      const message = docError instanceof Error ? docError.message : String(docError);
+      console.error(`❌ [QAChunkSets] ${doc.filename} failed:`, message);
+      await deleteChunkSet(chunkSetId);
+      return { ...stats, error: `${doc.filename}: ${message}` };
+    }
+  }
+
+  console.log(`✅ [QAChunkSets] Chunk set ${chunkSetId}: ${stats.documents} documents, ${stats.chunks} chunks (${stats.chunksReused} reused), cost: $${stats.cost.toFixed(4)}`);
+  return stats;
+}
+
+// ========================================
+// CLEANUP
+// ========================================
+
+/**
+ * Remove the chunks of a chunk set
+ */
+export async function deleteChunkSet(chunkSetId: string): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase
+    .from('qa_chunk_set_chunks')
+    .delete()
+    .eq('chunk_set_id', chunkSetId);
+
+  if (error) {
+    console.error('❌ [QAChunkSets] Error deleting chunk set:', error);
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * ========================================
+ * QA RUN COMPARISON
+ * ========================================
+ *
+ * Compares two test runs over the questions they share and detects
+ * regressions.
+ *
+ * - Questions are matched on category + language + question text, so a
+ *   run that reuses the questions of a baseline run (baseline_run_id)
+ *   is fully comparable. Auto-generated runs usually share few questions.
+ * - Category scores are recalculated over the shared questions only.
+ * - A category that drops more than the threshold (percentage points)
+ *   makes the comparison a regression.
+ * - The pipeline snapshot (model, prompt, search settings, documents)
+ *   taken at the start of each run shows what changed in between.
+ *
+ * v2.4: Run comparison
+ *
+ * Locatie: lib/products/hr-bot/qa/comparison.ts
+ * Dit is HR Bot product-specifieke code.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  QATestRun,
+  QATestQuestion,
+  QACategory,
+  QACategoryDelta,
+  QAQuestionChange,
+  QAConfigChange,
+  QADocumentChange,
+  QAPipelineSnapshot,
+  QARunComparison,
+  QARegressionSummary,
+  QAPipelineConfig,
+  CATEGORY_INFO,
+  DEFAULT_REGRESSION_THRESHOLD,
+  PIPELINE_CONFIG_LABELS
+} from './types';
+import { getTestRun, getTestQuestions, updateTestRun } from './service';
+import { resolvePipelineConfig } from './pipeline-config';
+import { DEFAULT_EMBEDDING_MODEL } from '@/lib/rag/types';
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// PIPELINE SNAPSHOT
+// ========================================
+
+/**
+ * Capture the pipeline configuration and the indexed documents of a
+ * tenant, as used by the run that is about to start
+ * (with the arm configuration applied for experiment runs)
+ */
+export async function capturePipelineSnapshot(
+  tenantId: string,
+  pipelineConfig?: QAPipelineConfig | null
+): Promise<QAPipelineSnapshot> {
+  const supabase = getSupabaseClient();
+
+  const [{ resolved }, { data: documents, error }] = await Promise.all([
+    resolvePipelineConfig(tenantId, pipelineConfig, true),
+    supabase
+      .from('documents')
+      .select('id, filename, version, total_chunks, content_hash')
+      .eq('tenant_id', tenantId)
+      .eq('processing_status', 'completed')
+      .order('filename')
+  ]);
+  const { modelSettings, searchSettings, promptProfile } = resolved;
+
+  if (error) {
+    console.warn(`⚠️ [QAComparison] Could not load documents for snapshot: ${error.message}`);
+  }
+
+  return {
+    config: {
+      model: modelSettings.model,
+      temperature: modelSettings.temperature,
+      maxOutputTokens: modelSettings.maxOutputTokens,
+      historyWindow: modelSettings.historyWindow,
+      promptProfileVersion: promptProfile.version,
+      promptTone: promptProfile.tone,
+      embeddingModel: DEFAULT_EMBEDDING_MODEL,
+      topK: resolved.topK,
+      candidateTopK: resolved.retrieval.candidateTopK,
+      minRelevanceScore: resolved.retrieval.minRelevanceScore,
+      rerankingEnabled: resolved.rerankingActive,
+      vectorWeight: searchSettings.vectorWeight,
+      fulltextWeight: searchSettings.fulltextWeight,
+      rrfK: searchSettings.rrfK,
+      similarityThreshold: searchSettings.similarityThreshold,
+      keywordWeight: searchSettings.keywordWeight,
+      // Alleen bij een arm met eigen chunking; anders de chunks van de documenten
+      chunking: pipelineConfig?.chunking ? JSON.stringify(pipelineConfig.chunking) : null
+    },
+    documents: (documents || []).map(doc => ({
+      id: doc.id,
+      filename: doc.filename,
+      version: doc.version ?? 1,
+      total_chunks: doc.total_chunks ?? 0,
+      content_hash: doc.content_hash ?? null
+    })),
+    captured_at: new Date().toISOString()
+  };
+}
+
+/**
+ * Config keys and documents that differ between two snapshots
+ */
+export function diffPipelineSnapshots(
+  before: QAPipelineSnapshot,
+  after: QAPipelineSnapshot
+): { configChanges: QAConfigChange[]; documentChanges: QADocumentChange[] } {
+  // Keys die maar in één snapshot staan zijn later toegevoegd (oudere run), geen wijziging
+  const keys = Object.keys(after.config).filter(key => key in before.config);
+  const configChanges: QAConfigChange[] = keys
+    .filter(key => (before.config[key] ?? null) !== (after.config[key] ?? null))
+    .map(key => ({
+      key,
+      label: PIPELINE_CONFIG_LABELS[key] || key,
+      before: before.config[key] ?? null,
+      after: after.config[key] ?? null
+    }));
+
+  const beforeDocs = new Map(before.documents.map(doc => [doc.id, doc]));
+  const afterDocs = new Map(after.documents.map(doc => [doc.id, doc]));
+  const documentChanges: QADocumentChange[] = [];
+
+  for (const doc of after.documents) {
+    const previous = beforeDocs.get(doc.id);
+    if (!previous) {
+      documentChanges.push({ document_id: doc.id, filename: doc.filename, change: 'added', before_version: null, after_version: doc.version });
+    } else if (
+      previous.version !== doc.version ||
+      previous.content_hash !== doc.content_hash ||
+      previous.total_chunks !== doc.total_chunks
+    ) {
+      documentChanges.push({ document_id: doc.id, filename: doc.filename, change: 'updated', before_version: previous.version, after_version: doc.version });
+    }
+  }
+  for (const doc of before.documents) {
+    if (!afterDocs.has(doc.id)) {
+      documentChanges.push({ document_id: doc.id, filename: doc.filename, change: 'removed', before_version: doc.version, after_version: null });
+    }
+  }
+
+  return { configChanges, documentChanges };
+}
+
+// ========================================
+// QUESTION MATCHING
+// ========================================
+
+/**
+ * Key per question. Repeated questions (consistency category) get an
+ * occurrence suffix so the n-th copy matches the n-th copy.
+ */
+export function keyQuestions(questions: QATestQuestion[]): Map<string, QATestQuestion> {
+  const keyed = new Map<string, QATestQuestion>();
+  const occurrences = new Map<string, number>();
+
+  for (const question of questions) {
+    const normalized = question.question.toLowerCase().replace(/\s+/g, ' ').trim();
+    const baseKey = `${question.category}|${question.language}|${normalized}`;
+    const occurrence = occurrences.get(baseKey) || 0;
+    occurrences.set(baseKey, occurrence + 1);
+    keyed.set(occurrence === 0 ? baseKey : `${baseKey}#${occurrence}`, question);
+  }
+
+  return keyed;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+// ========================================
+// COMPARISON
+// ========================================
+
+/**
+ * Diff two runs over their shared questions
+ */
+export function compareRunQuestions(
+  baseRun: QATestRun,
+  targetRun: QATestRun,
+  baseQuestions: QATestQuestion[],
+  targetQuestions: QATestQuestion[],
+  threshold: number = DEFAULT_REGRESSION_THRESHOLD
+): QARunComparison {
+  const baseByKey = keyQuestions(baseQuestions);
+  const targetByKey = keyQuestions(targetQuestions);
+
+  const pairs: Array<{ key: string; base: QATestQuestion; target: QATestQuestion }> = [];
+  baseByKey.forEach((base, key) => {
+    const target = targetByKey.get(key);
+    if (target) pairs.push({ key, base, target });
+  });
+
+  // Category scores over pairs that are scored in both runs
+  const scoredPairs = pairs.filter(pair => pair.base.score !== null && pair.target.score !== null);
+  const categories: QACategoryDelta[] = (Object.keys(CATEGORY_INFO) as QACategory[])
+    .map(category => {
+      const categoryPairs = scoredPairs.filter(pair => pair.base.category === category);
+      const baseScore = average(categoryPairs.map(pair => pair.base.score!));
+      const targetScore = average(categoryPairs.map(pair => pair.target.score!));
+      const delta = baseScore !== null && targetScore !== null ? targetScore - baseScore : null;
+
+      return {
+        category,
+        base_score: baseScore,
+        target_score: targetScore,
+        delta,
+        question_count: categoryPairs.length,
+        is_regression: delta !== null && delta < -threshold
+      };
+    })
+    .filter(delta => delta.question_count > 0);
+
+  const toChange = ({ key, base, target }: typeof pairs[number]): QAQuestionChange => ({
+    key,
+    category: target.category,
+    language: target.language,
+    question: target.question,
+    base_question_id: base.id,
+    target_question_id: target.id,
+    base_score: base.score,
+    target_score: target.score,
+    base_passed: base.passed,
+    target_passed: target.passed
+  });
+  const scoreDrop = (change: QAQuestionChange) => (change.base_score ?? 0) - (change.target_score ?? 0);
+
+  const flippedToFail = pairs
+    .filter(pair => pair.base.passed === true && pair.target.passed !== true)
+    .map(toChange)
+    .sort((a, b) => scoreDrop(b) - scoreDrop(a));
+  const flippedToPass = pairs
+    .filter(pair => pair.base.passed !== true && pair.target.passed === true)
+    .map(toChange)
+    .sort((a, b) => scoreDrop(a) - scoreDrop(b));
+
+  // Config en documenten alleen als beide runs een snapshot hebben
+  const snapshots = baseRun.pipeline_snapshot && targetRun.pipeline_snapshot
+    ? diffPipelineSnapshots(baseRun.pipeline_snapshot, targetRun.pipeline_snapshot)
+    : null;
+
+  return {
+    base_run: baseRun,
+    target_run: targetRun,
+    threshold,
+    is_regression: categories.some(delta => delta.is_regression),
+    shared_questions: pairs.length,
+    base_only_questions: baseByKey.size - pairs.length,
+    target_only_questions: targetByKey.size - pairs.length,
+    base_score: average(scoredPairs.map(pair => pair.base.score!)),
+    target_score: average(scoredPairs.map(pair => pair.target.score!)),
+    categories,
+    flipped_to_fail: flippedToFail,
+    flipped_to_pass: flippedToPass,
+    config_changes: snapshots?.configChanges ?? null,
+    document_changes: snapshots?.documentChanges ?? null
+  };
+}
+
+/**
+ * Load and compare two completed runs of the same tenant
+ *
+ * @param options.threshold - Overrides the regression threshold of the target run
+ */
+export async function compareTestRuns(
+  tenantId: string,
+  baseRunId: string,
+  targetRunId: string,
+  options: { threshold?: number } = {}
+): Promise<{ comparison: QARunComparison | null; error?: string }> {
+  const [{ testRun: baseRun, error: baseError }, { testRun: targetRun, error: targetError }] = await Promise.all([
+    getTestRun(baseRunId),
+    getTestRun(targetRunId)
+  ]);
+
+  if (!baseRun || !targetRun) {
+    return { comparison: null, error: baseError || targetError || 'Test run not found' };
+  }
+  if (baseRun.tenant_id !== tenantId || targetRun.tenant_id !== tenantId) {
+    return { comparison: null, error: 'Test run does not belong to this tenant' };
+  }
+  if (baseRun.status !== 'completed' || targetRun.status !== 'completed') {
+    return { comparison: null, error: 'Both test runs must be completed' };
+  }
+
+  const [{ questions: baseQuestions }, { questions: targetQuestions }] = await Promise.all([
+    getTestQuestions(baseRunId),
+    getTestQuestions(targetRunId)
+  ]);
+
+  const threshold = options.threshold ?? targetRun.config?.regressionThreshold ?? DEFAULT_REGRESSION_THRESHOLD;
+  const comparison = compareRunQuestions(baseRun, targetRun, baseQuestions, targetQuestions, threshold);
+
+  console.log(`📊 [QAComparison] ${baseRunId} → ${targetRunId}: ${comparison.shared_questions} shared questions, ${comparison.flipped_to_fail.length} flipped to fail${comparison.is_regression ? ' (REGRESSION)' : ''}`);
+
+  return { comparison };
+}
+
+// ========================================
+// REGRESSION CHECK
+// ========================================
+
+/**
+ * Compare a finished run with its baseline run and store the result
+ * (is_regression + regression summary). Runs without a baseline are
+ * skipped. Never throws: a failed check must not fail the run.
+ */
+export async function checkRunRegression(runId: string): Promise<QARegressionSummary | null> {
+  try {
+    const { testRun } = await getTestRun(runId);
+    if (!testRun?.baseline_run_id) return null;
+
+    const { comparison, error } = await compareTestRuns(testRun.tenant_id, testRun.baseline_run_id, runId);
+    if (!comparison) {
+      console.warn(`⚠️ [QAComparison] Regression check skipped for ${runId}: ${error}`);
+      return null;
+    }
+
+    const summary: QARegressionSummary = {
+      baseline_run_id: testRun.baseline_run_id,
+      threshold: comparison.threshold,
+      compared_questions: comparison.shared_questions,
+      regressed_categories: comparison.categories
+        .filter(delta => delta.is_regression)
+        .map(delta => ({
+          category: delta.category,
+          base_score: delta.base_score!,
+          target_score: delta.target_score!,
+          delta: delta.delta!
+        })),
+      flipped_to_fail: comparison.flipped_to_fail.length,
+      checked_at: new Date().toISOString()
+    };
+
+    await updateTestRun(runId, {
+      is_regression: comparison.is_regression,
+      regression: summary
+    });
+
+    if (comparison.is_regression) {
+      console.warn(`🚨 [QAComparison] Run ${runId} is a regression: ${summary.regressed_categories.map(c => `${c.category} ${c.delta.toFixed(1)}`).join(', ')}`);
+    }
+
+    return summary;
+  } catch (error) {
+    console.error('❌ [QAComparison] Regression check failed:', error);
+    return null;
+  }
+}
@@ -20,7 +20,7 @@
  * Dit is HR Bot product-specifieke code.
  */
 
-import OpenAI from 'openai';
+import { getLLMProvider } from '@/lib/bot/providers';
 import {
   QATestRun,
   QATestQuestion,
@@ -28,6 +28,7 @@ import {
   QAEvaluation,
   QATestSummary,
   QACostBreakdown,
+  QAConversationTurnResult,
   CATEGORY_INFO
 } from './types';
 import {
@@ -39,34 +40,11 @@ import {
 } from './service';
 
 // ========================================
-// OPENAI CLIENT
+// MODEL
 // ========================================
 
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is not configured');
-    }
-    openaiClient = new OpenAI({ apiKey });
-  }
-  return openaiClient;
-}
-
-// ========================================
-// COST TRACKING
-// ========================================
-
-// GPT-4o pricing for evaluation (need quality judgment)
-const INPUT_COST_PER_MILLION = 2.50;
-const OUTPUT_COST_PER_MILLION = 10.00;
-
-function calculateCost(inputTokens: number, outputTokens: number): number {
-  return (inputTokens / 1000000) * INPUT_COST_PER_MILLION +
-         (outputTokens / 1000000) * OUTPUT_COST_PER_MILLION;
-}
+// Volledige GPT-4o voor evaluatie (kwaliteitsoordeel), prijs via LLM provider
+const EVALUATION_MODEL = 'gpt-4o';
 
 // ========================================
 // EVALUATION PROMPTS
@@ -204,9 +182,46 @@ Een bot die zegt "volgens het beleid krijg je X vakantiedagen, voor jouw exacte
   multilingual: {
     extra: 'FOCUS: Is het antwoord in de juiste taal? Is de vertaling/formulering correct?',
     fields: '{ "correct_language": true/false, "translation_quality": 0-100 }'
+  },
+  multi_turn: {
+    // Alleen gebruikt als er geen beurten zijn uitgevoerd; gesprekken gaan via CONVERSATION_EVALUATION_PROMPT
+    extra: 'FOCUS: Begrijpt de bot de vervolgvraag in de context van het gesprek?',
+    fields: '{ "follow_up_resolved": true/false }'
   }
 };
 
+const CONVERSATION_EVALUATION_PROMPT = `Je bent een eerlijke QA evaluator voor een HR chatbot. Je beoordeelt een GESPREK van meerdere beurten.
+
+{transcript}
+
+Vanaf beurt 2 zijn de berichten VERVOLGVRAGEN ("en voor parttimers?", "hoe zit dat bij ziekte?").
+Die moeten begrepen worden in de context van de eerdere beurten. "BEDOELDE VRAAG" geeft aan wat
+de gebruiker bedoelt; "ZOEKVRAAG" is hoe de bot de vervolgvraag intern heeft herschreven.
+
+EVALUATIE PER BEURT:
+1. Is het antwoord inhoudelijk correct (vergelijk met het verwachte antwoord, indien gegeven)?
+2. Vervolgvragen: gaat het antwoord over het onderwerp van de eerdere beurt, toegepast op de vervolgvraag?
+   - OPGELOST: "en voor parttimers?" na een vraag over vakantiedagen → antwoord over vakantiedagen van parttimers
+   - NIET OPGELOST: antwoord over een ander onderwerp, alleen het eerdere antwoord herhalen,
+     of terugvragen wat de gebruiker bedoelt terwijl de context duidelijk is
+
+SCORING PER BEURT (0-100):
+- 90-100: Correct en (bij vervolgvragen) goed opgelost
+- 70-89: Opgelost, kleine onnauwkeurigheden
+- 50-69: Opgelost maar mist belangrijke feiten of bevat fouten
+- 0-49: Incorrect of hallucinaties
+- Vervolgvraag NIET opgelost = MAXIMAAL 30 punten
+
+Geef JSON response (ALLEEN JSON, geen andere tekst):
+{
+  "turns": [
+    { "turn": 1, "score": <0-100>, "follow_up_resolved": null, "reasoning": "<1 zin>" },
+    { "turn": 2, "score": <0-100>, "follow_up_resolved": true/false, "reasoning": "<1 zin>" }
+  ],
+  "reasoning": "<1-2 zinnen over het hele gesprek>",
+  "issues": ["<probleem 1>", "<probleem 2>"]
+}`;
+
 // ========================================
 // SINGLE QUESTION EVALUATION
 // ========================================
@@ -217,7 +232,12 @@ Een bot die zegt "volgens het beleid krijg je X vakantiedagen, voor jouw exacte
 export async function evaluateSingleQuestion(
   question: QATestQuestion
 ): Promise<{ evaluation: QAEvaluation; score: number; passed: boolean; cost: number }> {
-  const openai = getOpenAIClient();
+  // Multi-turn scenario: beoordeel het hele gesprek
+  if (question.category === 'multi_turn' && question.turn_results && question.turn_results.length > 0) {
+    return evaluateConversation(question, question.turn_results);
+  }
+
+  const provider = getLLMProvider();
 
   const categoryConfig = CATEGORY_SPECIFIC_PROMPTS[question.category];
 
@@ -230,18 +250,17 @@ export async function evaluateSingleQuestion(
     .replace('{category_specific_fields}', categoryConfig.fields);
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',  // Use full GPT-4o for quality evaluation
+    const response = await provider.chat({
+      model: EVALUATION_MODEL,
       messages: [{ role: 'user', content: prompt }],
       temperature: 0.3,  // Lower temperature for consistent evaluation
-      response_format: { type: 'json_object' }
+      responseFormat: 'json_object',
+      purpose: 'qa-evaluation'
     });
 
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    const result = JSON.parse(response.content || '{}');
 
-    const inputTokens = response.usage?.prompt_tokens || 0;
-    const outputTokens = response.usage?.completion_tokens || 0;
-    const cost = calculateCost(inputTokens, outputTokens);
+    const cost = response.cost.totalCost;
 
     // Extract evaluation
     const evaluation: QAEvaluation = {
@@ -271,6 +290,106 @@ export async function evaluateSingleQuestion(
   }
 }
 
+/**
+ * Evaluate a multi_turn scenario: one judge call over the transcript,
+ * scored per turn. The question score is the average turn score; it only
+ * passes when every follow-up was resolved against the earlier turns.
+ *
+ * Whether the pipeline detected the follow-up (detectFollowUpQuestion)
+ * and how it expanded the query (expandQueryWithContext) is recorded
+ * per turn next to the judge's verdict.
+ */
+async function evaluateConversation(
+  question: QATestQuestion,
+  turnResults: QAConversationTurnResult[]
+): Promise<{ evaluation: QAEvaluation; score: number; passed: boolean; cost: number }> {
+  const provider = getLLMProvider();
+  const turns = question.turns || [];
+
+  const transcript = turnResults.map((result, i) => {
+    const turn = turns[i];
+    const lines = [`BEURT ${i + 1}`, `GEBRUIKER: ${result.message}`];
+    if (i > 0 && turn?.expected_resolution) {
+      lines.push(`BEDOELDE VRAAG: ${turn.expected_resolution}`);
+    }
+    lines.push(`VERWACHT ANTWOORD: ${turn?.expected_answer || 'Geen specifiek verwacht antwoord opgegeven'}`);
+    if (i > 0) {
+      lines.push(`ZOEKVRAAG: ${result.expanded_query || (result.follow_up_detected ? result.message : `${result.message} (niet als vervolgvraag herkend)`)}`);
+    }
+    lines.push(`BOT ANTWOORD: ${result.answer || '(Geen antwoord ontvangen)'}`);
+    return lines.join('\n');
+  }).join('\n\n');
+
+  try {
+    const response = await provider.chat({
+      model: EVALUATION_MODEL,
+      messages: [{ role: 'user', content: CONVERSATION_EVALUATION_PROMPT.replace('{transcript}', transcript) }],
+      temperature: 0.3,
+      responseFormat: 'json_object',
+      purpose: 'qa-evaluation'
+    });
+
+    const result = JSON.parse(response.content || '{}');
+    const judged: { turn?: number; score?: number; follow_up_resolved?: boolean | null; reasoning?: string }[] =
+      Array.isArray(result.turns) ? result.turns : [];
+
+    const turnScores = turnResults.map((turnResult, i) => {
+      const verdict = judged.find(t => t.turn === i + 1) || judged[i] || {};
+      return {
+        turn: i + 1,
+        score: Math.max(0, Math.min(100, verdict.score || 0)),
+        follow_up_resolved: i > 0 ? verdict.follow_up_resolved === true : null,
+        follow_up_detected: i > 0 ? turnResult.follow_up_detected : null,
+        expanded_query: turnResult.expanded_query,
+        reasoning: verdict.reasoning || ''
+      };
+    });
+
+    const followUps = turnScores.slice(1);
+    const resolved = followUps.filter(t => t.follow_up_resolved).length;
+    const detected = followUps.filter(t => t.follow_up_detected).length;
+
+    const score = turnScores.reduce((sum, t) => sum + t.score, 0) / turnScores.length;
+    const passed = score >= 70 && resolved === followUps.length;
+
+    const issues: string[] = Array.isArray(result.issues) ? [...result.issues] : [];
+    if (detected < followUps.length) {
+      issues.push(`Vervolgvraag niet herkend (${followUps.length - detected}/${followUps.length})`);
+    }
+
+    return {
+      evaluation: {
+        reasoning: result.reasoning || 'Geen toelichting beschikbaar',
+        issues,
+        category_specific: {
+          follow_ups: followUps.length,
+          follow_ups_resolved: resolved,
+          follow_ups_detected: detected,
+          turns: turnScores
+        }
+      },
+      score,
+      passed,
+      cost: response.cost.totalCost
+    };
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('❌ [QAEvaluator] Conversation evaluation failed:', message);
+
+    return {
+      evaluation: {
+        reasoning: `Evaluatie mislukt: ${message}`,
+        issues: ['Evaluation error'],
+        category_specific: {}
+      },
+      score: 0,
+      passed: false,
+      cost: 0
+    };
+  }
+}
+
 // ========================================
 // BATCH EVALUATION
 // ========================================
@@ -384,7 +503,7 @@ export async function calculateFinalScores(runId: string): Promise<{
     : 0;
 
   // Calculate per-category scores
-  const categories = ['retrieval', 'accuracy', 'citation', 'hallucination', 'out_of_scope', 'no_answer', 'consistency', 'multilingual'] as QACategory[];
+  const categories = ['retrieval', 'accuracy', 'citation', 'hallucination', 'out_of_scope', 'no_answer', 'consistency', 'multilingual', 'multi_turn'] as QACategory[];
   const scoresByCategory: Record<QACategory, number> = {} as Record<QACategory, number>;
 
   for (const category of categories) {
@@ -452,6 +571,9 @@ function generateSummary(
   if (scoresByCategory.multilingual < 70) {
     recommendations.push('Voeg meer meertalige documenten toe of verbeter query translation');
   }
+  if (questions.some(q => q.category === 'multi_turn') && scoresByCategory.multi_turn < 70) {
+    recommendations.push('Verbeter follow-up detectie en query expansion met gesprekscontext');
+  }
 
   // Collect common issues
   const allIssues = questions
@@ -512,8 +634,9 @@ export async function finalizeTestRun(runId: string): Promise<void> {
 
   const existingBreakdown = testRun.cost_breakdown as QACostBreakdown | null;
   const generationCost = existingBreakdown?.generation || 0;
+  const chunkingCost = existingBreakdown?.chunking || 0;
 
-  const totalCost = generationCost + executionCost + evaluationCost;
+  const totalCost = generationCost + executionCost + evaluationCost + chunkingCost;
 
   // Calculate duration
   const startedAt = testRun.started_at ? new Date(testRun.started_at).getTime() : Date.now();
@@ -530,7 +653,8 @@ export async function finalizeTestRun(runId: string): Promise<void> {
     cost_breakdown: {
       generation: generationCost,
       execution: executionCost,
-      evaluation: evaluationCost
+      evaluation: evaluationCost,
+      ...(chunkingCost > 0 && { chunking: chunkingCost })
     },
     questions_completed: questions.length,
     completed_at: new Date().toISOString(),
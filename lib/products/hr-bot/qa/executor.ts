@@ -15,8 +15,7 @@
  * Dit is HR Bot product-specifieke code.
  */
 
-import OpenAI from 'openai';
-import { QATestRun, QATestQuestion, QACostBreakdown } from './types';
+import { QATestRun, QATestQuestion, QACostBreakdown, QAConversationTurnResult } from './types';
 import {
   getTestRun,
   updateTestRun,
@@ -25,39 +24,13 @@ import {
   getPendingQuestions
 } from './service';
 import { retrieveContext } from '@/lib/rag/context';
+import { ConversationMessage } from '@/lib/rag/conversation-context';
+import { Citation } from '@/lib/rag/types';
+import { prepareMessages } from '@/lib/bot/openai';
 import { generateSystemPrompt } from '@/lib/products/hr-bot/prompts';
-
-// ========================================
-// OPENAI CLIENT
-// ========================================
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is not configured');
-    }
-    openaiClient = new OpenAI({ apiKey });
-  }
-  return openaiClient;
-}
-
-// ========================================
-// COST TRACKING
-// ========================================
-
-// GPT-4o pricing
-const GPT4O_INPUT_COST = 2.50 / 1000000;
-const GPT4O_OUTPUT_COST = 10.00 / 1000000;
-
-// Embedding cost (text-embedding-3-small)
-const EMBEDDING_COST = 0.02 / 1000000;
-
-function calculateOpenAICost(inputTokens: number, outputTokens: number): number {
-  return (inputTokens * GPT4O_INPUT_COST) + (outputTokens * GPT4O_OUTPUT_COST);
-}
+import { getLLMProvider } from '@/lib/bot/providers';
+import { resolvePipelineConfig, ResolvedPipelineConfig } from './pipeline-config';
+import { buildChunkSet, deleteChunkSet } from './chunk-sets';
 
 // ========================================
 // SINGLE QUESTION EXECUTION
@@ -69,20 +42,33 @@ interface ExecutionResult {
   ragDetails: Record<string, any>;
   responseTimeMs: number;
   cost: number;
+  turnResults?: QAConversationTurnResult[];   // multi_turn scenarios
   error?: string;
 }
 
 /**
  * Execute a single question through the RAG pipeline
+ *
+ * @param pipeline - Resolved arm configuration (experiments); without it
+ *                   the tenant configuration is used, same as /api/chat
  */
 export async function executeSingleQuestion(
   question: QATestQuestion,
-  tenantId: string
+  tenantId: string,
+  pipeline?: ResolvedPipelineConfig
 ): Promise<ExecutionResult> {
   const startTime = Date.now();
-  const openai = getOpenAIClient();
+  const provider = getLLMProvider();
 
   try {
+    const { topK, retrieval, promptProfile, modelSettings } =
+      pipeline || (await resolvePipelineConfig(tenantId, null)).resolved;
+
+    // Multi-turn scenario: speel het hele gesprek af
+    if (question.category === 'multi_turn' && question.turns && question.turns.length > 0) {
+      return executeConversation(question, tenantId, { topK, retrieval, promptProfile, modelSettings });
+    }
+
     // Step 1: Retrieve context from RAG
     console.log(`🔍 [QAExecutor] Retrieving context for: "${question.question.substring(0, 50)}..."`);
 
@@ -92,29 +78,30 @@ export async function executeSingleQuestion(
       embeddingTokens,
       embeddingCost,
       ragDetails
-    } = await retrieveContext(tenantId, question.question);
+    } = await retrieveContext(tenantId, question.question, topK, false, undefined, retrieval);
 
-    // Step 2: Generate system prompt
-    const systemPrompt = generateSystemPrompt(contextText, question.language);
+    // Step 2: Generate system prompt (zelfde tenant prompt profiel als /api/chat, tenzij de arm het wijzigt)
+    const systemPrompt = generateSystemPrompt(contextText, question.language, promptProfile);
 
-    // Step 3: Call OpenAI to generate answer
+    // Step 3: Call LLM provider to generate answer (zelfde model settings als /api/chat)
     const messages = [
       { role: 'system' as const, content: systemPrompt },
       { role: 'user' as const, content: question.question }
     ];
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const completion = await provider.chat({
+      model: modelSettings.model,
       messages,
-      temperature: 0.7
+      temperature: modelSettings.temperature,
+      maxOutputTokens: modelSettings.maxOutputTokens,
+      purpose: 'chat'
     });
 
-    const answer = completion.choices[0].message.content || '';
+    const answer = completion.content;
 
-    // Calculate costs
-    const inputTokens = completion.usage?.prompt_tokens || 0;
-    const outputTokens = completion.usage?.completion_tokens || 0;
-    const openaiCost = calculateOpenAICost(inputTokens, outputTokens);
+    // Calculate costs (via provider pricing)
+    const { inputTokens, outputTokens } = completion.usage;
+    const openaiCost = completion.cost.totalCost;
     const totalCost = embeddingCost + openaiCost;
 
     const responseTimeMs = Date.now() - startTime;
@@ -127,10 +114,13 @@ export async function executeSingleQuestion(
       ragDetails: {
         ...ragDetails,
         openai: {
-          model: 'gpt-4o',
+          model: modelSettings.model,
+          temperature: modelSettings.temperature,
+          maxOutputTokens: modelSettings.maxOutputTokens,
           inputTokens,
           outputTokens,
-          cost: openaiCost
+          cost: openaiCost,
+          promptProfileVersion: promptProfile.version
         }
       },
       responseTimeMs,
@@ -151,6 +141,142 @@ export async function executeSingleQuestion(
   }
 }
 
+// ========================================
+// MULTI-TURN SCENARIO EXECUTION
+// ========================================
+
+/**
+ * Execute a scripted conversation turn by turn, carrying the history the
+ * same way /api/chat does: the full history goes to retrieveContext
+ * (follow-up detection + query expansion) and prepareMessages trims it
+ * to the tenant history window for the LLM call.
+ *
+ * The answer to the last turn becomes actual_answer; every turn is kept
+ * in turnResults for the evaluator.
+ */
+async function executeConversation(
+  question: QATestQuestion,
+  tenantId: string,
+  pipeline: Pick<ResolvedPipelineConfig, 'topK' | 'retrieval' | 'promptProfile' | 'modelSettings'>
+): Promise<ExecutionResult> {
+  const startTime = Date.now();
+  const provider = getLLMProvider();
+  const turns = question.turns || [];
+
+  const history: ConversationMessage[] = [];
+  const turnResults: QAConversationTurnResult[] = [];
+  let totalCost = 0;
+  let lastCitations: Citation[] = [];
+  let lastRagDetails: ExecutionResult['ragDetails'] = {};
+
+  try {
+    const { topK, retrieval, promptProfile, modelSettings } = pipeline;
+
+    for (const [index, turn] of turns.entries()) {
+      const turnStart = Date.now();
+      console.log(`💬 [QAExecutor] Turn ${index + 1}/${turns.length}: "${turn.message.substring(0, 50)}"`);
+
+      const {
+        contextText,
+        citations,
+        embeddingCost,
+        ragDetails
+      } = await retrieveContext(
+        tenantId,
+        turn.message,
+        topK,       // Zelfde als losse QA vragen
+        false,      // skipTenantValidation
+        history,    // Voor follow-up detectie en query expansion
+        retrieval
+      );
+
+      const systemPrompt = generateSystemPrompt(contextText, question.language, promptProfile);
+      const messages = prepareMessages(systemPrompt, history, turn.message, modelSettings.historyWindow);
+
+      const completion = await provider.chat({
+        model: modelSettings.model,
+        messages,
+        temperature: modelSettings.temperature,
+        maxOutputTokens: modelSettings.maxOutputTokens,
+        purpose: 'chat'
+      });
+
+      const answer = completion.content;
+      const turnCost = embeddingCost + completion.cost.totalCost;
+      const contextExpansion = ragDetails.query?.contextExpansion;
+
+      turnResults.push({
+        message: turn.message,
+        answer,
+        sources: Array.from(new Set(
+          citations.flatMap(c => c.references.map(r => r.file?.name).filter((name): name is string => !!name))
+        )),
+        follow_up_detected: !!contextExpansion,
+        expanded_query: contextExpansion?.wasExpanded ? contextExpansion.expandedQuery : null,
+        response_time_ms: Date.now() - turnStart,
+        cost: turnCost
+      });
+
+      // Geschiedenis zoals de chat widget die meestuurt
+      history.push({ role: 'user', content: turn.message });
+      history.push({ role: 'assistant', content: answer });
+
+      totalCost += turnCost;
+      lastCitations = citations;
+      lastRagDetails = {
+        ...ragDetails,
+        openai: {
+          model: modelSettings.model,
+          temperature: modelSettings.temperature,
+          maxOutputTokens: modelSettings.maxOutputTokens,
+          inputTokens: completion.usage.inputTokens,
+          outputTokens: completion.usage.outputTokens,
+          cost: completion.cost.totalCost,
+          promptProfileVersion: promptProfile.version
+        }
+      };
+    }
+
+    const responseTimeMs = Date.now() - startTime;
+    const detected = turnResults.slice(1).filter(t => t.follow_up_detected).length;
+    console.log(`✅ [QAExecutor] Conversation of ${turns.length} turns in ${responseTimeMs}ms (${detected}/${turns.length - 1} follow-ups detected)`);
+
+    return {
+      answer: turnResults[turnResults.length - 1]?.answer || '',
+      citations: lastCitations,
+      ragDetails: lastRagDetails,
+      responseTimeMs,
+      cost: totalCost,
+      turnResults
+    };
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ [QAExecutor] Conversation failed at turn ${turnResults.length + 1}:`, message);
+
+    turnResults.push({
+      message: turns[turnResults.length]?.message || '',
+      answer: '',
+      sources: [],
+      follow_up_detected: false,
+      expanded_query: null,
+      response_time_ms: 0,
+      cost: 0,
+      error: message
+    });
+
+    return {
+      answer: '',
+      citations: [],
+      ragDetails: { error: message },
+      responseTimeMs: Date.now() - startTime,
+      cost: totalCost,
+      turnResults,
+      error: `Turn ${turnResults.length}: ${message}`
+    };
+  }
+}
+
 // ========================================
 // BATCH EXECUTION
 // ========================================
@@ -164,6 +290,8 @@ export async function executeTestRunQuestions(
   console.log(`\n🎯 [QAExecutor] Starting execution for run ${testRun.id}`);
 
   let totalCost = 0;
+  let chunkingCost = 0;
+  const chunking = testRun.pipeline_config?.chunking;
 
   try {
     // Update status
@@ -175,6 +303,26 @@ export async function executeTestRunQuestions(
     // Get all pending questions
     const { questions } = await getTestQuestions(testRun.id, { status: 'pending' });
 
+    // Pipeline configuratie één keer per run: tenant config + eventuele arm config
+    const { resolved: pipeline, error: pipelineError } = await resolvePipelineConfig(
+      testRun.tenant_id,
+      testRun.pipeline_config
+    );
+    if (pipelineError) {
+      throw new Error(`Pipeline config: ${pipelineError}`);
+    }
+
+    // Arm met eigen chunking: documenten opnieuw chunken in een scratch
+    // chunk set (ID = run) en alleen daarin zoeken
+    if (chunking) {
+      const chunkSet = await buildChunkSet(testRun.tenant_id, testRun.id, chunking);
+      chunkingCost = chunkSet.cost;
+      if (chunkSet.error) {
+        throw new Error(`Chunk set: ${chunkSet.error}`);
+      }
+      pipeline.retrieval.chunkSetId = testRun.id;
+    }
+
     console.log(`📋 [QAExecutor] Executing ${questions.length} questions`);
 
     let executedCount = 0;
@@ -187,7 +335,7 @@ export async function executeTestRunQuestions(
       });
 
       // Execute
-      const result = await executeSingleQuestion(question, testRun.tenant_id);
+      const result = await executeSingleQuestion(question, testRun.tenant_id, pipeline);
 
       // Update question with results
       if (result.error) {
@@ -196,6 +344,7 @@ export async function executeTestRunQuestions(
           error_message: result.error,
           execution_cost: result.cost,
           response_time_ms: result.responseTimeMs,
+          ...(result.turnResults && { turn_results: result.turnResults }),
           executed_at: new Date().toISOString()
         });
         errorCount++;
@@ -207,6 +356,7 @@ export async function executeTestRunQuestions(
           rag_details: result.ragDetails,
           execution_cost: result.cost,
           response_time_ms: result.responseTimeMs,
+          ...(result.turnResults && { turn_results: result.turnResults }),
           executed_at: new Date().toISOString()
         });
       }
@@ -237,7 +387,8 @@ export async function executeTestRunQuestions(
       cost_breakdown: {
         generation: existingBreakdown?.generation || 0,
         execution: totalCost,
-        evaluation: existingBreakdown?.evaluation || 0
+        evaluation: existingBreakdown?.evaluation || 0,
+        ...(chunking && { chunking: chunkingCost })
       }
     });
 
@@ -253,6 +404,10 @@ export async function executeTestRunQuestions(
     });
 
     return { success: false, totalCost, error: error.message };
+  } finally {
+    if (chunking) {
+      await deleteChunkSet(testRun.id);
+    }
   }
 }
 
@@ -260,11 +415,13 @@ export async function executeTestRunQuestions(
 // FULL TEST RUN ORCHESTRATION
 // ========================================
 
-import { generateQuestionsForTestRun } from './question-generator';
+import { generateQuestionsForTestRun, copyQuestionsFromRun, copyQuestionsFromTestSet } from './question-generator';
 import { evaluateTestRunQuestions, finalizeTestRun } from './evaluator';
+import { capturePipelineSnapshot, checkRunRegression } from './comparison';
 
 /**
  * Run complete test: generate → execute → evaluate → finalize
+ * (+ regression check when the run has a baseline run)
  */
 export async function runCompleteTest(runId: string): Promise<{
   success: boolean;
@@ -279,9 +436,17 @@ export async function runCompleteTest(runId: string): Promise<{
       throw new Error(fetchError || 'Test run not found');
     }
 
-    // Phase 1: Generate questions
+    // Snapshot van configuratie en documenten, voor vergelijking met andere runs
+    const snapshot = await capturePipelineSnapshot(testRun.tenant_id, testRun.pipeline_config);
+    await updateTestRun(runId, { pipeline_snapshot: snapshot });
+
+    // Phase 1: Generate questions (or use a test set / the baseline run's questions)
     console.log('\n📝 PHASE 1: Generating questions...');
-    const genResult = await generateQuestionsForTestRun(testRun);
+    const genResult = testRun.test_set_id
+      ? await copyQuestionsFromTestSet(testRun, testRun.test_set_id)
+      : testRun.baseline_run_id
+        ? await copyQuestionsFromRun(testRun, testRun.baseline_run_id)
+        : await generateQuestionsForTestRun(testRun);
     if (genResult.error) {
       throw new Error(`Generation failed: ${genResult.error}`);
     }
@@ -317,6 +482,12 @@ export async function runCompleteTest(runId: string): Promise<{
     console.log('\n🏁 PHASE 4: Finalizing...');
     await finalizeTestRun(runId);
 
+    // Phase 5: Compare with baseline run (experiment arms worden onderling vergeleken)
+    if (testRun.baseline_run_id && !testRun.experiment_id) {
+      console.log('\n🔍 PHASE 5: Checking for regressions...');
+      await checkRunRegression(runId);
+    }
+
     console.log('\n✅ Test run completed successfully!');
     return { success: true };
 
@@ -0,0 +1,391 @@
+/**
+ * ========================================
+ * QA EXPERIMENTS
+ * ========================================
+ *
+ * A/B tests of pipeline configurations. An experiment runs one frozen
+ * question set (a golden test set or the questions of an existing run)
+ * through two or more named arms, each with its own QAPipelineConfig.
+ *
+ * - Every arm is a regular test run (experiment_id + experiment_arm), so
+ *   execution, the LLM-as-judge evaluator, reports and run comparison
+ *   are exactly the same for every arm
+ * - Arms run one after the other, so latency is measured under the same
+ *   load and the provider rate limits are not shared
+ * - An arm with chunking options searches its own scratch chunk set,
+ *   built from the same documents when its run starts (chunk-sets.ts)
+ * - Results put the arms side by side: score, pass rate, score per
+ *   category, latency and cost, plus the score per arm for each question
+ *
+ * v2.4: QA experiments
+ *
+ * Locatie: lib/products/hr-bot/qa/experiments.ts
+ * Dit is HR Bot product-specifieke code.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  QATestRun,
+  QATestQuestion,
+  QACategory,
+  QAExperiment,
+  QAExperimentArm,
+  QAExperimentArmResult,
+  QAExperimentQuestionRow,
+  QAExperimentResults,
+  QACostBreakdown
+} from './types';
+import { createTestRun, getTestQuestions } from './service';
+import { keyQuestions } from './comparison';
+import { runCompleteTest } from './executor';
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// CRUD
+// ========================================
+
+/**
+ * Create an experiment and a pending test run per arm.
+ * The arms are validated by the API (parsePipelineConfig).
+ */
+export async function createExperiment(
+  tenantId: string,
+  input: {
+    name: string;
+    description?: string | null;
+    testSetId?: string;
+    sourceRunId?: string;
+    arms: QAExperimentArm[];
+  }
+): Promise<{ experiment: QAExperiment | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  if (!input.testSetId && !input.sourceRunId) {
+    return { experiment: null, error: 'A test set or source run is required' };
+  }
+
+  const { data, error } = await supabase
+    .from('qa_experiments')
+    .insert({
+      tenant_id: tenantId,
+      name: input.name,
+      description: input.description || null,
+      status: 'pending',
+      test_set_id: input.testSetId || null,
+      source_run_id: input.testSetId ? null : input.sourceRunId,
+      arms: input.arms
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('❌ [QAExperiments] Error creating experiment:', error);
+    return { experiment: null, error: error.message };
+  }
+
+  // Eén run per arm, allemaal met dezelfde vragenbron
+  for (const arm of input.arms) {
+    const { testRun, error: runError } = await createTestRun(tenantId, undefined, {
+      ...(input.testSetId ? { testSetId: input.testSetId } : { baselineRunId: input.sourceRunId }),
+      experimentId: data.id,
+      experimentArm: arm.name,
+      pipelineConfig: arm.config
+    });
+
+    if (!testRun) {
+      // Runs hangen aan het experiment (ON DELETE CASCADE)
+      await supabase.from('qa_experiments').delete().eq('id', data.id);
+      return { experiment: null, error: `Could not create run for arm "${arm.name}": ${runError}` };
+    }
+  }
+
+  console.log(`✅ [QAExperiments] Created experiment ${data.id} with ${input.arms.length} arms for tenant ${tenantId}`);
+  return { experiment: data };
+}
+
+/**
+ * Get an experiment by ID
+ */
+export async function getExperiment(
+  experimentId: string
+): Promise<{ experiment: QAExperiment | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('qa_experiments')
+    .select('*')
+    .eq('id', experimentId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ [QAExperiments] Error fetching experiment:', error);
+    return { experiment: null, error: error.message };
+  }
+  if (!data) {
+    return { experiment: null, error: 'Experiment not found' };
+  }
+
+  return { experiment: data };
+}
+
+/**
+ * Recent experiments of a tenant
+ */
+export async function getExperimentsForTenant(
+  tenantId: string,
+  limit: number = 20
+): Promise<{ experiments: QAExperiment[]; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('qa_experiments')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('❌ [QAExperiments] Error fetching experiments:', error);
+    return { experiments: [], error: error.message };
+  }
+
+  return { experiments: data || [] };
+}
+
+/**
+ * Test runs of an experiment, one per arm
+ */
+export async function getExperimentRuns(
+  experimentId: string
+): Promise<{ runs: QATestRun[]; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('qa_test_runs')
+    .select('*')
+    .eq('experiment_id', experimentId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('❌ [QAExperiments] Error fetching experiment runs:', error);
+    return { runs: [], error: error.message };
+  }
+
+  return { runs: data || [] };
+}
+
+async function updateExperiment(experimentId: string, updates: Partial<QAExperiment>): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase
+    .from('qa_experiments')
+    .update(updates)
+    .eq('id', experimentId);
+
+  if (error) {
+    console.error('❌ [QAExperiments] Error updating experiment:', error);
+  }
+}
+
+// ========================================
+// EXECUTION
+// ========================================
+
+/**
+ * Run all arms of an experiment, one after the other.
+ * A failing arm does not stop the other arms; the experiment is marked
+ * failed afterwards with the arms that failed.
+ */
+export async function runExperiment(experimentId: string): Promise<{ success: boolean; error?: string }> {
+  console.log(`\n🧪 [QAExperiments] Starting experiment ${experimentId}`);
+
+  try {
+    const { experiment, error: fetchError } = await getExperiment(experimentId);
+    if (!experiment) {
+      throw new Error(fetchError || 'Experiment not found');
+    }
+
+    const { runs, error: runsError } = await getExperimentRuns(experimentId);
+    if (runsError) {
+      throw new Error(runsError);
+    }
+
+    await updateExperiment(experimentId, {
+      status: 'running',
+      started_at: new Date().toISOString()
+    });
+
+    const failedArms: string[] = [];
+
+    for (const arm of experiment.arms) {
+      const run = runs.find(r => r.experiment_arm === arm.name);
+      if (!run) {
+        failedArms.push(`${arm.name} (no run)`);
+        continue;
+      }
+
+      console.log(`\n🧪 [QAExperiments] Arm "${arm.name}" → run ${run.id}`);
+      await updateExperiment(experimentId, { current_arm: arm.name });
+
+      const result = await runCompleteTest(run.id);
+      if (!result.success) {
+        failedArms.push(`${arm.name}: ${result.error}`);
+      }
+    }
+
+    // Totale kosten over de runs zoals de finalize ze heeft opgeslagen
+    const { runs: finishedRuns } = await getExperimentRuns(experimentId);
+    const totalCost = finishedRuns.reduce((sum, r) => sum + (Number(r.total_cost) || 0), 0);
+
+    await updateExperiment(experimentId, {
+      status: failedArms.length > 0 ? 'failed' : 'completed',
+      current_arm: null,
+      total_cost: totalCost,
+      error_message: failedArms.length > 0 ? `Failed arms: ${failedArms.join('; ')}` : null,
+      completed_at: new Date().toISOString()
+    });
+
+    console.log(`✅ [QAExperiments] Experiment ${experimentId} done (${experiment.arms.length - failedArms.length}/${experiment.arms.length} arms), cost: $${totalCost.toFixed(4)}`);
+    return failedArms.length > 0
+      ? { success: false, error: `Failed arms: ${failedArms.join('; ')}` }
+      : { success: true };
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('❌ [QAExperiments] Experiment failed:', message);
+
+    await updateExperiment(experimentId, {
+      status: 'failed',
+      current_arm: null,
+      error_message: message,
+      completed_at: new Date().toISOString()
+    });
+
+    return { success: false, error: message };
+  }
+}
+
+// ========================================
+// RESULTS
+// ========================================
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/**
+ * Summary of one arm from its run and questions
+ */
+function summarizeArm(
+  arm: QAExperimentArm,
+  run: QATestRun | null,
+  questions: QATestQuestion[]
+): QAExperimentArmResult {
+  const scored = questions.filter(q => q.score !== null);
+  const responseTimes = questions
+    .map(q => q.response_time_ms)
+    .filter((ms): ms is number => typeof ms === 'number');
+  const executionCost = questions.reduce((sum, q) => sum + (Number(q.execution_cost) || 0), 0);
+  const breakdown = run?.cost_breakdown as QACostBreakdown | null | undefined;
+
+  const scoresByCategory: Partial<Record<QACategory, number>> = {};
+  const categories = Array.from(new Set(scored.map(q => q.category)));
+  for (const category of categories) {
+    const categoryScore = average(scored.filter(q => q.category === category).map(q => q.score as number));
+    if (categoryScore !== null) scoresByCategory[category] = categoryScore;
+  }
+
+  return {
+    name: arm.name,
+    config: arm.config,
+    run,
+    overall_score: run?.overall_score ?? average(scored.map(q => q.score as number)),
+    pass_rate: scored.length > 0 ? (scored.filter(q => q.passed).length / scored.length) * 100 : null,
+    scores_by_category: scoresByCategory,
+    questions: questions.length,
+    failed_questions: questions.filter(q => q.status === 'failed').length,
+    avg_response_time_ms: average(responseTimes),
+    p95_response_time_ms: percentile(responseTimes, 95),
+    execution_cost: executionCost,
+    evaluation_cost: breakdown?.evaluation
+      ?? questions.reduce((sum, q) => sum + (Number(q.evaluation_cost) || 0), 0),
+    cost_per_question: questions.length > 0 ? executionCost / questions.length : null
+  };
+}
+
+/**
+ * Arms side by side, plus every question with its score per arm
+ */
+export async function getExperimentResults(
+  experimentId: string
+): Promise<{ results: QAExperimentResults | null; error?: string }> {
+  const { experiment, error } = await getExperiment(experimentId);
+  if (!experiment) {
+    return { results: null, error };
+  }
+
+  const { runs, error: runsError } = await getExperimentRuns(experimentId);
+  if (runsError) {
+    return { results: null, error: runsError };
+  }
+
+  const arms: QAExperimentArmResult[] = [];
+  const rows = new Map<string, QAExperimentQuestionRow>();
+
+  for (const arm of experiment.arms) {
+    const run = runs.find(r => r.experiment_arm === arm.name) || null;
+    const { questions } = run ? await getTestQuestions(run.id) : { questions: [] as QATestQuestion[] };
+
+    arms.push(summarizeArm(arm, run, questions));
+
+    keyQuestions(questions).forEach((question, key) => {
+      const row = rows.get(key) || {
+        key,
+        category: question.category,
+        language: question.language,
+        question: question.question,
+        scores: {},
+        passed: {},
+        response_time_ms: {}
+      };
+      row.scores[arm.name] = question.score;
+      row.passed[arm.name] = question.passed;
+      row.response_time_ms[arm.name] = question.response_time_ms;
+      rows.set(key, row);
+    });
+  }
+
+  return {
+    results: {
+      experiment,
+      arms,
+      questions: Array.from(rows.values())
+    }
+  };
+}
@@ -4,7 +4,7 @@
  * ========================================
  *
  * Complete QA testing system for HR Bot deployments.
- * Tests bot accuracy across 8 categories using LLM-as-judge.
+ * Tests bot accuracy across 9 categories using LLM-as-judge.
  *
  * Module exports:
  * - types: All type definitions and constants
@@ -13,6 +13,12 @@
  * - evaluator: LLM-as-judge evaluation
  * - question-generator: Automated question generation
  * - pdf-generator: Professional PDF reports
+ * - comparison: Run comparison and regression detection
+ * - test-sets: Golden test sets (build, export, import)
+ * - retrieval-eval: Retrieval metrics (recall@k, MRR, nDCG) without LLM
+ * - pipeline-config: Explicit pipeline configuration per run (experiment arms)
+ * - chunk-sets: Scratch chunk sets for arms with their own chunking options
+ * - experiments: A/B pipeline configurations on one frozen question set
  *
  * Locatie: lib/products/hr-bot/qa/index.ts
  * Dit is HR Bot product-specifieke code.
@@ -32,11 +38,40 @@ export {
   type QAQuestionStatus,
   type QATestQuestion,
   type QAEvaluation,
+  type QAConversationTurn,
+  type QAConversationTurnResult,
   type QATestTemplate,
   type QAExpectedSource,
   type QATemplateInput,
   type TenantTestOverview,
   type QATestProgress,
+  type QAPipelineSnapshot,
+  type QADocumentSnapshot,
+  type QACategoryDelta,
+  type QAQuestionChange,
+  type QAConfigChange,
+  type QADocumentChange,
+  type QARunComparison,
+  type QARegressionSummary,
+  type QATestSet,
+  type QATestSetQuestion,
+  type QATestSetQuestionInput,
+  type QATestSetOrigin,
+  type QATestSetSource,
+  type QATestSetImportError,
+  type QARetrievalEvalStatus,
+  type QARetrievalGroundTruth,
+  type QARetrievalMetrics,
+  type QARetrievalQuestionResult,
+  type QARetrievalDocumentMetrics,
+  type QARetrievalEval,
+  type QAPipelineConfig,
+  type QAExperimentStatus,
+  type QAExperimentArm,
+  type QAExperiment,
+  type QAExperimentArmResult,
+  type QAExperimentQuestionRow,
+  type QAExperimentResults,
 
   // Constants
   CATEGORY_INFO,
@@ -44,12 +79,29 @@ export {
   DEFAULT_TEST_CONFIG,
   OUT_OF_SCOPE_QUESTIONS,
   OUT_OF_SCOPE_QUESTIONS_EN,
+  DEFAULT_REGRESSION_THRESHOLD,
+  PIPELINE_CONFIG_LABELS,
+  CHUNKING_OPTION_LABELS,
+  DEFAULT_RETRIEVAL_K_VALUES,
+  MIN_CONVERSATION_TURNS,
+  MAX_CONVERSATION_TURNS,
+  MIN_EXPERIMENT_ARMS,
+  MAX_EXPERIMENT_ARMS,
+  MAX_EXPERIMENT_ARM_NAME_LENGTH,
+  DEFAULT_PIPELINE_TOP_K,
+  PIPELINE_TOP_K_RANGE,
+  PIPELINE_CHUNK_SIZE_RANGE,
+  PIPELINE_CHUNK_OVERLAP_RANGE,
 
   // Helper functions
   calculateTotalQuestions,
   calculateCategoryDistribution,
   getScoreColor,
   formatScore,
+  conversationToQuestion,
+  parseConversationTurns,
+  parsePipelineConfig,
+  describePipelineConfig,
   isTestRunning
 } from './types';
 
@@ -109,9 +161,74 @@ export {
 // QUESTION GENERATOR EXPORTS
 // ========================================
 export {
-  generateQuestionsForTestRun
+  generateQuestionsForTestRun,
+  copyQuestionsFromRun,
+  copyQuestionsFromTestSet
 } from './question-generator';
 
+// ========================================
+// COMPARISON EXPORTS
+// ========================================
+export {
+  capturePipelineSnapshot,
+  diffPipelineSnapshots,
+  compareRunQuestions,
+  compareTestRuns,
+  checkRunRegression,
+  keyQuestions
+} from './comparison';
+
+// ========================================
+// TEST SET EXPORTS
+// ========================================
+export {
+  getTestSets,
+  getTestSet,
+  getTestSetQuestions,
+  createTestSet,
+  updateTestSet,
+  deleteTestSet,
+  setTestSetQuestions,
+  exportTestSetJSON,
+  exportTestSetCSV,
+  parseTestSetImport,
+  MAX_TEST_SET_QUESTIONS
+} from './test-sets';
+
+// ========================================
+// RETRIEVAL EVALUATION EXPORTS
+// ========================================
+export {
+  calculateRetrievalMetrics,
+  summarizeRetrievalResults,
+  createRetrievalEval,
+  getRetrievalEval,
+  getRetrievalEvalsForTenant,
+  runRetrievalEval
+} from './retrieval-eval';
+
+// ========================================
+// EXPERIMENT EXPORTS
+// ========================================
+export {
+  resolvePipelineConfig,
+  type ResolvedPipelineConfig
+} from './pipeline-config';
+
+export {
+  buildChunkSet,
+  deleteChunkSet
+} from './chunk-sets';
+
+export {
+  createExperiment,
+  getExperiment,
+  getExperimentsForTenant,
+  getExperimentRuns,
+  runExperiment,
+  getExperimentResults
+} from './experiments';
+
 // ========================================
 // PDF GENERATOR EXPORTS
 // ========================================
@@ -91,7 +91,8 @@ const CATEGORY_LABELS: Record<QACategory, string> = {
   out_of_scope: 'Out-of-scope',
   no_answer: 'Doorverwijzing',
   consistency: 'Consistentie',
-  multilingual: 'Meertalig'
+  multilingual: 'Meertalig',
+  multi_turn: 'Gesprek'
 };
 
 const CATEGORY_DESCRIPTIONS: Record<QACategory, string> = {
@@ -102,7 +103,8 @@ const CATEGORY_DESCRIPTIONS: Record<QACategory, string> = {
   out_of_scope: 'Weigert de bot niet-HR vragen?',
   no_answer: 'Verwijst de bot door bij persoonlijke vragen?',
   consistency: 'Zijn antwoorden consistent bij herhaling?',
-  multilingual: 'Werkt de bot in meerdere talen?'
+  multilingual: 'Werkt de bot in meerdere talen?',
+  multi_turn: 'Begrijpt de bot vervolgvragen in een gesprek?'
 };
 
 // ========================================
@@ -187,7 +189,7 @@ function truncate(text: string, maxLength: number): string {
 function calculateCategoryStats(questions: QATestQuestion[]): CategoryStats[] {
   const categories: QACategory[] = [
     'retrieval', 'accuracy', 'citation', 'hallucination',
-    'out_of_scope', 'no_answer', 'consistency', 'multilingual'
+    'out_of_scope', 'no_answer', 'consistency', 'multilingual', 'multi_turn'
   ];
 
   return categories.map(category => {
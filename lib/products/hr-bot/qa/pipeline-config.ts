@@ -0,0 +1,100 @@
+/**
+ * ========================================
+ * QA PIPELINE CONFIG
+ * ========================================
+ *
+ * Resolves the explicit pipeline configuration of an experiment arm
+ * (QAPipelineConfig) against the tenant configuration. What an arm does
+ * not set comes from the tenant, so an empty config is exactly what
+ * /api/chat uses.
+ *
+ * Used by the executor (retrieveContext + generateSystemPrompt + LLM
+ * call) and by the pipeline snapshot, so a run records the settings it
+ * actually ran with.
+ *
+ * Chunking options (QAPipelineConfig.chunking) are not resolved here:
+ * the executor builds a scratch chunk set for such an arm (chunk-sets.ts)
+ * and points retrieval.chunkSetId at it.
+ *
+ * v2.4: QA experiments
+ *
+ * Locatie: lib/products/hr-bot/qa/pipeline-config.ts
+ * Dit is HR Bot product-specifieke code.
+ */
+
+import { QAPipelineConfig, DEFAULT_PIPELINE_TOP_K, PIPELINE_TOP_K_RANGE } from './types';
+import { RetrievalConfig, resolveRetrievalConfig } from '@/lib/rag/retrieval-config';
+import { isRerankingEnabled } from '@/lib/rag/reranker';
+import { HybridSearchSettings } from '@/lib/rag/search-settings';
+import { ChatModelSettings, CHAT_TEMPERATURE_RANGE } from '@/lib/bot/model-settings';
+import { PromptProfile } from '@/lib/products/hr-bot/prompt-profile-types';
+import { resolvePromptProfileWithConfig } from '@/lib/products/hr-bot/prompt-profile-service';
+import { getTenantModelSettings, getTenantSearchSettings } from '@/lib/shared/tenant-config';
+
+// ========================================
+// TYPES
+// ========================================
+
+/**
+ * Everything the executor needs to answer a question with one arm
+ */
+export interface ResolvedPipelineConfig {
+  topK: number;
+  retrieval: RetrievalConfig;
+  searchSettings: HybridSearchSettings;    // Tenant settings + arm overrides
+  rerankingActive: boolean;                // Arm setting AND a reranker is configured
+  promptProfile: PromptProfile;
+  modelSettings: ChatModelSettings;
+}
+
+// ========================================
+// RESOLVER
+// ========================================
+
+/**
+ * Resolve an arm configuration (null = tenant configuration)
+ *
+ * @param tenantId - The tenant ID
+ * @param config - Pipeline configuration of the arm
+ * @param bypassCache - Force fresh tenant settings (snapshots)
+ */
+export async function resolvePipelineConfig(
+  tenantId: string,
+  config: QAPipelineConfig | null | undefined,
+  bypassCache: boolean = false
+): Promise<{ resolved: ResolvedPipelineConfig; error?: string }> {
+  const [tenantModelSettings, tenantSearchSettings, promptResult] = await Promise.all([
+    getTenantModelSettings(tenantId, bypassCache),
+    getTenantSearchSettings(tenantId, bypassCache),
+    resolvePromptProfileWithConfig(tenantId, config?.prompt, bypassCache)
+  ]);
+
+  const retrieval = resolveRetrievalConfig(config?.retrieval);
+
+  const modelSettings: ChatModelSettings = { ...tenantModelSettings };
+  if (config?.model?.model) {
+    modelSettings.model = config.model.model;
+  }
+  if (typeof config?.model?.temperature === 'number') {
+    modelSettings.temperature = Math.min(
+      CHAT_TEMPERATURE_RANGE.max,
+      Math.max(CHAT_TEMPERATURE_RANGE.min, config.model.temperature)
+    );
+  }
+
+  const topK = typeof config?.topK === 'number'
+    ? Math.min(PIPELINE_TOP_K_RANGE.max, Math.max(PIPELINE_TOP_K_RANGE.min, Math.round(config.topK)))
+    : DEFAULT_PIPELINE_TOP_K;
+
+  return {
+    resolved: {
+      topK,
+      retrieval,
+      searchSettings: { ...tenantSearchSettings, ...retrieval.searchOverrides },
+      rerankingActive: retrieval.rerankingEnabled && isRerankingEnabled(),
+      promptProfile: promptResult.profile,
+      modelSettings
+    },
+    error: promptResult.error
+  };
+}
@@ -13,6 +13,7 @@
  * 4. Manual templates (admin-created)
  * 5. Consistency checks (same question multiple times)
  * 6. Multilingual variants
+ * 7. Multi-turn scenarios (question + context-dependent follow-up)
  *
  * v2.3: QA Testing Module
  *
@@ -20,24 +21,29 @@
  * Dit is HR Bot product-specifieke code.
  */
 
-import OpenAI from 'openai';
+import { getLLMProvider } from '@/lib/bot/providers';
 import {
   QATestRun,
   QATestQuestion,
   QATestTemplate,
   QACategory,
   QATestConfig,
+  QAConversationTurn,
   OUT_OF_SCOPE_QUESTIONS,
   OUT_OF_SCOPE_QUESTIONS_EN,
-  calculateCategoryDistribution
+  calculateCategoryDistribution,
+  conversationToQuestion
 } from './types';
 import {
   updateTestRun,
   getTemplates,
   getRandomChunksForTenant,
+  getTestQuestions,
   insertTestQuestions
 } from './service';
+import { getTestSetQuestions } from './test-sets';
 import { generateEmbedding } from '@/lib/rag/embeddings';
+import type { DocumentChunk } from '@/lib/rag/types';
 import { supabase } from '@/lib/shared/supabase/supabase-client';
 
 // ========================================
@@ -49,7 +55,7 @@ interface ChunkInfo {
   content: string;
   document_id: string;
   page_number: number | null;
-  metadata: Record<string, any>;
+  metadata: DocumentChunk['metadata'];
   document_filename: string;
 }
 
@@ -62,6 +68,7 @@ interface GeneratedQuestion {
   source_page: number | null;
   is_auto_generated: boolean;
   language: string;
+  turns?: QAConversationTurn[] | null;  // multi_turn scenarios
   // Phase 2: Ground truth fields for better evaluation
   ground_truth_content?: string;  // Literal chunk content (max 500 chars)
   key_facts?: string[];           // Specific facts that must be in the answer
@@ -80,36 +87,6 @@ interface VerificationResult {
   cost: number;
 }
 
-// ========================================
-// OPENAI CLIENT
-// ========================================
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is not configured');
-    }
-    openaiClient = new OpenAI({ apiKey });
-  }
-  return openaiClient;
-}
-
-// ========================================
-// COST TRACKING
-// ========================================
-
-// GPT-4o-mini pricing: $0.15 per 1M input, $0.60 per 1M output
-const INPUT_COST_PER_MILLION = 0.15;
-const OUTPUT_COST_PER_MILLION = 0.60;
-
-function calculateCost(inputTokens: number, outputTokens: number): number {
-  return (inputTokens / 1000000) * INPUT_COST_PER_MILLION +
-         (outputTokens / 1000000) * OUTPUT_COST_PER_MILLION;
-}
-
 // ========================================
 // HALLUCINATION VERIFICATION
 // ========================================
@@ -313,6 +290,32 @@ Geef JSON output:
   "expected_document": "{filename}"
 }`;
 
+const MULTI_TURN_PROMPT = `Je bent een QA test maker. Genereer een kort GESPREK om te testen of een HR chatbot vervolgvragen begrijpt.
+
+DOCUMENT CONTENT:
+{content}
+
+BRON: {filename}, pagina {page}
+
+Genereer een gesprek van 2 of 3 beurten van de gebruiker:
+1. De eerste beurt is een volledige vraag die met deze tekst beantwoord kan worden
+2. De volgende beurten zijn KORTE vervolgvragen die ZONDER de eerdere beurt niet te begrijpen zijn
+   (bijv. "En voor parttimers?", "Hoe zit dat bij ziekte?", "Wat is hun e-mailadres?")
+3. Elke vervolgvraag kan ook met deze tekst beantwoord worden
+4. Alles in het Nederlands
+
+Per beurt:
+- expected_answer: het antwoord volgens de tekst (max 2 zinnen, exacte getallen/termen)
+- expected_resolution (alleen vervolgvragen): de vervolgvraag herschreven als zelfstandige vraag
+
+Geef JSON output:
+{
+  "turns": [
+    { "message": "Eerste vraag", "expected_answer": "..." },
+    { "message": "Korte vervolgvraag", "expected_answer": "...", "expected_resolution": "Zelfstandige versie van de vervolgvraag" }
+  ]
+}`;
+
 const HALLUCINATION_PROMPT = `Je bent een QA test maker. Genereer een vraag over een HR-onderwerp dat NIET in de documenten staat.
 
 CONTEXT: Dit is voor een bedrijf met HR documenten over vakantie, ziekte, salaris, etc.
@@ -439,7 +442,8 @@ export async function generateQuestionsForTestRun(
         source_document: template.expected_sources?.[0]?.document || null,
         source_page: template.expected_sources?.[0]?.page || null,
         is_auto_generated: false,
-        language: template.language
+        language: template.language,
+        turns: template.turns || null
       });
     }
 
@@ -459,7 +463,8 @@ export async function generateQuestionsForTestRun(
       'out_of_scope',
       'no_answer',
       'consistency',
-      'multilingual'
+      'multilingual',
+      'multi_turn'
     ];
 
     for (const category of categoriesToGenerate) {
@@ -502,6 +507,7 @@ export async function generateQuestionsForTestRun(
       source_page: q.source_page,
       is_auto_generated: q.is_auto_generated,
       language: q.language,
+      turns: q.turns || null,
       status: 'pending' as const,
       execution_cost: 0,
       evaluation_cost: 0,
@@ -559,6 +565,137 @@ export async function generateQuestionsForTestRun(
   }
 }
 
+// ========================================
+// PINNED QUESTION SET
+// ========================================
+
+/**
+ * Reuse the questions of an earlier run instead of generating new ones.
+ * Both runs then share the same question set and can be compared
+ * question by question (see comparison.ts). No LLM cost.
+ */
+export async function copyQuestionsFromRun(
+  testRun: QATestRun,
+  sourceRunId: string
+): Promise<GenerationResult> {
+  console.log(`\n📌 [QAGenerator] Reusing questions of run ${sourceRunId} for run ${testRun.id}`);
+
+  return insertPinnedQuestions(testRun, async () => {
+    const { questions, error } = await getTestQuestions(sourceRunId);
+    if (error) throw new Error(`Failed to load baseline questions: ${error}`);
+    if (questions.length === 0) throw new Error('Baseline run has no questions');
+
+    return questions.map(q => ({
+      category: q.category,
+      question: q.question,
+      expected_answer: q.expected_answer,
+      source_chunk_id: q.source_chunk_id,
+      source_document: q.source_document,
+      source_page: q.source_page,
+      is_auto_generated: q.is_auto_generated,
+      language: q.language,
+      turns: q.turns || null
+    }));
+  });
+}
+
+/**
+ * Use the questions of a golden test set (see test-sets.ts)
+ */
+export async function copyQuestionsFromTestSet(
+  testRun: QATestRun,
+  testSetId: string
+): Promise<GenerationResult> {
+  console.log(`\n📌 [QAGenerator] Using test set ${testSetId} for run ${testRun.id}`);
+
+  return insertPinnedQuestions(testRun, async () => {
+    const { questions, error } = await getTestSetQuestions(testSetId);
+    if (error) throw new Error(`Failed to load test set questions: ${error}`);
+    if (questions.length === 0) throw new Error('Test set has no questions');
+
+    return questions.map(q => ({
+      category: q.category,
+      question: q.question,
+      expected_answer: q.expected_answer,
+      source_chunk_id: null,
+      source_document: q.source_document,
+      source_page: q.source_page,
+      is_auto_generated: false,
+      language: q.language,
+      turns: q.turns
+    }));
+  });
+}
+
+/**
+ * Insert fixed questions for a run, with the same status updates as
+ * generateQuestionsForTestRun
+ */
+async function insertPinnedQuestions(
+  testRun: QATestRun,
+  loadQuestions: () => Promise<GeneratedQuestion[]>
+): Promise<GenerationResult> {
+  await updateTestRun(testRun.id, {
+    status: 'generating',
+    current_phase: 'generating',
+    started_at: new Date().toISOString()
+  });
+
+  try {
+    const questions = await loadQuestions();
+
+    const { count, error: insertError } = await insertTestQuestions(questions.map(q => ({
+      ...q,
+      test_run_id: testRun.id,
+      tenant_id: testRun.tenant_id,
+      status: 'pending' as const,
+      execution_cost: 0,
+      evaluation_cost: 0,
+      actual_answer: null,
+      citations: null,
+      rag_details: null,
+      response_time_ms: null,
+      score: null,
+      passed: null,
+      evaluation: null,
+      error_message: null,
+      executed_at: null,
+      evaluated_at: null
+    })));
+
+    if (insertError) {
+      throw new Error(`Failed to insert questions: ${insertError}`);
+    }
+
+    await updateTestRun(testRun.id, {
+      status: 'running',
+      current_phase: 'executing',
+      total_questions: count,
+      cost_breakdown: {
+        generation: 0,
+        execution: 0,
+        evaluation: 0
+      }
+    });
+
+    console.log(`✅ [QAGenerator] Inserted ${count} fixed questions`);
+
+    return { questions, cost: 0 };
+
+  } catch (error) {
+    console.error('❌ [QAGenerator] Inserting fixed questions failed:', error);
+    const message = error instanceof Error ? error.message : String(error);
+
+    await updateTestRun(testRun.id, {
+      status: 'failed',
+      error_message: message,
+      error_details: { phase: 'generation', error: String(error) }
+    });
+
+    return { questions: [], cost: 0, error: message };
+  }
+}
+
 // ========================================
 // CATEGORY-SPECIFIC GENERATION
 // ========================================
@@ -599,6 +736,9 @@ async function generateCategoryQuestions(
     case 'multilingual':
       return generateMultilingualQuestions(chunks, count, languages);
 
+    case 'multi_turn':
+      return generateMultiTurnScenarios(chunks, count);
+
     default:
       return { questions: [], cost: 0 };
   }
@@ -616,7 +756,7 @@ async function generateFromChunks(
 ): Promise<GenerationResult> {
   const questions: GeneratedQuestion[] = [];
   let totalCost = 0;
-  const openai = getOpenAIClient();
+  const provider = getLLMProvider();
 
   // Shuffle chunks
   const shuffledChunks = [...chunks].sort(() => Math.random() - 0.5);
@@ -636,14 +776,15 @@ async function generateFromChunks(
       .replace(/{page}/g, String(chunk.page_number || 1));
 
     try {
-      const response = await openai.chat.completions.create({
+      const response = await provider.chat({
         model: 'gpt-4o-mini',
         messages: [{ role: 'user', content: prompt }],
         temperature: 0.7,
-        response_format: { type: 'json_object' }
+        responseFormat: 'json_object',
+        purpose: 'qa-question-generation'
       });
 
-      const result = JSON.parse(response.choices[0].message.content || '{}');
+      const result = JSON.parse(response.content || '{}');
 
       if (result.question) {
         // Phase 2: Store literal chunk content and key facts as ground truth
@@ -672,9 +813,7 @@ async function generateFromChunks(
       }
 
       // Calculate cost
-      const inputTokens = response.usage?.prompt_tokens || 0;
-      const outputTokens = response.usage?.completion_tokens || 0;
-      totalCost += calculateCost(inputTokens, outputTokens);
+      totalCost += response.cost.totalCost;
 
     } catch (error: any) {
       console.warn(`⚠️ [QAGenerator] Failed to generate question from chunk:`, error.message);
@@ -705,7 +844,7 @@ async function generateHallucinationQuestions(
 ): Promise<GenerationResult> {
   const questions: GeneratedQuestion[] = [];
   let totalCost = 0;
-  const openai = getOpenAIClient();
+  const provider = getLLMProvider();
 
   const MAX_RETRIES_PER_SLOT = 3;  // Max attempts to find a unique question per slot
   const usedTopics = new Set<string>(); // Track used topics to avoid duplicates
@@ -721,19 +860,18 @@ async function generateHallucinationQuestions(
 
       try {
         // Generate candidate question
-        const response = await openai.chat.completions.create({
+        const response = await provider.chat({
           model: 'gpt-4o-mini',
           messages: [{ role: 'user', content: HALLUCINATION_PROMPT }],
           temperature: 0.9 + (attempts * 0.05), // Increase creativity on retries
-          response_format: { type: 'json_object' }
+          responseFormat: 'json_object',
+          purpose: 'qa-question-generation'
         });
 
-        const result = JSON.parse(response.choices[0].message.content || '{}');
+        const result = JSON.parse(response.content || '{}');
 
         // Track generation cost
-        const inputTokens = response.usage?.prompt_tokens || 0;
-        const outputTokens = response.usage?.completion_tokens || 0;
-        totalCost += calculateCost(inputTokens, outputTokens);
+        totalCost += response.cost.totalCost;
 
         if (!result.question) {
           console.warn(`   ⚠️ Attempt ${attempts}: No question generated`);
@@ -804,7 +942,7 @@ async function generateOutOfScopeQuestions(
 ): Promise<GenerationResult> {
   const questions: GeneratedQuestion[] = [];
   let totalCost = 0;
-  const openai = getOpenAIClient();
+  const provider = getLLMProvider();
 
   // Shuffle categories for variety
   const shuffledCategories = [...OUT_OF_SCOPE_CATEGORIES].sort(() => Math.random() - 0.5);
@@ -821,14 +959,15 @@ async function generateOutOfScopeQuestions(
       .replace('{description}', categoryInfo.description);
 
     try {
-      const response = await openai.chat.completions.create({
+      const response = await provider.chat({
         model: 'gpt-4o-mini',
         messages: [{ role: 'user', content: prompt }],
         temperature: 0.9,  // High creativity for diverse questions
-        response_format: { type: 'json_object' }
+        responseFormat: 'json_object',
+        purpose: 'qa-question-generation'
       });
 
-      const result = JSON.parse(response.choices[0].message.content || '{}');
+      const result = JSON.parse(response.content || '{}');
 
       if (result.question) {
         questions.push({
@@ -843,9 +982,7 @@ async function generateOutOfScopeQuestions(
         });
       }
 
-      const inputTokens = response.usage?.prompt_tokens || 0;
-      const outputTokens = response.usage?.completion_tokens || 0;
-      totalCost += calculateCost(inputTokens, outputTokens);
+      totalCost += response.cost.totalCost;
 
     } catch (error: any) {
       console.warn(`   ⚠️ Failed to generate out-of-scope question:`, error.message);
@@ -878,18 +1015,19 @@ async function generateOutOfScopeQuestions(
 async function generateNoAnswerQuestions(count: number): Promise<GenerationResult> {
   const questions: GeneratedQuestion[] = [];
   let totalCost = 0;
-  const openai = getOpenAIClient();
+  const provider = getLLMProvider();
 
   for (let i = 0; i < count; i++) {
     try {
-      const response = await openai.chat.completions.create({
+      const response = await provider.chat({
         model: 'gpt-4o-mini',
         messages: [{ role: 'user', content: NO_ANSWER_PROMPT }],
         temperature: 0.8,
-        response_format: { type: 'json_object' }
+        responseFormat: 'json_object',
+        purpose: 'qa-question-generation'
       });
 
-      const result = JSON.parse(response.choices[0].message.content || '{}');
+      const result = JSON.parse(response.content || '{}');
 
       if (result.question) {
         questions.push({
@@ -904,9 +1042,7 @@ async function generateNoAnswerQuestions(count: number): Promise<GenerationResul
         });
       }
 
-      const inputTokens = response.usage?.prompt_tokens || 0;
-      const outputTokens = response.usage?.completion_tokens || 0;
-      totalCost += calculateCost(inputTokens, outputTokens);
+      totalCost += response.cost.totalCost;
 
     } catch (error: any) {
       console.warn(`⚠️ [QAGenerator] Failed to generate no-answer question:`, error.message);
@@ -953,7 +1089,7 @@ async function generateMultilingualQuestions(
 ): Promise<GenerationResult> {
   const questions: GeneratedQuestion[] = [];
   let totalCost = 0;
-  const openai = getOpenAIClient();
+  const provider = getLLMProvider();
 
   // Languages to test (excluding nl which is default)
   const testLanguages = languages.length > 1
@@ -993,14 +1129,15 @@ Return JSON:
 }`;
 
       try {
-        const response = await openai.chat.completions.create({
+        const response = await provider.chat({
           model: 'gpt-4o-mini',
           messages: [{ role: 'user', content: prompt }],
           temperature: 0.7,
-          response_format: { type: 'json_object' }
+          responseFormat: 'json_object',
+          purpose: 'qa-question-generation'
         });
 
-        const result = JSON.parse(response.choices[0].message.content || '{}');
+        const result = JSON.parse(response.content || '{}');
 
         if (result.question) {
           questions.push({
@@ -1015,9 +1152,7 @@ Return JSON:
           });
         }
 
-        const inputTokens = response.usage?.prompt_tokens || 0;
-        const outputTokens = response.usage?.completion_tokens || 0;
-        totalCost += calculateCost(inputTokens, outputTokens);
+        totalCost += response.cost.totalCost;
 
       } catch (error: any) {
         console.warn(`⚠️ [QAGenerator] Failed to generate ${lang} question:`, error.message);
@@ -1027,3 +1162,77 @@ Return JSON:
 
   return { questions: questions.slice(0, count), cost: totalCost };
 }
+
+// ========================================
+// MULTI-TURN SCENARIOS
+// ========================================
+
+/**
+ * Generate scripted conversations: a question from a chunk followed by
+ * context-dependent follow-ups. The scenario is stored as one question
+ * (category multi_turn) with the turns; the executor replays them with
+ * conversation history.
+ */
+async function generateMultiTurnScenarios(
+  chunks: ChunkInfo[],
+  count: number
+): Promise<GenerationResult> {
+  const questions: GeneratedQuestion[] = [];
+  let totalCost = 0;
+  const provider = getLLMProvider();
+
+  const shuffledChunks = [...chunks].sort(() => Math.random() - 0.5);
+
+  for (const chunk of shuffledChunks) {
+    if (questions.length >= count) break;
+
+    // Follow-ups need enough content to ask about
+    if (chunk.content.length < 300) continue;
+
+    const prompt = MULTI_TURN_PROMPT
+      .replace('{content}', chunk.content.slice(0, 2000))
+      .replace('{filename}', chunk.document_filename)
+      .replace(/{page}/g, String(chunk.page_number || 1));
+
+    try {
+      const response = await provider.chat({
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0.7,
+        responseFormat: 'json_object',
+        purpose: 'qa-question-generation'
+      });
+
+      totalCost += response.cost.totalCost;
+
+      const result = JSON.parse(response.content || '{}');
+      const turns: QAConversationTurn[] = (Array.isArray(result.turns) ? result.turns : [])
+        .filter((turn: QAConversationTurn) => typeof turn?.message === 'string' && turn.message.trim())
+        .slice(0, 3)
+        .map((turn: QAConversationTurn, i: number) => ({
+          message: turn.message.trim(),
+          expected_answer: turn.expected_answer || null,
+          expected_resolution: i > 0 ? turn.expected_resolution || null : null
+        }));
+
+      if (turns.length < 2) continue;
+
+      questions.push({
+        category: 'multi_turn',
+        question: conversationToQuestion(turns),
+        expected_answer: turns[turns.length - 1].expected_answer || null,
+        source_chunk_id: chunk.id,
+        source_document: chunk.document_filename,
+        source_page: chunk.page_number,
+        is_auto_generated: true,
+        language: 'nl',
+        turns
+      });
+
+    } catch (error) {
+      console.warn(`⚠️ [QAGenerator] Failed to generate multi-turn scenario:`, (error as Error).message);
+    }
+  }
+
+  return { questions, cost: totalCost };
+}
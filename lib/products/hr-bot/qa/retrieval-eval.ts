@@ -0,0 +1,467 @@
+/**
+ * ========================================
+ * QA RETRIEVAL EVALUATION
+ * ========================================
+ *
+ * Deterministic retrieval metrics without LLM-as-judge. Runs the
+ * questions of a QA run or golden test set through retrieveContext only
+ * (no answer generation) and checks where the known source ends up:
+ *
+ * - before reranking: the candidate list (hybrid search + RRF)
+ * - after reranking: the reranker's top K (RAGRerankingDetails)
+ *
+ * From those positions: recall@k, MRR and nDCG@k, overall and per
+ * source document. Each question has one source, so recall@k is the hit
+ * rate at k and nDCG@k is 1 / log2(rank + 1) for a hit.
+ *
+ * Costs only query embeddings, the reranker and query translation, so
+ * it can run after every chunking or reranker change.
+ *
+ * v2.4: Retrieval evaluation
+ *
+ * Locatie: lib/products/hr-bot/qa/retrieval-eval.ts
+ * Dit is HR Bot product-specifieke code.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  QACategory,
+  QARetrievalEval,
+  QARetrievalMetrics,
+  QARetrievalQuestionResult,
+  QARetrievalDocumentMetrics,
+  QARetrievalGroundTruth,
+  DEFAULT_RETRIEVAL_K_VALUES
+} from './types';
+import { getTestQuestions } from './service';
+import { getTestSetQuestions } from './test-sets';
+import { capturePipelineSnapshot } from './comparison';
+import { retrieveContext } from '@/lib/rag/context';
+import type { RAGRankedChunk } from '@/lib/rag/types';
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// TYPES
+// ========================================
+
+interface EvalQuestion {
+  id: string;
+  question: string;
+  category: QACategory;
+  source_chunk_id: string | null;
+  source_document: string | null;
+  source_page: number | null;
+}
+
+// ========================================
+// METRICS
+// ========================================
+
+/**
+ * recall@k, MRR and nDCG@k from the 1-based rank of each question's
+ * source (null = not retrieved)
+ */
+export function calculateRetrievalMetrics(
+  ranks: Array<number | null>,
+  kValues: number[] = DEFAULT_RETRIEVAL_K_VALUES
+): QARetrievalMetrics {
+  const n = ranks.length;
+  const mean = (values: number[]) => n > 0 ? values.reduce((sum, v) => sum + v, 0) / n : 0;
+
+  const recall: Record<number, number> = {};
+  const ndcg: Record<number, number> = {};
+  for (const k of kValues) {
+    recall[k] = mean(ranks.map(rank => rank !== null && rank <= k ? 1 : 0));
+    ndcg[k] = mean(ranks.map(rank => rank !== null && rank <= k ? 1 / Math.log2(rank + 1) : 0));
+  }
+
+  return {
+    questions: n,
+    recall_at_k: recall,
+    ndcg_at_k: ndcg,
+    mrr: mean(ranks.map(rank => rank !== null ? 1 / rank : 0))
+  };
+}
+
+/**
+ * 1-based position of the first chunk that matches the ground truth
+ */
+function findRank(
+  ranking: RAGRankedChunk[],
+  question: EvalQuestion,
+  groundTruth: QARetrievalGroundTruth
+): number | null {
+  const index = ranking.findIndex(chunk => {
+    switch (groundTruth) {
+      case 'chunk':
+        return chunk.chunkId === question.source_chunk_id;
+      case 'page':
+        return chunk.filename === question.source_document && chunk.pageNumber === question.source_page;
+      case 'document':
+        return chunk.filename === question.source_document;
+    }
+  });
+  return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * Overall and per-document metrics from question results
+ */
+export function summarizeRetrievalResults(
+  results: QARetrievalQuestionResult[],
+  kValues: number[],
+  rerankingEnabled: boolean
+): { metrics: NonNullable<QARetrievalEval['metrics']>; byDocument: QARetrievalDocumentMetrics[] } {
+  const scored = results.filter(r => !r.error);
+
+  const summarize = (group: QARetrievalQuestionResult[]) => ({
+    before: calculateRetrievalMetrics(group.map(r => r.rank_before), kValues),
+    after: rerankingEnabled ? calculateRetrievalMetrics(group.map(r => r.rank_after), kValues) : null
+  });
+
+  const documents = new Map<string, QARetrievalQuestionResult[]>();
+  for (const result of scored) {
+    const key = result.source_document || '(onbekend)';
+    documents.set(key, [...(documents.get(key) || []), result]);
+  }
+
+  const byDocument = Array.from(documents.entries())
+    .map(([document, group]) => ({ document, ...summarize(group) }))
+    // Slechtste documenten eerst
+    .sort((a, b) => (a.after ?? a.before).mrr - (b.after ?? b.before).mrr);
+
+  return { metrics: summarize(scored), byDocument };
+}
+
+// ========================================
+// CRUD
+// ========================================
+
+/**
+ * Create a retrieval evaluation over the questions of a run or test set
+ */
+export async function createRetrievalEval(
+  tenantId: string,
+  source: { runId?: string; testSetId?: string },
+  kValues: number[] = DEFAULT_RETRIEVAL_K_VALUES
+): Promise<{ evaluation: QARetrievalEval | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  if (!source.runId && !source.testSetId) {
+    return { evaluation: null, error: 'A run or test set is required' };
+  }
+
+  const { data, error } = await supabase
+    .from('qa_retrieval_evals')
+    .insert({
+      tenant_id: tenantId,
+      status: 'pending',
+      source_run_id: source.runId || null,
+      test_set_id: source.testSetId || null,
+      k_values: [...kValues].sort((a, b) => a - b)
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('❌ [QARetrievalEval] Error creating evaluation:', error);
+    return { evaluation: null, error: error.message };
+  }
+
+  console.log(`✅ [QARetrievalEval] Created evaluation ${data.id} for tenant ${tenantId}`);
+  return { evaluation: data };
+}
+
+/**
+ * Get a retrieval evaluation by ID
+ */
+export async function getRetrievalEval(
+  evalId: string
+): Promise<{ evaluation: QARetrievalEval | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('qa_retrieval_evals')
+    .select('*')
+    .eq('id', evalId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ [QARetrievalEval] Error fetching evaluation:', error);
+    return { evaluation: null, error: error.message };
+  }
+  if (!data) {
+    return { evaluation: null, error: 'Retrieval evaluation not found' };
+  }
+
+  return { evaluation: data };
+}
+
+/**
+ * Recent retrieval evaluations of a tenant (without per-question results)
+ */
+export async function getRetrievalEvalsForTenant(
+  tenantId: string,
+  limit: number = 20
+): Promise<{ evaluations: QARetrievalEval[]; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('qa_retrieval_evals')
+    .select('id, tenant_id, status, source_run_id, test_set_id, k_values, total_questions, questions_completed, skipped_questions, reranking_enabled, metrics, total_cost, duration_ms, error_message, started_at, completed_at, created_at')
+    .eq('tenant_id', tenantId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('❌ [QARetrievalEval] Error fetching evaluations:', error);
+    return { evaluations: [], error: error.message };
+  }
+
+  return {
+    evaluations: (data || []).map(row => ({ ...row, by_document: null, results: null, pipeline_snapshot: null }))
+  };
+}
+
+async function updateRetrievalEval(evalId: string, updates: Partial<QARetrievalEval>): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase
+    .from('qa_retrieval_evals')
+    .update(updates)
+    .eq('id', evalId);
+
+  if (error) {
+    console.error('❌ [QARetrievalEval] Error updating evaluation:', error);
+  }
+}
+
+// ========================================
+// QUESTIONS
+// ========================================
+
+async function loadEvalQuestions(evaluation: QARetrievalEval): Promise<EvalQuestion[]> {
+  if (evaluation.test_set_id) {
+    const { questions, error } = await getTestSetQuestions(evaluation.test_set_id);
+    if (error) throw new Error(`Failed to load test set questions: ${error}`);
+    return questions.map(q => ({
+      id: q.id,
+      question: q.question,
+      category: q.category,
+      source_chunk_id: null,
+      source_document: q.source_document,
+      source_page: q.source_page
+    }));
+  }
+
+  const { questions, error } = await getTestQuestions(evaluation.source_run_id!);
+  if (error) throw new Error(`Failed to load run questions: ${error}`);
+  return questions.map(q => ({
+    id: q.id,
+    question: q.question,
+    category: q.category,
+    source_chunk_id: q.source_chunk_id,
+    source_document: q.source_document,
+    source_page: q.source_page
+  }));
+}
+
+/**
+ * Source chunks that still exist (chunks are replaced when a document
+ * is re-chunked; those questions fall back to page level)
+ */
+async function getExistingChunkIds(chunkIds: string[]): Promise<Set<string>> {
+  const supabase = getSupabaseClient();
+  const existing = new Set<string>();
+
+  for (let i = 0; i < chunkIds.length; i += 200) {
+    const { data, error } = await supabase
+      .from('document_chunks')
+      .select('id')
+      .in('id', chunkIds.slice(i, i + 200));
+
+    if (error) {
+      console.warn(`⚠️ [QARetrievalEval] Could not check source chunks: ${error.message}`);
+      continue;
+    }
+    (data || []).forEach(row => existing.add(row.id));
+  }
+
+  return existing;
+}
+
+function getGroundTruth(question: EvalQuestion, existingChunks: Set<string>): QARetrievalGroundTruth | null {
+  // Een gesprek is geen losse zoekvraag (follow-ups hebben history nodig)
+  if (question.category === 'multi_turn') return null;
+  if (question.source_chunk_id && existingChunks.has(question.source_chunk_id)) return 'chunk';
+  if (question.source_document && question.source_page) return 'page';
+  if (question.source_document) return 'document';
+  return null;
+}
+
+// ========================================
+// EXECUTION
+// ========================================
+
+/**
+ * Run a retrieval evaluation. Never throws: failures are stored on the
+ * evaluation record.
+ */
+export async function runRetrievalEval(evalId: string): Promise<{ success: boolean; error?: string }> {
+  const startTime = Date.now();
+  console.log(`\n📐 [QARetrievalEval] Starting retrieval evaluation ${evalId}`);
+
+  try {
+    const { evaluation, error: fetchError } = await getRetrievalEval(evalId);
+    if (!evaluation) {
+      throw new Error(fetchError || 'Retrieval evaluation not found');
+    }
+
+    const kValues = evaluation.k_values?.length ? evaluation.k_values : DEFAULT_RETRIEVAL_K_VALUES;
+    const topK = Math.max(...kValues);
+
+    const snapshot = await capturePipelineSnapshot(evaluation.tenant_id);
+    await updateRetrievalEval(evalId, {
+      status: 'running',
+      started_at: new Date().toISOString(),
+      pipeline_snapshot: snapshot
+    });
+
+    const allQuestions = await loadEvalQuestions(evaluation);
+    const existingChunks = await getExistingChunkIds(
+      allQuestions.map(q => q.source_chunk_id).filter((id): id is string => !!id)
+    );
+
+    // Alleen vragen met een bekende bron (out-of-scope e.d. vallen af)
+    const questions = allQuestions
+      .map(q => ({ question: q, groundTruth: getGroundTruth(q, existingChunks) }))
+      .filter((q): q is { question: EvalQuestion; groundTruth: QARetrievalGroundTruth } => q.groundTruth !== null);
+
+    await updateRetrievalEval(evalId, {
+      total_questions: questions.length,
+      skipped_questions: allQuestions.length - questions.length
+    });
+
+    console.log(`📋 [QARetrievalEval] ${questions.length} questions with a known source (${allQuestions.length - questions.length} skipped), k=${kValues.join(',')}`);
+
+    const results: QARetrievalQuestionResult[] = [];
+    let totalCost = 0;
+    let rerankingEnabled = false;
+
+    for (const { question, groundTruth } of questions) {
+      const questionStart = Date.now();
+      const base = {
+        question_id: question.id,
+        question: question.question,
+        category: question.category,
+        source_document: question.source_document,
+        source_page: question.source_page,
+        ground_truth: groundTruth
+      };
+
+      try {
+        const { embeddingCost, ragDetails } = await retrieveContext(
+          evaluation.tenant_id,
+          question.question,
+          topK
+        );
+        const reranking = ragDetails.reranking;
+        const before = reranking?.inputRanking || [];
+        const after: RAGRankedChunk[] = (reranking?.results || []).map(r => ({
+          chunkId: r.chunkId || '',
+          filename: r.filename,
+          pageNumber: r.pageNumber
+        }));
+
+        rerankingEnabled = rerankingEnabled || !!reranking?.enabled;
+        // Retrieval kosten per onderdeel: embedding, reranking, vertaling
+        // (en context expansion als die aan staat)
+        const costs = ragDetails.costs;
+        totalCost += costs
+          ? costs.embedding
+            + (reranking?.cost ?? costs.reranking)
+            + (costs.translation ?? 0)
+            + (costs.contextExpansion ?? 0)
+          : embeddingCost;
+
+        results.push({
+          ...base,
+          rank_before: findRank(before, question, groundTruth),
+          rank_after: reranking?.enabled ? findRank(after, question, groundTruth) : null,
+          candidates: before.length,
+          latency_ms: Date.now() - questionStart
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`❌ [QARetrievalEval] Retrieval failed for question ${question.id}:`, message);
+        results.push({
+          ...base,
+          rank_before: null,
+          rank_after: null,
+          candidates: 0,
+          latency_ms: Date.now() - questionStart,
+          error: message
+        });
+      }
+
+      // Update progress every 5 questions
+      if (results.length % 5 === 0) {
+        await updateRetrievalEval(evalId, { questions_completed: results.length });
+      }
+
+      // Small delay to avoid rate limiting
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    const { metrics, byDocument } = summarizeRetrievalResults(results, kValues, rerankingEnabled);
+
+    await updateRetrievalEval(evalId, {
+      status: 'completed',
+      questions_completed: results.length,
+      reranking_enabled: rerankingEnabled,
+      metrics,
+      by_document: byDocument,
+      results,
+      total_cost: totalCost,
+      duration_ms: Date.now() - startTime,
+      completed_at: new Date().toISOString()
+    });
+
+    const headline = metrics.after ?? metrics.before;
+    console.log(`✅ [QARetrievalEval] Done: MRR ${headline.mrr.toFixed(3)}, recall@${topK} ${(headline.recall_at_k[topK] * 100).toFixed(1)}%, cost $${totalCost.toFixed(4)}`);
+
+    return { success: true };
+
+  } catch (error) {
+    console.error('❌ [QARetrievalEval] Evaluation failed:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    await updateRetrievalEval(evalId, {
+      status: 'failed',
+      error_message: message,
+      duration_ms: Date.now() - startTime,
+      completed_at: new Date().toISOString()
+    });
+
+    return { success: false, error: message };
+  }
+}
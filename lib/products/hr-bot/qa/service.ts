@@ -23,6 +23,7 @@ import {
   QACategory,
   TenantTestOverview,
   QATemplateInput,
+  QAPipelineConfig,
   DEFAULT_TEST_CONFIG,
   calculateTotalQuestions,
   isTestRunning
@@ -54,10 +55,22 @@ function getSupabaseClient(): SupabaseClient {
 
 /**
  * Create a new test run for a tenant
+ *
+ * @param options.baselineRunId - Reuse the questions of this run (pinned
+ *   question set) instead of generating new ones
+ * @param options.testSetId - Use the questions of this golden test set; the
+ *   previous completed run on the set becomes the baseline run
  */
 export async function createTestRun(
   tenantId: string,
-  config?: Partial<QATestConfig>
+  config?: Partial<QATestConfig>,
+  options: {
+    baselineRunId?: string;
+    testSetId?: string;
+    experimentId?: string;
+    experimentArm?: string;
+    pipelineConfig?: QAPipelineConfig;
+  } = {}
 ): Promise<{ testRun: QATestRun | null; error?: string }> {
   const supabase = getSupabaseClient();
 
@@ -68,14 +81,56 @@ export async function createTestRun(
       ...config
     };
 
-    // Get document count for this tenant to calculate total questions
-    const { count: documentCount } = await supabase
-      .from('documents')
-      .select('id', { count: 'exact', head: true })
-      .eq('tenant_id', tenantId)
-      .eq('processing_status', 'completed');
+    let totalQuestions: number;
+    let baselineRunId = options.baselineRunId || null;
 
-    const totalQuestions = calculateTotalQuestions(fullConfig, documentCount || 0);
+    if (options.testSetId) {
+      // Golden test set: vragen uit de set, vorige run op de set als baseline
+      const { count: setCount, error: countError } = await supabase
+        .from('qa_test_set_questions')
+        .select('id', { count: 'exact', head: true })
+        .eq('test_set_id', options.testSetId);
+
+      if (countError) {
+        console.error('❌ [QAService] Error counting test set questions:', countError);
+        return { testRun: null, error: countError.message };
+      }
+      totalQuestions = setCount || 0;
+
+      // Experiment arms krijgen geen baseline: ze worden onderling vergeleken
+      if (!baselineRunId && !options.experimentId) {
+        const { data: previousRun } = await supabase
+          .from('qa_test_runs')
+          .select('id')
+          .eq('test_set_id', options.testSetId)
+          .eq('status', 'completed')
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        baselineRunId = previousRun?.id || null;
+      }
+    } else if (options.baselineRunId) {
+      // Vaste vragenset: zelfde aantal vragen als de baseline run
+      const { count: baselineCount, error: countError } = await supabase
+        .from('qa_test_questions')
+        .select('id', { count: 'exact', head: true })
+        .eq('test_run_id', options.baselineRunId);
+
+      if (countError) {
+        console.error('❌ [QAService] Error counting baseline questions:', countError);
+        return { testRun: null, error: countError.message };
+      }
+      totalQuestions = baselineCount || 0;
+    } else {
+      // Get document count for this tenant to calculate total questions
+      const { count: documentCount } = await supabase
+        .from('documents')
+        .select('id', { count: 'exact', head: true })
+        .eq('tenant_id', tenantId)
+        .eq('processing_status', 'completed');
+
+      totalQuestions = calculateTotalQuestions(fullConfig, documentCount || 0);
+    }
 
     const { data, error } = await supabase
       .from('qa_test_runs')
@@ -84,7 +139,12 @@ export async function createTestRun(
         status: 'pending',
         config: fullConfig,
         total_questions: totalQuestions,
-        questions_completed: 0
+        questions_completed: 0,
+        baseline_run_id: baselineRunId,
+        test_set_id: options.testSetId || null,
+        experiment_id: options.experimentId || null,
+        experiment_arm: options.experimentArm || null,
+        pipeline_config: options.pipelineConfig || null
       })
       .select()
       .single();
@@ -396,6 +456,7 @@ export async function createTemplate(
         expected_sources: input.expected_sources || null,
         language: input.language || 'nl',
         notes: input.notes || null,
+        turns: input.turns || null,
         is_active: true
       })
       .select()
@@ -433,6 +494,7 @@ export async function updateTemplate(
         ...(input.expected_sources !== undefined && { expected_sources: input.expected_sources }),
         ...(input.language && { language: input.language }),
         ...(input.notes !== undefined && { notes: input.notes }),
+        ...(input.turns !== undefined && { turns: input.turns }),
         ...(input.is_active !== undefined && { is_active: input.is_active })
       })
       .eq('id', templateId)
@@ -0,0 +1,625 @@
+/**
+ * ========================================
+ * QA GOLDEN TEST SETS
+ * ========================================
+ *
+ * Named, fixed question sets per tenant. A run on a set reuses its
+ * questions instead of generating new ones, so scores are reproducible
+ * and consecutive runs on the same set are compared automatically
+ * (baseline = previous completed run on the set, see comparison.ts).
+ *
+ * A set can be built from:
+ * - the active templates of the tenant
+ * - the questions of an earlier run
+ * - chat log questions that got negative feedback (real user questions)
+ * - a JSON/CSV import, e.g. with expected answers from the client's HR team
+ *
+ * v2.4: Golden test sets
+ *
+ * Locatie: lib/products/hr-bot/qa/test-sets.ts
+ * Dit is HR Bot product-specifieke code.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  QACategory,
+  QATestSet,
+  QATestSetQuestion,
+  QATestSetQuestionInput,
+  QATestSetSource,
+  QATestSetImportError,
+  CATEGORY_INFO,
+  conversationToQuestion,
+  parseConversationTurns
+} from './types';
+import { getTemplates, getTestQuestions, getTestRun } from './service';
+import { DATABASE_CONFIG } from '@/lib/shared/supabase/config';
+import { parseCSV, detectDelimiter } from '@/lib/rag/extractors/text';
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+// Standaard periode en maximum voor vragen uit chat logs
+const CHAT_LOG_DEFAULT_DAYS = 30;
+const CHAT_LOG_DEFAULT_LIMIT = 50;
+
+// Maximum aantal vragen per set (import en samenstellen)
+export const MAX_TEST_SET_QUESTIONS = 500;
+
+// Kolommen van de CSV export (en import)
+const CSV_COLUMNS = [
+  'category',
+  'question',
+  'expected_answer',
+  'source_document',
+  'source_page',
+  'language',
+  'notes',
+  'turns'          // multi_turn: JSON array met de beurten
+] as const;
+
+// Nederlandse kolomnamen worden bij import ook geaccepteerd
+const CSV_COLUMN_ALIASES: Record<string, typeof CSV_COLUMNS[number]> = {
+  categorie: 'category',
+  vraag: 'question',
+  verwacht_antwoord: 'expected_answer',
+  bron_document: 'source_document',
+  bron_pagina: 'source_page',
+  taal: 'language',
+  notities: 'notes',
+  beurten: 'turns'
+};
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// TEST SET CRUD
+// ========================================
+
+/**
+ * Get all test sets for a tenant
+ */
+export async function getTestSets(
+  tenantId: string
+): Promise<{ testSets: QATestSet[]; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('qa_test_sets')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('❌ [QATestSets] Error fetching test sets:', error);
+    return { testSets: [], error: error.message };
+  }
+
+  return { testSets: data || [] };
+}
+
+/**
+ * Get a test set by ID
+ */
+export async function getTestSet(
+  setId: string
+): Promise<{ testSet: QATestSet | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('qa_test_sets')
+    .select('*')
+    .eq('id', setId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ [QATestSets] Error fetching test set:', error);
+    return { testSet: null, error: error.message };
+  }
+  if (!data) {
+    return { testSet: null, error: 'Test set not found' };
+  }
+
+  return { testSet: data };
+}
+
+/**
+ * Get the questions of a test set, in set order
+ */
+export async function getTestSetQuestions(
+  setId: string
+): Promise<{ questions: QATestSetQuestion[]; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('qa_test_set_questions')
+    .select('*')
+    .eq('test_set_id', setId)
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.error('❌ [QATestSets] Error fetching set questions:', error);
+    return { questions: [], error: error.message };
+  }
+
+  return { questions: data || [] };
+}
+
+/**
+ * Create a test set, filled from the given source
+ */
+export async function createTestSet(
+  tenantId: string,
+  input: { name: string; description?: string | null },
+  source: QATestSetSource = { type: 'empty' }
+): Promise<{ testSet: QATestSet | null; added: number; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  // Eerst de vragen verzamelen: een lege set door een fout bij het
+  // verzamelen is verwarrend
+  const { questions, error: sourceError } = await collectQuestions(tenantId, source);
+  if (sourceError) {
+    return { testSet: null, added: 0, error: sourceError };
+  }
+
+  const { data, error } = await supabase
+    .from('qa_test_sets')
+    .insert({
+      tenant_id: tenantId,
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      question_count: 0
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return { testSet: null, added: 0, error: `A test set named "${input.name}" already exists` };
+    }
+    console.error('❌ [QATestSets] Error creating test set:', error);
+    return { testSet: null, added: 0, error: error.message };
+  }
+
+  const { count, error: addError } = await setTestSetQuestions(data, questions, 'append');
+  if (addError) {
+    return { testSet: data, added: 0, error: addError };
+  }
+
+  console.log(`✅ [QATestSets] Created test set "${data.name}" (${source.type}) with ${count} questions`);
+  return { testSet: { ...data, question_count: count }, added: count };
+}
+
+/**
+ * Rename or re-describe a test set
+ */
+export async function updateTestSet(
+  setId: string,
+  input: { name?: string; description?: string | null }
+): Promise<{ testSet: QATestSet | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('qa_test_sets')
+    .update({
+      ...(input.name && { name: input.name.trim() }),
+      ...(input.description !== undefined && { description: input.description?.trim() || null }),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', setId)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return { testSet: null, error: `A test set named "${input.name}" already exists` };
+    }
+    console.error('❌ [QATestSets] Error updating test set:', error);
+    return { testSet: null, error: error.message };
+  }
+
+  return { testSet: data };
+}
+
+/**
+ * Delete a test set (questions cascade; runs keep their own questions)
+ */
+export async function deleteTestSet(
+  setId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase
+    .from('qa_test_sets')
+    .delete()
+    .eq('id', setId);
+
+  if (error) {
+    console.error('❌ [QATestSets] Error deleting test set:', error);
+    return { success: false, error: error.message };
+  }
+
+  console.log(`🗑️ [QATestSets] Deleted test set ${setId}`);
+  return { success: true };
+}
+
+/**
+ * Replace or extend the questions of a set
+ *
+ * @param mode - 'replace' removes the current questions first
+ */
+export async function setTestSetQuestions(
+  testSet: QATestSet,
+  questions: QATestSetQuestionInput[],
+  mode: 'replace' | 'append'
+): Promise<{ count: number; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  let offset = 0;
+  if (mode === 'replace') {
+    const { error: deleteError } = await supabase
+      .from('qa_test_set_questions')
+      .delete()
+      .eq('test_set_id', testSet.id);
+
+    if (deleteError) {
+      console.error('❌ [QATestSets] Error clearing set questions:', deleteError);
+      return { count: 0, error: deleteError.message };
+    }
+  } else {
+    offset = testSet.question_count;
+  }
+
+  if (offset + questions.length > MAX_TEST_SET_QUESTIONS) {
+    return { count: 0, error: `A test set can hold at most ${MAX_TEST_SET_QUESTIONS} questions` };
+  }
+
+  if (questions.length > 0) {
+    const { error: insertError } = await supabase
+      .from('qa_test_set_questions')
+      .insert(questions.map((q, i) => ({
+        test_set_id: testSet.id,
+        tenant_id: testSet.tenant_id,
+        position: offset + i,
+        category: q.category,
+        question: q.question.trim(),
+        expected_answer: q.expected_answer?.trim() || null,
+        source_document: q.source_document?.trim() || null,
+        source_page: q.source_page ?? null,
+        language: q.language || 'nl',
+        notes: q.notes?.trim() || null,
+        turns: q.turns || null,
+        origin: q.origin || 'manual',
+        origin_id: q.origin_id || null
+      })));
+
+    if (insertError) {
+      console.error('❌ [QATestSets] Error inserting set questions:', insertError);
+      return { count: 0, error: insertError.message };
+    }
+  }
+
+  const total = offset + questions.length;
+  await supabase
+    .from('qa_test_sets')
+    .update({ question_count: total, updated_at: new Date().toISOString() })
+    .eq('id', testSet.id);
+
+  return { count: total };
+}
+
+// ========================================
+// SOURCES
+// ========================================
+
+async function collectQuestions(
+  tenantId: string,
+  source: QATestSetSource
+): Promise<{ questions: QATestSetQuestionInput[]; error?: string }> {
+  switch (source.type) {
+    case 'empty':
+      return { questions: [] };
+    case 'templates':
+      return questionsFromTemplates(tenantId);
+    case 'run':
+      return questionsFromRun(tenantId, source.runId);
+    case 'chat_logs':
+      return questionsFromChatLogs(tenantId, source);
+  }
+}
+
+async function questionsFromTemplates(
+  tenantId: string
+): Promise<{ questions: QATestSetQuestionInput[]; error?: string }> {
+  const { templates, error } = await getTemplates(tenantId, true);
+  if (error) return { questions: [], error };
+
+  return {
+    questions: templates.map(template => ({
+      category: template.category,
+      question: template.question,
+      expected_answer: template.expected_answer,
+      source_document: template.expected_sources?.[0]?.document || null,
+      source_page: template.expected_sources?.[0]?.page || null,
+      language: template.language,
+      notes: template.notes,
+      turns: template.turns || null,
+      origin: 'template' as const,
+      origin_id: template.id
+    }))
+  };
+}
+
+async function questionsFromRun(
+  tenantId: string,
+  runId: string
+): Promise<{ questions: QATestSetQuestionInput[]; error?: string }> {
+  const { testRun, error: runError } = await getTestRun(runId);
+  if (!testRun || testRun.tenant_id !== tenantId) {
+    return { questions: [], error: runError || 'Test run not found' };
+  }
+
+  const { questions, error } = await getTestQuestions(runId);
+  if (error) return { questions: [], error };
+
+  return {
+    questions: questions.map(q => ({
+      category: q.category,
+      question: q.question,
+      expected_answer: q.expected_answer,
+      source_document: q.source_document,
+      source_page: q.source_page,
+      language: q.language,
+      turns: q.turns || null,
+      origin: 'run' as const,
+      origin_id: q.id
+    }))
+  };
+}
+
+/**
+ * Real user questions that got a thumbs down. Expected answers are left
+ * empty: the HR team fills them in via export/import.
+ */
+async function questionsFromChatLogs(
+  tenantId: string,
+  options: { days?: number; limit?: number; category?: QACategory }
+): Promise<{ questions: QATestSetQuestionInput[]; error?: string }> {
+  const supabase = getSupabaseClient();
+  const days = options.days || CHAT_LOG_DEFAULT_DAYS;
+  const limit = Math.min(options.limit || CHAT_LOG_DEFAULT_LIMIT, MAX_TEST_SET_QUESTIONS);
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from(DATABASE_CONFIG.tableName)
+    .select('id, question, language, feedback_comment')
+    .eq('tenant_id', tenantId)
+    .eq('feedback', 'negative')
+    .gte('timestamp', since)
+    .order('timestamp', { ascending: false })
+    .limit(limit * 2);   // Ruimte voor dubbele vragen
+
+  if (error) {
+    console.error('❌ [QATestSets] Error fetching chat logs:', error);
+    return { questions: [], error: error.message };
+  }
+
+  // Dezelfde vraag maar één keer opnemen
+  const seen = new Set<string>();
+  const questions: QATestSetQuestionInput[] = [];
+  for (const log of data || []) {
+    const normalized = (log.question || '').toLowerCase().replace(/\s+/g, ' ').trim();
+    if (!normalized || seen.has(normalized)) continue;
+    seen.add(normalized);
+
+    questions.push({
+      category: options.category || 'accuracy',
+      question: log.question.trim(),
+      expected_answer: null,
+      language: log.language || 'nl',
+      notes: log.feedback_comment ? `Feedback: ${log.feedback_comment}` : null,
+      origin: 'chat_log',
+      origin_id: log.id
+    });
+    if (questions.length >= limit) break;
+  }
+
+  console.log(`👎 [QATestSets] ${questions.length} questions from negative feedback (last ${days} days)`);
+  return { questions };
+}
+
+// ========================================
+// EXPORT / IMPORT
+// ========================================
+
+function toExportQuestion(q: QATestSetQuestion): QATestSetQuestionInput {
+  return {
+    category: q.category,
+    question: q.question,
+    expected_answer: q.expected_answer,
+    source_document: q.source_document,
+    source_page: q.source_page,
+    language: q.language,
+    notes: q.notes,
+    turns: q.turns
+  };
+}
+
+/**
+ * JSON export of a set
+ */
+export function exportTestSetJSON(testSet: QATestSet, questions: QATestSetQuestion[]): string {
+  return JSON.stringify({
+    name: testSet.name,
+    description: testSet.description,
+    exported_at: new Date().toISOString(),
+    questions: questions.map(toExportQuestion)
+  }, null, 2);
+}
+
+/**
+ * CSV export of a set (columns: see CSV_COLUMNS)
+ */
+export function exportTestSetCSV(questions: QATestSetQuestion[]): string {
+  const escape = (value: string | number | null | undefined) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = questions.map(q => {
+    const exported = toExportQuestion(q);
+    return CSV_COLUMNS.map(column => column === 'turns'
+      ? escape(exported.turns ? JSON.stringify(exported.turns) : null)
+      : escape(exported[column])
+    ).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+/**
+ * Validate one imported question; returns null with an error message
+ * when the row is unusable
+ */
+function validateImportedQuestion(
+  raw: Record<string, unknown>
+): { question: QATestSetQuestionInput | null; error?: string } {
+  const category = String(raw.category ?? '').trim().toLowerCase() as QACategory;
+  let question = String(raw.question ?? '').trim();
+
+  if (!(category in CATEGORY_INFO)) {
+    return { question: null, error: `Unknown category "${raw.category ?? ''}"` };
+  }
+
+  // Multi-turn scenario: beurten als array (JSON) of JSON string (CSV)
+  let turns: QATestSetQuestionInput['turns'] = null;
+  const hasTurns = raw.turns !== null && raw.turns !== undefined && raw.turns !== '';
+  if (category === 'multi_turn' || hasTurns) {
+    if (category !== 'multi_turn') {
+      return { question: null, error: 'turns are only allowed for category "multi_turn"' };
+    }
+    let rawTurns = raw.turns;
+    if (typeof rawTurns === 'string') {
+      try {
+        rawTurns = JSON.parse(rawTurns);
+      } catch {
+        return { question: null, error: 'turns is not valid JSON' };
+      }
+    }
+    const parsed = parseConversationTurns(rawTurns);
+    if (!parsed.turns) {
+      return { question: null, error: parsed.error };
+    }
+    turns = parsed.turns;
+    question = question || conversationToQuestion(turns);
+  }
+
+  if (!question) {
+    return { question: null, error: 'Missing question' };
+  }
+
+  const page = raw.source_page === null || raw.source_page === undefined || raw.source_page === ''
+    ? null
+    : parseInt(String(raw.source_page), 10);
+  if (page !== null && (isNaN(page) || page < 1)) {
+    return { question: null, error: `Invalid source_page "${raw.source_page}"` };
+  }
+
+  const text = (value: unknown) => {
+    const trimmed = value === null || value === undefined ? '' : String(value).trim();
+    return trimmed || null;
+  };
+
+  return {
+    question: {
+      category,
+      question,
+      expected_answer: text(raw.expected_answer),
+      source_document: text(raw.source_document),
+      source_page: page,
+      language: text(raw.language)?.toLowerCase() || 'nl',
+      notes: text(raw.notes),
+      turns,
+      origin: 'import'
+    }
+  };
+}
+
+/**
+ * Parse a JSON or CSV import. JSON may be an export ({ questions: [...] })
+ * or a plain array. Invalid rows are reported, valid rows are kept.
+ */
+export function parseTestSetImport(
+  content: string,
+  format: 'json' | 'csv'
+): { questions: QATestSetQuestionInput[]; errors: QATestSetImportError[] } {
+  const questions: QATestSetQuestionInput[] = [];
+  const errors: QATestSetImportError[] = [];
+
+  let rows: Record<string, unknown>[];
+
+  if (format === 'json') {
+    try {
+      const parsed = JSON.parse(content);
+      const list = Array.isArray(parsed) ? parsed : parsed?.questions;
+      if (!Array.isArray(list)) {
+        return { questions, errors: [{ row: 0, message: 'Expected an array of questions or { "questions": [...] }' }] };
+      }
+      rows = list;
+    } catch (error) {
+      return { questions, errors: [{ row: 0, message: `Invalid JSON: ${(error as Error).message}` }] };
+    }
+  } else {
+    const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    const [header, ...dataRows] = parseCSV(text, detectDelimiter(text.split('\n')[0] || ''));
+    if (!header) {
+      return { questions, errors: [{ row: 0, message: 'Empty CSV file' }] };
+    }
+
+    const columns = header.map(cell => {
+      const key = cell.trim().toLowerCase().replace(/\s+/g, '_');
+      return CSV_COLUMN_ALIASES[key] || key;
+    });
+    if (!columns.includes('question') || !columns.includes('category')) {
+      return { questions, errors: [{ row: 0, message: 'CSV needs at least the columns "category" and "question"' }] };
+    }
+
+    rows = dataRows.map(cells =>
+      Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? '']))
+    );
+  }
+
+  rows.forEach((raw, i) => {
+    if (!raw || typeof raw !== 'object') {
+      errors.push({ row: i + 1, message: 'Not an object' });
+      return;
+    }
+    const { question, error } = validateImportedQuestion(raw);
+    if (question) {
+      questions.push(question);
+    } else {
+      errors.push({ row: i + 1, message: error || 'Invalid row' });
+    }
+  });
+
+  return { questions, errors };
+}
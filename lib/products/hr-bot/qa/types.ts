@@ -12,12 +12,16 @@
  * Dit is HR Bot product-specifieke code.
  */
 
+import type { RetrievalConfig } from '@/lib/rag/retrieval-config';
+import type { SmartChunkingOptions } from '@/lib/rag/types';
+import type { PromptConfig, PromptTone } from '../prompt-profile-types';
+
 // ========================================
 // TEST CATEGORIES
 // ========================================
 
 /**
- * The 8 test categories for evaluating bot accuracy
+ * The 9 test categories for evaluating bot accuracy
  */
 export type QACategory =
   | 'retrieval'      // Does bot find correct documents?
@@ -27,7 +31,8 @@ export type QACategory =
   | 'out_of_scope'   // Does bot refuse non-HR questions?
   | 'no_answer'      // Does bot admit when it doesn't know?
   | 'consistency'    // Same question = same answer?
-  | 'multilingual';  // Does it work in other languages?
+  | 'multilingual'   // Does it work in other languages?
+  | 'multi_turn';    // Are follow-up questions resolved against earlier turns?
 
 /**
  * Category descriptions for UI
@@ -78,6 +83,11 @@ export const CATEGORY_INFO: Record<QACategory, {
     label: 'Meertalig',
     description: 'Werkt in andere talen?',
     icon: '🌐'
+  },
+  multi_turn: {
+    label: 'Gesprek',
+    description: 'Begrijpt de bot vervolgvragen in een gesprek?',
+    icon: '💬'
   }
 };
 
@@ -92,7 +102,8 @@ export const DEFAULT_CATEGORY_DISTRIBUTION: Record<QACategory, number> = {
   out_of_scope: 10,
   no_answer: 5,
   consistency: 5,
-  multilingual: 5
+  multilingual: 5,
+  multi_turn: 5
 };
 
 // ========================================
@@ -108,6 +119,7 @@ export interface QATestConfig {
   categories: QACategory[];      // Which categories to include
   languages: string[];           // Languages to test (default ['nl'])
   strictness: 'strict' | 'moderate' | 'lenient';
+  regressionThreshold?: number;  // Max. daling per categorie (%-punt) t.o.v. de baseline run
 }
 
 /**
@@ -116,11 +128,18 @@ export interface QATestConfig {
 export const DEFAULT_TEST_CONFIG: QATestConfig = {
   minQuestions: 60,
   questionsPerDocument: 2,
-  categories: ['retrieval', 'accuracy', 'citation', 'hallucination', 'out_of_scope', 'no_answer', 'consistency', 'multilingual'],
+  categories: ['retrieval', 'accuracy', 'citation', 'hallucination', 'out_of_scope', 'no_answer', 'consistency', 'multilingual', 'multi_turn'],
   languages: ['nl'],
-  strictness: 'strict'
+  strictness: 'strict',
+  regressionThreshold: 5
 };
 
+/**
+ * Default regression threshold: a category that drops more than this many
+ * percentage points compared to the baseline run flags a regression
+ */
+export const DEFAULT_REGRESSION_THRESHOLD = 5;
+
 // ========================================
 // TEST RUN
 // ========================================
@@ -164,6 +183,20 @@ export interface QATestRun {
   // Error handling
   error_message: string | null;
   error_details: Record<string, any> | null;
+
+  // Comparison (migration 042)
+  baseline_run_id?: string | null;           // Run whose questions were reused (pinned set)
+  pipeline_snapshot?: QAPipelineSnapshot | null;
+  is_regression?: boolean;
+  regression?: QARegressionSummary | null;
+
+  // Golden test set (migration 043)
+  test_set_id?: string | null;               // Questions taken from this set
+
+  // Experiment arm (migration 046)
+  experiment_id?: string | null;
+  experiment_arm?: string | null;
+  pipeline_config?: QAPipelineConfig | null;  // null = tenant configuratie
 }
 
 /**
@@ -182,6 +215,147 @@ export interface QACostBreakdown {
   generation: number;   // Cost of generating questions
   execution: number;    // Cost of running questions through bot
   evaluation: number;   // Cost of LLM-as-judge evaluation
+  chunking?: number;    // Cost of the scratch chunk set (arm with chunking options)
+}
+
+// ========================================
+// RUN COMPARISON
+// ========================================
+
+/**
+ * Pipeline configuration and documents at the start of a run, so a
+ * comparison can show what changed between two runs
+ */
+export interface QAPipelineSnapshot {
+  config: Record<string, string | number | boolean | null>;
+  documents: QADocumentSnapshot[];
+  captured_at: string;
+}
+
+export interface QADocumentSnapshot {
+  id: string;
+  filename: string;
+  version: number;
+  total_chunks: number;
+  content_hash: string | null;
+}
+
+/**
+ * Labels for the keys in QAPipelineSnapshot.config
+ */
+export const PIPELINE_CONFIG_LABELS: Record<string, string> = {
+  model: 'Model',
+  temperature: 'Temperature',
+  maxOutputTokens: 'Max output tokens',
+  historyWindow: 'History window',
+  promptProfileVersion: 'Prompt profiel versie',
+  promptTone: 'Prompt toon',
+  embeddingModel: 'Embedding model',
+  topK: 'Chunks in prompt',
+  candidateTopK: 'Candidates voor reranking',
+  minRelevanceScore: 'Minimale relevantie',
+  rerankingEnabled: 'Reranking',
+  vectorWeight: 'Vector gewicht',
+  fulltextWeight: 'Full-text gewicht',
+  rrfK: 'RRF k',
+  similarityThreshold: 'Similarity threshold',
+  keywordWeight: 'Keyword gewicht',
+  chunking: 'Chunking (QA chunk set)'
+};
+
+/**
+ * Labels for the chunking options of an experiment arm
+ */
+export const CHUNKING_OPTION_LABELS: Record<string, string> = {
+  targetChunkSize: 'Chunk grootte',
+  minChunkSize: 'Min. chunk grootte',
+  maxChunkSize: 'Max. chunk grootte',
+  overlapPercentage: 'Overlap %',
+  enableStructureDetection: 'Structuurherkenning',
+  enableSemanticChunking: 'Semantic chunking',
+  enableContextHeaders: 'Context headers',
+  enableSmartBoundaries: 'Slimme grenzen',
+  semanticModel: 'Chunking model'
+};
+
+export interface QACategoryDelta {
+  category: QACategory;
+  base_score: number | null;      // Over the shared questions only
+  target_score: number | null;
+  delta: number | null;           // target - base (percentage points)
+  question_count: number;
+  is_regression: boolean;
+}
+
+export interface QAQuestionChange {
+  key: string;
+  category: QACategory;
+  language: string;
+  question: string;
+  base_question_id: string;
+  target_question_id: string;
+  base_score: number | null;
+  target_score: number | null;
+  base_passed: boolean | null;
+  target_passed: boolean | null;
+}
+
+export interface QAConfigChange {
+  key: string;
+  label: string;
+  before: string | number | boolean | null;
+  after: string | number | boolean | null;
+}
+
+export interface QADocumentChange {
+  document_id: string;
+  filename: string;
+  change: 'added' | 'removed' | 'updated';
+  before_version: number | null;
+  after_version: number | null;
+}
+
+/**
+ * Diff of two runs over the questions they share
+ */
+export interface QARunComparison {
+  base_run: QATestRun;
+  target_run: QATestRun;
+  threshold: number;
+  is_regression: boolean;
+
+  // Questions
+  shared_questions: number;
+  base_only_questions: number;
+  target_only_questions: number;
+
+  // Scores over the shared questions
+  base_score: number | null;
+  target_score: number | null;
+  categories: QACategoryDelta[];
+  flipped_to_fail: QAQuestionChange[];
+  flipped_to_pass: QAQuestionChange[];
+
+  // What changed between the runs (null = no snapshot on one of the runs)
+  config_changes: QAConfigChange[] | null;
+  document_changes: QADocumentChange[] | null;
+}
+
+/**
+ * Stored on the run at finalize when it has a baseline run
+ */
+export interface QARegressionSummary {
+  baseline_run_id: string;
+  threshold: number;
+  compared_questions: number;
+  regressed_categories: Array<{
+    category: QACategory;
+    base_score: number;
+    target_score: number;
+    delta: number;
+  }>;
+  flipped_to_fail: number;
+  checked_at: string;
 }
 
 // ========================================
@@ -210,12 +384,14 @@ export interface QATestQuestion {
   source_page: number | null;
   is_auto_generated: boolean;
   language: string;
+  turns?: QAConversationTurn[] | null;       // multi_turn: scripted user turns (migration 045)
 
   // Bot response
-  actual_answer: string | null;
+  actual_answer: string | null;              // multi_turn: answer to the last turn
   citations: any[] | null;
   rag_details: Record<string, any> | null;
   response_time_ms: number | null;
+  turn_results?: QAConversationTurnResult[] | null;
 
   // Evaluation
   score: number | null;
@@ -243,6 +419,39 @@ export interface QAEvaluation {
   category_specific: Record<string, any>;
 }
 
+// ========================================
+// MULTI-TURN SCENARIOS
+// ========================================
+
+/**
+ * Limits for a scripted conversation
+ */
+export const MIN_CONVERSATION_TURNS = 2;
+export const MAX_CONVERSATION_TURNS = 6;
+
+/**
+ * One scripted user turn of a multi_turn scenario
+ */
+export interface QAConversationTurn {
+  message: string;                        // What the user says ("en voor parttimers?")
+  expected_answer?: string | null;        // Expected content of the answer to this turn
+  expected_resolution?: string | null;    // Follow-ups: the standalone question this turn means
+}
+
+/**
+ * Outcome of one turn when a scenario is executed
+ */
+export interface QAConversationTurnResult {
+  message: string;
+  answer: string;
+  sources: string[];                      // Cited document names
+  follow_up_detected: boolean;            // detectFollowUpQuestion fired (with history)
+  expanded_query: string | null;          // Search query after expandQueryWithContext
+  response_time_ms: number;
+  cost: number;
+  error?: string;
+}
+
 // ========================================
 // TEST TEMPLATE
 // ========================================
@@ -260,6 +469,7 @@ export interface QATestTemplate {
   expected_answer: string | null;
   expected_sources: QAExpectedSource[] | null;
   language: string;
+  turns?: QAConversationTurn[] | null;    // multi_turn only
 
   // Metadata
   is_active: boolean;
@@ -286,6 +496,296 @@ export interface QATemplateInput {
   expected_sources?: QAExpectedSource[];
   language?: string;
   notes?: string;
+  turns?: QAConversationTurn[];           // multi_turn: question may be omitted
+}
+
+// ========================================
+// GOLDEN TEST SETS
+// ========================================
+
+/**
+ * Where a test set question came from
+ */
+export type QATestSetOrigin = 'template' | 'run' | 'chat_log' | 'import' | 'manual';
+
+/**
+ * Named, fixed question set for reproducible runs
+ */
+export interface QATestSet {
+  id: string;
+  tenant_id: string;
+  name: string;
+  description: string | null;
+  question_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Question in a test set
+ */
+export interface QATestSetQuestion {
+  id: string;
+  test_set_id: string;
+  tenant_id: string;
+  position: number;
+
+  category: QACategory;
+  question: string;
+  expected_answer: string | null;
+  source_document: string | null;
+  source_page: number | null;
+  language: string;
+  notes: string | null;
+  turns: QAConversationTurn[] | null;
+
+  origin: QATestSetOrigin;
+  origin_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Input for adding questions to a set (also the JSON/CSV export format)
+ */
+export interface QATestSetQuestionInput {
+  category: QACategory;
+  question: string;
+  expected_answer?: string | null;
+  source_document?: string | null;
+  source_page?: number | null;
+  language?: string;
+  notes?: string | null;
+  turns?: QAConversationTurn[] | null;
+  origin?: QATestSetOrigin;
+  origin_id?: string | null;
+}
+
+/**
+ * Sources a new set can be built from
+ */
+export type QATestSetSource =
+  | { type: 'empty' }
+  | { type: 'templates' }
+  | { type: 'run'; runId: string }
+  | { type: 'chat_logs'; days?: number; limit?: number; category?: QACategory };
+
+/**
+ * Row-level problem found while importing a set
+ */
+export interface QATestSetImportError {
+  row: number;       // 1-based, header excluded
+  message: string;
+}
+
+// ========================================
+// RETRIEVAL EVALUATION
+// ========================================
+
+/**
+ * Default cut-offs for recall@k and nDCG@k
+ */
+export const DEFAULT_RETRIEVAL_K_VALUES = [1, 3, 5, 10];
+
+/**
+ * Status of a retrieval evaluation
+ */
+export type QARetrievalEvalStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * What counts as "the source" of a question
+ * - chunk: the source chunk still exists
+ * - page: source chunk is gone (re-chunked), same document + page
+ * - document: only the document is known
+ */
+export type QARetrievalGroundTruth = 'chunk' | 'page' | 'document';
+
+/**
+ * Ranking metrics over a group of questions (one source per question,
+ * so recall@k equals the hit rate at k)
+ */
+export interface QARetrievalMetrics {
+  questions: number;
+  recall_at_k: Record<number, number>;   // 0-1
+  ndcg_at_k: Record<number, number>;     // 0-1
+  mrr: number;                           // 0-1
+}
+
+/**
+ * Retrieval result for one question
+ */
+export interface QARetrievalQuestionResult {
+  question_id: string;
+  question: string;
+  category: QACategory;
+  source_document: string | null;
+  source_page: number | null;
+  ground_truth: QARetrievalGroundTruth;
+  rank_before: number | null;   // 1-based position before reranking, null = not retrieved
+  rank_after: number | null;    // 1-based position after reranking, null = not in top K
+  candidates: number;           // Candidates before reranking
+  latency_ms: number;
+  error?: string;
+}
+
+/**
+ * Metrics per source document
+ */
+export interface QARetrievalDocumentMetrics {
+  document: string;
+  before: QARetrievalMetrics;
+  after: QARetrievalMetrics | null;   // null = reranking disabled
+}
+
+/**
+ * Retrieval-only evaluation record
+ */
+export interface QARetrievalEval {
+  id: string;
+  tenant_id: string;
+  status: QARetrievalEvalStatus;
+  source_run_id: string | null;
+  test_set_id: string | null;
+  k_values: number[];
+
+  total_questions: number;
+  questions_completed: number;
+  skipped_questions: number;
+
+  reranking_enabled: boolean | null;
+  metrics: { before: QARetrievalMetrics; after: QARetrievalMetrics | null } | null;
+  by_document: QARetrievalDocumentMetrics[] | null;
+  results: QARetrievalQuestionResult[] | null;
+  pipeline_snapshot: QAPipelineSnapshot | null;
+
+  total_cost: number;
+  duration_ms: number | null;
+  error_message: string | null;
+
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+// ========================================
+// EXPERIMENTS
+// ========================================
+
+/**
+ * Limits for an experiment
+ */
+export const MIN_EXPERIMENT_ARMS = 2;
+export const MAX_EXPERIMENT_ARMS = 4;
+export const MAX_EXPERIMENT_ARM_NAME_LENGTH = 40;
+
+/**
+ * Chunks in the prompt when an arm does not set topK (same as the executor)
+ */
+export const DEFAULT_PIPELINE_TOP_K = 6;
+export const PIPELINE_TOP_K_RANGE = { min: 1, max: 30 };
+
+/**
+ * Limits for the chunking options of an arm (characters / percent)
+ */
+export const PIPELINE_CHUNK_SIZE_RANGE = { min: 200, max: 8000 };
+export const PIPELINE_CHUNK_OVERLAP_RANGE = { min: 0, max: 50 };
+
+/**
+ * Explicit pipeline configuration for one experiment arm.
+ * Every field is optional: what is not set comes from the tenant
+ * configuration, so an arm only lists what it changes.
+ *
+ * With chunking set, the run re-chunks the documents into a scratch
+ * chunk set and searches that instead of document_chunks (chunk-sets.ts).
+ */
+export interface QAPipelineConfig {
+  topK?: number;                          // Chunks in the prompt
+  retrieval?: Partial<RetrievalConfig>;   // Candidates, relevance filter, reranking, search overrides
+  prompt?: PromptConfig;                  // Profile version, tone, rules, extra instructions
+  model?: {
+    model?: string;
+    temperature?: number;
+  };
+  chunking?: Partial<SmartChunkingOptions>;  // Chunk sizes, overlap, smart chunking features
+}
+
+/**
+ * Status of an experiment
+ */
+export type QAExperimentStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * A named configuration in an experiment
+ */
+export interface QAExperimentArm {
+  name: string;
+  config: QAPipelineConfig;
+}
+
+/**
+ * Experiment record: one frozen question set through two or more arms.
+ * Every arm is a regular test run (experiment_id + experiment_arm),
+ * judged by the same evaluator.
+ */
+export interface QAExperiment {
+  id: string;
+  tenant_id: string;
+  name: string;
+  description: string | null;
+  status: QAExperimentStatus;
+
+  // Frozen question set (one of both)
+  test_set_id: string | null;
+  source_run_id: string | null;
+
+  arms: QAExperimentArm[];
+  current_arm: string | null;
+
+  total_cost: number;
+  error_message: string | null;
+
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Outcome of one arm, for the side by side view
+ */
+export interface QAExperimentArmResult {
+  name: string;
+  config: QAPipelineConfig;
+  run: QATestRun | null;
+
+  overall_score: number | null;
+  pass_rate: number | null;                                  // 0-100
+  scores_by_category: Partial<Record<QACategory, number>>;
+  questions: number;
+  failed_questions: number;                                  // Execution errors
+
+  avg_response_time_ms: number | null;
+  p95_response_time_ms: number | null;
+  execution_cost: number;
+  evaluation_cost: number;
+  cost_per_question: number | null;                          // Execution only
+}
+
+/**
+ * One question across all arms (keyed like run comparison)
+ */
+export interface QAExperimentQuestionRow {
+  key: string;
+  category: QACategory;
+  language: string;
+  question: string;
+  scores: Record<string, number | null>;                     // Per arm name
+  passed: Record<string, boolean | null>;
+  response_time_ms: Record<string, number | null>;
+}
+
+export interface QAExperimentResults {
+  experiment: QAExperiment;
+  arms: QAExperimentArmResult[];
+  questions: QAExperimentQuestionRow[];
 }
 
 // ========================================
@@ -418,9 +918,227 @@ export function formatScore(score: number | null): string {
   return `${score.toFixed(1)}%`;
 }
 
+/**
+ * Question text for a multi_turn scenario: the user turns in order
+ */
+export function conversationToQuestion(turns: QAConversationTurn[]): string {
+  return turns.map(turn => turn.message.trim()).join(' → ');
+}
+
+/**
+ * Validate scripted turns from API input or an import
+ */
+export function parseConversationTurns(value: unknown): {
+  turns: QAConversationTurn[] | null;
+  error?: string;
+} {
+  if (!Array.isArray(value)) {
+    return { turns: null, error: 'turns must be an array' };
+  }
+  if (value.length < MIN_CONVERSATION_TURNS || value.length > MAX_CONVERSATION_TURNS) {
+    return { turns: null, error: `turns must contain ${MIN_CONVERSATION_TURNS}-${MAX_CONVERSATION_TURNS} user turns` };
+  }
+
+  const turns: QAConversationTurn[] = [];
+  for (const item of value) {
+    const message = typeof item === 'string' ? item : item?.message;
+    if (typeof message !== 'string' || !message.trim()) {
+      return { turns: null, error: 'every turn needs a message' };
+    }
+    turns.push({
+      message: message.trim(),
+      expected_answer: typeof item?.expected_answer === 'string' && item.expected_answer.trim()
+        ? item.expected_answer.trim()
+        : null,
+      expected_resolution: typeof item?.expected_resolution === 'string' && item.expected_resolution.trim()
+        ? item.expected_resolution.trim()
+        : null
+    });
+  }
+
+  return { turns };
+}
+
 /**
  * Check if a test is still running
  */
 export function isTestRunning(status: QATestStatus): boolean {
   return ['pending', 'generating', 'running', 'evaluating'].includes(status);
 }
+
+/**
+ * Validate an arm configuration from API input.
+ * Unknown keys are dropped; numeric ranges are enforced by the resolvers
+ * (resolveRetrievalConfig, resolveChatModelSettings).
+ */
+export function parsePipelineConfig(value: unknown): {
+  config: QAPipelineConfig | null;
+  error?: string;
+} {
+  if (value === undefined || value === null) return { config: {} };
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { config: null, error: 'config must be an object' };
+  }
+
+  const input = value as Record<string, unknown>;
+  const config: QAPipelineConfig = {};
+  const isNumber = (v: unknown): v is number => typeof v === 'number' && !Number.isNaN(v);
+
+  if (input.topK !== undefined) {
+    if (!isNumber(input.topK) || input.topK < PIPELINE_TOP_K_RANGE.min || input.topK > PIPELINE_TOP_K_RANGE.max) {
+      return { config: null, error: `topK must be ${PIPELINE_TOP_K_RANGE.min}-${PIPELINE_TOP_K_RANGE.max}` };
+    }
+    config.topK = Math.round(input.topK);
+  }
+
+  if (input.retrieval !== undefined) {
+    const retrieval = input.retrieval as Record<string, unknown> | null;
+    if (!retrieval || typeof retrieval !== 'object') {
+      return { config: null, error: 'retrieval must be an object' };
+    }
+    config.retrieval = {};
+    if (retrieval.candidateTopK !== undefined) {
+      if (!isNumber(retrieval.candidateTopK)) return { config: null, error: 'retrieval.candidateTopK must be a number' };
+      config.retrieval.candidateTopK = retrieval.candidateTopK;
+    }
+    if (retrieval.minRelevanceScore !== undefined) {
+      if (!isNumber(retrieval.minRelevanceScore)) return { config: null, error: 'retrieval.minRelevanceScore must be a number' };
+      config.retrieval.minRelevanceScore = retrieval.minRelevanceScore;
+    }
+    if (retrieval.rerankingEnabled !== undefined) {
+      if (typeof retrieval.rerankingEnabled !== 'boolean') return { config: null, error: 'retrieval.rerankingEnabled must be a boolean' };
+      config.retrieval.rerankingEnabled = retrieval.rerankingEnabled;
+    }
+    if (retrieval.searchOverrides !== undefined) {
+      const overrides = retrieval.searchOverrides as Record<string, unknown> | null;
+      if (!overrides || typeof overrides !== 'object') {
+        return { config: null, error: 'retrieval.searchOverrides must be an object' };
+      }
+      config.retrieval.searchOverrides = {};
+      for (const key of ['vectorWeight', 'fulltextWeight', 'rrfK', 'similarityThreshold', 'keywordWeight'] as const) {
+        if (overrides[key] === undefined) continue;
+        if (!isNumber(overrides[key])) return { config: null, error: `retrieval.searchOverrides.${key} must be a number` };
+        config.retrieval.searchOverrides[key] = overrides[key] as number;
+      }
+    }
+  }
+
+  if (input.prompt !== undefined) {
+    const prompt = input.prompt as Record<string, unknown> | null;
+    if (!prompt || typeof prompt !== 'object') {
+      return { config: null, error: 'prompt must be an object' };
+    }
+    config.prompt = {};
+    if (prompt.profileVersion !== undefined && prompt.profileVersion !== null) {
+      if (!isNumber(prompt.profileVersion)) return { config: null, error: 'prompt.profileVersion must be a number' };
+      config.prompt.profileVersion = Math.round(prompt.profileVersion);
+    }
+    if (prompt.tone !== undefined) {
+      if (!['friendly', 'formal', 'informal'].includes(prompt.tone as string)) {
+        return { config: null, error: 'prompt.tone must be friendly, formal or informal' };
+      }
+      config.prompt.tone = prompt.tone as PromptTone;
+    }
+    if (prompt.extraRules !== undefined) {
+      if (!Array.isArray(prompt.extraRules) || prompt.extraRules.some(rule => typeof rule !== 'string')) {
+        return { config: null, error: 'prompt.extraRules must be an array of strings' };
+      }
+      config.prompt.extraRules = prompt.extraRules as string[];
+    }
+    if (prompt.additionalInstructions !== undefined && prompt.additionalInstructions !== null) {
+      if (typeof prompt.additionalInstructions !== 'string') {
+        return { config: null, error: 'prompt.additionalInstructions must be a string' };
+      }
+      config.prompt.additionalInstructions = prompt.additionalInstructions;
+    }
+  }
+
+  if (input.model !== undefined) {
+    const model = input.model as Record<string, unknown> | null;
+    if (!model || typeof model !== 'object') {
+      return { config: null, error: 'model must be an object' };
+    }
+    config.model = {};
+    if (model.model !== undefined) {
+      if (typeof model.model !== 'string' || !model.model.trim()) return { config: null, error: 'model.model must be a string' };
+      config.model.model = model.model.trim();
+    }
+    if (model.temperature !== undefined) {
+      if (!isNumber(model.temperature)) return { config: null, error: 'model.temperature must be a number' };
+      config.model.temperature = model.temperature;
+    }
+  }
+
+  if (input.chunking !== undefined) {
+    const chunking = input.chunking as Record<string, unknown> | null;
+    if (!chunking || typeof chunking !== 'object') {
+      return { config: null, error: 'chunking must be an object' };
+    }
+    config.chunking = {};
+    for (const key of ['targetChunkSize', 'minChunkSize', 'maxChunkSize'] as const) {
+      if (chunking[key] === undefined) continue;
+      const size = chunking[key];
+      if (!isNumber(size) || size < PIPELINE_CHUNK_SIZE_RANGE.min || size > PIPELINE_CHUNK_SIZE_RANGE.max) {
+        return { config: null, error: `chunking.${key} must be ${PIPELINE_CHUNK_SIZE_RANGE.min}-${PIPELINE_CHUNK_SIZE_RANGE.max}` };
+      }
+      config.chunking[key] = Math.round(size);
+    }
+    const { minChunkSize, targetChunkSize, maxChunkSize } = config.chunking;
+    if ((minChunkSize !== undefined && targetChunkSize !== undefined && minChunkSize > targetChunkSize) ||
+        (targetChunkSize !== undefined && maxChunkSize !== undefined && targetChunkSize > maxChunkSize)) {
+      return { config: null, error: 'chunking sizes must be minChunkSize <= targetChunkSize <= maxChunkSize' };
+    }
+    if (chunking.overlapPercentage !== undefined) {
+      const overlap = chunking.overlapPercentage;
+      if (!isNumber(overlap) || overlap < PIPELINE_CHUNK_OVERLAP_RANGE.min || overlap > PIPELINE_CHUNK_OVERLAP_RANGE.max) {
+        return { config: null, error: `chunking.overlapPercentage must be ${PIPELINE_CHUNK_OVERLAP_RANGE.min}-${PIPELINE_CHUNK_OVERLAP_RANGE.max}` };
+      }
+      config.chunking.overlapPercentage = overlap;
+    }
+    for (const key of ['enableStructureDetection', 'enableSemanticChunking', 'enableContextHeaders', 'enableSmartBoundaries'] as const) {
+      if (chunking[key] === undefined) continue;
+      if (typeof chunking[key] !== 'boolean') return { config: null, error: `chunking.${key} must be a boolean` };
+      config.chunking[key] = chunking[key] as boolean;
+    }
+    if (chunking.semanticModel !== undefined) {
+      if (chunking.semanticModel !== 'gpt-4o-mini' && chunking.semanticModel !== 'gpt-4o') {
+        return { config: null, error: 'chunking.semanticModel must be gpt-4o-mini or gpt-4o' };
+      }
+      config.chunking.semanticModel = chunking.semanticModel;
+    }
+    if (Object.keys(config.chunking).length === 0) {
+      delete config.chunking;
+    }
+  }
+
+  return { config };
+}
+
+/**
+ * Short labels for what an arm changes ("Reranking uit", "Candidates 50", ...)
+ */
+export function describePipelineConfig(config: QAPipelineConfig | null | undefined): string[] {
+  if (!config) return [];
+  const parts: string[] = [];
+  const { retrieval, prompt, model } = config;
+
+  if (config.topK !== undefined) parts.push(`Chunks in prompt ${config.topK}`);
+  if (retrieval?.candidateTopK !== undefined) parts.push(`Candidates ${retrieval.candidateTopK}`);
+  if (retrieval?.minRelevanceScore !== undefined) parts.push(`Min. relevantie ${retrieval.minRelevanceScore}`);
+  if (retrieval?.rerankingEnabled !== undefined) parts.push(`Reranking ${retrieval.rerankingEnabled ? 'aan' : 'uit'}`);
+  for (const [key, value] of Object.entries(retrieval?.searchOverrides || {})) {
+    parts.push(`${PIPELINE_CONFIG_LABELS[key] || key} ${value}`);
+  }
+  if (prompt?.profileVersion != null) parts.push(`Prompt profiel v${prompt.profileVersion}`);
+  if (prompt?.tone) parts.push(`Toon ${prompt.tone}`);
+  if (prompt?.extraRules) parts.push(`${prompt.extraRules.length} extra regels`);
+  if (prompt?.additionalInstructions) parts.push('Extra instructies');
+  if (model?.model) parts.push(`Model ${model.model}`);
+  if (model?.temperature !== undefined) parts.push(`Temperature ${model.temperature}`);
+  for (const [key, value] of Object.entries(config.chunking || {})) {
+    const label = CHUNKING_OPTION_LABELS[key] || key;
+    parts.push(typeof value === 'boolean' ? `${label} ${value ? 'aan' : 'uit'}` : `${label} ${value}`);
+  }
+
+  return parts;
+}
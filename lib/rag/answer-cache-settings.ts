@@ -0,0 +1,79 @@
+/**
+ * ========================================
+ * ANSWER CACHE SETTINGS
+ * ========================================
+ *
+ * Per-tenant instellingen voor de semantische answer cache:
+ * - Aan/uit
+ * - Similarity threshold voor een hit
+ * - Levensduur van entries (uren)
+ *
+ * De waardes staan op de tenants tabel (migration 030). NULL = standaard waarde.
+ *
+ * Dit bestand kan veilig op zowel client als server geïmporteerd worden.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface AnswerCacheSettings {
+  enabled: boolean;
+  similarityThreshold: number;
+  ttlHours: number;
+}
+
+/**
+ * Ruwe kolommen zoals ze op de tenants rij staan
+ */
+export interface TenantAnswerCacheColumns {
+  answer_cache_enabled?: boolean | null;
+  answer_cache_threshold?: number | null;
+  answer_cache_ttl_hours?: number | null;
+}
+
+// ========================================
+// DEFAULTS & LIMITS
+// ========================================
+
+export const DEFAULT_ANSWER_CACHE_SETTINGS: AnswerCacheSettings = {
+  enabled: false,
+  similarityThreshold: 0.95,  // Lager geeft hits op vragen die net iets anders bedoelen
+  ttlHours: 168               // 7 dagen
+};
+
+export const ANSWER_CACHE_THRESHOLD_RANGE = { min: 0.8, max: 1 };
+export const ANSWER_CACHE_TTL_HOURS_RANGE = { min: 1, max: 720 };
+
+// ========================================
+// HELPERS
+// ========================================
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.min(range.max, Math.max(range.min, value));
+}
+
+/**
+ * Zet de tenant kolommen om naar geldige cache settings.
+ * Waardes buiten bereik worden begrensd, lege waardes vallen terug op de defaults.
+ */
+export function resolveAnswerCacheSettings(
+  columns: TenantAnswerCacheColumns | null | undefined
+): AnswerCacheSettings {
+  const defaults = DEFAULT_ANSWER_CACHE_SETTINGS;
+  if (!columns) return { ...defaults };
+
+  const similarityThreshold = typeof columns.answer_cache_threshold === 'number'
+    ? clamp(Number(columns.answer_cache_threshold), ANSWER_CACHE_THRESHOLD_RANGE)
+    : defaults.similarityThreshold;
+
+  const ttlHours = typeof columns.answer_cache_ttl_hours === 'number'
+    ? clamp(Math.round(columns.answer_cache_ttl_hours), ANSWER_CACHE_TTL_HOURS_RANGE)
+    : defaults.ttlHours;
+
+  return {
+    enabled: columns.answer_cache_enabled === true,
+    similarityThreshold,
+    ttlHours
+  };
+}
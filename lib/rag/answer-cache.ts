@@ -0,0 +1,270 @@
+/**
+ * ========================================
+ * ANSWER CACHE (SERVER-ONLY)
+ * ========================================
+ *
+ * Semantische cache voor veelgestelde vragen (migration 030).
+ * Key: tenant + taal + embedding van de genormaliseerde vraag.
+ *
+ * - lookupCachedAnswer(): gooit nooit, bij fouten een miss
+ * - storeCachedAnswer(): na een succesvol (niet gecached) antwoord
+ * - invalidateAnswerCache(): vanuit de document processor
+ *
+ * Voor de per-tenant settings, importeer uit './answer-cache-settings'.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { generateEmbedding } from './embeddings';
+import { Citation } from './types';
+import { AnswerCacheSettings } from './answer-cache-settings';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface CachedAnswer {
+  id: string;
+  question: string;
+  answer: string;
+  citations: Citation[];
+  sourceLogId: string | null;
+  createdAt: string;
+}
+
+export interface AnswerCacheLookup {
+  hit: boolean;
+  entry: CachedAnswer | null;
+  similarity: number | null;      // Beste kandidaat, ook bij een miss
+  normalizedQuestion: string;
+  embedding: number[] | null;     // Hergebruikt bij het opslaan na een miss
+  tokens: number;
+  cost: number;
+  latencyMs: number;
+  error?: string;
+}
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// NORMALIZATION
+// ========================================
+
+/**
+ * Normaliseer een vraag voor de cache key:
+ * lowercase, whitespace samengevoegd, leestekens aan begin/eind weg.
+ * "  Wanneer wordt mijn salaris betaald?? " → "wanneer wordt mijn salaris betaald"
+ */
+export function normalizeQuestion(question: string): string {
+  return question
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^[\s"'“”‘’¿¡]+/, '')
+    .replace(/[\s"'“”‘’?!.,;:…]+$/, '');
+}
+
+// ========================================
+// LOOKUP
+// ========================================
+
+/**
+ * Zoek een gecached antwoord voor deze vraag.
+ * Gooit nooit: bij een fout wordt gewoon de normale pipeline gebruikt.
+ *
+ * @param tenantId - Tenant identifier
+ * @param language - Taal van het antwoord (UI taal)
+ * @param question - De vraag van de gebruiker
+ * @param settings - Answer cache settings van de tenant
+ */
+export async function lookupCachedAnswer(
+  tenantId: string,
+  language: string,
+  question: string,
+  settings: AnswerCacheSettings
+): Promise<AnswerCacheLookup> {
+  const startTime = Date.now();
+  const normalizedQuestion = normalizeQuestion(question);
+
+  const miss: AnswerCacheLookup = {
+    hit: false,
+    entry: null,
+    similarity: null,
+    normalizedQuestion,
+    embedding: null,
+    tokens: 0,
+    cost: 0,
+    latencyMs: 0
+  };
+
+  try {
+    const { embedding, tokens, cost } = await generateEmbedding(normalizedQuestion);
+    miss.embedding = embedding;
+    miss.tokens = tokens;
+    miss.cost = cost;
+
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase.rpc('match_answer_cache', {
+      p_tenant_id: tenantId,
+      p_language: language,
+      p_query_embedding: `[${embedding.join(',')}]`,
+      p_max_age_hours: settings.ttlHours
+    });
+
+    if (error) {
+      console.warn('⚠️ [AnswerCache] Lookup failed:', error.message);
+      return { ...miss, latencyMs: Date.now() - startTime, error: error.message };
+    }
+
+    const best = (data || [])[0] as {
+      id: string;
+      question: string;
+      answer: string;
+      citations: Citation[] | null;
+      source_log_id: string | null;
+      created_at: string;
+      similarity: number;
+    } | undefined;
+
+    if (!best) {
+      console.log(`🗄️ [AnswerCache] Miss for ${tenantId}/${language} (cache empty)`);
+      return { ...miss, latencyMs: Date.now() - startTime };
+    }
+
+    if (best.similarity < settings.similarityThreshold) {
+      console.log(`🗄️ [AnswerCache] Miss for ${tenantId}/${language}: best ${(best.similarity * 100).toFixed(1)}% < ${(settings.similarityThreshold * 100).toFixed(1)}%`);
+      return { ...miss, similarity: best.similarity, latencyMs: Date.now() - startTime };
+    }
+
+    console.log(`✅ [AnswerCache] Hit for ${tenantId}/${language}: "${best.question}" (${(best.similarity * 100).toFixed(1)}%)`);
+
+    return {
+      ...miss,
+      hit: true,
+      similarity: best.similarity,
+      entry: {
+        id: best.id,
+        question: best.question,
+        answer: best.answer,
+        citations: best.citations || [],
+        sourceLogId: best.source_log_id,
+        createdAt: best.created_at
+      },
+      latencyMs: Date.now() - startTime
+    };
+  } catch (err) {
+    console.error('❌ [AnswerCache] Unexpected lookup error:', err);
+    return { ...miss, latencyMs: Date.now() - startTime, error: (err as Error).message };
+  }
+}
+
+/**
+ * Verhoog de hit teller van een entry (non-critical)
+ */
+export async function recordAnswerCacheHit(entryId: string): Promise<void> {
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase.rpc('record_answer_cache_hit', { p_id: entryId });
+    if (error) {
+      console.warn('⚠️ [AnswerCache] Could not record hit:', error.message);
+    }
+  } catch (err) {
+    console.warn('⚠️ [AnswerCache] Could not record hit:', err);
+  }
+}
+
+// ========================================
+// WRITE
+// ========================================
+
+/**
+ * Sla een antwoord op in de cache.
+ * Een bestaande entry voor dezelfde genormaliseerde vraag wordt overschreven.
+ */
+export async function storeCachedAnswer(input: {
+  tenantId: string;
+  language: string;
+  question: string;
+  normalizedQuestion: string;
+  embedding: number[];
+  answer: string;
+  citations: Citation[];
+  sourceLogId?: string | null;
+}): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('answer_cache')
+      .upsert({
+        tenant_id: input.tenantId,
+        language: input.language,
+        question: input.question,
+        normalized_question: input.normalizedQuestion,
+        question_embedding: `[${input.embedding.join(',')}]`,
+        answer: input.answer,
+        citations: input.citations,
+        source_log_id: input.sourceLogId || null,
+        hit_count: 0,
+        last_hit_at: null,
+        created_at: new Date().toISOString()
+      }, { onConflict: 'tenant_id,language,normalized_question' });
+
+    if (error) {
+      console.warn('⚠️ [AnswerCache] Could not store answer:', error.message);
+      return { success: false, error: error.message };
+    }
+
+    console.log(`💾 [AnswerCache] Stored answer for ${input.tenantId}/${input.language}: "${input.normalizedQuestion}"`);
+    return { success: true };
+  } catch (err) {
+    console.warn('⚠️ [AnswerCache] Could not store answer:', err);
+    return { success: false, error: (err as Error).message };
+  }
+}
+
+/**
+ * Leeg de cache van een tenant.
+ * Wordt aangeroepen door de processor zodra de documenten van de tenant wijzigen.
+ */
+export async function invalidateAnswerCache(
+  tenantId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('answer_cache')
+      .delete()
+      .eq('tenant_id', tenantId);
+
+    if (error) {
+      console.error('❌ [AnswerCache] Invalidation failed:', error);
+      return { success: false, error: error.message };
+    }
+
+    console.log(`🗑️ [AnswerCache] Cache invalidated for tenant: ${tenantId}`);
+    return { success: true };
+  } catch (err) {
+    console.error('❌ [AnswerCache] Invalidation failed:', err);
+    return { success: false, error: (err as Error).message };
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * ========================================
+ * CHUNK REUSE SERVICE (SERVER-ONLY)
+ * ========================================
+ *
+ * Incrementeel herverwerken (migratie 039): chunks waarvan de content
+ * gelijk is aan een chunk van de vorige verwerking krijgen diens
+ * embedding en AI metadata. Alleen nieuwe of gewijzigde chunks gaan
+ * naar de embedding API en de metadata generator.
+ *
+ * Bron van herbruikbare chunks:
+ * - Herverwerken: de huidige chunks (voordat ze verwijderd worden)
+ * - Nieuwe versie: de gearchiveerde chunks van de vorige versie
+ *
+ * content_hash wordt door een trigger in de database gezet; de hash
+ * hier (sha256 van de UTF-8 content) moet daar exact mee overeenkomen.
+ */
+
+import { createHash } from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { generateEmbeddingsBatch } from './embeddings';
+import { generateMetadataBatch, isMetadataGenerationEnabled } from './metadata-generator';
+import type { EnhancedChunkMetadata } from './types';
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface ReusableChunk {
+  embedding: number[];
+  metadata: EnhancedChunkMetadata;   // Leeg als er geen AI metadata was
+}
+
+export interface IncrementalEmbeddingResult {
+  embeddings: number[][];
+  metadata: Map<number, EnhancedChunkMetadata>;
+  embeddingTokens: number;
+  embeddingCost: number;
+  metadataCost: number;
+  failedIndices: number[];
+  chunksReused: number;
+  chunksEmbedded: number;
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+const PAGE_SIZE = 500;
+const ENHANCED_METADATA_KEYS: (keyof EnhancedChunkMetadata)[] = ['summary', 'keywords', 'topics', 'alternativeTerms'];
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * SHA-256 (hex) van de chunk content, gelijk aan document_chunks.content_hash
+ */
+export function computeChunkHash(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+/**
+ * pgvector komt via PostgREST als string "[0.1,0.2,...]" terug
+ */
+function parseEmbedding(value: unknown): number[] | null {
+  if (Array.isArray(value)) return value as number[];
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value) as number[];
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+function pickEnhancedMetadata(metadata: Record<string, unknown> | null): EnhancedChunkMetadata {
+  const picked: Record<string, unknown> = {};
+  for (const key of ENHANCED_METADATA_KEYS) {
+    if (metadata?.[key] !== undefined) picked[key] = metadata[key];
+  }
+  return picked as EnhancedChunkMetadata;
+}
+
+// ========================================
+// LOAD
+// ========================================
+
+/**
+ * Herbruikbare chunks per content hash. Zonder archivedVersion: de
+ * huidige chunks van het document, anders die van de gearchiveerde
+ * versie. Gooit nooit: bij een fout wordt alles opnieuw ge-embed.
+ */
+export async function loadReusableChunks(
+  documentId: string,
+  options: { archivedVersion?: number } = {}
+): Promise<Map<string, ReusableChunk>> {
+  const reusable = new Map<string, ReusableChunk>();
+
+  try {
+    const supabase = getSupabaseClient();
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from(options.archivedVersion !== undefined ? 'document_chunk_archive' : 'document_chunks')
+        .select('content_hash, embedding, metadata')
+        .eq('document_id', documentId)
+        .not('content_hash', 'is', null)
+        .order('chunk_index', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (options.archivedVersion !== undefined) {
+        query = query.eq('version', options.archivedVersion);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('❌ [ChunkReuse] Error loading chunks:', error);
+        return new Map();
+      }
+
+      for (const row of data || []) {
+        const embedding = parseEmbedding(row.embedding);
+        if (embedding && !reusable.has(row.content_hash)) {
+          reusable.set(row.content_hash, { embedding, metadata: pickEnhancedMetadata(row.metadata) });
+        }
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  } catch (error) {
+    console.error('❌ [ChunkReuse] Error loading chunks:', error);
+    return new Map();
+  }
+
+  return reusable;
+}
+
+// ========================================
+// EMBED
+// ========================================
+
+/**
+ * Embeddings + AI metadata voor alle chunks, met hergebruik waar de
+ * content hash bekend is. Metadata wordt ook gegenereerd voor een
+ * hergebruikte chunk die er nog geen had.
+ */
+export async function embedChunksIncrementally(
+  contents: string[],
+  filename: string,
+  reusable: Map<string, ReusableChunk>
+): Promise<IncrementalEmbeddingResult> {
+  const embeddings: number[][] = new Array(contents.length);
+  const metadata = new Map<number, EnhancedChunkMetadata>();
+  const toEmbed: number[] = [];
+  const toDescribe: number[] = [];
+  const metadataEnabled = isMetadataGenerationEnabled();
+
+  contents.forEach((content, index) => {
+    const previous = reusable.get(computeChunkHash(content));
+
+    if (previous) {
+      embeddings[index] = previous.embedding;
+      if (Object.keys(previous.metadata).length > 0) {
+        metadata.set(index, previous.metadata);
+      } else if (metadataEnabled) {
+        toDescribe.push(index);
+      }
+    } else {
+      toEmbed.push(index);
+      if (metadataEnabled) toDescribe.push(index);
+    }
+  });
+
+  const chunksReused = contents.length - toEmbed.length;
+  console.log(`♻️  [ChunkReuse] ${chunksReused}/${contents.length} chunks reused, ${toEmbed.length} to embed`);
+
+  let metadataCost = 0;
+  if (toDescribe.length > 0) {
+    const metadataResult = await generateMetadataBatch(
+      toDescribe.map(index => ({ content: contents[index], index })),
+      filename
+    );
+    metadataResult.results.forEach((result, index) => metadata.set(index, result));
+    metadataCost = metadataResult.totalCost;
+  }
+
+  let embeddingTokens = 0;
+  let embeddingCost = 0;
+  const failedIndices: number[] = [];
+
+  if (toEmbed.length > 0) {
+    const result = await generateEmbeddingsBatch(toEmbed.map(index => contents[index]));
+    toEmbed.forEach((index, i) => {
+      embeddings[index] = result.embeddings[i];
+    });
+    result.failedIndices.forEach(i => failedIndices.push(toEmbed[i]));
+    embeddingTokens = result.totalTokens;
+    embeddingCost = result.totalCost;
+  }
+
+  return {
+    embeddings,
+    metadata,
+    embeddingTokens,
+    embeddingCost,
+    metadataCost,
+    failedIndices,
+    chunksReused,
+    chunksEmbedded: toEmbed.length
+  };
+}
+
+// ========================================
+// SAVINGS
+// ========================================
+
+/**
+ * Geschatte besparing: hergebruikte chunks × kosten per ge-embedde chunk
+ * (embedding + metadata). Van deze verwerking, of van de laatste
+ * verwerking van het document als nu niets ge-embed is.
+ */
+export async function estimateCostSaved(
+  documentId: string,
+  result: Pick<IncrementalEmbeddingResult, 'chunksReused' | 'chunksEmbedded' | 'embeddingCost' | 'metadataCost'>
+): Promise<number> {
+  if (result.chunksReused === 0) return 0;
+
+  if (result.chunksEmbedded > 0) {
+    return result.chunksReused * (result.embeddingCost + result.metadataCost) / result.chunksEmbedded;
+  }
+
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data } = await supabase
+      .from('document_processing_logs')
+      .select('chunks_created, chunks_embedded, embedding_cost, metadata_cost')
+      .eq('document_id', documentId)
+      .eq('processing_status', 'completed')
+      .order('started_at', { ascending: false })
+      .limit(10);
+
+    for (const log of data || []) {
+      const embedded = log.chunks_embedded ?? log.chunks_created;
+      const cost = Number(log.embedding_cost || 0) + Number(log.metadata_cost || 0);
+      if (embedded > 0 && cost > 0) {
+        return result.chunksReused * cost / embedded;
+      }
+    }
+  } catch (error) {
+    console.error('❌ [ChunkReuse] Error estimating savings:', error);
+  }
+
+  return 0;
+}
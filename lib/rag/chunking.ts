@@ -11,6 +11,10 @@
  *
  * Totale kosten: ~$0.09-0.12 per document
  * Verwachte verbetering: 70% → 90-95% retrieval accuracy
+ *
+ * Tabellen (Markdown tabellen uit de extractors) worden niet door de
+ * lopende tekst chunker gesplitst maar als eigen chunks opgeslagen
+ * (structureType 'table'), met de header rij in elk deel.
  */
 
 import {
@@ -26,9 +30,11 @@ import {
   buildHierarchy,
   generateContextHeader,
   findStructureAtPosition,
-  getStructureSummary
+  getStructureSummary,
+  createTableStructure
 } from './structure-detector';
 import { semanticChunk } from './semantic-chunker';
+import { findMarkdownTables, maskMarkdownTables, splitMarkdownTable } from './tables';
 
 // ========================================
 // DEFAULT CONFIGURATIE
@@ -131,6 +137,13 @@ export async function smartChunkDocument(
     console.log(`🏗️ [SmartChunk] Detected: ${getStructureSummary(structures)}`);
   }
 
+  // 2b. Tabellen apart houden: de lopende tekst chunker ziet ze als lege regels
+  const tableBlocks = findMarkdownTables(fullText);
+  const proseText = tableBlocks.length > 0 ? maskMarkdownTables(fullText, tableBlocks) : fullText;
+  if (tableBlocks.length > 0) {
+    console.log(`📊 [SmartChunk] Tables: ${tableBlocks.length} (chunked separately)`);
+  }
+
   // 3. Maak chunks
   let rawChunks: string[];
   let chunkPositions: number[] | null = null;  // Posities van semantic chunker (indien beschikbaar)
@@ -139,17 +152,26 @@ export async function smartChunkDocument(
 
   if (opts.enableSemanticChunking) {
     // AI-powered chunking - returns both chunks and their estimated positions
-    const result = await semanticChunk(fullText, opts);
+    const result = await semanticChunk(proseText, opts);
     rawChunks = result.chunks;
     chunkPositions = result.chunkPositions;
     semanticCost = result.cost;
     semanticTokens = result.tokensUsed;
   } else if (opts.enableSmartBoundaries) {
     // Smart boundaries zonder AI
-    rawChunks = smartBoundaryChunk(fullText, structures, opts);
+    rawChunks = smartBoundaryChunk(proseText, structures, opts);
   } else {
     // Fallback naar legacy chunking
-    rawChunks = legacyChunk(fullText, opts);
+    rawChunks = legacyChunk(proseText, opts);
+  }
+
+  // Lege regels van weggelaten tabellen samenvoegen
+  if (tableBlocks.length > 0) {
+    rawChunks = rawChunks.map(chunk => chunk.replace(/\n{3,}/g, '\n\n').trim());
+    if (chunkPositions) {
+      chunkPositions = chunkPositions.filter((_, idx) => rawChunks[idx].length > 0);
+    }
+    rawChunks = rawChunks.filter(chunk => chunk.length > 0);
   }
 
   console.log(`📦 [SmartChunk] Created ${rawChunks.length} raw chunks`);
@@ -220,6 +242,38 @@ export async function smartChunkDocument(
     structuredChunks.push(chunk);
   }
 
+  // 4b. Tabel chunks (header rij herhaald per deel)
+  for (const block of tableBlocks) {
+    const structure = structures.find(s => s.type === 'table' && s.startIndex === block.startIndex)
+      || createTableStructure(block, structures);
+    const pageNumber = findPageForPosition(boundaries, block.startIndex);
+    const contextHeader = opts.enableContextHeaders
+      ? generateContextHeader(documentName, structure, structures, block.startIndex)
+      : '';
+
+    for (const part of splitMarkdownTable(block, opts.maxChunkSize)) {
+      structuredChunks.push({
+        content: part,
+        contextHeader,
+        structure,
+        pageNumber,
+        chunkIndex: 0,  // Wordt hieronder opnieuw genummerd
+        metadata: {
+          startChar: block.startIndex,
+          endChar: block.endIndex,
+          wordCount: countWords(part),
+          structureType: 'table',
+          structurePath: buildStructurePath(structure)
+        }
+      });
+    }
+  }
+
+  // Tabel chunks op hun plek in het document
+  if (tableBlocks.length > 0) {
+    structuredChunks.sort((a, b) => a.metadata.startChar - b.metadata.startChar);
+  }
+
   // 5. Filter te kleine chunks (merge met vorige)
   const finalChunks = mergeSmallChunks(structuredChunks, opts.minChunkSize);
 
@@ -571,6 +625,7 @@ function buildStructurePath(structure: DocumentStructure): string[] {
 
 /**
  * Merged te kleine chunks met de vorige
+ * Tabel chunks worden nooit samengevoegd (eigen chunk type)
  */
 function mergeSmallChunks(
   chunks: StructuredChunk[],
@@ -579,9 +634,11 @@ function mergeSmallChunks(
   const result: StructuredChunk[] = [];
 
   for (const chunk of chunks) {
-    if (chunk.content.length < minSize && result.length > 0) {
+    const prev = result[result.length - 1];
+    const isTable = chunk.metadata.structureType === 'table' || prev?.metadata.structureType === 'table';
+
+    if (chunk.content.length < minSize && result.length > 0 && !isTable) {
       // Merge met vorige chunk
-      const prev = result[result.length - 1];
       prev.content = `${prev.content}\n\n${chunk.content}`;
       prev.metadata.endChar = chunk.metadata.endChar;
       prev.metadata.wordCount = countWords(prev.content);
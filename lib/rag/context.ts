@@ -27,11 +27,19 @@ import {
   RAGSearchQuery,
   RAGRawSearchResult,
   RAGMergeStats,
-  RAGRerankingResultItem
+  RAGRerankingResultItem,
+  RAGFusionDetails
 } from './types';
 import { rerankResults, isRerankingEnabled, RerankResultWithPositions } from './reranker';
 import { translateQueryOptimized, TranslationResult } from './query-translator';
 import { detectFollowUpQuestion, expandQueryWithContext, ConversationMessage, QueryExpansionResult } from './conversation-context';
+import { applyQueryDictionary } from './query-dictionary';
+import { getQueryDictionary } from './query-dictionary-service';
+import { HybridSearchSettings } from './search-settings';
+import { RetrievalConfig, resolveRetrievalConfig } from './retrieval-config';
+import { getTenantSearchSettings } from '@/lib/shared/tenant-config';
+import { excludeExpiredResults, formatValidityLabel, todayISO, weightResultsByValidity } from './document-validity';
+import { getDocumentValidity } from './document-validity-service';
 
 // ========================================
 // EXTENDED RESPONSE TYPE
@@ -144,235 +152,77 @@ export function extractSnippetPreview(text: string): string {
 }
 
 // ========================================
-// QUERY EXPANSION
+// SEARCH FUNCTIONS
 // ========================================
 
 /**
- * Mapping van informele vragen naar formele zoektermen
- * Dit verbetert de vector search voor alledaags taalgebruik
- */
-const QUERY_EXPANSIONS: Record<string, string[]> = {
-  // Salaris / betaling
-  'geld': ['salaris', 'betaaldata', 'loon', 'uitbetaling', 'betaling'],
-  'betaald': ['salaris', 'betaaldata', 'loon', 'uitbetaling'],
-  'krijg': ['salaris', 'betaaldata', 'uitbetaling', 'ontvangen'],
-  'wanneer krijg': ['betaaldata', 'salarisbetaling', 'uitbetaling', 'betaaldatum'],
-  'salaris': ['betaaldata', 'loon', 'uitbetaling', 'salarisstrook', 'functie-indeling'],
-  'loon': ['salaris', 'betaaldata', 'uitbetaling', 'functie-indeling'],
-  'inkomen': ['salaris', 'loon', 'betaling', 'uitbetaling'],
-
-  // Bonus / Extra uitkeringen / 1% regeling (CAO artikel 2.7)
-  'bonus': ['eenmalige bruto uitkering', '1%', 'extra uitkering', 'winstdeling', 'eindejaarsuitkering', 'artikel 2.7'],
-  '1%': ['eenmalige bruto uitkering', 'jaarlijkse uitkering', 'bonus', 'november oktober', 'artikel 2.7'],
-  '1 procent': ['eenmalige bruto uitkering', '1%', 'jaarlijkse uitkering', 'artikel 2.7'],
-  'extra': ['bonus', 'eenmalige bruto uitkering', 'toeslag', 'extra uitkering'],
-  'november': ['eenmalige bruto uitkering', '1%', 'oktober', 'jaarlijkse uitkering'],
-  'uitkering': ['eenmalige bruto uitkering', '1%', 'bonus', 'vakantietoeslag'],
-  'bruto': ['eenmalige bruto uitkering', 'salaris', 'loon', 'uitkering'],
-
-  // Verlof / vakantie (CAO hoofdstuk 4)
-  'vrij': ['verlof', 'vakantie', 'vrije dagen', 'vakantiedagen', 'roostervrije dagen'],
-  'vakantie': ['verlof', 'vakantiedagen', 'verlofaanvraag', 'vakantieplanning', 'vakantierechten'],
-  'snipperdag': ['verlof', 'vakantiedagen', 'vrije dag', 'roostervrije dag'],
-  'verlof': ['vakantie', 'vakantiedagen', 'vrije dagen', 'geboorteverlof', 'ouderschapsverlof'],
-  'vakantiegeld': ['vakantietoeslag', '8%', 'vakantie uitkering', 'artikel 2.6'],
-  'vakantietoeslag': ['vakantiegeld', '8%', 'vakantie uitkering'],
-  'feestdag': ['feestdagen', 'vrije dag', 'roostervrije dag', 'artikel 4.3'],
-  'feestdagen': ['nationale feestdag', 'vrije dagen', 'roostervrij'],
-
-  // Ziekte (CAO hoofdstuk 5)
-  'ziek': ['ziekmelding', 'ziekteverzuim', 'arbeidsongeschikt', 'verzuim', 'loondoorbetaling'],
-  'griep': ['ziekmelding', 'ziekteverzuim'],
-  'ziekmelden': ['ziekmelding', 'verzuimprotocol', 'ziektemelding'],
-  'arbeidsongeschikt': ['ziekte', 'WGA', 'verzuim', 'loondoorbetaling'],
-  'herstel': ['hersteld', 'betermelden', 're-integratie'],
-
-  // Contract / arbeidsovereenkomst (CAO hoofdstuk 1)
-  'contract': ['arbeidsovereenkomst', 'arbeidscontract', 'dienstverband'],
-  'ontslag': ['beëindiging', 'opzegtermijn', 'ontslagprocedure', 'einde dienstverband'],
-  'stoppen': ['opzegging', 'ontslag', 'beëindiging', 'einde arbeidsovereenkomst'],
-  'opzeggen': ['opzegtermijn', 'beëindiging', 'ontslag'],
-  'proeftijd': ['proefperiode', 'arbeidsovereenkomst', 'contract'],
-
-  // Werktijden / arbeidsduur (CAO hoofdstuk 3)
-  'werktijd': ['arbeidsduur', 'werkuren', 'arbeidstijd', 'dagdienstvenster'],
-  'werkuren': ['arbeidsduur', 'werktijd', 'arbeidstijd'],
-  'uren': ['arbeidsduur', 'werktijd', 'werkuren', 'overwerk'],
-  'overwerk': ['overuren', 'meeruren', 'toeslagen', 'compensatie'],
-  'toeslag': ['toeslagen', 'overwerkvergoeding', 'onregelmatigheid'],
-  'nachtdienst': ['nachtwerk', 'toeslagen', 'onregelmatige werktijden'],
-
-  // Pensioen (CAO hoofdstuk 5/11)
-  'pensioen': ['pensioenregeling', 'AOW', 'pensioenfonds', 'pensioenopbouw'],
-  'oud': ['pensioen', 'AOW', 'stoppen met werken', 'vervroegd uittreden'],
-  'aow': ['pensioen', 'AOW-gerechtigde leeftijd', 'pensioenfonds'],
-  'vroegpensioen': ['vervroegd uittreden', 'RVU', 'eerder stoppen'],
-
-  // Lease / auto / mobiliteit
-  'auto': ['leaseauto', 'lease regeling', 'mobiliteit'],
-  'lease': ['leaseauto', 'mobiliteitsregeling', 'lease a bike'],
-  'fiets': ['lease a bike', 'fietsregeling', 'mobiliteit', 'fietsplan'],
-  'reiskosten': ['reiskostenvergoeding', 'woon-werkverkeer', 'kilometervergoeding'],
-  'kilometer': ['reiskostenvergoeding', 'woon-werkverkeer', 'kilometervergoeding'],
-  'ov': ['openbaar vervoer', 'reiskosten', 'woon-werkverkeer'],
-
-  // Thuiswerken / hybride werken
-  'thuis': ['thuiswerken', 'hybride werken', 'remote', 'thuiswerkvergoeding'],
-  'remote': ['thuiswerken', 'hybride werken', 'op afstand werken'],
-  'thuiswerkvergoeding': ['thuiswerken', 'vergoeding', 'hybride werken'],
-
-  // CAO en arbeidsvoorwaarden
-  'cao': ['collectieve arbeidsovereenkomst', 'arbeidsvoorwaarden', 'grafimedia'],
-  'regeling': ['beleid', 'procedure', 'richtlijn'],
-  'grafimedia': ['cao', 'collectieve arbeidsovereenkomst', 'grafische sector'],
-  'werkingssfeer': ['cao', 'van toepassing', 'grafimedia'],
-
-  // Functies en inschaling (CAO hoofdstuk 2)
-  'functie': ['functie-indeling', 'inschaling', 'functieschaal', 'functieniveau'],
-  'inschaling': ['functie-indeling', 'salaris', 'schaal', 'functieschaal'],
-  'schaal': ['salarisschaal', 'functie-indeling', 'inschaling'],
-  'promotie': ['functiewijziging', 'inschaling', 'salarisverhoging'],
-
-  // Sociale activiteiten / borrels / afdelingsuitjes
-  'borrel': ['afdelingsuitje', 'sociale activiteit', 'teamuitje', 'bedrijfsuitje', 'personeelsfeest'],
-  'borrels': ['afdelingsuitjes', 'sociale activiteiten', 'teamuitjes', 'bedrijfsuitjes'],
-  'drinks': ['borrel', 'afdelingsuitje', 'sociale activiteit'],
-  'na werktijd': ['buiten werktijd', 'afdelingsuitje', 'sociale activiteit'],
-  'feest': ['personeelsfeest', 'afdelingsuitje', 'bedrijfsfeest', 'sociale activiteit'],
-  'teamuitje': ['afdelingsuitje', 'sociale activiteit', 'teambuilding', 'bedrijfsuitje'],
-  'teambuilding': ['afdelingsuitje', 'teamuitje', 'sociale activiteit'],
-
-  // Opleiding / ontwikkeling (CAO hoofdstuk 7)
-  'opleiding': ['studie', 'ontwikkeling', 'cursus', 'loopbaanontwikkeling'],
-  'studie': ['opleiding', 'studiekosten', 'ontwikkeling'],
-  'training': ['opleiding', 'cursus', 'ontwikkeling'],
-  'cursus': ['opleiding', 'training', 'ontwikkeling'],
-
-  // Zwangerschap / ouderschap
-  'zwanger': ['zwangerschapsverlof', 'bevallingsverlof', 'ouderschapsverlof'],
-  'baby': ['geboorteverlof', 'ouderschapsverlof', 'bevallingsverlof'],
-  'kind': ['ouderschapsverlof', 'geboorteverlof', 'kinderopvang'],
-  'ouderschapsverlof': ['ouderschapsverlof', 'geboorteverlof', 'verlof'],
-
-  // Specifieke CAO artikelen als zoekterm
-  'artikel': ['cao', 'bepaling', 'regeling'],
-  'hoofdstuk': ['cao', 'onderdeel', 'sectie'],
-};
-
-/**
- * Genereert alternatieve zoekvragen voor multi-query retrieval
- * Dit verbetert de kans dat we het juiste document vinden
+ * Rij zoals search_documents_enhanced / search_documents_fulltext die teruggeven
  */
-function generateAlternativeQueries(question: string): string[] {
-  const lowerQuestion = question.toLowerCase();
-  const alternatives: string[] = [];
-
-  // Direct mapping van informele naar formele queries
-  const QUERY_REWRITES: Record<string, string> = {
-    // Salaris / betaling - DIRECT naar betaaldata
-    'wanneer krijg ik': 'betaaldata salaris uitbetaling',
-    'wanneer krijg ik geld': 'betaaldata 2025 salarisbetaling',
-    'wanneer krijg ik me geld': 'betaaldata 2025 salarisbetaling',
-    'wanneer krijg ik mijn geld': 'betaaldata 2025 salarisbetaling',
-    'wanneer word ik betaald': 'betaaldata salaris uitbetaling',
-    'wanneer salaris': 'betaaldata salaris uitbetaling',
-    'geld krijgen': 'betaaldata salaris uitbetaling',
-    'me geld': 'betaaldata salaris uitbetaling',
-    'mijn geld': 'betaaldata salaris uitbetaling',
-    'betaald krijgen': 'betaaldata salarisbetaling',
-    'loon krijgen': 'betaaldata salaris uitbetaling',
-
-    // Verlof
-    'kan ik vrij': 'verlofaanvraag vakantie procedure',
-    'wil vrij': 'verlofaanvraag vakantie',
-    'vrij nemen': 'verlofaanvraag vakantiedagen',
-    'dag vrij': 'verlofaanvraag vakantiedag',
-    'vakantie opnemen': 'verlofaanvraag vakantiedagen procedure',
-
-    // Ziekte
-    'ben ziek': 'ziekmelding procedure verzuim',
-    'ik ben ziek': 'ziekmelding procedure',
-    'ziek melden': 'ziekmelding verzuimprotocol',
-    'niet werken ziek': 'ziekmelding verzuim procedure',
-
-    // Pensioen
-    'wanneer pensioen': 'pensioenregeling AOW stoppen werken',
-    'met pensioen': 'pensioenregeling AOW',
-
-    // Auto/lease
-    'auto van werk': 'leaseauto mobiliteit regeling',
-    'lease auto': 'leaseauto mobiliteitsregeling',
-
-    // Bonus / Extra uitkeringen / 1% regeling (CAO artikel 2.7)
-    'bonus': 'eenmalige bruto uitkering 1% jaarlijkse uitkering',
-    '1% regeling': 'eenmalige bruto uitkering jaarlijkse uitkering november oktober',
-    '1 procent': 'eenmalige bruto uitkering 1% jaarlijkse',
-    'extra geld': 'eenmalige bruto uitkering bonus toeslag',
-    'in november': 'eenmalige bruto uitkering 1% jaarlijkse uitkering oktober',
-    'eindejaarsuitkering': 'eenmalige bruto uitkering 1% december',
-    'uitkering': 'eenmalige bruto uitkering 1% jaarlijkse',
-  };
-
-  // Check for direct rewrites
-  for (const [trigger, rewrite] of Object.entries(QUERY_REWRITES)) {
-    if (lowerQuestion.includes(trigger)) {
-      alternatives.push(rewrite);
-    }
-  }
-
-  // Check for expansion terms
-  for (const [trigger, terms] of Object.entries(QUERY_EXPANSIONS)) {
-    if (lowerQuestion.includes(trigger)) {
-      // Voeg een specifieke HR query toe
-      alternatives.push(terms.slice(0, 3).join(' '));
-    }
-  }
-
-  return [...new Set(alternatives)]; // Deduplicate
+interface ChunkSearchRow {
+  chunk_id: string;
+  document_id: string;
+  filename: string;
+  file_path?: string;
+  content: string;
+  page_number: number | null;  // null voor bronnen zonder pagina's (DOCX, HTML, ...)
+  // Metadata fields from chunk (returned by SQL function)
+  metadata?: {
+    structurePath?: string[];
+    summary?: string;
+    section_title?: string;
+    sectionTitle?: string;     // Sectie kop van de extractor (niet-gepagineerde bronnen)
+    anchor?: string;           // Sectie anker, bijv. "vakantiegeld"
+    ocr?: boolean;             // Tekst via OCR herkend (gescande PDF)
+    documentVersion?: number;  // Versie van het document bij het indexeren
+    contextHeader?: string;
+  } | null;
 }
 
 /**
- * Expandeert een user query met relevante HR termen
- * Dit verbetert de embedding match voor informele vragen
+ * Zet een chunk rij om naar een SearchResult (incl. section info uit metadata)
  */
-function expandQuery(question: string): string {
-  const lowerQuestion = question.toLowerCase();
-  const expansions: string[] = [];
-
-  // Check elke trigger en voeg expansies toe
-  for (const [trigger, terms] of Object.entries(QUERY_EXPANSIONS)) {
-    if (lowerQuestion.includes(trigger)) {
-      expansions.push(...terms);
-    }
-  }
-
-  // Als er expansies zijn, voeg ze toe aan de query
-  if (expansions.length > 0) {
-    // Deduplicate
-    const uniqueExpansions = [...new Set(expansions)];
-    const expandedQuery = `${question} ${uniqueExpansions.join(' ')}`;
-    console.log(`🔄 [RAG] Query expanded with HR terms`);
-    console.log(`   Original: "${question}"`);
-    console.log(`   Expanded: "${expandedQuery}"`);
-    return expandedQuery;
-  }
+function toSearchResult(r: ChunkSearchRow, score: number): SearchResult {
+  // Extract section info from metadata if available
+  // Metadata kan null zijn als chunk geen enhanced metadata heeft
+  const metadata = r.metadata || {};
+  const sectionPath = metadata.structurePath;
+  const sectionTitle = metadata.section_title || metadata.sectionTitle ||
+    (sectionPath && sectionPath.length > 0 ? sectionPath[sectionPath.length - 1] : undefined);
+  const contextHeader = metadata.contextHeader ||
+    (sectionPath ? `[${sectionPath.join(' > ')}]` : undefined);
 
-  return question;
+  return {
+    chunk_id: r.chunk_id,
+    document_id: r.document_id,
+    filename: r.filename,
+    file_path: r.file_path,  // Storage path voor PDF toegang
+    content: r.content,
+    page_number: r.page_number ?? undefined,
+    similarity: score,
+    // Enhanced citation info (v2.1)
+    section_title: sectionTitle,
+    section_path: sectionPath,
+    context_header: contextHeader,
+    anchor: metadata.anchor,
+    ocr: metadata.ocr || undefined,
+    document_version: metadata.documentVersion
+  };
 }
 
-// ========================================
-// SEARCH FUNCTIONS
-// ========================================
-
 /**
  * Enhanced vector search met metadata keyword matching
- * Gebruikt search_documents_enhanced RPC voor hybrid search
+ * Gebruikt search_documents_enhanced RPC (vector + metadata keywords)
+ * Threshold en keyword aandeel komen uit de tenant search settings.
+ * Met een chunkSetId: search_chunk_set_enhanced over de scratch chunks
+ * van een QA run (migratie 051).
  */
 async function enhancedVectorSearch(
   supabase: SupabaseClient,
   tenantId: string,
   queryText: string,
-  topK: number
+  topK: number,
+  settings: HybridSearchSettings,
+  chunkSetId: string | null = null
 ): Promise<{
   results: SearchResult[];
   tokens: number;
@@ -381,20 +231,22 @@ async function enhancedVectorSearch(
 }> {
   const { embedding, tokens, cost } = await generateEmbedding(queryText);
 
-  const { data: results, error } = await supabase.rpc('search_documents_enhanced', {
-    p_tenant_id: tenantId,
+  const searchParams = {
     p_query_embedding: `[${embedding.join(',')}]`,
     p_query_text: queryText,
     p_top_k: topK,
-    p_similarity_threshold: 0.45,  // Verhoogd van 0.30 naar 0.45 voor betere relevantie
-    p_vector_weight: 0.6,
-    p_keyword_weight: 0.4
-  });
+    p_similarity_threshold: settings.similarityThreshold,
+    p_vector_weight: 1 - settings.keywordWeight,
+    p_keyword_weight: settings.keywordWeight
+  };
+  const { data: results, error } = chunkSetId
+    ? await supabase.rpc('search_chunk_set_enhanced', { p_chunk_set_id: chunkSetId, ...searchParams })
+    : await supabase.rpc('search_documents_enhanced', { p_tenant_id: tenantId, ...searchParams });
 
   if (error) {
     console.warn('⚠️ [RAG] Enhanced search failed, falling back to basic search:', error.message);
     // Fallback naar basic search
-    const basicResult = await singleVectorSearch(supabase, tenantId, queryText, topK);
+    const basicResult = await singleVectorSearch(supabase, tenantId, queryText, topK, chunkSetId);
     return { ...basicResult, matchedTerms: [] };
   }
 
@@ -406,69 +258,145 @@ async function enhancedVectorSearch(
   }
 
   return {
-    results: (results || []).map((r: {
-      chunk_id: string;
-      document_id: string;
-      filename: string;
-      file_path?: string;
-      content: string;
-      page_number: number;
-      combined_score: number;
-      // Metadata fields from chunk (returned by SQL function)
-      metadata?: {
-        structurePath?: string[];
-        summary?: string;
-        section_title?: string;
-        contextHeader?: string;
-      } | null;
-    }) => {
-      // Extract section info from metadata if available
-      // Metadata kan null zijn als chunk geen enhanced metadata heeft
-      const metadata = r.metadata || {};
-      const sectionPath = metadata.structurePath;
-      const sectionTitle = metadata.section_title ||
-        (sectionPath && sectionPath.length > 0 ? sectionPath[sectionPath.length - 1] : undefined);
-      const contextHeader = metadata.contextHeader ||
-        (sectionPath ? `[${sectionPath.join(' > ')}]` : undefined);
-
-      return {
-        chunk_id: r.chunk_id,
-        document_id: r.document_id,
-        filename: r.filename,
-        file_path: r.file_path,  // Storage path voor PDF toegang
-        content: r.content,
-        page_number: r.page_number,
-        similarity: r.combined_score,  // Gebruik combined score
-        // Enhanced citation info (v2.1)
-        section_title: sectionTitle,
-        section_path: sectionPath,
-        context_header: contextHeader
-      };
-    }) as SearchResult[],
+    // Gebruik combined score (vector + metadata keywords)
+    results: (results || []).map((r: ChunkSearchRow & { combined_score: number }) =>
+      toSearchResult(r, r.combined_score)
+    ),
     tokens,
     cost,
     matchedTerms: [...new Set(allMatchedTerms)] as string[]
   };
 }
 
+/**
+ * Full-text search over document_chunks.content_tsv (migration 029)
+ * Vindt exacte termen die embeddings missen: artikelnummers, productcodes, namen.
+ * Gooit nooit: bij een fout (bijv. migration nog niet gedraaid) een lege lijst.
+ */
+async function fulltextSearch(
+  supabase: SupabaseClient,
+  tenantId: string,
+  queryText: string,
+  topK: number,
+  chunkSetId: string | null = null
+): Promise<{ results: SearchResult[]; error?: string }> {
+  const searchParams = {
+    p_tenant_id: tenantId,
+    p_query_text: queryText,
+    p_top_k: topK
+  };
+  const { data: results, error } = chunkSetId
+    ? await supabase.rpc('search_chunk_set_fulltext', { p_chunk_set_id: chunkSetId, ...searchParams })
+    : await supabase.rpc('search_documents_fulltext', searchParams);
+
+  if (error) {
+    console.warn('⚠️ [RAG] Full-text search failed, continuing with vector results only:', error.message);
+    return { results: [], error: error.message };
+  }
+
+  return {
+    results: (results || []).map((r: ChunkSearchRow & { rank: number }) => toSearchResult(r, r.rank))
+  };
+}
+
+/**
+ * Combineert vector en full-text resultaten met weighted reciprocal rank fusion:
+ *   score = Σ weight / (k + rank)
+ *
+ * De score wordt genormaliseerd naar 0-1 (1.0 = positie 1 in alle retrievers),
+ * zodat de relevance filter en logging dezelfde schaal houden.
+ * Zonder full-text resultaten blijven de vector resultaten ongewijzigd.
+ */
+function fuseWithRRF(
+  vectorResults: SearchResult[],
+  fulltextResults: SearchResult[],
+  settings: HybridSearchSettings,
+  maxResults: number
+): { results: SearchResult[]; overlap: number; fulltextOnly: number } {
+  if (fulltextResults.length === 0) {
+    return {
+      results: vectorResults.map((r, idx) => ({ ...r, vector_rank: idx + 1 })),
+      overlap: 0,
+      fulltextOnly: 0
+    };
+  }
+
+  const { vectorWeight, fulltextWeight, rrfK } = settings;
+  const fused = new Map<string, { result: SearchResult; score: number }>();
+
+  vectorResults.forEach((result, idx) => {
+    fused.set(result.chunk_id, {
+      result: { ...result, vector_rank: idx + 1 },
+      score: vectorWeight / (rrfK + idx + 1)
+    });
+  });
+
+  let overlap = 0;
+  fulltextResults.forEach((result, idx) => {
+    const score = fulltextWeight / (rrfK + idx + 1);
+    const existing = fused.get(result.chunk_id);
+
+    if (existing) {
+      overlap++;
+      existing.score += score;
+      existing.result.fulltext_rank = idx + 1;
+    } else {
+      fused.set(result.chunk_id, {
+        result: { ...result, fulltext_rank: idx + 1 },
+        score
+      });
+    }
+  });
+
+  const activeWeight = (vectorResults.length > 0 ? vectorWeight : 0) + fulltextWeight;
+  const maxScore = activeWeight / (rrfK + 1);
+
+  const results = Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxResults)
+    .map(({ result, score }) => ({
+      ...result,
+      similarity: maxScore > 0 ? score / maxScore : 0
+    }));
+
+  return {
+    results,
+    overlap,
+    fulltextOnly: fulltextResults.length - overlap
+  };
+}
+
 /**
  * Voert een enkele vector search uit en retourneert resultaten
  * (Fallback voor als enhanced search niet beschikbaar is)
+ * Een chunk set heeft geen basic search functie: daar de enhanced
+ * search zonder keyword aandeel.
  */
 async function singleVectorSearch(
   supabase: SupabaseClient,
   tenantId: string,
   queryText: string,
-  topK: number
+  topK: number,
+  chunkSetId: string | null = null
 ): Promise<{ results: SearchResult[]; tokens: number; cost: number }> {
   const { embedding, tokens, cost } = await generateEmbedding(queryText);
 
-  const { data: results, error } = await supabase.rpc('search_documents', {
-    p_tenant_id: tenantId,
-    p_query_embedding: `[${embedding.join(',')}]`,
-    p_top_k: topK,
-    p_similarity_threshold: 0.30  // Verlaagd van 0.45 om meer resultaten te vinden
-  });
+  const { data: results, error } = chunkSetId
+    ? await supabase.rpc('search_chunk_set_enhanced', {
+        p_chunk_set_id: chunkSetId,
+        p_query_embedding: `[${embedding.join(',')}]`,
+        p_query_text: queryText,
+        p_top_k: topK,
+        p_similarity_threshold: 0.30,
+        p_vector_weight: 1,
+        p_keyword_weight: 0
+      })
+    : await supabase.rpc('search_documents', {
+        p_tenant_id: tenantId,
+        p_query_embedding: `[${embedding.join(',')}]`,
+        p_top_k: topK,
+        p_similarity_threshold: 0.30  // Verlaagd van 0.45 om meer resultaten te vinden
+      });
 
   if (error) {
     console.error(`❌ [RAG] Search error for "${queryText}":`, error);
@@ -569,7 +497,8 @@ export async function retrieveContext(
   userQuestion: string,
   topK: number = 6,  // Verlaagd van 12 naar 6 - chunks 5-12 hadden slechts 2-4% relevantie
   skipTenantValidation: boolean = false,
-  conversationHistory?: ConversationMessage[]  // Voor follow-up query expansion
+  conversationHistory?: ConversationMessage[],  // Voor follow-up query expansion
+  config?: Partial<RetrievalConfig>  // Expliciete config (QA experimenten), anders defaults
 ): Promise<ContextResponseWithDetails> {
   const supabase = getSupabaseClient();
 
@@ -595,14 +524,18 @@ export async function retrieveContext(
     results: []
   };
 
-  // Configuratie voor reranking
-  const VECTOR_SEARCH_TOP_K = 30; // Haal 30 candidates op voor reranking
-  const rerankingEnabled = isRerankingEnabled();
+  // Configuratie voor reranking en filtering
+  const retrievalConfig = resolveRetrievalConfig(config);
+  const vectorSearchTopK = retrievalConfig.candidateTopK; // Candidates voor reranking (default 30)
+  const rerankingEnabled = retrievalConfig.rerankingEnabled && isRerankingEnabled();
 
   console.log('\n📚 [RAG] ========== FETCHING CONTEXT ==========');
   console.log('🔍 [RAG] Original query:', userQuestion);
   console.log('🏢 [RAG] Tenant:', tenantId);
-  console.log(`⚙️  [RAG] Settings: vectorTopK=${VECTOR_SEARCH_TOP_K}, finalTopK=${topK}, reranking=${rerankingEnabled ? 'ON' : 'OFF'}`);
+  console.log(`⚙️  [RAG] Settings: vectorTopK=${vectorSearchTopK}, finalTopK=${topK}, reranking=${rerankingEnabled ? 'ON' : 'OFF'}`);
+  if (retrievalConfig.chunkSetId) {
+    console.log(`🧪 [RAG] Searching scratch chunk set ${retrievalConfig.chunkSetId}`);
+  }
 
   // Valideer tenant en haal document_language op
   let tenantInfo: TenantInfo | undefined;
@@ -619,6 +552,12 @@ export async function retrieveContext(
 
   console.log(`🌐 [RAG] Document language: ${documentLanguage}`);
 
+  // Hybrid search settings van de tenant (RRF gewichten, thresholds)
+  const searchSettings: HybridSearchSettings = {
+    ...(await getTenantSearchSettings(tenantId)),
+    ...retrievalConfig.searchOverrides
+  };
+
   // ========================================
   // MULTILINGUAL: Vertaal query indien nodig
   // ========================================
@@ -661,10 +600,21 @@ export async function retrieveContext(
     }
   }
 
-  // 1. Genereer alternatieve queries voor multi-query retrieval
-  // Gebruik de (mogelijk vertaalde) searchQuery voor betere resultaten
-  const alternativeQueries = generateAlternativeQueries(searchQuery);
-  const expandedOriginal = expandQuery(searchQuery);
+  // 1. Pas het woordenboek van de tenant toe (synoniemen + rewrites)
+  // Gebruik de (mogelijk vertaalde) searchQuery voor betere resultaten.
+  // Taal van de searchQuery: doeltaal na vertaling, anders de gedetecteerde taal.
+  const dictionaryEntries = await getQueryDictionary(tenantId);
+  const queryLanguage = translationResult
+    ? (translationResult.wasTranslated ? translationResult.targetLanguage : translationResult.originalLanguage)
+    : documentLanguage;
+  const dictionaryResult = applyQueryDictionary(searchQuery, dictionaryEntries, queryLanguage);
+
+  const alternativeQueries = dictionaryResult.alternativeQueries;
+  const expandedOriginal = dictionaryResult.expandedQuery;
+
+  if (dictionaryResult.matches.length > 0) {
+    console.log(`📖 [RAG] Query dictionary (${queryLanguage}): ${dictionaryResult.matches.map(m => `${m.entryType}:"${m.trigger}"`).join(', ')}`);
+  }
 
   // Alle queries die we gaan uitvoeren
   const allQueries = [expandedOriginal, ...alternativeQueries];
@@ -679,8 +629,8 @@ export async function retrieveContext(
     console.log(`📝 [RAG] No alternative queries generated (query seems formal)`);
   }
 
-  // 2. Probeer eerst enhanced search (hybrid: vector + metadata)
-  console.log('\n🔎 [RAG] Running enhanced hybrid search...');
+  // 2. Hybrid search: vector (+ metadata keywords) en full-text, gefuseerd met RRF
+  console.log('\n🔎 [RAG] Running hybrid search (vector + full-text)...');
 
   let totalTokens = 0;
   let totalCost = 0;
@@ -690,42 +640,83 @@ export async function retrieveContext(
   embeddingStartTime = Date.now();
   searchStartTime = Date.now();
 
-  // Enhanced search met (mogelijk vertaalde) query
-  // Haal VECTOR_SEARCH_TOP_K candidates op voor reranking
-  const enhancedResult = await enhancedVectorSearch(
-    supabase,
-    tenantId,
-    searchQuery,  // Vertaalde query voor betere vector match
-    VECTOR_SEARCH_TOP_K  // Haal 30 candidates op voor reranking
-  );
+  // Vector search met (mogelijk vertaalde) query, full-text met de
+  // woordenboek-expansie erbij (OR-query, dus extra synoniemen helpen).
+  // Beide halen vectorSearchTopK candidates op voor reranking.
+  const fulltextEnabled = searchSettings.fulltextWeight > 0;
+  const [enhancedResult, fulltextResult] = await Promise.all([
+    enhancedVectorSearch(
+      supabase,
+      tenantId,
+      searchQuery,  // Vertaalde query voor betere vector match
+      vectorSearchTopK,  // Candidates voor reranking
+      searchSettings,
+      retrievalConfig.chunkSetId
+    ),
+    fulltextEnabled
+      ? fulltextSearch(supabase, tenantId, expandedOriginal, vectorSearchTopK, retrievalConfig.chunkSetId)
+      : Promise.resolve({ results: [] as SearchResult[], error: undefined })
+  ]);
 
   embeddingEndTime = Date.now();
   totalTokens += enhancedResult.tokens;
   totalCost += enhancedResult.cost;
 
+  const fusion = fuseWithRRF(
+    enhancedResult.results,
+    fulltextResult.results,
+    searchSettings,
+    vectorSearchTopK
+  );
+
+  const fusionDetails: RAGFusionDetails = {
+    method: 'rrf',
+    fulltextQuery: expandedOriginal,
+    vectorResults: enhancedResult.results.length,
+    fulltextResults: fulltextResult.results.length,
+    fusedResults: fusion.results.length,
+    overlap: fusion.overlap,
+    fulltextOnly: fusion.fulltextOnly,
+    vectorWeight: searchSettings.vectorWeight,
+    fulltextWeight: searchSettings.fulltextWeight,
+    rrfK: searchSettings.rrfK,
+    similarityThreshold: searchSettings.similarityThreshold,
+    keywordWeight: searchSettings.keywordWeight,
+    fulltextError: fulltextResult.error
+  };
+
   // Track search query for logging
   searchQueries.push({
     query: userQuestion,
     tokens: enhancedResult.tokens,
     cost: enhancedResult.cost,
-    resultsCount: enhancedResult.results.length
+    resultsCount: fusion.results.length
   });
 
   // Track raw results for logging (all candidates before reranking)
-  enhancedResult.results.forEach((r, idx) => {
+  fusion.results.forEach((r) => {
     rawResults.push({
       filename: r.filename,
       similarity: r.similarity,
       pageNumber: r.page_number,
       chunkId: r.chunk_id,
       content: r.content.substring(0, 200), // Truncate for storage
-      sectionTitle: r.section_title
+      sectionTitle: r.section_title,
+      documentVersion: r.document_version,
+      vectorRank: r.vector_rank,
+      fulltextRank: r.fulltext_rank
     });
   });
 
-  let mergedResults = enhancedResult.results;
+  let mergedResults = fusion.results;
 
-  console.log(`   ✅ Enhanced search: ${mergedResults.length} results`);
+  console.log(`   ✅ Vector search: ${enhancedResult.results.length} results (threshold ${searchSettings.similarityThreshold})`);
+  if (fulltextEnabled) {
+    console.log(`   ✅ Full-text search: ${fulltextResult.results.length} results`);
+    console.log(`   🔀 RRF fusion (k=${searchSettings.rrfK}, weights ${searchSettings.vectorWeight}/${searchSettings.fulltextWeight}): ${mergedResults.length} results, ${fusion.overlap} in both, ${fusion.fulltextOnly} full-text only`);
+  } else {
+    console.log('   ⏭️  Full-text search disabled for this tenant');
+  }
   if (enhancedResult.matchedTerms.length > 0) {
     console.log(`   🎯 Matched terms: ${enhancedResult.matchedTerms.join(', ')}`);
   }
@@ -734,7 +725,7 @@ export async function retrieveContext(
   // AGRESSIEVER: Altijd multi-query gebruiken als er alternatieven zijn
   const totalResultsBeforeMerge = rawResults.length;
 
-  if (mergedResults.length < VECTOR_SEARCH_TOP_K && alternativeQueries.length > 0) {
+  if (mergedResults.length < vectorSearchTopK && alternativeQueries.length > 0) {
     console.log('\n🔄 [RAG] Supplementing with multi-query search...');
 
     const supplementPromises = alternativeQueries.slice(0, 2).map(async (query) => {
@@ -742,7 +733,8 @@ export async function retrieveContext(
         supabase,
         tenantId,
         query,
-        VECTOR_SEARCH_TOP_K / 2
+        Math.ceil(vectorSearchTopK / 2),
+        retrievalConfig.chunkSetId
       );
       totalTokens += tokens;
       totalCost += cost;
@@ -772,7 +764,8 @@ export async function retrieveContext(
           pageNumber: r.page_number,
           chunkId: r.chunk_id,
           content: r.content.substring(0, 200),
-          sectionTitle: r.section_title
+          sectionTitle: r.section_title,
+          documentVersion: r.document_version
         });
       });
     });
@@ -783,7 +776,7 @@ export async function retrieveContext(
       ...supplementResults
     ];
 
-    mergedResults = mergeAndRankResults(allResults, VECTOR_SEARCH_TOP_K);
+    mergedResults = mergeAndRankResults(allResults, vectorSearchTopK);
 
     // Track merge stats
     mergeStats = {
@@ -795,14 +788,34 @@ export async function retrieveContext(
 
   searchEndTime = Date.now();
 
+  // ========================================
+  // DOCUMENT GELDIGHEID (migratie 036)
+  // ========================================
+  // Verlopen documenten vallen af vóór de reranker, zodat hun plek in
+  // de top K naar geldige bronnen gaat.
+  const validityDate = todayISO();
+  const documentValidity = await getDocumentValidity(tenantId, mergedResults.map(r => r.document_id));
+  const expiredFilter = excludeExpiredResults(mergedResults, documentValidity, validityDate);
+  mergedResults = expiredFilter.results;
+
+  if (expiredFilter.excluded.length > 0) {
+    console.log(`\n📅 [RAG] Excluded expired documents: ${expiredFilter.excluded.map(e => `${e.filename} (t/m ${e.validUntil})`).join(', ')}`);
+  }
+
   // 4. RERANKING - De belangrijkste kwaliteitsboost
   // Store pre-rerank order for position comparison
   const preRerankOrder = mergedResults.map((r, idx) => ({
+    chunkId: r.chunk_id,
     filename: r.filename,
     originalPosition: idx,
     originalScore: r.similarity,
     pageNumber: r.page_number
   }));
+  const inputRanking = preRerankOrder.map(o => ({
+    chunkId: o.chunkId,
+    filename: o.filename,
+    pageNumber: o.pageNumber
+  }));
 
   rerankStartTime = Date.now();
 
@@ -823,16 +836,18 @@ export async function retrieveContext(
       cost: rerankResult.cost,
       results: mergedResults.map((r, newIdx) => {
         // Find the original position of this result
-        const original = preRerankOrder.find(o => o.filename === r.filename && o.pageNumber === r.page_number);
+        const original = preRerankOrder.find(o => o.chunkId === r.chunk_id);
         return {
           filename: r.filename,
           beforeScore: original?.originalScore || 0,
           afterScore: r.similarity,
           positionBefore: original?.originalPosition || 0,
           positionAfter: newIdx,
-          pageNumber: r.page_number
+          pageNumber: r.page_number,
+          chunkId: r.chunk_id
         };
-      })
+      }),
+      inputRanking
     };
   } else {
     // Fallback: trim naar topK zonder reranking
@@ -845,24 +860,45 @@ export async function retrieveContext(
       outputDocuments: mergedResults.length,
       latencyMs: 0,
       cost: 0,
-      results: []
+      results: [],
+      inputRanking
     };
   }
 
   rerankEndTime = Date.now();
 
+  // Toekomstige en vervangen documenten lager wegen (na de reranker,
+  // die de scores opnieuw berekent)
+  const validityWeighting = weightResultsByValidity(mergedResults, documentValidity, validityDate);
+  const supersededBy = new Map(validityWeighting.superseded.map(entry => [entry.filename, entry.supersededBy]));
+  mergedResults = validityWeighting.results.map(r => {
+    const label = formatValidityLabel(documentValidity.get(r.document_id), validityDate);
+    const newer = supersededBy.get(r.filename);
+    return {
+      ...r,
+      validity_label: label && newer ? `${label}, vervangen door ${newer}` : label ?? undefined
+    };
+  });
+
+  if (validityWeighting.upcoming.length > 0) {
+    console.log(`📅 [RAG] Not yet valid (down-weighted): ${validityWeighting.upcoming.join(', ')}`);
+  }
+  validityWeighting.superseded.forEach(entry => {
+    console.log(`📅 [RAG] ${entry.filename} superseded by ${entry.supersededBy} (down-weighted)`);
+  });
+
   // ========================================
   // MINIMUM RELEVANCE SCORE FILTER
   // ========================================
   // Filter chunks met te lage relevantie - deze zijn pure ruis
-  const MIN_RELEVANCE_SCORE = 0.10; // 10% minimum
+  const minRelevanceScore = retrievalConfig.minRelevanceScore; // Default 10% minimum
   const preFilterCount = mergedResults.length;
 
-  mergedResults = mergedResults.filter(r => r.similarity >= MIN_RELEVANCE_SCORE);
+  mergedResults = mergedResults.filter(r => r.similarity >= minRelevanceScore);
 
   const filteredCount = preFilterCount - mergedResults.length;
   if (filteredCount > 0) {
-    console.log(`\n🔍 [RAG] Relevance filter: removed ${filteredCount} chunks below ${MIN_RELEVANCE_SCORE * 100}% threshold`);
+    console.log(`\n🔍 [RAG] Relevance filter: removed ${filteredCount} chunks below ${minRelevanceScore * 100}% threshold`);
   }
 
   console.log(`\n✅ [RAG] Final results: ${mergedResults.length} chunks`);
@@ -899,7 +935,10 @@ export async function retrieveContext(
           },
           // Enhanced citation fields (v2.1)
           section_title: result.section_title,
-          section_path: result.section_path
+          section_path: result.section_path,
+          anchor: result.anchor,
+          ocr: result.ocr,
+          document_version: result.document_version
         }],
         // Include relevance score from reranker
         relevance_score: result.similarity
@@ -922,6 +961,10 @@ export async function retrieveContext(
         parts.push(result.context_header);
       }
 
+      if (result.validity_label) {
+        parts.push(result.validity_label);
+      }
+
       const header = parts.join(' | ') + ']';
 
       return `${header}\n${result.content}\n`;
@@ -962,20 +1005,19 @@ export async function retrieveContext(
   // Build RAG details for logging
   const endTime = Date.now();
 
-  // Extract expansion terms from the expanded query
-  const expansionTerms: string[] = [];
-  for (const [trigger, terms] of Object.entries(QUERY_EXPANSIONS)) {
-    if (userQuestion.toLowerCase().includes(trigger)) {
-      expansionTerms.push(...terms.slice(0, 3));
-    }
-  }
+  const expansionTerms = dictionaryResult.expansionTerms;
 
   const ragDetails: Partial<RAGDetails> = {
     query: {
       original: userQuestion,
       expanded: expandedOriginal !== searchQuery ? expandedOriginal : undefined,
       alternativeQueries: alternativeQueries.length > 0 ? alternativeQueries : undefined,
-      expansionTerms: expansionTerms.length > 0 ? [...new Set(expansionTerms)] : undefined,
+      expansionTerms: expansionTerms.length > 0 ? expansionTerms : undefined,
+      dictionary: {
+        language: queryLanguage,
+        entriesLoaded: dictionaryEntries.length,
+        matchedTriggers: dictionaryResult.matches.map(m => `${m.entryType}:${m.trigger}`)
+      },
       // Multilingual translation info (v2.2)
       translation: translationResult ? {
         originalLanguage: translationResult.originalLanguage,
@@ -995,7 +1037,7 @@ export async function retrieveContext(
     },
     search: {
       type: alternativeQueries.length > 0 ? 'multi_query' : 'enhanced_hybrid',
-      vectorTopK: VECTOR_SEARCH_TOP_K,
+      vectorTopK: vectorSearchTopK,
       finalTopK: topK,
       rerankingEnabled,
       queries: searchQueries,
@@ -1004,11 +1046,20 @@ export async function retrieveContext(
       mergeStats,
       // Relevance filtering stats (v2.4)
       relevanceFilter: {
-        minScore: MIN_RELEVANCE_SCORE,
+        minScore: minRelevanceScore,
         beforeFilter: preFilterCount,
         afterFilter: mergedResults.length,
         removedCount: filteredCount
-      }
+      },
+      // Hybrid search fusion (v2.5)
+      fusion: fusionDetails,
+      // Document geldigheid (migratie 036)
+      validity: documentValidity.size > 0 ? {
+        date: validityDate,
+        excluded: expiredFilter.excluded,
+        upcoming: validityWeighting.upcoming,
+        superseded: validityWeighting.superseded
+      } : undefined
     },
     reranking: rerankingDetails,
     costs: {
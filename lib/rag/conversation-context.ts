@@ -12,6 +12,8 @@
  * Kosten: ~$0.0001 per expansion (GPT-4o-mini)
  */
 
+import { getLLMProvider, getMissingProviderConfig } from '@/lib/bot/providers';
+
 // ========================================
 // TYPES
 // ========================================
@@ -142,10 +144,10 @@ export async function expandQueryWithContext(
     };
   }
 
-  // Check API key
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    console.warn('⚠️ [Context] OPENAI_API_KEY not set, skipping expansion');
+  // Check LLM provider configuratie
+  const missingConfig = getMissingProviderConfig();
+  if (missingConfig) {
+    console.warn(`⚠️ [Context] ${missingConfig} not set, skipping expansion`);
     return {
       expandedQuery: query,
       wasExpanded: false,
@@ -186,38 +188,18 @@ HERSCHREVEN ZOEKOPDRACHT:`;
     console.log(`📝 [Context] Original: "${query}"`);
     console.log(`📊 [Context] History: ${recentHistory.length} messages`);
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [{ role: 'user', content: prompt }],
-        max_tokens: 50,
-        temperature: 0.3  // Lage temperature voor consistente output
-      })
+    const response = await getLLMProvider().chat({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: prompt }],
+      maxOutputTokens: 50,
+      temperature: 0.3,  // Lage temperature voor consistente output
+      purpose: 'follow-up-expansion'
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`❌ [Context] API error: ${response.status} - ${errorText}`);
-      return {
-        expandedQuery: query,
-        wasExpanded: false,
-        cost: 0,
-        latencyMs: Date.now() - startTime
-      };
-    }
-
-    const data = await response.json();
-    const expandedQuery = data.choices?.[0]?.message?.content?.trim() || query;
+    const expandedQuery = response.content.trim() || query;
 
-    // Bereken kosten (GPT-4o-mini: $0.15/1M input, $0.60/1M output)
-    const inputTokens = data.usage?.prompt_tokens || 0;
-    const outputTokens = data.usage?.completion_tokens || 0;
-    const cost = (inputTokens * 0.15 + outputTokens * 0.60) / 1_000_000;
+    // Kosten komen van de provider
+    const cost = response.cost.totalCost;
 
     const latencyMs = Date.now() - startTime;
 
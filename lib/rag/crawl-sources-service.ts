@@ -0,0 +1,572 @@
+/**
+ * ========================================
+ * CRAWL SOURCES SERVICE (SERVER-ONLY)
+ * ========================================
+ *
+ * Beheer van crawl bronnen (migratie 040) en het verwerken van een crawl:
+ * - Nieuwe pagina → document in de wachtrij (enqueueDocumentProcessing)
+ * - Gewijzigde tekst → nieuwe documentversie (uploadDocumentVersion),
+ *   ongewijzigde chunks houden hun embedding
+ * - Ongewijzigd → alleen last_seen_at
+ * - 404/410, of niet meer gevonden in een volledige crawl → document weg
+ *
+ * runDueCrawls() draait vanuit /api/cron/crawl-sources voor bronnen met
+ * een interval. Het crawlen zelf staat in './web-crawler'.
+ *
+ * Voor types en URL regels, importeer uit './crawl-sources'.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { enqueueDocumentProcessing } from './document-jobs-service';
+import { deleteDocument, getDocument, uploadDocumentVersion } from './processor';
+import { crawlWebsite, getCrawlPageFilename, type CrawledPage } from './web-crawler';
+import {
+  normalizeCrawlSourceInput,
+  type CrawlPage,
+  type CrawlPageStatus,
+  type CrawlRunStats,
+  type CrawlSource,
+  type CrawlSourceInput
+} from './crawl-sources';
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+// Een crawl die zo lang 'running' staat is vastgelopen (timeout)
+const STALE_CRAWL_MS = 15 * 60 * 1000;
+
+// ========================================
+// HELPERS
+// ========================================
+
+function getNextCrawlAt(intervalHours: number | null, from: Date = new Date()): string | null {
+  return intervalHours ? new Date(from.getTime() + intervalHours * 60 * 60 * 1000).toISOString() : null;
+}
+
+function emptyStats(): CrawlRunStats {
+  return {
+    pagesFetched: 0,
+    indexed: 0,
+    updated: 0,
+    unchanged: 0,
+    removed: 0,
+    failed: 0,
+    skipped: 0,
+    truncated: false,
+    durationMs: 0
+  };
+}
+
+/**
+ * HR Bot product van de tenant (voor de portal sync van documenten)
+ */
+async function getHrBotTenantProductId(tenantId: string): Promise<string | undefined> {
+  const supabase = getSupabaseClient();
+
+  const { data } = await supabase
+    .from('tenant_products')
+    .select('id')
+    .eq('tenant_id', tenantId)
+    .eq('product_id', 'hr_bot')
+    .maybeSingle();
+
+  return data?.id;
+}
+
+async function savePage(
+  source: CrawlSource,
+  url: string,
+  update: Partial<Omit<CrawlPage, 'id' | 'source_id' | 'tenant_id' | 'url'>> & { status: CrawlPageStatus }
+): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase
+    .from('crawl_pages')
+    .upsert({
+      source_id: source.id,
+      tenant_id: source.tenant_id,
+      url,
+      last_seen_at: new Date().toISOString(),
+      ...update
+    }, { onConflict: 'source_id,url' });
+
+  if (error) {
+    console.error('❌ [CrawlSources] Error saving page:', error);
+  }
+}
+
+// ========================================
+// READ
+// ========================================
+
+/**
+ * Alle crawl bronnen van een tenant
+ */
+export async function listCrawlSources(tenantId: string): Promise<CrawlSource[]> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('crawl_sources')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('❌ [CrawlSources] Error listing sources:', error);
+    return [];
+  }
+
+  return (data || []) as CrawlSource[];
+}
+
+export async function getCrawlSource(tenantId: string, sourceId: string): Promise<CrawlSource | null> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('crawl_sources')
+    .select('*')
+    .eq('id', sourceId)
+    .eq('tenant_id', tenantId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ [CrawlSources] Error loading source:', error);
+    return null;
+  }
+
+  return data as CrawlSource | null;
+}
+
+/**
+ * Pagina's van een bron (laatste crawl status per URL)
+ */
+export async function listCrawlPages(tenantId: string, sourceId: string): Promise<CrawlPage[]> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('crawl_pages')
+    .select('*')
+    .eq('source_id', sourceId)
+    .eq('tenant_id', tenantId)
+    .order('url', { ascending: true });
+
+  if (error) {
+    console.error('❌ [CrawlSources] Error listing pages:', error);
+    return [];
+  }
+
+  return (data || []) as CrawlPage[];
+}
+
+// ========================================
+// WRITE
+// ========================================
+
+/**
+ * Maak een nieuwe bron aan. Met een interval wordt hij bij de volgende
+ * cron run voor het eerst gecrawld.
+ */
+export async function createCrawlSource(
+  tenantId: string,
+  input: CrawlSourceInput
+): Promise<{ source: CrawlSource | null; error?: string }> {
+  const { source: normalized, error: validationError } = normalizeCrawlSourceInput(input);
+  if (!normalized) {
+    return { source: null, error: validationError };
+  }
+
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('crawl_sources')
+    .insert({
+      tenant_id: tenantId,
+      ...normalized,
+      next_crawl_at: normalized.recrawl_interval_hours ? new Date().toISOString() : null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('❌ [CrawlSources] Error creating source:', error);
+    return { source: null, error: error.message };
+  }
+
+  console.log(`✅ [CrawlSources] Created source "${normalized.name}" (${normalized.start_url}) for ${tenantId}`);
+  return { source: data as CrawlSource };
+}
+
+/**
+ * Werk een bron bij. De volgende crawl wordt opnieuw gepland vanaf de
+ * laatste crawl met het (nieuwe) interval.
+ */
+export async function updateCrawlSource(
+  tenantId: string,
+  sourceId: string,
+  input: CrawlSourceInput
+): Promise<{ source: CrawlSource | null; error?: string }> {
+  const { source: normalized, error: validationError } = normalizeCrawlSourceInput(input);
+  if (!normalized) {
+    return { source: null, error: validationError };
+  }
+
+  const existing = await getCrawlSource(tenantId, sourceId);
+  if (!existing) {
+    return { source: null, error: 'Source not found' };
+  }
+
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('crawl_sources')
+    .update({
+      ...normalized,
+      // Nog nooit gecrawld: direct bij de volgende cron run
+      next_crawl_at: getNextCrawlAt(
+        normalized.recrawl_interval_hours,
+        existing.last_crawled_at ? new Date(existing.last_crawled_at) : new Date(0)
+      ),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', sourceId)
+    .eq('tenant_id', tenantId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('❌ [CrawlSources] Error updating source:', error);
+    return { source: null, error: error.message };
+  }
+
+  return { source: data as CrawlSource };
+}
+
+/**
+ * Verwijder een bron. Met deleteDocuments ook de geïndexeerde pagina's,
+ * anders blijven die als losse documenten staan.
+ */
+export async function deleteCrawlSource(
+  tenantId: string,
+  sourceId: string,
+  options: { deleteDocuments?: boolean } = {}
+): Promise<{ success: boolean; deletedDocuments: number; error?: string }> {
+  const supabase = getSupabaseClient();
+  let deletedDocuments = 0;
+
+  if (options.deleteDocuments) {
+    const pages = await listCrawlPages(tenantId, sourceId);
+    for (const page of pages) {
+      if (page.document_id && await deleteDocument(tenantId, page.document_id)) {
+        deletedDocuments++;
+      }
+    }
+  }
+
+  const { error } = await supabase
+    .from('crawl_sources')
+    .delete()
+    .eq('id', sourceId)
+    .eq('tenant_id', tenantId);
+
+  if (error) {
+    console.error('❌ [CrawlSources] Error deleting source:', error);
+    return { success: false, deletedDocuments, error: error.message };
+  }
+
+  return { success: true, deletedDocuments };
+}
+
+// ========================================
+// CRAWL
+// ========================================
+
+/**
+ * Claimt de bron voor een crawl. false als er al een crawl loopt.
+ */
+async function claimCrawlSource(source: CrawlSource): Promise<boolean> {
+  const supabase = getSupabaseClient();
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_CRAWL_MS).toISOString();
+
+  const { data, error } = await supabase
+    .from('crawl_sources')
+    .update({ crawl_status: 'running', crawl_started_at: now.toISOString(), last_error: null })
+    .eq('id', source.id)
+    .or(`crawl_status.neq.running,crawl_started_at.lt.${staleBefore}`)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ [CrawlSources] Error claiming source:', error);
+    return false;
+  }
+
+  return !!data;
+}
+
+/**
+ * Verwerkt één gecrawlde pagina: indexeren, nieuwe versie of verwijderen
+ */
+async function handleCrawledPage(
+  source: CrawlSource,
+  page: CrawledPage,
+  existing: CrawlPage | undefined,
+  tenantProductId: string | undefined,
+  stats: CrawlRunStats
+): Promise<void> {
+  const documentId = existing?.status !== 'removed' ? existing?.document_id : null;
+
+  if (page.status === 'gone') {
+    if (documentId) {
+      await deleteDocument(source.tenant_id, documentId);
+      stats.removed++;
+    }
+    await savePage(source, page.url, {
+      status: 'removed',
+      document_id: null,
+      http_status: page.httpStatus,
+      depth: page.depth,
+      last_error: null,
+      ...(documentId && { last_changed_at: new Date().toISOString() })
+    });
+    return;
+  }
+
+  if (page.status === 'failed' || !page.html || !page.contentHash) {
+    // Bestaand document blijft staan; volgende crawl opnieuw proberen
+    stats.failed++;
+    await savePage(source, page.url, {
+      status: 'failed',
+      http_status: page.httpStatus,
+      depth: page.depth,
+      last_error: page.error || 'Fetch failed'
+    });
+    return;
+  }
+
+  const base = { title: page.title || null, http_status: page.httpStatus, depth: page.depth };
+  const filename = getCrawlPageFilename(page.url, page.title);
+
+  // Ongewijzigd
+  if (documentId && existing?.content_hash === page.contentHash) {
+    stats.unchanged++;
+    await savePage(source, page.url, { ...base, status: 'unchanged', last_error: null });
+    return;
+  }
+
+  // Gewijzigd: nieuwe versie van hetzelfde document
+  if (documentId) {
+    // Vorige versie staat nog in de wachtrij: volgende crawl opnieuw
+    const document = await getDocument(source.tenant_id, documentId);
+    if (document && (document.processing_status === 'pending' || document.processing_status === 'processing')) {
+      stats.skipped++;
+      await savePage(source, page.url, { ...base, status: existing!.status, last_error: 'Previous version is still being processed' });
+      return;
+    }
+
+    const result = await uploadDocumentVersion(source.tenant_id, documentId, filename, page.html, 'text/html');
+
+    if (!result.jobId) {
+      stats.failed++;
+      await savePage(source, page.url, { ...base, status: 'failed', last_error: result.error || 'New version could not be queued' });
+      return;
+    }
+
+    stats.updated++;
+    await savePage(source, page.url, {
+      ...base,
+      status: 'updated',
+      content_hash: page.contentHash,
+      last_error: null,
+      last_changed_at: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Nieuw (of het document is intussen verwijderd)
+  const { documentId: newDocumentId, error } = await enqueueDocumentProcessing({
+    tenantId: source.tenant_id,
+    filename,
+    fileBuffer: page.html,
+    tenantProductId,
+    mimeType: 'text/html',
+    category: source.name,
+    sourceUrl: page.url
+  });
+
+  if (!newDocumentId) {
+    stats.failed++;
+    await savePage(source, page.url, { ...base, status: 'failed', last_error: error || 'Could not queue document' });
+    return;
+  }
+
+  stats.indexed++;
+  await savePage(source, page.url, {
+    ...base,
+    status: 'indexed',
+    document_id: newDocumentId,
+    content_hash: page.contentHash,
+    last_error: null,
+    last_changed_at: new Date().toISOString()
+  });
+}
+
+/**
+ * Crawlt een bron en werkt de documenten bij.
+ * Na een volledige crawl (niet afgekapt) worden pagina's die niet meer
+ * gevonden zijn (weg, uitgesloten of geblokkeerd) uit de index gehaald.
+ */
+export async function crawlSource(
+  tenantId: string,
+  sourceId: string,
+  options: { deadline?: number } = {}
+): Promise<{ stats: CrawlRunStats | null; error?: string }> {
+  const supabase = getSupabaseClient();
+  const source = await getCrawlSource(tenantId, sourceId);
+
+  if (!source) {
+    return { stats: null, error: 'Source not found' };
+  }
+
+  if (!await claimCrawlSource(source)) {
+    return { stats: null, error: 'Crawl already running' };
+  }
+
+  const startedAt = Date.now();
+  const stats = emptyStats();
+  const seen = new Set<string>();
+
+  console.log(`\n🕷️  [CrawlSources] Crawling "${source.name}" (${source.start_url})`);
+
+  try {
+    const existingPages = new Map((await listCrawlPages(tenantId, sourceId)).map(page => [page.url, page]));
+    const tenantProductId = await getHrBotTenantProductId(tenantId);
+
+    const result = await crawlWebsite(source, {
+      deadline: options.deadline,
+      onPage: async page => {
+        seen.add(page.url);
+        await handleCrawledPage(source, page, existingPages.get(page.url), tenantProductId, stats);
+      }
+    });
+
+    stats.pagesFetched = result.pagesFetched;
+    stats.skipped = result.skipped;
+    stats.truncated = result.truncated;
+
+    if (!result.truncated) {
+      for (const page of Array.from(existingPages.values())) {
+        if (seen.has(page.url) || page.status === 'removed') continue;
+
+        if (page.document_id) {
+          await deleteDocument(tenantId, page.document_id);
+          stats.removed++;
+        }
+        await savePage(source, page.url, {
+          status: 'removed',
+          document_id: null,
+          last_seen_at: page.last_seen_at,
+          last_error: 'Not found in the last crawl',
+          last_changed_at: new Date().toISOString()
+        });
+      }
+    }
+
+    stats.durationMs = Date.now() - startedAt;
+
+    await supabase
+      .from('crawl_sources')
+      .update({
+        crawl_status: 'completed',
+        last_crawled_at: new Date().toISOString(),
+        next_crawl_at: getNextCrawlAt(source.recrawl_interval_hours),
+        last_stats: stats,
+        last_error: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', sourceId);
+
+    console.log(`✅ [CrawlSources] "${source.name}": ${stats.indexed} new, ${stats.updated} updated, ${stats.unchanged} unchanged, ${stats.removed} removed, ${stats.failed} failed`);
+    return { stats };
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`❌ [CrawlSources] Crawl of "${source.name}" failed:`, errorMessage);
+
+    stats.durationMs = Date.now() - startedAt;
+
+    await supabase
+      .from('crawl_sources')
+      .update({
+        crawl_status: 'failed',
+        last_crawled_at: new Date().toISOString(),
+        next_crawl_at: getNextCrawlAt(source.recrawl_interval_hours),
+        last_stats: stats,
+        last_error: errorMessage,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', sourceId);
+
+    return { stats, error: errorMessage };
+  }
+}
+
+/**
+ * Crawlt alle actieve bronnen waarvan next_crawl_at verstreken is,
+ * tot de tijd op is (de rest volgt bij de volgende run).
+ */
+export async function runDueCrawls(
+  options: { maxDurationMs?: number } = {}
+): Promise<{ crawled: number; failed: number; indexed: number; updated: number; removed: number }> {
+  const supabase = getSupabaseClient();
+  const deadline = Date.now() + (options.maxDurationMs ?? 4 * 60 * 1000);
+  const summary = { crawled: 0, failed: 0, indexed: 0, updated: 0, removed: 0 };
+
+  const { data: dueSources, error } = await supabase
+    .from('crawl_sources')
+    .select('id, tenant_id')
+    .eq('is_active', true)
+    .lte('next_crawl_at', new Date().toISOString())
+    .order('next_crawl_at', { ascending: true });
+
+  if (error) {
+    console.error('❌ [CrawlSources] Error loading due sources:', error);
+    return summary;
+  }
+
+  for (const due of dueSources || []) {
+    if (Date.now() > deadline) break;
+
+    const { stats, error: crawlError } = await crawlSource(due.tenant_id, due.id, { deadline });
+    if (crawlError === 'Crawl already running') continue;
+
+    summary.crawled++;
+    if (crawlError) summary.failed++;
+    summary.indexed += stats?.indexed ?? 0;
+    summary.updated += stats?.updated ?? 0;
+    summary.removed += stats?.removed ?? 0;
+  }
+
+  return summary;
+}
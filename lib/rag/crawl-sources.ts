@@ -0,0 +1,349 @@
+/**
+ * ========================================
+ * CRAWL SOURCES - Website als kennisbron
+ * ========================================
+ *
+ * Client-safe: types, validatie van een crawl bron en de URL regels
+ * (normalisatie, include/exclude patronen, robots.txt). Het crawlen
+ * zelf staat in './web-crawler', het opslaan en indexeren in
+ * './crawl-sources-service' (beide server-only).
+ *
+ * Patronen (include/exclude):
+ *   "/beleid"              → elk pad dat met /beleid begint
+ *   "/nieuws/2024-*"       → * is een wildcard
+ *   "https://intranet.x/*" → met scheme: op de volledige URL
+ * Exclude gaat voor include; zonder include patronen telt alles op het
+ * domein van de start URL.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export type CrawlStartType = 'page' | 'sitemap';
+
+export type CrawlSourceStatus = 'idle' | 'running' | 'completed' | 'failed';
+
+export type CrawlPageStatus = 'indexed' | 'unchanged' | 'updated' | 'failed' | 'removed';
+
+/**
+ * Aantallen van één crawl (crawl_sources.last_stats)
+ */
+export interface CrawlRunStats {
+  pagesFetched: number;
+  indexed: number;              // Nieuwe pagina's in de wachtrij
+  updated: number;              // Gewijzigde pagina's (nieuwe versie)
+  unchanged: number;
+  removed: number;
+  failed: number;
+  skipped: number;              // robots.txt, patronen, geen HTML, geen tekst
+  truncated: boolean;           // max_pages of tijdslimiet bereikt
+  durationMs: number;
+}
+
+/**
+ * Database row uit crawl_sources
+ */
+export interface CrawlSource {
+  id: string;
+  tenant_id: string;
+  name: string;
+  start_url: string;
+  start_type: CrawlStartType;
+  include_patterns: string[];
+  exclude_patterns: string[];
+  max_depth: number;
+  max_pages: number;
+  recrawl_interval_hours: number | null;   // null = alleen handmatig
+  is_active: boolean;
+  crawl_status: CrawlSourceStatus;
+  crawl_started_at: string | null;
+  last_crawled_at: string | null;
+  next_crawl_at: string | null;
+  last_error: string | null;
+  last_stats: Partial<CrawlRunStats>;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Input voor aanmaken/bijwerken
+ */
+export interface CrawlSourceInput {
+  name: string;
+  start_url: string;
+  start_type?: CrawlStartType;
+  include_patterns?: string[];
+  exclude_patterns?: string[];
+  max_depth?: number;
+  max_pages?: number;
+  recrawl_interval_hours?: number | null;
+  is_active?: boolean;
+}
+
+/**
+ * Database row uit crawl_pages
+ */
+export interface CrawlPage {
+  id: string;
+  source_id: string;
+  tenant_id: string;
+  url: string;
+  document_id: string | null;
+  status: CrawlPageStatus;
+  title: string | null;
+  content_hash: string | null;
+  http_status: number | null;
+  depth: number;
+  last_error: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  last_changed_at: string;
+}
+
+/**
+ * robots.txt regels die voor de crawler gelden
+ */
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelaySeconds: number | null;
+  sitemaps: string[];
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+// Token waarop de crawler in robots.txt groepen matcht (naast *)
+export const CRAWLER_USER_AGENT_TOKEN = 'LevtorBot';
+
+export const DEFAULT_CRAWL_MAX_DEPTH = 2;
+export const DEFAULT_CRAWL_MAX_PAGES = 100;
+export const MAX_CRAWL_DEPTH = 10;
+export const MAX_CRAWL_PAGES = 1000;
+
+export const CRAWL_INTERVAL_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Alleen handmatig' },
+  { value: 24, label: 'Dagelijks' },
+  { value: 24 * 7, label: 'Wekelijks' },
+  { value: 24 * 30, label: 'Maandelijks' }
+];
+
+// Tracking parameters die dezelfde pagina als verschillende URL laten lijken
+const TRACKING_PARAM_PATTERN = /^(utm_\w+|gclid|fbclid|mc_cid|mc_eid)$/i;
+
+// ========================================
+// VALIDATION
+// ========================================
+
+function clamp(value: number | undefined, min: number, max: number, fallback: number): number {
+  if (value === undefined || !Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+function normalizePatterns(patterns: string[] | undefined): string[] {
+  return Array.from(new Set((patterns || []).map(p => p.trim()).filter(p => p.length > 0)));
+}
+
+/**
+ * Normaliseer een input bron. Geeft een foutmelding terug als de bron
+ * ongeldig is.
+ */
+export function normalizeCrawlSourceInput(
+  input: CrawlSourceInput
+): { source: Required<CrawlSourceInput> | null; error?: string } {
+  const name = (input.name || '').trim();
+  if (!name) {
+    return { source: null, error: 'Name is required' };
+  }
+
+  const startUrl = normalizeCrawlUrl((input.start_url || '').trim());
+  if (!startUrl) {
+    return { source: null, error: 'Start URL must be a valid http(s) URL' };
+  }
+
+  const startType = input.start_type || 'page';
+  if (startType !== 'page' && startType !== 'sitemap') {
+    return { source: null, error: `Invalid start type: ${startType}` };
+  }
+
+  const interval = input.recrawl_interval_hours;
+  if (interval !== undefined && interval !== null && (!Number.isFinite(interval) || interval <= 0)) {
+    return { source: null, error: 'Recrawl interval must be a positive number of hours' };
+  }
+
+  return {
+    source: {
+      name,
+      start_url: startUrl,
+      start_type: startType,
+      include_patterns: normalizePatterns(input.include_patterns),
+      exclude_patterns: normalizePatterns(input.exclude_patterns),
+      max_depth: clamp(input.max_depth, 0, MAX_CRAWL_DEPTH, DEFAULT_CRAWL_MAX_DEPTH),
+      max_pages: clamp(input.max_pages, 1, MAX_CRAWL_PAGES, DEFAULT_CRAWL_MAX_PAGES),
+      recrawl_interval_hours: interval ? Math.round(interval) : null,
+      is_active: input.is_active !== false
+    }
+  };
+}
+
+// ========================================
+// URL HELPERS
+// ========================================
+
+/**
+ * Normaliseert een (relatieve) URL: alleen http(s), zonder #fragment,
+ * tracking parameters en afsluitende slash. null als het geen pagina URL is.
+ */
+export function normalizeCrawlUrl(url: string, base?: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, base);
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return null;
+  }
+
+  parsed.hash = '';
+  for (const key of Array.from(parsed.searchParams.keys())) {
+    if (TRACKING_PARAM_PATTERN.test(key)) parsed.searchParams.delete(key);
+  }
+  if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Zelfde site: zelfde host, met of zonder www.
+ */
+export function isSameCrawlSite(url: string, startUrl: string): boolean {
+  const host = (value: string) => new URL(value).host.replace(/^www\./, '');
+  try {
+    return host(url) === host(startUrl);
+  } catch {
+    return false;
+  }
+}
+
+function patternToRegExp(pattern: string, anchorEnd: boolean): RegExp {
+  const escaped = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}${anchorEnd ? '$' : ''}`);
+}
+
+/**
+ * Check een URL tegen één include/exclude patroon
+ */
+export function matchesCrawlPattern(url: string, pattern: string): boolean {
+  const parsed = new URL(url);
+  const target = /^https?:\/\//i.test(pattern) ? url : parsed.pathname + parsed.search;
+
+  // Zonder wildcard een prefix: "/beleid" matcht ook "/beleid/verlof"
+  return patternToRegExp(pattern, pattern.includes('*')).test(target);
+}
+
+/**
+ * Mag de pagina geïndexeerd worden volgens de include/exclude patronen
+ */
+export function isCrawlUrlIncluded(
+  url: string,
+  source: Pick<CrawlSource, 'include_patterns' | 'exclude_patterns'>
+): boolean {
+  if (source.exclude_patterns.some(pattern => matchesCrawlPattern(url, pattern))) {
+    return false;
+  }
+  return source.include_patterns.length === 0 ||
+    source.include_patterns.some(pattern => matchesCrawlPattern(url, pattern));
+}
+
+// ========================================
+// ROBOTS.TXT
+// ========================================
+
+/**
+ * Leest de regels voor deze crawler uit robots.txt: de groepen voor
+ * CRAWLER_USER_AGENT_TOKEN, of anders de groepen voor *.
+ */
+export function parseRobotsTxt(text: string, userAgent: string = CRAWLER_USER_AGENT_TOKEN): RobotsRules {
+  interface RobotsGroup {
+    agents: string[];
+    allow: string[];
+    disallow: string[];
+    crawlDelay: number | null;
+  }
+
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { agents: [], allow: [], disallow: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    if (!current) continue;
+    collectingAgents = false;
+
+    if (field === 'allow' && value) current.allow.push(value);
+    if (field === 'disallow' && value) current.disallow.push(value);
+    if (field === 'crawl-delay' && Number.isFinite(parseFloat(value))) current.crawlDelay = parseFloat(value);
+  }
+
+  const token = userAgent.toLowerCase();
+  const specific = groups.filter(group => group.agents.some(agent => agent !== '*' && token.includes(agent)));
+  const matching = specific.length > 0 ? specific : groups.filter(group => group.agents.includes('*'));
+  const delays = matching.map(group => group.crawlDelay).filter((d): d is number => d !== null);
+
+  return {
+    allow: matching.flatMap(group => group.allow),
+    disallow: matching.flatMap(group => group.disallow),
+    crawlDelaySeconds: delays.length > 0 ? Math.max(...delays) : null,
+    sitemaps
+  };
+}
+
+/**
+ * Check een URL tegen robots.txt: de langste passende regel wint, bij
+ * gelijke lengte gaat Allow voor.
+ */
+export function isAllowedByRobots(url: string, rules: RobotsRules): boolean {
+  const parsed = new URL(url);
+  const path = parsed.pathname + parsed.search;
+
+  const longestMatch = (patterns: string[]) => patterns
+    .filter(pattern => {
+      const anchorEnd = pattern.endsWith('$');
+      return patternToRegExp(anchorEnd ? pattern.slice(0, -1) : pattern, anchorEnd).test(path);
+    })
+    .reduce((longest, pattern) => Math.max(longest, pattern.length), -1);
+
+  const disallowed = longestMatch(rules.disallow);
+  return disallowed === -1 || longestMatch(rules.allow) >= disallowed;
+}
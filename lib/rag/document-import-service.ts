@@ -0,0 +1,276 @@
+/**
+ * ========================================
+ * DOCUMENT IMPORT SERVICE (SERVER-ONLY)
+ * ========================================
+ *
+ * Bulk import van een ZIP of meerdere bestanden:
+ * 1. ZIP's uitpakken (lib/shared/zip.ts), systeembestanden overslaan
+ * 2. Per bestand: type en grootte controleren, SHA-256 berekenen
+ * 3. Duplicaten overslaan (zelfde hash in deze import of al in documents)
+ * 4. Document in de wachtrij zetten met categorie en tags uit de mappen
+ *
+ * De verwerking zelf gebeurt in de document worker. Het rapport zegt per
+ * bestand of het in de wachtrij staat, een duplicaat is of mislukt is.
+ *
+ * Voor types en pad helpers, importeer uit './document-import'.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { readZipEntries } from '../shared/zip';
+import { resolveDocumentMimeType } from './document-types';
+import { computeContentHash, enqueueDocumentProcessing } from './document-jobs-service';
+import {
+  getCommonRootFolder,
+  getImportFolderTags,
+  isIgnoredImportPath,
+  MAX_IMPORT_ARCHIVE_SIZE,
+  MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_FILES,
+  normalizeImportPath,
+  summarizeImport,
+  type DocumentImportFileResult,
+  type DocumentImportReport
+} from './document-import';
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// TYPES
+// ========================================
+
+/**
+ * Een geüpload bestand. name mag een relatief pad zijn (map upload).
+ */
+export interface DocumentImportUpload {
+  name: string;
+  buffer: Buffer;
+  mimeType?: string;
+}
+
+interface ImportCandidate {
+  path: string;
+  size: number;
+  mimeType?: string;
+  commonRoot: string | null;
+  read: () => Buffer;
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+function isZipUpload(upload: DocumentImportUpload): boolean {
+  return /\.zip$/i.test(upload.name) ||
+    upload.mimeType === 'application/zip' ||
+    upload.mimeType === 'application/x-zip-compressed';
+}
+
+function failed(candidate: { path: string }, reason: string): DocumentImportFileResult {
+  return {
+    path: candidate.path,
+    filename: candidate.path.split('/').pop() || candidate.path,
+    status: 'failed',
+    category: null,
+    tags: [],
+    reason
+  };
+}
+
+/**
+ * Pakt ZIP's uit tot losse bestanden. Een ZIP die niet te lezen is komt
+ * als mislukt bestand in het rapport.
+ */
+function expandUploads(uploads: DocumentImportUpload[]): {
+  candidates: ImportCandidate[];
+  results: DocumentImportFileResult[];
+} {
+  const candidates: ImportCandidate[] = [];
+  const results: DocumentImportFileResult[] = [];
+
+  // Losse bestanden (map upload): relatieve paden delen de geselecteerde map
+  const looseFiles = uploads
+    .filter(upload => !isZipUpload(upload))
+    .map(upload => ({ upload, path: normalizeImportPath(upload.name) }))
+    .filter(({ path }) => path && !isIgnoredImportPath(path));
+  const looseRoot = getCommonRootFolder(looseFiles.map(({ path }) => path));
+
+  for (const { upload, path } of looseFiles) {
+    candidates.push({
+      path,
+      size: upload.buffer.length,
+      mimeType: upload.mimeType,
+      commonRoot: looseRoot,
+      read: () => upload.buffer
+    });
+  }
+
+  for (const upload of uploads.filter(isZipUpload)) {
+    const archivePath = normalizeImportPath(upload.name) || upload.name;
+
+    if (upload.buffer.length > MAX_IMPORT_ARCHIVE_SIZE) {
+      results.push(failed({ path: archivePath }, `ZIP is larger than ${MAX_IMPORT_ARCHIVE_SIZE / 1024 / 1024}MB`));
+      continue;
+    }
+
+    try {
+      const entries = readZipEntries(upload.buffer, { maxEntrySize: MAX_IMPORT_FILE_SIZE })
+        .filter(entry => !entry.isDirectory)
+        .map(entry => ({ entry, path: normalizeImportPath(entry.name) }))
+        .filter(({ path }) => path && !isIgnoredImportPath(path));
+      const zipRoot = getCommonRootFolder(entries.map(({ path }) => path));
+
+      for (const { entry, path } of entries) {
+        candidates.push({
+          path,
+          size: entry.size,
+          commonRoot: zipRoot,
+          read: entry.read
+        });
+      }
+    } catch (error) {
+      results.push(failed({ path: archivePath }, error instanceof Error ? error.message : 'Invalid ZIP file'));
+    }
+  }
+
+  return { candidates, results };
+}
+
+/**
+ * Bestaand document met dezelfde content (mislukte documenten tellen niet)
+ */
+async function findDocumentByHash(
+  tenantId: string,
+  contentHash: string
+): Promise<{ id: string; filename: string } | null> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, filename')
+    .eq('tenant_id', tenantId)
+    .eq('content_hash', contentHash)
+    .neq('processing_status', 'failed')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ [DocumentImport] Error checking duplicates:', error);
+    return null;
+  }
+
+  return data;
+}
+
+// ========================================
+// IMPORT
+// ========================================
+
+/**
+ * Importeert een ZIP en/of losse bestanden en zet elk nieuw document in
+ * de wachtrij. Gooit niet: fouten per bestand staan in het rapport.
+ */
+export async function importDocuments(
+  tenantId: string,
+  uploads: DocumentImportUpload[],
+  options: { tenantProductId?: string } = {}
+): Promise<DocumentImportReport> {
+  const { candidates, results } = expandUploads(uploads);
+  const seen = new Map<string, string>();   // hash → pad in deze import
+
+  console.log(`\n📦 [DocumentImport] Importing ${candidates.length} files for tenant ${tenantId}`);
+
+  for (const [index, candidate] of candidates.entries()) {
+    const filename = candidate.path.split('/').pop()!;
+    const { category, tags } = getImportFolderTags(candidate.path, candidate.commonRoot);
+
+    if (index >= MAX_IMPORT_FILES) {
+      results.push(failed(candidate, `Import is limited to ${MAX_IMPORT_FILES} files`));
+      continue;
+    }
+
+    const mimeType = resolveDocumentMimeType(filename, candidate.mimeType);
+    if (!mimeType) {
+      results.push(failed(candidate, 'Unsupported file type'));
+      continue;
+    }
+
+    if (candidate.size > MAX_IMPORT_FILE_SIZE) {
+      results.push(failed(candidate, `File is larger than ${MAX_IMPORT_FILE_SIZE / 1024 / 1024}MB`));
+      continue;
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = candidate.read();
+    } catch (error) {
+      results.push(failed(candidate, error instanceof Error ? error.message : 'Could not read file'));
+      continue;
+    }
+
+    if (buffer.length === 0) {
+      results.push(failed(candidate, 'File is empty'));
+      continue;
+    }
+
+    const contentHash = computeContentHash(buffer);
+    const base = { path: candidate.path, filename, category, tags };
+
+    const duplicateInImport = seen.get(contentHash);
+    if (duplicateInImport) {
+      results.push({ ...base, status: 'duplicate', duplicateOf: duplicateInImport, reason: 'Same content as another file in this import' });
+      continue;
+    }
+    seen.set(contentHash, candidate.path);
+
+    const existing = await findDocumentByHash(tenantId, contentHash);
+    if (existing) {
+      results.push({
+        ...base,
+        status: 'duplicate',
+        documentId: existing.id,
+        duplicateOf: existing.filename,
+        reason: 'Already uploaded'
+      });
+      continue;
+    }
+
+    const { documentId, jobId, error } = await enqueueDocumentProcessing({
+      tenantId,
+      filename,
+      fileBuffer: buffer,
+      tenantProductId: options.tenantProductId,
+      mimeType,
+      contentHash,
+      category,
+      tags
+    });
+
+    results.push(documentId
+      ? { ...base, status: 'queued', documentId, jobId }
+      : { ...base, status: 'failed', reason: error || 'Could not queue document' }
+    );
+  }
+
+  const report = summarizeImport(results);
+  console.log(`✅ [DocumentImport] ${report.queued} queued, ${report.duplicates} duplicates, ${report.failed} failed`);
+
+  return report;
+}
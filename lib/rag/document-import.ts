@@ -0,0 +1,114 @@
+/**
+ * ========================================
+ * DOCUMENT IMPORT - Bulk import
+ * ========================================
+ *
+ * Client-safe: types voor het import rapport en de vertaling van
+ * mappen naar categorie en tags (migratie 038). De import zelf staat
+ * in './document-import-service' (server-only).
+ *
+ * Mappen in de ZIP (of bij een map upload het relatieve pad):
+ *   "Beleid/Verlof/Verlofregeling 2025.pdf"
+ *   → category "Beleid", tags ["Beleid", "Verlof"]
+ * Een map waar alles in staat (bijv. de gezipte map zelf) telt niet mee.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export type DocumentImportStatus = 'queued' | 'duplicate' | 'failed';
+
+export interface DocumentImportFileResult {
+  path: string;                  // Pad in de ZIP of relatief pad van de upload
+  filename: string;
+  status: DocumentImportStatus;
+  category: string | null;
+  tags: string[];
+  documentId?: string;           // queued: nieuw document; duplicate: bestaand document
+  jobId?: string;
+  duplicateOf?: string;          // Bestandsnaam of pad van het origineel
+  reason?: string;               // Waarom overgeslagen of mislukt
+}
+
+export interface DocumentImportReport {
+  total: number;
+  queued: number;
+  duplicates: number;
+  failed: number;
+  files: DocumentImportFileResult[];
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+export const MAX_IMPORT_FILES = 200;
+export const MAX_IMPORT_FILE_SIZE = 50 * 1024 * 1024;     // Zelfde limiet als de losse upload
+export const MAX_IMPORT_ARCHIVE_SIZE = 200 * 1024 * 1024;
+
+// Systeembestanden in ZIP's van macOS en Windows
+const IGNORED_PATH_PATTERN = /(^|\/)(__MACOSX|\.DS_Store|Thumbs\.db|desktop\.ini)(\/|$)|(^|\/)\._/i;
+
+// ========================================
+// PATH HELPERS
+// ========================================
+
+/**
+ * Normaliseert een pad: forward slashes, geen lege of relatieve delen
+ */
+export function normalizeImportPath(path: string): string {
+  return path
+    .replace(/\\/g, '/')
+    .split('/')
+    .map(part => part.trim())
+    .filter(part => part && part !== '.' && part !== '..')
+    .join('/');
+}
+
+/**
+ * true voor systeembestanden en verborgen bestanden
+ */
+export function isIgnoredImportPath(path: string): boolean {
+  const filename = path.split('/').pop() || '';
+  return IGNORED_PATH_PATTERN.test(path) || filename.startsWith('.');
+}
+
+/**
+ * Eerste map die alle paden gemeen hebben (de gezipte of geselecteerde
+ * map zelf), of null. Alleen bij meer dan één bestand.
+ */
+export function getCommonRootFolder(paths: string[]): string | null {
+  if (paths.length < 2) return null;
+
+  const roots = new Set(paths.map(path => (path.includes('/') ? path.split('/')[0] : '')));
+  const [root] = Array.from(roots);
+  return roots.size === 1 && root ? root : null;
+}
+
+/**
+ * Categorie en tags uit de mappen in het pad (zonder de gemeenschappelijke map)
+ */
+export function getImportFolderTags(
+  path: string,
+  commonRoot: string | null = null
+): { category: string | null; tags: string[] } {
+  const folders = path.split('/').slice(0, -1);
+  if (commonRoot && folders[0] === commonRoot) folders.shift();
+
+  const tags = Array.from(new Set(folders.map(folder => folder.replace(/\s+/g, ' '))));
+  return { category: tags[0] ?? null, tags };
+}
+
+/**
+ * Telt de resultaten op tot een rapport
+ */
+export function summarizeImport(files: DocumentImportFileResult[]): DocumentImportReport {
+  return {
+    total: files.length,
+    queued: files.filter(file => file.status === 'queued').length,
+    duplicates: files.filter(file => file.status === 'duplicate').length,
+    failed: files.filter(file => file.status === 'failed').length,
+    files
+  };
+}
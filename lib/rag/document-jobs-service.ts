@@ -0,0 +1,544 @@
+/**
+ * ========================================
+ * DOCUMENT JOBS SERVICE (SERVER-ONLY)
+ * ========================================
+ *
+ * Wachtrij voor document verwerking (migratie 037):
+ * - enqueueDocumentProcessing() vanuit de upload routes: document record
+ *   + bestand in Storage + job, de verwerking zelf gebeurt in de worker
+ * - enqueueDocumentReprocessing() voor herverwerken en nieuwe versies van
+ *   een bestaand document (bestand staat al in Storage)
+ * - claimDocumentJob() / saveDocumentJobProgress() / ... voor de worker
+ *   ('./document-worker'); de inhoud van een stap (tekst, chunks,
+ *   metadata) via saveDocumentJobArtifact() (migratie 048)
+ * - cancelDocumentJob() en getActiveDocumentJobs() voor de admin UI
+ *
+ * Voor types, importeer uit './document-jobs'.
+ */
+
+import { createHash } from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { resolveDocumentMimeType } from './document-types';
+import { getDocumentsBucket, ensureBucketExists } from '../admin/storage-service';
+import { restoreDocumentVersion } from './document-versions-service';
+import {
+  getDocumentJobRetryDelayMs,
+  type DocumentJob,
+  type DocumentJobArtifacts,
+  type DocumentJobCheckpoint,
+  type DocumentJobPayload,
+  type DocumentJobProgress,
+  type DocumentJobStage,
+  type DocumentJobStatus
+} from './document-jobs';
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// ENQUEUE
+// ========================================
+
+/**
+ * SHA-256 van de file content (documents.content_hash, migratie 038)
+ */
+export function computeContentHash(fileBuffer: Buffer): string {
+  return createHash('sha256').update(fileBuffer).digest('hex');
+}
+
+/**
+ * Maakt het document record aan (status 'pending'), zet het bestand in
+ * de tenant bucket en plaatst een job in de wachtrij. Het bestand moet
+ * in Storage staan: de worker haalt het daar op.
+ */
+export async function enqueueDocumentProcessing(input: {
+  tenantId: string;
+  filename: string;
+  fileBuffer: Buffer;
+  tenantProductId?: string;
+  mimeType?: string;
+  contentHash?: string;
+  category?: string | null;
+  tags?: string[];
+  sourceUrl?: string;
+}): Promise<{ documentId: string | null; jobId?: string; error?: string }> {
+  const supabase = getSupabaseClient();
+  const mimeType = resolveDocumentMimeType(input.filename, input.mimeType);
+
+  if (!mimeType) {
+    return { documentId: null, error: `Unsupported document type: ${input.mimeType || input.filename}` };
+  }
+
+  // 1. Document record
+  const { data: doc, error: docError } = await supabase
+    .from('documents')
+    .insert({
+      tenant_id: input.tenantId,
+      tenant_product_id: input.tenantProductId || null,
+      filename: input.filename,
+      file_size: input.fileBuffer.length,
+      mime_type: mimeType,
+      content_hash: input.contentHash || computeContentHash(input.fileBuffer),
+      category: input.category || null,
+      tags: input.tags || [],
+      source_url: input.sourceUrl || null,
+      processing_status: 'pending'
+    })
+    .select('id')
+    .single();
+
+  if (docError || !doc) {
+    console.error('❌ [DocumentJobs] Error creating document:', docError);
+    return { documentId: null, error: docError?.message || 'Could not create document' };
+  }
+
+  // 2. Bestand in Storage (tenant-specific bucket)
+  const bucket = getDocumentsBucket(input.tenantId);
+  const storagePath = `documents/${doc.id}/${input.filename}`;
+
+  await ensureBucketExists(bucket, false);
+
+  const { error: storageError } = await supabase.storage
+    .from(bucket)
+    .upload(storagePath, input.fileBuffer, {
+      contentType: mimeType,
+      upsert: true
+    });
+
+  if (storageError) {
+    console.error('❌ [DocumentJobs] Storage upload failed:', storageError.message);
+    await supabase.from('documents').delete().eq('id', doc.id);
+    return { documentId: null, error: `Storage upload failed: ${storageError.message}` };
+  }
+
+  await supabase
+    .from('documents')
+    .update({ file_path: storagePath })
+    .eq('id', doc.id);
+
+  // 3. Job
+  const payload: DocumentJobPayload = {
+    bucket,
+    storagePath,
+    filename: input.filename,
+    mimeType,
+    fileSize: input.fileBuffer.length
+  };
+
+  const { jobId, error: jobError } = await insertDocumentJob(input.tenantId, doc.id, payload);
+
+  if (!jobId) {
+    await supabase.storage.from(bucket).remove([storagePath]);
+    await supabase.from('documents').delete().eq('id', doc.id);
+    return { documentId: null, error: jobError };
+  }
+
+  console.log(`📥 [DocumentJobs] Queued ${input.filename} (document ${doc.id}, job ${jobId})`);
+
+  return { documentId: doc.id, jobId };
+}
+
+/**
+ * Plaatst een job voor een bestaand document: herverwerken met de
+ * huidige chunking, of (met reuseFromArchivedVersion) de nieuwe versie
+ * die uploadDocumentVersion() al in Storage en op het document gezet
+ * heeft. De worker haalt het bestand van documents.file_path.
+ */
+export async function enqueueDocumentReprocessing(input: {
+  tenantId: string;
+  documentId: string;
+  reuseFromArchivedVersion?: number;
+}): Promise<{ jobId: string | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data: doc, error: docError } = await supabase
+    .from('documents')
+    .select('id, filename, file_path, file_size, mime_type')
+    .eq('id', input.documentId)
+    .eq('tenant_id', input.tenantId)
+    .maybeSingle();
+
+  if (docError || !doc) {
+    return { jobId: null, error: docError?.message || 'Document not found' };
+  }
+
+  if (!doc.file_path) {
+    return { jobId: null, error: 'No file_path stored - document needs to be re-uploaded' };
+  }
+
+  const mimeType = resolveDocumentMimeType(doc.filename, doc.mime_type);
+  if (!mimeType) {
+    return { jobId: null, error: `Unsupported document type: ${doc.mime_type || doc.filename}` };
+  }
+
+  // Eén job per document tegelijk
+  const { data: active } = await supabase
+    .from('document_jobs')
+    .select('id')
+    .eq('document_id', input.documentId)
+    .in('status', ['queued', 'running'])
+    .limit(1)
+    .maybeSingle();
+
+  if (active) {
+    return { jobId: null, error: 'Document is still being processed' };
+  }
+
+  const payload: DocumentJobPayload = {
+    bucket: getDocumentsBucket(input.tenantId),
+    storagePath: doc.file_path,
+    filename: doc.filename,
+    mimeType,
+    fileSize: doc.file_size ?? 0,
+    documentId: input.documentId,
+    ...(input.reuseFromArchivedVersion !== undefined && { reuseFromArchivedVersion: input.reuseFromArchivedVersion })
+  };
+
+  const { jobId, error } = await insertDocumentJob(input.tenantId, input.documentId, payload);
+  if (!jobId) {
+    return { jobId: null, error };
+  }
+
+  await supabase
+    .from('documents')
+    .update({ processing_status: 'pending', processing_error: null })
+    .eq('id', input.documentId);
+
+  console.log(`📥 [DocumentJobs] Queued ${input.reuseFromArchivedVersion !== undefined ? 'new version' : 'reprocessing'} of ${doc.filename} (document ${input.documentId}, job ${jobId})`);
+
+  return { jobId };
+}
+
+async function insertDocumentJob(
+  tenantId: string,
+  documentId: string,
+  payload: DocumentJobPayload
+): Promise<{ jobId: string | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data: job, error } = await supabase
+    .from('document_jobs')
+    .insert({
+      tenant_id: tenantId,
+      document_id: documentId,
+      payload
+    })
+    .select('id')
+    .single();
+
+  if (error || !job) {
+    console.error('❌ [DocumentJobs] Error creating job:', error);
+    return { jobId: null, error: error?.message || 'Could not create job' };
+  }
+
+  return { jobId: job.id };
+}
+
+// ========================================
+// WORKER
+// ========================================
+
+/**
+ * Claimt de volgende job (queued, of running met een verlopen heartbeat).
+ * null = niets te doen.
+ */
+export async function claimDocumentJob(
+  workerId: string,
+  staleAfterSeconds?: number
+): Promise<DocumentJob | null> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase.rpc('claim_document_job', {
+    p_worker_id: workerId,
+    ...(staleAfterSeconds !== undefined && { p_stale_after_seconds: staleAfterSeconds })
+  });
+
+  if (error) {
+    console.error('❌ [DocumentJobs] Error claiming job:', error);
+    return null;
+  }
+
+  return (data as DocumentJob[] | null)?.[0] ?? null;
+}
+
+/**
+ * Slaat stap, checkpoint en voortgang op en verlengt de heartbeat.
+ * owned = false als de job niet meer van deze worker is (overgenomen
+ * na een verlopen heartbeat, of verwijderd samen met het document).
+ */
+export async function saveDocumentJobProgress(
+  job: DocumentJob,
+  workerId: string,
+  update: { stage?: DocumentJobStage; checkpoint?: DocumentJobCheckpoint; progress?: DocumentJobProgress } = {}
+): Promise<{ owned: boolean; cancelRequested: boolean }> {
+  const supabase = getSupabaseClient();
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('document_jobs')
+    .update({
+      ...(update.stage && { stage: update.stage }),
+      ...(update.checkpoint && { checkpoint: update.checkpoint }),
+      ...(update.progress && { progress: update.progress }),
+      heartbeat_at: now,
+      updated_at: now
+    })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('locked_by', workerId)
+    .select('cancel_requested')
+    .maybeSingle();
+
+  if (error) {
+    // Netwerkfout: de worker gaat door, de volgende heartbeat probeert het opnieuw
+    console.error('❌ [DocumentJobs] Error saving progress:', error);
+    return { owned: true, cancelRequested: false };
+  }
+
+  return { owned: !!data, cancelRequested: data?.cancel_requested ?? false };
+}
+
+/**
+ * Slaat de inhoud van een stap of batch één keer op (migratie 048):
+ * 'extraction', 'chunks' of 'metadata:<start>'. Gooit bij een fout,
+ * zodat de worker de stap opnieuw probeert.
+ */
+export async function saveDocumentJobArtifact(
+  jobId: string,
+  key: string,
+  data: unknown
+): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase
+    .from('document_job_artifacts')
+    .upsert({ job_id: jobId, key, data }, { onConflict: 'job_id,key' });
+
+  if (error) {
+    throw new Error(`Could not save job artifact ${key}: ${error.message}`);
+  }
+}
+
+/**
+ * Leest de artifacts van een job terug (hervatten na retry of herstart)
+ */
+export async function loadDocumentJobArtifacts(jobId: string): Promise<DocumentJobArtifacts> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('document_job_artifacts')
+    .select('key, data')
+    .eq('job_id', jobId);
+
+  if (error) {
+    throw new Error(`Could not load job artifacts: ${error.message}`);
+  }
+
+  const artifacts: DocumentJobArtifacts = { metadata: {} };
+  for (const row of data || []) {
+    if (row.key === 'extraction') {
+      artifacts.extraction = row.data;
+    } else if (row.key === 'chunks') {
+      artifacts.chunks = row.data;
+    } else if (row.key.startsWith('metadata:')) {
+      Object.assign(artifacts.metadata, row.data);
+    }
+  }
+
+  return artifacts;
+}
+
+/**
+ * Artifacts zijn na afloop van een job niet meer nodig (kunnen groot zijn)
+ */
+async function deleteDocumentJobArtifacts(jobId: string): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase
+    .from('document_job_artifacts')
+    .delete()
+    .eq('job_id', jobId);
+
+  if (error) {
+    console.error('❌ [DocumentJobs] Error deleting job artifacts:', error);
+  }
+}
+
+/**
+ * Sluit een job af (completed, failed of cancelled)
+ */
+export async function finishDocumentJob(
+  jobId: string,
+  status: Extract<DocumentJobStatus, 'completed' | 'failed' | 'cancelled'>,
+  lastError?: string
+): Promise<void> {
+  const supabase = getSupabaseClient();
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('document_jobs')
+    .update({
+      status,
+      ...(lastError !== undefined && { last_error: lastError }),
+      checkpoint: {},
+      locked_by: null,
+      completed_at: now,
+      updated_at: now
+    })
+    .eq('id', jobId);
+
+  if (error) {
+    console.error('❌ [DocumentJobs] Error finishing job:', error);
+  }
+
+  await deleteDocumentJobArtifacts(jobId);
+}
+
+/**
+ * Zet een mislukte job terug in de wachtrij met exponentiële backoff.
+ * Geeft de run_after terug.
+ */
+export async function retryDocumentJob(job: DocumentJob, lastError: string): Promise<string> {
+  const supabase = getSupabaseClient();
+  const runAfter = new Date(Date.now() + getDocumentJobRetryDelayMs(job.attempts)).toISOString();
+
+  const { error } = await supabase
+    .from('document_jobs')
+    .update({
+      status: 'queued',
+      run_after: runAfter,
+      last_error: lastError,
+      locked_by: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.id);
+
+  if (error) {
+    console.error('❌ [DocumentJobs] Error scheduling retry:', error);
+  }
+
+  return runAfter;
+}
+
+// ========================================
+// ADMIN
+// ========================================
+
+/**
+ * Annuleert de lopende job van een document. Een job in de wachtrij
+ * stopt direct; een running job stopt bij de volgende stap of batch
+ * (de worker ruimt dan de chunks op).
+ */
+export async function cancelDocumentJob(
+  tenantId: string,
+  documentId: string
+): Promise<{ status: DocumentJobStatus | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data: job, error } = await supabase
+    .from('document_jobs')
+    .select('id, status, payload, checkpoint')
+    .eq('tenant_id', tenantId)
+    .eq('document_id', documentId)
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ [DocumentJobs] Error loading job:', error);
+    return { status: null, error: error.message };
+  }
+
+  if (!job) {
+    return { status: null, error: 'No active job for this document' };
+  }
+
+  if (job.status === 'queued') {
+    // Alleen als de worker hem niet net geclaimd heeft
+    const { data: cancelled } = await supabase
+      .from('document_jobs')
+      .update({
+        status: 'cancelled',
+        checkpoint: {},
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', job.id)
+      .eq('status', 'queued')
+      .select('id')
+      .maybeSingle();
+
+    if (cancelled) {
+      await deleteDocumentJobArtifacts(job.id);
+
+      const payload = job.payload as DocumentJobPayload;
+      if (payload.reuseFromArchivedVersion !== undefined) {
+        // Nieuwe versie geannuleerd: de vorige versie wordt weer actief
+        await restoreDocumentVersion(tenantId, documentId, payload.reuseFromArchivedVersion, true);
+      } else if (payload.documentId && !(job.checkpoint as DocumentJobCheckpoint).embed) {
+        // Herverwerken dat nog niet aan de chunks zat: document blijft zoals het was
+        await supabase
+          .from('documents')
+          .update({ processing_status: 'completed', processing_error: null })
+          .eq('id', documentId);
+      } else {
+        // Een retry kan al chunks van een eerdere poging hebben opgeslagen
+        await supabase.from('document_chunks').delete().eq('document_id', documentId);
+        await supabase
+          .from('documents')
+          .update({ processing_status: 'failed', processing_error: 'Verwerking geannuleerd' })
+          .eq('id', documentId);
+      }
+
+      console.log(`🛑 [DocumentJobs] Cancelled queued job ${job.id}`);
+      return { status: 'cancelled' };
+    }
+  }
+
+  await supabase
+    .from('document_jobs')
+    .update({ cancel_requested: true, updated_at: new Date().toISOString() })
+    .eq('id', job.id);
+
+  console.log(`🛑 [DocumentJobs] Cancel requested for running job ${job.id}`);
+  return { status: 'running' };
+}
+
+/**
+ * Jobs in de wachtrij of in verwerking voor een tenant (status polling)
+ */
+export async function getActiveDocumentJobs(tenantId: string): Promise<DocumentJob[]> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('document_jobs')
+    .select('id, tenant_id, document_id, status, stage, payload, progress, attempts, max_attempts, run_after, last_error, locked_by, heartbeat_at, cancel_requested, created_at, started_at, completed_at')
+    .eq('tenant_id', tenantId)
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('❌ [DocumentJobs] Error loading active jobs:', error);
+    return [];
+  }
+
+  return (data || []).map(job => ({ ...job, checkpoint: {} })) as DocumentJob[];
+}
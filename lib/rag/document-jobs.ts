@@ -0,0 +1,139 @@
+/**
+ * ========================================
+ * DOCUMENT JOBS - Types
+ * ========================================
+ *
+ * Client-safe: types voor de document verwerking wachtrij
+ * (migratie 037). De queue zelf staat in './document-jobs-service',
+ * de verwerking in './document-worker' (beide server-only).
+ */
+
+import type { ExtractionResult } from './extractors/types';
+import type { ChunkPosition, EnhancedChunkMetadata } from './types';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type DocumentJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type DocumentJobStage = 'extract' | 'chunk' | 'metadata' | 'embed' | 'finalize';
+
+/**
+ * Wat de worker nodig heeft om het bestand te verwerken
+ */
+export interface DocumentJobPayload {
+  bucket: string;
+  storagePath: string;
+  filename: string;
+  mimeType: string;
+  fileSize: number;
+  // Bestaand document opnieuw verwerken (herverwerken of nieuwe versie);
+  // ontbreekt bij een nieuwe upload
+  documentId?: string;
+  reuseFromArchivedVersion?: number;  // Nieuwe versie: chunks van deze versie hergebruiken, bij mislukken terugzetten
+}
+
+/**
+ * Tellers en offsets per stap. Een herstarte job gaat verder vanaf de
+ * eerste stap zonder resultaat. De inhoud zelf (tekst, chunks, metadata)
+ * staat één keer in document_job_artifacts (migratie 048), zodat de
+ * voortgang per batch klein blijft.
+ */
+export interface DocumentJobCheckpoint {
+  processingLogId?: string | null;
+  extraction?: {
+    totalPages: number;       // Pagina's in artifact 'extraction'
+    contentHash?: string;     // SHA-256 van het verwerkte bestand
+  };
+  chunks?: {
+    count: number;            // contents + positions in artifact 'chunks'
+    method: 'smart' | 'legacy';
+    cost: number;
+    tokens: number;
+  };
+  metadata?: {
+    processedChunks: number;  // Per batch opgeslagen, zoals embed ('metadata:<start>')
+    cost: number;
+  };
+  embed?: {
+    storedChunks: number;     // Chunks [0, storedChunks) staan in document_chunks
+    reused: number;           // Embedding hergebruikt van de vorige verwerking
+    tokens: number;
+    cost: number;
+    failed: number;
+  };
+}
+
+/**
+ * Inhoud van de artifacts van een job, zoals de worker ze terugleest
+ */
+export interface DocumentJobArtifacts {
+  extraction?: ExtractionResult;
+  chunks?: {
+    contents: string[];
+    positions: ChunkPosition[];
+  };
+  metadata: Record<number, EnhancedChunkMetadata>;
+}
+
+/**
+ * Voortgang voor de status polling
+ */
+export interface DocumentJobProgress {
+  totalPages?: number;
+  totalChunks?: number;
+  storedChunks?: number;
+}
+
+export interface DocumentJob {
+  id: string;
+  tenant_id: string;
+  document_id: string;
+  status: DocumentJobStatus;
+  stage: DocumentJobStage;
+  payload: DocumentJobPayload;
+  checkpoint: DocumentJobCheckpoint;
+  progress: DocumentJobProgress;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  last_error?: string | null;
+  locked_by?: string | null;
+  heartbeat_at?: string | null;
+  cancel_requested: boolean;
+  created_at: string;
+  started_at?: string | null;
+  completed_at?: string | null;
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+export const DOCUMENT_JOB_STAGES: DocumentJobStage[] = ['extract', 'chunk', 'metadata', 'embed', 'finalize'];
+
+/**
+ * Stap → fase in de document processing UI
+ */
+export const DOCUMENT_JOB_PHASES: Record<DocumentJobStage, 'parsing' | 'chunking' | 'metadata' | 'embedding'> = {
+  extract: 'parsing',
+  chunk: 'chunking',
+  metadata: 'metadata',
+  embed: 'embedding',
+  finalize: 'embedding'
+};
+
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * Wachttijd voor de volgende poging: 30s, 1m, 2m, 4m, ... (max 30 min)
+ */
+export function getDocumentJobRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
@@ -0,0 +1,139 @@
+/**
+ * ========================================
+ * SUPPORTED DOCUMENT TYPES
+ * ========================================
+ *
+ * Welke bestanden geüpload en geïndexeerd kunnen worden.
+ * De extractors zelf staan in lib/rag/extractors (server-only).
+ *
+ * Browsers geven niet altijd een (juist) MIME type mee, bijv. een lege
+ * string voor .md of application/vnd.ms-excel voor .csv. Daarom wordt
+ * het type bepaald op MIME type én extensie.
+ *
+ * Dit bestand kan veilig op zowel client als server geïmporteerd worden.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface SupportedDocumentType {
+  mimeType: string;
+  extensions: string[];
+  label: string;
+  paginated: boolean;        // Heeft echte paginanummers (anders sectie ankers)
+  aliases?: string[];        // Andere MIME types die browsers meegeven
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+export const SUPPORTED_DOCUMENT_TYPES: SupportedDocumentType[] = [
+  {
+    mimeType: 'application/pdf',
+    extensions: ['.pdf'],
+    label: 'PDF',
+    paginated: true
+  },
+  {
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extensions: ['.docx'],
+    label: 'Word',
+    paginated: false
+  },
+  {
+    mimeType: 'text/html',
+    extensions: ['.html', '.htm'],
+    label: 'HTML',
+    paginated: false,
+    aliases: ['application/xhtml+xml']
+  },
+  {
+    mimeType: 'text/markdown',
+    extensions: ['.md', '.markdown'],
+    label: 'Markdown',
+    paginated: false,
+    aliases: ['text/x-markdown']
+  },
+  {
+    mimeType: 'text/plain',
+    extensions: ['.txt'],
+    label: 'Tekst',
+    paginated: false
+  },
+  {
+    mimeType: 'text/csv',
+    extensions: ['.csv'],
+    label: 'CSV',
+    paginated: false,
+    aliases: ['application/csv', 'application/vnd.ms-excel']
+  }
+];
+
+/**
+ * Waarde voor <input type="file" accept="...">
+ */
+export const DOCUMENT_UPLOAD_ACCEPT = SUPPORTED_DOCUMENT_TYPES
+  .flatMap(type => [...type.extensions, type.mimeType])
+  .join(',');
+
+/**
+ * Leesbare opsomming voor de UI, bijv. "PDF, Word, HTML, Markdown, Tekst of CSV"
+ */
+export const SUPPORTED_DOCUMENT_LABEL = SUPPORTED_DOCUMENT_TYPES
+  .map(type => type.label)
+  .join(', ')
+  .replace(/, ([^,]+)$/, ' of $1');
+
+// ========================================
+// HELPERS
+// ========================================
+
+function getExtension(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot >= 0 ? filename.slice(dot).toLowerCase() : '';
+}
+
+/**
+ * Bepaal het (canonieke) MIME type van een bestand.
+ * Geeft null als het type niet ondersteund wordt.
+ *
+ * De extensie wint van een generiek MIME type (leeg, octet-stream),
+ * een bekend MIME type wint van de extensie.
+ */
+export function resolveDocumentMimeType(filename: string, mimeType?: string | null): string | null {
+  const normalized = (mimeType || '').split(';')[0].trim().toLowerCase();
+
+  if (normalized) {
+    const byMime = SUPPORTED_DOCUMENT_TYPES.find(type =>
+      type.mimeType === normalized || type.aliases?.includes(normalized)
+    );
+    // text/plain voor een .md of .csv: de extensie is specifieker
+    if (byMime && byMime.mimeType !== 'text/plain') {
+      return byMime.mimeType;
+    }
+  }
+
+  const extension = getExtension(filename);
+  const byExtension = SUPPORTED_DOCUMENT_TYPES.find(type => type.extensions.includes(extension));
+  if (byExtension) {
+    return byExtension.mimeType;
+  }
+
+  return normalized === 'text/plain' ? 'text/plain' : null;
+}
+
+/**
+ * Check of een bestand geüpload mag worden
+ */
+export function isSupportedDocument(filename: string, mimeType?: string | null): boolean {
+  return resolveDocumentMimeType(filename, mimeType) !== null;
+}
+
+/**
+ * Heeft dit type echte paginanummers?
+ */
+export function isPaginatedDocumentType(mimeType: string): boolean {
+  return SUPPORTED_DOCUMENT_TYPES.find(type => type.mimeType === mimeType)?.paginated ?? false;
+}
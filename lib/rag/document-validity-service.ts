@@ -0,0 +1,198 @@
+/**
+ * ========================================
+ * DOCUMENT VALIDITY SERVICE (SERVER-ONLY)
+ * ========================================
+ *
+ * Geldigheid van documenten (migratie 036):
+ * - getDocumentValidity() voor retrieveContext (alleen de documenten
+ *   uit de zoekresultaten, dus altijd actueel zonder cache)
+ * - updateDocumentValidity() vanuit de admin en portal document pagina's
+ * - getExpiringDocuments() voor de waarschuwing op het dashboard
+ *
+ * Voor types en de weging van zoekresultaten, importeer uit
+ * './document-validity'.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { invalidateAnswerCache } from './answer-cache';
+import {
+  daysUntil,
+  DocumentValidity,
+  EXPIRY_WARNING_DAYS,
+  ExpiringDocument,
+  todayISO,
+  validateValidityInput
+} from './document-validity';
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// READ
+// ========================================
+
+/**
+ * Geldigheid van de gegeven documenten. Alleen documenten met een
+ * valid_from of valid_until staan in de map. Gooit nooit: bij een fout
+ * wordt zonder weging gezocht.
+ */
+export async function getDocumentValidity(
+  tenantId: string,
+  documentIds: string[]
+): Promise<Map<string, DocumentValidity>> {
+  const validity = new Map<string, DocumentValidity>();
+  if (documentIds.length === 0) return validity;
+
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id, filename, valid_from, valid_until')
+      .eq('tenant_id', tenantId)
+      .in('id', Array.from(new Set(documentIds)))
+      .or('valid_from.not.is.null,valid_until.not.is.null');
+
+    if (error) {
+      console.error('❌ [DocumentValidity] Error loading validity:', error);
+      return validity;
+    }
+
+    for (const row of data || []) {
+      validity.set(row.id, {
+        document_id: row.id,
+        filename: row.filename,
+        valid_from: row.valid_from,
+        valid_until: row.valid_until
+      });
+    }
+  } catch (error) {
+    console.error('❌ [DocumentValidity] Error loading validity:', error);
+  }
+
+  return validity;
+}
+
+/**
+ * Documenten die binnen withinDays verlopen (nog niet verlopen), oudste
+ * einddatum eerst. Zonder tenantId: alle tenants (admin dashboard).
+ */
+export async function getExpiringDocuments(options: {
+  tenantId?: string;
+  withinDays?: number;
+} = {}): Promise<{ documents: ExpiringDocument[]; error?: string }> {
+  const supabase = getSupabaseClient();
+  const today = todayISO();
+  const withinDays = options.withinDays ?? EXPIRY_WARNING_DAYS;
+  const until = todayISO(new Date(Date.parse(today) + withinDays * 24 * 60 * 60 * 1000));
+
+  let query = supabase
+    .from('documents')
+    .select('id, tenant_id, tenant_product_id, filename, valid_until')
+    .gte('valid_until', today)
+    .lte('valid_until', until)
+    .order('valid_until', { ascending: true });
+
+  if (options.tenantId) {
+    query = query.eq('tenant_id', options.tenantId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('❌ [DocumentValidity] Error loading expiring documents:', error);
+    return { documents: [], error: error.message };
+  }
+
+  // documents.tenant_id heeft geen foreign key, dus namen apart ophalen
+  const tenantIds = Array.from(new Set((data || []).map(row => row.tenant_id)));
+  const tenantNames = new Map<string, string>();
+  if (tenantIds.length > 0) {
+    const { data: tenants } = await supabase
+      .from('tenants')
+      .select('id, name')
+      .in('id', tenantIds);
+    (tenants || []).forEach(tenant => tenantNames.set(tenant.id, tenant.name));
+  }
+
+  const documents: ExpiringDocument[] = (data || []).map(row => ({
+    id: row.id,
+    tenant_id: row.tenant_id,
+    tenant_name: tenantNames.get(row.tenant_id),
+    tenant_product_id: row.tenant_product_id,
+    filename: row.filename,
+    valid_until: row.valid_until,
+    days_left: daysUntil(row.valid_until, today)
+  }));
+
+  return { documents };
+}
+
+// ========================================
+// UPDATE
+// ========================================
+
+/**
+ * Zet de geldigheid van een document (null = geen begin- of einddatum)
+ */
+export async function updateDocumentValidity(
+  tenantId: string,
+  documentId: string,
+  validFrom: string | null,
+  validUntil: string | null
+): Promise<{ validity: DocumentValidity | null; error?: string }> {
+  const validationError = validateValidityInput(validFrom, validUntil);
+  if (validationError) {
+    return { validity: null, error: validationError };
+  }
+
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('documents')
+    .update({ valid_from: validFrom, valid_until: validUntil })
+    .eq('id', documentId)
+    .eq('tenant_id', tenantId)
+    .select('id, filename, valid_from, valid_until')
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ [DocumentValidity] Error updating validity:', error);
+    return { validity: null, error: error.message };
+  }
+
+  if (!data) {
+    return { validity: null, error: 'Document not found' };
+  }
+
+  // Gecachte antwoorden kunnen op een nu verlopen document gebaseerd zijn
+  await invalidateAnswerCache(tenantId);
+
+  console.log(`📅 [DocumentValidity] ${data.filename}: ${validFrom ?? '…'} t/m ${validUntil ?? '…'}`);
+
+  return {
+    validity: {
+      document_id: data.id,
+      filename: data.filename,
+      valid_from: data.valid_from,
+      valid_until: data.valid_until
+    }
+  };
+}
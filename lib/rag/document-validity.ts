@@ -0,0 +1,227 @@
+/**
+ * ========================================
+ * DOCUMENT VALIDITY - Geldigheid van documenten
+ * ========================================
+ *
+ * Client-safe: types, status helpers en de weging van zoekresultaten
+ * op basis van documents.valid_from / valid_until (migratie 036).
+ * Ophalen en opslaan staat in './document-validity-service' (server-only).
+ *
+ * Regels in retrieveContext:
+ * - Verlopen (valid_until < vandaag): uitgesloten
+ * - Nog niet geldig (valid_from > vandaag): score × UPCOMING_WEIGHT
+ * - Vervangen: een ander geldig document uit dezelfde familie (zelfde
+ *   bestandsnaam zonder jaartallen/versienummers) met een nieuwere
+ *   valid_from staat in de resultaten → score × SUPERSEDED_WEIGHT
+ *
+ * Datums zijn 'YYYY-MM-DD' strings (Postgres DATE), zodat vergelijken
+ * zonder tijdzones kan.
+ */
+
+import type { RAGValidityDetails } from './types';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type DocumentValidityStatus = 'valid' | 'expired' | 'upcoming' | 'expiring';
+
+export interface DocumentValidity {
+  document_id: string;
+  filename: string;
+  valid_from: string | null;
+  valid_until: string | null;
+}
+
+export interface ExpiringDocument {
+  id: string;
+  tenant_id: string;
+  tenant_name?: string;
+  tenant_product_id?: string | null;
+  filename: string;
+  valid_until: string;
+  days_left: number;
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+export const EXPIRY_WARNING_DAYS = 30;
+const UPCOMING_WEIGHT = 0.7;
+const SUPERSEDED_WEIGHT = 0.8;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ========================================
+// DATE HELPERS
+// ========================================
+
+/**
+ * Vandaag als 'YYYY-MM-DD' (UTC)
+ */
+export function todayISO(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Aantal dagen van vandaag tot date (negatief = verleden)
+ */
+export function daysUntil(date: string, today: string = todayISO()): number {
+  return Math.round((Date.parse(date) - Date.parse(today)) / DAY_MS);
+}
+
+/**
+ * Controleert een geldigheid invoer. Geeft een foutmelding of null.
+ */
+export function validateValidityInput(validFrom: string | null, validUntil: string | null): string | null {
+  for (const date of [validFrom, validUntil]) {
+    if (date !== null && (!DATE_PATTERN.test(date) || isNaN(Date.parse(date)))) {
+      return `Invalid date: ${date} (expected YYYY-MM-DD)`;
+    }
+  }
+  if (validFrom && validUntil && validUntil < validFrom) {
+    return 'valid_until must be on or after valid_from';
+  }
+  return null;
+}
+
+// ========================================
+// STATUS
+// ========================================
+
+/**
+ * Status van een document op een datum. 'expiring' = nog geldig maar
+ * verloopt binnen EXPIRY_WARNING_DAYS.
+ */
+export function getValidityStatus(
+  validFrom: string | null | undefined,
+  validUntil: string | null | undefined,
+  today: string = todayISO()
+): DocumentValidityStatus {
+  if (validUntil && validUntil < today) return 'expired';
+  if (validFrom && validFrom > today) return 'upcoming';
+  if (validUntil && daysUntil(validUntil, today) <= EXPIRY_WARNING_DAYS) return 'expiring';
+  return 'valid';
+}
+
+/**
+ * Familie sleutel van een bestandsnaam: zonder extensie, jaartallen,
+ * versienummers en leestekens. "CAO_2024.pdf" en "cao-2025-v2.pdf" → "cao"
+ */
+export function getDocumentFamilyKey(filename: string): string {
+  return filename
+    .toLowerCase()
+    .replace(/\.[a-z0-9]+$/, '')
+    .replace(/\bv(ersie)?\s*\d+\b/g, ' ')
+    .replace(/\d+/g, ' ')
+    .replace(/[^a-z]+/g, ' ')
+    .trim();
+}
+
+// ========================================
+// RESULT WEIGHTING
+// ========================================
+
+interface ValidityWeightable {
+  document_id: string;
+  filename: string;
+  similarity: number;
+}
+
+/**
+ * Sluit verlopen documenten uit. Documenten zonder geldigheid blijven staan.
+ */
+export function excludeExpiredResults<T extends ValidityWeightable>(
+  results: T[],
+  validity: Map<string, DocumentValidity>,
+  today: string = todayISO()
+): { results: T[]; excluded: RAGValidityDetails['excluded'] } {
+  const excluded = new Map<string, string>();
+
+  const kept = results.filter(result => {
+    const entry = validity.get(result.document_id);
+    if (entry && getValidityStatus(entry.valid_from, entry.valid_until, today) === 'expired') {
+      excluded.set(entry.filename, entry.valid_until!);
+      return false;
+    }
+    return true;
+  });
+
+  return {
+    results: kept,
+    excluded: Array.from(excluded, ([filename, validUntil]) => ({ filename, validUntil }))
+  };
+}
+
+/**
+ * Weegt resultaten van toekomstige en vervangen documenten lager en
+ * sorteert opnieuw op score.
+ */
+export function weightResultsByValidity<T extends ValidityWeightable>(
+  results: T[],
+  validity: Map<string, DocumentValidity>,
+  today: string = todayISO()
+): { results: T[]; upcoming: string[]; superseded: RAGValidityDetails['superseded'] } {
+  // Nieuwste geldige document per familie (alleen documenten in de resultaten)
+  const newestByFamily = new Map<string, DocumentValidity>();
+  for (const documentId of new Set(results.map(r => r.document_id))) {
+    const entry = validity.get(documentId);
+    if (!entry?.valid_from || getValidityStatus(entry.valid_from, entry.valid_until, today) === 'upcoming') continue;
+
+    const family = getDocumentFamilyKey(entry.filename);
+    const newest = newestByFamily.get(family);
+    if (!newest || entry.valid_from > newest.valid_from!) {
+      newestByFamily.set(family, entry);
+    }
+  }
+
+  const upcoming = new Set<string>();
+  const superseded = new Map<string, string>();
+
+  const weighted = results.map(result => {
+    const entry = validity.get(result.document_id);
+    if (!entry) return result;
+
+    if (getValidityStatus(entry.valid_from, entry.valid_until, today) === 'upcoming') {
+      upcoming.add(entry.filename);
+      return { ...result, similarity: result.similarity * UPCOMING_WEIGHT };
+    }
+
+    // Zonder valid_from is niet te bepalen welke versie nieuwer is
+    const newest = entry.valid_from ? newestByFamily.get(getDocumentFamilyKey(entry.filename)) : undefined;
+    if (newest && newest.document_id !== entry.document_id && newest.valid_from! > entry.valid_from!) {
+      superseded.set(entry.filename, newest.filename);
+      return { ...result, similarity: result.similarity * SUPERSEDED_WEIGHT };
+    }
+
+    return result;
+  });
+
+  weighted.sort((a, b) => b.similarity - a.similarity);
+
+  return {
+    results: weighted,
+    upcoming: Array.from(upcoming),
+    superseded: Array.from(superseded, ([filename, supersededBy]) => ({ filename, supersededBy }))
+  };
+}
+
+/**
+ * Korte omschrijving voor de context header, bijv. "geldig t/m 2025-12-31"
+ */
+export function formatValidityLabel(
+  entry: DocumentValidity | undefined,
+  today: string = todayISO()
+): string | null {
+  if (!entry || (!entry.valid_from && !entry.valid_until)) return null;
+
+  if (getValidityStatus(entry.valid_from, entry.valid_until, today) === 'upcoming') {
+    return `geldig vanaf ${entry.valid_from}`;
+  }
+  if (entry.valid_from && entry.valid_until) {
+    return `geldig ${entry.valid_from} t/m ${entry.valid_until}`;
+  }
+  return entry.valid_until ? `geldig t/m ${entry.valid_until}` : `geldig vanaf ${entry.valid_from}`;
+}
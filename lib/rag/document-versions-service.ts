@@ -0,0 +1,289 @@
+/**
+ * ========================================
+ * DOCUMENT VERSIONS SERVICE (SERVER-ONLY)
+ * ========================================
+ *
+ * Versie historie van documenten (migratie 035):
+ * - recordDocumentVersion() legt na elke (her)verwerking de versie vast,
+ *   inclusief de geëxtraheerde tekst voor de diff
+ * - archiveDocumentVersion() zet de chunks van de huidige versie in het
+ *   archief, vlak voor het verwerken van een nieuwe versie
+ * - restoreDocumentVersion() zet een gearchiveerde versie terug (rollback),
+ *   met de bestaande embeddings
+ *
+ * Het uploaden van een nieuwe versie staat in processor.ts
+ * (uploadDocumentVersion); de verwerking gebeurt in de document worker.
+ *
+ * Voor types en de diff, importeer uit './document-versions'.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { invalidateAnswerCache } from './answer-cache';
+import { diffText, DocumentVersion, DocumentVersionDiff } from './document-versions';
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// RECORD
+// ========================================
+
+export interface DocumentVersionInput {
+  documentId: string;
+  tenantId: string;
+  version: number;
+  filename: string;
+  filePath?: string | null;
+  fileSize?: number;
+  mimeType?: string;
+  totalPages?: number;
+  totalChunks: number;
+  extractedText: string;
+  contentHash?: string | null;   // documents.content_hash van deze versie (duplicaat check na rollback)
+}
+
+/**
+ * Legt een (her)verwerkte versie vast als huidige versie.
+ * Gooit nooit: zonder versie rij werkt zoeken gewoon door, alleen de
+ * diff en rollback voor deze versie ontbreken dan.
+ */
+export async function recordDocumentVersion(input: DocumentVersionInput): Promise<void> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('document_versions')
+      .upsert({
+        document_id: input.documentId,
+        tenant_id: input.tenantId,
+        version: input.version,
+        filename: input.filename,
+        file_path: input.filePath ?? null,
+        file_size: input.fileSize ?? null,
+        mime_type: input.mimeType ?? null,
+        total_pages: input.totalPages ?? null,
+        total_chunks: input.totalChunks,
+        extracted_text: input.extractedText,
+        content_hash: input.contentHash ?? null,
+        archived_at: null
+      }, { onConflict: 'document_id,version' });
+
+    if (error) {
+      console.error('❌ [DocumentVersions] Error recording version:', error);
+    }
+  } catch (error) {
+    console.error('❌ [DocumentVersions] Error recording version:', error);
+  }
+}
+
+// ========================================
+// READ
+// ========================================
+
+/**
+ * Alle versies van een document, nieuwste eerst (zonder de tekst)
+ */
+export async function listDocumentVersions(
+  tenantId: string,
+  documentId: string
+): Promise<{ versions: DocumentVersion[]; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('document_versions')
+    .select('id, document_id, tenant_id, version, filename, file_path, file_size, mime_type, total_pages, total_chunks, created_at, archived_at')
+    .eq('tenant_id', tenantId)
+    .eq('document_id', documentId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('❌ [DocumentVersions] Error listing versions:', error);
+    return { versions: [], error: error.message };
+  }
+
+  return { versions: (data || []) as DocumentVersion[] };
+}
+
+/**
+ * Volgend vrij versienummer. Na een rollback kan een hoger nummer in het
+ * archief staan dan de huidige versie, daarom het maximum van de historie.
+ */
+export async function getNextDocumentVersion(documentId: string, currentVersion: number): Promise<number> {
+  const supabase = getSupabaseClient();
+
+  const { data } = await supabase
+    .from('document_versions')
+    .select('version')
+    .eq('document_id', documentId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return Math.max(currentVersion, data?.version ?? 0) + 1;
+}
+
+/**
+ * Tekst van een versie. Versies van voor migratie 035 hebben geen
+ * extracted_text; dan wordt de tekst uit de chunks opgebouwd (zonder
+ * context headers, overlap tussen chunks kan dubbele regels geven).
+ */
+async function getVersionText(
+  documentId: string,
+  version: number
+): Promise<{ text: string | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data: row, error } = await supabase
+    .from('document_versions')
+    .select('extracted_text, archived_at')
+    .eq('document_id', documentId)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) return { text: null, error: error.message };
+  if (!row) return { text: null, error: `Version ${version} not found` };
+  if (row.extracted_text !== null) return { text: row.extracted_text };
+
+  const chunkQuery = row.archived_at
+    ? supabase.from('document_chunk_archive').select('content, metadata').eq('document_id', documentId).eq('version', version)
+    : supabase.from('document_chunks').select('content, metadata').eq('document_id', documentId);
+
+  const { data: chunks, error: chunksError } = await chunkQuery.order('chunk_index', { ascending: true });
+  if (chunksError) return { text: null, error: chunksError.message };
+
+  const text = (chunks || []).map(chunk => {
+    const header = (chunk.metadata as { contextHeader?: string } | null)?.contextHeader;
+    return header && chunk.content.startsWith(header)
+      ? chunk.content.slice(header.length).trim()
+      : chunk.content;
+  }).join('\n\n');
+
+  return { text };
+}
+
+/**
+ * Regel-diff tussen twee versies van een document
+ */
+export async function getDocumentVersionDiff(
+  tenantId: string,
+  documentId: string,
+  fromVersion: number,
+  toVersion: number
+): Promise<{ diff: DocumentVersionDiff | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  // Tenant check: het document moet van deze tenant zijn
+  const { data: document } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('id', documentId)
+    .eq('tenant_id', tenantId)
+    .maybeSingle();
+
+  if (!document) {
+    return { diff: null, error: 'Document not found' };
+  }
+
+  const [from, to] = await Promise.all([
+    getVersionText(documentId, fromVersion),
+    getVersionText(documentId, toVersion)
+  ]);
+
+  if (from.text === null || to.text === null) {
+    return { diff: null, error: from.error || to.error };
+  }
+
+  return {
+    diff: {
+      fromVersion,
+      toVersion,
+      ...diffText(from.text, to.text)
+    }
+  };
+}
+
+// ========================================
+// ARCHIVE / ROLLBACK
+// ========================================
+
+/**
+ * Zet de chunks van de huidige versie in het archief.
+ * Geeft het gearchiveerde versienummer terug.
+ */
+export async function archiveDocumentVersion(
+  documentId: string
+): Promise<{ version: number | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase.rpc('archive_document_version', {
+    p_document_id: documentId
+  });
+
+  if (error) {
+    console.error('❌ [DocumentVersions] Error archiving version:', error);
+    return { version: null, error: error.message };
+  }
+
+  console.log(`📦 [DocumentVersions] Archived version ${data} of document ${documentId}`);
+  return { version: data as number };
+}
+
+/**
+ * Zet een eerdere versie terug als huidige versie (rollback).
+ * De chunks en embeddings komen uit het archief, er wordt niets opnieuw
+ * verwerkt. discardCurrent verwijdert de huidige versie in plaats van
+ * die te archiveren (gebruikt na een mislukte upload van een nieuwe versie).
+ */
+export async function restoreDocumentVersion(
+  tenantId: string,
+  documentId: string,
+  version: number,
+  discardCurrent: boolean = false
+): Promise<{ chunksRestored: number | null; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data: document } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('id', documentId)
+    .eq('tenant_id', tenantId)
+    .maybeSingle();
+
+  if (!document) {
+    return { chunksRestored: null, error: 'Document not found' };
+  }
+
+  const { data, error } = await supabase.rpc('restore_document_version', {
+    p_document_id: documentId,
+    p_version: version,
+    p_discard_current: discardCurrent
+  });
+
+  if (error) {
+    console.error('❌ [DocumentVersions] Error restoring version:', error);
+    return { chunksRestored: null, error: error.message };
+  }
+
+  // Antwoorden uit de cache kunnen naar de vervangen versie verwijzen
+  await invalidateAnswerCache(tenantId);
+
+  console.log(`⏪ [DocumentVersions] Restored version ${version} of document ${documentId} (${data} chunks)`);
+  return { chunksRestored: data as number };
+}
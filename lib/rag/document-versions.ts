@@ -0,0 +1,244 @@
+/**
+ * ========================================
+ * DOCUMENT VERSIONS - Types & Text Diff
+ * ========================================
+ *
+ * Client-safe: types en de regel-diff tussen twee versies van een
+ * document. Opslag, archivering en rollback staan in
+ * './document-versions-service' (server-only).
+ *
+ * De diff werkt op de geëxtraheerde tekst (Myers algoritme op regels),
+ * zodat ook DOCX/HTML versies vergeleken kunnen worden.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface DocumentVersion {
+  id: string;
+  document_id: string;
+  tenant_id: string;
+  version: number;
+  filename: string;
+  file_path?: string | null;
+  file_size?: number | null;
+  mime_type?: string | null;
+  total_pages?: number | null;
+  total_chunks: number;
+  created_at: string;
+  archived_at?: string | null;  // null = huidige versie
+}
+
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldLine?: number;   // 1-based regelnummer in de oude versie
+  newLine?: number;   // 1-based regelnummer in de nieuwe versie
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+}
+
+export interface TextDiff {
+  hunks: DiffHunk[];
+  added: number;
+  removed: number;
+  truncated: boolean;   // Te veel wijzigingen om volledig te tonen
+}
+
+export interface DocumentVersionDiff extends TextDiff {
+  fromVersion: number;
+  toVersion: number;
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+const CONTEXT_LINES = 3;
+const MAX_EDIT_DISTANCE = 2000;   // Daarboven: hele blok als vervangen tonen
+const MAX_DIFF_LINES = 2000;      // Maximaal aantal regels in de hunks
+
+// ========================================
+// MYERS DIFF
+// ========================================
+
+type Operation = { type: DiffLineType; text: string };
+
+/**
+ * Kortste edit script tussen a en b (Myers, O(ND)).
+ * Geeft null als er meer dan maxEdits wijzigingen zijn.
+ */
+function myersDiff(a: string[], b: string[], maxEdits: number): Operation[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(trace, a, b);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[]): Operation[] {
+  const operations: Operation[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+
+    const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      operations.push({ type: 'equal', text: a[--x] });
+      y--;
+    }
+
+    if (x === prevX) {
+      operations.push({ type: 'added', text: b[--y] });
+    } else {
+      operations.push({ type: 'removed', text: a[--x] });
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    operations.push({ type: 'equal', text: a[--x] });
+    y--;
+  }
+
+  return operations.reverse();
+}
+
+// ========================================
+// MAIN FUNCTION
+// ========================================
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  return text.replace(/\r\n?/g, '\n').split('\n').map(line => line.trimEnd());
+}
+
+/**
+ * Regel-diff tussen twee teksten, gegroepeerd in hunks met
+ * CONTEXT_LINES ongewijzigde regels rond elke wijziging.
+ */
+export function diffText(oldText: string, newText: string): TextDiff {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Gemeenschappelijk begin en eind overslaan (meestal het grootste deel)
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+
+  let truncated = false;
+  let middle = myersDiff(middleA, middleB, MAX_EDIT_DISTANCE);
+  if (!middle) {
+    truncated = true;
+    middle = [
+      ...middleA.map(text => ({ type: 'removed' as const, text })),
+      ...middleB.map(text => ({ type: 'added' as const, text }))
+    ];
+  }
+
+  const operations: Operation[] = [
+    ...a.slice(0, prefix).map(text => ({ type: 'equal' as const, text })),
+    ...middle,
+    ...a.slice(a.length - suffix).map(text => ({ type: 'equal' as const, text }))
+  ];
+
+  // Regelnummers toekennen
+  let oldLine = 0;
+  let newLine = 0;
+  const lines: DiffLine[] = operations.map(op => {
+    if (op.type === 'equal') return { ...op, oldLine: ++oldLine, newLine: ++newLine };
+    if (op.type === 'removed') return { ...op, oldLine: ++oldLine };
+    return { ...op, newLine: ++newLine };
+  });
+
+  // Hunks: wijzigingen + context, samengevoegd als de context overlapt
+  const ranges: Array<{ start: number; end: number }> = [];
+  lines.forEach((line, idx) => {
+    if (line.type === 'equal') return;
+    const start = Math.max(0, idx - CONTEXT_LINES);
+    const end = Math.min(lines.length - 1, idx + CONTEXT_LINES);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  });
+
+  const hunks: DiffHunk[] = ranges.map(({ start, end }) => {
+    const before = lines.slice(0, start);
+    return {
+      oldStart: before.filter(l => l.type !== 'added').length + 1,
+      newStart: before.filter(l => l.type !== 'removed').length + 1,
+      lines: lines.slice(start, end + 1)
+    };
+  });
+
+  const lineCount = hunks.reduce((sum, hunk) => sum + hunk.lines.length, 0);
+  if (lineCount > MAX_DIFF_LINES) truncated = true;
+
+  return {
+    hunks: lineCount > MAX_DIFF_LINES ? limitHunks(hunks) : hunks,
+    added: lines.filter(l => l.type === 'added').length,
+    removed: lines.filter(l => l.type === 'removed').length,
+    truncated
+  };
+}
+
+function limitHunks(hunks: DiffHunk[]): DiffHunk[] {
+  const limited: DiffHunk[] = [];
+  let remaining = MAX_DIFF_LINES;
+
+  for (const hunk of hunks) {
+    if (remaining <= 0) break;
+    limited.push({ ...hunk, lines: hunk.lines.slice(0, remaining) });
+    remaining -= hunk.lines.length;
+  }
+
+  return limited;
+}
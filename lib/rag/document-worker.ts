@@ -0,0 +1,524 @@
+/**
+ * ========================================
+ * DOCUMENT WORKER (SERVER-ONLY)
+ * ========================================
+ *
+ * Verwerkt jobs uit de document wachtrij (migratie 037) in stappen:
+ *
+ *   extract  → bestand uit Storage halen en tekst extraheren
+ *   chunk    → Smart Chunking of Legacy
+ *   metadata → AI metadata per batch (optioneel)
+ *   embed    → embeddings genereren en chunks opslaan per batch
+ *   finalize → document status, versie historie, answer cache
+ *
+ * Jobs voor een bestaand document (herverwerken, nieuwe versie) hergebruiken
+ * embedding en AI metadata van ongewijzigde chunks (migratie 039). Mislukt
+ * een nieuwe versie definitief, dan wordt de vorige versie teruggezet.
+ *
+ * Na elke stap (en elke batch) gaan checkpoint en voortgang naar de
+ * database. Een job die opnieuw geclaimd wordt (retry of vastgelopen
+ * worker) gaat verder waar hij was. De checkpoint bevat alleen tellers;
+ * tekst, chunks en metadata worden één keer als artifact opgeslagen
+ * (migratie 048) en bij hervatten teruggelezen.
+ *
+ * Entry points:
+ * - /api/cron/document-jobs (periodiek, pakt alles op wat klaarstaat)
+ * - after() in de upload routes, zodat een nieuwe upload direct start
+ */
+
+import { randomUUID } from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { extractDocument } from './extractors';
+import { generateEmbeddingsBatch } from './embeddings';
+import { generateMetadataBatch, isMetadataGenerationEnabled } from './metadata-generator';
+import { invalidateAnswerCache } from './answer-cache';
+import { recordDocumentVersion, restoreDocumentVersion } from './document-versions-service';
+import { buildChunkRecord, chunkExtractedPages, createChunkLocator, getChunkingLogOptions } from './processor';
+import { computeChunkHash, estimateCostSaved, loadReusableChunks, type ReusableChunk } from './chunk-reuse-service';
+import type { EnhancedChunkMetadata } from './types';
+import {
+  claimDocumentJob,
+  computeContentHash,
+  finishDocumentJob,
+  loadDocumentJobArtifacts,
+  retryDocumentJob,
+  saveDocumentJobArtifact,
+  saveDocumentJobProgress
+} from './document-jobs-service';
+import {
+  DOCUMENT_JOB_STAGES,
+  type DocumentJob,
+  type DocumentJobCheckpoint,
+  type DocumentJobStage
+} from './document-jobs';
+import {
+  startDocumentProcessing,
+  updateProcessingStatus,
+  completeDocumentProcessing,
+  failDocumentProcessing
+} from '../admin/document-processing-logger';
+
+// ========================================
+// CONFIGURATION
+// ========================================
+
+const EMBED_BATCH_SIZE = 50;      // Supabase insert limiet
+const METADATA_BATCH_SIZE = 50;
+const DEFAULT_MAX_DURATION_MS = 4 * 60 * 1000;
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface DocumentWorkerResult {
+  workerId: string;
+  processed: number;
+  completed: number;
+  retried: number;
+  failed: number;
+  cancelled: number;
+}
+
+type JobOutcome = 'completed' | 'retried' | 'failed' | 'cancelled' | 'released';
+
+/**
+ * Fout die bij een nieuwe poging niet verdwijnt (geen tekst, geen chunks)
+ */
+class PermanentJobError extends Error {}
+
+/**
+ * De job moet stoppen: geannuleerd, of niet meer van deze worker
+ */
+class JobStoppedError extends Error {
+  constructor(readonly reason: 'cancelled' | 'released') {
+    super(`Job ${reason}`);
+  }
+}
+
+// ========================================
+// WORKER LOOP
+// ========================================
+
+/**
+ * Verwerkt jobs tot de wachtrij leeg is, maxJobs bereikt is of
+ * maxDurationMs verstreken is. Een lopende job wordt altijd afgemaakt
+ * (of door de volgende worker hervat als de functie eerder stopt).
+ */
+export async function runDocumentWorker(options: {
+  maxJobs?: number;
+  maxDurationMs?: number;
+  workerId?: string;
+} = {}): Promise<DocumentWorkerResult> {
+  const workerId = options.workerId || `worker-${randomUUID().slice(0, 8)}`;
+  const deadline = Date.now() + (options.maxDurationMs ?? DEFAULT_MAX_DURATION_MS);
+  const result: DocumentWorkerResult = { workerId, processed: 0, completed: 0, retried: 0, failed: 0, cancelled: 0 };
+
+  while (Date.now() < deadline && (options.maxJobs === undefined || result.processed < options.maxJobs)) {
+    const job = await claimDocumentJob(workerId);
+    if (!job) break;
+
+    result.processed++;
+    const outcome = await processDocumentJob(job, workerId);
+    if (outcome !== 'released') result[outcome]++;
+  }
+
+  if (result.processed > 0) {
+    console.log(`🏁 [DocumentWorker] ${workerId}: ${result.completed} completed, ${result.retried} retried, ${result.failed} failed, ${result.cancelled} cancelled`);
+  }
+
+  return result;
+}
+
+// ========================================
+// JOB PROCESSING
+// ========================================
+
+/**
+ * Voert de stappen van een geclaimde job uit, vanaf job.stage
+ */
+async function processDocumentJob(job: DocumentJob, workerId: string): Promise<JobOutcome> {
+  const supabase = getSupabaseClient();
+  const { filename } = job.payload;
+  let checkpoint: DocumentJobCheckpoint = { ...job.checkpoint };
+  const progress = { ...job.progress };
+  let startStage = job.stage;
+  let currentStage = job.stage;
+
+  console.log(`\n⚙️  [DocumentWorker] Job ${job.id}: ${filename} (stage ${job.stage}, attempt ${job.attempts}/${job.max_attempts})`);
+
+  /**
+   * Checkpoint opslaan; stopt de job bij annuleren of verloren lock
+   */
+  const save = async (stage: DocumentJobStage) => {
+    const { owned, cancelRequested } = await saveDocumentJobProgress(job, workerId, { stage, checkpoint, progress });
+    if (!owned) throw new JobStoppedError('released');
+    if (cancelRequested) throw new JobStoppedError('cancelled');
+  };
+
+  try {
+    const { data: doc } = await supabase
+      .from('documents')
+      .select('id, version, content_hash')
+      .eq('id', job.document_id)
+      .maybeSingle();
+
+    if (!doc) throw new JobStoppedError('released');
+
+    await supabase
+      .from('documents')
+      .update({ processing_status: 'processing', processing_error: null })
+      .eq('id', job.document_id);
+
+    // Inhoud van eerdere stappen terughalen. Ontbreekt die (job van voor
+    // migratie 048), dan opnieuw vanaf de extractie.
+    const artifacts = await loadDocumentJobArtifacts(job.id);
+    const stageIndex = DOCUMENT_JOB_STAGES.indexOf(startStage);
+    if ((stageIndex > DOCUMENT_JOB_STAGES.indexOf('extract') && !artifacts.extraction) ||
+        (stageIndex > DOCUMENT_JOB_STAGES.indexOf('chunk') && !artifacts.chunks)) {
+      console.warn(`⚠️ [DocumentWorker] Job ${job.id}: no artifacts for stage ${startStage}, restarting from extract`);
+      checkpoint = { processingLogId: checkpoint.processingLogId };
+      startStage = 'extract';
+    }
+
+    // Bestaand document: embeddings en metadata van de vorige verwerking
+    // (huidige chunks, of de gearchiveerde chunks van de vorige versie)
+    const reusable = job.payload.documentId
+      ? await loadReusableChunks(job.document_id, { archivedVersion: job.payload.reuseFromArchivedVersion })
+      : new Map<string, ReusableChunk>();
+
+    if (!checkpoint.processingLogId) {
+      checkpoint.processingLogId = await startDocumentProcessing({
+        tenantId: job.tenant_id,
+        documentId: job.document_id,
+        filename,
+        fileSizeBytes: job.payload.fileSize,
+        mimeType: job.payload.mimeType,
+        ...getChunkingLogOptions()
+      });
+    }
+    const logId = checkpoint.processingLogId;
+
+    for (const stage of DOCUMENT_JOB_STAGES.slice(DOCUMENT_JOB_STAGES.indexOf(startStage))) {
+      currentStage = stage;
+      await save(stage);
+
+      switch (stage) {
+        // 1. Tekst extraheren (per pagina of sectie)
+        case 'extract': {
+          if (logId) await updateProcessingStatus(logId, 'parsing');
+
+          const { data: file, error } = await supabase.storage
+            .from(job.payload.bucket)
+            .download(job.payload.storagePath);
+
+          if (error || !file) {
+            throw new Error(`Could not download ${job.payload.storagePath}: ${error?.message || 'empty file'}`);
+          }
+
+          const fileBuffer = Buffer.from(await file.arrayBuffer());
+          const extraction = await extractDocument(fileBuffer, filename, job.payload.mimeType);
+
+          if (extraction.pages.length === 0) {
+            throw new PermanentJobError(`No text content could be extracted from ${filename}`);
+          }
+
+          if (extraction.ocr && logId) {
+            await updateProcessingStatus(logId, 'parsing', {
+              ocrPages: extraction.pages.filter(page => page.ocr).length,
+              ocrDurationMs: extraction.ocr.durationMs,
+              ocrEngine: extraction.ocr.engine
+            });
+          }
+
+          await saveDocumentJobArtifact(job.id, 'extraction', extraction);
+          artifacts.extraction = extraction;
+          checkpoint.extraction = { totalPages: extraction.totalPages, contentHash: computeContentHash(fileBuffer) };
+          progress.totalPages = extraction.totalPages;
+          break;
+        }
+
+        // 2. Chunken
+        case 'chunk': {
+          if (logId) await updateProcessingStatus(logId, 'chunking', { totalPages: artifacts.extraction!.totalPages });
+
+          const chunked = await chunkExtractedPages(artifacts.extraction!.pages, filename);
+          if (chunked.contents.length === 0) {
+            throw new PermanentJobError('No chunks could be created from document content');
+          }
+
+          artifacts.chunks = { contents: chunked.contents, positions: chunked.positions };
+          await saveDocumentJobArtifact(job.id, 'chunks', artifacts.chunks);
+          checkpoint.chunks = {
+            count: chunked.contents.length,
+            method: chunked.method,
+            cost: chunked.cost,
+            tokens: chunked.tokens
+          };
+          progress.totalChunks = chunked.contents.length;
+          break;
+        }
+
+        // 3. AI metadata (per batch, zodat een herstart niet opnieuw begint)
+        case 'metadata': {
+          if (!isMetadataGenerationEnabled()) break;
+          if (logId) await updateProcessingStatus(logId, 'metadata');
+
+          const contents = artifacts.chunks!.contents;
+          checkpoint.metadata = checkpoint.metadata || { processedChunks: 0, cost: 0 };
+
+          while (checkpoint.metadata.processedChunks < contents.length) {
+            const start = checkpoint.metadata.processedChunks;
+            const batch = contents
+              .slice(start, start + METADATA_BATCH_SIZE)
+              .map((content, i) => ({ content, index: start + i }));
+
+            // Ongewijzigde chunks houden hun metadata
+            const batchResults: Record<number, EnhancedChunkMetadata> = {};
+            const toDescribe = batch.filter(chunk => {
+              const previous = reusable.get(computeChunkHash(chunk.content));
+              if (previous && Object.keys(previous.metadata).length > 0) {
+                batchResults[chunk.index] = previous.metadata;
+                return false;
+              }
+              return true;
+            });
+
+            if (toDescribe.length > 0) {
+              const metadataResult = await generateMetadataBatch(toDescribe, filename);
+              metadataResult.results.forEach((metadata, index) => {
+                batchResults[index] = metadata;
+              });
+              checkpoint.metadata.cost += metadataResult.totalCost;
+            }
+
+            await saveDocumentJobArtifact(job.id, `metadata:${start}`, batchResults);
+            Object.assign(artifacts.metadata, batchResults);
+
+            checkpoint.metadata.processedChunks = start + batch.length;
+
+            await save('metadata');
+          }
+          break;
+        }
+
+        // 4. Embeddings + chunks opslaan (per batch)
+        case 'embed': {
+          const { contents, positions } = artifacts.chunks!;
+          checkpoint.embed = checkpoint.embed || { storedChunks: 0, reused: 0, tokens: 0, cost: 0, failed: 0 };
+
+          if (logId) {
+            await updateProcessingStatus(logId, 'embedding', {
+              chunksCreated: contents.length,
+              metadataGenerated: !!checkpoint.metadata
+            });
+          }
+
+          // Een batch kan opgeslagen zijn zonder dat de checkpoint dat nog
+          // wist (worker gestopt ertussen). chunk_index = positie in contents.
+          // Bij herverwerken gaan hier ook de chunks van de vorige verwerking weg.
+          await supabase
+            .from('document_chunks')
+            .delete()
+            .eq('document_id', job.document_id)
+            .gte('chunk_index', checkpoint.embed.storedChunks);
+
+          const chunkTarget = {
+            tenantId: job.tenant_id,
+            documentId: job.document_id,
+            version: doc.version ?? 1,
+            locateChunk: createChunkLocator(artifacts.extraction!)
+          };
+
+          while (checkpoint.embed.storedChunks < contents.length) {
+            const start = checkpoint.embed.storedChunks;
+            const batch = contents.slice(start, start + EMBED_BATCH_SIZE);
+
+            // Alleen nieuwe of gewijzigde chunks naar de embedding API
+            const toEmbed: number[] = [];
+            const embeddings = batch.map((content, i) => {
+              const previous = reusable.get(computeChunkHash(content));
+              if (!previous) toEmbed.push(i);
+              return previous?.embedding ?? [];
+            });
+
+            if (toEmbed.length > 0) {
+              const result = await generateEmbeddingsBatch(toEmbed.map(i => batch[i]));
+              toEmbed.forEach((index, i) => {
+                embeddings[index] = result.embeddings[i];
+              });
+              checkpoint.embed.tokens += result.totalTokens;
+              checkpoint.embed.cost += result.totalCost;
+              checkpoint.embed.failed += result.failedIndices.length;
+            }
+
+            const records = batch.map((content, i) =>
+              buildChunkRecord(chunkTarget, content, positions[start + i], embeddings[i], artifacts.metadata[start + i])
+            );
+
+            const { error } = await supabase.from('document_chunks').insert(records);
+            if (error) throw error;
+
+            checkpoint.embed.storedChunks = start + batch.length;
+            checkpoint.embed.reused += batch.length - toEmbed.length;
+            progress.storedChunks = checkpoint.embed.storedChunks;
+
+            console.log(`   💾 [DocumentWorker] Saved ${checkpoint.embed.storedChunks}/${contents.length} chunks`);
+            await save('embed');
+          }
+
+          if (checkpoint.embed.failed > 0) {
+            console.warn(`⚠️ [DocumentWorker] ${checkpoint.embed.failed} chunks failed embedding generation`);
+          }
+          break;
+        }
+
+        // 5. Afronden
+        case 'finalize': {
+          const extraction = artifacts.extraction!;
+          const { contents, positions } = artifacts.chunks!;
+          const chunks = checkpoint.chunks!;
+          const embed = checkpoint.embed!;
+          const contentHash = checkpoint.extraction?.contentHash ?? doc.content_hash;
+
+          await supabase
+            .from('documents')
+            .update({
+              total_pages: extraction.totalPages,
+              total_chunks: contents.length,
+              content_hash: contentHash,
+              processing_status: 'completed'
+            })
+            .eq('id', job.document_id);
+
+          await recordDocumentVersion({
+            documentId: job.document_id,
+            tenantId: job.tenant_id,
+            version: doc.version ?? 1,
+            filename,
+            filePath: job.payload.storagePath,
+            fileSize: job.payload.fileSize,
+            mimeType: job.payload.mimeType,
+            totalPages: extraction.totalPages,
+            totalChunks: contents.length,
+            extractedText: extraction.pages.map(page => page.text).join('\n\n'),
+            contentHash
+          });
+
+          // Gecachte antwoorden kunnen nu achterhaald zijn
+          await invalidateAnswerCache(job.tenant_id);
+
+          if (logId) {
+            const chunkSizes = contents.map(c => c.length);
+            const reuse = {
+              chunksReused: embed.reused,
+              chunksEmbedded: contents.length - embed.reused,
+              embeddingCost: embed.cost,
+              metadataCost: checkpoint.metadata?.cost ?? 0
+            };
+            await completeDocumentProcessing(logId, {
+              totalPages: extraction.totalPages,
+              chunksCreated: contents.length,
+              structuresDetected: chunks.method === 'smart' ? positions.filter(p => p.structureType).length : 0,
+              avgChunkSize: Math.round(chunkSizes.reduce((sum, size) => sum + size, 0) / chunkSizes.length),
+              minChunkSize: Math.min(...chunkSizes),
+              maxChunkSize: Math.max(...chunkSizes),
+              embeddingTokens: embed.tokens,
+              embeddingCost: embed.cost,
+              chunkingTokens: chunks.tokens,
+              chunkingCost: chunks.cost,
+              metadataTokens: 0,
+              metadataCost: checkpoint.metadata?.cost ?? 0,
+              metadataGenerated: !!checkpoint.metadata,
+              ...(job.payload.documentId && {
+                chunksReused: reuse.chunksReused,
+                chunksEmbedded: reuse.chunksEmbedded,
+                costSaved: await estimateCostSaved(job.document_id, reuse)
+              })
+            });
+          }
+          break;
+        }
+      }
+    }
+
+    await finishDocumentJob(job.id, 'completed');
+
+    const totalCost = checkpoint.embed!.cost + checkpoint.chunks!.cost + (checkpoint.metadata?.cost ?? 0);
+    console.log(`✅ [DocumentWorker] ${filename}: ${checkpoint.chunks!.count} chunks, $${totalCost.toFixed(4)}`);
+
+    return 'completed';
+
+  } catch (error) {
+    if (error instanceof JobStoppedError && error.reason === 'released') {
+      console.warn(`⚠️ [DocumentWorker] Job ${job.id} no longer owned by ${workerId}, stopping`);
+      return 'released';
+    }
+
+    const cancelled = error instanceof JobStoppedError;
+    const errorMessage = cancelled
+      ? 'Verwerking geannuleerd'
+      : error instanceof Error ? error.message : 'Unknown error';
+    const retryable = !cancelled && !(error instanceof PermanentJobError) && job.attempts < job.max_attempts;
+
+    if (retryable) {
+      const runAfter = await retryDocumentJob(job, errorMessage);
+      console.warn(`🔁 [DocumentWorker] ${filename} failed (${errorMessage}), retry after ${runAfter}`);
+      return 'retried';
+    }
+
+    if (cancelled) {
+      console.log(`🛑 [DocumentWorker] ${filename} cancelled`);
+    } else {
+      console.error(`❌ [DocumentWorker] ${filename} failed permanently:`, error);
+    }
+
+    const previousVersion = job.payload.reuseFromArchivedVersion;
+    if (previousVersion !== undefined) {
+      // Nieuwe versie mislukt: de vorige versie wordt weer actief
+      console.warn(`⚠️ [DocumentWorker] Restoring version ${previousVersion} of document ${job.document_id}`);
+      await restoreDocumentVersion(job.tenant_id, job.document_id, previousVersion, true);
+    } else if (job.payload.documentId && !checkpoint.embed) {
+      // Herverwerken mislukt voordat de chunks vervangen werden: het
+      // document blijft doorzoekbaar zoals het was
+      await supabase
+        .from('documents')
+        .update({ processing_status: 'completed', processing_error: errorMessage })
+        .eq('id', job.document_id);
+    } else {
+      // Geen half geïndexeerd document achterlaten
+      await supabase.from('document_chunks').delete().eq('document_id', job.document_id);
+      await supabase
+        .from('documents')
+        .update({ processing_status: 'failed', processing_error: errorMessage })
+        .eq('id', job.document_id);
+      await invalidateAnswerCache(job.tenant_id);
+    }
+
+    if (checkpoint.processingLogId) {
+      await failDocumentProcessing(checkpoint.processingLogId, errorMessage, cancelled ? 'cancelled' : currentStage);
+    }
+
+    await finishDocumentJob(job.id, cancelled ? 'cancelled' : 'failed', errorMessage);
+    return cancelled ? 'cancelled' : 'failed';
+  }
+}
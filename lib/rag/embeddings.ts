@@ -1,11 +1,12 @@
 /**
  * ========================================
- * SUPABASE RAG - OpenAI Embeddings Service
+ * SUPABASE RAG - Embeddings Service
  * ========================================
  *
- * Genereert vector embeddings via OpenAI API.
+ * Genereert vector embeddings via de actieve LLM provider
+ * (OpenAI, Azure OpenAI, OpenAI-compatible of de offline stub).
  *
- * Kosten:
+ * Kosten (OpenAI, via provider pricing):
  * - text-embedding-3-small: $0.02 per 1M tokens
  * - text-embedding-3-large: $0.13 per 1M tokens
  *
@@ -13,31 +14,10 @@
  * Besparing: ~99%
  */
 
-import OpenAI from 'openai';
+import { getLLMProvider } from '@/lib/bot/providers';
 import { EMBEDDING_MODELS, DEFAULT_EMBEDDING_MODEL, EmbeddingConfig } from './types';
 import { sanitizeText, validateForEmbedding, exceedsTokenLimit, estimateTokenCount } from './text-sanitizer';
 
-// ========================================
-// OPENAI CLIENT
-// ========================================
-
-let openaiClient: OpenAI | null = null;
-
-/**
- * Krijg of maak de OpenAI client
- * Hergebruikt de bestaande OPENAI_API_KEY uit de environment
- */
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is not configured');
-    }
-    openaiClient = new OpenAI({ apiKey });
-  }
-  return openaiClient;
-}
-
 // ========================================
 // SINGLE EMBEDDING
 // ========================================
@@ -81,24 +61,24 @@ export async function generateEmbedding(
     throw new Error(`Text exceeds token limit (estimated ${estimated} tokens, limit is 8191)`);
   }
 
-  const client = getOpenAIClient();
+  const provider = getLLMProvider();
 
   console.log(`🔢 [Embeddings] Generating embedding for ${cleanText.length} chars (sanitized from ${text.length})`);
 
   try {
-    const response = await client.embeddings.create({
+    const response = await provider.embed({
       model: config.model,
-      input: cleanText,
+      input: [cleanText],
       dimensions: config.dimensions
     });
 
-    const tokens = response.usage?.total_tokens || 0;
-    const cost = (tokens / 1_000_000) * config.costPer1MTokens;
+    const tokens = response.totalTokens;
+    const cost = response.cost;
 
     console.log(`✅ [Embeddings] Generated: ${tokens} tokens, $${cost.toFixed(6)}`);
 
     return {
-      embedding: response.data[0].embedding,
+      embedding: response.embeddings[0],
       tokens,
       cost
     };
@@ -144,7 +124,7 @@ export async function generateEmbeddingsBatch(
     };
   }
 
-  const client = getOpenAIClient();
+  const provider = getLLMProvider();
 
   console.log(`🔢 [Embeddings] Batch processing ${texts.length} texts`);
 
@@ -173,6 +153,7 @@ export async function generateEmbeddingsBatch(
   const embeddings: (number[] | null)[] = new Array(texts.length).fill(null);
   const failedIndices: number[] = [];
   let totalTokens = 0;
+  let totalCost = 0;
 
   for (let i = 0; i < sanitizedTexts.length; i += BATCH_SIZE) {
     const batchStartIndex = i;
@@ -202,21 +183,20 @@ export async function generateEmbeddingsBatch(
     console.log(`   Batch ${batchNumber}/${totalBatches}: ${batchItems.length} texts (of ${BATCH_SIZE} max)`);
 
     try {
-      const response = await client.embeddings.create({
+      const response = await provider.embed({
         model: config.model,
         input: batchItems.map(item => item.text),
         dimensions: config.dimensions
       });
 
-      totalTokens += response.usage?.total_tokens || 0;
+      totalTokens += response.totalTokens;
+      totalCost += response.cost;
 
-      // Map embeddings back to original positions
-      response.data
-        .sort((a, b) => a.index - b.index)
-        .forEach((item, idx) => {
-          const originalIndex = batchItems[idx].originalIndex;
-          embeddings[originalIndex] = item.embedding;
-        });
+      // Map embeddings back to original positions (provider sorteert al op index)
+      response.embeddings.forEach((embedding, idx) => {
+        const originalIndex = batchItems[idx].originalIndex;
+        embeddings[originalIndex] = embedding;
+      });
 
     } catch (batchError) {
       const errorMessage = batchError instanceof Error ? batchError.message : String(batchError);
@@ -226,14 +206,15 @@ export async function generateEmbeddingsBatch(
       // Fallback: process each text individually
       for (const { text, originalIndex } of batchItems) {
         try {
-          const singleResponse = await client.embeddings.create({
+          const singleResponse = await provider.embed({
             model: config.model,
-            input: text,
+            input: [text],
             dimensions: config.dimensions
           });
 
-          totalTokens += singleResponse.usage?.total_tokens || 0;
-          embeddings[originalIndex] = singleResponse.data[0].embedding;
+          totalTokens += singleResponse.totalTokens;
+          totalCost += singleResponse.cost;
+          embeddings[originalIndex] = singleResponse.embeddings[0];
           console.log(`   ✓ Recovered chunk ${originalIndex}`);
 
         } catch (singleError) {
@@ -257,8 +238,6 @@ export async function generateEmbeddingsBatch(
     return emb;
   });
 
-  const totalCost = (totalTokens / 1_000_000) * config.costPer1MTokens;
-
   if (failedIndices.length > 0) {
     console.warn(`⚠️ [Embeddings] ${failedIndices.length} chunks failed and have placeholder embeddings`);
   }
@@ -306,7 +285,7 @@ export function estimateEmbeddingCost(
   }
 
   const estimatedTokens = estimateTokens(text);
-  return (estimatedTokens / 1_000_000) * config.costPer1MTokens;
+  return getLLMProvider().calculateCost(config.model, estimatedTokens).totalCost;
 }
 
 /**
@@ -0,0 +1,144 @@
+/**
+ * ========================================
+ * DOCX EXTRACTOR
+ * ========================================
+ *
+ * Word documenten (.docx). Een DOCX is een ZIP met XML; de tekst staat
+ * in word/document.xml. Koppen komen uit de paragraaf stijl (Heading 1 /
+ * Kop 1 / Title) of het outline level en worden de sectie grenzen.
+ *
+ * Word slaat geen paginanummers op (die ontstaan pas bij het renderen),
+ * dus citations gebruiken sectie ankers.
+ */
+
+import * as cheerio from 'cheerio';
+import { readZipEntries } from '@/lib/shared/zip';
+import { toMarkdownTable } from '../tables';
+import { buildSections, type TextBlock } from './sections';
+import type { DocumentExtractor, ExtractionResult } from './types';
+
+// ========================================
+// HELPERS
+// ========================================
+
+const HEADING_STYLE_PATTERN = /^(heading|kop|überschrift|titre)\s*(\d)$/i;
+const TITLE_STYLE_PATTERN = /^(title|titel)$/i;
+
+/**
+ * Map van styleId → kop niveau, op basis van word/styles.xml.
+ * Style IDs zijn taalafhankelijk (Heading1, Kop1, ...), de namen niet altijd.
+ */
+function parseHeadingStyles(stylesXml: string | null): Map<string, number> {
+  const levels = new Map<string, number>();
+  if (!stylesXml) return levels;
+
+  const $ = cheerio.load(stylesXml, { xml: true });
+
+  $('w\\:style').each((_, style) => {
+    const styleId = $(style).attr('w:styleId');
+    if (!styleId) return;
+
+    const name = $(style).find('w\\:name').attr('w:val') || '';
+    const outline = $(style).find('w\\:pPr > w\\:outlineLvl').attr('w:val');
+    const match = name.match(HEADING_STYLE_PATTERN) || styleId.match(HEADING_STYLE_PATTERN);
+
+    if (match) {
+      levels.set(styleId, parseInt(match[2], 10));
+    } else if (TITLE_STYLE_PATTERN.test(name) || TITLE_STYLE_PATTERN.test(styleId)) {
+      levels.set(styleId, 1);
+    } else if (outline !== undefined && parseInt(outline, 10) < 9) {
+      levels.set(styleId, parseInt(outline, 10) + 1);
+    }
+  });
+
+  return levels;
+}
+
+// ========================================
+// MAIN FUNCTION
+// ========================================
+
+async function extractTextFromDOCX(buffer: Buffer): Promise<ExtractionResult> {
+  console.log('📖 [Extractor] Parsing DOCX...');
+
+  const entries = readZipEntries(buffer);
+  const documentEntry = entries.find(e => e.name === 'word/document.xml');
+  if (!documentEntry) {
+    throw new Error('Invalid DOCX file: word/document.xml not found');
+  }
+
+  const stylesEntry = entries.find(e => e.name === 'word/styles.xml');
+  const headingStyles = parseHeadingStyles(stylesEntry ? stylesEntry.read().toString('utf8') : null);
+
+  const $ = cheerio.load(documentEntry.read().toString('utf8'), { xml: true });
+  const blocks: TextBlock[] = [];
+
+  // Tekst van een paragraaf of cel, inclusief tabs en regeleindes
+  const runText = (node: Parameters<typeof $>[0]): string => {
+    let text = '';
+    $(node).find('w\\:t, w\\:tab, w\\:br, w\\:cr').each((_, el) => {
+      if (el.tagName === 'w:t') {
+        text += $(el).text();
+      } else if (el.tagName === 'w:tab') {
+        text += '\t';
+      } else {
+        text += '\n';
+      }
+    });
+    return text.trim();
+  };
+
+  const walk = (nodes: ReturnType<typeof $>) => {
+    nodes.each((_, node) => {
+      switch ('tagName' in node ? node.tagName : '') {
+        case 'w:p': {
+          const text = runText(node);
+          if (!text) return;
+
+          const pPr = $(node).children('w\\:pPr');
+          const styleId = pPr.children('w\\:pStyle').attr('w:val');
+          const outline = pPr.children('w\\:outlineLvl').attr('w:val');
+          const level = (styleId && headingStyles.get(styleId))
+            || (outline !== undefined && parseInt(outline, 10) < 9 ? parseInt(outline, 10) + 1 : 0);
+
+          if (level > 0) {
+            blocks.push({ kind: 'heading', level, text });
+          } else if (pPr.children('w\\:numPr').length > 0) {
+            blocks.push({ kind: 'text', text: `- ${text}` });
+          } else {
+            blocks.push({ kind: 'text', text });
+          }
+          return;
+        }
+
+        case 'w:tbl': {
+          // Markdown tabel, eerste rij = header (zie lib/rag/tables.ts)
+          const rows: string[][] = [];
+          $(node).find('w\\:tr').each((_, row) => {
+            rows.push($(row).children('w\\:tc').map((_, cell) => runText(cell)).get());
+          });
+          const table = toMarkdownTable(rows);
+          if (table) {
+            blocks.push({ kind: 'text', text: table });
+          }
+          return;
+        }
+
+        case 'w:sdt':
+          // Content controls (bijv. inhoudsopgave) bevatten gewone paragrafen
+          walk($(node).children('w\\:sdtContent').children());
+          return;
+      }
+    });
+  };
+
+  walk($('w\\:body').children());
+
+  return buildSections(blocks, 'DOCX');
+}
+
+export const docxExtractor: DocumentExtractor = {
+  name: 'docx',
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  extract: (buffer) => extractTextFromDOCX(buffer)
+};
@@ -0,0 +1,95 @@
+/**
+ * ========================================
+ * HTML EXTRACTOR
+ * ========================================
+ *
+ * HTML pagina's (.html / .htm). Navigatie, scripts en styling worden
+ * verwijderd; h1-h6 worden de sectie grenzen. Een bestaand id attribuut
+ * op de kop wordt hergebruikt als anker, zodat citations naar de juiste
+ * plek in de bron kunnen linken.
+ */
+
+import * as cheerio from 'cheerio';
+import { toMarkdownTable } from '../tables';
+import { buildSections, type TextBlock } from './sections';
+import type { DocumentExtractor, ExtractionResult } from './types';
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+const REMOVED_ELEMENTS = 'script, style, noscript, template, svg, iframe, nav, header, footer, aside, form';
+
+const BLOCK_ELEMENTS = 'h1, h2, h3, h4, h5, h6, p, li, table, pre, blockquote, dt, dd, figcaption';
+
+// ========================================
+// MAIN FUNCTION
+// ========================================
+
+async function extractTextFromHTML(buffer: Buffer): Promise<ExtractionResult> {
+  console.log('📖 [Extractor] Parsing HTML...');
+
+  const $ = cheerio.load(buffer.toString('utf8'));
+  $(REMOVED_ELEMENTS).remove();
+
+  // Alleen de hoofdinhoud als die duidelijk gemarkeerd is
+  const main = $('main, article, [role="main"]').first();
+  const root = main.length > 0 ? main : $('body');
+
+  const blocks: TextBlock[] = [];
+
+  root.find(BLOCK_ELEMENTS).each((_, el) => {
+    const $el = $(el);
+
+    // Tabellen worden in zijn geheel verwerkt, inclusief blokken (en tabellen) in de cellen
+    if ($el.parents('table').length > 0) return;
+
+    // Geneste blokken (p in li, li in li) worden via het binnenste element opgepakt
+    if (el.tagName !== 'table' && $el.find(BLOCK_ELEMENTS).length > 0) return;
+
+    const heading = el.tagName.match(/^h([1-6])$/);
+    if (heading) {
+      blocks.push({
+        kind: 'heading',
+        level: parseInt(heading[1], 10),
+        text: $el.text().replace(/\s+/g, ' ').trim(),
+        id: $el.attr('id') || undefined
+      });
+      return;
+    }
+
+    if (el.tagName === 'table') {
+      // Markdown tabel, eerste rij = header (zie lib/rag/tables.ts)
+      const caption = $el.children('caption').text().replace(/\s+/g, ' ').trim();
+      const rows = $el.find('tr').map((_, row) => [
+        $(row).children('th, td').map((_, cell) => $(cell).text()).get()
+      ]).get() as string[][];
+      const table = toMarkdownTable(rows);
+      if (table) {
+        blocks.push({ kind: 'text', text: caption ? `${caption}\n${table}` : table });
+      }
+      return;
+    }
+
+    if (el.tagName === 'pre') {
+      blocks.push({ kind: 'text', text: $el.text() });
+      return;
+    }
+
+    const text = $el.text().replace(/\s+/g, ' ').trim();
+    blocks.push({ kind: 'text', text: el.tagName === 'li' ? `- ${text}` : text });
+  });
+
+  // Platte HTML zonder blok elementen: gebruik de zichtbare tekst
+  if (blocks.length === 0) {
+    blocks.push({ kind: 'text', text: root.text().replace(/[ \t]+/g, ' ') });
+  }
+
+  return buildSections(blocks, 'HTML');
+}
+
+export const htmlExtractor: DocumentExtractor = {
+  name: 'html',
+  mimeTypes: ['text/html'],
+  extract: (buffer) => extractTextFromHTML(buffer)
+};
@@ -0,0 +1,72 @@
+/**
+ * ========================================
+ * DOCUMENT EXTRACTOR REGISTRY
+ * ========================================
+ *
+ * Kiest de extractor op basis van het MIME type van een document.
+ * Alle extractors leveren hetzelfde pagina model ({ pageNumber, text }[]).
+ *
+ * Een nieuw formaat toevoegen:
+ * 1. Voeg het type toe aan SUPPORTED_DOCUMENT_TYPES (lib/rag/document-types.ts)
+ * 2. Schrijf een DocumentExtractor in deze map
+ * 3. Registreer hem hieronder (of runtime via registerExtractor)
+ */
+
+import { resolveDocumentMimeType } from '../document-types';
+import { docxExtractor } from './docx';
+import { htmlExtractor } from './html';
+import { markdownExtractor } from './markdown';
+import { pdfExtractor } from './pdf';
+import { csvExtractor, textExtractor } from './text';
+import type { DocumentExtractor, ExtractionResult } from './types';
+
+export type { DocumentExtractor, ExtractedPage, ExtractionResult, OcrSummary } from './types';
+
+// ========================================
+// REGISTRY
+// ========================================
+
+const extractors = new Map<string, DocumentExtractor>();
+
+/**
+ * Registreer een extractor voor al zijn MIME types (overschrijft bestaande)
+ */
+export function registerExtractor(extractor: DocumentExtractor): void {
+  for (const mimeType of extractor.mimeTypes) {
+    extractors.set(mimeType, extractor);
+  }
+}
+
+export function getExtractor(mimeType: string): DocumentExtractor | null {
+  return extractors.get(mimeType) || null;
+}
+
+[pdfExtractor, docxExtractor, htmlExtractor, markdownExtractor, textExtractor, csvExtractor]
+  .forEach(registerExtractor);
+
+// ========================================
+// MAIN FUNCTION
+// ========================================
+
+/**
+ * Extraheer de tekst van een document, per pagina of sectie.
+ *
+ * @throws Error als het type niet ondersteund wordt of extractie mislukt
+ */
+export async function extractDocument(
+  buffer: Buffer,
+  filename: string,
+  mimeType?: string | null
+): Promise<ExtractionResult & { mimeType: string }> {
+  const resolved = resolveDocumentMimeType(filename, mimeType);
+  const extractor = resolved ? getExtractor(resolved) : null;
+
+  if (!resolved || !extractor) {
+    throw new Error(`Unsupported document type: ${mimeType || filename}`);
+  }
+
+  console.log(`📄 [Extractor] ${filename} → ${extractor.name} (${resolved})`);
+
+  const result = await extractor.extract(buffer, filename);
+  return { ...result, mimeType: resolved };
+}
@@ -0,0 +1,125 @@
+/**
+ * ========================================
+ * MARKDOWN EXTRACTOR
+ * ========================================
+ *
+ * Markdown bestanden (.md). ATX (# Kop) en setext (Kop + ===) koppen
+ * worden de sectie grenzen. Inline opmaak (links, nadruk, code) wordt
+ * platgeslagen naar gewone tekst; tabellen blijven Markdown tabellen.
+ */
+
+import { buildSections, type TextBlock } from './sections';
+import type { DocumentExtractor, ExtractionResult } from './types';
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * Verwijder inline markdown syntax: ![alt](src), [tekst](url), **, _, `code`
+ */
+function stripInline(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/`([^`]+)`/g, '$1');
+}
+
+// ========================================
+// MAIN FUNCTION
+// ========================================
+
+async function extractTextFromMarkdown(buffer: Buffer): Promise<ExtractionResult> {
+  console.log('📖 [Extractor] Parsing Markdown...');
+
+  let source = buffer.toString('utf8').replace(/\r\n?/g, '\n');
+
+  // YAML front matter overslaan
+  source = source.replace(/^---\n[\s\S]*?\n---\n/, '');
+
+  const lines = source.split('\n');
+  const blocks: TextBlock[] = [];
+  let paragraph: string[] = [];
+  let inCodeBlock = false;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ kind: 'text', text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Code blocks blijven letterlijk
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock) {
+      paragraph.push(line);
+      continue;
+    }
+
+    const atx = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (atx) {
+      flushParagraph();
+      blocks.push({ kind: 'heading', level: atx[1].length, text: stripInline(atx[2]) });
+      continue;
+    }
+
+    // Setext: de regel onder de kop bestaat uit === of ---
+    const next = lines[i + 1];
+    if (line.trim() && paragraph.length === 0 && next !== undefined && /^\s{0,3}(=+|-+)\s*$/.test(next)) {
+      blocks.push({ kind: 'heading', level: next.trim().startsWith('=') ? 1 : 2, text: stripInline(line.trim()) });
+      i++;
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    // Tabel scheidingsregel (| --- | :---: |) normaliseren
+    if (/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line) && line.includes('|')) {
+      const columns = line.trim().replace(/^\||\|$/g, '').split('|').length;
+      paragraph.push(`|${' --- |'.repeat(columns)}`);
+      continue;
+    }
+
+    // Horizontale lijn
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph();
+      continue;
+    }
+
+    const text = line
+      .replace(/^\s{0,3}>\s?/, '')                 // blockquote
+      .replace(/^(\s*)[*+]\s+/, '$1- ');           // lijst bullets gelijk trekken
+
+    if (/^\s*\|.*\|\s*$/.test(text)) {
+      const cells = text.trim().replace(/^\||\|$/g, '').split('|').map(cell => stripInline(cell.trim()));
+      paragraph.push(`| ${cells.join(' | ')} |`);
+      continue;
+    }
+
+    paragraph.push(stripInline(text));
+  }
+
+  flushParagraph();
+
+  return buildSections(blocks, 'Markdown');
+}
+
+export const markdownExtractor: DocumentExtractor = {
+  name: 'markdown',
+  mimeTypes: ['text/markdown'],
+  extract: (buffer) => extractTextFromMarkdown(buffer)
+};
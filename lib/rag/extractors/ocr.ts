@@ -0,0 +1,173 @@
+/**
+ * ========================================
+ * OCR FALLBACK (SCANNED PDFS)
+ * ========================================
+ *
+ * Gescande PDF's (getekende CAO bijlagen, oude beleidsstukken) bevatten
+ * alleen afbeeldingen: pdf-parse vindt dan geen of nauwelijks tekst.
+ * Voor die pagina's draait OCR lokaal op de CPU met twee binaries:
+ *
+ * - pdftoppm (poppler-utils): rendert één pagina naar PNG
+ * - tesseract: herkent de tekst in de PNG
+ *
+ * Installatie: apt-get install poppler-utils tesseract-ocr tesseract-ocr-nld
+ *
+ * Ontbreken de binaries, dan wordt OCR (één keer gelogd) overgeslagen
+ * en gedraagt de PDF extractor zich zoals voorheen.
+ *
+ * CONFIGURATIE (env):
+ * - OCR_ENABLED=false            OCR volledig uitzetten
+ * - OCR_MIN_CHARS_PER_PAGE=50    Pagina's met minder tekst gaan door OCR
+ * - OCR_MAX_PAGES=100            Max. pagina's per document
+ * - OCR_LANGUAGES=nld+eng        Tesseract taalmodellen
+ * - OCR_DPI=300                  Render resolutie
+ * - OCR_PAGE_TIMEOUT_MS=120000   Timeout per pagina (render + OCR)
+ * - TESSERACT_PATH / PDFTOPPM_PATH  Pad naar de binaries
+ */
+
+import { execFile } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import type { OcrSummary } from './types';
+
+const execFileAsync = promisify(execFile);
+
+// ========================================
+// CONFIG
+// ========================================
+
+export const OCR_ENGINE = 'tesseract';
+
+function getOcrConfig() {
+  return {
+    enabled: process.env.OCR_ENABLED !== 'false',
+    minCharsPerPage: parseInt(process.env.OCR_MIN_CHARS_PER_PAGE || '50', 10),
+    maxPages: parseInt(process.env.OCR_MAX_PAGES || '100', 10),
+    languages: process.env.OCR_LANGUAGES || 'nld+eng',
+    dpi: parseInt(process.env.OCR_DPI || '300', 10),
+    pageTimeoutMs: parseInt(process.env.OCR_PAGE_TIMEOUT_MS || '120000', 10),
+    tesseractPath: process.env.TESSERACT_PATH || 'tesseract',
+    pdftoppmPath: process.env.PDFTOPPM_PATH || 'pdftoppm'
+  };
+}
+
+/**
+ * Minimale hoeveelheid tekst waaronder een pagina als "gescand" geldt
+ */
+export function getOcrMinCharsPerPage(): number {
+  return getOcrConfig().minCharsPerPage;
+}
+
+// ========================================
+// AVAILABILITY
+// ========================================
+
+let availabilityCheck: Promise<boolean> | null = null;
+
+/**
+ * Check (één keer per proces) of OCR aan staat en de binaries bestaan
+ */
+export function isOcrAvailable(): Promise<boolean> {
+  const config = getOcrConfig();
+  if (!config.enabled) {
+    return Promise.resolve(false);
+  }
+
+  if (!availabilityCheck) {
+    availabilityCheck = Promise.all([
+      execFileAsync(config.tesseractPath, ['--version'], { timeout: 10000 }),
+      execFileAsync(config.pdftoppmPath, ['-v'], { timeout: 10000 })
+    ])
+      .then(() => true)
+      .catch((error: Error) => {
+        console.warn(`⚠️ [OCR] OCR unavailable (${config.tesseractPath} / ${config.pdftoppmPath}): ${error.message}`);
+        return false;
+      });
+  }
+
+  return availabilityCheck;
+}
+
+// ========================================
+// MAIN FUNCTION
+// ========================================
+
+/**
+ * Voer OCR uit op de opgegeven pagina's van een PDF.
+ * Pagina's die mislukken worden overgeslagen (en gelogd); de rest gaat door.
+ *
+ * @returns Herkende tekst per paginanummer + samenvatting voor de processing log
+ */
+export async function ocrPdfPages(
+  buffer: Buffer,
+  pageNumbers: number[]
+): Promise<{ pages: Map<number, string>; summary: OcrSummary }> {
+  const config = getOcrConfig();
+  const startTime = Date.now();
+  const pages = new Map<number, string>();
+
+  const selected = pageNumbers.slice(0, config.maxPages);
+  if (pageNumbers.length > selected.length) {
+    console.warn(`⚠️ [OCR] ${pageNumbers.length} pages need OCR, limited to ${config.maxPages} (OCR_MAX_PAGES)`);
+  }
+
+  const failedPages: number[] = [];
+  const workDir = await mkdtemp(join(tmpdir(), 'rag-ocr-'));
+
+  try {
+    const pdfPath = join(workDir, 'input.pdf');
+    await writeFile(pdfPath, buffer);
+
+    for (const pageNumber of selected) {
+      const imagePrefix = join(workDir, `page-${pageNumber}`);
+
+      try {
+        // -singlefile: schrijft exact <prefix>.png (geen paginanummer suffix)
+        await execFileAsync(config.pdftoppmPath, [
+          '-f', String(pageNumber),
+          '-l', String(pageNumber),
+          '-r', String(config.dpi),
+          '-gray',
+          '-png',
+          '-singlefile',
+          pdfPath,
+          imagePrefix
+        ], { timeout: config.pageTimeoutMs });
+
+        // Tesseract schrijft naar <outputbase>.txt
+        await execFileAsync(config.tesseractPath, [
+          `${imagePrefix}.png`,
+          imagePrefix,
+          '-l', config.languages
+        ], { timeout: config.pageTimeoutMs });
+
+        const text = (await readFile(`${imagePrefix}.txt`, 'utf8')).trim();
+        if (text.length > 0) {
+          pages.set(pageNumber, text);
+        }
+
+        // Vrij schijfruimte direct op, scans van 300 DPI zijn groot
+        await rm(`${imagePrefix}.png`, { force: true });
+      } catch (error) {
+        failedPages.push(pageNumber);
+        console.warn(`⚠️ [OCR] Page ${pageNumber} failed:`, (error as Error).message);
+      }
+    }
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+
+  const summary: OcrSummary = {
+    engine: OCR_ENGINE,
+    pagesAttempted: selected.length,
+    pagesRecognized: Array.from(pages.keys()).sort((a, b) => a - b),
+    failedPages,
+    durationMs: Date.now() - startTime
+  };
+
+  console.log(`🔍 [OCR] Recognized ${summary.pagesRecognized.length}/${summary.pagesAttempted} pages in ${summary.durationMs}ms`);
+
+  return { pages, summary };
+}
@@ -0,0 +1,221 @@
+/**
+ * ========================================
+ * PDF TABLE DETECTION
+ * ========================================
+ *
+ * Herkent tabellen op een PDF pagina aan de hand van de posities van de
+ * tekst items (pdf.js getTextContent). Een PDF kent geen tabellen: er zijn
+ * alleen losse stukjes tekst op x/y coördinaten.
+ *
+ * Aanpak:
+ * 1. Items met (bijna) dezelfde y vormen een regel
+ * 2. Binnen een regel begint een nieuwe cel bij een grote horizontale gap
+ * 3. Minimaal MIN_TABLE_ROWS opeenvolgende regels met 2+ cellen, waarvan
+ *    de cellen in dezelfde kolommen uitlijnen, vormen een tabel
+ *
+ * Lopende tekst (ook uitgevulde) lijnt niet uit in kolommen en wordt
+ * daardoor niet als tabel gezien.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface PdfTextItem {
+  str?: string;
+  transform?: number[];
+  width?: number;
+  hasEOL?: boolean;
+}
+
+export interface PdfTable {
+  rows: string[][];             // Eerste rij = header
+  itemIndices: Set<number>;     // Items die bij de tabel horen (niet als lopende tekst renderen)
+  firstItemIndex: number;       // Hier wordt de tabel in de pagina tekst ingevoegd
+}
+
+interface PositionedItem {
+  index: number;
+  text: string;
+  x: number;
+  xEnd: number;
+  y: number;
+  fontSize: number;
+}
+
+interface Cell {
+  text: string;
+  x: number;
+  itemIndices: number[];
+}
+
+interface Line {
+  y: number;
+  fontSize: number;
+  cells: Cell[];
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+const MIN_TABLE_ROWS = 3;
+const MIN_COLUMNS = 2;
+const CELL_GAP_FACTOR = 1.2;        // Gap > 1.2× font size = nieuwe cel
+const COLUMN_TOLERANCE_FACTOR = 2;   // Cellen binnen 2× font size = zelfde kolom (rechts uitgelijnde getallen)
+const MIN_ALIGNED_RATIO = 0.8;       // Aandeel cellen dat in een kolom moet vallen
+
+// ========================================
+// HELPERS
+// ========================================
+
+function toPositionedItems(items: PdfTextItem[]): PositionedItem[] {
+  const positioned: PositionedItem[] = [];
+
+  items.forEach((item, index) => {
+    const text = item.str?.trim();
+    if (!text || !item.transform) return;
+
+    const fontSize = Math.abs(item.transform[3]) || Math.abs(item.transform[0]) || 10;
+    const x = item.transform[4];
+    const width = item.width && item.width > 0 ? item.width : item.str!.length * fontSize * 0.5;
+
+    positioned.push({ index, text, x, xEnd: x + width, y: item.transform[5], fontSize });
+  });
+
+  return positioned;
+}
+
+/**
+ * Groepeer items per regel (van boven naar beneden) en splits regels in cellen
+ */
+function groupLines(items: PositionedItem[]): Line[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: Array<{ y: number; fontSize: number; items: PositionedItem[] }> = [];
+
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - item.y) <= Math.max(2, item.fontSize * 0.4)) {
+      line.items.push(item);
+    } else {
+      lines.push({ y: item.y, fontSize: item.fontSize, items: [item] });
+    }
+  }
+
+  return lines.map(line => {
+    const lineItems = line.items.sort((a, b) => a.x - b.x);
+    const cells: Cell[] = [];
+    let previous: PositionedItem | null = null;
+
+    for (const item of lineItems) {
+      const cell = cells[cells.length - 1];
+      if (cell && previous && item.x - previous.xEnd <= item.fontSize * CELL_GAP_FACTOR) {
+        cell.text += (item.x - previous.xEnd > item.fontSize * 0.1 ? ' ' : '') + item.text;
+        cell.itemIndices.push(item.index);
+      } else {
+        cells.push({ text: item.text, x: item.x, itemIndices: [item.index] });
+      }
+      previous = item;
+    }
+
+    return { y: line.y, fontSize: line.fontSize, cells };
+  });
+}
+
+/**
+ * Bepaal kolom posities voor een reeks regels.
+ * Geeft null als de cellen niet in kolommen uitlijnen.
+ */
+function findColumns(lines: Line[]): number[] | null {
+  const tolerance = Math.max(...lines.map(line => line.fontSize)) * COLUMN_TOLERANCE_FACTOR;
+  const clusters: Array<{ x: number; rows: Set<number> }> = [];
+
+  lines.forEach((line, row) => {
+    for (const cell of line.cells) {
+      const cluster = clusters.find(c => Math.abs(c.x - cell.x) <= tolerance);
+      if (cluster) {
+        cluster.rows.add(row);
+      } else {
+        clusters.push({ x: cell.x, rows: new Set([row]) });
+      }
+    }
+  });
+
+  // Een kolom moet in minstens de helft van de rijen voorkomen
+  const columns = clusters
+    .filter(c => c.rows.size >= Math.ceil(lines.length / 2))
+    .map(c => c.x)
+    .sort((a, b) => a - b);
+
+  if (columns.length < MIN_COLUMNS) return null;
+
+  const cells = lines.flatMap(line => line.cells);
+  const aligned = cells.filter(cell => columns.some(x => Math.abs(x - cell.x) <= tolerance)).length;
+
+  return aligned / cells.length >= MIN_ALIGNED_RATIO ? columns : null;
+}
+
+function buildTable(lines: Line[], columns: number[]): PdfTable {
+  const itemIndices = new Set<number>();
+
+  const rows = lines.map(line => {
+    const row: string[] = Array(columns.length).fill('');
+
+    for (const cell of line.cells) {
+      // Dichtstbijzijnde kolom
+      let column = 0;
+      for (let i = 1; i < columns.length; i++) {
+        if (Math.abs(columns[i] - cell.x) < Math.abs(columns[column] - cell.x)) {
+          column = i;
+        }
+      }
+      row[column] = row[column] ? `${row[column]} ${cell.text}` : cell.text;
+      cell.itemIndices.forEach(index => itemIndices.add(index));
+    }
+
+    return row;
+  });
+
+  return {
+    rows,
+    itemIndices,
+    firstItemIndex: Math.min(...itemIndices)
+  };
+}
+
+// ========================================
+// MAIN FUNCTION
+// ========================================
+
+/**
+ * Detecteer tabellen in de tekst items van één PDF pagina
+ */
+export function detectPdfTables(items: PdfTextItem[]): PdfTable[] {
+  const lines = groupLines(toPositionedItems(items));
+  const tables: PdfTable[] = [];
+
+  let start = 0;
+  while (start < lines.length) {
+    if (lines[start].cells.length < MIN_COLUMNS) {
+      start++;
+      continue;
+    }
+
+    // Opeenvolgende regels met meerdere cellen
+    let end = start;
+    while (end < lines.length && lines[end].cells.length >= MIN_COLUMNS) {
+      end++;
+    }
+
+    const run = lines.slice(start, end);
+    const columns = run.length >= MIN_TABLE_ROWS ? findColumns(run) : null;
+
+    if (columns) {
+      tables.push(buildTable(run, columns));
+    }
+
+    start = end;
+  }
+
+  return tables;
+}
@@ -0,0 +1,162 @@
+/**
+ * ========================================
+ * PDF EXTRACTOR
+ * ========================================
+ *
+ * Tekst per pagina met echte paginanummers via pdf-parse.
+ * Pagina's met (bijna) geen tekst - scans - gaan door de OCR fallback.
+ * Tabellen worden herkend op tekst posities en als Markdown tabel
+ * in de pagina tekst gezet (zie ./pdf-tables.ts en lib/rag/tables.ts).
+ */
+
+import { toMarkdownTable } from '../tables';
+import { sanitizeText } from '../text-sanitizer';
+import { getOcrMinCharsPerPage, isOcrAvailable, ocrPdfPages } from './ocr';
+import { detectPdfTables, type PdfTextItem } from './pdf-tables';
+import type { DocumentExtractor, ExtractedPage, ExtractionResult } from './types';
+
+/**
+ * Extraheert tekst uit een PDF buffer, PER PAGINA met echte paginanummers.
+ *
+ * Gebruikt pdf-parse met custom page rendering om tekst per pagina te extraheren.
+ * Dit is compatible met Node.js/Next.js server-side rendering.
+ */
+async function extractTextFromPDF(
+  buffer: Buffer
+): Promise<ExtractionResult> {
+  console.log('📖 [Extractor] Parsing PDF with per-page extraction...');
+
+  // Import pdf-parse dynamically to avoid issues with Next.js bundling
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const pdfParse = require('pdf-parse');
+
+  // Collect pages during parsing using custom page render
+  const pages: ExtractedPage[] = [];
+  let currentPage = 0;
+
+  // Custom page render function to extract text per page
+  const pagerender = async (pageData: { getTextContent: () => Promise<{ items: PdfTextItem[] }> }) => {
+    currentPage++;
+    const pageNum = currentPage;
+
+    try {
+      const textContent = await pageData.getTextContent();
+
+      // Combine all text items from the page
+      // Preserve spacing by checking position changes
+      let pageText = '';
+      let lastY: number | null = null;
+
+      // Tabellen komen als Markdown tabel op de plek van hun eerste item
+      const tables = detectPdfTables(textContent.items);
+      const tableByFirstItem = new Map(tables.map(table => [table.firstItemIndex, table]));
+      const tableItems = new Set(tables.flatMap(table => Array.from(table.itemIndices)));
+      if (tables.length > 0) {
+        console.log(`   Page ${pageNum}: ${tables.length} table(s) detected`);
+      }
+
+      for (const [index, item] of textContent.items.entries()) {
+        const table = tableByFirstItem.get(index);
+        if (table) {
+          pageText = `${pageText.trimEnd()}\n\n${toMarkdownTable(table.rows)}\n\n`;
+          lastY = null;
+          continue;
+        }
+        if (tableItems.has(index)) continue;
+
+        if (item.str !== undefined) {
+          const currentY = item.transform ? item.transform[5] : 0;
+
+          // Add newline when moving to a new line
+          if (lastY !== null && Math.abs(currentY - lastY) > 5) {
+            pageText += '\n';
+          } else if (pageText.length > 0 && !pageText.endsWith(' ') && !pageText.endsWith('\n')) {
+            pageText += ' ';
+          }
+
+          pageText += item.str;
+          lastY = currentY;
+
+          if (item.hasEOL) {
+            pageText += '\n';
+          }
+        }
+      }
+
+      const trimmed = pageText.trim();
+      if (trimmed.length > 0) {
+        // Sanitize text to remove problematic characters that cause "unknown token" errors
+        const sanitized = sanitizeText(trimmed);
+        if (sanitized.length > 0) {
+          pages.push({
+            pageNumber: pageNum,
+            text: sanitized
+          });
+          if (sanitized.length < trimmed.length) {
+            console.log(`   Page ${pageNum}: sanitized ${trimmed.length - sanitized.length} chars`);
+          }
+        }
+      }
+
+      return trimmed;
+    } catch (pageError) {
+      console.warn(`⚠️ [Extractor] Could not extract text from page ${pageNum}:`, pageError);
+      return '';
+    }
+  };
+
+  // Parse PDF with custom page renderer
+  const pdfData = await pdfParse(buffer, { pagerender });
+  const totalPages = pdfData.numpages;
+
+  console.log(`📄 [Extractor] PDF has ${totalPages} pages`);
+  console.log(`✅ [Extractor] Extracted text from ${pages.length} of ${totalPages} pages`);
+
+  // OCR fallback voor pagina's zonder (bruikbare) tekst
+  const minChars = getOcrMinCharsPerPage();
+  const textLengths = new Map(pages.map(page => [page.pageNumber, page.text.length]));
+  const scannedPages: number[] = [];
+  for (let pageNumber = 1; pageNumber <= totalPages; pageNumber++) {
+    if ((textLengths.get(pageNumber) || 0) < minChars) {
+      scannedPages.push(pageNumber);
+    }
+  }
+
+  let ocr: ExtractionResult['ocr'];
+
+  if (scannedPages.length > 0 && await isOcrAvailable()) {
+    console.log(`🔍 [Extractor] ${scannedPages.length} pages with little or no text, running OCR...`);
+
+    const result = await ocrPdfPages(buffer, scannedPages);
+    ocr = result.summary;
+
+    for (const [pageNumber, ocrText] of result.pages) {
+      const sanitized = sanitizeText(ocrText);
+      const existing = pages.findIndex(page => page.pageNumber === pageNumber);
+
+      // OCR wint alleen als het meer tekst oplevert dan de tekstlaag
+      if (existing >= 0 && pages[existing].text.length >= sanitized.length) continue;
+
+      const page: ExtractedPage = { pageNumber, text: sanitized, ocr: true };
+      if (existing >= 0) {
+        pages[existing] = page;
+      } else {
+        pages.push(page);
+      }
+    }
+
+    pages.sort((a, b) => a.pageNumber - b.pageNumber);
+  }
+
+  if (pages.length === 0) {
+    throw new Error('No text content could be extracted from PDF');
+  }
+
+  return { pages, totalPages, paginated: true, ocr };
+}
+
+export const pdfExtractor: DocumentExtractor = {
+  name: 'pdf',
+  mimeTypes: ['application/pdf'],
+  extract: (buffer) => extractTextFromPDF(buffer)
+};
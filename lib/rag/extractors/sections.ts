@@ -0,0 +1,100 @@
+/**
+ * ========================================
+ * SECTION BUILDER
+ * ========================================
+ *
+ * Zet een reeks tekstblokken (koppen + paragrafen) van een bron zonder
+ * paginanummers om naar het pagina model: één "pagina" per sectie,
+ * met de kop als sectionTitle en een uniek anker.
+ */
+
+import { sanitizeText } from '../text-sanitizer';
+import type { ExtractedPage, ExtractionResult } from './types';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type TextBlock =
+  | { kind: 'heading'; level: number; text: string; id?: string }
+  | { kind: 'text'; text: string };
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * Maak een URL-veilig anker van een kop: "Artikel 4.3 Vakantiegeld" → "artikel-4-3-vakantiegeld"
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+    .replace(/-+$/, '');
+}
+
+// ========================================
+// MAIN FUNCTION
+// ========================================
+
+/**
+ * Splits tekstblokken in secties op elke kop.
+ * Tekst vóór de eerste kop wordt een sectie zonder titel en anker.
+ *
+ * @throws Error als er geen tekst overblijft
+ */
+export function buildSections(blocks: TextBlock[], sourceLabel: string): ExtractionResult {
+  const pages: ExtractedPage[] = [];
+  const usedAnchors = new Set<string>();
+
+  let current: { title?: string; anchor?: string; parts: string[] } = { parts: [] };
+
+  const flush = () => {
+    const text = sanitizeText(current.parts.join('\n\n').trim());
+    if (text.length > 0) {
+      pages.push({
+        pageNumber: pages.length + 1,
+        text,
+        sectionTitle: current.title,
+        anchor: current.anchor
+      });
+    }
+  };
+
+  for (const block of blocks) {
+    const text = block.text.trim();
+    if (!text) continue;
+
+    if (block.kind === 'text') {
+      current.parts.push(text);
+      continue;
+    }
+
+    flush();
+
+    // Uniek anker: bestaand id (HTML) of slug van de kop
+    const base = slugify(block.id || text) || `sectie-${pages.length + 1}`;
+    let anchor = base;
+    for (let n = 2; usedAnchors.has(anchor); n++) {
+      anchor = `${base}-${n}`;
+    }
+    usedAnchors.add(anchor);
+
+    // De kop blijft in de tekst, zodat structure detection hem ziet
+    current = { title: text, anchor, parts: [text] };
+  }
+
+  flush();
+
+  if (pages.length === 0) {
+    throw new Error(`No text content could be extracted from ${sourceLabel}`);
+  }
+
+  console.log(`✅ [Extractor] ${sourceLabel}: ${pages.length} sections`);
+
+  return { pages, totalPages: pages.length, paginated: false };
+}
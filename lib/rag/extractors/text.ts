@@ -0,0 +1,159 @@
+/**
+ * ========================================
+ * TEXT & CSV EXTRACTORS
+ * ========================================
+ *
+ * Platte tekst (.txt) en CSV (.csv).
+ *
+ * TXT heeft geen structuur: het hele bestand wordt één sectie en de
+ * chunker splitst verder op paragrafen.
+ *
+ * CSV wordt per rij omgezet naar "Kolom: waarde; Kolom: waarde", zodat
+ * elke rij los te begrijpen is. Rijen worden gegroepeerd in secties van
+ * CSV_ROWS_PER_SECTION met een anker per blok (bijv. #rijen-1-50).
+ */
+
+import { buildSections, type TextBlock } from './sections';
+import type { DocumentExtractor, ExtractionResult } from './types';
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+const CSV_ROWS_PER_SECTION = 50;
+
+// ========================================
+// HELPERS
+// ========================================
+
+function decodeText(buffer: Buffer): string {
+  return buffer.toString('utf8').replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Nederlandse Excel exports gebruiken ; als scheidingsteken
+ */
+export function detectDelimiter(firstLine: string): string {
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Eenvoudige RFC 4180 parser: quotes, "" escapes en regeleindes in velden
+ */
+export function parseCSV(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Lege regels overslaan
+  return rows.filter(r => r.some(cell => cell.trim().length > 0));
+}
+
+// ========================================
+// MAIN FUNCTIONS
+// ========================================
+
+async function extractTextFromTXT(buffer: Buffer): Promise<ExtractionResult> {
+  console.log('📖 [Extractor] Reading plain text...');
+  return buildSections([{ kind: 'text', text: decodeText(buffer) }], 'text file');
+}
+
+async function extractTextFromCSV(buffer: Buffer): Promise<ExtractionResult> {
+  console.log('📖 [Extractor] Parsing CSV...');
+
+  const text = decodeText(buffer);
+  const rows = parseCSV(text, detectDelimiter(text.split('\n')[0] || ''));
+
+  if (rows.length === 0) {
+    throw new Error('No text content could be extracted from CSV');
+  }
+
+  const [header, ...dataRows] = rows;
+  const columns = header.map((name, index) => name.trim() || `Kolom ${index + 1}`);
+
+  // Alleen een header rij: behandel als gewone tekst
+  if (dataRows.length === 0) {
+    return buildSections([{ kind: 'text', text: columns.join(' | ') }], 'CSV');
+  }
+
+  const blocks: TextBlock[] = [];
+
+  for (let start = 0; start < dataRows.length; start += CSV_ROWS_PER_SECTION) {
+    const group = dataRows.slice(start, start + CSV_ROWS_PER_SECTION);
+    const first = start + 1;
+    const last = start + group.length;
+
+    blocks.push({ kind: 'heading', level: 2, text: `Rijen ${first}-${last}` });
+
+    for (const row of group) {
+      const line = row
+        .map((value, index) => ({ column: columns[index] || `Kolom ${index + 1}`, value: value.trim() }))
+        .filter(cell => cell.value.length > 0)
+        .map(cell => `${cell.column}: ${cell.value}`)
+        .join('; ');
+
+      if (line) {
+        blocks.push({ kind: 'text', text: line });
+      }
+    }
+  }
+
+  return buildSections(blocks, 'CSV');
+}
+
+export const textExtractor: DocumentExtractor = {
+  name: 'text',
+  mimeTypes: ['text/plain'],
+  extract: (buffer) => extractTextFromTXT(buffer)
+};
+
+export const csvExtractor: DocumentExtractor = {
+  name: 'csv',
+  mimeTypes: ['text/csv'],
+  extract: (buffer) => extractTextFromCSV(buffer)
+};
@@ -0,0 +1,53 @@
+/**
+ * ========================================
+ * DOCUMENT EXTRACTOR TYPES
+ * ========================================
+ *
+ * Elke extractor zet een bestand om naar hetzelfde pagina model
+ * ({ pageNumber, text }[]), zodat smartChunkDocument, structure detection
+ * en citations voor elk formaat hetzelfde werken.
+ *
+ * Formaten zonder paginanummers (Word, HTML, Markdown, ...) worden per
+ * sectie (kop) opgesplitst. pageNumber is dan het volgnummer van de
+ * sectie en citations gebruiken het anker in plaats van een pagina.
+ */
+
+// ========================================
+// PAGE MODEL
+// ========================================
+
+export interface ExtractedPage {
+  pageNumber: number;        // Echte pagina (PDF) of volgnummer van de sectie
+  text: string;
+  sectionTitle?: string;     // Kop van de sectie (niet-gepagineerde bronnen)
+  anchor?: string;           // Sectie anker, bijv. "vakantiegeld" (→ #vakantiegeld)
+  ocr?: boolean;             // Tekst komt uit OCR (gescande pagina)
+}
+
+/**
+ * Samenvatting van de OCR fallback (zie ./ocr.ts)
+ */
+export interface OcrSummary {
+  engine: string;
+  pagesAttempted: number;
+  pagesRecognized: number[];
+  failedPages: number[];
+  durationMs: number;
+}
+
+export interface ExtractionResult {
+  pages: ExtractedPage[];
+  totalPages: number;        // Echte page count (PDF) of aantal secties
+  paginated: boolean;        // false = citations via sectie ankers
+  ocr?: OcrSummary;          // Alleen als OCR gedraaid heeft
+}
+
+// ========================================
+// EXTRACTOR
+// ========================================
+
+export interface DocumentExtractor {
+  readonly name: string;
+  readonly mimeTypes: string[];
+  extract(buffer: Buffer, filename: string): Promise<ExtractionResult>;
+}
@@ -20,9 +20,96 @@ export {
   deleteDocument,
   listDocuments,
   getDocument,
-  reprocessDocument
+  uploadDocumentVersion
 } from './processor';
 
+// Document versions (historie, diff en rollback)
+export {
+  listDocumentVersions,
+  getDocumentVersionDiff,
+  restoreDocumentVersion
+} from './document-versions-service';
+
+export { diffText } from './document-versions';
+
+export type {
+  DocumentVersion,
+  DocumentVersionDiff,
+  DiffHunk,
+  DiffLine
+} from './document-versions';
+
+// Document geldigheid (valid_from / valid_until)
+export {
+  getDocumentValidity,
+  getExpiringDocuments,
+  updateDocumentValidity
+} from './document-validity-service';
+
+export {
+  getValidityStatus,
+  EXPIRY_WARNING_DAYS
+} from './document-validity';
+
+export type {
+  DocumentValidity,
+  DocumentValidityStatus,
+  ExpiringDocument
+} from './document-validity';
+
+// Document wachtrij (verwerking op de achtergrond)
+export {
+  enqueueDocumentProcessing,
+  enqueueDocumentReprocessing,
+  cancelDocumentJob,
+  getActiveDocumentJobs
+} from './document-jobs-service';
+
+export { runDocumentWorker } from './document-worker';
+
+export type { DocumentWorkerResult } from './document-worker';
+
+export type {
+  DocumentJob,
+  DocumentJobStage,
+  DocumentJobStatus
+} from './document-jobs';
+
+// Hergebruik van embeddings bij herverwerken (content hash per chunk)
+export {
+  computeChunkHash,
+  loadReusableChunks,
+  embedChunksIncrementally
+} from './chunk-reuse-service';
+
+// Bulk import (ZIP / map, duplicaat check op content hash)
+export { importDocuments } from './document-import-service';
+
+export type {
+  DocumentImportFileResult,
+  DocumentImportReport,
+  DocumentImportStatus
+} from './document-import';
+
+// Document extractors (PDF, DOCX, HTML, Markdown, TXT, CSV)
+export {
+  extractDocument,
+  registerExtractor,
+  getExtractor
+} from './extractors';
+
+export type {
+  DocumentExtractor,
+  ExtractedPage,
+  ExtractionResult
+} from './extractors';
+
+export {
+  SUPPORTED_DOCUMENT_TYPES,
+  resolveDocumentMimeType,
+  isSupportedDocument
+} from './document-types';
+
 // Embeddings
 export {
   generateEmbedding,
@@ -85,6 +172,50 @@ export type {
   QueryExpansionResult
 } from './conversation-context';
 
+// Per-tenant query dictionary (synoniemen + rewrites)
+export {
+  applyQueryDictionary,
+  parseQueryDictionaryCsv,
+  serializeQueryDictionaryCsv
+} from './query-dictionary';
+
+export type {
+  QueryDictionaryEntry,
+  QueryDictionaryEntryInput,
+  QueryDictionaryResult
+} from './query-dictionary';
+
+export {
+  getQueryDictionary,
+  clearQueryDictionaryCache
+} from './query-dictionary-service';
+
+// Hybrid search settings (RRF gewichten per tenant)
+export {
+  DEFAULT_HYBRID_SEARCH_SETTINGS,
+  resolveHybridSearchSettings,
+  getDefaultSearchTextConfig
+} from './search-settings';
+
+export type { HybridSearchSettings } from './search-settings';
+
+// Answer cache (veelgestelde vragen)
+export {
+  lookupCachedAnswer,
+  storeCachedAnswer,
+  invalidateAnswerCache,
+  normalizeQuestion
+} from './answer-cache';
+
+export type { CachedAnswer, AnswerCacheLookup } from './answer-cache';
+
+export {
+  DEFAULT_ANSWER_CACHE_SETTINGS,
+  resolveAnswerCacheSettings
+} from './answer-cache-settings';
+
+export type { AnswerCacheSettings } from './answer-cache-settings';
+
 // Types
 export type {
   Document,
@@ -106,3 +237,20 @@ export {
   EMBEDDING_MODELS,
   DEFAULT_EMBEDDING_MODEL
 } from './types';
+
+// Website crawler (crawl bronnen, change detection)
+export {
+  listCrawlSources,
+  createCrawlSource,
+  crawlSource,
+  runDueCrawls
+} from './crawl-sources-service';
+
+export { crawlWebsite } from './web-crawler';
+
+export type {
+  CrawlPage,
+  CrawlRunStats,
+  CrawlSource,
+  CrawlSourceInput
+} from './crawl-sources';
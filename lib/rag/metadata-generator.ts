@@ -13,7 +13,7 @@
  * te matchen met formele documenttekst.
  */
 
-import OpenAI from 'openai';
+import { getLLMProvider } from '@/lib/bot/providers';
 import { EnhancedChunkMetadata } from './types';
 
 // ========================================
@@ -37,10 +37,8 @@ export interface BatchMetadataResult {
 // CONSTANTS
 // ========================================
 
-// GPT-4o-mini pricing (goedkoop voor metadata generatie)
+// GPT-4o-mini (goedkoop voor metadata generatie, prijs via LLM provider)
 const MODEL = 'gpt-4o-mini';
-const INPUT_COST_PER_1M = 0.15;   // $0.15 per 1M input tokens
-const OUTPUT_COST_PER_1M = 0.60;  // $0.60 per 1M output tokens
 
 // HR-gerelateerde topics voor categorisatie
 const HR_TOPICS = [
@@ -66,23 +64,6 @@ const HR_TOPICS = [
   'ouderschapsverlof'
 ];
 
-// ========================================
-// OPENAI CLIENT
-// ========================================
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is not set');
-    }
-    openaiClient = new OpenAI({ apiKey });
-  }
-  return openaiClient;
-}
-
 // ========================================
 // METADATA GENERATION
 // ========================================
@@ -98,7 +79,7 @@ export async function generateChunkMetadata(
   chunkContent: string,
   documentContext?: string
 ): Promise<MetadataGenerationResult> {
-  const client = getOpenAIClient();
+  const provider = getLLMProvider();
 
   const systemPrompt = `Je bent een HR-documentatie specialist. Analyseer de gegeven tekst en genereer metadata.
 
@@ -123,24 +104,23 @@ OUTPUT FORMAT (JSON):
 ${chunkContent}`;
 
   try {
-    const response = await client.chat.completions.create({
+    const response = await provider.chat({
       model: MODEL,
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt }
       ],
       temperature: 0.3,  // Lage temperature voor consistente output
-      response_format: { type: 'json_object' }
+      responseFormat: 'json_object',
+      purpose: 'chunk-metadata'
     });
 
-    const content = response.choices[0].message.content || '{}';
+    const content = response.content || '{}';
     const parsed = JSON.parse(content);
 
-    // Token usage en kosten
-    const inputTokens = response.usage?.prompt_tokens || 0;
-    const outputTokens = response.usage?.completion_tokens || 0;
-    const cost = (inputTokens / 1_000_000) * INPUT_COST_PER_1M +
-                 (outputTokens / 1_000_000) * OUTPUT_COST_PER_1M;
+    // Token usage en kosten (via provider)
+    const { inputTokens, outputTokens } = response.usage;
+    const cost = response.cost.totalCost;
 
     // Valideer en filter topics
     const validTopics = (parsed.topics || [])
@@ -3,28 +3,40 @@
  * SUPABASE RAG - Document Processor
  * ========================================
  *
- * Verwerkt PDF uploads:
- * 1. Extraheert tekst per pagina
+ * Verwerkt document uploads:
+ * 1. Extraheert tekst per pagina (of sectie)
  * 2. Chunked de content
  * 3. Genereert embeddings
  * 4. Slaat op in Supabase
  *
- * Ondersteunde formaten:
- * - PDF (.pdf)
+ * Ondersteunde formaten (zie lib/rag/extractors):
+ * - PDF (.pdf) - echte paginanummers
+ * - Word (.docx), HTML, Markdown, TXT en CSV - secties met ankers
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { smartChunkDocument, chunkDocument } from './chunking';
 import { generateEmbeddingsBatch } from './embeddings';
 import { generateMetadataBatch, isMetadataGenerationEnabled } from './metadata-generator';
-import { sanitizeText, validateForEmbedding } from './text-sanitizer';
-import { Document, ProcessingResult, EnhancedChunkMetadata, SmartChunkingOptions, StructuredChunk } from './types';
+import { validateForEmbedding } from './text-sanitizer';
+import { Document, ProcessingResult, EnhancedChunkMetadata, SmartChunkingOptions, StructuredChunk, ChunkPosition } from './types';
+import { invalidateAnswerCache } from './answer-cache';
+import {
+  archiveDocumentVersion,
+  getNextDocumentVersion,
+  recordDocumentVersion,
+  restoreDocumentVersion
+} from './document-versions-service';
+import { extractDocument, type ExtractedPage, type ExtractionResult } from './extractors';
+import { resolveDocumentMimeType } from './document-types';
+import { computeContentHash, enqueueDocumentReprocessing } from './document-jobs-service';
 import { getDocumentsBucket, ensureBucketExists } from '../admin/storage-service';
 import {
   startDocumentProcessing,
   updateProcessingStatus,
   completeDocumentProcessing,
-  failDocumentProcessing
+  failDocumentProcessing,
+  type ProcessingLogInput
 } from '../admin/document-processing-logger';
 
 // ========================================
@@ -75,103 +87,167 @@ function getSupabaseClient(): SupabaseClient {
 }
 
 // ========================================
-// PDF TEXT EXTRACTION
+// SECTION LOCATIONS
 // ========================================
 
 /**
- * Result type voor PDF extractie met echte page count
+ * Vertaalt het pageNumber van een chunk naar de locatie in de bron.
+ * Gepagineerde bronnen (PDF): de echte pagina.
+ * Overige bronnen: geen page_number, wel het sectie anker + kop voor citations.
+ * ocr = true als de tekst van de pagina via OCR herkend is.
  */
-interface PDFExtractionResult {
-  pages: Array<{ pageNumber: number; text: string }>;
-  totalPages: number;  // Echte page count van de PDF
+export function createChunkLocator(extraction: ExtractionResult) {
+  const sections = new Map(extraction.pages.map(page => [page.pageNumber, page]));
+
+  return (pageNumber?: number): {
+    pageNumber: number | null;
+    anchor?: string;
+    sectionTitle?: string;
+    ocr?: boolean;
+  } => {
+    const section = pageNumber !== undefined ? sections.get(pageNumber) : undefined;
+    const ocr = section?.ocr || undefined;
+
+    if (extraction.paginated) {
+      return { pageNumber: pageNumber ?? null, ocr };
+    }
+
+    return {
+      pageNumber: null,
+      anchor: section?.anchor,
+      sectionTitle: section?.sectionTitle,
+      ocr
+    };
+  };
 }
 
+export type ChunkLocator = ReturnType<typeof createChunkLocator>;
+
 /**
- * Extraheert tekst uit een PDF buffer, PER PAGINA met echte paginanummers.
- *
- * Gebruikt pdf-parse met custom page rendering om tekst per pagina te extraheren.
- * Dit is compatible met Node.js/Next.js server-side rendering.
+ * Chunking instellingen voor de document processing log
  */
-async function extractTextFromPDF(
-  buffer: Buffer
-): Promise<PDFExtractionResult> {
-  console.log('📖 [Processor] Parsing PDF with per-page extraction...');
-
-  // Import pdf-parse dynamically to avoid issues with Next.js bundling
-  // eslint-disable-next-line @typescript-eslint/no-require-imports
-  const pdfParse = require('pdf-parse');
-
-  // Collect pages during parsing using custom page render
-  const pages: Array<{ pageNumber: number; text: string }> = [];
-  let currentPage = 0;
-
-  // Custom page render function to extract text per page
-  const pagerender = async (pageData: { getTextContent: () => Promise<{ items: Array<{ str?: string; transform?: number[]; hasEOL?: boolean }> }> }) => {
-    currentPage++;
-    const pageNum = currentPage;
-
-    try {
-      const textContent = await pageData.getTextContent();
-
-      // Combine all text items from the page
-      // Preserve spacing by checking position changes
-      let pageText = '';
-      let lastY: number | null = null;
-
-      for (const item of textContent.items) {
-        if (item.str !== undefined) {
-          const currentY = item.transform ? item.transform[5] : 0;
-
-          // Add newline when moving to a new line
-          if (lastY !== null && Math.abs(currentY - lastY) > 5) {
-            pageText += '\n';
-          } else if (pageText.length > 0 && !pageText.endsWith(' ') && !pageText.endsWith('\n')) {
-            pageText += ' ';
-          }
-
-          pageText += item.str;
-          lastY = currentY;
-
-          if (item.hasEOL) {
-            pageText += '\n';
-          }
-        }
-      }
-
-      const trimmed = pageText.trim();
-      if (trimmed.length > 0) {
-        // Sanitize text to remove problematic characters that cause "unknown token" errors
-        const sanitized = sanitizeText(trimmed);
-        if (sanitized.length > 0) {
-          pages.push({
-            pageNumber: pageNum,
-            text: sanitized
-          });
-          if (sanitized.length < trimmed.length) {
-            console.log(`   Page ${pageNum}: sanitized ${trimmed.length - sanitized.length} chars`);
-          }
-        }
-      }
+export function getChunkingLogOptions(): Pick<ProcessingLogInput, 'chunkingMethod' | 'chunkingOptions'> {
+  if (!isSmartChunkingEnabled()) {
+    return { chunkingMethod: 'legacy' };
+  }
 
-      return trimmed;
-    } catch (pageError) {
-      console.warn(`⚠️ [Processor] Could not extract text from page ${pageNum}:`, pageError);
-      return '';
+  const smartOptions = getSmartChunkingOptions();
+  return {
+    chunkingMethod: 'smart',
+    chunkingOptions: {
+      structureDetection: smartOptions.enableStructureDetection,
+      semanticChunking: smartOptions.enableSemanticChunking,
+      contextHeaders: smartOptions.enableContextHeaders,
+      smartBoundaries: smartOptions.enableSmartBoundaries
     }
   };
+}
 
-  // Parse PDF with custom page renderer
-  const pdfData = await pdfParse(buffer, { pagerender });
-  const totalPages = pdfData.numpages;
+// ========================================
+// PIPELINE STEPS
+// ========================================
+// Gedeeld door processDocument en de document worker
+// (document-worker.ts), die dezelfde stappen los uitvoert.
+
+export interface ChunkedContent {
+  contents: string[];           // Met context header ervoor (smart chunking)
+  positions: ChunkPosition[];
+  method: 'smart' | 'legacy';
+  cost: number;                 // Semantic chunking kosten
+  tokens: number;
+}
 
-  console.log(`📄 [Processor] PDF has ${totalPages} pages`);
-  console.log(`✅ [Processor] Extracted text from ${pages.length} of ${totalPages} pages`);
+/**
+ * Chunked de geëxtraheerde pagina's (Smart Chunking of Legacy)
+ *
+ * @param options - Expliciete smart chunking opties (QA chunk sets),
+ *                  over de env instellingen heen; altijd smart chunking
+ */
+export async function chunkExtractedPages(
+  pages: ExtractedPage[],
+  filename: string,
+  options?: Partial<SmartChunkingOptions>
+): Promise<ChunkedContent> {
+  if (options || isSmartChunkingEnabled()) {
+    console.log('🧠 [Processor] Using SMART CHUNKING (all 4 options)');
+    const smartResult = await smartChunkDocument(pages, filename, { ...getSmartChunkingOptions(), ...options });
+
+    console.log(`✅ [Processor] Smart chunking: ${smartResult.chunks.length} chunks, ${smartResult.structuresDetected} structures`);
+    console.log(`💵 [Processor] Semantic chunking cost: $${smartResult.cost.toFixed(4)}`);
 
-  if (pages.length === 0) {
-    throw new Error('No text content could be extracted from PDF');
+    return {
+      // Content met context header prepended
+      contents: smartResult.chunks.map(chunk =>
+        chunk.contextHeader ? `${chunk.contextHeader}\n\n${chunk.content}` : chunk.content
+      ),
+      positions: smartResult.chunks.map(chunk => ({
+        pageNumber: chunk.pageNumber,
+        chunkIndex: chunk.chunkIndex,
+        startChar: chunk.metadata.startChar,
+        endChar: chunk.metadata.endChar,
+        wordCount: chunk.metadata.wordCount,
+        structureType: chunk.metadata.structureType,
+        structurePath: chunk.metadata.structurePath,
+        contextHeader: chunk.contextHeader
+      })),
+      method: 'smart',
+      cost: smartResult.cost,
+      tokens: smartResult.tokensUsed
+    };
   }
 
-  return { pages, totalPages };
+  console.log('📦 [Processor] Using LEGACY chunking');
+  const legacyChunks = chunkDocument(pages);
+  console.log(`✅ [Processor] Legacy chunking: ${legacyChunks.length} chunks`);
+
+  return {
+    contents: legacyChunks.map(c => c.content),
+    positions: legacyChunks.map(chunk => ({
+      pageNumber: chunk.pageNumber,
+      chunkIndex: chunk.chunkIndex,
+      startChar: chunk.metadata.startChar,
+      endChar: chunk.metadata.endChar,
+      wordCount: chunk.metadata.wordCount
+    })),
+    method: 'legacy',
+    cost: 0,
+    tokens: 0
+  };
+}
+
+/**
+ * Rij voor document_chunks
+ */
+export function buildChunkRecord(
+  target: { tenantId: string; documentId: string; version: number; locateChunk: ChunkLocator },
+  content: string,
+  position: ChunkPosition,
+  embedding: number[],
+  enhancedMetadata: EnhancedChunkMetadata = {}
+) {
+  const location = target.locateChunk(position.pageNumber);
+
+  return {
+    tenant_id: target.tenantId,
+    document_id: target.documentId,
+    content,
+    embedding: `[${embedding.join(',')}]`,
+    page_number: location.pageNumber,
+    chunk_index: position.chunkIndex,
+    metadata: {
+      startChar: position.startChar,
+      endChar: position.endChar,
+      wordCount: position.wordCount,
+      structureType: position.structureType,
+      structurePath: position.structurePath,
+      contextHeader: position.contextHeader,
+      anchor: location.anchor,
+      sectionTitle: location.sectionTitle,
+      ocr: location.ocr,
+      documentVersion: target.version,
+      ...enhancedMetadata     // summary, keywords, topics, alternativeTerms
+    }
+  };
 }
 
 // ========================================
@@ -179,12 +255,14 @@ async function extractTextFromPDF(
 // ========================================
 
 /**
- * Verwerkt een PDF bestand en indexeert het in de RAG database
+ * Verwerkt een document en indexeert het in de RAG database
  *
  * @param tenantId - Tenant identifier
  * @param filename - Naam van het bestand
  * @param fileBuffer - Buffer met de file content
  * @param filePath - Optioneel pad in Supabase Storage
+ * @param tenantProductId - Optioneel product waar het document bij hoort
+ * @param mimeType - MIME type van de upload (anders bepaald op extensie)
  * @returns Processing resultaat met document ID en stats
  */
 export async function processDocument(
@@ -192,35 +270,42 @@ export async function processDocument(
   filename: string,
   fileBuffer: Buffer,
   filePath?: string,
-  tenantProductId?: string
+  tenantProductId?: string,
+  mimeType?: string
 ): Promise<ProcessingResult> {
   const supabase = getSupabaseClient();
+  const resolvedMimeType = resolveDocumentMimeType(filename, mimeType);
+
+  if (!resolvedMimeType) {
+    return {
+      success: false,
+      chunksCreated: 0,
+      totalTokens: 0,
+      totalCost: 0,
+      error: `Unsupported document type: ${mimeType || filename}`
+    };
+  }
 
   console.log('\n📄 [Processor] ========== PROCESSING DOCUMENT ==========');
   console.log('📁 [Processor] File:', filename);
   console.log('🏢 [Processor] Tenant:', tenantId);
   if (tenantProductId) console.log('📦 [Processor] Product:', tenantProductId);
   console.log('📦 [Processor] Size:', (fileBuffer.length / 1024).toFixed(1), 'KB');
+  console.log('🏷️  [Processor] Type:', resolvedMimeType);
 
   let documentId: string | undefined;
+  let storedFilePath = filePath;
   let processingLogId: string | null = null;
 
   // Start document processing log
   const smartChunkingEnabled = isSmartChunkingEnabled();
-  const smartOptions = smartChunkingEnabled ? getSmartChunkingOptions() : undefined;
 
   processingLogId = await startDocumentProcessing({
     tenantId,
     filename,
     fileSizeBytes: fileBuffer.length,
-    mimeType: 'application/pdf',
-    chunkingMethod: smartChunkingEnabled ? 'smart' : 'legacy',
-    chunkingOptions: smartOptions ? {
-      structureDetection: smartOptions.enableStructureDetection,
-      semanticChunking: smartOptions.enableSemanticChunking,
-      contextHeaders: smartOptions.enableContextHeaders,
-      smartBoundaries: smartOptions.enableSmartBoundaries
-    } : undefined
+    mimeType: resolvedMimeType,
+    ...getChunkingLogOptions()
   });
 
   try {
@@ -233,6 +318,8 @@ export async function processDocument(
         filename,
         file_path: filePath,
         file_size: fileBuffer.length,
+        mime_type: resolvedMimeType,
+        content_hash: computeContentHash(fileBuffer),
         processing_status: 'processing'
       })
       .select()
@@ -248,18 +335,18 @@ export async function processDocument(
       await updateProcessingStatus(processingLogId, 'parsing');
     }
 
-    // 1b. Upload PDF to Supabase Storage (tenant-specific bucket)
+    // 1b. Upload bestand to Supabase Storage (tenant-specific bucket)
     const bucketName = getDocumentsBucket(tenantId);
     const storagePath = `documents/${documentId}/${filename}`;
-    console.log(`📤 [Processor] Uploading PDF to Storage: bucket=${bucketName}, path=${storagePath}`);
+    console.log(`📤 [Processor] Uploading file to Storage: bucket=${bucketName}, path=${storagePath}`);
 
     // Ensure bucket exists before uploading
-    await ensureBucketExists(bucketName, true);
+    await ensureBucketExists(bucketName, false);
 
     const { error: storageError } = await supabase.storage
       .from(bucketName)
       .upload(storagePath, fileBuffer, {
-        contentType: 'application/pdf',
+        contentType: resolvedMimeType,
         upsert: true
       });
 
@@ -267,19 +354,36 @@ export async function processDocument(
       console.warn('⚠️ [Processor] Storage upload failed:', storageError.message);
       // Continue processing - storage is optional enhancement
     } else {
-      console.log('✅ [Processor] PDF uploaded to Storage');
+      console.log('✅ [Processor] File uploaded to Storage');
       // Update document with file_path
       await supabase
         .from('documents')
         .update({ file_path: storagePath })
         .eq('id', documentId);
+      storedFilePath = storagePath;
     }
 
-    // 2. Extract text from PDF
-    const { pages, totalPages } = await extractTextFromPDF(fileBuffer);
+    // 2. Extract text (per pagina of sectie, afhankelijk van het formaat)
+    const extraction = await extractDocument(fileBuffer, filename, resolvedMimeType);
+    const { pages, totalPages } = extraction;
+    const locateChunk = createChunkLocator(extraction);
 
     if (pages.length === 0) {
-      throw new Error('No text content could be extracted from PDF');
+      throw new Error(`No text content could be extracted from ${filename}`);
+    }
+
+    // OCR gebruik (gescande PDF pagina's) vastleggen in de processing log
+    if (extraction.ocr) {
+      const ocrPages = pages.filter(page => page.ocr).length;
+      console.log(`🔍 [Processor] OCR: ${ocrPages} pages in ${extraction.ocr.durationMs}ms`);
+
+      if (processingLogId) {
+        await updateProcessingStatus(processingLogId, 'parsing', {
+          ocrPages,
+          ocrDurationMs: extraction.ocr.durationMs,
+          ocrEngine: extraction.ocr.engine
+        });
+      }
     }
 
     // 3. Chunk de content (Smart Chunking of Legacy)
@@ -292,77 +396,17 @@ export async function processDocument(
       });
     }
 
-    let chunkContents: string[];
-    let chunkMetadata: Array<{
-      pageNumber?: number;
-      chunkIndex: number;
-      startChar: number;
-      endChar: number;
-      wordCount: number;
-      structureType?: string;
-      structurePath?: string[];
-      contextHeader?: string;
-    }>;
-    let chunkingCost = 0;
-    let chunkingTokens = 0;
-
-    if (isSmartChunkingEnabled()) {
-      // Smart Chunking met alle 4 opties
-      console.log('🧠 [Processor] Using SMART CHUNKING (all 4 options)');
-      const smartOptions = getSmartChunkingOptions();
-
-      const smartResult = await smartChunkDocument(pages, filename, smartOptions);
-
-      if (smartResult.chunks.length === 0) {
-        throw new Error('No chunks could be created from PDF content');
-      }
-
-      // Extract content met context header prepended
-      chunkContents = smartResult.chunks.map(chunk => {
-        if (chunk.contextHeader) {
-          return `${chunk.contextHeader}\n\n${chunk.content}`;
-        }
-        return chunk.content;
-      });
-
-      chunkMetadata = smartResult.chunks.map(chunk => ({
-        pageNumber: chunk.pageNumber,
-        chunkIndex: chunk.chunkIndex,
-        startChar: chunk.metadata.startChar,
-        endChar: chunk.metadata.endChar,
-        wordCount: chunk.metadata.wordCount,
-        structureType: chunk.metadata.structureType,
-        structurePath: chunk.metadata.structurePath,
-        contextHeader: chunk.contextHeader
-      }));
-
-      chunkingCost = smartResult.cost;
-      chunkingTokens = smartResult.tokensUsed;
-
-      console.log(`✅ [Processor] Smart chunking: ${smartResult.chunks.length} chunks, ${smartResult.structuresDetected} structures`);
-      console.log(`💵 [Processor] Semantic chunking cost: $${chunkingCost.toFixed(4)}`);
-
-    } else {
-      // Legacy chunking
-      console.log('📦 [Processor] Using LEGACY chunking');
-      const legacyChunks = chunkDocument(pages);
-
-      if (legacyChunks.length === 0) {
-        throw new Error('No chunks could be created from PDF content');
-      }
+    const chunked = await chunkExtractedPages(pages, filename);
 
-      chunkContents = legacyChunks.map(c => c.content);
-      chunkMetadata = legacyChunks.map(chunk => ({
-        pageNumber: chunk.pageNumber,
-        chunkIndex: chunk.chunkIndex,
-        startChar: chunk.metadata.startChar,
-        endChar: chunk.metadata.endChar,
-        wordCount: chunk.metadata.wordCount
-      }));
-
-      console.log(`✅ [Processor] Legacy chunking: ${legacyChunks.length} chunks`);
+    if (chunked.contents.length === 0) {
+      throw new Error('No chunks could be created from document content');
     }
 
+    const chunkContents = chunked.contents;
+    const chunkMetadata = chunked.positions;
+    const chunkingCost = chunked.cost;
+    const chunkingTokens = chunked.tokens;
+
     // 4. Genereer AI metadata (optioneel - additioneel aan smart chunking)
     let chunkMetadataMap = new Map<number, EnhancedChunkMetadata>();
     let metadataCost = 0;
@@ -411,28 +455,10 @@ export async function processDocument(
     // 6. Sla chunks op in database
     console.log('\n💾 [Processor] Saving to database...');
 
-    const chunkRecords = chunkContents.map((content, idx) => {
-      const enhancedMetadata = chunkMetadataMap.get(idx) || {};
-      const meta = chunkMetadata[idx];
-
-      return {
-        tenant_id: tenantId,
-        document_id: documentId,
-        content: content,
-        embedding: `[${embeddings[idx].join(',')}]`,
-        page_number: meta.pageNumber,
-        chunk_index: meta.chunkIndex,
-        metadata: {
-          startChar: meta.startChar,
-          endChar: meta.endChar,
-          wordCount: meta.wordCount,
-          structureType: meta.structureType,
-          structurePath: meta.structurePath,
-          contextHeader: meta.contextHeader,
-          ...enhancedMetadata     // summary, keywords, topics, alternativeTerms
-        }
-      };
-    });
+    const chunkTarget = { tenantId, documentId: doc.id, version: doc.version ?? 1, locateChunk };
+    const chunkRecords = chunkContents.map((content, idx) =>
+      buildChunkRecord(chunkTarget, content, chunkMetadata[idx], embeddings[idx], chunkMetadataMap.get(idx))
+    );
 
     // Insert in batches van 50 (Supabase heeft limiet)
     const BATCH_SIZE = 50;
@@ -454,12 +480,30 @@ export async function processDocument(
     await supabase
       .from('documents')
       .update({
-        total_pages: totalPages,  // Echte page count van PDF
+        total_pages: totalPages,  // Echte page count (PDF) of aantal secties
         total_chunks: chunkContents.length,
         processing_status: 'completed'
       })
       .eq('id', documentId);
 
+    // Versie historie (tekst voor de diff met latere versies)
+    await recordDocumentVersion({
+      documentId: doc.id,
+      tenantId,
+      version: doc.version ?? 1,
+      filename,
+      filePath: storedFilePath,
+      fileSize: fileBuffer.length,
+      mimeType: resolvedMimeType,
+      totalPages,
+      totalChunks: chunkContents.length,
+      extractedText: pages.map(page => page.text).join('\n\n'),
+      contentHash: doc.content_hash ?? computeContentHash(fileBuffer)
+    });
+
+    // Gecachte antwoorden kunnen nu achterhaald zijn
+    await invalidateAnswerCache(tenantId);
+
     const finalCost = totalCost + metadataCost + chunkingCost;
 
     console.log('\n✅ [Processor] ========== PROCESSING COMPLETE ==========');
@@ -476,7 +520,7 @@ export async function processDocument(
     if (processingLogId) {
       const chunkSizes = chunkContents.map(c => c.length);
       await completeDocumentProcessing(processingLogId, {
-        totalPages: totalPages,  // Echte page count van PDF
+        totalPages: totalPages,  // Echte page count (PDF) of aantal secties
         chunksCreated: chunkContents.length,
         structuresDetected: smartChunkingEnabled ? (chunkMetadata.filter(m => m.structureType).length) : 0,
         avgChunkSize: Math.round(chunkSizes.reduce((sum, size) => sum + size, 0) / chunkSizes.length),
@@ -521,6 +565,9 @@ export async function processDocument(
           processing_error: errorMessage
         })
         .eq('id', documentId);
+
+      // Een deel van de chunks kan al opgeslagen (en dus doorzoekbaar) zijn
+      await invalidateAnswerCache(tenantId);
     }
 
     return {
@@ -565,6 +612,8 @@ export async function deleteDocument(
     return false;
   }
 
+  await invalidateAnswerCache(tenantId);
+
   console.log('✅ [Processor] Document deleted:', documentId);
   return true;
 }
@@ -620,200 +669,105 @@ export async function getDocument(
   return data;
 }
 
+// ========================================
+// DOCUMENT VERSIONS
+// ========================================
+
 /**
- * Herverwerkt een document (verwijder chunks en maak opnieuw)
+ * Uploadt een nieuwe versie van een bestaand document.
+ * De chunks van de huidige versie gaan naar het archief (rollback blijft
+ * mogelijk), de nieuwe versie wordt onder hetzelfde document ID in de
+ * wachtrij gezet en door de document worker verwerkt. Mislukt de
+ * verwerking, dan zet de worker de vorige versie terug.
  *
  * @param tenantId - Tenant identifier
- * @param documentId - Document ID
- * @param fileBuffer - Nieuwe file buffer
- * @returns Processing resultaat
+ * @param documentId - Bestaand document
+ * @param filename - Naam van het nieuwe bestand (mag afwijken)
+ * @param fileBuffer - Buffer met de file content
+ * @param mimeType - MIME type van de upload (anders bepaald op extensie)
+ * @returns Het nieuwe versienummer en de job
  */
-export async function reprocessDocument(
+export async function uploadDocumentVersion(
   tenantId: string,
   documentId: string,
-  fileBuffer: Buffer
-): Promise<ProcessingResult> {
+  filename: string,
+  fileBuffer: Buffer,
+  mimeType?: string
+): Promise<{ version: number | null; jobId?: string; error?: string }> {
   const supabase = getSupabaseClient();
+  const failed = (error: string) => ({ version: null, error });
+
+  const resolvedMimeType = resolveDocumentMimeType(filename, mimeType);
+  if (!resolvedMimeType) {
+    return failed(`Unsupported document type: ${mimeType || filename}`);
+  }
 
-  // Haal document metadata op
   const document = await getDocument(tenantId, documentId);
   if (!document) {
-    return {
-      success: false,
-      chunksCreated: 0,
-      totalTokens: 0,
-      totalCost: 0,
-      error: 'Document not found'
-    };
+    return failed('Document not found');
+  }
+  if (document.processing_status === 'pending' || document.processing_status === 'processing') {
+    return failed('Document is still being processed');
   }
 
-  console.log('🔄 [Processor] Reprocessing document:', documentId);
+  // 1. Huidige versie archiveren
+  const archived = await archiveDocumentVersion(documentId);
+  if (archived.version === null) {
+    return failed(archived.error || 'Failed to archive current version');
+  }
 
-  // Verwijder bestaande chunks
-  const { error: deleteError } = await supabase
-    .from('document_chunks')
-    .delete()
-    .eq('document_id', documentId);
+  const previousVersion = archived.version;
+  const version = await getNextDocumentVersion(documentId, previousVersion);
+
+  console.log(`\n📄 [Processor] New version ${version} of ${document.filename} → ${filename}`);
+
+  // 2. Bestand opslaan naast de eerdere versies
+  const bucketName = getDocumentsBucket(tenantId);
+  const storagePath = `documents/${documentId}/v${version}/${filename}`;
+  await ensureBucketExists(bucketName, false);
 
-  if (deleteError) {
-    console.error('❌ [Processor] Failed to delete existing chunks:', deleteError);
+  const { error: storageError } = await supabase.storage
+    .from(bucketName)
+    .upload(storagePath, fileBuffer, {
+      contentType: resolvedMimeType,
+      upsert: true
+    });
+
+  // Zonder bestand geen nieuwe versie: citaties, rollback en diff hebben
+  // het bestand nodig. De huidige versie blijft staan.
+  if (storageError) {
+    console.error('❌ [Processor] Storage upload failed:', storageError.message);
+    await restoreDocumentVersion(tenantId, documentId, previousVersion, true);
+    return failed(`Storage upload failed: ${storageError.message}`);
   }
 
-  // Update status naar processing
+  // 3. Document wijst nu naar de nieuwe versie
   await supabase
     .from('documents')
     .update({
-      processing_status: 'processing',
-      processing_error: null
+      version,
+      filename,
+      file_path: storagePath,
+      file_size: fileBuffer.length,
+      mime_type: resolvedMimeType,
+      content_hash: computeContentHash(fileBuffer),
+      total_chunks: 0
     })
     .eq('id', documentId);
 
-  // Verwerk opnieuw (hergebruik bestaande logic met smart chunking)
-  try {
-    const { pages, totalPages } = await extractTextFromPDF(fileBuffer);
-
-    // Smart Chunking of Legacy
-    let chunkContents: string[];
-    let chunkMetadata: Array<{
-      pageNumber?: number;
-      chunkIndex: number;
-      startChar: number;
-      endChar: number;
-      wordCount: number;
-      structureType?: string;
-      structurePath?: string[];
-      contextHeader?: string;
-    }>;
-    let chunkingCost = 0;
-
-    if (isSmartChunkingEnabled()) {
-      console.log('🧠 [Processor] Using SMART CHUNKING for reprocess...');
-      const smartOptions = getSmartChunkingOptions();
-      const smartResult = await smartChunkDocument(pages, document.filename, smartOptions);
-
-      chunkContents = smartResult.chunks.map(chunk =>
-        chunk.contextHeader ? `${chunk.contextHeader}\n\n${chunk.content}` : chunk.content
-      );
-
-      chunkMetadata = smartResult.chunks.map(chunk => ({
-        pageNumber: chunk.pageNumber,
-        chunkIndex: chunk.chunkIndex,
-        startChar: chunk.metadata.startChar,
-        endChar: chunk.metadata.endChar,
-        wordCount: chunk.metadata.wordCount,
-        structureType: chunk.metadata.structureType,
-        structurePath: chunk.metadata.structurePath,
-        contextHeader: chunk.contextHeader
-      }));
-
-      chunkingCost = smartResult.cost;
-    } else {
-      const legacyChunks = chunkDocument(pages);
-      chunkContents = legacyChunks.map(c => c.content);
-      chunkMetadata = legacyChunks.map(chunk => ({
-        pageNumber: chunk.pageNumber,
-        chunkIndex: chunk.chunkIndex,
-        startChar: chunk.metadata.startChar,
-        endChar: chunk.metadata.endChar,
-        wordCount: chunk.metadata.wordCount
-      }));
-    }
-
-    // Genereer AI metadata (optioneel)
-    let chunkMetadataMap = new Map<number, EnhancedChunkMetadata>();
-    let metadataCost = 0;
-
-    if (isMetadataGenerationEnabled()) {
-      console.log('🧠 [Processor] Generating AI metadata for reprocess...');
-
-      const chunksWithIndex = chunkContents.map((content, idx) => ({
-        content,
-        index: idx
-      }));
-
-      const metadataResult = await generateMetadataBatch(
-        chunksWithIndex,
-        document.filename
-      );
-
-      chunkMetadataMap = metadataResult.results;
-      metadataCost = metadataResult.totalCost;
-    }
-
-    const { embeddings, totalTokens, totalCost, failedIndices } = await generateEmbeddingsBatch(
-      chunkContents
-    );
-
-    if (failedIndices.length > 0) {
-      console.warn(`⚠️ [Processor] ${failedIndices.length} chunks failed embedding generation during reprocess`);
-    }
-
-    const chunkRecords = chunkContents.map((content, idx) => {
-      const enhancedMetadata = chunkMetadataMap.get(idx) || {};
-      const meta = chunkMetadata[idx];
-
-      return {
-        tenant_id: tenantId,
-        document_id: documentId,
-        content: content,
-        embedding: `[${embeddings[idx].join(',')}]`,
-        page_number: meta.pageNumber,
-        chunk_index: meta.chunkIndex,
-        metadata: {
-          startChar: meta.startChar,
-          endChar: meta.endChar,
-          wordCount: meta.wordCount,
-          structureType: meta.structureType,
-          structurePath: meta.structurePath,
-          contextHeader: meta.contextHeader,
-          ...enhancedMetadata
-        }
-      };
-    });
-
-    const BATCH_SIZE = 50;
-    for (let i = 0; i < chunkRecords.length; i += BATCH_SIZE) {
-      const batch = chunkRecords.slice(i, i + BATCH_SIZE);
-      await supabase.from('document_chunks').insert(batch);
-    }
-
-    await supabase
-      .from('documents')
-      .update({
-        total_pages: totalPages,  // Echte page count van PDF
-        total_chunks: chunkContents.length,
-        processing_status: 'completed'
-      })
-      .eq('id', documentId);
-
-    const finalCost = totalCost + metadataCost + chunkingCost;
-    console.log('✅ [Processor] Reprocessing complete');
-
-    return {
-      success: true,
-      documentId,
-      chunksCreated: chunkContents.length,
-      totalTokens,
-      totalCost: finalCost,
-      metadataCost: metadataCost + chunkingCost
-    };
-
-  } catch (error) {
-    await supabase
-      .from('documents')
-      .update({
-        processing_status: 'failed',
-        processing_error: error instanceof Error ? error.message : 'Unknown error'
-      })
-      .eq('id', documentId);
+  // 4. In de wachtrij (zelfde pipeline als herverwerken)
+  const { jobId, error: jobError } = await enqueueDocumentReprocessing({
+    tenantId,
+    documentId,
+    reuseFromArchivedVersion: previousVersion
+  });
 
-    return {
-      success: false,
-      documentId,
-      chunksCreated: 0,
-      totalTokens: 0,
-      totalCost: 0,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
+  if (!jobId) {
+    console.warn(`⚠️ [Processor] Version ${version} could not be queued, restoring version ${previousVersion}`);
+    await restoreDocumentVersion(tenantId, documentId, previousVersion, true);
+    return failed(jobError || 'Could not queue new version');
   }
+
+  console.log(`📥 [Processor] Version ${version} of document ${documentId} queued (job ${jobId})`);
+  return { version, jobId };
 }
@@ -0,0 +1,90 @@
+/**
+ * ========================================
+ * QUERY DICTIONARY - Nederlandse HR basisset
+ * ========================================
+ *
+ * Optionele startset voor het per-tenant woordenboek.
+ * Wordt NIET automatisch toegepast: een admin laadt hem
+ * via de tenant pagina ("Basisset laden") en past hem daarna aan.
+ *
+ * Bevat alleen algemene Nederlandse HR termen, geen
+ * klant-specifieke CAO artikelen, jaartallen of branches.
+ *
+ * Kan veilig op zowel client als server geïmporteerd worden.
+ */
+
+import type { QueryDictionaryEntryInput } from './query-dictionary';
+
+const expansion = (trigger: string, terms: string[]): QueryDictionaryEntryInput => ({
+  entry_type: 'expansion',
+  language: 'nl',
+  trigger,
+  terms
+});
+
+const rewrite = (trigger: string, query: string): QueryDictionaryEntryInput => ({
+  entry_type: 'rewrite',
+  language: 'nl',
+  trigger,
+  rewrite: query
+});
+
+export const DUTCH_HR_STARTER_DICTIONARY: QueryDictionaryEntryInput[] = [
+  // Salaris / betaling
+  expansion('geld', ['salaris', 'betaaldata', 'loon', 'uitbetaling', 'betaling']),
+  expansion('betaald', ['salaris', 'betaaldata', 'loon', 'uitbetaling']),
+  expansion('salaris', ['betaaldata', 'loon', 'uitbetaling', 'salarisstrook']),
+  expansion('loon', ['salaris', 'betaaldata', 'uitbetaling']),
+  expansion('bonus', ['eenmalige uitkering', 'extra uitkering', 'eindejaarsuitkering']),
+  expansion('vakantiegeld', ['vakantietoeslag', '8%', 'vakantie uitkering']),
+
+  // Verlof / vakantie
+  expansion('vrij', ['verlof', 'vakantie', 'vrije dagen', 'vakantiedagen']),
+  expansion('vakantie', ['verlof', 'vakantiedagen', 'verlofaanvraag', 'vakantierechten']),
+  expansion('snipperdag', ['verlof', 'vakantiedagen', 'vrije dag']),
+  expansion('feestdag', ['feestdagen', 'vrije dag', 'nationale feestdag']),
+
+  // Ziekte
+  expansion('ziek', ['ziekmelding', 'ziekteverzuim', 'arbeidsongeschikt', 'verzuim']),
+  expansion('ziekmelden', ['ziekmelding', 'verzuimprotocol', 'ziektemelding']),
+  expansion('beter', ['betermelding', 'hersteld', 're-integratie']),
+
+  // Contract
+  expansion('contract', ['arbeidsovereenkomst', 'arbeidscontract', 'dienstverband']),
+  expansion('ontslag', ['beëindiging', 'opzegtermijn', 'einde dienstverband']),
+  expansion('opzeggen', ['opzegtermijn', 'beëindiging', 'ontslag']),
+  expansion('proeftijd', ['proefperiode', 'arbeidsovereenkomst']),
+
+  // Werktijden
+  expansion('werkuren', ['arbeidsduur', 'werktijd', 'arbeidstijd']),
+  expansion('overwerk', ['overuren', 'meeruren', 'compensatie']),
+
+  // Pensioen
+  expansion('pensioen', ['pensioenregeling', 'AOW', 'pensioenfonds', 'pensioenopbouw']),
+
+  // Mobiliteit
+  expansion('auto', ['leaseauto', 'lease regeling', 'mobiliteit']),
+  expansion('fiets', ['fietsregeling', 'fietsplan', 'mobiliteit']),
+  expansion('reiskosten', ['reiskostenvergoeding', 'woon-werkverkeer', 'kilometervergoeding']),
+  expansion('ov', ['openbaar vervoer', 'reiskosten', 'woon-werkverkeer']),
+
+  // Thuiswerken
+  expansion('thuiswerken', ['hybride werken', 'thuiswerkvergoeding', 'op afstand werken']),
+
+  // Ontwikkeling
+  expansion('opleiding', ['studie', 'ontwikkeling', 'cursus', 'studiekosten']),
+  expansion('cursus', ['opleiding', 'training', 'ontwikkeling']),
+
+  // Ouderschap
+  expansion('zwanger', ['zwangerschapsverlof', 'bevallingsverlof', 'ouderschapsverlof']),
+  expansion('baby', ['geboorteverlof', 'ouderschapsverlof', 'bevallingsverlof']),
+
+  // Directe rewrites van informele vragen
+  rewrite('wanneer krijg ik', 'betaaldata salaris uitbetaling'),
+  rewrite('wanneer word ik betaald', 'betaaldata salaris uitbetaling'),
+  rewrite('vrij nemen', 'verlofaanvraag vakantiedagen'),
+  rewrite('vakantie opnemen', 'verlofaanvraag vakantiedagen procedure'),
+  rewrite('ik ben ziek', 'ziekmelding procedure verzuim'),
+  rewrite('ziek melden', 'ziekmelding verzuimprotocol'),
+  rewrite('met pensioen', 'pensioenregeling AOW')
+];
@@ -0,0 +1,285 @@
+/**
+ * ========================================
+ * QUERY DICTIONARY SERVICE (SERVER-ONLY)
+ * ========================================
+ *
+ * CRUD en caching voor tenant_query_dictionary.
+ * - getQueryDictionary() wordt gebruikt door retrieveContext()
+ *   (gecached, gooit nooit: bij fouten een leeg woordenboek)
+ * - Elke wijziging leegt de cache voor die tenant
+ *
+ * Voor types en de matching logica, importeer uit './query-dictionary'.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  QueryDictionaryEntry,
+  QueryDictionaryEntryInput,
+  normalizeQueryDictionaryEntry
+} from './query-dictionary';
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key);
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// CACHE
+// ========================================
+
+interface CacheEntry {
+  entries: QueryDictionaryEntry[];
+  timestamp: number;
+}
+
+// In-memory cache, zelfde TTL als tenant-config (5 minuten)
+const dictionaryCache = new Map<string, CacheEntry>();
+const CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * Clear the query dictionary cache
+ * Wordt aangeroepen na elke wijziging zodat de chat direct de nieuwe entries gebruikt
+ */
+export function clearQueryDictionaryCache(tenantId?: string): void {
+  if (tenantId) {
+    dictionaryCache.delete(tenantId);
+  } else {
+    dictionaryCache.clear();
+  }
+}
+
+// ========================================
+// READ
+// ========================================
+
+/**
+ * Haal alle entries van een tenant op (ook inactieve, voor het admin panel)
+ */
+export async function listQueryDictionaryEntries(
+  tenantId: string
+): Promise<{ entries: QueryDictionaryEntry[]; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('tenant_query_dictionary')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('entry_type', { ascending: true })
+    .order('language', { ascending: true })
+    .order('trigger', { ascending: true });
+
+  if (error) {
+    console.error('❌ [QueryDictionary] Error listing entries:', error);
+    return { entries: [], error: error.message };
+  }
+
+  return { entries: (data || []) as QueryDictionaryEntry[] };
+}
+
+/**
+ * Haal de actieve entries op voor retrieval (gecached).
+ * Gooit nooit: bij een fout wordt zonder woordenboek gezocht.
+ */
+export async function getQueryDictionary(
+  tenantId: string,
+  bypassCache: boolean = false
+): Promise<QueryDictionaryEntry[]> {
+  if (!bypassCache) {
+    const cached = dictionaryCache.get(tenantId);
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      return cached.entries;
+    }
+  }
+
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('tenant_query_dictionary')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('❌ [QueryDictionary] Error loading dictionary:', error);
+      return [];
+    }
+
+    const entries = (data || []) as QueryDictionaryEntry[];
+    dictionaryCache.set(tenantId, { entries, timestamp: Date.now() });
+    return entries;
+  } catch (err) {
+    console.error('❌ [QueryDictionary] Unexpected error loading dictionary:', err);
+    return [];
+  }
+}
+
+// ========================================
+// WRITE
+// ========================================
+
+/**
+ * Maak een nieuwe entry aan
+ */
+export async function createQueryDictionaryEntry(
+  tenantId: string,
+  input: QueryDictionaryEntryInput
+): Promise<{ entry: QueryDictionaryEntry | null; error?: string }> {
+  const { entry: normalized, error: validationError } = normalizeQueryDictionaryEntry(input);
+  if (!normalized) {
+    return { entry: null, error: validationError };
+  }
+
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('tenant_query_dictionary')
+    .insert({ tenant_id: tenantId, ...normalized })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('❌ [QueryDictionary] Error creating entry:', error);
+    return {
+      entry: null,
+      error: error.code === '23505'
+        ? `Entry "${normalized.trigger}" (${normalized.entry_type}, ${normalized.language}) already exists`
+        : error.message
+    };
+  }
+
+  clearQueryDictionaryCache(tenantId);
+  console.log(`✅ [QueryDictionary] Created ${normalized.entry_type} "${normalized.trigger}" for ${tenantId}`);
+  return { entry: data as QueryDictionaryEntry };
+}
+
+/**
+ * Werk een bestaande entry bij
+ */
+export async function updateQueryDictionaryEntry(
+  tenantId: string,
+  entryId: string,
+  input: QueryDictionaryEntryInput
+): Promise<{ entry: QueryDictionaryEntry | null; error?: string }> {
+  const { entry: normalized, error: validationError } = normalizeQueryDictionaryEntry(input);
+  if (!normalized) {
+    return { entry: null, error: validationError };
+  }
+
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('tenant_query_dictionary')
+    .update(normalized)
+    .eq('id', entryId)
+    .eq('tenant_id', tenantId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ [QueryDictionary] Error updating entry:', error);
+    return { entry: null, error: error.message };
+  }
+
+  if (!data) {
+    return { entry: null, error: 'Entry not found' };
+  }
+
+  clearQueryDictionaryCache(tenantId);
+  return { entry: data as QueryDictionaryEntry };
+}
+
+/**
+ * Verwijder een entry
+ */
+export async function deleteQueryDictionaryEntry(
+  tenantId: string,
+  entryId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase
+    .from('tenant_query_dictionary')
+    .delete()
+    .eq('id', entryId)
+    .eq('tenant_id', tenantId);
+
+  if (error) {
+    console.error('❌ [QueryDictionary] Error deleting entry:', error);
+    return { success: false, error: error.message };
+  }
+
+  clearQueryDictionaryCache(tenantId);
+  return { success: true };
+}
+
+/**
+ * Importeer entries (bijv. uit CSV of de basisset)
+ *
+ * @param mode - 'merge': bestaande entries met dezelfde trigger/type/taal worden overschreven
+ *               'replace': alle bestaande entries van de tenant worden eerst verwijderd
+ */
+export async function importQueryDictionaryEntries(
+  tenantId: string,
+  inputs: QueryDictionaryEntryInput[],
+  mode: 'merge' | 'replace' = 'merge'
+): Promise<{ imported: number; error?: string }> {
+  const supabase = getSupabaseClient();
+
+  const rows: (Required<QueryDictionaryEntryInput> & { tenant_id: string })[] = [];
+  for (const input of inputs) {
+    const { entry, error } = normalizeQueryDictionaryEntry(input);
+    if (!entry) {
+      return { imported: 0, error };
+    }
+    rows.push({ tenant_id: tenantId, ...entry });
+  }
+
+  // Dedupliceer binnen de import zelf (laatste wint), anders faalt de upsert
+  const uniqueRows = Array.from(
+    new Map(rows.map(row => [`${row.entry_type}|${row.language}|${row.trigger}`, row])).values()
+  );
+
+  if (mode === 'replace') {
+    const { error: deleteError } = await supabase
+      .from('tenant_query_dictionary')
+      .delete()
+      .eq('tenant_id', tenantId);
+
+    if (deleteError) {
+      console.error('❌ [QueryDictionary] Error clearing dictionary:', deleteError);
+      return { imported: 0, error: deleteError.message };
+    }
+  }
+
+  if (uniqueRows.length > 0) {
+    const { error } = await supabase
+      .from('tenant_query_dictionary')
+      .upsert(uniqueRows, { onConflict: 'tenant_id,entry_type,language,trigger' });
+
+    if (error) {
+      console.error('❌ [QueryDictionary] Error importing entries:', error);
+      clearQueryDictionaryCache(tenantId);
+      return { imported: 0, error: error.message };
+    }
+  }
+
+  clearQueryDictionaryCache(tenantId);
+  console.log(`✅ [QueryDictionary] Imported ${uniqueRows.length} entries for ${tenantId} (${mode})`);
+  return { imported: uniqueRows.length };
+}
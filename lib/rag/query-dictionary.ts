@@ -0,0 +1,361 @@
+/**
+ * ========================================
+ * QUERY DICTIONARY - Synoniemen & Rewrites
+ * ========================================
+ *
+ * Per-tenant woordenboek dat informele vragen koppelt aan
+ * de termen die in de documenten staan:
+ * - expansion: "vrij" → verlof, vakantiedagen, vrije dagen
+ * - rewrite:   "ik ben ziek" → "ziekmelding procedure verzuim"
+ *
+ * De entries staan in tenant_query_dictionary (migration 028)
+ * en worden beheerd via de tenant pagina in het admin panel.
+ *
+ * Dit bestand bevat alleen types en pure functies, zodat de
+ * admin preview exact dezelfde logica gebruikt als retrieveContext().
+ * Kan veilig op zowel client als server geïmporteerd worden.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export type QueryDictionaryEntryType = 'expansion' | 'rewrite';
+
+/**
+ * Database row uit tenant_query_dictionary
+ */
+export interface QueryDictionaryEntry {
+  id: string;
+  tenant_id: string;
+  entry_type: QueryDictionaryEntryType;
+  language: string;            // Taalcode of 'all'
+  trigger: string;             // Lowercase woord of woordgroep
+  terms: string[];             // Alleen voor expansion
+  rewrite: string | null;      // Alleen voor rewrite
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Input voor aanmaken/bijwerken (en CSV import)
+ */
+export interface QueryDictionaryEntryInput {
+  entry_type: QueryDictionaryEntryType;
+  language?: string;
+  trigger: string;
+  terms?: string[];
+  rewrite?: string | null;
+  is_active?: boolean;
+}
+
+/**
+ * Een entry die afging voor een vraag
+ */
+export interface QueryDictionaryMatch {
+  entryType: QueryDictionaryEntryType;
+  trigger: string;
+  language: string;
+  output: string;              // Toegevoegde termen of alternatieve query
+}
+
+export interface QueryDictionaryResult {
+  expandedQuery: string;       // Vraag + alle expansion termen
+  alternativeQueries: string[];
+  expansionTerms: string[];    // Eerste 3 termen per expansion (voor logging)
+  matches: QueryDictionaryMatch[];
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+export const ALL_LANGUAGES = 'all';
+
+// Talen voor de language kolom (zelfde codes als SUPPORTED_LANGUAGES in query-translator)
+export const QUERY_DICTIONARY_LANGUAGES: { value: string; label: string }[] = [
+  { value: ALL_LANGUAGES, label: 'Alle talen' },
+  { value: 'nl', label: 'Nederlands' },
+  { value: 'en', label: 'English' },
+  { value: 'de', label: 'Deutsch' },
+  { value: 'fr', label: 'Français' },
+  { value: 'es', label: 'Español' },
+  { value: 'it', label: 'Italiano' },
+  { value: 'pl', label: 'Polski' },
+  { value: 'tr', label: 'Türkçe' },
+  { value: 'pt', label: 'Português' },
+  { value: 'ro', label: 'Română' },
+  { value: 'ar', label: 'العربية' },
+  { value: 'zh', label: '中文' }
+];
+
+export const QUERY_DICTIONARY_ENTRY_TYPES: { value: QueryDictionaryEntryType; label: string }[] = [
+  { value: 'expansion', label: 'Synoniemen (extra zoektermen)' },
+  { value: 'rewrite', label: 'Rewrite (alternatieve zoekopdracht)' }
+];
+
+// Scheidingsteken voor terms in de CSV value kolom
+const CSV_TERMS_SEPARATOR = '|';
+const CSV_HEADER = ['type', 'language', 'trigger', 'value', 'active'];
+
+// ========================================
+// NORMALIZATION
+// ========================================
+
+/**
+ * Normaliseer een input entry (lowercase trigger, lege termen eruit)
+ * Geeft een foutmelding terug als de entry ongeldig is.
+ */
+export function normalizeQueryDictionaryEntry(
+  input: QueryDictionaryEntryInput
+): { entry: Required<QueryDictionaryEntryInput> | null; error?: string } {
+  if (input.entry_type !== 'expansion' && input.entry_type !== 'rewrite') {
+    return { entry: null, error: `Invalid entry type: ${input.entry_type}` };
+  }
+
+  const trigger = (input.trigger || '').trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!trigger) {
+    return { entry: null, error: 'Trigger is required' };
+  }
+
+  const language = (input.language || ALL_LANGUAGES).trim().toLowerCase() || ALL_LANGUAGES;
+  const terms = Array.from(new Set((input.terms || []).map(t => t.trim()).filter(t => t.length > 0)));
+  const rewrite = input.rewrite?.trim() || null;
+
+  if (input.entry_type === 'expansion' && terms.length === 0) {
+    return { entry: null, error: `Expansion "${trigger}" needs at least one term` };
+  }
+
+  if (input.entry_type === 'rewrite' && !rewrite) {
+    return { entry: null, error: `Rewrite "${trigger}" needs a rewrite query` };
+  }
+
+  return {
+    entry: {
+      entry_type: input.entry_type,
+      language,
+      trigger,
+      terms: input.entry_type === 'expansion' ? terms : [],
+      rewrite: input.entry_type === 'rewrite' ? rewrite : null,
+      is_active: input.is_active !== false
+    }
+  };
+}
+
+// ========================================
+// MATCHING
+// ========================================
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Check of de trigger als los woord (of woordgroep) in de vraag staat.
+ * "ov" matcht dus wel "met het ov" maar niet "overwerk".
+ */
+export function triggerMatches(lowerQuestion: string, trigger: string): boolean {
+  const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(trigger)}($|[^\\p{L}\\p{N}])`, 'u');
+  return pattern.test(lowerQuestion);
+}
+
+/**
+ * Past het woordenboek toe op een zoekvraag.
+ *
+ * - Alleen actieve entries voor `language` of 'all'
+ * - Rewrites leveren een alternatieve zoekopdracht op
+ * - Expansions voegen termen toe aan de vraag en leveren een
+ *   alternatieve query op met de eerste 3 termen
+ *
+ * @param question - De (eventueel vertaalde) zoekvraag
+ * @param entries - Woordenboek entries van de tenant
+ * @param language - Taal van de zoekvraag (bijv. 'nl')
+ */
+export function applyQueryDictionary(
+  question: string,
+  entries: QueryDictionaryEntry[],
+  language: string
+): QueryDictionaryResult {
+  const lowerQuestion = question.toLowerCase();
+  const queryLanguage = language.toLowerCase();
+
+  const applicable = entries.filter(entry =>
+    entry.is_active &&
+    (entry.language === ALL_LANGUAGES || entry.language === queryLanguage) &&
+    triggerMatches(lowerQuestion, entry.trigger)
+  );
+
+  const matches: QueryDictionaryMatch[] = [];
+  const alternatives: string[] = [];
+  const expansions: string[] = [];
+  const expansionTerms: string[] = [];
+
+  // Rewrites eerst (meest specifieke alternatieven)
+  for (const entry of applicable.filter(e => e.entry_type === 'rewrite' && e.rewrite)) {
+    alternatives.push(entry.rewrite!);
+    matches.push({
+      entryType: 'rewrite',
+      trigger: entry.trigger,
+      language: entry.language,
+      output: entry.rewrite!
+    });
+  }
+
+  for (const entry of applicable.filter(e => e.entry_type === 'expansion' && e.terms.length > 0)) {
+    expansions.push(...entry.terms);
+    expansionTerms.push(...entry.terms.slice(0, 3));
+    alternatives.push(entry.terms.slice(0, 3).join(' '));
+    matches.push({
+      entryType: 'expansion',
+      trigger: entry.trigger,
+      language: entry.language,
+      output: entry.terms.join(', ')
+    });
+  }
+
+  const uniqueExpansions = [...new Set(expansions)];
+
+  return {
+    expandedQuery: uniqueExpansions.length > 0
+      ? `${question} ${uniqueExpansions.join(' ')}`
+      : question,
+    alternativeQueries: [...new Set(alternatives)],
+    expansionTerms: [...new Set(expansionTerms)],
+    matches
+  };
+}
+
+// ========================================
+// CSV IMPORT / EXPORT
+// ========================================
+// Formaat: type,language,trigger,value,active
+// - value bij expansion: termen gescheiden door |
+// - value bij rewrite:   de alternatieve zoekopdracht
+
+function escapeCsvField(value: string): string {
+  if (/[",\n\r]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Parse CSV tekst naar rijen (ondersteunt quotes, "" escapes en CRLF)
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Lege regels overslaan
+  return rows.filter(r => r.some(cell => cell.trim().length > 0));
+}
+
+/**
+ * Zet entries om naar CSV (met header)
+ */
+export function serializeQueryDictionaryCsv(
+  entries: (QueryDictionaryEntry | QueryDictionaryEntryInput)[]
+): string {
+  const lines = [CSV_HEADER.join(',')];
+
+  for (const entry of entries) {
+    const value = entry.entry_type === 'expansion'
+      ? (entry.terms || []).join(CSV_TERMS_SEPARATOR)
+      : entry.rewrite || '';
+
+    lines.push([
+      entry.entry_type,
+      entry.language || ALL_LANGUAGES,
+      entry.trigger,
+      value,
+      entry.is_active === false ? 'false' : 'true'
+    ].map(escapeCsvField).join(','));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse CSV naar entries. Ongeldige regels worden overgeslagen
+ * en als error teruggegeven (met regelnummer).
+ */
+export function parseQueryDictionaryCsv(text: string): {
+  entries: Required<QueryDictionaryEntryInput>[];
+  errors: string[];
+} {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const entries: Required<QueryDictionaryEntryInput>[] = [];
+  const errors: string[] = [];
+
+  if (rows.length === 0) {
+    return { entries, errors: ['CSV is empty'] };
+  }
+
+  // Header is optioneel
+  const hasHeader = rows[0][0]?.trim().toLowerCase() === 'type';
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const firstLineNumber = hasHeader ? 2 : 1;
+
+  dataRows.forEach((row, index) => {
+    const lineNumber = firstLineNumber + index;
+    const [type, language, trigger, value, active] = row.map(cell => cell.trim());
+    const entryType = (type || '').toLowerCase() as QueryDictionaryEntryType;
+
+    const { entry, error } = normalizeQueryDictionaryEntry({
+      entry_type: entryType,
+      language,
+      trigger: trigger || '',
+      terms: entryType === 'expansion' ? (value || '').split(CSV_TERMS_SEPARATOR) : [],
+      rewrite: entryType === 'rewrite' ? value : null,
+      is_active: !['false', '0', 'nee', 'no'].includes((active || '').toLowerCase())
+    });
+
+    if (!entry) {
+      errors.push(`Regel ${lineNumber}: ${error}`);
+      return;
+    }
+
+    entries.push(entry);
+  });
+
+  return { entries, errors };
+}
@@ -16,7 +16,7 @@
  * Kosten: ~$0.0005 per vertaling (GPT-4o-mini)
  */
 
-import OpenAI from 'openai';
+import { getLLMProvider } from '@/lib/bot/providers';
 
 // ========================================
 // TYPES
@@ -52,30 +52,9 @@ export const SUPPORTED_LANGUAGES: Record<string, string> = {
 // CONFIGURATION
 // ========================================
 
-// GPT-4o-mini pricing (per 1M tokens)
-const INPUT_COST_PER_1M = 0.15;   // $0.15 per 1M input tokens
-const OUTPUT_COST_PER_1M = 0.60;  // $0.60 per 1M output tokens
-
-// Model voor snelle, goedkope vertaling
+// Model voor snelle, goedkope vertaling (prijs via LLM provider)
 const TRANSLATION_MODEL = 'gpt-4o-mini';
 
-// ========================================
-// OPENAI CLIENT
-// ========================================
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is not set');
-    }
-    openaiClient = new OpenAI({ apiKey });
-  }
-  return openaiClient;
-}
-
 // ========================================
 // MAIN TRANSLATION FUNCTION
 // ========================================
@@ -98,10 +77,10 @@ export async function translateQueryIfNeeded(
   const targetLangName = SUPPORTED_LANGUAGES[documentLanguage] || 'Dutch';
 
   try {
-    const openai = getOpenAIClient();
+    const provider = getLLMProvider();
 
     // Combineer detectie en vertaling in één call voor efficiency
-    const response = await openai.chat.completions.create({
+    const response = await provider.chat({
       model: TRANSLATION_MODEL,
       temperature: 0.1, // Lage temperature voor consistente vertalingen
       messages: [
@@ -130,21 +109,19 @@ Response format (JSON only):
           content: query
         }
       ],
-      response_format: { type: 'json_object' }
+      responseFormat: 'json_object',
+      purpose: 'query-translation'
     });
 
-    const content = response.choices[0]?.message?.content;
+    const content = response.content;
     if (!content) {
       throw new Error('Empty response from translation API');
     }
 
     const result = JSON.parse(content);
 
-    // Bereken kosten
-    const inputTokens = response.usage?.prompt_tokens || 0;
-    const outputTokens = response.usage?.completion_tokens || 0;
-    const cost = (inputTokens / 1_000_000) * INPUT_COST_PER_1M +
-                 (outputTokens / 1_000_000) * OUTPUT_COST_PER_1M;
+    // Kosten komen van de provider
+    const cost = response.cost.totalCost;
 
     const latencyMs = Date.now() - startTime;
 
@@ -276,7 +253,5 @@ export async function translateQueryOptimized(
 // ========================================
 
 export {
-  TRANSLATION_MODEL,
-  INPUT_COST_PER_1M,
-  OUTPUT_COST_PER_1M
+  TRANSLATION_MODEL
 };
@@ -0,0 +1,111 @@
+/**
+ * ========================================
+ * RETRIEVAL CONFIG
+ * ========================================
+ *
+ * Expliciete configuratie voor retrieveContext(). Deze knoppen zaten
+ * vroeger als constants in context.ts (candidates voor reranking,
+ * minimale relevantie) of kwamen uit env vars (reranking via
+ * COHERE_API_KEY). QA experimenten geven per arm een eigen config mee;
+ * de chat routes gebruiken de defaults.
+ *
+ * Search overrides worden over de tenant search settings gelegd
+ * (zie search-settings.ts), zodat een experiment één gewicht of
+ * threshold kan variëren zonder de tenant te wijzigen.
+ *
+ * chunkSetId laat de search in een scratch chunk set zoeken in plaats
+ * van document_chunks: een QA arm met eigen chunking opties (migratie 051,
+ * lib/products/hr-bot/qa/chunk-sets.ts).
+ *
+ * Dit bestand kan veilig op zowel client als server geïmporteerd worden.
+ */
+
+import {
+  HybridSearchSettings,
+  SEARCH_WEIGHT_RANGE,
+  SEARCH_RRF_K_RANGE,
+  SEARCH_SIMILARITY_THRESHOLD_RANGE,
+  SEARCH_KEYWORD_WEIGHT_RANGE
+} from './search-settings';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface RetrievalConfig {
+  candidateTopK: number;          // Candidates per retriever vóór reranking
+  minRelevanceScore: number;      // Chunks onder deze score (na reranking) vallen af
+  rerankingEnabled: boolean;      // Alleen effectief als COHERE_API_KEY gezet is
+  searchOverrides: Partial<HybridSearchSettings>;  // Over de tenant search settings heen
+  chunkSetId: string | null;      // Scratch chunk set (QA run), null = document_chunks
+}
+
+// ========================================
+// DEFAULTS & LIMITS
+// ========================================
+
+export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
+  candidateTopK: 30,
+  minRelevanceScore: 0.10,
+  rerankingEnabled: true,
+  searchOverrides: {},
+  chunkSetId: null
+};
+
+export const RETRIEVAL_CANDIDATE_TOP_K_RANGE = { min: 5, max: 100 };
+export const RETRIEVAL_MIN_RELEVANCE_RANGE = { min: 0, max: 1 };
+
+const SEARCH_OVERRIDE_RANGES: Record<keyof HybridSearchSettings, { min: number; max: number }> = {
+  vectorWeight: SEARCH_WEIGHT_RANGE,
+  fulltextWeight: SEARCH_WEIGHT_RANGE,
+  rrfK: SEARCH_RRF_K_RANGE,
+  similarityThreshold: SEARCH_SIMILARITY_THRESHOLD_RANGE,
+  keywordWeight: SEARCH_KEYWORD_WEIGHT_RANGE
+};
+
+// ========================================
+// HELPERS
+// ========================================
+
+function isValidNumber(value: unknown): value is number {
+  return typeof value === 'number' && !Number.isNaN(value);
+}
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.min(range.max, Math.max(range.min, value));
+}
+
+/**
+ * Vul een (gedeeltelijke) config aan met de defaults.
+ * Waardes buiten bereik worden begrensd, ongeldige waardes genegeerd.
+ */
+export function resolveRetrievalConfig(
+  config: Partial<RetrievalConfig> | null | undefined
+): RetrievalConfig {
+  const defaults = DEFAULT_RETRIEVAL_CONFIG;
+  if (!config) return { ...defaults, searchOverrides: {} };
+
+  const searchOverrides: Partial<HybridSearchSettings> = {};
+  for (const key of Object.keys(SEARCH_OVERRIDE_RANGES) as (keyof HybridSearchSettings)[]) {
+    const value = config.searchOverrides?.[key];
+    if (isValidNumber(value)) {
+      searchOverrides[key] = clamp(key === 'rrfK' ? Math.round(value) : value, SEARCH_OVERRIDE_RANGES[key]);
+    }
+  }
+
+  return {
+    candidateTopK: isValidNumber(config.candidateTopK)
+      ? clamp(Math.round(config.candidateTopK), RETRIEVAL_CANDIDATE_TOP_K_RANGE)
+      : defaults.candidateTopK,
+    minRelevanceScore: isValidNumber(config.minRelevanceScore)
+      ? clamp(config.minRelevanceScore, RETRIEVAL_MIN_RELEVANCE_RANGE)
+      : defaults.minRelevanceScore,
+    rerankingEnabled: typeof config.rerankingEnabled === 'boolean'
+      ? config.rerankingEnabled
+      : defaults.rerankingEnabled,
+    searchOverrides,
+    chunkSetId: typeof config.chunkSetId === 'string' && config.chunkSetId
+      ? config.chunkSetId
+      : defaults.chunkSetId
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * ========================================
+ * HYBRID SEARCH SETTINGS
+ * ========================================
+ *
+ * Per-tenant instellingen voor de hybride zoekstap:
+ * - Vector retriever (search_documents_enhanced): similarity threshold
+ *   en het aandeel van de metadata keyword score
+ * - Full-text retriever (search_documents_fulltext): text search config
+ * - Reciprocal rank fusion: gewicht per retriever en de constante k
+ *
+ * De waardes staan op de tenants tabel (migration 029). NULL = standaard waarde.
+ *
+ * Dit bestand kan veilig op zowel client als server geïmporteerd worden.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface HybridSearchSettings {
+  vectorWeight: number;          // RRF gewicht vector retriever
+  fulltextWeight: number;        // RRF gewicht full-text retriever (0 = uit)
+  rrfK: number;                  // RRF constante: hoger = minder nadruk op top posities
+  similarityThreshold: number;   // Minimale cosine similarity voor vector candidates
+  keywordWeight: number;         // Aandeel metadata keyword score in de vector score (0-1)
+}
+
+/**
+ * Ruwe kolommen zoals ze op de tenants rij staan
+ */
+export interface TenantSearchSettingsColumns {
+  search_vector_weight?: number | null;
+  search_fulltext_weight?: number | null;
+  search_rrf_k?: number | null;
+  search_similarity_threshold?: number | null;
+  search_keyword_weight?: number | null;
+}
+
+// ========================================
+// DEFAULTS & LIMITS
+// ========================================
+
+export const DEFAULT_HYBRID_SEARCH_SETTINGS: HybridSearchSettings = {
+  vectorWeight: 1.0,
+  fulltextWeight: 1.0,
+  rrfK: 60,                  // Standaard waarde uit de RRF paper (Cormack et al.)
+  similarityThreshold: 0.45,
+  keywordWeight: 0.4
+};
+
+export const SEARCH_WEIGHT_RANGE = { min: 0, max: 5 };
+export const SEARCH_RRF_K_RANGE = { min: 1, max: 200 };
+export const SEARCH_SIMILARITY_THRESHOLD_RANGE = { min: 0, max: 1 };
+export const SEARCH_KEYWORD_WEIGHT_RANGE = { min: 0, max: 1 };
+
+// ========================================
+// TEXT SEARCH CONFIGS
+// ========================================
+// Moet gelijk blijven aan de CHECK op tenants.search_text_config
+
+export const SEARCH_TEXT_CONFIGS: { value: string; label: string }[] = [
+  { value: 'simple', label: 'Simple (geen stemming, exacte woorden)' },
+  { value: 'dutch', label: 'Nederlands' },
+  { value: 'english', label: 'English' },
+  { value: 'german', label: 'Deutsch' },
+  { value: 'french', label: 'Français' },
+  { value: 'spanish', label: 'Español' },
+  { value: 'italian', label: 'Italiano' },
+  { value: 'portuguese', label: 'Português' },
+  { value: 'romanian', label: 'Română' },
+  { value: 'turkish', label: 'Türkçe' }
+];
+
+// Zelfde mapping als search_config_for_language() in migration 029
+const LANGUAGE_TEXT_CONFIGS: Record<string, string> = {
+  nl: 'dutch',
+  en: 'english',
+  de: 'german',
+  fr: 'french',
+  es: 'spanish',
+  it: 'italian',
+  pt: 'portuguese',
+  ro: 'romanian',
+  tr: 'turkish'
+};
+
+/**
+ * Text search config die de database gebruikt als search_text_config leeg is
+ */
+export function getDefaultSearchTextConfig(documentLanguage: string | null | undefined): string {
+  return LANGUAGE_TEXT_CONFIGS[(documentLanguage || '').toLowerCase()] || 'simple';
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.min(range.max, Math.max(range.min, value));
+}
+
+function resolveNumber(
+  value: number | null | undefined,
+  fallback: number,
+  range: { min: number; max: number },
+  integer: boolean = false
+): number {
+  if (typeof value !== 'number' || Number.isNaN(value)) return fallback;
+  return clamp(integer ? Math.round(value) : value, range);
+}
+
+/**
+ * Zet de tenant kolommen om naar geldige search settings.
+ * Waardes buiten bereik worden begrensd, lege waardes vallen terug op de defaults.
+ */
+export function resolveHybridSearchSettings(
+  columns: TenantSearchSettingsColumns | null | undefined
+): HybridSearchSettings {
+  const defaults = DEFAULT_HYBRID_SEARCH_SETTINGS;
+  if (!columns) return { ...defaults };
+
+  return {
+    vectorWeight: resolveNumber(columns.search_vector_weight, defaults.vectorWeight, SEARCH_WEIGHT_RANGE),
+    fulltextWeight: resolveNumber(columns.search_fulltext_weight, defaults.fulltextWeight, SEARCH_WEIGHT_RANGE),
+    rrfK: resolveNumber(columns.search_rrf_k, defaults.rrfK, SEARCH_RRF_K_RANGE, true),
+    similarityThreshold: resolveNumber(
+      columns.search_similarity_threshold,
+      defaults.similarityThreshold,
+      SEARCH_SIMILARITY_THRESHOLD_RANGE
+    ),
+    keywordWeight: resolveNumber(columns.search_keyword_weight, defaults.keywordWeight, SEARCH_KEYWORD_WEIGHT_RANGE)
+  };
+}
@@ -10,42 +10,9 @@
  * Kosten: ~$0.08 per document (50K chars)
  */
 
-import OpenAI from 'openai';
+import { getLLMProvider, type LLMProvider } from '@/lib/bot/providers';
 import { SmartChunkingOptions } from './types';
 
-// ========================================
-// OPENAI CLIENT
-// ========================================
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY not configured');
-    }
-    openaiClient = new OpenAI({ apiKey });
-  }
-  return openaiClient;
-}
-
-// ========================================
-// COST TRACKING
-// ========================================
-
-// GPT-4o-mini pricing (per 1M tokens)
-const PRICING = {
-  'gpt-4o-mini': {
-    input: 0.15,   // $0.15 per 1M input tokens
-    output: 0.60   // $0.60 per 1M output tokens
-  },
-  'gpt-4o': {
-    input: 2.50,   // $2.50 per 1M input tokens
-    output: 10.00  // $10.00 per 1M output tokens
-  }
-};
-
 // ========================================
 // SEMANTIC CHUNKING PROMPT
 // ========================================
@@ -118,7 +85,7 @@ export async function semanticChunk(
   console.log(`🧠 [Semantic] Analyzing ${text.length} chars with ${model}...`);
 
   try {
-    const openai = getOpenAI();
+    const provider = getLLMProvider();
 
     // Voor hele lange documenten, verwerk in batches
     const maxCharsPerRequest = 15000; // ~4K tokens
@@ -137,7 +104,7 @@ export async function semanticChunk(
       const section = sections[i];
       console.log(`   Processing section ${i + 1}/${sections.length} (${section.length} chars)`);
 
-      const result = await processSection(openai, section, model);
+      const result = await processSection(provider, section, model);
 
       // Adjust chunk positions relative to full document
       const adjustedPositions = result.chunkPositions.map(pos => pos + cumulativeSectionStart);
@@ -178,7 +145,7 @@ export async function semanticChunk(
  * Verwerkt één sectie met de AI
  */
 async function processSection(
-  openai: OpenAI,
+  provider: LLMProvider,
   text: string,
   model: 'gpt-4o-mini' | 'gpt-4o'
 ): Promise<{
@@ -189,7 +156,7 @@ async function processSection(
 }> {
   const prompt = SEMANTIC_CHUNKING_PROMPT + text;
 
-  const response = await openai.chat.completions.create({
+  const response = await provider.chat({
     model,
     messages: [
       {
@@ -198,27 +165,21 @@ async function processSection(
       }
     ],
     temperature: 0.1, // Laag voor consistentie
-    max_tokens: Math.ceil(text.length / 2) + 500 // Iets meer dan input voor markers
+    maxOutputTokens: Math.ceil(text.length / 2) + 500, // Iets meer dan input voor markers
+    purpose: 'semantic-chunking'
   });
 
-  const outputText = response.choices[0]?.message?.content || text;
+  const outputText = response.content || text;
 
   // Parse chunks uit output with positions
   const { chunks, positions } = parseChunksFromOutputWithPositions(outputText, text.length);
 
-  // Bereken kosten
-  const inputTokens = response.usage?.prompt_tokens || 0;
-  const outputTokens = response.usage?.completion_tokens || 0;
-  const totalTokens = inputTokens + outputTokens;
-
-  const pricing = PRICING[model];
-  const cost = (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
-
+  // Kosten komen van de provider
   return {
     chunks,
     chunkPositions: positions,
-    cost,
-    tokensUsed: totalTokens
+    cost: response.cost.totalCost,
+    tokensUsed: response.usage.totalTokens
   };
 }
 
@@ -405,16 +366,17 @@ OUTPUT: JSON array van indices, bijv: [0, 1523, 3045, 4567]
 Alleen de array, geen uitleg.`;
 
   try {
-    const openai = getOpenAI();
+    const provider = getLLMProvider();
 
-    const response = await openai.chat.completions.create({
+    const response = await provider.chat({
       model,
       messages: [{ role: 'user', content: prompt }],
       temperature: 0.1,
-      max_tokens: 500
+      maxOutputTokens: 500,
+      purpose: 'boundary-detection'
     });
 
-    const outputText = response.choices[0]?.message?.content || '[]';
+    const outputText = response.content || '[]';
 
     // Parse JSON array
     const jsonMatch = outputText.match(/\[[\d,\s]+\]/);
@@ -422,16 +384,10 @@ Alleen de array, geen uitleg.`;
       ? JSON.parse(jsonMatch[0])
       : [0];
 
-    // Bereken kosten
-    const inputTokens = response.usage?.prompt_tokens || 0;
-    const outputTokens = response.usage?.completion_tokens || 0;
-    const pricing = PRICING[model];
-    const cost = (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
-
     return {
       boundaries,
-      cost,
-      tokensUsed: inputTokens + outputTokens
+      cost: response.cost.totalCost,
+      tokensUsed: response.usage.totalTokens
     };
 
   } catch (error) {
@@ -444,8 +400,3 @@ Alleen de array, geen uitleg.`;
   }
 }
 
-// ========================================
-// EXPORTS
-// ========================================
-
-export { PRICING as SEMANTIC_CHUNKING_PRICING };
@@ -12,9 +12,11 @@
  * - Secties: "§ 2.1", "Section 3.2"
  * - Genummerde items: "1.", "1.1", "1.1.1"
  * - Headers in CAPS
+ * - Tabellen: Markdown tabellen uit de extractors (zie tables.ts)
  */
 
 import { DocumentStructure } from './types';
+import { findMarkdownTables, type MarkdownTableBlock } from './tables';
 
 // ========================================
 // STRUCTURE PATTERNS
@@ -106,6 +108,11 @@ const STRUCTURE_PATTERNS = {
   }
 };
 
+/**
+ * Tabellen hangen onder het artikel/sectie waarin ze staan
+ */
+const TABLE_LEVEL = 4;
+
 // ========================================
 // MAIN DETECTION FUNCTION
 // ========================================
@@ -161,6 +168,13 @@ export function detectStructure(text: string): DocumentStructure[] {
     }
   }
 
+  // Tabellen: eigen begin en eind, binnen de omringende structuur
+  const tables = findMarkdownTables(text).map(block => createTableStructure(block, structures));
+  if (tables.length > 0) {
+    structures.push(...tables);
+    structures.sort((a, b) => a.startIndex - b.startIndex);
+  }
+
   console.log(`🏗️ [Structure] Detected ${structures.length} structure elements`);
 
   return structures;
@@ -253,6 +267,38 @@ function createStructureFromMatch(
   };
 }
 
+/**
+ * Maakt een 'table' structuur voor een Markdown tabel.
+ * Titel: de caption boven de tabel, anders de eerste header cellen.
+ *
+ * @param block - Tabel blok uit findMarkdownTables
+ * @param structures - Overige structuren (voor de parent, mag leeg zijn)
+ */
+export function createTableStructure(
+  block: MarkdownTableBlock,
+  structures: DocumentStructure[]
+): DocumentStructure {
+  const headerCells = (block.headerLines[0] || block.rowLines[0] || '')
+    .replace(/^\s*\||\|\s*$/g, '')
+    .split('|')
+    .map(cell => cell.trim())
+    .filter(cell => cell.length > 0);
+
+  const title = block.caption
+    || (headerCells.length > 0 ? headerCells.slice(0, 4).join(', ') : undefined);
+
+  return {
+    type: 'table',
+    identifier: 'Tabel',
+    title,
+    level: TABLE_LEVEL,
+    startIndex: block.startIndex,
+    endIndex: block.endIndex,
+    parent: findStructureAtPosition(structures.filter(s => s.type !== 'table'), block.startIndex),
+    children: []
+  };
+}
+
 // ========================================
 // HIERARCHY BUILDING
 // ========================================
@@ -370,6 +416,11 @@ export function findStructureAtPosition(
   let result: DocumentStructure | undefined;
 
   for (const structure of structures) {
+    // Een tabel geldt alleen voor posities binnen de tabel zelf
+    if (structure.type === 'table' && position > structure.endIndex) {
+      continue;
+    }
+
     if (structure.startIndex <= position) {
       // Prefereer meer specifieke (hogere level) structuren
       if (!result || structure.level >= result.level) {
@@ -0,0 +1,186 @@
+/**
+ * ========================================
+ * TABLES - Markdown tabellen in document tekst
+ * ========================================
+ *
+ * Salarisschalen, toeslagtabellen en betaaldata kalenders verliezen hun
+ * rij/kolom structuur als ze als platte tekst gechunked worden.
+ *
+ * Alle extractors (PDF, DOCX, HTML, Markdown) schrijven tabellen daarom
+ * als Markdown tabel in de pagina tekst:
+ *
+ *   | Schaal | Trede 1 | Trede 2 |
+ *   | --- | --- | --- |
+ *   | 5 | 2.310 | 2.395 |
+ *
+ * De chunker haalt die blokken eruit en maakt er aparte chunks van
+ * (structureType 'table'), met de header rij herhaald als een tabel
+ * over meerdere chunks verdeeld wordt.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface MarkdownTableBlock {
+  startIndex: number;       // Positie van de eerste tabel regel in de tekst
+  endIndex: number;         // Positie direct na de laatste tabel regel
+  headerLines: string[];    // Header rij + scheidingsregel (leeg als er geen header is)
+  rowLines: string[];       // Data rijen
+  caption?: string;         // Korte regel direct boven de tabel, bijv. "Salarisschalen 2025"
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+const TABLE_LINE_PATTERN = /^\s*\|.*\|\s*$/;
+const SEPARATOR_LINE_PATTERN = /^\s*\|(\s*:?-{3,}:?\s*\|)+\s*$/;
+const MAX_CAPTION_LENGTH = 100;
+
+// ========================================
+// SERIALIZATION
+// ========================================
+
+function escapeCell(value: string): string {
+  return value.replace(/\s+/g, ' ').replace(/\|/g, '/').trim();
+}
+
+/**
+ * Zet rijen om naar een Markdown tabel. De eerste rij is de header.
+ * Rijen worden aangevuld tot het maximale aantal kolommen.
+ */
+export function toMarkdownTable(rows: string[][]): string {
+  const cleaned = rows
+    .map(row => row.map(escapeCell))
+    .filter(row => row.some(cell => cell.length > 0));
+
+  if (cleaned.length === 0) return '';
+
+  const columnCount = Math.max(...cleaned.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(columnCount - row.length).fill('')];
+  const line = (row: string[]) => `| ${pad(row).join(' | ')} |`;
+
+  return [
+    line(cleaned[0]),
+    `|${' --- |'.repeat(columnCount)}`,
+    ...cleaned.slice(1).map(line)
+  ].join('\n');
+}
+
+// ========================================
+// DETECTION
+// ========================================
+
+/**
+ * Vindt alle Markdown tabellen in een tekst (minimaal 2 regels)
+ */
+export function findMarkdownTables(text: string): MarkdownTableBlock[] {
+  const blocks: MarkdownTableBlock[] = [];
+  const lines = text.split('\n');
+
+  let offset = 0;
+  let current: { startIndex: number; lines: string[]; lineIndex: number } | null = null;
+
+  const close = (endIndex: number) => {
+    if (current && current.lines.length >= 2) {
+      const hasHeader = SEPARATOR_LINE_PATTERN.test(current.lines[1]);
+
+      // Caption: korte tekstregel direct boven de tabel (lege regel ertussen mag)
+      let caption: string | undefined;
+      for (let i = current.lineIndex - 1; i >= 0 && i >= current.lineIndex - 2; i--) {
+        const candidate = lines[i].trim();
+        if (!candidate) continue;
+        if (candidate.length <= MAX_CAPTION_LENGTH && !TABLE_LINE_PATTERN.test(candidate)) {
+          caption = candidate.replace(/[:.]$/, '');
+        }
+        break;
+      }
+
+      blocks.push({
+        startIndex: current.startIndex,
+        endIndex,
+        headerLines: hasHeader ? current.lines.slice(0, 2) : [],
+        rowLines: hasHeader ? current.lines.slice(2) : current.lines,
+        caption
+      });
+    }
+    current = null;
+  };
+
+  lines.forEach((line, lineIndex) => {
+    if (TABLE_LINE_PATTERN.test(line)) {
+      if (!current) {
+        current = { startIndex: offset, lines: [], lineIndex };
+      }
+      current.lines.push(line.trim());
+    } else {
+      close(offset - 1);
+    }
+    offset += line.length + 1;
+  });
+  close(text.length);
+
+  return blocks;
+}
+
+// ========================================
+// SPLITTING
+// ========================================
+
+/**
+ * Splits een tabel in delen van maximaal maxChars.
+ * Elk deel begint met de caption en de header rij, zodat losse chunks
+ * zelfstandig leesbaar blijven ("Schaal 5, trede 3" → juiste kolom).
+ */
+export function splitMarkdownTable(block: MarkdownTableBlock, maxChars: number): string[] {
+  const prefix = [
+    ...(block.caption ? [block.caption] : []),
+    ...block.headerLines
+  ].join('\n');
+
+  const parts: string[] = [];
+  let rows: string[] = [];
+  let length = prefix.length;
+
+  const flush = () => {
+    if (rows.length > 0) {
+      parts.push(prefix ? `${prefix}\n${rows.join('\n')}` : rows.join('\n'));
+    }
+    rows = [];
+    length = prefix.length;
+  };
+
+  for (const row of block.rowLines) {
+    if (rows.length > 0 && length + row.length + 1 > maxChars) {
+      flush();
+    }
+    rows.push(row);
+    length += row.length + 1;
+  }
+  flush();
+
+  // Tabel met alleen een header
+  if (parts.length === 0 && prefix) {
+    parts.push(prefix);
+  }
+
+  return parts;
+}
+
+/**
+ * Vervangt de tabel blokken door lege regels van dezelfde lengte.
+ * Posities in de tekst blijven zo gelijk (structuur, paginanummers),
+ * terwijl de chunker van de lopende tekst de tabellen overslaat.
+ */
+export function maskMarkdownTables(text: string, blocks: MarkdownTableBlock[]): string {
+  let result = '';
+  let position = 0;
+
+  for (const block of blocks) {
+    result += text.slice(position, block.startIndex) + '\n'.repeat(block.endIndex - block.startIndex);
+    position = block.endIndex;
+  }
+
+  return result + text.slice(position);
+}
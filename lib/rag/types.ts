@@ -59,6 +59,13 @@ export interface Document {
   processing_status: 'pending' | 'processing' | 'completed' | 'failed';
   processing_error?: string;
   metadata: Record<string, unknown>;
+  version?: number;         // Huidige versie (migratie 035)
+  valid_from?: string | null;   // Geldig vanaf, 'YYYY-MM-DD' (migratie 036)
+  valid_until?: string | null;  // Geldig t/m, daarna uitgesloten van zoeken
+  content_hash?: string | null; // SHA-256 van het bestand (migratie 038)
+  category?: string | null;     // Bij een bulk import: eerste map in het pad
+  tags?: string[];              // Bij een bulk import: alle mappen in het pad
+  source_url?: string | null;   // Bij een crawl bron: de webpagina (migratie 040)
   created_at: string;
   updated_at: string;
 }
@@ -95,6 +102,13 @@ export interface SearchResult {
   section_title?: string;      // "Artikel 4.3 Vakantiegeld"
   section_path?: string[];     // ["CAO", "Hoofdstuk 4", "Artikel 4.3"]
   context_header?: string;     // "[CAO > Hoofdstuk 4 > Artikel 4.3]"
+  anchor?: string;             // Sectie anker voor bronnen zonder pagina's
+  ocr?: boolean;               // Tekst via OCR herkend (kan fouten bevatten)
+  document_version?: number;   // Document versie waar de chunk uit komt
+  validity_label?: string;     // "geldig t/m 2025-12-31" (documents.valid_from/valid_until)
+  // Hybrid search (v2.5): positie in de losse retrievers (1-based)
+  vector_rank?: number;
+  fulltext_rank?: number;
 }
 
 // ========================================
@@ -134,6 +148,9 @@ export interface Citation {
     // Enhanced citation fields (v2.1)
     section_title?: string;      // "Artikel 4.3 Vakantiegeld"
     section_path?: string[];     // ["CAO", "Hoofdstuk 4", "Artikel 4.3"]
+    anchor?: string;             // Sectie anker (DOCX, HTML, ...) als pages leeg is
+    ocr?: boolean;               // Bron tekst via OCR herkend ("OCR tekst" waarschuwing)
+    document_version?: number;   // Document versie (chat logs: welke versie is geciteerd)
   }>;
   // Relevance score from reranker (0-1)
   relevance_score?: number;
@@ -208,6 +225,21 @@ export interface EnhancedChunkMetadata {
   alternativeTerms?: string[]; // Synoniemen/informele varianten
 }
 
+/**
+ * Positie en structuur van een chunk in het document
+ * (zoals opgeslagen in document_chunks.metadata)
+ */
+export interface ChunkPosition {
+  pageNumber?: number;
+  chunkIndex: number;
+  startChar: number;
+  endChar: number;
+  wordCount: number;
+  structureType?: string;
+  structurePath?: string[];
+  contextHeader?: string;
+}
+
 /**
  * Een tekst chunk na chunking (legacy format)
  */
@@ -260,22 +292,20 @@ export interface SmartChunkingResult {
 export interface EmbeddingConfig {
   model: 'text-embedding-3-small' | 'text-embedding-3-large';
   dimensions: number;
-  costPer1MTokens: number;
 }
 
 /**
  * Beschikbare embedding modellen met hun configuratie
+ * Prijzen komen van de LLM provider (lib/bot/providers/pricing.ts)
  */
 export const EMBEDDING_MODELS: Record<string, EmbeddingConfig> = {
   'text-embedding-3-small': {
     model: 'text-embedding-3-small',
-    dimensions: 1536,
-    costPer1MTokens: 0.02
+    dimensions: 1536
   },
   'text-embedding-3-large': {
     model: 'text-embedding-3-large',
-    dimensions: 3072,
-    costPer1MTokens: 0.13
+    dimensions: 3072
   }
 };
 
@@ -346,6 +376,12 @@ export interface RAGQueryDetails {
   expanded?: string;             // Query with expansion terms added
   alternativeQueries?: string[]; // Alternative queries generated
   expansionTerms?: string[];     // Terms added by query expander
+  // Per-tenant query dictionary
+  dictionary?: {
+    language: string;            // Taal waarmee de entries gefilterd zijn
+    entriesLoaded: number;       // Aantal actieve entries van de tenant
+    matchedTriggers: string[];   // Triggers die afgingen (type:trigger)
+  };
   // Multilingual translation (v2.2)
   translation?: {
     originalLanguage: string;    // Detected language of query (de, fr, en, nl)
@@ -385,6 +421,9 @@ export interface RAGRawSearchResult {
   content?: string;              // Truncated for storage
   matchedKeywords?: string[];
   sectionTitle?: string;
+  documentVersion?: number;      // Document versie van de chunk
+  vectorRank?: number;           // Positie in vector retriever (1-based)
+  fulltextRank?: number;         // Positie in full-text retriever (1-based)
 }
 
 /**
@@ -415,6 +454,39 @@ export interface RAGSearchDetails {
     afterFilter: number;
     removedCount: number;
   };
+  // Hybrid search fusion (v2.5)
+  fusion?: RAGFusionDetails;
+  // Document geldigheid (migratie 036)
+  validity?: RAGValidityDetails;
+}
+
+/**
+ * Weging op geldigheid van documenten (valid_from / valid_until)
+ */
+export interface RAGValidityDetails {
+  date: string;                                              // Peildatum 'YYYY-MM-DD'
+  excluded: Array<{ filename: string; validUntil: string }>; // Verlopen, uitgesloten
+  upcoming: string[];                                        // Nog niet geldig, lager gewogen
+  superseded: Array<{ filename: string; supersededBy: string }>; // Nieuwere versie gevonden
+}
+
+/**
+ * Reciprocal rank fusion van vector + full-text search (v2.5)
+ */
+export interface RAGFusionDetails {
+  method: 'rrf';
+  fulltextQuery: string;
+  vectorResults: number;
+  fulltextResults: number;
+  fusedResults: number;
+  overlap: number;               // Gevonden door beide retrievers
+  fulltextOnly: number;          // Alleen gevonden door full-text
+  vectorWeight: number;
+  fulltextWeight: number;
+  rrfK: number;
+  similarityThreshold: number;
+  keywordWeight: number;
+  fulltextError?: string;
 }
 
 /**
@@ -427,6 +499,16 @@ export interface RAGRerankingResultItem {
   positionBefore: number;        // Position before reranking (0-indexed)
   positionAfter: number;         // Position after reranking (0-indexed)
   pageNumber?: number;
+  chunkId?: string;
+}
+
+/**
+ * Chunk in de ranking vóór de reranker (voor retrieval metrics)
+ */
+export interface RAGRankedChunk {
+  chunkId: string;
+  filename: string;
+  pageNumber?: number;
 }
 
 /**
@@ -440,6 +522,7 @@ export interface RAGRerankingDetails {
   latencyMs: number;
   cost: number;
   results: RAGRerankingResultItem[];
+  inputRanking?: RAGRankedChunk[];  // Candidates in volgorde vóór reranking
 }
 
 /**
@@ -448,11 +531,14 @@ export interface RAGRerankingDetails {
 export interface RAGOpenAIDetails {
   model: string;                 // e.g., "gpt-4o"
   temperature: number;
+  maxOutputTokens?: number | null;  // null = geen limiet
+  historyWindow?: number;           // Max history berichten naar het model
   systemPromptTokens: number;
   inputTokens: number;
   outputTokens: number;
   totalTokens: number;
   streamingDurationMs?: number;
+  promptProfileVersion?: number | null;  // Tenant prompt profiel versie (null = defaults)
 }
 
 /**
@@ -482,6 +568,22 @@ export interface RAGTimingBreakdown {
  * Complete RAG details for logging
  * This is stored in the `rag_details` JSONB column of chat_logs
  */
+/**
+ * Answer cache lookup (v2.6)
+ */
+export interface RAGAnswerCacheDetails {
+  hit: boolean;
+  similarity: number | null;     // Beste kandidaat, ook bij een miss
+  threshold: number;
+  entryId?: string;              // Alleen bij een hit
+  cachedQuestion?: string;       // Vraag waarvoor het antwoord oorspronkelijk gegenereerd is
+  sourceLogId?: string | null;
+  lookupMs: number;
+  lookupCost: number;
+  stored?: boolean;              // Antwoord na een miss in de cache opgeslagen
+  error?: string;
+}
+
 export interface RAGDetails {
   query: RAGQueryDetails;
   search: RAGSearchDetails;
@@ -489,6 +591,7 @@ export interface RAGDetails {
   openai: RAGOpenAIDetails;
   costs: RAGCostBreakdown;
   timing: RAGTimingBreakdown;
+  answerCache?: RAGAnswerCacheDetails;
 }
 
 // ========================================
@@ -540,6 +643,12 @@ export interface DocumentProcessingLog {
   chunking_duration_ms?: number;
   embedding_duration_ms?: number;
   metadata_duration_ms?: number;
+  ocr_pages?: number;          // Pagina's met OCR tekst (gescande PDF)
+  ocr_duration_ms?: number;
+  ocr_engine?: string;
+  chunks_reused?: number;      // Herverwerken: chunks met hergebruikte embedding
+  chunks_embedded?: number;
+  cost_saved?: number;
   total_duration_ms?: number;
   error_message?: string;
   error_phase?: string;
@@ -0,0 +1,319 @@
+/**
+ * ========================================
+ * WEB CRAWLER (SERVER-ONLY)
+ * ========================================
+ *
+ * Crawlt een website vanaf een start pagina (links volgen tot max_depth)
+ * of een sitemap, binnen het domein van de start URL:
+ * 1. robots.txt ophalen (4xx = alles toegestaan), Crawl-delay respecteren
+ * 2. Per URL: robots.txt en exclude patronen, dan ophalen met de fetch
+ *    en retry logica van de branding extractor
+ * 3. HTML → tekst met de HTML extractor; de hash van die tekst is de
+ *    basis voor change detection
+ *
+ * Geen database: elke pagina gaat naar onPage, de crawl bron service
+ * ('./crawl-sources-service') slaat op en indexeert. Daardoor is de
+ * crawler los te draaien tegen een lokale server, zie
+ * scripts/crawl-fixture-server.mjs.
+ */
+
+import { createHash } from 'crypto';
+import * as cheerio from 'cheerio';
+import { fetchWithRetry } from '../admin/url-extractor';
+import { extractDocument } from './extractors';
+import {
+  isAllowedByRobots,
+  isCrawlUrlIncluded,
+  isSameCrawlSite,
+  matchesCrawlPattern,
+  normalizeCrawlUrl,
+  parseRobotsTxt,
+  type CrawlSource,
+  type RobotsRules
+} from './crawl-sources';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type CrawlConfig = Pick<
+  CrawlSource,
+  'start_url' | 'start_type' | 'include_patterns' | 'exclude_patterns' | 'max_depth' | 'max_pages'
+>;
+
+/**
+ * Resultaat per pagina:
+ * - ok: HTML met tekst, klaar om te indexeren
+ * - gone: 404/410, de pagina bestaat niet meer
+ * - failed: ophalen mislukt (timeout, 5xx, geblokkeerd)
+ */
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  status: 'ok' | 'gone' | 'failed';
+  httpStatus: number | null;
+  title?: string;
+  html?: Buffer;
+  contentHash?: string;          // SHA-256 van de geëxtraheerde tekst
+  error?: string;
+}
+
+export interface CrawlWebsiteResult {
+  pagesFetched: number;
+  skipped: number;
+  truncated: boolean;            // max_pages of deadline bereikt
+  robots: RobotsRules;
+}
+
+interface FetchedUrl {
+  ok: boolean;
+  httpStatus: number | null;
+  url: string;                   // Na redirects
+  contentType: string;
+  body: Buffer;
+  error?: string;
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+const DEFAULT_REQUEST_DELAY_MS = 250;
+const MAX_CRAWL_DELAY_MS = 10_000;
+const MAX_SITEMAPS = 20;
+const HTML_CONTENT_TYPES = /text\/html|application\/xhtml\+xml/i;
+
+// ========================================
+// HELPERS
+// ========================================
+
+async function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * fetchWithRetry zonder throw: de HTTP status komt uit de foutmelding
+ * ("HTTP 404: Not Found").
+ */
+async function fetchUrl(url: string): Promise<FetchedUrl> {
+  try {
+    const { response } = await fetchWithRetry(url, 2);
+    return {
+      ok: true,
+      httpStatus: response.status,
+      url: response.url || url,
+      contentType: response.headers.get('content-type') || '',
+      body: Buffer.from(await response.arrayBuffer())
+    };
+  } catch (thrown) {
+    const error = (thrown as { error?: Error })?.error ?? (thrown instanceof Error ? thrown : null);
+    const message = error?.message || 'Fetch failed';
+    const status = message.match(/^HTTP (\d{3})/);
+
+    return {
+      ok: false,
+      httpStatus: status ? parseInt(status[1], 10) : null,
+      url,
+      contentType: '',
+      body: Buffer.alloc(0),
+      error: message
+    };
+  }
+}
+
+async function fetchRobotsRules(startUrl: string): Promise<RobotsRules> {
+  const robotsUrl = new URL('/robots.txt', startUrl).toString();
+  const result = await fetchUrl(robotsUrl);
+
+  if (result.ok) {
+    return parseRobotsTxt(result.body.toString('utf8'));
+  }
+
+  // Geen robots.txt: alles toegestaan. Niet bereikbaar: niet crawlen.
+  if (result.httpStatus && result.httpStatus >= 400 && result.httpStatus < 500) {
+    return { allow: [], disallow: [], crawlDelaySeconds: null, sitemaps: [] };
+  }
+
+  throw new Error(`robots.txt could not be fetched: ${result.error}`);
+}
+
+/**
+ * Pagina URL's uit een sitemap, inclusief geneste sitemap indexen
+ */
+async function fetchSitemapUrls(sitemapUrl: string): Promise<string[]> {
+  const pending = [sitemapUrl];
+  const seen = new Set<string>();
+  const urls: string[] = [];
+
+  while (pending.length > 0 && seen.size < MAX_SITEMAPS) {
+    const current = pending.shift()!;
+    if (seen.has(current)) continue;
+    seen.add(current);
+
+    const result = await fetchUrl(current);
+    if (!result.ok) {
+      // Alleen de eerste sitemap is verplicht
+      if (current === sitemapUrl) throw new Error(`Sitemap could not be fetched: ${result.error}`);
+      console.warn(`⚠️ [WebCrawler] Skipping sitemap ${current}: ${result.error}`);
+      continue;
+    }
+
+    const $ = cheerio.load(result.body.toString('utf8'), { xmlMode: true });
+    $('sitemap > loc').each((_, el) => { pending.push($(el).text().trim()); });
+    $('url > loc').each((_, el) => { urls.push($(el).text().trim()); });
+  }
+
+  return urls;
+}
+
+/**
+ * SHA-256 van de tekst zoals die geïndexeerd wordt. Wijzigingen in
+ * scripts, navigatie of opmaak tellen dus niet als wijziging.
+ */
+async function extractPageText(html: Buffer): Promise<string> {
+  const { pages } = await extractDocument(html, 'page.html', 'text/html');
+  return pages.map(page => page.text).join('\n\n').trim();
+}
+
+/**
+ * Bestandsnaam voor het document: de paginatitel, anders host + pad
+ */
+export function getCrawlPageFilename(url: string, title?: string | null): string {
+  const cleanTitle = (title || '')
+    .replace(/[\\/:*?"<>|#%]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 100);
+
+  if (cleanTitle) return `${cleanTitle}.html`;
+
+  const parsed = new URL(url);
+  const slug = `${parsed.host}${parsed.pathname}`.replace(/[^\w.-]+/g, '-').replace(/-+$/, '');
+  return `${slug.replace(/\.html?$/i, '')}.html`;
+}
+
+// ========================================
+// CRAWL
+// ========================================
+
+/**
+ * Crawlt een website en roept onPage aan voor elke pagina die
+ * geïndexeerd mag worden (of niet meer bestaat / mislukt is).
+ * Pagina's die niet aan de include patronen voldoen worden wel
+ * opgehaald om links te volgen, maar niet aan onPage gegeven.
+ *
+ * Gooit als robots.txt, de start pagina of de sitemap niet op te halen is.
+ */
+export async function crawlWebsite(
+  config: CrawlConfig,
+  options: {
+    onPage: (page: CrawledPage) => Promise<void>;
+    deadline?: number;             // Timestamp (ms), daarna stoppen
+    requestDelayMs?: number;
+  }
+): Promise<CrawlWebsiteResult> {
+  const robots = await fetchRobotsRules(config.start_url);
+  const requestDelay = Math.min(
+    MAX_CRAWL_DELAY_MS,
+    Math.max(options.requestDelayMs ?? DEFAULT_REQUEST_DELAY_MS, (robots.crawlDelaySeconds ?? 0) * 1000)
+  );
+
+  const queue: { url: string; depth: number }[] = [];
+  const queued = new Set<string>();
+  const enqueue = (rawUrl: string, depth: number, base?: string) => {
+    const url = normalizeCrawlUrl(rawUrl, base);
+    if (url && !queued.has(url) && isSameCrawlSite(url, config.start_url)) {
+      queued.add(url);
+      queue.push({ url, depth });
+    }
+  };
+
+  if (config.start_type === 'sitemap') {
+    const sitemapUrls = await fetchSitemapUrls(config.start_url);
+    sitemapUrls.forEach(url => enqueue(url, 0));
+    console.log(`🗺️  [WebCrawler] Sitemap lists ${sitemapUrls.length} URLs (${queue.length} on this site)`);
+  } else {
+    enqueue(config.start_url, 0);
+  }
+
+  let pagesFetched = 0;
+  let skipped = 0;
+  let truncated = false;
+
+  while (queue.length > 0) {
+    if (pagesFetched >= config.max_pages || (options.deadline && Date.now() > options.deadline)) {
+      truncated = true;
+      break;
+    }
+
+    const { url, depth } = queue.shift()!;
+    const isStartPage = config.start_type === 'page' && url === config.start_url;
+
+    // Uitgesloten pagina's worden ook niet opgehaald om links te volgen
+    if (!isAllowedByRobots(url, robots) || config.exclude_patterns.some(pattern => matchesCrawlPattern(url, pattern))) {
+      skipped++;
+      continue;
+    }
+
+    if (pagesFetched > 0) await delay(requestDelay);
+
+    const fetched = await fetchUrl(url);
+    pagesFetched++;
+
+    if (!fetched.ok) {
+      if (isStartPage) throw new Error(`Start page could not be fetched: ${fetched.error}`);
+
+      const gone = fetched.httpStatus === 404 || fetched.httpStatus === 410;
+      await options.onPage({ url, depth, status: gone ? 'gone' : 'failed', httpStatus: fetched.httpStatus, error: fetched.error });
+      continue;
+    }
+
+    // Redirect naar een andere site of een al bekende pagina
+    const finalUrl = normalizeCrawlUrl(fetched.url) || url;
+    if (finalUrl !== url && (!isSameCrawlSite(finalUrl, config.start_url) || queued.has(finalUrl))) {
+      skipped++;
+      continue;
+    }
+    queued.add(finalUrl);
+
+    if (!HTML_CONTENT_TYPES.test(fetched.contentType)) {
+      skipped++;
+      continue;
+    }
+
+    const $ = cheerio.load(fetched.body.toString('utf8'));
+    const robotsMeta = ($('meta[name="robots"]').attr('content') || '').toLowerCase();
+
+    if (depth < config.max_depth && !robotsMeta.includes('nofollow')) {
+      $('a[href]').each((_, el) => {
+        if (($(el).attr('rel') || '').includes('nofollow')) return;
+        enqueue($(el).attr('href')!, depth + 1, finalUrl);
+      });
+    }
+
+    if (robotsMeta.includes('noindex') || !isCrawlUrlIncluded(finalUrl, config)) {
+      skipped++;
+      continue;
+    }
+
+    const text = await extractPageText(fetched.body);
+    if (!text) {
+      skipped++;
+      continue;
+    }
+
+    await options.onPage({
+      url: finalUrl,
+      depth,
+      status: 'ok',
+      httpStatus: fetched.httpStatus,
+      title: $('title').first().text().replace(/\s+/g, ' ').trim() || undefined,
+      html: fetched.body,
+      contentHash: createHash('sha256').update(text, 'utf8').digest('hex')
+    });
+  }
+
+  console.log(`🕷️  [WebCrawler] ${config.start_url}: ${pagesFetched} fetched, ${skipped} skipped${truncated ? ' (truncated)' : ''}`);
+
+  return { pagesFetched, skipped, truncated, robots };
+}
@@ -0,0 +1,102 @@
+/**
+ * ========================================
+ * API KEY TYPES
+ * ========================================
+ *
+ * Types, scopes en origin helpers voor tenant API keys (migration 031).
+ *
+ * - secret (lvt_sk_...): server-to-server, alle scopes
+ * - public (lvt_pk_...): embed widget, alleen 'chat' en alleen vanaf
+ *   de allowed origins van de key
+ *
+ * Dit bestand kan veilig op zowel client als server geïmporteerd worden.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export type ApiKeyType = 'secret' | 'public';
+
+export type ApiKeyScope = 'chat' | 'documents' | 'logs:read';
+
+/**
+ * API key zoals getoond in de admin UI (zonder hash)
+ */
+export interface TenantApiKey {
+  id: string;
+  tenant_id: string;
+  name: string;
+  key_type: ApiKeyType;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  allowed_origins: string[];
+  created_by: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  key_type: ApiKeyType;
+  scopes?: ApiKeyScope[];
+  allowed_origins?: string[];
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+export const API_KEY_PREFIXES: Record<ApiKeyType, string> = {
+  secret: 'lvt_sk_',
+  public: 'lvt_pk_'
+};
+
+export const API_KEY_SCOPES: { value: ApiKeyScope; label: string; description: string }[] = [
+  { value: 'chat', label: 'Chat', description: '/api/chat en /api/v1/chat/completions' },
+  { value: 'documents', label: 'Documenten', description: 'Documenten uploaden, bekijken en verwijderen (/api/rag/*)' },
+  { value: 'logs:read', label: 'Logs lezen', description: 'Chat logs ophalen (/api/v1/logs)' }
+];
+
+export const API_KEY_TYPE_LABELS: Record<ApiKeyType, string> = {
+  secret: 'Secret (server)',
+  public: 'Public (embed widget)'
+};
+
+// ========================================
+// ORIGIN HELPERS
+// ========================================
+
+/**
+ * Normaliseer een origin: lowercase, zonder pad of trailing slash.
+ * Ondersteunt een wildcard subdomain: https://*.acme.nl
+ * "https://www.Acme.nl/hr/" → "https://www.acme.nl"
+ * Geeft null bij een ongeldige origin.
+ */
+export function normalizeOrigin(value: string): string | null {
+  const trimmed = value.trim().toLowerCase();
+  const match = trimmed.match(/^(https?):\/\/(\*\.)?([a-z0-9-]+(\.[a-z0-9-]+)*)(:\d+)?(\/.*)?$/);
+  if (!match) return null;
+
+  const [, protocol, wildcard = '', host, , port = ''] = match;
+  return `${protocol}://${wildcard}${host}${port}`;
+}
+
+/**
+ * Check of een origin in de lijst staat (exact of via *.domein)
+ */
+export function isOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+  const normalized = normalizeOrigin(origin);
+  if (!normalized || normalized.includes('*')) return false;
+
+  return allowedOrigins.some(allowed => {
+    if (allowed === normalized) return true;
+
+    const wildcard = allowed.match(/^(https?):\/\/\*\.(.+)$/);
+    if (!wildcard) return false;
+
+    const [, protocol, suffix] = wildcard;
+    return normalized.startsWith(`${protocol}://`) && normalized.endsWith(`.${suffix}`);
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * ========================================
+ * API KEYS (SERVER-ONLY)
+ * ========================================
+ *
+ * Genereren, hashen en resolven van tenant API keys (migration 031).
+ *
+ * FLOW:
+ * 1. middleware.ts haalt de key uit Authorization: Bearer lvt_...
+ * 2. resolveApiKey() zoekt de hash op via resolve_api_key()
+ * 3. De middleware zet x-tenant-id + x-api-key-* headers
+ * 4. Routes lezen die via getApiKeyContext() / requireTenantAccess()
+ *
+ * De tenant komt dan ALLEEN uit de key, nooit uit ?tenant= of de body.
+ * Inkomende x-api-key-* headers worden altijd gestript, zodat een client
+ * ze niet zelf kan zetten.
+ *
+ * Edge-safe: gebruikt Web Crypto (geen 'crypto' module), want dit
+ * bestand wordt ook door de middleware geïmporteerd.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { API_KEY_PREFIXES, type ApiKeyScope, type ApiKeyType } from './api-key-types';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface ApiKeyPrincipal {
+  tenantId: string;
+  keyId: string;
+  keyType: ApiKeyType;
+  scopes: ApiKeyScope[];
+  allowedOrigins: string[];
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+// Headers van middleware → route
+export const API_KEY_HEADERS = {
+  id: 'x-api-key-id',
+  type: 'x-api-key-type',
+  scopes: 'x-api-key-scopes',
+} as const;
+
+// Resolved keys kort cachen: een ingetrokken key werkt nog maximaal zo lang
+const RESOLVE_CACHE_TTL = 60 * 1000;
+
+const resolveCache = new Map<string, { principal: ApiKeyPrincipal | null; timestamp: number }>();
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabaseClient = createClient(url, key, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// GENERATE & HASH
+// ========================================
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Genereer een nieuwe key: lvt_sk_ / lvt_pk_ + 32 random bytes (base64url)
+ */
+export function generateApiKey(type: ApiKeyType): { key: string; prefix: string } {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+
+  const key = `${API_KEY_PREFIXES[type]}${toBase64Url(bytes)}`;
+  return { key, prefix: key.slice(0, API_KEY_PREFIXES[type].length + 4) };
+}
+
+/**
+ * SHA-256 (hex) van een key, zoals opgeslagen in tenant_api_keys.key_hash
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Check of een token het formaat van een van onze keys heeft.
+ * Andere bearer tokens (bijv. Supabase JWTs) worden zo genegeerd.
+ */
+export function isApiKeyFormat(token: string): boolean {
+  return Object.values(API_KEY_PREFIXES).some(prefix => token.startsWith(prefix));
+}
+
+/**
+ * Haal de API key uit de Authorization header (Bearer lvt_...)
+ */
+export function getApiKeyFromRequest(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  if (!header) return null;
+
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  if (!match || !isApiKeyFormat(match[1])) return null;
+
+  return match[1];
+}
+
+// ========================================
+// RESOLVE
+// ========================================
+
+/**
+ * Resolveer een key naar tenant + scopes.
+ * Geeft null bij een onbekende, ingetrokken of ongeldige key.
+ * Gooit alleen bij een configuratie- of databasefout.
+ */
+export async function resolveApiKey(key: string): Promise<ApiKeyPrincipal | null> {
+  const keyHash = await hashApiKey(key);
+
+  const cached = resolveCache.get(keyHash);
+  if (cached && Date.now() - cached.timestamp < RESOLVE_CACHE_TTL) {
+    return cached.principal;
+  }
+
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.rpc('resolve_api_key', { p_key_hash: keyHash });
+
+  if (error) {
+    throw new Error(`API key lookup failed: ${error.message}`);
+  }
+
+  const row = (data || [])[0] as {
+    id: string;
+    tenant_id: string;
+    key_type: ApiKeyType;
+    scopes: ApiKeyScope[];
+    allowed_origins: string[];
+  } | undefined;
+
+  const principal: ApiKeyPrincipal | null = row
+    ? {
+        tenantId: row.tenant_id,
+        keyId: row.id,
+        keyType: row.key_type,
+        scopes: row.scopes || [],
+        allowedOrigins: row.allowed_origins || []
+      }
+    : null;
+
+  resolveCache.set(keyHash, { principal, timestamp: Date.now() });
+  return principal;
+}
+
+// ========================================
+// MIDDLEWARE → ROUTE HEADERS
+// ========================================
+
+/**
+ * Verwijder x-api-key-* headers die de client zelf meestuurt
+ */
+export function stripApiKeyHeaders(headers: Headers): void {
+  Object.values(API_KEY_HEADERS).forEach(name => headers.delete(name));
+}
+
+/**
+ * Zet de resolved key op de request headers (alleen vanuit de middleware)
+ */
+export function setApiKeyHeaders(headers: Headers, principal: ApiKeyPrincipal): void {
+  headers.set(API_KEY_HEADERS.id, principal.keyId);
+  headers.set(API_KEY_HEADERS.type, principal.keyType);
+  headers.set(API_KEY_HEADERS.scopes, principal.scopes.join(','));
+}
+
+/**
+ * Lees de door de middleware geresolvede key uit de request headers.
+ * Geeft null als de request zonder API key binnenkwam.
+ */
+export function getApiKeyContext(
+  request: Request
+): Pick<ApiKeyPrincipal, 'tenantId' | 'keyId' | 'keyType' | 'scopes'> | null {
+  const keyId = request.headers.get(API_KEY_HEADERS.id);
+  const tenantId = request.headers.get('x-tenant-id');
+  if (!keyId || !tenantId) return null;
+
+  return {
+    tenantId,
+    keyId,
+    keyType: request.headers.get(API_KEY_HEADERS.type) === 'public' ? 'public' : 'secret',
+    scopes: (request.headers.get(API_KEY_HEADERS.scopes) || '')
+      .split(',')
+      .filter(Boolean) as ApiKeyScope[]
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * ========================================
+ * EMBED ALLOWED ORIGINS (SERVER-ONLY)
+ * ========================================
+ *
+ * Per-tenant lijst van domeinen die de chatbot mogen embedden
+ * (tenants.embed_allowed_origins, migration 032).
+ *
+ * HANDHAVING:
+ * - middleware.ts: frame-ancestors voor /embed via getEmbedFrameAncestors()
+ * - /api/chat: Origin/Referer check via checkEmbedOrigin()
+ *
+ * Geweigerde pogingen worden gelogd in embed_origin_violations, zodat
+ * zichtbaar is wie de bot van een klant hotlinkt.
+ *
+ * Edge-safe: wordt ook door de middleware geïmporteerd.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { isOriginAllowed, normalizeOrigin } from '@/lib/shared/auth/api-key-types';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type EmbedViolationKind = 'frame' | 'api';
+
+export interface EmbedOriginViolation {
+  id: string;
+  tenant_id: string;
+  kind: EmbedViolationKind;
+  origin: string;
+  referer: string | null;
+  path: string;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export interface EmbedOriginCheck {
+  allowed: boolean;
+  origin: string | null;   // Origin van de aanroepende pagina (null = onbekend)
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+// Kort cachen: de middleware draait in een eigen runtime, dus
+// clearTenantCache() bereikt deze cache niet altijd
+const ORIGINS_CACHE_TTL = 60 * 1000;
+
+// Zelfde origin + tenant maximaal één keer per minuut loggen
+const VIOLATION_LOG_INTERVAL = 60 * 1000;
+
+const originsCache = new Map<string, { origins: string[]; timestamp: number }>();
+const recentViolations = new Map<string, number>();
+
+// ========================================
+// SUPABASE CLIENT
+// ========================================
+
+let supabaseClient: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient | null {
+  if (!supabaseClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+      console.warn('⚠️ [EmbedOrigins] Supabase not configured');
+      return null;
+    }
+
+    supabaseClient = createClient(url, key, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+  }
+  return supabaseClient;
+}
+
+// ========================================
+// ORIGINS
+// ========================================
+
+/**
+ * Leeg de origins cache (na een update in de admin)
+ */
+export function clearEmbedOriginsCache(tenantId?: string): void {
+  if (tenantId) {
+    originsCache.delete(tenantId);
+  } else {
+    originsCache.clear();
+  }
+}
+
+/**
+ * Haal de toegestane embed origins van een tenant op.
+ * Geeft een lege lijst bij een onbekende tenant of databasefout.
+ */
+export async function getTenantEmbedOrigins(tenantId: string): Promise<string[]> {
+  const cached = originsCache.get(tenantId);
+  if (cached && Date.now() - cached.timestamp < ORIGINS_CACHE_TTL) {
+    return cached.origins;
+  }
+
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('tenants')
+    .select('embed_allowed_origins')
+    .eq('id', tenantId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`⚠️ [EmbedOrigins] Could not load origins for ${tenantId}:`, error.message);
+    return [];
+  }
+
+  const origins: string[] = data?.embed_allowed_origins || [];
+  originsCache.set(tenantId, { origins, timestamp: Date.now() });
+  return origins;
+}
+
+/**
+ * Origin van de aanroepende pagina (Origin header, anders Referer)
+ */
+export function getRequestOrigin(request: Request): string | null {
+  const origin = request.headers.get('origin');
+  if (origin && origin !== 'null') return origin;
+
+  const referer = request.headers.get('referer');
+  if (!referer) return null;
+
+  try {
+    return new URL(referer).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Bouw de frame-ancestors directive voor /embed.
+ *
+ * - 'self' mag altijd (admin preview, Test Chat)
+ * - Daarnaast de origins van de tenant en eventueel van een public key
+ * - Zonder eigen origins: legacy ALLOWED_EMBED_DOMAINS env var
+ */
+export function getEmbedFrameAncestors(tenantOrigins: string[], keyOrigins: string[] = []): string {
+  const origins = Array.from(new Set([...tenantOrigins, ...keyOrigins]));
+
+  if (origins.length === 0 && process.env.ALLOWED_EMBED_DOMAINS) {
+    return `frame-ancestors 'self' ${process.env.ALLOWED_EMBED_DOMAINS}`;
+  }
+
+  return ["frame-ancestors 'self'", ...origins].join(' ');
+}
+
+/**
+ * Legacy ALLOWED_EMBED_DOMAINS (spatie-gescheiden, zoals in frame-ancestors)
+ * als origin lijst. null = geen lijst of '*': elk domein mag.
+ */
+function getLegacyEmbedOrigins(): string[] | null {
+  const domains = (process.env.ALLOWED_EMBED_DOMAINS || '').split(/\s+/).filter(Boolean);
+  if (domains.length === 0 || domains.includes('*')) return null;
+
+  return domains.map(domain => normalizeOrigin(domain) ?? domain);
+}
+
+/**
+ * Check of een /api/chat request vanaf een toegestaan domein komt.
+ *
+ * Toegestaan: geen Origin/Referer (server-to-server), ons eigen domein
+ * (de /embed iframe) of een origin uit de lijst van de tenant.
+ * Heeft de tenant nog geen eigen lijst, dan geldt dezelfde fallback als
+ * frame-ancestors: ALLOWED_EMBED_DOMAINS, en zonder env var elk domein.
+ */
+export async function checkEmbedOrigin(request: Request, tenantId: string): Promise<EmbedOriginCheck> {
+  const origin = getRequestOrigin(request);
+  if (!origin) {
+    return { allowed: true, origin: null };
+  }
+
+  if (origin === new URL(request.url).origin) {
+    return { allowed: true, origin };
+  }
+
+  const allowedOrigins = await getTenantEmbedOrigins(tenantId);
+  if (allowedOrigins.length > 0) {
+    return { allowed: isOriginAllowed(origin, allowedOrigins), origin };
+  }
+
+  const legacyOrigins = getLegacyEmbedOrigins();
+  return { allowed: !legacyOrigins || isOriginAllowed(origin, legacyOrigins), origin };
+}
+
+// ========================================
+// VIOLATIONS
+// ========================================
+
+/**
+ * Log een geweigerde poging. Gooit nooit: logging mag de request niet breken.
+ */
+export async function logEmbedOriginViolation(params: {
+  tenantId: string;
+  kind: EmbedViolationKind;
+  origin: string;
+  request: Request;
+}): Promise<void> {
+  const { tenantId, kind, origin, request } = params;
+
+  console.warn(`🚫 [EmbedOrigins] ${kind} request for ${tenantId} from not allowed origin: ${origin}`);
+
+  const dedupeKey = `${tenantId}:${kind}:${origin}`;
+  const lastLogged = recentViolations.get(dedupeKey);
+  if (lastLogged && Date.now() - lastLogged < VIOLATION_LOG_INTERVAL) {
+    return;
+  }
+  recentViolations.set(dedupeKey, Date.now());
+
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('embed_origin_violations')
+      .insert({
+        tenant_id: tenantId,
+        kind,
+        origin,
+        referer: request.headers.get('referer'),
+        path: new URL(request.url).pathname,
+        user_agent: request.headers.get('user-agent'),
+      });
+
+    if (error) {
+      console.warn('⚠️ [EmbedOrigins] Could not log violation:', error.message);
+    }
+  } catch (err) {
+    console.warn('⚠️ [EmbedOrigins] Could not log violation:', (err as Error).message);
+  }
+}
+
+/**
+ * Recente geweigerde pogingen voor een tenant (admin)
+ */
+export async function listEmbedOriginViolations(
+  tenantId: string,
+  limit: number = 50
+): Promise<{ violations: EmbedOriginViolation[]; error?: string }> {
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return { violations: [], error: 'Supabase not configured' };
+  }
+
+  const { data, error } = await supabase
+    .from('embed_origin_violations')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('❌ [EmbedOrigins] Error listing violations:', error);
+    return { violations: [], error: error.message };
+  }
+
+  return { violations: (data || []) as EmbedOriginViolation[] };
+}
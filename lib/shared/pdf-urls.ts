@@ -1,15 +1,17 @@
 /**
  * PDF URL mapping for Supabase Storage (Multi-Tenant)
  *
- * This module generates public URLs for PDF documents stored in Supabase Storage.
+ * This module generates URLs for PDF documents stored in Supabase Storage.
  *
  * MULTI-TENANT ARCHITECTURE:
- * - Each tenant has their own storage bucket: "{tenant-id}-hr-documents"
- * - Use getPdfUrlForTenant() for tenant-specific URLs (recommended)
- * - Legacy functions use STORAGE_BUCKET_NAME env var for backwards compatibility
+ * - Each tenant has their own PRIVATE storage bucket: "{tenant-id}-hr-documents"
+ * - Citation links go through /api/documents/open, which checks that the
+ *   chat session of the tenant was answered with this document and then
+ *   redirects to a short-lived signed URL (see getCitationUrl)
+ * - Public URL functions only work for legacy public buckets
  *
  * USAGE:
- * - New code: getPdfUrlForTenant(tenantId, storagePath)
+ * - New code: getCitationUrl(tenantId, storagePath, { sessionId, page })
  * - Legacy code: getPdfUrl(filename) or getPdfUrlByPath(storagePath)
  */
 
@@ -28,9 +30,47 @@ export function getTenantBucketName(tenantId: string): string {
   return `${tenantId}-hr-documents`;
 }
 
+/**
+ * Get the link for a cited document: opens the document via the citation
+ * route, at the cited page (PDF) or section anchor (HTML, DOCX, ...).
+ *
+ * @param tenantId - The tenant identifier
+ * @param storagePath - The storage path within the bucket (documents.file_path)
+ * @param options.sessionId - Chat session that received the citation
+ * @returns A same-origin URL, or '#' when tenant, path or session is missing
+ *
+ * @example
+ * ```typescript
+ * const url = getCitationUrl("demo", "documents/abc-123/Handbook.pdf", { sessionId, page: 12 });
+ * // Returns: "/api/documents/open?tenant=demo&session=...&path=documents%2Fabc-123%2FHandbook.pdf&page=12"
+ * ```
+ */
+export function getCitationUrl(
+  tenantId: string,
+  storagePath: string,
+  options: { sessionId: string; page?: number; anchor?: string }
+): string {
+  if (!tenantId || !storagePath || !options.sessionId) {
+    console.warn('⚠️ [PDF URLs] Tenant ID, storage path and session ID are required for citation links');
+    return '#';
+  }
+
+  const params = new URLSearchParams({
+    tenant: tenantId,
+    session: options.sessionId,
+    path: storagePath
+  });
+  if (options.page) params.set('page', String(options.page));
+  if (options.anchor) params.set('anchor', options.anchor);
+
+  return `/api/documents/open?${params.toString()}`;
+}
+
 /**
  * Get the public URL for a PDF document in a tenant's bucket
- * This is the RECOMMENDED method for multi-tenant deployments
+ *
+ * @deprecated Document buckets are private; use getCitationUrl(). Only
+ * works for buckets that have not been migrated yet.
  *
  * @param tenantId - The tenant identifier
  * @param storagePath - The storage path within the bucket (e.g., "documents/Employee_Handbook.pdf")
@@ -0,0 +1,150 @@
+/**
+ * ========================================
+ * TENANT QUOTA'S
+ * ========================================
+ *
+ * Maandelijkse limieten per tenant (migration 033):
+ * - monthly_message_quota: max. aantal chat berichten
+ * - monthly_cost_quota_usd: max. chat kosten in USD
+ *
+ * Het gebruik komt uit chat_logs via cost-service en wordt kort
+ * gecached. Elk toegestaan bericht wordt direct bij de cache opgeteld,
+ * zodat een burst binnen de cache periode de limiet niet ver overschrijdt.
+ * Kosten lopen maximaal USAGE_CACHE_TTL achter.
+ *
+ * Een periode is een kalendermaand (UTC).
+ *
+ * GEBRUIK:
+ * ```typescript
+ * const quota = await checkTenantQuota(tenantId);
+ * if (!quota.allowed) {
+ *   return NextResponse.json(buildQuotaExceededBody(quota, language), { status: 429 });
+ * }
+ * ```
+ */
+
+import { getTenantChatUsage } from '@/lib/admin/cost-service';
+import { getTenantUsageLimits } from '@/lib/shared/tenant-config';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type QuotaType = 'messages' | 'cost';
+
+export interface QuotaCheckResult {
+  allowed: boolean;
+  exceeded: QuotaType | null;
+  usage: { messages: number; costUsd: number } | null;  // null = geen quota ingesteld
+  limits: { messages: number | null; costUsd: number | null };
+  resetsAt: string;                                      // Begin van de volgende periode (ISO)
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+const USAGE_CACHE_TTL = 60 * 1000;
+
+const usageCache = new Map<string, {
+  periodStart: number;
+  messages: number;
+  costUsd: number;
+  timestamp: number;
+}>();
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * Begin en einde van de huidige quota periode (kalendermaand, UTC)
+ */
+export function getQuotaPeriod(now: Date = new Date()): { start: Date; end: Date } {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { start, end };
+}
+
+// ========================================
+// MAIN FUNCTIONS
+// ========================================
+
+/**
+ * Check of een tenant nog een chat bericht mag versturen deze maand.
+ * Telt het bericht direct mee als het toegestaan is.
+ *
+ * Fail-open: als het gebruik niet opgehaald kan worden, mag het bericht door.
+ */
+export async function checkTenantQuota(tenantId: string): Promise<QuotaCheckResult> {
+  const { monthlyMessageQuota, monthlyCostQuotaUsd } = await getTenantUsageLimits(tenantId);
+  const { start, end } = getQuotaPeriod();
+
+  const result: QuotaCheckResult = {
+    allowed: true,
+    exceeded: null,
+    usage: null,
+    limits: { messages: monthlyMessageQuota, costUsd: monthlyCostQuotaUsd },
+    resetsAt: end.toISOString()
+  };
+
+  if (monthlyMessageQuota === null && monthlyCostQuotaUsd === null) {
+    return result;
+  }
+
+  let usage = usageCache.get(tenantId);
+
+  if (!usage || usage.periodStart !== start.getTime() || Date.now() - usage.timestamp > USAGE_CACHE_TTL) {
+    try {
+      const chatUsage = await getTenantChatUsage(tenantId, start);
+      usage = {
+        periodStart: start.getTime(),
+        messages: chatUsage.message_count,
+        costUsd: chatUsage.total_cost,
+        timestamp: Date.now()
+      };
+      usageCache.set(tenantId, usage);
+    } catch (error) {
+      console.warn(`⚠️ [Quota] Could not load usage for ${tenantId}, allowing request:`, (error as Error).message);
+      return result;
+    }
+  }
+
+  result.usage = { messages: usage.messages, costUsd: usage.costUsd };
+
+  if (monthlyMessageQuota !== null && usage.messages >= monthlyMessageQuota) {
+    result.allowed = false;
+    result.exceeded = 'messages';
+  } else if (monthlyCostQuotaUsd !== null && usage.costUsd >= monthlyCostQuotaUsd) {
+    result.allowed = false;
+    result.exceeded = 'cost';
+  }
+
+  if (!result.allowed) {
+    console.warn(`🚫 [Quota] Monthly ${result.exceeded} quota exhausted for ${tenantId}`,
+      result.usage, result.limits);
+    return result;
+  }
+
+  // Optimistisch meetellen tot de volgende refresh uit chat_logs
+  usage.messages++;
+  return result;
+}
+
+/**
+ * Response body voor een uitgeputte quota (HTTP 429).
+ * userFriendly + message: de chat UI toont de message als antwoord.
+ */
+export function buildQuotaExceededBody(quota: QuotaCheckResult, language: string = 'nl') {
+  const message = language === 'nl'
+    ? 'De chatbot heeft de maandelijkse limiet bereikt en is tijdelijk niet beschikbaar. Neem contact op met HR voor je vraag.'
+    : 'This assistant has reached its monthly limit and is temporarily unavailable. Please contact HR with your question.';
+
+  return {
+    error: 'quota_exceeded',
+    quota: quota.exceeded,
+    message,
+    userFriendly: true,
+    resetsAt: quota.resetsAt
+  };
+}
@@ -3,25 +3,31 @@
  * RATE LIMITER
  * ========================================
  *
- * Simple in-memory rate limiter voor Vercel Edge.
- * Voor production met hoge load: gebruik Upstash Redis.
+ * Fixed-window rate limiter met een verwisselbare store:
+ * - postgres: gedeelde tellers in rate_limit_buckets (migration 033),
+ *   overleeft cold starts en werkt over alle instances heen
+ * - memory: in-process Map (development, scripts en tests)
  *
- * Gebruik:
+ * RATE_LIMIT_STORE=postgres|memory kiest de store. Default: postgres als
+ * Supabase geconfigureerd is, anders memory. Faalt de database, dan valt
+ * de limiter voor die request terug op de memory store.
+ *
+ * Standaard limieten (per tenant te overschrijven, zie
+ * lib/shared/usage-limits-settings.ts):
  * - Chat API: 10 requests per minuut
+ * - API (v1): 60 requests per minuut per API key
  * - Upload API: 5 requests per uur
  * - Admin API: 30 requests per minuut
  * - Portal API: 20 requests per minuut
  */
 
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_USAGE_LIMITS } from '@/lib/shared/usage-limits-settings';
+
 // ========================================
 // TYPES
 // ========================================
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
-
 export interface RateLimitConfig {
   windowMs: number;      // Time window in ms
   maxRequests: number;   // Max requests per window
@@ -33,43 +39,170 @@ export interface RateLimitResult {
   resetIn: number;
 }
 
+export type RateLimitStoreName = 'postgres' | 'memory';
+
+/**
+ * Opslag voor rate limit tellers.
+ * hit() telt één request in het huidige window en geeft de stand terug.
+ */
+export interface RateLimitStore {
+  readonly name: RateLimitStoreName;
+  hit(key: string, windowMs: number): Promise<{ count: number; resetTime: number }>;
+}
+
 // ========================================
 // CONFIGURATION
 // ========================================
 
 export const RATE_LIMITS = {
-  chat: { windowMs: 60_000, maxRequests: 10 },        // 10/min
+  chat: { windowMs: 60_000, maxRequests: DEFAULT_USAGE_LIMITS.chatPerMinute },  // 10/min
+  api: { windowMs: 60_000, maxRequests: DEFAULT_USAGE_LIMITS.apiPerMinute },    // 60/min per API key (server-to-server)
   upload: { windowMs: 3600_000, maxRequests: 5 },     // 5/hour
   admin: { windowMs: 60_000, maxRequests: 30 },       // 30/min
   portal: { windowMs: 60_000, maxRequests: 20 },      // 20/min
   feedback: { windowMs: 60_000, maxRequests: 5 },     // 5/min
 } as const;
 
+// Cleanup oude entries elke 5 minuten
+const CLEANUP_INTERVAL = 5 * 60 * 1000;
+
 // ========================================
-// IN-MEMORY STORE
+// MEMORY STORE
 // ========================================
 
-const rateLimitStore = new Map<string, RateLimitEntry>();
+/**
+ * In-process store. Tellers zijn per instance en verdwijnen bij een
+ * cold start, dus alleen geschikt voor development en tests.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, { count: number; resetTime: number }>();
+  let lastCleanup = Date.now();
 
-// Cleanup oude entries elke 5 minuten
-const CLEANUP_INTERVAL = 5 * 60 * 1000;
-let lastCleanup = Date.now();
+  function cleanupOldEntries(now: number): void {
+    // Alleen cleanup als interval verstreken is
+    if (now - lastCleanup < CLEANUP_INTERVAL) {
+      return;
+    }
 
-function cleanupOldEntries(): void {
-  const now = Date.now();
+    lastCleanup = now;
 
-  // Alleen cleanup als interval verstreken is
-  if (now - lastCleanup < CLEANUP_INTERVAL) {
-    return;
+    for (const [key, entry] of entries.entries()) {
+      if (now > entry.resetTime) {
+        entries.delete(key);
+      }
+    }
   }
 
-  lastCleanup = now;
+  return {
+    name: 'memory',
+    async hit(key, windowMs) {
+      const now = Date.now();
+      cleanupOldEntries(now);
+
+      const current = entries.get(key);
+
+      // Eerste request in dit window (of window verstreken)
+      if (!current || now > current.resetTime) {
+        const entry = { count: 1, resetTime: now + windowMs };
+        entries.set(key, entry);
+        return { ...entry };
+      }
+
+      current.count++;
+      return { ...current };
+    }
+  };
+}
+
+// ========================================
+// POSTGRES STORE
+// ========================================
+
+/**
+ * Gedeelde store via rate_limit_hit() (atomische upsert per key).
+ *
+ * @throws Error bij een databasefout (checkRateLimit vangt dit af)
+ */
+export function createPostgresRateLimitStore(supabase: SupabaseClient): RateLimitStore {
+  let lastCleanup = Date.now();
+
+  return {
+    name: 'postgres',
+    async hit(key, windowMs) {
+      const { data, error } = await supabase.rpc('rate_limit_hit', {
+        p_key: key,
+        p_window_ms: windowMs
+      });
+
+      if (error) {
+        throw new Error(`rate_limit_hit failed: ${error.message}`);
+      }
+
+      // Verlopen tellers af en toe opruimen (fire-and-forget)
+      if (Date.now() - lastCleanup > CLEANUP_INTERVAL) {
+        lastCleanup = Date.now();
+        void supabase.rpc('cleanup_rate_limit_buckets').then(({ error: cleanupError }) => {
+          if (cleanupError) {
+            console.warn('⚠️ [RateLimiter] Cleanup failed:', cleanupError.message);
+          }
+        });
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return {
+        count: Number(row?.hit_count) || 1,
+        resetTime: row?.reset_at ? new Date(row.reset_at).getTime() : Date.now() + windowMs
+      };
+    }
+  };
+}
+
+// ========================================
+// REGISTRY
+// ========================================
+
+let activeStore: RateLimitStore | null = null;
+
+// Fallback bij databasefouten
+const fallbackStore = createMemoryRateLimitStore();
+
+/**
+ * Maak een store op basis van RATE_LIMIT_STORE
+ */
+function createRateLimitStoreFromEnv(): RateLimitStore {
+  const configured = process.env.RATE_LIMIT_STORE as RateLimitStoreName | undefined;
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (now > entry.resetTime) {
-      rateLimitStore.delete(key);
+  if (configured === 'memory' || !url || !key) {
+    if (configured === 'postgres') {
+      console.warn('⚠️ [RateLimiter] RATE_LIMIT_STORE=postgres but Supabase is not configured, using memory');
     }
+    return fallbackStore;
   }
+
+  return createPostgresRateLimitStore(createClient(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  }));
+}
+
+/**
+ * Haal de actieve store op (lazy, één instance per proces)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!activeStore) {
+    activeStore = createRateLimitStoreFromEnv();
+    console.log(`🚦 [RateLimiter] Using store: ${activeStore.name}`);
+  }
+  return activeStore;
+}
+
+/**
+ * Overschrijf de actieve store (bijv. een memory store in scripts/tests).
+ * Geef null mee om terug te gaan naar de store uit de environment.
+ */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  activeStore = store;
 }
 
 // ========================================
@@ -78,59 +211,37 @@ function cleanupOldEntries(): void {
 
 /**
  * Check of een request is toegestaan binnen de rate limit.
+ * Telt de request mee in het huidige window.
  *
  * @param key - Unieke identifier voor de rate limit bucket
  * @param config - Rate limit configuratie
  * @returns Object met allowed status, remaining requests, en reset time
  */
-export function checkRateLimit(
+export async function checkRateLimit(
   key: string,
   config: RateLimitConfig
-): RateLimitResult {
-  const now = Date.now();
-
-  // Cleanup oude entries periodiek
-  cleanupOldEntries();
-
-  const entry = rateLimitStore.get(key);
+): Promise<RateLimitResult> {
+  const store = getRateLimitStore();
+  let hit: { count: number; resetTime: number };
 
-  // Reset als window verstreken is
-  if (entry && now > entry.resetTime) {
-    rateLimitStore.delete(key);
+  try {
+    hit = await store.hit(key, config.windowMs);
+  } catch (error) {
+    console.warn(`⚠️ [RateLimiter] ${store.name} store failed, using memory:`, (error as Error).message);
+    hit = await fallbackStore.hit(key, config.windowMs);
   }
 
-  const current = rateLimitStore.get(key);
-
-  // Eerste request in dit window
-  if (!current) {
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + config.windowMs
-    });
-
-    return {
-      allowed: true,
-      remaining: config.maxRequests - 1,
-      resetIn: config.windowMs
-    };
-  }
+  const resetIn = Math.max(0, hit.resetTime - Date.now());
 
   // Check of limit bereikt is
-  if (current.count >= config.maxRequests) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetIn: current.resetTime - now
-    };
+  if (hit.count > config.maxRequests) {
+    return { allowed: false, remaining: 0, resetIn };
   }
 
-  // Increment counter
-  current.count++;
-
   return {
     allowed: true,
-    remaining: config.maxRequests - current.count,
-    resetIn: current.resetTime - now
+    remaining: config.maxRequests - hit.count,
+    resetIn
   };
 }
 
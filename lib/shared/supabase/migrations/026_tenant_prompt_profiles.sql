@@ -0,0 +1,70 @@
+-- ========================================
+-- Migration 026: Tenant Prompt Profiles
+-- ========================================
+-- Per-tenant prompt profiel voor de HR bot system prompt:
+-- - Persona naam (hoe de bot zichzelf voorstelt)
+-- - Toon (vriendelijk / formeel / informeel)
+-- - Extra regels bovenop de standaard regelset
+-- - Verboden onderwerpen
+-- - Escalatie contact (waar de gebruiker terecht kan)
+--
+-- VERSIONERING:
+-- Elke save maakt een NIEUWE rij met version + 1.
+-- Het profiel met het hoogste versienummer is actief.
+-- Rollback = kopie van een oude versie opslaan als nieuwe versie,
+-- zodat de historie altijd compleet blijft.
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS tenant_prompt_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+
+  -- Profiel velden
+  persona_name TEXT,
+  tone TEXT NOT NULL DEFAULT 'friendly' CHECK (tone IN ('friendly', 'formal', 'informal')),
+  extra_rules TEXT[] DEFAULT '{}',
+  forbidden_topics TEXT[] DEFAULT '{}',
+  escalation_contact TEXT,
+
+  -- Meta
+  change_note TEXT,            -- Optionele omschrijving van de wijziging
+  rolled_back_from INTEGER,    -- Versie waarvan deze rij een rollback-kopie is
+  created_by TEXT,             -- Email van de admin die de versie opsloeg
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (tenant_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_prompt_profiles_tenant_version
+  ON tenant_prompt_profiles(tenant_id, version DESC);
+
+COMMENT ON TABLE tenant_prompt_profiles IS 'Versioned per-tenant system prompt profiles (highest version is active)';
+COMMENT ON COLUMN tenant_prompt_profiles.persona_name IS 'Naam waarmee de bot zichzelf voorstelt, bijv. "Sanne van HR"';
+COMMENT ON COLUMN tenant_prompt_profiles.tone IS 'Toon van de antwoorden: friendly, formal of informal';
+COMMENT ON COLUMN tenant_prompt_profiles.extra_rules IS 'Extra regels die aan de standaard regelset worden toegevoegd';
+COMMENT ON COLUMN tenant_prompt_profiles.forbidden_topics IS 'Onderwerpen waar de bot niet op in mag gaan';
+COMMENT ON COLUMN tenant_prompt_profiles.escalation_contact IS 'Contact voor vragen die de bot niet kan beantwoorden';
+
+-- Enable RLS
+ALTER TABLE tenant_prompt_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to tenant_prompt_profiles"
+  ON tenant_prompt_profiles
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT tenant_id, version, persona_name, tone, created_at
+-- FROM tenant_prompt_profiles
+-- ORDER BY tenant_id, version DESC;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP TABLE IF EXISTS tenant_prompt_profiles;
@@ -0,0 +1,40 @@
+-- ========================================
+-- Migration 027: Tenant Model Settings
+-- ========================================
+-- Per-tenant instellingen voor het chat model.
+-- Voorheen hard-coded in lib/bot/openai.ts (gpt-4o, temperature 0.7,
+-- history van 10 berichten).
+--
+-- NULL = standaard waarde uit lib/bot/model-settings.ts
+-- ========================================
+
+-- ========================================
+-- STAP 1: Kolommen toevoegen
+-- ========================================
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS chat_model TEXT;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS chat_temperature REAL
+  CHECK (chat_temperature IS NULL OR (chat_temperature >= 0 AND chat_temperature <= 2));
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS chat_max_output_tokens INTEGER
+  CHECK (chat_max_output_tokens IS NULL OR chat_max_output_tokens > 0);
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS chat_history_window INTEGER
+  CHECK (chat_history_window IS NULL OR chat_history_window >= 0);
+
+COMMENT ON COLUMN tenants.chat_model IS 'Chat model voor deze tenant (NULL = gpt-4o)';
+COMMENT ON COLUMN tenants.chat_temperature IS 'Temperature 0-2 (NULL = 0.7)';
+COMMENT ON COLUMN tenants.chat_max_output_tokens IS 'Max output tokens per antwoord (NULL = geen limiet)';
+COMMENT ON COLUMN tenants.chat_history_window IS 'Aantal eerdere berichten dat meegaat naar het model (NULL = 10)';
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT id, chat_model, chat_temperature, chat_max_output_tokens, chat_history_window
+-- FROM tenants;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS chat_model;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS chat_temperature;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS chat_max_output_tokens;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS chat_history_window;
@@ -0,0 +1,86 @@
+-- ========================================
+-- Migration 028: Tenant Query Dictionary
+-- ========================================
+-- Per-tenant synoniemen en query rewrites voor de RAG zoekstap.
+-- Vervangt de hard-coded QUERY_EXPANSIONS / QUERY_REWRITES tabellen
+-- uit lib/rag/context.ts (die voor één klant geschreven waren en
+-- voor elke tenant golden, ongeacht taal of branche).
+--
+-- ENTRY TYPES:
+-- - expansion: trigger → extra zoektermen (terms)
+--              "vrij" → verlof, vakantiedagen, vrije dagen
+-- - rewrite:   trigger → complete alternatieve zoekopdracht (rewrite)
+--              "ik ben ziek" → "ziekmelding procedure verzuim"
+--
+-- TAAL:
+-- language = taalcode van de zoekvraag (nl, en, de, ...) of 'all'.
+-- Een entry wordt alleen toegepast als de taal van de zoekvraag
+-- (na eventuele vertaling) overeenkomt, of als language = 'all'.
+--
+-- Beheer via de tenant pagina in het admin panel (incl. CSV import/export).
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS tenant_query_dictionary (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('expansion', 'rewrite')),
+  language TEXT NOT NULL DEFAULT 'all',
+  trigger TEXT NOT NULL CHECK (trigger = lower(trigger) AND length(trim(trigger)) > 0),
+
+  -- expansion: terms gevuld, rewrite: rewrite gevuld
+  terms TEXT[] NOT NULL DEFAULT '{}',
+  rewrite TEXT,
+
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (tenant_id, entry_type, language, trigger),
+  CHECK (
+    (entry_type = 'expansion' AND cardinality(terms) > 0) OR
+    (entry_type = 'rewrite' AND rewrite IS NOT NULL AND length(trim(rewrite)) > 0)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_query_dictionary_tenant
+  ON tenant_query_dictionary(tenant_id, is_active);
+
+COMMENT ON TABLE tenant_query_dictionary IS 'Per-tenant synonym (expansion) and rewrite rules applied to RAG search queries';
+COMMENT ON COLUMN tenant_query_dictionary.entry_type IS 'expansion = extra zoektermen, rewrite = alternatieve zoekopdracht';
+COMMENT ON COLUMN tenant_query_dictionary.language IS 'Taalcode van de zoekvraag waarvoor de entry geldt, of all';
+COMMENT ON COLUMN tenant_query_dictionary.trigger IS 'Woord of woordgroep (lowercase) die in de vraag moet voorkomen';
+COMMENT ON COLUMN tenant_query_dictionary.terms IS 'Extra zoektermen (alleen voor expansion)';
+COMMENT ON COLUMN tenant_query_dictionary.rewrite IS 'Herschreven zoekopdracht (alleen voor rewrite)';
+
+-- Trigger voor updated_at (functie uit rag_schema.sql)
+DROP TRIGGER IF EXISTS update_tenant_query_dictionary_updated_at ON tenant_query_dictionary;
+CREATE TRIGGER update_tenant_query_dictionary_updated_at
+  BEFORE UPDATE ON tenant_query_dictionary
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE tenant_query_dictionary ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to tenant_query_dictionary"
+  ON tenant_query_dictionary
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT tenant_id, entry_type, language, COUNT(*) AS entries
+-- FROM tenant_query_dictionary
+-- GROUP BY tenant_id, entry_type, language
+-- ORDER BY tenant_id, entry_type, language;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP TRIGGER IF EXISTS update_tenant_query_dictionary_updated_at ON tenant_query_dictionary;
+-- DROP TABLE IF EXISTS tenant_query_dictionary;
@@ -0,0 +1,258 @@
+-- ========================================
+-- Migration 029: Hybrid Full-Text Search
+-- ========================================
+-- Echte Postgres full-text index naast de pgvector search.
+--
+-- PROBLEEM:
+-- search_documents_enhanced doet alleen keyword matching op de chunk
+-- metadata (keywords, alternativeTerms, summary). Exacte artikelnummers,
+-- productcodes en namen die de embeddings missen worden niet gevonden
+-- (QA categorie "retrieval").
+--
+-- OPLOSSING:
+-- - document_chunks.content_tsv: tsvector over content, met een
+--   text search config per tenant (dutch, english, ... of simple)
+-- - search_documents_fulltext(): BM25-achtige ranking met ts_rank_cd
+-- - De resultaten van beide retrievers worden in lib/rag/context.ts
+--   gecombineerd met reciprocal rank fusion (RRF)
+-- - Gewichten en thresholds per tenant (NULL = standaard waarde
+--   uit lib/rag/search-settings.ts)
+--
+-- TEXT SEARCH CONFIG:
+-- tenants.search_text_config, of afgeleid van document_language
+-- (nl → dutch, en → english, ...). Talen zonder Postgres stemmer
+-- (pl, ar, zh) gebruiken 'simple'.
+-- Na een wijziging van search_text_config of document_language worden
+-- de chunks van de tenant automatisch opnieuw geïndexeerd.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Tenant kolommen
+-- ========================================
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS search_text_config TEXT
+  CHECK (search_text_config IS NULL OR search_text_config IN (
+    'simple', 'dutch', 'english', 'german', 'french', 'spanish',
+    'italian', 'portuguese', 'romanian', 'turkish'
+  ));
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS search_vector_weight REAL
+  CHECK (search_vector_weight IS NULL OR (search_vector_weight >= 0 AND search_vector_weight <= 5));
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS search_fulltext_weight REAL
+  CHECK (search_fulltext_weight IS NULL OR (search_fulltext_weight >= 0 AND search_fulltext_weight <= 5));
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS search_rrf_k INTEGER
+  CHECK (search_rrf_k IS NULL OR (search_rrf_k >= 1 AND search_rrf_k <= 200));
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS search_similarity_threshold REAL
+  CHECK (search_similarity_threshold IS NULL OR (search_similarity_threshold >= 0 AND search_similarity_threshold <= 1));
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS search_keyword_weight REAL
+  CHECK (search_keyword_weight IS NULL OR (search_keyword_weight >= 0 AND search_keyword_weight <= 1));
+
+COMMENT ON COLUMN tenants.search_text_config IS 'Postgres text search config voor full-text search (NULL = afgeleid van document_language)';
+COMMENT ON COLUMN tenants.search_vector_weight IS 'RRF gewicht van de vector retriever (NULL = 1.0)';
+COMMENT ON COLUMN tenants.search_fulltext_weight IS 'RRF gewicht van de full-text retriever, 0 = uit (NULL = 1.0)';
+COMMENT ON COLUMN tenants.search_rrf_k IS 'RRF constante k (NULL = 60)';
+COMMENT ON COLUMN tenants.search_similarity_threshold IS 'Minimale cosine similarity voor vector candidates (NULL = 0.45)';
+COMMENT ON COLUMN tenants.search_keyword_weight IS 'Aandeel metadata keyword score in de vector score (NULL = 0.4)';
+
+-- ========================================
+-- STAP 2: Text search config helpers
+-- ========================================
+
+CREATE OR REPLACE FUNCTION search_config_for_language(p_language TEXT)
+RETURNS REGCONFIG
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (CASE lower(COALESCE(p_language, ''))
+    WHEN 'nl' THEN 'dutch'
+    WHEN 'en' THEN 'english'
+    WHEN 'de' THEN 'german'
+    WHEN 'fr' THEN 'french'
+    WHEN 'es' THEN 'spanish'
+    WHEN 'it' THEN 'italian'
+    WHEN 'pt' THEN 'portuguese'
+    WHEN 'ro' THEN 'romanian'
+    WHEN 'tr' THEN 'turkish'
+    ELSE 'simple'
+  END)::REGCONFIG;
+$$;
+
+CREATE OR REPLACE FUNCTION tenant_search_config(p_tenant_id TEXT)
+RETURNS REGCONFIG
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT COALESCE(t.search_text_config::REGCONFIG, search_config_for_language(t.document_language))
+      FROM tenants t
+      WHERE t.id = p_tenant_id
+    ),
+    'simple'::REGCONFIG
+  );
+$$;
+
+-- ========================================
+-- STAP 3: tsvector kolom op document_chunks
+-- ========================================
+-- search_config wordt bij insert gezet door een trigger;
+-- content_tsv is een generated column en blijft dus altijd in sync met content.
+
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS search_config REGCONFIG NOT NULL DEFAULT 'simple';
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS content_tsv TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector(search_config, COALESCE(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_content_tsv
+  ON document_chunks USING GIN (content_tsv);
+
+COMMENT ON COLUMN document_chunks.search_config IS 'Text search config van de tenant op het moment van indexeren';
+COMMENT ON COLUMN document_chunks.content_tsv IS 'Full-text index over content (generated)';
+
+-- Nieuwe chunks krijgen de config van hun tenant
+CREATE OR REPLACE FUNCTION set_document_chunk_search_config()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_config := tenant_search_config(NEW.tenant_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_document_chunks_search_config ON document_chunks;
+CREATE TRIGGER set_document_chunks_search_config
+  BEFORE INSERT ON document_chunks
+  FOR EACH ROW
+  EXECUTE FUNCTION set_document_chunk_search_config();
+
+-- Herindexeer de chunks als de taal of config van een tenant wijzigt
+CREATE OR REPLACE FUNCTION refresh_tenant_chunk_search_config()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_config REGCONFIG;
+BEGIN
+  v_config := COALESCE(NEW.search_text_config::REGCONFIG, search_config_for_language(NEW.document_language));
+
+  UPDATE document_chunks
+  SET search_config = v_config
+  WHERE tenant_id = NEW.id
+    AND search_config IS DISTINCT FROM v_config;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_tenant_chunk_search_config ON tenants;
+CREATE TRIGGER refresh_tenant_chunk_search_config
+  AFTER UPDATE OF search_text_config, document_language ON tenants
+  FOR EACH ROW
+  WHEN (
+    OLD.search_text_config IS DISTINCT FROM NEW.search_text_config OR
+    OLD.document_language IS DISTINCT FROM NEW.document_language
+  )
+  EXECUTE FUNCTION refresh_tenant_chunk_search_config();
+
+-- Backfill bestaande chunks
+UPDATE document_chunks dc
+SET search_config = tenant_search_config(dc.tenant_id)
+WHERE dc.search_config IS DISTINCT FROM tenant_search_config(dc.tenant_id);
+
+-- ========================================
+-- STAP 4: Full-text search functie
+-- ========================================
+-- Geeft chunks terug gerankt met ts_rank_cd (cover density).
+-- De query gebruikt OR tussen de termen: een vraag als
+-- "wat staat er in artikel 4.3 over vakantiegeld" moet ook chunks vinden
+-- die alleen "4.3" bevatten. ts_rank_cd beloont chunks met meer en
+-- dichter bij elkaar staande matches.
+-- Normalisatie 1|32: corrigeert voor documentlengte en schaalt naar 0-1.
+
+CREATE OR REPLACE FUNCTION search_documents_fulltext(
+  p_tenant_id TEXT,
+  p_query_text TEXT,
+  p_top_k INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  document_id UUID,
+  filename TEXT,
+  file_path TEXT,
+  content TEXT,
+  page_number INTEGER,
+  rank FLOAT,
+  metadata JSONB
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_config REGCONFIG;
+  v_query TSQUERY;
+BEGIN
+  v_config := tenant_search_config(p_tenant_id);
+
+  -- plainto_tsquery verwijdert stopwoorden en stemt de termen;
+  -- daarna AND → OR. Phrase operators (<->) voor samengestelde
+  -- termen zoals productcodes blijven intact.
+  v_query := replace(plainto_tsquery(v_config, COALESCE(p_query_text, ''))::TEXT, ' & ', ' | ')::TSQUERY;
+
+  -- Alleen stopwoorden: niets te zoeken
+  IF numnode(v_query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    dc.id AS chunk_id,
+    dc.document_id,
+    d.filename,
+    d.file_path,
+    dc.content,
+    dc.page_number,
+    ts_rank_cd(dc.content_tsv, v_query, 1 | 32)::FLOAT AS rank,
+    dc.metadata
+  FROM document_chunks dc
+  JOIN documents d ON d.id = dc.document_id
+  WHERE dc.tenant_id = p_tenant_id
+    AND dc.content_tsv @@ v_query
+  ORDER BY ts_rank_cd(dc.content_tsv, v_query, 1 | 32) DESC
+  LIMIT p_top_k;
+END;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION search_documents_fulltext TO service_role;
+GRANT EXECUTE ON FUNCTION search_documents_fulltext TO authenticated;
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT id, document_language, tenant_search_config(id) AS text_config
+-- FROM tenants;
+--
+-- SELECT tenant_id, search_config, COUNT(*) AS chunks
+-- FROM document_chunks
+-- GROUP BY tenant_id, search_config;
+--
+-- SELECT chunk_id, filename, page_number, rank
+-- FROM search_documents_fulltext('demo', 'artikel 4.3 vakantiegeld', 10);
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP FUNCTION IF EXISTS search_documents_fulltext(TEXT, TEXT, INTEGER);
+-- DROP TRIGGER IF EXISTS refresh_tenant_chunk_search_config ON tenants;
+-- DROP FUNCTION IF EXISTS refresh_tenant_chunk_search_config();
+-- DROP TRIGGER IF EXISTS set_document_chunks_search_config ON document_chunks;
+-- DROP FUNCTION IF EXISTS set_document_chunk_search_config();
+-- DROP INDEX IF EXISTS idx_document_chunks_content_tsv;
+-- ALTER TABLE document_chunks DROP COLUMN IF EXISTS content_tsv;
+-- ALTER TABLE document_chunks DROP COLUMN IF EXISTS search_config;
+-- DROP FUNCTION IF EXISTS tenant_search_config(TEXT);
+-- DROP FUNCTION IF EXISTS search_config_for_language(TEXT);
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS search_text_config;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS search_vector_weight;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS search_fulltext_weight;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS search_rrf_k;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS search_similarity_threshold;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS search_keyword_weight;
@@ -0,0 +1,162 @@
+-- ========================================
+-- Migration 030: Answer Cache
+-- ========================================
+-- Semantische cache voor veelgestelde vragen per tenant.
+-- "Wanneer wordt mijn salaris betaald?" wordt honderden keren gesteld;
+-- zonder cache kost elke vraag een embedding, rerank en een volledige
+-- chat completion.
+--
+-- WERKING:
+-- - Key: tenant + taal van het antwoord + embedding van de
+--   genormaliseerde vraag
+-- - Hit als de cosine similarity >= answer_cache_threshold
+-- - Een hit speelt het opgeslagen antwoord + citations af via
+--   dezelfde SSE events (metadata / content / done)
+-- - Alleen eerste vragen van een gesprek (zonder history) worden opgeslagen
+--
+-- INVALIDATIE:
+-- lib/rag/processor.ts leegt de cache van een tenant na elke
+-- verwerking, herverwerking of verwijdering van een document.
+-- Daarnaast verlopen entries na answer_cache_ttl_hours.
+--
+-- Geen vector index: per tenant + taal zijn het hooguit enkele
+-- duizenden rijen, een scan via idx_answer_cache_tenant_language volstaat.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Tenant instellingen
+-- ========================================
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS answer_cache_enabled BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS answer_cache_threshold REAL
+  CHECK (answer_cache_threshold IS NULL OR (answer_cache_threshold >= 0.8 AND answer_cache_threshold <= 1));
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS answer_cache_ttl_hours INTEGER
+  CHECK (answer_cache_ttl_hours IS NULL OR (answer_cache_ttl_hours >= 1 AND answer_cache_ttl_hours <= 720));
+
+COMMENT ON COLUMN tenants.answer_cache_enabled IS 'Semantische answer cache aan/uit';
+COMMENT ON COLUMN tenants.answer_cache_threshold IS 'Minimale cosine similarity voor een cache hit (NULL = 0.95)';
+COMMENT ON COLUMN tenants.answer_cache_ttl_hours IS 'Levensduur van cache entries in uren (NULL = 168)';
+
+-- ========================================
+-- STAP 2: Cache tabel
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS answer_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  language TEXT NOT NULL,
+
+  question TEXT NOT NULL,              -- Originele vraag (eerste keer gesteld)
+  normalized_question TEXT NOT NULL,   -- Lowercase, zonder leestekens aan het eind
+  question_embedding VECTOR(1536) NOT NULL,
+
+  answer TEXT NOT NULL,
+  citations JSONB NOT NULL DEFAULT '[]',
+  source_log_id TEXT,                  -- chat_logs rij waar het antwoord vandaan komt
+
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_hit_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (tenant_id, language, normalized_question)
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_cache_tenant_language
+  ON answer_cache(tenant_id, language, created_at DESC);
+
+COMMENT ON TABLE answer_cache IS 'Semantic per-tenant cache of chat answers for frequently asked questions';
+COMMENT ON COLUMN answer_cache.language IS 'Taal van het antwoord (UI taal van de gebruiker)';
+COMMENT ON COLUMN answer_cache.hit_count IS 'Aantal keer dat dit antwoord uit de cache is afgespeeld';
+
+-- Enable RLS
+ALTER TABLE answer_cache ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to answer_cache"
+  ON answer_cache
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- STAP 3: Lookup functie
+-- ========================================
+-- Geeft de beste kandidaat terug, ook onder de threshold:
+-- de vergelijking gebeurt in lib/rag/answer-cache.ts zodat de
+-- similarity van een miss gelogd kan worden (handig voor tuning).
+
+CREATE OR REPLACE FUNCTION match_answer_cache(
+  p_tenant_id TEXT,
+  p_language TEXT,
+  p_query_embedding VECTOR(1536),
+  p_max_age_hours INTEGER DEFAULT 168
+)
+RETURNS TABLE (
+  id UUID,
+  question TEXT,
+  answer TEXT,
+  citations JSONB,
+  source_log_id TEXT,
+  created_at TIMESTAMPTZ,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ac.id,
+    ac.question,
+    ac.answer,
+    ac.citations,
+    ac.source_log_id,
+    ac.created_at,
+    (1 - (ac.question_embedding <=> p_query_embedding))::FLOAT AS similarity
+  FROM answer_cache ac
+  WHERE ac.tenant_id = p_tenant_id
+    AND ac.language = p_language
+    AND ac.created_at >= NOW() - (p_max_age_hours || ' hours')::INTERVAL
+  ORDER BY ac.question_embedding <=> p_query_embedding
+  LIMIT 1;
+END;
+$$;
+
+-- Hit teller bijwerken (atomisch, zonder read-modify-write in de app)
+CREATE OR REPLACE FUNCTION record_answer_cache_hit(p_id UUID)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  UPDATE answer_cache
+  SET hit_count = hit_count + 1,
+      last_hit_at = NOW()
+  WHERE id = p_id;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION match_answer_cache TO service_role;
+GRANT EXECUTE ON FUNCTION record_answer_cache_hit TO service_role;
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT tenant_id, language, COUNT(*) AS entries, SUM(hit_count) AS hits
+-- FROM answer_cache
+-- GROUP BY tenant_id, language
+-- ORDER BY hits DESC;
+--
+-- SELECT question, hit_count, last_hit_at
+-- FROM answer_cache
+-- WHERE tenant_id = 'demo'
+-- ORDER BY hit_count DESC
+-- LIMIT 20;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP FUNCTION IF EXISTS record_answer_cache_hit(UUID);
+-- DROP FUNCTION IF EXISTS match_answer_cache(TEXT, TEXT, VECTOR, INTEGER);
+-- DROP TABLE IF EXISTS answer_cache;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS answer_cache_enabled;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS answer_cache_threshold;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS answer_cache_ttl_hours;
@@ -0,0 +1,131 @@
+-- ========================================
+-- Migration 031: Tenant API Keys
+-- ========================================
+-- Per-tenant API keys voor server-to-server toegang en de embed widget.
+-- Tot nu toe kwam de tenant van /api/chat uit de body, een header of
+-- ?tenant=: iedereen die een slug kent kan het OpenAI budget van die
+-- tenant opmaken.
+--
+-- KEY TYPES:
+-- - secret (lvt_sk_...): server-to-server, scopes chat / documents / logs:read
+-- - public (lvt_pk_...): embed widget, alleen scope chat en alleen vanaf
+--   de allowed_origins (of vanuit onze eigen /embed iframe)
+--
+-- OPSLAG:
+-- Alleen de SHA-256 hash van de key wordt opgeslagen. De volledige key
+-- wordt één keer getoond bij het aanmaken. key_prefix is voor herkenning
+-- in de admin UI.
+--
+-- RESOLUTIE:
+-- middleware.ts resolveert de key via resolve_api_key() naar een tenant
+-- en zet x-tenant-id; routes controleren de scope.
+-- Met require_api_key = true weigert /api/chat requests zonder key.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Tenant instelling
+-- ========================================
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS require_api_key BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN tenants.require_api_key IS '/api/chat alleen met een geldige API key (secret of public)';
+
+-- ========================================
+-- STAP 2: API keys tabel
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS tenant_api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+
+  key_type TEXT NOT NULL CHECK (key_type IN ('secret', 'public')),
+  key_prefix TEXT NOT NULL,            -- Eerste tekens, bijv. lvt_sk_Ab3d
+  key_hash TEXT NOT NULL UNIQUE,       -- SHA-256 (hex) van de volledige key
+
+  scopes TEXT[] NOT NULL DEFAULT ARRAY['chat']::TEXT[]
+    CHECK (scopes <@ ARRAY['chat', 'documents', 'logs:read']::TEXT[] AND cardinality(scopes) > 0),
+  allowed_origins TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+
+  created_by TEXT,                     -- Email van de admin
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+
+  -- Public keys: alleen chat en verplicht minstens één origin
+  CHECK (
+    key_type = 'secret'
+    OR (scopes = ARRAY['chat']::TEXT[] AND cardinality(allowed_origins) > 0)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_api_keys_tenant
+  ON tenant_api_keys(tenant_id, created_at DESC);
+
+COMMENT ON TABLE tenant_api_keys IS 'Hashed, scoped and revocable API keys per tenant';
+COMMENT ON COLUMN tenant_api_keys.allowed_origins IS 'Origins (https://www.acme.nl, https://*.acme.nl) voor public keys';
+COMMENT ON COLUMN tenant_api_keys.last_used_at IS 'Maximaal één update per minuut (zie resolve_api_key)';
+
+-- Enable RLS
+ALTER TABLE tenant_api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to tenant_api_keys"
+  ON tenant_api_keys
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- STAP 3: Resolve functie
+-- ========================================
+-- Zoekt een actieve key op hash en werkt last_used_at bij
+-- (hooguit één keer per minuut, om write load te beperken).
+-- Keys van een inactieve tenant worden niet geresolved.
+
+CREATE OR REPLACE FUNCTION resolve_api_key(p_key_hash TEXT)
+RETURNS TABLE (
+  id UUID,
+  tenant_id TEXT,
+  key_type TEXT,
+  scopes TEXT[],
+  allowed_origins TEXT[]
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE tenant_api_keys k
+  SET last_used_at = NOW()
+  WHERE k.key_hash = p_key_hash
+    AND k.revoked_at IS NULL
+    AND (k.last_used_at IS NULL OR k.last_used_at < NOW() - INTERVAL '1 minute');
+
+  RETURN QUERY
+  SELECT k.id, k.tenant_id, k.key_type, k.scopes, k.allowed_origins
+  FROM tenant_api_keys k
+  JOIN tenants t ON t.id = k.tenant_id
+  WHERE k.key_hash = p_key_hash
+    AND k.revoked_at IS NULL
+    AND t.is_active = true;
+END;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION resolve_api_key TO service_role;
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT tenant_id, name, key_type, key_prefix, scopes, last_used_at, revoked_at
+-- FROM tenant_api_keys
+-- ORDER BY tenant_id, created_at DESC;
+--
+-- SELECT id, require_api_key FROM tenants WHERE require_api_key = true;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP FUNCTION IF EXISTS resolve_api_key(TEXT);
+-- DROP TABLE IF EXISTS tenant_api_keys;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS require_api_key;
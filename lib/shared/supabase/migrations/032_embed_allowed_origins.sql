@@ -0,0 +1,76 @@
+-- ========================================
+-- Migration 032: Embed Allowed Origins
+-- ========================================
+-- Per-tenant lijst van domeinen die de chatbot mogen embedden.
+-- Tot nu toe kwam frame-ancestors voor /embed uit één globale
+-- ALLOWED_EMBED_DOMAINS env var: elke klant mocht dus op elk domein
+-- uit die lijst geframed worden, en ?tenant=acme werkte overal.
+--
+-- HANDHAVING:
+-- - /embed: Content-Security-Policy frame-ancestors 'self' + origins
+--   van de tenant (leeg = legacy ALLOWED_EMBED_DOMAINS, anders alleen
+--   eigen domein)
+-- - /api/chat: Origin/Referer moet ons eigen domein zijn of in de lijst
+--   staan (requests zonder Origin, bijv. server-to-server, mogen door)
+--
+-- LOGGING:
+-- Geweigerde pogingen komen in embed_origin_violations, zodat we kunnen
+-- zien wie de bot van een klant hotlinkt.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Tenant instelling
+-- ========================================
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS embed_allowed_origins TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+COMMENT ON COLUMN tenants.embed_allowed_origins IS 'Origins (https://www.acme.nl, https://*.acme.nl) die /embed mogen framen en /api/chat mogen aanroepen';
+
+-- ========================================
+-- STAP 2: Violations tabel
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS embed_origin_violations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+
+  kind TEXT NOT NULL CHECK (kind IN ('frame', 'api')),  -- /embed iframe of /api/chat call
+  origin TEXT NOT NULL,                -- Geweigerde origin
+  referer TEXT,                        -- Volledige Referer (indien meegestuurd)
+  path TEXT NOT NULL,
+  user_agent TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_embed_origin_violations_tenant
+  ON embed_origin_violations(tenant_id, created_at DESC);
+
+COMMENT ON TABLE embed_origin_violations IS 'Geweigerde embed / chat requests vanaf niet-toegestane domeinen';
+
+-- Enable RLS
+ALTER TABLE embed_origin_violations ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to embed_origin_violations"
+  ON embed_origin_violations
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT id, embed_allowed_origins FROM tenants WHERE cardinality(embed_allowed_origins) > 0;
+--
+-- SELECT tenant_id, kind, origin, COUNT(*) AS attempts, MAX(created_at) AS last_seen
+-- FROM embed_origin_violations
+-- GROUP BY tenant_id, kind, origin
+-- ORDER BY last_seen DESC;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP TABLE IF EXISTS embed_origin_violations;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS embed_allowed_origins;
@@ -0,0 +1,138 @@
+-- ========================================
+-- Migration 033: Rate Limits & Tenant Quota's
+-- ========================================
+-- De rate limiter hield tellers bij in een in-process Map: bij elke
+-- serverless cold start begon de teller opnieuw en instances deelden
+-- niets. Daarnaast gold voor elke tenant dezelfde limiet
+-- (10 chat requests per minuut per IP).
+--
+-- NIEUW:
+-- - rate_limit_buckets + rate_limit_hit(): gedeelde fixed-window tellers
+--   (zie lib/shared/rate-limiter.ts, RATE_LIMIT_STORE=postgres)
+-- - Per-tenant overrides voor de chat en API rate limits
+-- - Maandelijkse quota's: max. aantal berichten en/of max. chat kosten
+--   (USD), bijgehouden via chat_logs (zie lib/shared/quota.ts)
+--
+-- NULL = standaard waarde (rate limits) of geen quota.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Tenant instellingen
+-- ========================================
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS rate_limit_chat_per_minute INTEGER
+  CHECK (rate_limit_chat_per_minute IS NULL OR rate_limit_chat_per_minute > 0);
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS rate_limit_api_per_minute INTEGER
+  CHECK (rate_limit_api_per_minute IS NULL OR rate_limit_api_per_minute > 0);
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS monthly_message_quota INTEGER
+  CHECK (monthly_message_quota IS NULL OR monthly_message_quota > 0);
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS monthly_cost_quota_usd NUMERIC(10, 2)
+  CHECK (monthly_cost_quota_usd IS NULL OR monthly_cost_quota_usd > 0);
+
+COMMENT ON COLUMN tenants.rate_limit_chat_per_minute IS 'Chat requests per minuut per IP (NULL = standaard)';
+COMMENT ON COLUMN tenants.rate_limit_api_per_minute IS 'Requests per minuut per API key op /api/v1 (NULL = standaard)';
+COMMENT ON COLUMN tenants.monthly_message_quota IS 'Max. chat berichten per kalendermaand (NULL = onbeperkt)';
+COMMENT ON COLUMN tenants.monthly_cost_quota_usd IS 'Max. chat kosten (USD) per kalendermaand (NULL = onbeperkt)';
+
+-- ========================================
+-- STAP 2: Rate limit tellers
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY,                -- endpoint:tenant:ip (zie getRateLimitKey)
+  count INTEGER NOT NULL DEFAULT 0,
+  reset_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_reset
+  ON rate_limit_buckets(reset_at);
+
+COMMENT ON TABLE rate_limit_buckets IS 'Fixed-window rate limit tellers, gedeeld tussen alle instances';
+
+-- Enable RLS
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to rate_limit_buckets"
+  ON rate_limit_buckets
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- STAP 3: Functies
+-- ========================================
+
+-- Tel een request in het huidige window (atomisch) en geef de stand terug.
+-- Is het window verlopen, dan begint er een nieuw window.
+CREATE OR REPLACE FUNCTION rate_limit_hit(p_key TEXT, p_window_ms INTEGER)
+RETURNS TABLE (hit_count INTEGER, reset_at TIMESTAMPTZ)
+LANGUAGE sql
+AS $$
+  INSERT INTO rate_limit_buckets AS b (key, count, reset_at)
+  VALUES (p_key, 1, NOW() + make_interval(secs => p_window_ms / 1000.0))
+  ON CONFLICT (key) DO UPDATE SET
+    count = CASE WHEN b.reset_at <= NOW() THEN 1 ELSE b.count + 1 END,
+    reset_at = CASE
+      WHEN b.reset_at <= NOW() THEN NOW() + make_interval(secs => p_window_ms / 1000.0)
+      ELSE b.reset_at
+    END
+  RETURNING b.count, b.reset_at;
+$$;
+
+-- Verwijder verlopen tellers (wordt periodiek door de limiter aangeroepen)
+CREATE OR REPLACE FUNCTION cleanup_rate_limit_buckets()
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  deleted INTEGER;
+BEGIN
+  DELETE FROM rate_limit_buckets WHERE reset_at < NOW();
+  GET DIAGNOSTICS deleted = ROW_COUNT;
+  RETURN deleted;
+END;
+$$;
+
+-- Chat gebruik van een tenant sinds een tijdstip (voor de maand quota)
+CREATE OR REPLACE FUNCTION get_tenant_chat_usage(p_tenant_id TEXT, p_since TIMESTAMPTZ)
+RETURNS TABLE (message_count BIGINT, total_cost NUMERIC)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COUNT(*), COALESCE(SUM(total_cost), 0)
+  FROM chat_logs
+  WHERE tenant_id = p_tenant_id
+    AND created_at >= p_since;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_chat_logs_tenant_created
+  ON chat_logs(tenant_id, created_at DESC);
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT * FROM rate_limit_hit('test:tenant:127.0.0.1', 60000);
+-- SELECT * FROM rate_limit_hit('test:tenant:127.0.0.1', 60000);  -- hit_count = 2
+-- DELETE FROM rate_limit_buckets WHERE key = 'test:tenant:127.0.0.1';
+--
+-- SELECT id, rate_limit_chat_per_minute, rate_limit_api_per_minute,
+--        monthly_message_quota, monthly_cost_quota_usd
+-- FROM tenants
+-- WHERE monthly_message_quota IS NOT NULL OR monthly_cost_quota_usd IS NOT NULL;
+--
+-- SELECT * FROM get_tenant_chat_usage('acme', date_trunc('month', NOW()));
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP FUNCTION IF EXISTS get_tenant_chat_usage(TEXT, TIMESTAMPTZ);
+-- DROP FUNCTION IF EXISTS cleanup_rate_limit_buckets();
+-- DROP FUNCTION IF EXISTS rate_limit_hit(TEXT, INTEGER);
+-- DROP TABLE IF EXISTS rate_limit_buckets;
+-- DROP INDEX IF EXISTS idx_chat_logs_tenant_created;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS rate_limit_chat_per_minute;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS rate_limit_api_per_minute;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS monthly_message_quota;
+-- ALTER TABLE tenants DROP COLUMN IF EXISTS monthly_cost_quota_usd;
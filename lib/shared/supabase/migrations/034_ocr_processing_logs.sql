@@ -0,0 +1,45 @@
+-- ========================================
+-- Migration 034: OCR Fallback voor Gescande PDF's
+-- ========================================
+-- Gescande PDF's (getekende CAO bijlagen, oudere beleidsstukken) hebben
+-- geen tekstlaag. Pagina's met weinig of geen tekst gaan nu door een
+-- lokale OCR stap (tesseract, zie lib/rag/extractors/ocr.ts).
+--
+-- NIEUW:
+-- - document_processing_logs.ocr_pages: aantal pagina's met OCR tekst
+-- - document_processing_logs.ocr_duration_ms: tijd besteed aan OCR
+-- - document_processing_logs.ocr_engine: gebruikte OCR engine
+--
+-- Chunks met OCR tekst krijgen metadata.ocr = true, zodat citations
+-- kunnen waarschuwen dat de tekst fouten kan bevatten.
+-- ========================================
+
+-- ========================================
+-- STAP 1: OCR kolommen in de processing logs
+-- ========================================
+
+ALTER TABLE document_processing_logs ADD COLUMN IF NOT EXISTS ocr_pages INTEGER;
+ALTER TABLE document_processing_logs ADD COLUMN IF NOT EXISTS ocr_duration_ms INTEGER;
+ALTER TABLE document_processing_logs ADD COLUMN IF NOT EXISTS ocr_engine TEXT;
+
+COMMENT ON COLUMN document_processing_logs.ocr_pages IS 'Aantal pagina''s waarvan de tekst via OCR herkend is (NULL = geen OCR)';
+COMMENT ON COLUMN document_processing_logs.ocr_duration_ms IS 'Totale OCR tijd in milliseconden';
+COMMENT ON COLUMN document_processing_logs.ocr_engine IS 'Gebruikte OCR engine, bijv. tesseract';
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT filename, total_pages, ocr_pages, ocr_duration_ms, ocr_engine
+-- FROM document_processing_logs
+-- WHERE ocr_pages IS NOT NULL
+-- ORDER BY started_at DESC
+-- LIMIT 20;
+--
+-- SELECT COUNT(*) FROM document_chunks WHERE metadata->>'ocr' = 'true';
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- ALTER TABLE document_processing_logs DROP COLUMN IF EXISTS ocr_pages;
+-- ALTER TABLE document_processing_logs DROP COLUMN IF EXISTS ocr_duration_ms;
+-- ALTER TABLE document_processing_logs DROP COLUMN IF EXISTS ocr_engine;
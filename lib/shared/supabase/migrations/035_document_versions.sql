@@ -0,0 +1,247 @@
+-- ========================================
+-- Migration 035: Document Versies
+-- ========================================
+-- Een nieuwe CAO uploaden betekende: oude document rij verwijderen
+-- (CASCADE naar de chunks) en het nieuwe bestand als los document
+-- verwerken. Historie en QA templates op de oude bestandsnaam gingen
+-- daarmee verloren.
+--
+-- NIEUW:
+-- - documents.version: huidige (doorzoekbare) versie
+-- - document_versions: metadata + geëxtraheerde tekst per versie (diff)
+-- - document_chunk_archive: chunks van eerdere versies, incl. embeddings
+-- - archive_document_version(): zet de huidige chunks in het archief
+-- - restore_document_version(): zet een gearchiveerde versie terug,
+--   zonder opnieuw te embedden (rollback)
+--
+-- De zoekfuncties blijven ongewijzigd: gearchiveerde chunks staan in een
+-- aparte tabel en zijn dus nooit doorzoekbaar.
+--
+-- Chunks krijgen metadata.documentVersion, zodat citations in de
+-- chat logs vastleggen uit welke versie een bron kwam.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Versie op het document
+-- ========================================
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN documents.version IS 'Huidige (doorzoekbare) versie van het document';
+
+-- ========================================
+-- STAP 2: Versie historie
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS document_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  tenant_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+
+  filename TEXT NOT NULL,
+  file_path TEXT,                      -- Storage pad van dit bestand
+  file_size INTEGER,
+  mime_type TEXT,
+  total_pages INTEGER,
+  total_chunks INTEGER DEFAULT 0,
+  extracted_text TEXT,                 -- Tekst van de extractor, voor de diff tussen versies
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  archived_at TIMESTAMPTZ,             -- NULL = huidige versie
+
+  UNIQUE (document_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_versions_document
+  ON document_versions(document_id, version DESC);
+
+COMMENT ON TABLE document_versions IS 'Versie historie per document (huidige + gearchiveerde versies)';
+COMMENT ON COLUMN document_versions.extracted_text IS 'Geëxtraheerde tekst (NULL voor versies van voor migratie 035)';
+
+-- Enable RLS
+ALTER TABLE document_versions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to document_versions"
+  ON document_versions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Bestaande documenten worden versie 1
+INSERT INTO document_versions (document_id, tenant_id, version, filename, file_path, file_size, mime_type, total_pages, total_chunks, created_at)
+SELECT d.id, d.tenant_id, d.version, d.filename, d.file_path, d.file_size, d.mime_type, d.total_pages, d.total_chunks, d.created_at
+FROM documents d
+ON CONFLICT (document_id, version) DO NOTHING;
+
+-- ========================================
+-- STAP 3: Chunk archief
+-- ========================================
+-- Zelfde kolommen als document_chunks (zonder full-text kolommen).
+-- Chunk ids blijven behouden, zodat chunk_id's in chat logs na een
+-- rollback weer naar dezelfde chunk wijzen. Geen vector index: het
+-- archief wordt nooit doorzocht.
+
+CREATE TABLE IF NOT EXISTS document_chunk_archive (
+  id UUID PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding VECTOR(1536),
+  page_number INTEGER,
+  chunk_index INTEGER,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMPTZ,
+  archived_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chunk_archive_document_version
+  ON document_chunk_archive(document_id, version);
+
+COMMENT ON TABLE document_chunk_archive IS 'Chunks (met embeddings) van eerdere document versies, voor rollback';
+
+-- Enable RLS
+ALTER TABLE document_chunk_archive ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to document_chunk_archive"
+  ON document_chunk_archive
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- STAP 4: Huidige versie archiveren
+-- ========================================
+-- Wordt aangeroepen vlak voor het verwerken van een nieuwe versie.
+-- Geeft het nummer van de gearchiveerde versie terug.
+
+CREATE OR REPLACE FUNCTION archive_document_version(p_document_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_version INTEGER;
+BEGIN
+  SELECT version INTO v_version FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF v_version IS NULL THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  INSERT INTO document_chunk_archive (id, tenant_id, document_id, version, content, embedding, page_number, chunk_index, metadata, created_at)
+  SELECT dc.id, dc.tenant_id, dc.document_id, v_version, dc.content, dc.embedding, dc.page_number, dc.chunk_index, dc.metadata, dc.created_at
+  FROM document_chunks dc
+  WHERE dc.document_id = p_document_id;
+
+  DELETE FROM document_chunks WHERE document_id = p_document_id;
+
+  UPDATE document_versions
+  SET archived_at = NOW()
+  WHERE document_id = p_document_id AND version = v_version;
+
+  RETURN v_version;
+END;
+$$;
+
+-- ========================================
+-- STAP 5: Versie terugzetten (rollback)
+-- ========================================
+-- Verplaatst de chunks van de huidige versie naar het archief (of
+-- verwijdert ze met p_discard_current, bijv. na een mislukte upload)
+-- en zet de chunks van p_version terug. Embeddings worden hergebruikt.
+
+CREATE OR REPLACE FUNCTION restore_document_version(
+  p_document_id UUID,
+  p_version INTEGER,
+  p_discard_current BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_current INTEGER;
+  v_target document_versions%ROWTYPE;
+  v_restored INTEGER;
+BEGIN
+  SELECT version INTO v_current FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF v_current IS NULL THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  SELECT * INTO v_target FROM document_versions WHERE document_id = p_document_id AND version = p_version;
+
+  IF v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Version % of document % not found', p_version, p_document_id;
+  END IF;
+
+  -- Huidige versie opzij zetten
+  IF v_current <> p_version THEN
+    IF p_discard_current THEN
+      DELETE FROM document_chunks WHERE document_id = p_document_id;
+      DELETE FROM document_versions WHERE document_id = p_document_id AND version = v_current;
+    ELSE
+      PERFORM archive_document_version(p_document_id);
+    END IF;
+  ELSE
+    -- Versie was al gearchiveerd (archive_document_version zonder nieuwe versie)
+    DELETE FROM document_chunks WHERE document_id = p_document_id;
+  END IF;
+
+  -- Gearchiveerde chunks terugzetten (search_config via de insert trigger)
+  INSERT INTO document_chunks (id, tenant_id, document_id, content, embedding, page_number, chunk_index, metadata, created_at)
+  SELECT a.id, a.tenant_id, a.document_id, a.content, a.embedding, a.page_number, a.chunk_index, a.metadata, a.created_at
+  FROM document_chunk_archive a
+  WHERE a.document_id = p_document_id AND a.version = p_version;
+
+  GET DIAGNOSTICS v_restored = ROW_COUNT;
+
+  DELETE FROM document_chunk_archive WHERE document_id = p_document_id AND version = p_version;
+
+  UPDATE document_versions
+  SET archived_at = NULL
+  WHERE id = v_target.id;
+
+  UPDATE documents
+  SET version = p_version,
+      filename = v_target.filename,
+      file_path = v_target.file_path,
+      file_size = v_target.file_size,
+      mime_type = COALESCE(v_target.mime_type, mime_type),
+      total_pages = v_target.total_pages,
+      total_chunks = v_restored,
+      processing_status = 'completed',
+      processing_error = NULL
+  WHERE id = p_document_id;
+
+  RETURN v_restored;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION archive_document_version TO service_role;
+GRANT EXECUTE ON FUNCTION restore_document_version TO service_role;
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT d.filename, d.version, v.version AS history_version, v.archived_at,
+--   (SELECT COUNT(*) FROM document_chunk_archive a WHERE a.document_id = v.document_id AND a.version = v.version) AS archived_chunks
+-- FROM documents d
+-- JOIN document_versions v ON v.document_id = d.id
+-- ORDER BY d.filename, v.version DESC;
+--
+-- SELECT metadata->>'documentVersion', COUNT(*) FROM document_chunks GROUP BY 1;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP FUNCTION IF EXISTS restore_document_version(UUID, INTEGER, BOOLEAN);
+-- DROP FUNCTION IF EXISTS archive_document_version(UUID);
+-- DROP TABLE IF EXISTS document_chunk_archive;
+-- DROP TABLE IF EXISTS document_versions;
+-- ALTER TABLE documents DROP COLUMN IF EXISTS version;
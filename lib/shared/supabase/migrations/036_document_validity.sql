@@ -0,0 +1,57 @@
+-- ========================================
+-- Migration 036: Geldigheid van documenten
+-- ========================================
+-- Een verlopen CAO of oud verlofbeleid bleef gewoon doorzoekbaar, en
+-- de bot citeerde soms de oude regeling terwijl er al een nieuwe stond.
+--
+-- NIEUW:
+-- - documents.valid_from: vanaf wanneer het document geldt (NULL = altijd)
+-- - documents.valid_until: t/m wanneer het document geldt (NULL = geen einddatum)
+--
+-- In retrieveContext:
+-- - Verlopen documenten (valid_until < vandaag) worden uitgesloten
+-- - Documenten die nog niet gelden (valid_from > vandaag) tellen minder zwaar
+-- - Bij twee geldige versies van hetzelfde document (zelfde bestandsnaam
+--   zonder jaartal) wint de versie met de nieuwste valid_from
+--
+-- Het dashboard (admin + portal) toont documenten die binnen 30 dagen
+-- verlopen.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Kolommen
+-- ========================================
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS valid_from DATE;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS valid_until DATE;
+
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_validity_check;
+ALTER TABLE documents ADD CONSTRAINT documents_validity_check
+  CHECK (valid_from IS NULL OR valid_until IS NULL OR valid_until >= valid_from);
+
+COMMENT ON COLUMN documents.valid_from IS 'Document geldig vanaf (NULL = geen begindatum)';
+COMMENT ON COLUMN documents.valid_until IS 'Document geldig t/m (NULL = geen einddatum). Daarna uitgesloten van zoeken';
+
+-- ========================================
+-- STAP 2: Index voor verloop waarschuwingen
+-- ========================================
+
+CREATE INDEX IF NOT EXISTS idx_documents_valid_until
+  ON documents(tenant_id, valid_until)
+  WHERE valid_until IS NOT NULL;
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT tenant_id, filename, valid_from, valid_until
+-- FROM documents
+-- WHERE valid_until IS NOT NULL AND valid_until <= CURRENT_DATE + 30
+-- ORDER BY valid_until;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP INDEX IF EXISTS idx_documents_valid_until;
+-- ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_validity_check;
+-- ALTER TABLE documents DROP COLUMN IF EXISTS valid_until;
+-- ALTER TABLE documents DROP COLUMN IF EXISTS valid_from;
@@ -0,0 +1,164 @@
+-- ========================================
+-- Migration 037: Document Job Queue
+-- ========================================
+-- Uploads werden binnen het HTTP request verwerkt (extractie, semantic
+-- chunking, embeddings, metadata). Grote PDF's liepen tegen de
+-- serverless timeout aan en lieten een document achter dat voor altijd
+-- op 'processing' bleef staan.
+--
+-- NIEUW:
+-- - document_jobs: persistente wachtrij, één job per verwerking
+-- - claim_document_job(): pakt de volgende job met FOR UPDATE SKIP LOCKED,
+--   zodat meerdere workers naast elkaar kunnen draaien
+--
+-- Verwerking in stappen (stage): extract → chunk → metadata → embed → finalize.
+-- Het resultaat van elke stap staat in checkpoint; een herstarte job
+-- (retry of vastgelopen worker) gaat verder bij de stap waar hij was.
+-- Embed slaat chunks per batch op, dus ook daar gaat hij verder waar
+-- hij gebleven was.
+--
+-- Retries: na een fout gaat de job terug naar 'queued' met run_after in
+-- de toekomst (exponentiële backoff), tot max_attempts.
+-- Een running job zonder heartbeat (worker gestopt of timeout) wordt na
+-- p_stale_after_seconds opnieuw geclaimd.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Jobs tabel
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS document_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  stage TEXT NOT NULL DEFAULT 'extract'
+    CHECK (stage IN ('extract', 'chunk', 'metadata', 'embed', 'finalize')),
+
+  payload JSONB NOT NULL DEFAULT '{}',      -- Bucket, storage pad, bestandsnaam, MIME type
+  checkpoint JSONB NOT NULL DEFAULT '{}',   -- Resultaten van afgeronde stappen
+  progress JSONB NOT NULL DEFAULT '{}',     -- Voortgang voor de status polling
+
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+
+  locked_by TEXT,                           -- Worker id
+  locked_at TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ,
+  cancel_requested BOOLEAN NOT NULL DEFAULT false,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Wachtrij: volgende job die mag draaien
+CREATE INDEX IF NOT EXISTS idx_document_jobs_queue
+  ON document_jobs(run_after, created_at)
+  WHERE status = 'queued';
+
+-- Vastgelopen workers
+CREATE INDEX IF NOT EXISTS idx_document_jobs_running
+  ON document_jobs(heartbeat_at)
+  WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_document_jobs_tenant
+  ON document_jobs(tenant_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_document_jobs_document
+  ON document_jobs(document_id, created_at DESC);
+
+COMMENT ON TABLE document_jobs IS 'Wachtrij voor document verwerking (extractie, chunking, embeddings)';
+COMMENT ON COLUMN document_jobs.checkpoint IS 'Tussenresultaten per stap, zodat een herstarte job verder gaat waar hij was';
+
+-- Enable RLS
+ALTER TABLE document_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to document_jobs"
+  ON document_jobs
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- STAP 2: Job claimen
+-- ========================================
+-- 1. Vastgelopen jobs die al max_attempts keer geprobeerd zijn: failed
+-- 2. Volgende job: queued met run_after <= NOW(), of running zonder
+--    heartbeat sinds p_stale_after_seconds (verder vanaf de checkpoint)
+-- SKIP LOCKED: een job die door een andere worker geclaimd wordt, wordt
+-- overgeslagen in plaats van erop te wachten.
+
+CREATE OR REPLACE FUNCTION claim_document_job(
+  p_worker_id TEXT,
+  p_stale_after_seconds INTEGER DEFAULT 600
+)
+RETURNS SETOF document_jobs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_stale_before TIMESTAMPTZ := NOW() - make_interval(secs => p_stale_after_seconds);
+BEGIN
+  WITH exhausted AS (
+    UPDATE document_jobs
+    SET status = 'failed',
+        last_error = COALESCE(last_error, 'Worker stopped responding'),
+        locked_by = NULL,
+        completed_at = NOW(),
+        updated_at = NOW()
+    WHERE status = 'running'
+      AND heartbeat_at < v_stale_before
+      AND attempts >= max_attempts
+    RETURNING document_id, last_error
+  )
+  UPDATE documents d
+  SET processing_status = 'failed',
+      processing_error = e.last_error
+  FROM exhausted e
+  WHERE d.id = e.document_id;
+
+  RETURN QUERY
+  UPDATE document_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      locked_by = p_worker_id,
+      locked_at = NOW(),
+      heartbeat_at = NOW(),
+      started_at = COALESCE(j.started_at, NOW()),
+      updated_at = NOW()
+  WHERE j.id = (
+    SELECT id FROM document_jobs
+    WHERE (status = 'queued' AND run_after <= NOW())
+       OR (status = 'running' AND heartbeat_at < v_stale_before AND attempts < max_attempts)
+    ORDER BY run_after, created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING j.*;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_document_job TO service_role;
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT status, stage, COUNT(*) FROM document_jobs GROUP BY 1, 2;
+--
+-- SELECT id, tenant_id, stage, attempts, max_attempts, run_after, last_error
+-- FROM document_jobs
+-- WHERE status IN ('queued', 'running')
+-- ORDER BY run_after;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP FUNCTION IF EXISTS claim_document_job(TEXT, INTEGER);
+-- DROP TABLE IF EXISTS document_jobs;
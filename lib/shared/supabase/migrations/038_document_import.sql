@@ -0,0 +1,60 @@
+-- ========================================
+-- Migration 038: Bulk import van documenten
+-- ========================================
+-- Bij de onboarding van een tenant werden tientallen beleidsdocumenten
+-- één voor één geüpload. De bulk import (ZIP of meerdere bestanden)
+-- slaat bestanden over die al geïndexeerd zijn en neemt de mappen uit
+-- de ZIP over als categorie en tags.
+--
+-- NIEUW:
+-- - documents.content_hash: SHA-256 van het bestand (duplicaat check)
+-- - documents.category: eerste map in de ZIP, bijv. "Beleid"
+-- - documents.tags: alle mappen in het pad, bijv. {"Beleid", "Verlof"}
+--
+-- Bestaande documenten hebben geen content_hash; die worden dus niet
+-- als duplicaat herkend tot ze opnieuw geüpload worden.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Kolommen
+-- ========================================
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS category TEXT;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN documents.content_hash IS 'SHA-256 (hex) van het geüploade bestand, voor duplicaat detectie';
+COMMENT ON COLUMN documents.category IS 'Categorie, bij een bulk import de eerste map in het pad';
+COMMENT ON COLUMN documents.tags IS 'Tags, bij een bulk import alle mappen in het pad';
+
+-- ========================================
+-- STAP 2: Indexes
+-- ========================================
+
+CREATE INDEX IF NOT EXISTS idx_documents_content_hash
+  ON documents(tenant_id, content_hash)
+  WHERE content_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_category
+  ON documents(tenant_id, category)
+  WHERE category IS NOT NULL;
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT tenant_id, content_hash, COUNT(*)
+-- FROM documents
+-- WHERE content_hash IS NOT NULL
+-- GROUP BY 1, 2
+-- HAVING COUNT(*) > 1;
+--
+-- SELECT category, tags, COUNT(*) FROM documents GROUP BY 1, 2;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP INDEX IF EXISTS idx_documents_category;
+-- DROP INDEX IF EXISTS idx_documents_content_hash;
+-- ALTER TABLE documents DROP COLUMN IF EXISTS tags;
+-- ALTER TABLE documents DROP COLUMN IF EXISTS category;
+-- ALTER TABLE documents DROP COLUMN IF EXISTS content_hash;
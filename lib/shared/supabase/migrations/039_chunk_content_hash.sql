@@ -0,0 +1,99 @@
+-- ========================================
+-- Migration 039: Content hash per chunk
+-- ========================================
+-- Herverwerken (reprocessDocument, /api/rag/reprocess) en een nieuwe
+-- versie uploaden maakten alle embeddings en AI metadata opnieuw, ook
+-- als bijna alle tekst gelijk bleef.
+--
+-- NIEUW:
+-- - document_chunks.content_hash en document_chunk_archive.content_hash:
+--   SHA-256 (hex) van de chunk content, gezet door een trigger
+-- - document_processing_logs.chunks_reused / chunks_embedded / cost_saved
+--
+-- Bij herverwerken krijgen chunks met een bekende hash de embedding en
+-- metadata van de vorige chunk (of van de gearchiveerde versie bij een
+-- nieuwe versie). Alleen nieuwe of gewijzigde chunks gaan naar de API.
+--
+-- De hash wordt in de database berekend zodat archive_document_version()
+-- en restore_document_version() (migratie 035) hem zonder aanpassing
+-- meenemen. lib/rag/chunk-reuse-service.ts berekent dezelfde hash
+-- (sha256 van de UTF-8 content) om te vergelijken.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Kolommen
+-- ========================================
+
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE document_chunk_archive ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+COMMENT ON COLUMN document_chunks.content_hash IS 'SHA-256 (hex) van content, voor hergebruik van embeddings bij herverwerken';
+COMMENT ON COLUMN document_chunk_archive.content_hash IS 'SHA-256 (hex) van content, voor hergebruik van embeddings bij een nieuwe versie';
+
+ALTER TABLE document_processing_logs ADD COLUMN IF NOT EXISTS chunks_reused INTEGER;
+ALTER TABLE document_processing_logs ADD COLUMN IF NOT EXISTS chunks_embedded INTEGER;
+ALTER TABLE document_processing_logs ADD COLUMN IF NOT EXISTS cost_saved DECIMAL(10, 6) DEFAULT 0;
+
+COMMENT ON COLUMN document_processing_logs.chunks_reused IS 'Chunks met embedding + metadata van de vorige verwerking (NULL = eerste verwerking)';
+COMMENT ON COLUMN document_processing_logs.chunks_embedded IS 'Chunks waarvoor een nieuwe embedding gemaakt is';
+COMMENT ON COLUMN document_processing_logs.cost_saved IS 'Geschatte besparing door hergebruik (embedding + metadata)';
+
+-- ========================================
+-- STAP 2: Trigger
+-- ========================================
+
+CREATE OR REPLACE FUNCTION set_chunk_content_hash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.content_hash := encode(sha256(convert_to(NEW.content, 'UTF8')), 'hex');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_document_chunks_content_hash ON document_chunks;
+CREATE TRIGGER trg_document_chunks_content_hash
+  BEFORE INSERT OR UPDATE OF content ON document_chunks
+  FOR EACH ROW EXECUTE FUNCTION set_chunk_content_hash();
+
+DROP TRIGGER IF EXISTS trg_document_chunk_archive_content_hash ON document_chunk_archive;
+CREATE TRIGGER trg_document_chunk_archive_content_hash
+  BEFORE INSERT OR UPDATE OF content ON document_chunk_archive
+  FOR EACH ROW EXECUTE FUNCTION set_chunk_content_hash();
+
+-- ========================================
+-- STAP 3: Bestaande chunks
+-- ========================================
+
+UPDATE document_chunks
+SET content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex')
+WHERE content_hash IS NULL;
+
+UPDATE document_chunk_archive
+SET content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex')
+WHERE content_hash IS NULL;
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT COUNT(*) FILTER (WHERE content_hash IS NULL) AS missing, COUNT(*) AS total
+-- FROM document_chunks;
+--
+-- SELECT filename, chunks_created, chunks_reused, chunks_embedded, cost_saved, total_cost
+-- FROM document_processing_logs
+-- WHERE chunks_reused IS NOT NULL
+-- ORDER BY started_at DESC
+-- LIMIT 20;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP TRIGGER IF EXISTS trg_document_chunk_archive_content_hash ON document_chunk_archive;
+-- DROP TRIGGER IF EXISTS trg_document_chunks_content_hash ON document_chunks;
+-- DROP FUNCTION IF EXISTS set_chunk_content_hash();
+-- ALTER TABLE document_processing_logs DROP COLUMN IF EXISTS cost_saved;
+-- ALTER TABLE document_processing_logs DROP COLUMN IF EXISTS chunks_embedded;
+-- ALTER TABLE document_processing_logs DROP COLUMN IF EXISTS chunks_reused;
+-- ALTER TABLE document_chunk_archive DROP COLUMN IF EXISTS content_hash;
+-- ALTER TABLE document_chunks DROP COLUMN IF EXISTS content_hash;
@@ -0,0 +1,145 @@
+-- ========================================
+-- Migration 040: Website crawler als kennisbron
+-- ========================================
+-- Een aantal klanten publiceert het HR beleid op een intranet of een
+-- "werken bij" site in plaats van als PDF. Een crawl bron haalt die
+-- pagina's op en indexeert ze als gewone documenten (zelfde chunking en
+-- embedding pipeline als een upload).
+--
+-- NIEUW:
+-- - crawl_sources: per tenant een start URL (pagina of sitemap), include/
+--   exclude patronen, maximale diepte en een crawl interval
+-- - crawl_pages: per gevonden URL het document, de hash van de tekst en
+--   de status van de laatste crawl (voor change detection)
+-- - documents.source_url: de pagina waar het document vandaan komt
+--
+-- Bij een nieuwe crawl:
+-- - Nieuwe pagina → document in de wachtrij (migratie 037)
+-- - Gewijzigde tekst → nieuwe documentversie (migratie 035/039)
+-- - Pagina weg (404/410, of niet meer gevonden in een volledige crawl)
+--   → document verwijderd
+-- robots.txt wordt altijd gerespecteerd.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Crawl bronnen
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS crawl_sources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+
+  start_url TEXT NOT NULL,
+  start_type TEXT NOT NULL DEFAULT 'page'
+    CHECK (start_type IN ('page', 'sitemap')),
+  include_patterns TEXT[] NOT NULL DEFAULT '{}',   -- Leeg = alle pagina's op het domein
+  exclude_patterns TEXT[] NOT NULL DEFAULT '{}',
+  max_depth INTEGER NOT NULL DEFAULT 2 CHECK (max_depth BETWEEN 0 AND 10),
+  max_pages INTEGER NOT NULL DEFAULT 100 CHECK (max_pages BETWEEN 1 AND 1000),
+  recrawl_interval_hours INTEGER CHECK (recrawl_interval_hours IS NULL OR recrawl_interval_hours > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  crawl_status TEXT NOT NULL DEFAULT 'idle'
+    CHECK (crawl_status IN ('idle', 'running', 'completed', 'failed')),
+  crawl_started_at TIMESTAMPTZ,
+  last_crawled_at TIMESTAMPTZ,
+  next_crawl_at TIMESTAMPTZ,                -- NULL = alleen handmatig
+  last_error TEXT,
+  last_stats JSONB NOT NULL DEFAULT '{}',   -- Aantallen van de laatste crawl
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crawl_sources_tenant
+  ON crawl_sources(tenant_id, created_at);
+
+-- Geplande crawls
+CREATE INDEX IF NOT EXISTS idx_crawl_sources_due
+  ON crawl_sources(next_crawl_at)
+  WHERE is_active AND next_crawl_at IS NOT NULL;
+
+COMMENT ON TABLE crawl_sources IS 'Websites die als kennisbron gecrawld en geïndexeerd worden';
+COMMENT ON COLUMN crawl_sources.include_patterns IS 'URL patronen (* = wildcard) op pad of volledige URL; leeg = alles';
+
+-- Enable RLS
+ALTER TABLE crawl_sources ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to crawl_sources"
+  ON crawl_sources
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- STAP 2: Gecrawlde pagina's
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS crawl_pages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_id UUID NOT NULL REFERENCES crawl_sources(id) ON DELETE CASCADE,
+  tenant_id TEXT NOT NULL,
+  url TEXT NOT NULL,                        -- Genormaliseerd (zonder #fragment)
+  document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+
+  status TEXT NOT NULL
+    CHECK (status IN ('indexed', 'unchanged', 'updated', 'failed', 'removed')),
+  title TEXT,
+  content_hash TEXT,                        -- SHA-256 van de geëxtraheerde tekst
+  http_status INTEGER,
+  depth INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+
+  first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  last_changed_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (source_id, url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crawl_pages_source
+  ON crawl_pages(source_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_crawl_pages_document
+  ON crawl_pages(document_id)
+  WHERE document_id IS NOT NULL;
+
+COMMENT ON TABLE crawl_pages IS 'Pagina''s per crawl bron, met de tekst hash voor change detection';
+
+-- Enable RLS
+ALTER TABLE crawl_pages ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to crawl_pages"
+  ON crawl_pages
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- STAP 3: Bron van een document
+-- ========================================
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS source_url TEXT;
+
+COMMENT ON COLUMN documents.source_url IS 'Webpagina waar het document vandaan komt (crawl bron)';
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT name, start_url, crawl_status, last_crawled_at, next_crawl_at, last_stats
+-- FROM crawl_sources
+-- ORDER BY created_at;
+--
+-- SELECT status, COUNT(*) FROM crawl_pages GROUP BY status;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- ALTER TABLE documents DROP COLUMN IF EXISTS source_url;
+-- DROP TABLE IF EXISTS crawl_pages;
+-- DROP TABLE IF EXISTS crawl_sources;
@@ -0,0 +1,63 @@
+-- ========================================
+-- Migration 041: Private document buckets
+-- ========================================
+-- De document bucket per tenant ("{tenant-id}-hr-documents") werd
+-- publiek aangemaakt. Iedereen met een link (bijv. uit een doorgestuurde
+-- chat of een oude chat log) kon interne HR documenten lezen.
+--
+-- NIEUW:
+-- - Document buckets zijn private; nieuwe buckets worden zo aangemaakt
+--   (ensureBucketExists(bucket, false)) en een bestaande publieke bucket
+--   wordt bij de eerstvolgende upload alsnog private gemaakt
+-- - Citation links in de chat gaan via /api/documents/open: die route
+--   controleert of de chat sessie van de tenant het document als bron
+--   kreeg (chat_logs.citations) en stuurt door naar een signed URL die
+--   5 minuten geldig is
+-- - Admin en portal openen documenten ook via een signed URL
+--
+-- Deze migratie zet alle bestaande document buckets in één keer op
+-- private, zodat niet gewacht hoeft te worden op een nieuwe upload.
+-- Bestaande publieke links (/storage/v1/object/public/...) werken daarna
+-- niet meer; dat is de bedoeling. Logo's (tenant-logos) blijven publiek.
+--
+-- Let op: de legacy bucket uit STORAGE_BUCKET_NAME (zonder tenant
+-- prefix) wordt niet aangepast.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Bestaande document buckets private maken
+-- ========================================
+
+UPDATE storage.buckets
+SET public = false,
+    updated_at = NOW()
+WHERE id LIKE '%-hr-documents'
+  AND public = true;
+
+-- ========================================
+-- STAP 2: Index voor de sessie check van citation links
+-- ========================================
+-- Zoekt op tenant + sessie binnen de laatste 24 uur. Bestaat al als
+-- idx_session_timestamp in de multi-tenant setup; IF NOT EXISTS voor
+-- databases die zonder die setup zijn aangemaakt.
+
+CREATE INDEX IF NOT EXISTS idx_chat_logs_tenant_session_timestamp
+  ON chat_logs(tenant_id, session_id, timestamp DESC);
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT id, public, updated_at
+-- FROM storage.buckets
+-- WHERE id LIKE '%-hr-documents'
+-- ORDER BY id;
+--
+-- Publieke URL moet nu 400/404 geven:
+-- curl -I https://<project>.supabase.co/storage/v1/object/public/<tenant>-hr-documents/<file_path>
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- Maakt de documenten weer voor iedereen met een link leesbaar!
+-- DROP INDEX IF EXISTS idx_chat_logs_tenant_session_timestamp;
+-- UPDATE storage.buckets SET public = true, updated_at = NOW() WHERE id LIKE '%-hr-documents';
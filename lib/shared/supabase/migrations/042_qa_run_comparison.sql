@@ -0,0 +1,69 @@
+-- ========================================
+-- Migration 042: QA run comparison & regression detection
+-- ========================================
+-- Twee QA runs waren niet te vergelijken: elke run genereerde nieuwe
+-- vragen en er werd niet vastgelegd met welke configuratie en welke
+-- documenten een run draaide.
+--
+-- NIEUW:
+-- - baseline_run_id: een run kan de vragen van een eerdere (voltooide)
+--   run hergebruiken. Zo draaien beide runs over dezelfde vaste
+--   vragenset en zijn de scores per categorie direct vergelijkbaar
+-- - pipeline_snapshot: model, prompt profiel, zoekinstellingen,
+--   reranking en de geïndexeerde documenten (versie, chunks, hash) bij
+--   de start van de run
+-- - is_regression / regression: na afloop wordt de run vergeleken met
+--   zijn baseline. Daalt een categorie meer dan de drempel
+--   (config.regressionThreshold, standaard 5 punten), dan is de run
+--   een regressie
+--
+-- Vergelijken van willekeurige runs gaat via
+-- GET /api/admin/products/hr-bot/test/[tenantId]/compare?base=&target=
+-- ========================================
+
+-- ========================================
+-- STAP 1: Kolommen op qa_test_runs
+-- ========================================
+
+ALTER TABLE qa_test_runs
+  ADD COLUMN IF NOT EXISTS baseline_run_id UUID REFERENCES qa_test_runs(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS pipeline_snapshot JSONB,
+  ADD COLUMN IF NOT EXISTS is_regression BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS regression JSONB;
+
+COMMENT ON COLUMN qa_test_runs.baseline_run_id IS 'Run waarvan de vragen zijn hergebruikt (vaste vragenset)';
+COMMENT ON COLUMN qa_test_runs.pipeline_snapshot IS 'Configuratie en documenten bij de start van de run';
+COMMENT ON COLUMN qa_test_runs.regression IS 'Resultaat van de vergelijking met de baseline run';
+
+-- ========================================
+-- STAP 2: Indexen
+-- ========================================
+
+CREATE INDEX IF NOT EXISTS idx_qa_test_runs_baseline
+  ON qa_test_runs(baseline_run_id)
+  WHERE baseline_run_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_qa_test_runs_regression
+  ON qa_test_runs(tenant_id, created_at DESC)
+  WHERE is_regression = true;
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT id, tenant_id, baseline_run_id, is_regression,
+--        regression->'regressed_categories' AS regressed
+-- FROM qa_test_runs
+-- WHERE baseline_run_id IS NOT NULL
+-- ORDER BY created_at DESC
+-- LIMIT 10;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP INDEX IF EXISTS idx_qa_test_runs_regression;
+-- DROP INDEX IF EXISTS idx_qa_test_runs_baseline;
+-- ALTER TABLE qa_test_runs
+--   DROP COLUMN IF EXISTS regression,
+--   DROP COLUMN IF EXISTS is_regression,
+--   DROP COLUMN IF EXISTS pipeline_snapshot,
+--   DROP COLUMN IF EXISTS baseline_run_id;
@@ -0,0 +1,128 @@
+-- ========================================
+-- Migration 043: QA golden test sets
+-- ========================================
+-- Elke QA run genereerde nieuwe vragen met een LLM, waardoor scores
+-- tussen runs niet reproduceerbaar waren. Templates bestonden wel, maar
+-- werden niet als herbruikbare set samengesteld.
+--
+-- NIEUW:
+-- - qa_test_sets: benoemde, vaste vragensets per tenant
+-- - qa_test_set_questions: de vragen van een set, met herkomst
+--   (template, eerdere run, chat log met negatieve feedback, import of
+--   handmatig) en een optioneel verwacht antwoord
+-- - qa_test_runs.test_set_id: een run die een set gebruikt genereert
+--   geen vragen maar neemt de vragen van de set over. De vorige
+--   voltooide run op dezelfde set wordt automatisch de baseline run
+--   (migratie 042), zodat regressies direct zichtbaar zijn
+--
+-- Sets zijn te exporteren en importeren als JSON of CSV, zodat het HR
+-- team van een klant zelf verwachte antwoorden kan aanleveren.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Test sets
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS qa_test_sets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  question_count INTEGER NOT NULL DEFAULT 0,   -- Bijgewerkt bij wijzigen van de vragen
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (tenant_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_qa_test_sets_tenant
+  ON qa_test_sets(tenant_id, created_at DESC);
+
+COMMENT ON TABLE qa_test_sets IS 'Vaste (golden) vragensets per tenant voor reproduceerbare QA runs';
+
+-- Enable RLS
+ALTER TABLE qa_test_sets ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to qa_test_sets"
+  ON qa_test_sets
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- STAP 2: Vragen per set
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS qa_test_set_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_set_id UUID NOT NULL REFERENCES qa_test_sets(id) ON DELETE CASCADE,
+  tenant_id TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+
+  category TEXT NOT NULL,
+  question TEXT NOT NULL,
+  expected_answer TEXT,
+  source_document TEXT,
+  source_page INTEGER,
+  language TEXT NOT NULL DEFAULT 'nl',
+  notes TEXT,
+
+  origin TEXT NOT NULL DEFAULT 'manual'
+    CHECK (origin IN ('template', 'run', 'chat_log', 'import', 'manual')),
+  origin_id TEXT,                             -- Template, vraag of chat log ID
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_qa_test_set_questions_set
+  ON qa_test_set_questions(test_set_id, position);
+
+COMMENT ON COLUMN qa_test_set_questions.origin IS 'Herkomst: template, run, chat_log (negatieve feedback), import of manual';
+
+-- Enable RLS
+ALTER TABLE qa_test_set_questions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to qa_test_set_questions"
+  ON qa_test_set_questions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- STAP 3: Runs op een test set
+-- ========================================
+
+ALTER TABLE qa_test_runs
+  ADD COLUMN IF NOT EXISTS test_set_id UUID REFERENCES qa_test_sets(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_qa_test_runs_test_set
+  ON qa_test_runs(test_set_id, created_at DESC)
+  WHERE test_set_id IS NOT NULL;
+
+COMMENT ON COLUMN qa_test_runs.test_set_id IS 'Vaste vragenset waarmee de run is uitgevoerd';
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT s.name, s.question_count, q.origin, COUNT(*)
+-- FROM qa_test_sets s
+-- JOIN qa_test_set_questions q ON q.test_set_id = s.id
+-- GROUP BY s.name, s.question_count, q.origin;
+--
+-- SELECT id, test_set_id, baseline_run_id, overall_score, is_regression
+-- FROM qa_test_runs
+-- WHERE test_set_id IS NOT NULL
+-- ORDER BY created_at DESC;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP INDEX IF EXISTS idx_qa_test_runs_test_set;
+-- ALTER TABLE qa_test_runs DROP COLUMN IF EXISTS test_set_id;
+-- DROP TABLE IF EXISTS qa_test_set_questions;
+-- DROP TABLE IF EXISTS qa_test_sets;
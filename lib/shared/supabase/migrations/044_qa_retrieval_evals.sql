@@ -0,0 +1,87 @@
+-- ========================================
+-- Migration 044: Retrieval evaluatie (recall@k, MRR, nDCG)
+-- ========================================
+-- De QA categorieën retrieval en citation worden door een LLM
+-- beoordeeld. Dat is traag, kost geld en geeft ruis, terwijl de
+-- gegenereerde vragen al weten uit welke chunk ze komen
+-- (qa_test_questions.source_chunk_id, source_document, source_page).
+--
+-- NIEUW:
+-- - qa_retrieval_evals: een retrieval-only evaluatie over de vragen van
+--   een QA run of een golden test set (migratie 043). Er worden geen
+--   antwoorden gegenereerd: alleen retrieveContext wordt aangeroepen
+-- - Per vraag de positie van de bron vóór en na de reranker, en daaruit
+--   recall@k, MRR en nDCG, totaal en per document
+--
+-- Bron van een vraag (ground truth):
+-- - chunk: source_chunk_id bestaat nog
+-- - page: chunk bestaat niet meer (opnieuw gechunkt), document + pagina
+-- - document: alleen het document is bekend (bijv. templates)
+--
+-- Goedkoop genoeg (embedding + reranker, geen LLM) om na elke chunking
+-- of reranker wijziging te draaien.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Retrieval evaluaties
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS qa_retrieval_evals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL,
+
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  source_run_id UUID REFERENCES qa_test_runs(id) ON DELETE SET NULL,
+  test_set_id UUID REFERENCES qa_test_sets(id) ON DELETE SET NULL,
+  k_values INTEGER[] NOT NULL DEFAULT '{1,3,5,10}',
+
+  total_questions INTEGER NOT NULL DEFAULT 0,
+  questions_completed INTEGER NOT NULL DEFAULT 0,
+  skipped_questions INTEGER NOT NULL DEFAULT 0,   -- Zonder bekende bron
+
+  reranking_enabled BOOLEAN,
+  metrics JSONB,                 -- { before, after } over alle vragen
+  by_document JSONB,             -- Per bron document
+  results JSONB,                 -- Per vraag: posities vóór/na reranking
+  pipeline_snapshot JSONB,       -- Configuratie + documenten (zie migratie 042)
+
+  total_cost NUMERIC(10, 6) NOT NULL DEFAULT 0,
+  duration_ms INTEGER,
+  error_message TEXT,
+
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_qa_retrieval_evals_tenant
+  ON qa_retrieval_evals(tenant_id, created_at DESC);
+
+COMMENT ON TABLE qa_retrieval_evals IS 'Retrieval-only evaluaties (recall@k, MRR, nDCG) zonder LLM-as-judge';
+
+-- Enable RLS
+ALTER TABLE qa_retrieval_evals ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to qa_retrieval_evals"
+  ON qa_retrieval_evals
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT id, status, total_questions, skipped_questions,
+--        metrics->'before'->>'mrr' AS mrr_before,
+--        metrics->'after'->>'mrr' AS mrr_after
+-- FROM qa_retrieval_evals
+-- ORDER BY created_at DESC
+-- LIMIT 10;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP TABLE IF EXISTS qa_retrieval_evals;
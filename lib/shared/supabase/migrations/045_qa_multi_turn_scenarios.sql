@@ -0,0 +1,64 @@
+-- ========================================
+-- Migration 045: Multi-turn QA scenario's
+-- ========================================
+-- De QA executor stuurt per vraag alleen een system prompt + één
+-- user bericht. Follow-up detectie (detectFollowUpQuestion) en query
+-- expansion met gesprekscontext (expandQueryWithContext) worden zo
+-- nooit getest.
+--
+-- NIEUW:
+-- - QA categorie 'multi_turn': een gescript gesprek van meerdere
+--   user beurten met per beurt een verwachting
+-- - turns: de gescripte beurten (bericht, verwacht antwoord en voor
+--   follow-ups de zelfstandige vraag waar de beurt naar moet resolven)
+-- - turn_results: per beurt het antwoord, of de follow-up gedetecteerd
+--   werd en de uitgebreide zoekvraag
+--
+-- De executor bouwt de gespreksgeschiedenis op zoals /api/chat
+-- (retrieveContext met history + prepareMessages met history window).
+--
+-- category is een TEXT kolom zonder CHECK, dus de nieuwe categorie
+-- vraagt geen constraint wijziging.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Test vragen
+-- ========================================
+
+ALTER TABLE qa_test_questions
+  ADD COLUMN IF NOT EXISTS turns JSONB,
+  ADD COLUMN IF NOT EXISTS turn_results JSONB;
+
+COMMENT ON COLUMN qa_test_questions.turns IS 'Gescripte user beurten van een multi_turn scenario';
+COMMENT ON COLUMN qa_test_questions.turn_results IS 'Resultaat per beurt: antwoord, follow-up detectie, uitgebreide query';
+
+-- ========================================
+-- STAP 2: Templates en golden test sets
+-- ========================================
+
+ALTER TABLE qa_test_templates
+  ADD COLUMN IF NOT EXISTS turns JSONB;
+
+ALTER TABLE qa_test_set_questions
+  ADD COLUMN IF NOT EXISTS turns JSONB;
+
+COMMENT ON COLUMN qa_test_templates.turns IS 'Gescripte user beurten (alleen categorie multi_turn)';
+COMMENT ON COLUMN qa_test_set_questions.turns IS 'Gescripte user beurten (alleen categorie multi_turn)';
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT id, question, jsonb_array_length(turns) AS turns, score,
+--        evaluation->'category_specific'->>'follow_ups_resolved' AS resolved
+-- FROM qa_test_questions
+-- WHERE category = 'multi_turn'
+-- ORDER BY created_at DESC
+-- LIMIT 10;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- ALTER TABLE qa_test_questions DROP COLUMN IF EXISTS turns;
+-- ALTER TABLE qa_test_questions DROP COLUMN IF EXISTS turn_results;
+-- ALTER TABLE qa_test_templates DROP COLUMN IF EXISTS turns;
+-- ALTER TABLE qa_test_set_questions DROP COLUMN IF EXISTS turns;
@@ -0,0 +1,99 @@
+-- ========================================
+-- Migration 046: QA experimenten (A/B pipeline configuraties)
+-- ========================================
+-- Wijzigingen aan retrieval (candidates, relevantie filter, reranking,
+-- search gewichten) of aan de prompt werden blind gedaan: een nieuwe
+-- QA run meet de nieuwe situatie, maar vergelijkt niet met dezelfde
+-- vragen onder dezelfde omstandigheden.
+--
+-- NIEUW:
+-- - qa_experiments: één bevroren vragenset (golden test set of de
+--   vragen van een bestaande run) door twee of meer benoemde pipeline
+--   configuraties (arms)
+-- - Elke arm is een gewone qa_test_runs rij met experiment_id,
+--   experiment_arm en pipeline_config. Zo beoordeelt dezelfde evaluator
+--   elke arm en werken rapport en run vergelijking gewoon
+-- - pipeline_config: wat de arm afwijkend van de tenant configuratie
+--   doet (topK, retrieval, prompt, model). Leeg = tenant configuratie
+--
+-- Chunking opties horen niet bij een arm: die gelden bij het inlezen
+-- van documenten. Vergelijk chunking via runs vóór en na herverwerken.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Experimenten
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS qa_experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+
+  -- Bevroren vragenset (één van beide)
+  test_set_id UUID REFERENCES qa_test_sets(id) ON DELETE SET NULL,
+  source_run_id UUID REFERENCES qa_test_runs(id) ON DELETE SET NULL,
+
+  arms JSONB NOT NULL DEFAULT '[]',   -- [{ name, config }]
+  current_arm TEXT,                   -- Arm die nu draait
+
+  total_cost NUMERIC(10, 6) NOT NULL DEFAULT 0,
+  error_message TEXT,
+
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_qa_experiments_tenant
+  ON qa_experiments(tenant_id, created_at DESC);
+
+COMMENT ON TABLE qa_experiments IS 'QA experimenten: één vragenset door meerdere pipeline configuraties';
+
+-- Enable RLS
+ALTER TABLE qa_experiments ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to qa_experiments"
+  ON qa_experiments
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- STAP 2: Test runs als experiment arm
+-- ========================================
+
+ALTER TABLE qa_test_runs
+  ADD COLUMN IF NOT EXISTS experiment_id UUID REFERENCES qa_experiments(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS experiment_arm TEXT,
+  ADD COLUMN IF NOT EXISTS pipeline_config JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_qa_test_runs_experiment
+  ON qa_test_runs(experiment_id)
+  WHERE experiment_id IS NOT NULL;
+
+COMMENT ON COLUMN qa_test_runs.experiment_id IS 'Experiment waar deze run een arm van is';
+COMMENT ON COLUMN qa_test_runs.experiment_arm IS 'Naam van de arm binnen het experiment';
+COMMENT ON COLUMN qa_test_runs.pipeline_config IS 'Pipeline configuratie van de arm (NULL = tenant configuratie)';
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT e.name, r.experiment_arm, r.status, r.overall_score, r.total_cost
+-- FROM qa_experiments e
+-- JOIN qa_test_runs r ON r.experiment_id = e.id
+-- ORDER BY e.created_at DESC, r.created_at
+-- LIMIT 20;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- ALTER TABLE qa_test_runs DROP COLUMN IF EXISTS experiment_id;
+-- ALTER TABLE qa_test_runs DROP COLUMN IF EXISTS experiment_arm;
+-- ALTER TABLE qa_test_runs DROP COLUMN IF EXISTS pipeline_config;
+-- DROP TABLE IF EXISTS qa_experiments;
@@ -0,0 +1,126 @@
+-- ========================================
+-- Migration 047: Content hash per document versie
+-- ========================================
+-- documents.content_hash (migratie 038) werd alleen gezet bij het
+-- aanmaken van een document. Na een nieuwe versie (ook via de crawler),
+-- herverwerken of een rollback bleef de oude hash staan: het oude
+-- bestand importeren gaf dan "duplicaat", het nieuwe bestand niet.
+--
+-- NIEUW:
+-- - document_versions.content_hash: hash van het bestand van die versie
+-- - restore_document_version() zet de hash van de teruggezette versie
+--   terug op documents.content_hash
+--
+-- uploadDocumentVersion() en reprocessDocument() zetten de hash van het
+-- nieuwe bestand zelf op documents en in de versie historie.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Hash in de versie historie
+-- ========================================
+
+ALTER TABLE document_versions ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+COMMENT ON COLUMN document_versions.content_hash IS 'SHA-256 (hex) van het bestand van deze versie (NULL voor versies van voor migratie 047)';
+
+-- Huidige versies: de hash die nu op het document staat
+UPDATE document_versions v
+SET content_hash = d.content_hash
+FROM documents d
+WHERE v.document_id = d.id
+  AND v.version = d.version
+  AND v.content_hash IS NULL
+  AND d.content_hash IS NOT NULL;
+
+-- ========================================
+-- STAP 2: Rollback zet de hash terug
+-- ========================================
+-- Gelijk aan migratie 035, plus content_hash in de documents update.
+-- Versies zonder hash (van voor deze migratie) maken de hash leeg:
+-- beter geen duplicaat check dan een check op het verkeerde bestand.
+
+CREATE OR REPLACE FUNCTION restore_document_version(
+  p_document_id UUID,
+  p_version INTEGER,
+  p_discard_current BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_current INTEGER;
+  v_target document_versions%ROWTYPE;
+  v_restored INTEGER;
+BEGIN
+  SELECT version INTO v_current FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF v_current IS NULL THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  SELECT * INTO v_target FROM document_versions WHERE document_id = p_document_id AND version = p_version;
+
+  IF v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Version % of document % not found', p_version, p_document_id;
+  END IF;
+
+  -- Huidige versie opzij zetten
+  IF v_current <> p_version THEN
+    IF p_discard_current THEN
+      DELETE FROM document_chunks WHERE document_id = p_document_id;
+      DELETE FROM document_versions WHERE document_id = p_document_id AND version = v_current;
+    ELSE
+      PERFORM archive_document_version(p_document_id);
+    END IF;
+  ELSE
+    -- Versie was al gearchiveerd (archive_document_version zonder nieuwe versie)
+    DELETE FROM document_chunks WHERE document_id = p_document_id;
+  END IF;
+
+  -- Gearchiveerde chunks terugzetten (search_config via de insert trigger)
+  INSERT INTO document_chunks (id, tenant_id, document_id, content, embedding, page_number, chunk_index, metadata, created_at)
+  SELECT a.id, a.tenant_id, a.document_id, a.content, a.embedding, a.page_number, a.chunk_index, a.metadata, a.created_at
+  FROM document_chunk_archive a
+  WHERE a.document_id = p_document_id AND a.version = p_version;
+
+  GET DIAGNOSTICS v_restored = ROW_COUNT;
+
+  DELETE FROM document_chunk_archive WHERE document_id = p_document_id AND version = p_version;
+
+  UPDATE document_versions
+  SET archived_at = NULL
+  WHERE id = v_target.id;
+
+  UPDATE documents
+  SET version = p_version,
+      filename = v_target.filename,
+      file_path = v_target.file_path,
+      file_size = v_target.file_size,
+      mime_type = COALESCE(v_target.mime_type, mime_type),
+      content_hash = v_target.content_hash,
+      total_pages = v_target.total_pages,
+      total_chunks = v_restored,
+      processing_status = 'completed',
+      processing_error = NULL
+  WHERE id = p_document_id;
+
+  RETURN v_restored;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_document_version TO service_role;
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT d.filename, d.version, d.content_hash = v.content_hash AS hash_matches
+-- FROM documents d
+-- JOIN document_versions v ON v.document_id = d.id AND v.version = d.version
+-- WHERE d.content_hash IS NOT NULL
+-- ORDER BY d.filename;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- Herstel restore_document_version() uit migratie 035 (STAP 5), daarna:
+-- ALTER TABLE document_versions DROP COLUMN IF EXISTS content_hash;
@@ -0,0 +1,138 @@
+-- ========================================
+-- Migration 048: Tussenresultaten van document jobs apart opslaan
+-- ========================================
+-- De worker (migratie 037) schreef de hele checkpoint naar
+-- document_jobs.checkpoint: de geëxtraheerde tekst, alle chunks en alle
+-- AI metadata. Dat gebeurde bij elke stap en na elke batch van 50
+-- chunks, dus een groot document herschreef telkens megabytes JSONB
+-- (met bijbehorende WAL en dead tuples) alleen om een teller op te hogen.
+--
+-- NIEUW:
+-- - document_job_artifacts: de inhoud wordt één keer opgeslagen
+--     'extraction'       → ExtractionResult (na de extract stap)
+--     'chunks'           → contents + positions (na de chunk stap)
+--     'metadata:<start>' → AI metadata van één batch
+-- - document_jobs.checkpoint bevat alleen nog tellers en offsets
+-- - claim_document_job() ruimt de artifacts op van jobs die definitief
+--   mislukken; finishDocumentJob() en cancelDocumentJob() doen dat zelf
+--
+-- Jobs die nog met een oude checkpoint in de wachtrij staan hebben geen
+-- artifacts; de worker begint die opnieuw bij de extract stap.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Artifacts tabel
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS document_job_artifacts (
+  job_id UUID NOT NULL REFERENCES document_jobs(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,                        -- 'extraction', 'chunks' of 'metadata:<start>'
+  data JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (job_id, key)
+);
+
+COMMENT ON TABLE document_job_artifacts IS 'Tussenresultaten van een document job (extractie, chunks, metadata), één keer opgeslagen per stap of batch';
+
+-- Enable RLS
+ALTER TABLE document_job_artifacts ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to document_job_artifacts"
+  ON document_job_artifacts
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- STAP 2: Bestaande checkpoints inkorten
+-- ========================================
+-- Afgeronde jobs horen een lege checkpoint te hebben; jobs die via de
+-- claim functie op 'failed' gingen hielden de volledige checkpoint.
+
+UPDATE document_jobs
+SET checkpoint = '{}'
+WHERE status IN ('completed', 'failed', 'cancelled')
+  AND checkpoint <> '{}';
+
+-- ========================================
+-- STAP 3: Claim ruimt artifacts op
+-- ========================================
+-- Gelijk aan migratie 037, plus het opruimen van checkpoint en artifacts
+-- van vastgelopen jobs die max_attempts bereikt hebben.
+
+CREATE OR REPLACE FUNCTION claim_document_job(
+  p_worker_id TEXT,
+  p_stale_after_seconds INTEGER DEFAULT 600
+)
+RETURNS SETOF document_jobs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_stale_before TIMESTAMPTZ := NOW() - make_interval(secs => p_stale_after_seconds);
+BEGIN
+  WITH exhausted AS (
+    UPDATE document_jobs
+    SET status = 'failed',
+        last_error = COALESCE(last_error, 'Worker stopped responding'),
+        checkpoint = '{}',
+        locked_by = NULL,
+        completed_at = NOW(),
+        updated_at = NOW()
+    WHERE status = 'running'
+      AND heartbeat_at < v_stale_before
+      AND attempts >= max_attempts
+    RETURNING id, document_id, last_error
+  ),
+  cleaned AS (
+    DELETE FROM document_job_artifacts a
+    USING exhausted e
+    WHERE a.job_id = e.id
+  )
+  UPDATE documents d
+  SET processing_status = 'failed',
+      processing_error = e.last_error
+  FROM exhausted e
+  WHERE d.id = e.document_id;
+
+  RETURN QUERY
+  UPDATE document_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      locked_by = p_worker_id,
+      locked_at = NOW(),
+      heartbeat_at = NOW(),
+      started_at = COALESCE(j.started_at, NOW()),
+      updated_at = NOW()
+  WHERE j.id = (
+    SELECT id FROM document_jobs
+    WHERE (status = 'queued' AND run_after <= NOW())
+       OR (status = 'running' AND heartbeat_at < v_stale_before AND attempts < max_attempts)
+    ORDER BY run_after, created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING j.*;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_document_job TO service_role;
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- Grootte van checkpoints en artifacts per actieve job:
+-- SELECT j.id, j.stage, pg_column_size(j.checkpoint) AS checkpoint_bytes,
+--        COUNT(a.key) AS artifacts, COALESCE(SUM(pg_column_size(a.data)), 0) AS artifact_bytes
+-- FROM document_jobs j
+-- LEFT JOIN document_job_artifacts a ON a.job_id = j.id
+-- WHERE j.status IN ('queued', 'running')
+-- GROUP BY j.id, j.stage;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- Herstel claim_document_job() uit migratie 037 (STAP 2), daarna:
+-- DROP TABLE IF EXISTS document_job_artifacts;
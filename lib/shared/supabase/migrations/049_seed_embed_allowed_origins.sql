@@ -0,0 +1,81 @@
+-- ========================================
+-- Migration 049: Embed origins vullen voor bestaande tenants
+-- ========================================
+-- Migratie 032 gaf elke tenant een lege embed_allowed_origins lijst.
+-- Een lege lijst betekende voor /api/chat: alleen ons eigen domein, dus
+-- bij bestaande klanten werd elke cross-origin chat request geweigerd
+-- tot iemand de lijst invulde.
+--
+-- checkEmbedOrigin() valt bij een lege lijst nu terug op
+-- ALLOWED_EMBED_DOMAINS (zoals frame-ancestors). Deze migratie vult de
+-- lijst voor bestaande tenants, zodat ze direct hun eigen lijst hebben:
+-- - website_url (migratie 022): https://<host> en https://*.<host>,
+--   met <host> zonder "www." (dekt acme.nl, www.acme.nl, hr.acme.nl)
+-- - allowed_origins van actieve public keys (migratie 031)
+--
+-- Alleen tenants met een lege lijst; een lijst die al in de admin
+-- ingevuld is blijft staan. Controleer het resultaat op de implement
+-- pagina van de klant.
+-- ========================================
+
+-- ========================================
+-- STAP 1: Origins verzamelen en invullen
+-- ========================================
+
+WITH website_hosts AS (
+  SELECT
+    t.id AS tenant_id,
+    lower(substring(
+      CASE WHEN btrim(t.website_url) ~* '^https?://' THEN btrim(t.website_url) ELSE 'https://' || btrim(t.website_url) END
+      FROM '^(https?://[^/?#[:space:]]+)'
+    )) AS origin
+  FROM tenants t
+  WHERE t.website_url IS NOT NULL
+    AND btrim(t.website_url) <> ''
+),
+seed AS (
+  -- Website: origin zonder www. + alle subdomeinen
+  SELECT tenant_id, regexp_replace(origin, '^(https?://)www\.', '\1') AS origin
+  FROM website_hosts
+  WHERE origin IS NOT NULL
+
+  UNION
+
+  SELECT tenant_id, regexp_replace(origin, '^(https?://)(www\.)?', '\1*.') AS origin
+  FROM website_hosts
+  WHERE origin IS NOT NULL
+
+  UNION
+
+  -- Public keys: hun origins worden al gebruikt voor de embed widget
+  SELECT k.tenant_id, unnest(k.allowed_origins) AS origin
+  FROM tenant_api_keys k
+  WHERE k.key_type = 'public'
+    AND k.revoked_at IS NULL
+)
+UPDATE tenants t
+SET embed_allowed_origins = ARRAY(
+  SELECT DISTINCT s.origin
+  FROM seed s
+  WHERE s.tenant_id = t.id
+  ORDER BY s.origin
+)
+WHERE cardinality(t.embed_allowed_origins) = 0
+  AND EXISTS (SELECT 1 FROM seed s WHERE s.tenant_id = t.id);
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- SELECT id, website_url, embed_allowed_origins
+-- FROM tenants
+-- ORDER BY id;
+--
+-- Tenants die nog op de fallback (ALLOWED_EMBED_DOMAINS) draaien:
+-- SELECT id FROM tenants WHERE cardinality(embed_allowed_origins) = 0;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- Geen automatische rollback: de lijsten kunnen daarna in de admin
+-- aangepast zijn. Handmatig leegmaken per tenant:
+-- UPDATE tenants SET embed_allowed_origins = ARRAY[]::TEXT[] WHERE id = '<tenant_id>';
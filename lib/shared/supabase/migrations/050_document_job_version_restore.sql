@@ -0,0 +1,111 @@
+-- ========================================
+-- Migration 050: Vorige versie terugzetten bij vastgelopen versie jobs
+-- ========================================
+-- Herverwerken en nieuwe versies gaan nu ook via de document wachtrij
+-- (enqueueDocumentReprocessing). De payload van zo'n job bevat
+-- documentId en, bij een nieuwe versie, reuseFromArchivedVersion: de
+-- versie die uploadDocumentVersion() net gearchiveerd heeft.
+--
+-- Mislukt de job in de worker, dan zet de worker die versie terug.
+-- Stopt de worker halverwege en bereikt de job max_attempts, dan markeerde
+-- claim_document_job() (migratie 048) het document alleen als 'failed':
+-- zonder actieve chunks, terwijl de vorige versie nog in het archief staat.
+--
+-- NIEUW:
+-- - claim_document_job() roept voor zulke jobs restore_document_version()
+--   aan (migratie 047) met p_discard_current = true
+-- - lukt het terugzetten niet, dan gaat het document op 'failed' zoals
+--   voorheen
+-- ========================================
+
+-- ========================================
+-- STAP 1: Claim zet de vorige versie terug
+-- ========================================
+-- Gelijk aan migratie 048, behalve de afhandeling van jobs die
+-- max_attempts bereikt hebben.
+
+CREATE OR REPLACE FUNCTION claim_document_job(
+  p_worker_id TEXT,
+  p_stale_after_seconds INTEGER DEFAULT 600
+)
+RETURNS SETOF document_jobs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_stale_before TIMESTAMPTZ := NOW() - make_interval(secs => p_stale_after_seconds);
+  v_job RECORD;
+BEGIN
+  FOR v_job IN
+    UPDATE document_jobs
+    SET status = 'failed',
+        last_error = COALESCE(last_error, 'Worker stopped responding'),
+        checkpoint = '{}',
+        locked_by = NULL,
+        completed_at = NOW(),
+        updated_at = NOW()
+    WHERE status = 'running'
+      AND heartbeat_at < v_stale_before
+      AND attempts >= max_attempts
+    RETURNING id, document_id, last_error, payload
+  LOOP
+    DELETE FROM document_job_artifacts WHERE job_id = v_job.id;
+
+    IF v_job.payload ? 'reuseFromArchivedVersion' THEN
+      BEGIN
+        PERFORM restore_document_version(
+          v_job.document_id,
+          (v_job.payload->>'reuseFromArchivedVersion')::INTEGER,
+          true
+        );
+        CONTINUE;
+      EXCEPTION WHEN OTHERS THEN
+        -- Terugzetten mislukt: document op 'failed' zoals voorheen
+        NULL;
+      END;
+    END IF;
+
+    UPDATE documents
+    SET processing_status = 'failed',
+        processing_error = v_job.last_error
+    WHERE id = v_job.document_id;
+  END LOOP;
+
+  RETURN QUERY
+  UPDATE document_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      locked_by = p_worker_id,
+      locked_at = NOW(),
+      heartbeat_at = NOW(),
+      started_at = COALESCE(j.started_at, NOW()),
+      updated_at = NOW()
+  WHERE j.id = (
+    SELECT id FROM document_jobs
+    WHERE (status = 'queued' AND run_after <= NOW())
+       OR (status = 'running' AND heartbeat_at < v_stale_before AND attempts < max_attempts)
+    ORDER BY run_after, created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING j.*;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_document_job TO service_role;
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- Mislukte versie jobs en de huidige versie van hun document:
+-- SELECT j.id, j.document_id, j.payload->>'reuseFromArchivedVersion' AS previous_version,
+--        d.version, d.processing_status
+-- FROM document_jobs j
+-- JOIN documents d ON d.id = j.document_id
+-- WHERE j.status = 'failed'
+--   AND j.payload ? 'reuseFromArchivedVersion'
+-- ORDER BY j.completed_at DESC;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- Herstel claim_document_job() uit migratie 048 (STAP 3).
@@ -0,0 +1,250 @@
+-- ========================================
+-- Migration 051: QA chunk sets (chunking als experiment arm)
+-- ========================================
+-- Een QA experiment arm (migratie 046) kon retrieval, prompt en model
+-- variëren, maar niet de chunking: die geldt bij het inlezen van
+-- documenten, dus vergelijken kon alleen via runs vóór en na herverwerken.
+--
+-- NIEUW:
+-- - qa_chunk_set_chunks: scratch chunks per test run. Een arm met
+--   pipeline_config.chunking chunked en embedt de documenten van de
+--   tenant opnieuw in deze tabel (lib/products/hr-bot/qa/chunk-sets.ts);
+--   document_chunks blijft onaangeroerd
+-- - search_chunk_set_enhanced() en search_chunk_set_fulltext(): gelijk
+--   aan search_documents_enhanced (migratie 021) en
+--   search_documents_fulltext (migratie 029), maar over één chunk set.
+--   retrieveContext() gebruikt ze als RetrievalConfig.chunkSetId gezet is
+--
+-- De executor ruimt de chunk set op na het uitvoeren van de vragen;
+-- bij het verwijderen van de run gaat hij mee (ON DELETE CASCADE).
+-- ========================================
+
+-- ========================================
+-- STAP 1: Scratch chunks
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS qa_chunk_set_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chunk_set_id UUID NOT NULL REFERENCES qa_test_runs(id) ON DELETE CASCADE,
+  tenant_id TEXT NOT NULL,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  embedding VECTOR(1536),
+  page_number INTEGER,
+  chunk_index INTEGER,
+  metadata JSONB DEFAULT '{}',
+  search_config REGCONFIG NOT NULL DEFAULT 'simple',
+  content_tsv TSVECTOR GENERATED ALWAYS AS (to_tsvector(search_config, COALESCE(content, ''))) STORED,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Geen vector index: een chunk set is klein en wordt altijd op
+-- chunk_set_id gefilterd
+CREATE INDEX IF NOT EXISTS idx_qa_chunk_set_chunks_set
+  ON qa_chunk_set_chunks(chunk_set_id, document_id);
+
+CREATE INDEX IF NOT EXISTS idx_qa_chunk_set_chunks_content_tsv
+  ON qa_chunk_set_chunks USING GIN (content_tsv);
+
+COMMENT ON TABLE qa_chunk_set_chunks IS 'Scratch chunks van een QA run met eigen chunking opties (chunk_set_id = run)';
+
+-- Zelfde text search config als document_chunks (migratie 029)
+DROP TRIGGER IF EXISTS set_qa_chunk_set_chunks_search_config ON qa_chunk_set_chunks;
+CREATE TRIGGER set_qa_chunk_set_chunks_search_config
+  BEFORE INSERT ON qa_chunk_set_chunks
+  FOR EACH ROW
+  EXECUTE FUNCTION set_document_chunk_search_config();
+
+-- Enable RLS
+ALTER TABLE qa_chunk_set_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role has full access
+CREATE POLICY "Service role full access to qa_chunk_set_chunks"
+  ON qa_chunk_set_chunks
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ========================================
+-- STAP 2: Vector search over een chunk set
+-- ========================================
+-- Zelfde scoring als search_documents_enhanced (migratie 021).
+
+CREATE OR REPLACE FUNCTION search_chunk_set_enhanced(
+  p_chunk_set_id UUID,
+  p_query_embedding VECTOR(1536),
+  p_query_text TEXT,
+  p_top_k INTEGER DEFAULT 30,
+  p_similarity_threshold FLOAT DEFAULT 0.35,
+  p_vector_weight FLOAT DEFAULT 0.6,
+  p_keyword_weight FLOAT DEFAULT 0.4
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  document_id UUID,
+  filename TEXT,
+  file_path TEXT,
+  content TEXT,
+  page_number INTEGER,
+  similarity FLOAT,
+  keyword_score FLOAT,
+  combined_score FLOAT,
+  matched_terms TEXT[],
+  metadata JSONB
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  query_words TEXT[];
+BEGIN
+  query_words := string_to_array(lower(p_query_text), ' ');
+
+  RETURN QUERY
+  WITH vector_search AS (
+    SELECT
+      sc.id,
+      sc.document_id AS doc_id,
+      d.filename AS doc_filename,
+      d.file_path AS doc_file_path,
+      sc.content AS doc_content,
+      sc.page_number AS doc_page,
+      sc.metadata,
+      (1 - (sc.embedding <=> p_query_embedding))::FLOAT AS vec_similarity
+    FROM qa_chunk_set_chunks sc
+    JOIN documents d ON d.id = sc.document_id
+    WHERE sc.chunk_set_id = p_chunk_set_id
+      AND sc.embedding IS NOT NULL
+      AND 1 - (sc.embedding <=> p_query_embedding) >= p_similarity_threshold
+    ORDER BY sc.embedding <=> p_query_embedding
+    LIMIT p_top_k * 2
+  ),
+  keyword_scores AS (
+    SELECT
+      vs.id,
+      vs.doc_id,
+      vs.doc_filename,
+      vs.doc_file_path,
+      vs.doc_content,
+      vs.doc_page,
+      vs.metadata AS chunk_metadata,
+      vs.vec_similarity,
+      COALESCE(
+        (
+          SELECT COUNT(*)::FLOAT / GREATEST(array_length(query_words, 1), 1)
+          FROM unnest(query_words) qw
+          WHERE
+            EXISTS (
+              SELECT 1 FROM jsonb_array_elements_text(COALESCE(vs.metadata->'keywords', '[]'::jsonb)) kw
+              WHERE lower(kw) LIKE '%' || qw || '%'
+            )
+            OR EXISTS (
+              SELECT 1 FROM jsonb_array_elements_text(COALESCE(vs.metadata->'alternativeTerms', '[]'::jsonb)) at
+              WHERE lower(at) LIKE '%' || qw || '%'
+            )
+            OR lower(COALESCE(vs.metadata->>'summary', '')) LIKE '%' || qw || '%'
+        ), 0
+      ) AS kw_score,
+      ARRAY(
+        SELECT DISTINCT matched
+        FROM (
+          SELECT kw AS matched
+          FROM jsonb_array_elements_text(COALESCE(vs.metadata->'keywords', '[]'::jsonb)) kw
+          WHERE EXISTS (SELECT 1 FROM unnest(query_words) qw WHERE lower(kw) LIKE '%' || qw || '%')
+          UNION
+          SELECT at AS matched
+          FROM jsonb_array_elements_text(COALESCE(vs.metadata->'alternativeTerms', '[]'::jsonb)) at
+          WHERE EXISTS (SELECT 1 FROM unnest(query_words) qw WHERE lower(at) LIKE '%' || qw || '%')
+        ) matches
+      ) AS matched_terms_arr
+    FROM vector_search vs
+  )
+  SELECT
+    ks.id AS chunk_id,
+    ks.doc_id AS document_id,
+    ks.doc_filename AS filename,
+    ks.doc_file_path AS file_path,
+    ks.doc_content AS content,
+    ks.doc_page AS page_number,
+    ks.vec_similarity AS similarity,
+    ks.kw_score AS keyword_score,
+    (ks.vec_similarity * p_vector_weight + ks.kw_score * p_keyword_weight)::FLOAT AS combined_score,
+    ks.matched_terms_arr AS matched_terms,
+    ks.chunk_metadata AS metadata
+  FROM keyword_scores ks
+  ORDER BY (ks.vec_similarity * p_vector_weight + ks.kw_score * p_keyword_weight) DESC
+  LIMIT p_top_k;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_chunk_set_enhanced TO service_role;
+
+-- ========================================
+-- STAP 3: Full-text search over een chunk set
+-- ========================================
+-- Zelfde query en ranking als search_documents_fulltext (migratie 029).
+
+CREATE OR REPLACE FUNCTION search_chunk_set_fulltext(
+  p_chunk_set_id UUID,
+  p_tenant_id TEXT,
+  p_query_text TEXT,
+  p_top_k INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  document_id UUID,
+  filename TEXT,
+  file_path TEXT,
+  content TEXT,
+  page_number INTEGER,
+  rank FLOAT,
+  metadata JSONB
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_config REGCONFIG;
+  v_query TSQUERY;
+BEGIN
+  v_config := tenant_search_config(p_tenant_id);
+  v_query := replace(plainto_tsquery(v_config, COALESCE(p_query_text, ''))::TEXT, ' & ', ' | ')::TSQUERY;
+
+  IF numnode(v_query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    sc.id AS chunk_id,
+    sc.document_id,
+    d.filename,
+    d.file_path,
+    sc.content,
+    sc.page_number,
+    ts_rank_cd(sc.content_tsv, v_query, 1 | 32)::FLOAT AS rank,
+    sc.metadata
+  FROM qa_chunk_set_chunks sc
+  JOIN documents d ON d.id = sc.document_id
+  WHERE sc.chunk_set_id = p_chunk_set_id
+    AND sc.content_tsv @@ v_query
+  ORDER BY ts_rank_cd(sc.content_tsv, v_query, 1 | 32) DESC
+  LIMIT p_top_k;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_chunk_set_fulltext TO service_role;
+
+-- ========================================
+-- VERIFICATIE (optioneel)
+-- ========================================
+-- Chunk sets die nog bestaan (horen na de run opgeruimd te zijn):
+-- SELECT chunk_set_id, tenant_id, COUNT(*) AS chunks, COUNT(DISTINCT document_id) AS documents
+-- FROM qa_chunk_set_chunks
+-- GROUP BY chunk_set_id, tenant_id;
+
+-- ========================================
+-- ROLLBACK (indien nodig)
+-- ========================================
+-- DROP FUNCTION IF EXISTS search_chunk_set_fulltext(UUID, TEXT, TEXT, INTEGER);
+-- DROP FUNCTION IF EXISTS search_chunk_set_enhanced(UUID, VECTOR, TEXT, INTEGER, FLOAT, FLOAT, FLOAT);
+-- DROP TABLE IF EXISTS qa_chunk_set_chunks;
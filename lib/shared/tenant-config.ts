@@ -16,6 +16,26 @@
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { adjustColorBrightness } from '@/lib/ui/color-utils';
+import {
+  ChatModelSettings,
+  DEFAULT_CHAT_MODEL_SETTINGS,
+  resolveChatModelSettings
+} from '@/lib/bot/model-settings';
+import {
+  HybridSearchSettings,
+  DEFAULT_HYBRID_SEARCH_SETTINGS,
+  resolveHybridSearchSettings
+} from '@/lib/rag/search-settings';
+import {
+  AnswerCacheSettings,
+  DEFAULT_ANSWER_CACHE_SETTINGS,
+  resolveAnswerCacheSettings
+} from '@/lib/rag/answer-cache-settings';
+import {
+  UsageLimits,
+  DEFAULT_USAGE_LIMITS,
+  resolveUsageLimits
+} from '@/lib/shared/usage-limits-settings';
 
 // ========================================
 // TYPES
@@ -100,6 +120,22 @@ interface CacheEntry {
 // In-memory cache for tenant configurations
 const tenantCache = new Map<string, CacheEntry>();
 
+// In-memory cache for chat model settings (server-only, niet in TenantConfig
+// omdat die ook naar de browser gaat via /api/tenant)
+const modelSettingsCache = new Map<string, { settings: ChatModelSettings; timestamp: number }>();
+
+// In-memory cache for hybrid search settings (server-only, zelfde reden)
+const searchSettingsCache = new Map<string, { settings: HybridSearchSettings; timestamp: number }>();
+
+// In-memory cache for answer cache settings (server-only, zelfde reden)
+const answerCacheSettingsCache = new Map<string, { settings: AnswerCacheSettings; timestamp: number }>();
+
+// In-memory cache for the API key requirement (server-only, zelfde reden)
+const requireApiKeyCache = new Map<string, { required: boolean; timestamp: number }>();
+
+// In-memory cache for rate limits & quota's (server-only, zelfde reden)
+const usageLimitsCache = new Map<string, { limits: UsageLimits; timestamp: number }>();
+
 // Cache TTL in milliseconds (5 minutes)
 const CACHE_TTL = 5 * 60 * 1000;
 
@@ -110,9 +146,19 @@ const CACHE_TTL = 5 * 60 * 1000;
 export function clearTenantCache(tenantId?: string): void {
   if (tenantId) {
     tenantCache.delete(tenantId);
+    modelSettingsCache.delete(tenantId);
+    searchSettingsCache.delete(tenantId);
+    answerCacheSettingsCache.delete(tenantId);
+    requireApiKeyCache.delete(tenantId);
+    usageLimitsCache.delete(tenantId);
     console.log(`🗑️ [TenantConfig] Cache cleared for tenant: ${tenantId}`);
   } else {
     tenantCache.clear();
+    modelSettingsCache.clear();
+    searchSettingsCache.clear();
+    answerCacheSettingsCache.clear();
+    requireApiKeyCache.clear();
+    usageLimitsCache.clear();
     console.log('🗑️ [TenantConfig] All tenant cache cleared');
   }
 }
@@ -343,3 +389,201 @@ export async function getTenantConfigWithFallback(
     is_active: true
   };
 }
+
+/**
+ * Get chat model settings for a tenant (model, temperature, max tokens, history window)
+ * Valt terug op DEFAULT_CHAT_MODEL_SETTINGS als de tenant niet gevonden wordt.
+ *
+ * @param tenantId - The tenant ID to look up
+ * @param bypassCache - Force a fresh fetch from database
+ */
+export async function getTenantModelSettings(
+  tenantId: string,
+  bypassCache: boolean = false
+): Promise<ChatModelSettings> {
+  if (!bypassCache) {
+    const cached = modelSettingsCache.get(tenantId);
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      return cached.settings;
+    }
+  }
+
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return { ...DEFAULT_CHAT_MODEL_SETTINGS };
+  }
+
+  const { data, error } = await supabase
+    .from('tenants')
+    .select('chat_model, chat_temperature, chat_max_output_tokens, chat_history_window')
+    .eq('id', tenantId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`⚠️ [TenantConfig] Could not load model settings for ${tenantId}:`, error.message);
+    return { ...DEFAULT_CHAT_MODEL_SETTINGS };
+  }
+
+  const settings = resolveChatModelSettings(data);
+  modelSettingsCache.set(tenantId, { settings, timestamp: Date.now() });
+
+  console.log(`🤖 [TenantConfig] Model settings for ${tenantId}: ${settings.model}, temp ${settings.temperature}, history ${settings.historyWindow}`);
+  return settings;
+}
+
+/**
+ * Get hybrid search settings for a tenant (RRF gewichten, k, thresholds)
+ * Valt terug op DEFAULT_HYBRID_SEARCH_SETTINGS als de tenant niet gevonden wordt.
+ *
+ * @param tenantId - The tenant ID to look up
+ * @param bypassCache - Force a fresh fetch from database
+ */
+export async function getTenantSearchSettings(
+  tenantId: string,
+  bypassCache: boolean = false
+): Promise<HybridSearchSettings> {
+  if (!bypassCache) {
+    const cached = searchSettingsCache.get(tenantId);
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      return cached.settings;
+    }
+  }
+
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return { ...DEFAULT_HYBRID_SEARCH_SETTINGS };
+  }
+
+  const { data, error } = await supabase
+    .from('tenants')
+    .select('search_vector_weight, search_fulltext_weight, search_rrf_k, search_similarity_threshold, search_keyword_weight')
+    .eq('id', tenantId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`⚠️ [TenantConfig] Could not load search settings for ${tenantId}:`, error.message);
+    return { ...DEFAULT_HYBRID_SEARCH_SETTINGS };
+  }
+
+  const settings = resolveHybridSearchSettings(data);
+  searchSettingsCache.set(tenantId, { settings, timestamp: Date.now() });
+
+  console.log(`🔎 [TenantConfig] Search settings for ${tenantId}: vector ${settings.vectorWeight}, fulltext ${settings.fulltextWeight}, k ${settings.rrfK}, threshold ${settings.similarityThreshold}`);
+  return settings;
+}
+
+/**
+ * Get answer cache settings for a tenant (aan/uit, threshold, TTL)
+ * Valt terug op DEFAULT_ANSWER_CACHE_SETTINGS (cache uit) als de tenant niet gevonden wordt.
+ *
+ * @param tenantId - The tenant ID to look up
+ * @param bypassCache - Force a fresh fetch from database
+ */
+export async function getTenantAnswerCacheSettings(
+  tenantId: string,
+  bypassCache: boolean = false
+): Promise<AnswerCacheSettings> {
+  if (!bypassCache) {
+    const cached = answerCacheSettingsCache.get(tenantId);
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      return cached.settings;
+    }
+  }
+
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return { ...DEFAULT_ANSWER_CACHE_SETTINGS };
+  }
+
+  const { data, error } = await supabase
+    .from('tenants')
+    .select('answer_cache_enabled, answer_cache_threshold, answer_cache_ttl_hours')
+    .eq('id', tenantId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`⚠️ [TenantConfig] Could not load answer cache settings for ${tenantId}:`, error.message);
+    return { ...DEFAULT_ANSWER_CACHE_SETTINGS };
+  }
+
+  const settings = resolveAnswerCacheSettings(data);
+  answerCacheSettingsCache.set(tenantId, { settings, timestamp: Date.now() });
+  return settings;
+}
+
+/**
+ * Check of een tenant een API key verplicht voor /api/chat (migration 031)
+ * Valt terug op false als de tenant of de kolom niet gevonden wordt.
+ *
+ * @param tenantId - The tenant ID to look up
+ * @param bypassCache - Force a fresh fetch from database
+ */
+export async function getTenantRequiresApiKey(
+  tenantId: string,
+  bypassCache: boolean = false
+): Promise<boolean> {
+  if (!bypassCache) {
+    const cached = requireApiKeyCache.get(tenantId);
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      return cached.required;
+    }
+  }
+
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return false;
+  }
+
+  const { data, error } = await supabase
+    .from('tenants')
+    .select('require_api_key')
+    .eq('id', tenantId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`⚠️ [TenantConfig] Could not load API key requirement for ${tenantId}:`, error.message);
+    return false;
+  }
+
+  const required = data?.require_api_key === true;
+  requireApiKeyCache.set(tenantId, { required, timestamp: Date.now() });
+  return required;
+}
+
+/**
+ * Get rate limits & monthly quota's for a tenant (server-only)
+ *
+ * Geeft de standaard limieten (zonder quota) als de tenant niet gevonden
+ * wordt of Supabase niet geconfigureerd is.
+ */
+export async function getTenantUsageLimits(
+  tenantId: string,
+  bypassCache: boolean = false
+): Promise<UsageLimits> {
+  if (!bypassCache) {
+    const cached = usageLimitsCache.get(tenantId);
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      return cached.limits;
+    }
+  }
+
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return { ...DEFAULT_USAGE_LIMITS };
+  }
+
+  const { data, error } = await supabase
+    .from('tenants')
+    .select('rate_limit_chat_per_minute, rate_limit_api_per_minute, monthly_message_quota, monthly_cost_quota_usd')
+    .eq('id', tenantId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`⚠️ [TenantConfig] Could not load usage limits for ${tenantId}:`, error.message);
+    return { ...DEFAULT_USAGE_LIMITS };
+  }
+
+  const limits = resolveUsageLimits(data);
+  usageLimitsCache.set(tenantId, { limits, timestamp: Date.now() });
+  return limits;
+}
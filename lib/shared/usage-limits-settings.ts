@@ -0,0 +1,97 @@
+/**
+ * ========================================
+ * USAGE LIMITS SETTINGS
+ * ========================================
+ *
+ * Per-tenant rate limits en maandelijkse quota's:
+ * - Chat requests per minuut (per IP)
+ * - API requests per minuut (per API key, /api/v1)
+ * - Max. aantal chat berichten per kalendermaand
+ * - Max. chat kosten (USD) per kalendermaand
+ *
+ * De waardes staan op de tenants tabel (migration 033).
+ * NULL = standaard rate limit, of geen quota.
+ *
+ * Dit bestand kan veilig op zowel client als server geïmporteerd worden.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface UsageLimits {
+  chatPerMinute: number;
+  apiPerMinute: number;
+  monthlyMessageQuota: number | null;   // null = onbeperkt
+  monthlyCostQuotaUsd: number | null;   // null = onbeperkt
+}
+
+/**
+ * Ruwe kolommen zoals ze op de tenants rij staan
+ */
+export interface TenantUsageLimitColumns {
+  rate_limit_chat_per_minute?: number | null;
+  rate_limit_api_per_minute?: number | null;
+  monthly_message_quota?: number | null;
+  monthly_cost_quota_usd?: number | string | null;  // NUMERIC kan als string terugkomen
+}
+
+// ========================================
+// DEFAULTS & LIMITS
+// ========================================
+
+export const DEFAULT_USAGE_LIMITS: UsageLimits = {
+  chatPerMinute: 10,
+  apiPerMinute: 60,
+  monthlyMessageQuota: null,
+  monthlyCostQuotaUsd: null
+};
+
+export const RATE_LIMIT_PER_MINUTE_RANGE = { min: 1, max: 600 };
+export const MONTHLY_MESSAGE_QUOTA_RANGE = { min: 1, max: 10_000_000 };
+export const MONTHLY_COST_QUOTA_RANGE = { min: 0.01, max: 100_000 };
+
+// ========================================
+// HELPERS
+// ========================================
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.min(range.max, Math.max(range.min, value));
+}
+
+function toNumber(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Zet de tenant kolommen om naar geldige limits.
+ * Waardes buiten bereik worden begrensd, lege waardes vallen terug op de defaults.
+ */
+export function resolveUsageLimits(
+  columns: TenantUsageLimitColumns | null | undefined
+): UsageLimits {
+  const defaults = DEFAULT_USAGE_LIMITS;
+  if (!columns) return { ...defaults };
+
+  const chatPerMinute = toNumber(columns.rate_limit_chat_per_minute);
+  const apiPerMinute = toNumber(columns.rate_limit_api_per_minute);
+  const messageQuota = toNumber(columns.monthly_message_quota);
+  const costQuota = toNumber(columns.monthly_cost_quota_usd);
+
+  return {
+    chatPerMinute: chatPerMinute !== null
+      ? clamp(Math.round(chatPerMinute), RATE_LIMIT_PER_MINUTE_RANGE)
+      : defaults.chatPerMinute,
+    apiPerMinute: apiPerMinute !== null
+      ? clamp(Math.round(apiPerMinute), RATE_LIMIT_PER_MINUTE_RANGE)
+      : defaults.apiPerMinute,
+    monthlyMessageQuota: messageQuota !== null
+      ? clamp(Math.round(messageQuota), MONTHLY_MESSAGE_QUOTA_RANGE)
+      : defaults.monthlyMessageQuota,
+    monthlyCostQuotaUsd: costQuota !== null
+      ? clamp(costQuota, MONTHLY_COST_QUOTA_RANGE)
+      : defaults.monthlyCostQuotaUsd
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * ========================================
+ * ZIP READER (SERVER-ONLY)
+ * ========================================
+ *
+ * Minimale ZIP reader op basis van node:zlib, zonder extra dependency.
+ * Gebruikt voor DOCX bestanden (een DOCX is een ZIP met XML).
+ *
+ * Ondersteund: stored (0) en deflate (8), UTF-8 bestandsnamen.
+ * Niet ondersteund: ZIP64, encryptie, multi-disk archieven.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface ZipEntry {
+  name: string;
+  size: number;              // Uitgepakte grootte (uit de central directory)
+  compressedSize: number;
+  isDirectory: boolean;
+  read: () => Buffer;        // Pakt de entry uit (lazy)
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+// Bescherming tegen zip bombs: max. uitgepakte grootte per entry
+const DEFAULT_MAX_ENTRY_SIZE = 200 * 1024 * 1024;  // 200MB
+
+// ========================================
+// HELPERS
+// ========================================
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const minOffset = Math.max(0, buffer.length - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+
+  for (let offset = buffer.length - EOCD_MIN_SIZE; offset >= minOffset; offset--) {
+    if (buffer.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      return offset;
+    }
+  }
+
+  throw new Error('Invalid ZIP file: end of central directory not found');
+}
+
+// ========================================
+// MAIN FUNCTIONS
+// ========================================
+
+/**
+ * Lees de entries van een ZIP archief.
+ *
+ * @throws Error bij een ongeldig of niet-ondersteund archief
+ */
+export function readZipEntries(
+  buffer: Buffer,
+  options: { maxEntrySize?: number } = {}
+): ZipEntry[] {
+  const maxEntrySize = options.maxEntrySize ?? DEFAULT_MAX_ENTRY_SIZE;
+
+  if (buffer.length < EOCD_MIN_SIZE) {
+    throw new Error('Invalid ZIP file: too small');
+  }
+
+  const eocd = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  const centralDirOffset = buffer.readUInt32LE(eocd + 16);
+
+  if (centralDirOffset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = centralDirOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Invalid ZIP file: corrupt central directory');
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+
+    // Bit 11: UTF-8 naam, anders CP437 (latin1 is een redelijke benadering)
+    const nameBytes = buffer.subarray(offset + 46, offset + 46 + nameLength);
+    const name = nameBytes.toString(flags & 0x800 ? 'utf8' : 'latin1');
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const read = (): Buffer => {
+      if (flags & 0x1) {
+        throw new Error(`Encrypted ZIP entries are not supported: ${name}`);
+      }
+      if (size > maxEntrySize) {
+        throw new Error(`ZIP entry too large: ${name}`);
+      }
+      if (buffer.readUInt32LE(localHeaderOffset) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`Invalid ZIP file: corrupt local header for ${name}`);
+      }
+
+      const localNameLength = buffer.readUInt16LE(localHeaderOffset + 26);
+      const localExtraLength = buffer.readUInt16LE(localHeaderOffset + 28);
+      const dataStart = localHeaderOffset + 30 + localNameLength + localExtraLength;
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+      switch (method) {
+        case 0:
+          return Buffer.from(data);
+        case 8:
+          return inflateRawSync(data, { maxOutputLength: maxEntrySize });
+        default:
+          throw new Error(`Unsupported ZIP compression method ${method}: ${name}`);
+      }
+    };
+
+    entries.push({
+      name,
+      size,
+      compressedSize,
+      isDirectory: name.endsWith('/'),
+      read
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Lees één bestand uit een ZIP archief (null als het niet bestaat)
+ */
+export function readZipEntry(buffer: Buffer, name: string): Buffer | null {
+  const entry = readZipEntries(buffer).find(e => e.name === name);
+  return entry ? entry.read() : null;
+}
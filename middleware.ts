@@ -11,20 +11,45 @@
  * 3. Session refresh voor Supabase Auth
  *
  * TENANT DETECTIE VOLGORDE (eerste match wint):
+ * 0. API key: Authorization: Bearer lvt_... → tenant van de key
  * 1. Subdomain: acme.localhost:3000 → tenant_id = "acme"
  * 2. Query parameter: ?tenant=acme
  * 3. Header: X-Tenant-ID: acme
  * 4. Environment variable: TENANT_ID (fallback)
  *
+ * Een ongeldige of ingetrokken key geeft 401. Een public (widget) key
+ * werkt alleen vanaf de allowed origins van de key of vanuit onze eigen
+ * /embed iframe (same-origin).
+ *
+ * EMBED: /embed krijgt frame-ancestors met de embed origins van de
+ * tenant (tenants.embed_allowed_origins). Pogingen vanaf andere
+ * domeinen worden gelogd in embed_origin_violations.
+ *
  * AUTH BESCHERMING:
  * - /api/admin/* routes vereisen geldige Supabase session (admin users)
  * - /api/portal/* routes vereisen geldige Supabase session (customer users)
+ * - /api/v1/* routes vereisen een API key (scope check in de route)
  * - Andere routes zijn niet beschermd
  */
 
 import { NextResponse } from 'next/server';
-import type { NextRequest } from 'next/server';
+import type { NextFetchEvent, NextRequest } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
+import {
+  getApiKeyFromRequest,
+  isApiKeyFormat,
+  resolveApiKey,
+  setApiKeyHeaders,
+  stripApiKeyHeaders,
+  type ApiKeyPrincipal
+} from '@/lib/shared/auth/api-keys';
+import { isOriginAllowed } from '@/lib/shared/auth/api-key-types';
+import {
+  getEmbedFrameAncestors,
+  getRequestOrigin,
+  getTenantEmbedOrigins,
+  logEmbedOriginViolation
+} from '@/lib/shared/embed-origins';
 
 // ========================================
 // CONFIGURATION
@@ -143,7 +168,7 @@ function createMiddlewareClient(request: NextRequest, response: NextResponse, st
 // MAIN MIDDLEWARE
 // ========================================
 
-export async function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest, event: NextFetchEvent) {
   const url = new URL(request.url);
   const hostname = request.headers.get('host') || '';
   const pathname = url.pathname;
@@ -154,10 +179,57 @@ export async function middleware(request: NextRequest) {
 
   let tenantId: string | null = null;
   let tenantSource: string = 'none';
+  let apiKey: ApiKeyPrincipal | null = null;
+
+  // API key (alleen voor API routes buiten admin/portal)
+  const rawApiKey = pathname.startsWith('/api/') && !isProtectedApiRoute(pathname)
+    ? getApiKeyFromRequest(request)
+    : null;
+
+  if (rawApiKey) {
+    try {
+      apiKey = await resolveApiKey(rawApiKey);
+    } catch (err) {
+      console.error(`❌ [Middleware] API key lookup failed: ${(err as Error).message}`);
+      return NextResponse.json(
+        { error: 'Server configuration error', message: 'API key kon niet gecontroleerd worden' },
+        { status: 503 }
+      );
+    }
+
+    if (!apiKey) {
+      console.warn(`🚫 [Middleware] Invalid or revoked API key for ${pathname}`);
+      return NextResponse.json(
+        { error: 'invalid_api_key', message: 'Ongeldige of ingetrokken API key' },
+        { status: 401 }
+      );
+    }
+
+    // Public keys: alleen vanaf de eigen origins of vanuit onze /embed iframe
+    if (apiKey.keyType === 'public') {
+      const requestOrigin = getRequestOrigin(request);
+      const allowed = !!requestOrigin && (
+        requestOrigin === url.origin || isOriginAllowed(requestOrigin, apiKey.allowedOrigins)
+      );
+
+      if (!allowed) {
+        console.warn(`🚫 [Middleware] Public key ${apiKey.keyId} (${apiKey.tenantId}) used from origin: ${requestOrigin || 'unknown'}`);
+        return NextResponse.json(
+          { error: 'origin_not_allowed', message: 'Deze API key is niet geldig vanaf dit domein' },
+          { status: 403 }
+        );
+      }
+    }
 
-  // Try subdomain first
-  tenantId = getTenantFromSubdomain(hostname);
-  if (tenantId) tenantSource = 'subdomain';
+    tenantId = apiKey.tenantId;
+    tenantSource = 'api_key';
+  }
+
+  // Try subdomain
+  if (!tenantId) {
+    tenantId = getTenantFromSubdomain(hostname);
+    if (tenantId) tenantSource = 'subdomain';
+  }
 
   // Try query parameter
   if (!tenantId) {
@@ -187,7 +259,13 @@ export async function middleware(request: NextRequest) {
   // ========================================
 
   // Clone headers and add tenant info
+  // x-api-key-* mag alleen door de middleware gezet worden
   const requestHeaders = new Headers(request.headers);
+  stripApiKeyHeaders(requestHeaders);
+
+  if (apiKey) {
+    setApiKeyHeaders(requestHeaders, apiKey);
+  }
 
   if (tenantId) {
     requestHeaders.set('x-tenant-id', tenantId);
@@ -318,14 +396,50 @@ export async function middleware(request: NextRequest) {
   if (pathname.startsWith('/embed')) {
     response.headers.delete('X-Frame-Options');
 
-    // Haal allowed domains uit environment (comma-separated)
-    // Default: alleen eigen domein voor security
-    const ALLOWED_EMBED_DOMAINS = process.env.ALLOWED_EMBED_DOMAINS || '';
-    const frameAncestors = ALLOWED_EMBED_DOMAINS
-      ? `frame-ancestors 'self' ${ALLOWED_EMBED_DOMAINS}`
-      : "frame-ancestors 'self'";
+    // frame-ancestors: eigen domein + de embed origins van de tenant
+    // (+ de origins van een public key via ?key=lvt_pk_...).
+    // Zonder eigen origins: ALLOWED_EMBED_DOMAINS uit environment
+    const embedKey = url.searchParams.get('key');
+    let embedTenantId = tenantId;
+    let keyOrigins: string[] = [];
+
+    if (embedKey && isApiKeyFormat(embedKey)) {
+      const embedPrincipal = await resolveApiKey(embedKey).catch(() => null);
+      if (embedPrincipal?.keyType === 'public') {
+        keyOrigins = embedPrincipal.allowedOrigins;
+        embedTenantId = embedPrincipal.tenantId;
+      } else {
+        console.warn(`🚫 [Middleware] Invalid embed key for ${pathname}`);
+      }
+    }
 
-    response.headers.set('Content-Security-Policy', frameAncestors);
+    const tenantOrigins = embedTenantId ? await getTenantEmbedOrigins(embedTenantId) : [];
+    response.headers.set('Content-Security-Policy', getEmbedFrameAncestors(tenantOrigins, keyOrigins));
+
+    // De browser blokkeert de iframe zelf; hier alleen loggen wie het probeert.
+    // De Referer van een iframe navigatie is de pagina die hem embedt.
+    const embedderOrigin = request.headers.get('sec-fetch-dest') === 'iframe'
+      ? getRequestOrigin(request)
+      : null;
+
+    // Bij de legacy env var fallback is er geen tenant lijst om tegen te checken
+    const embedOrigins = [...tenantOrigins, ...keyOrigins];
+    const usesLegacyDomains = embedOrigins.length === 0 && !!process.env.ALLOWED_EMBED_DOMAINS;
+
+    if (
+      embedTenantId &&
+      embedderOrigin &&
+      embedderOrigin !== url.origin &&
+      !usesLegacyDomains &&
+      !isOriginAllowed(embedderOrigin, embedOrigins)
+    ) {
+      event.waitUntil(logEmbedOriginViolation({
+        tenantId: embedTenantId,
+        kind: 'frame',
+        origin: embedderOrigin,
+        request
+      }));
+    }
   }
 
   return response;
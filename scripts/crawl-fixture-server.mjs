@@ -0,0 +1,129 @@
+/**
+ * Local fixture site for the website crawler (lib/rag/web-crawler.ts)
+ *
+ * Run with: node scripts/crawl-fixture-server.mjs [port] [--changed] [--removed]
+ *
+ * Serves a small "werken bij" site with robots.txt, a sitemap and a few
+ * policy pages. Add it as a crawl source with start URL
+ * http://localhost:<port>/ (type page) or http://localhost:<port>/sitemap.xml
+ * (type sitemap). Restart with --changed or --removed and crawl again to
+ * check change detection:
+ *   --changed  the leave policy has a different text (→ new version)
+ *   --removed  the remote work FAQ returns 404 (→ document removed)
+ *
+ * Expected with start URL / , max depth 2 and exclude pattern /vacatures:
+ *   indexed:  /, /beleid/verlof, /beleid/thuiswerken, /beleid/thuiswerken/faq
+ *   skipped:  /intern/salarissen (robots.txt), /vacatures/1 (exclude),
+ *             /privacy (noindex), /huisstijl.pdf (not HTML)
+ */
+
+import http from 'http';
+
+const args = process.argv.slice(2);
+const port = parseInt(args.find(arg => /^\d+$/.test(arg)) || '4010', 10);
+const changed = args.includes('--changed');
+const removed = args.includes('--removed');
+
+function page(title, body, head = '') {
+  return `<!DOCTYPE html>
+<html lang="nl">
+<head><title>${title}</title>${head}<script>window.rendered = ${Date.now()};</script></head>
+<body>
+  <nav><a href="/">Home</a> | <a href="/beleid/verlof">Verlof</a> | <a href="/beleid/thuiswerken">Thuiswerken</a></nav>
+  <main>${body}</main>
+  <footer>Gegenereerd om ${new Date().toISOString()}</footer>
+</body>
+</html>`;
+}
+
+const pages = {
+  '/': () => page('Werken bij Fixture BV', `
+    <h1>Werken bij Fixture BV</h1>
+    <p>Alles over je arbeidsvoorwaarden.</p>
+    <ul>
+      <li><a href="/beleid/verlof?utm_source=home">Verlofregeling</a></li>
+      <li><a href="/beleid/thuiswerken/">Thuiswerkbeleid</a></li>
+      <li><a href="/intern/salarissen">Salarisschalen</a></li>
+      <li><a href="/vacatures/1">Vacature HR adviseur</a></li>
+      <li><a href="/privacy">Privacy</a></li>
+      <li><a href="/huisstijl.pdf">Huisstijl</a></li>
+      <li><a href="https://example.com/extern">Externe site</a></li>
+    </ul>`),
+
+  '/beleid/verlof': () => page('Verlofregeling', changed
+    ? `<h1>Verlofregeling</h1>
+       <h2>Vakantiedagen</h2>
+       <p>Bij een fulltime dienstverband heb je recht op 27 vakantiedagen per jaar.</p>
+       <h2>Bijzonder verlof</h2>
+       <p>Bij verhuizing krijg je één dag bijzonder verlof.</p>`
+    : `<h1>Verlofregeling</h1>
+       <h2>Vakantiedagen</h2>
+       <p>Bij een fulltime dienstverband heb je recht op 25 vakantiedagen per jaar.</p>
+       <h2>Bijzonder verlof</h2>
+       <p>Bij verhuizing krijg je één dag bijzonder verlof.</p>`),
+
+  '/beleid/thuiswerken': () => page('Thuiswerkbeleid', `
+    <h1>Thuiswerkbeleid</h1>
+    <p>Je mag maximaal drie dagen per week thuiswerken.</p>
+    <p>Zie ook de <a href="/beleid/thuiswerken/faq">veelgestelde vragen</a>.</p>`),
+
+  '/beleid/thuiswerken/faq': () => removed ? null : page('Thuiswerken FAQ', `
+    <h1>Thuiswerken FAQ</h1>
+    <h2>Krijg ik een thuiswerkvergoeding?</h2>
+    <p>Ja, € 2,35 per thuiswerkdag.</p>`),
+
+  '/intern/salarissen': () => page('Salarisschalen', '<h1>Salarisschalen</h1><p>Vertrouwelijk.</p>'),
+
+  '/vacatures/1': () => page('Vacature HR adviseur', '<h1>HR adviseur</h1><p>32 uur per week.</p>'),
+
+  '/privacy': () => page('Privacy', '<h1>Privacy</h1><p>Privacyverklaring.</p>', '<meta name="robots" content="noindex">')
+};
+
+const robotsTxt = `User-agent: *
+Disallow: /intern/
+
+Sitemap: http://localhost:${port}/sitemap.xml
+`;
+
+const sitemapXml = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>http://localhost:${port}/</loc></url>
+  <url><loc>http://localhost:${port}/beleid/verlof</loc></url>
+  <url><loc>http://localhost:${port}/beleid/thuiswerken</loc></url>
+  <url><loc>http://localhost:${port}/beleid/thuiswerken/faq</loc></url>
+  <url><loc>http://localhost:${port}/intern/salarissen</loc></url>
+</urlset>
+`;
+
+const server = http.createServer((req, res) => {
+  const path = new URL(req.url, `http://localhost:${port}`).pathname.replace(/(.)\/+$/, '$1');
+  console.log(`${req.method} ${req.url}`);
+
+  if (path === '/robots.txt') {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    return res.end(robotsTxt);
+  }
+
+  if (path === '/sitemap.xml') {
+    res.writeHead(200, { 'Content-Type': 'application/xml' });
+    return res.end(sitemapXml);
+  }
+
+  if (path === '/huisstijl.pdf') {
+    res.writeHead(200, { 'Content-Type': 'application/pdf' });
+    return res.end('%PDF-1.4\n%%EOF\n');
+  }
+
+  const html = pages[path] ? pages[path]() : null;
+  if (!html) {
+    res.writeHead(404, { 'Content-Type': 'text/html' });
+    return res.end('<h1>Niet gevonden</h1>');
+  }
+
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(html);
+});
+
+server.listen(port, () => {
+  console.log(`Crawl fixture site on http://localhost:${port}/${changed ? ' (--changed)' : ''}${removed ? ' (--removed)' : ''}`);
+});